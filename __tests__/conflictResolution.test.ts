@@ -0,0 +1,108 @@
+import {
+  ConflictAuditLog,
+  createCustomStrategy,
+  fieldMergeStrategy,
+  getConflictStrategy,
+  lastWriterWinsStrategy,
+} from "../utils/conflictResolution";
+import { Message } from "../types/message";
+
+const base: Message = {
+  _id: "m1",
+  conversationId: "conv-1",
+  fromUserId: "user-1",
+  toUserId: "user-2",
+  text: "original",
+  type: "text",
+  createdAt: 1000,
+};
+
+describe("conflict resolution strategies", () => {
+  it("last-writer-wins keeps the version with the later server clock", async () => {
+    const local = { ...base, text: "local edit", editedAt: 3000 };
+    const remote = { ...base, text: "remote edit", editedAt: 2000 };
+
+    const outcome = await lastWriterWinsStrategy.resolve({
+      conversationId: "conv-1",
+      local,
+      remote,
+    });
+
+    expect(outcome.winner).toBe("local");
+    expect(outcome.resolved.text).toBe("local edit");
+  });
+
+  it("field-merge combines newer edits with forward-only receipts", async () => {
+    const local: Message = { ...base, status: "read", readAt: 1500 };
+    const remote: Message = {
+      ...base,
+      text: "edited",
+      editedAt: 2000,
+      status: "delivered",
+    };
+
+    const outcome = await fieldMergeStrategy.resolve({
+      conversationId: "conv-1",
+      local,
+      remote,
+    });
+
+    expect(outcome.winner).toBe("merged");
+    expect(outcome.resolved).toMatchObject({
+      text: "edited",
+      status: "read",
+      readAt: 1500,
+    });
+  });
+
+  it("accepts custom strategies", () => {
+    const custom = createCustomStrategy("always-local", ({ local }) => ({
+      resolved: local,
+      winner: "local",
+    }));
+
+    expect(getConflictStrategy(custom)).toBe(custom);
+    expect(getConflictStrategy("server").name).toBe("server");
+  });
+});
+
+describe("ConflictAuditLog", () => {
+  it("records changed fields and filters newest first", () => {
+    const log = new ConflictAuditLog(2);
+    const remote = { ...base, text: "server" };
+
+    log.record({ conversationId: "conv-1", local: base, remote }, "server", {
+      resolved: remote,
+      winner: "remote",
+    });
+    log.record(
+      {
+        conversationId: "conv-2",
+        local: base,
+        remote: { ...remote, _id: "m2" },
+      },
+      "server",
+      { resolved: remote, winner: "remote" }
+    );
+    log.record(
+      {
+        conversationId: "conv-1",
+        local: base,
+        remote: { ...remote, _id: "m3" },
+      },
+      "field-merge",
+      { resolved: base, winner: "local" }
+    );
+
+    expect(log.size).toBe(2);
+    const conv1 = log.query({ conversationId: "conv-1" });
+    expect(conv1).toHaveLength(1);
+    expect(conv1[0]).toMatchObject({
+      messageId: "m3",
+      strategy: "field-merge",
+      changedFields: ["text"],
+      resolved: { text: "original" },
+    });
+    expect(log.query().map((r) => r.messageId)).toEqual(["m3", "m2"]);
+  });
+});
@@ -0,0 +1,69 @@
+import { CreditLedger } from "../utils/creditLedger";
+import type { CreditWallet } from "../types/inAppPurchase";
+
+const wallet = (
+  boost: number,
+  updatedAt: number,
+  creditedTransactionIds: string[] = []
+): CreditWallet => ({
+  balances: { boost, spotlight_day: 0, super_interest: 0 },
+  updatedAt,
+  creditedTransactionIds,
+});
+
+describe("CreditLedger", () => {
+  let ledger: CreditLedger;
+
+  beforeEach(async () => {
+    ledger = new CreditLedger("credit_ledger_test");
+    await ledger.clear();
+  });
+
+  it("holds purchases as pending until the server credits them", async () => {
+    await ledger.recordPendingPurchase("tx1", "boost", 5);
+    await ledger.recordPendingPurchase("tx1", "boost", 5);
+    expect(ledger.getPendingPurchases()).toHaveLength(1);
+    expect(ledger.getBalance("boost")).toBe(0);
+
+    await ledger.applyValidation({
+      transactionId: "tx1",
+      credit: "boost",
+      quantity: 5,
+      wallet: wallet(5, 100),
+    });
+    expect(ledger.getPendingPurchases()).toHaveLength(0);
+    expect(ledger.getBalance("boost")).toBe(5);
+
+    // A replayed store transaction isn't queued again
+    await ledger.recordPendingPurchase("tx1", "boost", 5);
+    expect(ledger.getPendingPurchases()).toHaveLength(0);
+  });
+
+  it("drops a purchase the server refused", async () => {
+    await ledger.recordPendingPurchase("tx1", "boost", 5);
+    await ledger.dropPendingPurchase("tx1");
+    expect(ledger.getPendingPurchases()).toHaveLength(0);
+  });
+
+  it("counts spends until a wallet fetched after them arrives", async () => {
+    await ledger.applyWallet(wallet(3, 100));
+    await ledger.recordSpend("boost");
+    expect(ledger.getBalance("boost")).toBe(2);
+
+    // Requested before the spend: the spend is still outstanding
+    await ledger.applyWallet(wallet(3, 200), 0);
+    expect(ledger.getBalance("boost")).toBe(2);
+
+    await ledger.applyWallet(wallet(2, 300), Date.now() + 1);
+    expect(ledger.getBalance("boost")).toBe(2);
+  });
+
+  it("only settles purchases from a stale wallet", async () => {
+    await ledger.applyWallet(wallet(4, 500));
+    await ledger.recordPendingPurchase("tx2", "boost", 1);
+
+    await ledger.applyWallet(wallet(1, 400, ["tx2"]));
+    expect(ledger.getBalance("boost")).toBe(4);
+    expect(ledger.getPendingPurchases()).toHaveLength(0);
+  });
+});
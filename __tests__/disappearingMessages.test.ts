@@ -0,0 +1,64 @@
+import { MessageCache } from "../utils/MessageCache";
+import { MessageSearchEngine } from "../utils/messageSearch";
+import { DISAPPEARING_TIMER_DURATIONS } from "../utils/disappearingMessages";
+import { Message } from "../types/message";
+
+const makeMessage = (
+  id: string,
+  createdAt: number,
+  text = "hello"
+): Message => ({
+  _id: id,
+  conversationId: "conv-1",
+  fromUserId: "user-1",
+  toUserId: "user-2",
+  text,
+  type: "text",
+  createdAt,
+});
+
+describe("disappearing messages", () => {
+  it("stamps messages sent after a timer change and hides them once expired", () => {
+    const cache = new MessageCache({ maxAge: 7 * 24 * 60 * 60 * 1000 });
+    const now = Date.now();
+    const timerChange: Message = {
+      ...makeMessage("sys", now - 1000, ""),
+      isSystemMessage: true,
+      systemEvent: { type: "disappearing_timer", timer: "24h" },
+    };
+
+    cache.set("conv-1", [
+      makeMessage("before", now - 2000),
+      timerChange,
+      makeMessage("after", now - 500),
+    ]);
+
+    const messages = cache.get("conv-1")!;
+    expect(cache.getDisappearingTimer("conv-1")?.timer).toBe("24h");
+    expect(messages.find((m) => m._id === "before")?.expiresAt).toBeUndefined();
+    expect(messages.find((m) => m._id === "sys")?.expiresAt).toBeUndefined();
+    expect(messages.find((m) => m._id === "after")?.expiresAt).toBe(
+      now - 500 + DISAPPEARING_TIMER_DURATIONS["24h"]
+    );
+
+    const clock = jest
+      .spyOn(Date, "now")
+      .mockReturnValue(now + DISAPPEARING_TIMER_DURATIONS["24h"]);
+    expect(cache.get("conv-1")!.map((m) => m._id)).toEqual(["before", "sys"]);
+    clock.mockRestore();
+    cache.destroy();
+  });
+
+  it("keeps expired messages out of search results", () => {
+    const engine = new MessageSearchEngine();
+    const results = engine.search(
+      [
+        { ...makeMessage("expired", 1, "secret plan"), expiresAt: 2 },
+        makeMessage("live", 3, "secret plan"),
+      ],
+      "secret"
+    );
+
+    expect(results.map((r) => r.message._id)).toEqual(["live"]);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  computeSafetyNumber,
+  decryptAttachment,
+  encryptAttachment,
+  generateDeviceKeyPair,
+  openEnvelope,
+  sealEnvelope,
+} from "../utils/e2eeCrypto";
+
+describe("e2eeCrypto", () => {
+  const alicePhone = generateDeviceKeyPair("alice-phone");
+  const aliceTablet = generateDeviceKeyPair("alice-tablet");
+  const bobPhone = generateDeviceKeyPair("bob-phone");
+  const eve = generateDeviceKeyPair("eve");
+
+  it("opens a sealed message on every recipient device and nowhere else", () => {
+    const envelope = sealEnvelope({ text: "salaam" }, alicePhone, [
+      bobPhone,
+      aliceTablet,
+      alicePhone,
+    ]);
+
+    expect(envelope.ciphertext).not.toContain("salaam");
+    expect(openEnvelope(envelope, bobPhone)).toEqual({ text: "salaam" });
+    expect(openEnvelope(envelope, aliceTablet)).toEqual({ text: "salaam" });
+    expect(openEnvelope(envelope, alicePhone)).toEqual({ text: "salaam" });
+    expect(openEnvelope(envelope, eve)).toBeNull();
+  });
+
+  it("rejects a tampered envelope", () => {
+    const envelope = sealEnvelope({ text: "hi" }, alicePhone, [bobPhone]);
+    const forged = sealEnvelope({ text: "send money" }, eve, [bobPhone]);
+
+    expect(
+      openEnvelope({ ...envelope, ciphertext: forged.ciphertext }, bobPhone)
+    ).toBeNull();
+    // Claiming to be Alice's device doesn't help without her secret key
+    expect(
+      openEnvelope({ ...forged, senderKey: alicePhone.publicKey }, bobPhone)
+    ).toBeNull();
+  });
+
+  it("round-trips attachment bytes", () => {
+    const original = Buffer.from("fake image bytes").toString("base64");
+    const sealed = encryptAttachment(original);
+
+    expect(sealed.data).not.toBe(original);
+    expect(decryptAttachment(sealed.data, sealed.key, sealed.nonce)).toBe(
+      original
+    );
+    expect(
+      decryptAttachment(
+        sealed.data,
+        encryptAttachment(original).key,
+        sealed.nonce
+      )
+    ).toBeNull();
+  });
+
+  it("derives the same safety number on both sides and a new one after a key change", () => {
+    const alice = { userId: "alice", publicKeys: [alicePhone.publicKey] };
+    const bob = { userId: "bob", publicKeys: [bobPhone.publicKey] };
+
+    const number = computeSafetyNumber(alice, bob);
+    expect(number).toMatch(/^\d{60}$/);
+    expect(computeSafetyNumber(bob, alice)).toBe(number);
+    expect(
+      computeSafetyNumber(alice, {
+        ...bob,
+        publicKeys: [bobPhone.publicKey, eve.publicKey],
+      })
+    ).not.toBe(number);
+  });
+});
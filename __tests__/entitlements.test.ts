@@ -0,0 +1,110 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import nacl from "tweetnacl";
+import { decodeUTF8, encodeBase64 } from "tweetnacl-util";
+import {
+  BUNDLED_ENTITLEMENTS,
+  EntitlementEngine,
+  createEd25519Verifier,
+} from "../utils/entitlements";
+import { featureGateManager } from "../utils/featureGating";
+import { SubscriptionCache } from "../utils/subscriptionCache";
+import type { FeatureUsage } from "../types/subscription";
+
+const keys = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7));
+
+function sign(config: object, secretKey = keys.secretKey) {
+  const payload = JSON.stringify(config);
+  return {
+    payload,
+    signature: encodeBase64(nacl.sign.detached(decodeUTF8(payload), secretKey)),
+  };
+}
+
+function withFreeInterests(version: number, interests: number) {
+  return {
+    ...BUNDLED_ENTITLEMENTS,
+    version,
+    tiers: {
+      ...BUNDLED_ENTITLEMENTS.tiers,
+      free: {
+        ...BUNDLED_ENTITLEMENTS.tiers.free,
+        limits: {
+          ...BUNDLED_ENTITLEMENTS.tiers.free.limits,
+          interest_sent: interests,
+        },
+      },
+    },
+  };
+}
+
+describe("entitlements", () => {
+  let engine: EntitlementEngine;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    SubscriptionCache.clear();
+    engine = new EntitlementEngine({
+      verifier: createEd25519Verifier(encodeBase64(keys.publicKey)),
+    });
+  });
+
+  it("only moves to newer configs with a valid signature", () => {
+    expect(engine.getLimit("free", "interest_sent")).toBe(3);
+
+    const forged = sign(
+      withFreeInterests(2, 100),
+      nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(9)).secretKey
+    );
+    expect(engine.apply(forged)).toBe("rejected");
+
+    expect(engine.apply(sign(withFreeInterests(2, 5)))).toBe("applied");
+    expect(engine.getLimit("free", "interest_sent")).toBe(5);
+    expect(engine.apply(sign(withFreeInterests(1, 10)))).toBe("stale");
+    expect(engine.getLimit("free", "interest_sent")).toBe(5);
+
+    expect(engine.requiredTier("canUseIncognitoMode")).toBe("premiumPlus");
+    expect(engine.upgradeTierForLimit("free", "profile_view")).toBe("premium");
+    expect(engine.upgradeTierForLimit("premiumPlus", "profile_view")).toBe(
+      null
+    );
+  });
+
+  it("keeps the last verified config for offline starts", async () => {
+    const fetchConfig = jest.fn(async () => ({
+      success: true,
+      data: sign(withFreeInterests(3, 8)),
+    }));
+    await engine.refresh(fetchConfig);
+    // Still fresh in SubscriptionCache, so no second request
+    await engine.refresh(fetchConfig);
+    expect(fetchConfig).toHaveBeenCalledTimes(1);
+
+    SubscriptionCache.clear();
+    const offline = new EntitlementEngine({
+      verifier: createEd25519Verifier(encodeBase64(keys.publicKey)),
+    });
+    const config = await offline.refresh(async () => {
+      throw new Error("Network request failed");
+    });
+    expect(config.version).toBe(3);
+    expect(offline.getLimit("free", "interest_sent")).toBe(8);
+  });
+
+  it("gates actions on the bundled tables by default", () => {
+    const usage = { interestsSent: 3 } as FeatureUsage;
+    const result = featureGateManager.checkFeatureAccess(
+      "send_interest",
+      "free",
+      usage
+    );
+    expect(result).toMatchObject({ allowed: false, upgradeRequired: true });
+    expect(
+      featureGateManager.checkFeatureAccess("send_interest", "premium", usage)
+        .allowed
+    ).toBe(true);
+    expect(
+      featureGateManager.getUpgradeSuggestion("use_incognito_mode", "premium")
+        .targetTier
+    ).toBe("premiumPlus");
+  });
+});
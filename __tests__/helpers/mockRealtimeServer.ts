@@ -0,0 +1,166 @@
+// In-memory stand-in for the realtime server. Installs a fake global
+// WebSocket so the real clients can be driven through drops, reconnects and
+// session resumes without a network.
+
+type Frame = Record<string, any>;
+
+export interface MockRealtimeServerOptions {
+  // How many past events the server keeps for replay; older ones are lost
+  replayWindow?: number;
+  // Answer the hello with a welcome (false behaves like a version 1 server)
+  handshake?: boolean;
+  // Fail every socket before it opens, like a network that blocks WebSockets
+  refuseSockets?: boolean;
+}
+
+export class MockSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+
+  readyState = MockSocket.CONNECTING;
+  sent: Frame[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  constructor(public url: string, private server: MockRealtimeServer) {
+    setTimeout(() => {
+      if (this.readyState !== MockSocket.CONNECTING) return;
+      if (server.refusesSockets) {
+        this.onerror?.(new Error("WebSocket blocked"));
+        this.close(1006, "Blocked");
+        return;
+      }
+      this.readyState = MockSocket.OPEN;
+      this.onopen?.({});
+    }, 0);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== MockSocket.OPEN) {
+      throw new Error("Socket is not open");
+    }
+    const frame = JSON.parse(data);
+    this.sent.push(frame);
+    this.server.receive(this, frame);
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === MockSocket.CLOSED) return;
+    this.readyState = MockSocket.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+
+  deliver(frame: Frame): void {
+    if (this.readyState === MockSocket.OPEN) {
+      this.onmessage?.({ data: JSON.stringify(frame) });
+    }
+  }
+}
+
+export class MockRealtimeServer {
+  sockets: MockSocket[] = [];
+  sessionId?: string;
+  private log: Frame[] = [];
+  private seq = 0;
+  private sessions = 0;
+  private originalWebSocket: any;
+  private options: Required<MockRealtimeServerOptions>;
+
+  constructor(options: MockRealtimeServerOptions = {}) {
+    this.options = {
+      replayWindow: options.replayWindow ?? Infinity,
+      handshake: options.handshake ?? true,
+      refuseSockets: options.refuseSockets ?? false,
+    };
+  }
+
+  get refusesSockets(): boolean {
+    return this.options.refuseSockets;
+  }
+
+  install(): this {
+    this.originalWebSocket = (global as any).WebSocket;
+    const server = this;
+    const FakeWebSocket = function (url: string) {
+      const socket = new MockSocket(url, server);
+      server.sockets.push(socket);
+      return socket;
+    } as any;
+    Object.assign(FakeWebSocket, {
+      CONNECTING: MockSocket.CONNECTING,
+      OPEN: MockSocket.OPEN,
+      CLOSING: MockSocket.CLOSING,
+      CLOSED: MockSocket.CLOSED,
+    });
+    (global as any).WebSocket = FakeWebSocket;
+    return this;
+  }
+
+  restore(): void {
+    (global as any).WebSocket = this.originalWebSocket;
+  }
+
+  get socket(): MockSocket | undefined {
+    return this.sockets[this.sockets.length - 1];
+  }
+
+  /**
+   * Push a sequenced event. While the client is away it is only logged, to
+   * be replayed if the client resumes in time.
+   */
+  emit(type: string, data: Frame): number {
+    const frame = { v: 2, type, ts: Date.now(), seq: ++this.seq, data };
+    this.log.push(frame);
+    if (this.log.length > this.options.replayWindow) this.log.shift();
+    this.socket?.deliver(frame);
+    return frame.seq;
+  }
+
+  /**
+   * Deliver a frame as-is, e.g. a duplicate or out-of-order seq
+   */
+  send(frame: Frame): void {
+    this.socket?.deliver(frame);
+  }
+
+  /**
+   * Kill the current connection the way a network drop does
+   */
+  drop(): void {
+    this.socket?.close(1006, "Abnormal closure");
+  }
+
+  receive(socket: MockSocket, frame: Frame): void {
+    if (frame.type !== "hello" || !this.options.handshake) return;
+
+    const { sessionId, lastSeq } = frame.data || {};
+    const oldest = this.log.length ? this.log[0].seq : this.seq + 1;
+    const resumed =
+      !!sessionId &&
+      sessionId === this.sessionId &&
+      typeof lastSeq === "number" &&
+      lastSeq >= oldest - 1;
+
+    if (!resumed) {
+      this.sessionId = `session-${++this.sessions}`;
+      this.log = [];
+      this.seq = 0;
+    }
+
+    socket.deliver({
+      v: 2,
+      type: "welcome",
+      ts: Date.now(),
+      data: { version: 2, sessionId: this.sessionId, resumed },
+    });
+    if (resumed) {
+      this.log
+        .filter((logged) => logged.seq > lastSeq)
+        .forEach((logged) => socket.deliver(logged));
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+jest.mock("react-native-iap", () => ({
+  initConnection: jest.fn(async () => true),
+  endConnection: jest.fn(),
+  fetchProducts: jest.fn(async () => []),
+  requestPurchase: jest.fn(),
+  finishTransaction: jest.fn(async () => undefined),
+  purchaseErrorListener: jest.fn(() => ({ remove: jest.fn() })),
+  purchaseUpdatedListener: jest.fn(() => ({ remove: jest.fn() })),
+  getAvailablePurchases: jest.fn(async () => []),
+}));
+
+jest.mock("../utils/api", () => ({
+  apiClient: {
+    validateConsumablePurchase: jest.fn(),
+    validatePurchase: jest.fn(),
+  },
+}));
+
+const wallet = (boost: number, creditedTransactionIds: string[] = []) => ({
+  balances: { boost, spotlight_day: 0, super_interest: 0 },
+  updatedAt: Date.now(),
+  creditedTransactionIds,
+});
+
+const storePurchase = (id: string, productId: string) => ({
+  id,
+  productId,
+  purchaseState: "purchased",
+  transactionReceipt: `receipt-${id}`,
+});
+
+describe("InAppPurchaseManager", () => {
+  let iap: any;
+  let apiClient: any;
+  let creditLedger: typeof import("../utils/creditLedger").creditLedger;
+  let purchaseJournal: typeof import("../utils/purchaseJournal").purchaseJournal;
+  let manager: typeof import("../utils/inAppPurchases").inAppPurchaseManager;
+  let boostProductId: string;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    await AsyncStorage.clear();
+    iap = require("react-native-iap");
+    apiClient = require("../utils/api").apiClient;
+    creditLedger = require("../utils/creditLedger").creditLedger;
+    purchaseJournal = require("../utils/purchaseJournal").purchaseJournal;
+    const purchases = require("../utils/inAppPurchases");
+    manager = purchases.inAppPurchaseManager;
+    const { CONSUMABLE_PRODUCTS } = require("../types/inAppPurchase");
+    boostProductId = CONSUMABLE_PRODUCTS.ios.find(
+      (p: any) => p.credit === "boost"
+    ).productId;
+  });
+
+  it("credits and consumes a validated consumable", async () => {
+    iap.getAvailablePurchases.mockResolvedValue([
+      storePurchase("tx1", boostProductId),
+    ]);
+    apiClient.validateConsumablePurchase.mockResolvedValue({
+      success: true,
+      data: {
+        transactionId: "tx1",
+        credit: "boost",
+        quantity: 5,
+        wallet: wallet(5, ["tx1"]),
+      },
+    });
+
+    await manager.reconcileConsumables();
+    expect(creditLedger.getBalance("boost")).toBe(5);
+    expect(iap.finishTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ isConsumable: true })
+    );
+  });
+
+  it("keeps a consumable unconsumed when validation fails", async () => {
+    await creditLedger.recordPendingPurchase("tx1", "boost", 5);
+    iap.getAvailablePurchases.mockResolvedValue([
+      storePurchase("tx1", boostProductId),
+    ]);
+    // A bare 400 is not the server's verdict on the receipt
+    apiClient.validateConsumablePurchase.mockResolvedValue({
+      success: false,
+      error: { code: "VALIDATION_ERROR", message: "Bad request" },
+    });
+
+    await manager.reconcileConsumables();
+    expect(iap.finishTransaction).not.toHaveBeenCalled();
+    expect(creditLedger.getPendingPurchases()).toHaveLength(1);
+  });
+
+  it("consumes a consumable the server rejects and drops its credit", async () => {
+    await creditLedger.recordPendingPurchase("tx1", "boost", 5);
+    iap.getAvailablePurchases.mockResolvedValue([
+      storePurchase("tx1", boostProductId),
+    ]);
+    apiClient.validateConsumablePurchase.mockResolvedValue({
+      success: true,
+      data: { success: true, valid: false, message: "Receipt not found" },
+    });
+
+    await manager.reconcileConsumables();
+    expect(iap.finishTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ isConsumable: true })
+    );
+    expect(creditLedger.getPendingPurchases()).toHaveLength(0);
+    expect(creditLedger.getBalance("boost")).toBe(0);
+  });
+
+  it("finishes journalled subscriptions once the server settles them", async () => {
+    await purchaseJournal.record({
+      platform: "ios",
+      productId: "com.aroosi.premium.monthly",
+      transactionId: "sub1",
+      purchaseToken: "receipt-sub1",
+      subscriptionPlan: "premium",
+    });
+    await purchaseJournal.record({
+      platform: "ios",
+      productId: "com.aroosi.premium.monthly",
+      transactionId: "sub2",
+      purchaseToken: "receipt-sub2",
+      subscriptionPlan: "premium",
+    });
+    apiClient.validatePurchase.mockImplementation(async (req: any) => ({
+      success: true,
+      data:
+        req.transactionId === "sub1"
+          ? { success: true, valid: true }
+          : { success: true, valid: false, message: "Receipt not found" },
+    }));
+    iap.getAvailablePurchases.mockResolvedValue([
+      storePurchase("sub1", "com.aroosi.premium.monthly"),
+      storePurchase("sub2", "com.aroosi.premium.monthly"),
+    ]);
+
+    await manager.replayPurchaseJournal();
+    expect(purchaseJournal.getPending()).toHaveLength(0);
+    const finished = iap.finishTransaction.mock.calls.map(
+      ([args]: any[]) => args.purchase.id
+    );
+    expect(finished.sort()).toEqual(["sub1", "sub2"]);
+  });
+
+  it("only connects to the store when something is owed", async () => {
+    await manager.resumePendingPurchases();
+    expect(iap.initConnection).not.toHaveBeenCalled();
+
+    await creditLedger.recordPendingPurchase("tx1", "boost", 5);
+    apiClient.validateConsumablePurchase.mockResolvedValue({
+      success: false,
+      error: { code: "NETWORK_ERROR", message: "offline" },
+    });
+    iap.getAvailablePurchases.mockResolvedValue([
+      storePurchase("tx1", boostProductId),
+    ]);
+
+    await manager.resumePendingPurchases();
+    expect(iap.initConnection).toHaveBeenCalledTimes(1);
+    expect(apiClient.validateConsumablePurchase).toHaveBeenCalledWith(
+      expect.objectContaining({ transactionId: "tx1" })
+    );
+    expect(iap.finishTransaction).not.toHaveBeenCalled();
+  });
+});
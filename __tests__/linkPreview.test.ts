@@ -0,0 +1,131 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { MessagingSecurityService } from "../services/messagingSecurityService";
+import { apiClient } from "../utils/api";
+import { LinkPreviewService, parseLinkMetadata } from "../utils/linkPreview";
+import { extractUrls } from "../utils/messageUtils";
+
+describe("link previews", () => {
+  let security: MessagingSecurityService;
+  let service: LinkPreviewService;
+  const resolver = jest.fn();
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resolver.mockReset();
+    security = new MessagingSecurityService({
+      enableRateLimit: false,
+      blockedLinkDomains: ["bad.example"],
+    });
+    service = new LinkPreviewService({
+      storageKey: "test_link_previews",
+      resolver,
+      security,
+    });
+  });
+
+  afterEach(() => {
+    service.destroy();
+    security.destroy();
+  });
+
+  it("detects links in message text", () => {
+    const text =
+      "See www.aroosi.app/help, and (https://en.wikipedia.org/wiki/Nikah_(Islam)).";
+
+    expect(extractUrls(text).map((u) => u.url)).toEqual([
+      "https://www.aroosi.app/help",
+      "https://en.wikipedia.org/wiki/Nikah_(Islam)",
+    ]);
+    expect(extractUrls("no links here, just a.b")).toEqual([]);
+  });
+
+  it("parses page metadata", () => {
+    const html = `<html><head>
+      <title>Fallback</title>
+      <meta property="og:title" content="Tea &amp; Biscuits">
+      <meta name="description" content='A cosy  place'>
+      <meta property="og:image" content="/cover.jpg">
+    </head></html>`;
+
+    expect(parseLinkMetadata(html, "https://cafe.example/menu")).toEqual({
+      url: "https://cafe.example/menu",
+      title: "Tea & Biscuits",
+      description: "A cosy place",
+      imageUrl: "https://cafe.example/cover.jpg",
+      siteName: undefined,
+    });
+  });
+
+  it("caches resolved previews and shares in-flight fetches", async () => {
+    resolver.mockResolvedValue({
+      url: "https://cafe.example/",
+      title: "Cafe",
+    });
+
+    const [first, second] = await Promise.all([
+      service.getPreview("https://cafe.example/"),
+      service.getPreview("https://cafe.example/"),
+    ]);
+    expect(first).toEqual(second);
+    expect(first.status).toBe("ready");
+    expect(service.getCached("https://cafe.example/")?.status).toBe("ready");
+    expect(resolver).toHaveBeenCalledTimes(1);
+
+    await service.flush();
+    const restored = new LinkPreviewService({
+      storageKey: "test_link_previews",
+      resolver,
+    });
+    expect((await restored.getPreview("https://cafe.example/")).status).toBe(
+      "ready"
+    );
+    expect(resolver).toHaveBeenCalledTimes(1);
+    restored.destroy();
+  });
+
+  it("flags unsafe links instead of fetching them", async () => {
+    const violations = jest.fn();
+    security.on("security_violation", violations);
+
+    for (const url of [
+      "https://login.bad.example/verify",
+      "https://grabify.link/abc",
+      "http://192.168.0.1/admin",
+      "https://aroosi.app@evil.example/",
+      "https://xn--rosi-zoa.app/",
+      "http://localhost:8080/",
+      "http://printer.local/",
+    ]) {
+      const result = await service.getPreview(url);
+      expect(result.status).toBe("flagged");
+    }
+    expect(resolver).not.toHaveBeenCalled();
+    expect(violations).toHaveBeenCalledTimes(7);
+
+    security.addBlockedLinkDomains(["cafe.example"]);
+    expect((await service.getPreview("https://cafe.example/")).status).toBe(
+      "flagged"
+    );
+  });
+
+  it("resolves previews through the server, not the device", async () => {
+    const fetchSpy = jest.fn();
+    global.fetch = fetchSpy as any;
+    const getLinkPreview = jest
+      .spyOn(apiClient, "getLinkPreview")
+      .mockResolvedValue({
+        success: true,
+        data: { url: "https://cafe.example/", title: "Cafe" },
+      });
+    const proxied = new LinkPreviewService({
+      storageKey: "test_link_previews_proxy",
+    });
+
+    const result = await proxied.getPreview("https://cafe.example/");
+    expect(result.status).toBe("ready");
+    expect(getLinkPreview).toHaveBeenCalledWith("https://cafe.example/");
+    expect(fetchSpy).not.toHaveBeenCalled();
+    getLinkPreview.mockRestore();
+    proxied.destroy();
+  });
+});
@@ -0,0 +1,342 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { OfflineMessageQueue } from "../utils/offlineMessageQueue";
+import { Message } from "../types/message";
+
+const draft = (
+  conversationId: string,
+  type: Message["type"] = "text"
+): Omit<Message, "_id"> => ({
+  conversationId,
+  fromUserId: "user-1",
+  toUserId: "user-2",
+  text: type === "text" ? "hello" : "",
+  type,
+  createdAt: Date.now(),
+});
+
+const nextEvent = (queue: OfflineMessageQueue, event: string) =>
+  new Promise<any>((resolve) => queue.once(event, resolve));
+
+describe("message outbox", () => {
+  const apiClient = {
+    sendMessage: jest.fn(),
+    getMessages: jest.fn(),
+  };
+  const uploadVoice = jest.fn();
+  let queue: OfflineMessageQueue;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    queue = new OfflineMessageQueue(apiClient as any, {
+      storageKey: "test_outbox",
+      baseRetryDelay: 60000,
+      uploaders: { voice: uploadVoice },
+    });
+    await queue.initialize();
+  });
+
+  afterEach(() => {
+    queue.destroy();
+  });
+
+  it("uploads a voice note, then creates the message with its storage id", async () => {
+    uploadVoice.mockImplementation(async (_job, { onProgress }) => {
+      onProgress(0.5);
+      return { success: true, data: { storageId: "blob-1" } };
+    });
+    apiClient.sendMessage.mockResolvedValue({
+      success: true,
+      data: { _id: "m1", ...draft("conv-1", "voice") },
+    });
+
+    const sent = nextEvent(queue, "message_sent");
+    queue.setOnlineStatus(true);
+    await queue.enqueueJob({
+      kind: "voice",
+      message: { ...draft("conv-1", "voice"), duration: 4 },
+      attachment: { localUri: "file:///note.m4a" },
+    });
+
+    await expect(sent).resolves.toMatchObject({
+      kind: "voice",
+      conversationId: "conv-1",
+      message: { _id: "m1" },
+    });
+    expect(apiClient.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "voice", audioStorageId: "blob-1" })
+    );
+    expect(queue.getJobs()).toHaveLength(0);
+  });
+
+  it("holds later sends in a conversation behind an earlier one", async () => {
+    apiClient.sendMessage.mockImplementation(async ({ conversationId }) =>
+      conversationId === "conv-1"
+        ? { success: false, error: { code: "HTTP_500", message: "boom" } }
+        : { success: true, data: { _id: "m2", ...draft("conv-2") } }
+    );
+
+    const first = await queue.enqueue(draft("conv-1"));
+    await queue.enqueue(draft("conv-1"));
+    await queue.enqueue(draft("conv-2"));
+
+    queue.setOnlineStatus(true);
+    await nextEvent(queue, "processing_completed");
+
+    // conv-1's head is backing off; its second message must not overtake it
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(2);
+    const jobs = queue.getJobs("conv-1");
+    expect(jobs.map((j) => j.id)[0]).toBe(first);
+    expect(jobs.map((j) => j.status)).toEqual(["retrying", "queued"]);
+    expect(queue.getJobs("conv-2")).toHaveLength(0);
+  });
+
+  it("keeps a conversation blocked behind a failed send until it is dismissed", async () => {
+    apiClient.sendMessage.mockResolvedValueOnce({
+      success: false,
+      error: { code: "PERMISSION_DENIED", message: "nope" },
+    });
+
+    const failed = nextEvent(queue, "message_failed");
+    const first = await queue.enqueue(draft("conv-1"));
+    await queue.enqueue(draft("conv-1"));
+    queue.setOnlineStatus(true);
+    await failed;
+    await nextEvent(queue, "processing_completed");
+
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(1);
+    expect(queue.getJobs("conv-1").map((j) => j.status)).toEqual([
+      "failed",
+      "queued",
+    ]);
+
+    apiClient.sendMessage.mockResolvedValueOnce({
+      success: true,
+      data: { _id: "m4", ...draft("conv-1") },
+    });
+    const sent = nextEvent(queue, "message_sent");
+    await queue.dequeue(first);
+    await sent;
+
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(2);
+    expect(queue.getJobs("conv-1")).toHaveLength(0);
+  });
+
+  it("resumes a failed job at the step that failed", async () => {
+    uploadVoice.mockResolvedValue({
+      success: true,
+      data: { storageId: "blob-2" },
+    });
+    apiClient.sendMessage.mockResolvedValueOnce({
+      success: false,
+      error: { code: "PERMISSION_DENIED", message: "nope" },
+    });
+
+    const failed = nextEvent(queue, "message_failed");
+    queue.setOnlineStatus(true);
+    const id = await queue.enqueueJob({
+      kind: "voice",
+      message: draft("conv-1", "voice"),
+      attachment: { localUri: "file:///note.m4a" },
+    });
+    await failed;
+
+    expect(queue.getStats()).toMatchObject({ failed: 1 });
+
+    apiClient.sendMessage.mockResolvedValueOnce({
+      success: true,
+      data: { _id: "m3", ...draft("conv-1", "voice") },
+    });
+    const sent = nextEvent(queue, "message_sent");
+    await queue.retryMessage(id);
+    await sent;
+
+    expect(uploadVoice).toHaveBeenCalledTimes(1);
+    expect(apiClient.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("sends only ciphertext in an encrypted conversation", async () => {
+    const envelope = { v: 1, ciphertext: "sealed" } as any;
+    const cipher = {
+      isEncrypted: (conversationId: string) => conversationId === "conv-e2e",
+      encryptMessage: jest.fn(async () => ({
+        success: true,
+        data: { encrypted: envelope },
+      })),
+      decryptMessages: jest.fn(),
+    };
+    const sealedQueue = new OfflineMessageQueue(apiClient as any, {
+      storageKey: "test_outbox_e2e",
+      cipher,
+    });
+    await sealedQueue.initialize();
+    apiClient.sendMessage.mockResolvedValue({
+      success: true,
+      data: { _id: "m4", ...draft("conv-e2e"), text: "", encrypted: envelope },
+    });
+
+    const sent = nextEvent(sealedQueue, "message_sent");
+    sealedQueue.setOnlineStatus(true);
+    await sealedQueue.enqueue({ ...draft("conv-e2e"), duration: 4 });
+
+    // The sender still sees what they typed
+    await expect(sent).resolves.toMatchObject({
+      message: { _id: "m4", text: "hello" },
+    });
+    expect(apiClient.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: "",
+        duration: undefined,
+        encrypted: envelope,
+      })
+    );
+    sealedQueue.destroy();
+  });
+
+  it("holds a scheduled send until it is due, even across a restart", async () => {
+    const scheduledFor = Date.now() + 60 * 60 * 1000;
+    const id = await queue.enqueueJob({
+      kind: "text",
+      message: draft("conv-1"),
+      scheduledFor,
+    });
+
+    const idle = nextEvent(queue, "processing_completed");
+    queue.setOnlineStatus(true);
+    await idle;
+
+    expect(apiClient.sendMessage).not.toHaveBeenCalled();
+    expect(queue.getScheduledJobs("conv-1").map((j) => j.id)).toEqual([id]);
+    expect(queue.getStats()).toMatchObject({ pending: 0, scheduled: 1 });
+    queue.destroy();
+
+    const clock = jest.spyOn(Date, "now").mockReturnValue(scheduledFor + 1000);
+    queue = new OfflineMessageQueue(apiClient as any, {
+      storageKey: "test_outbox",
+    });
+    await queue.initialize();
+    apiClient.sendMessage.mockResolvedValue({
+      success: true,
+      data: { _id: "m5", ...draft("conv-1") },
+    });
+
+    const sent = nextEvent(queue, "message_sent");
+    queue.setOnlineStatus(true);
+    await expect(sent).resolves.toMatchObject({ id, scheduledFor });
+    clock.mockRestore();
+  });
+
+  it("hands scheduled sends to the server and withdraws them on cancel", async () => {
+    const serverClient = {
+      ...apiClient,
+      scheduleMessage: jest.fn(async () => ({
+        success: true,
+        data: { scheduledId: "s1" },
+      })),
+      cancelScheduledMessage: jest.fn(async () => ({ success: true })),
+    };
+    const serverQueue = new OfflineMessageQueue(serverClient as any, {
+      storageKey: "test_outbox_server",
+    });
+    await serverQueue.initialize();
+
+    const scheduledFor = Date.now() + 60 * 60 * 1000;
+    const id = await serverQueue.enqueueJob({
+      kind: "text",
+      message: draft("conv-1"),
+      scheduledFor,
+    });
+    const idle = nextEvent(serverQueue, "processing_completed");
+    serverQueue.setOnlineStatus(true);
+    await idle;
+
+    expect(serverClient.scheduleMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ text: "hello", sendAt: scheduledFor })
+    );
+    expect(apiClient.sendMessage).not.toHaveBeenCalled();
+    expect(serverQueue.getJobs()[0]).toMatchObject({
+      status: "scheduled",
+      stepResults: { scheduledId: "s1" },
+    });
+
+    await expect(serverQueue.cancelScheduledJob(id)).resolves.toEqual({
+      success: true,
+    });
+    expect(serverClient.cancelScheduledMessage).toHaveBeenCalledWith("s1");
+    expect(serverQueue.getJobs()).toHaveLength(0);
+    serverQueue.destroy();
+  });
+
+  it("sends from the device at the due time when the server can't schedule", async () => {
+    const legacyClient = {
+      ...apiClient,
+      scheduleMessage: jest.fn(async () => ({
+        success: false,
+        error: { code: "HTTP_404", message: "Not found" },
+      })),
+    };
+    const legacyQueue = new OfflineMessageQueue(legacyClient as any, {
+      storageKey: "test_outbox_legacy",
+    });
+    await legacyQueue.initialize();
+
+    const scheduledFor = Date.now() + 60 * 60 * 1000;
+    await legacyQueue.enqueueJob({
+      kind: "text",
+      message: draft("conv-1"),
+      scheduledFor,
+    });
+    const idle = nextEvent(legacyQueue, "processing_completed");
+    legacyQueue.setOnlineStatus(true);
+    await idle;
+
+    expect(legacyClient.scheduleMessage).toHaveBeenCalledTimes(1);
+    expect(apiClient.sendMessage).not.toHaveBeenCalled();
+    expect(legacyQueue.getJobs()[0]).toMatchObject({
+      status: "scheduled",
+      steps: ["create", "confirm"],
+      attempts: 0,
+      nextRetry: scheduledFor,
+    });
+    legacyQueue.destroy();
+  });
+
+  it("confirms a send by its client id, however busy the chat got", async () => {
+    const lookupClient = {
+      ...apiClient,
+      getMessageByClientId: jest.fn(
+        async (_conversationId: string, clientMessageId: string) => ({
+          success: true,
+          data: { _id: "m6", ...draft("conv-1"), clientMessageId },
+        })
+      ),
+    };
+    const lookupQueue = new OfflineMessageQueue(lookupClient as any, {
+      storageKey: "test_outbox_lookup",
+    });
+    await lookupQueue.initialize();
+    // The server stored the send but didn't echo it back
+    apiClient.sendMessage.mockResolvedValue({ success: true });
+
+    const sent = nextEvent(lookupQueue, "message_sent");
+    lookupQueue.setOnlineStatus(true);
+    await lookupQueue.enqueue(draft("conv-1"));
+
+    await expect(sent).resolves.toMatchObject({ message: { _id: "m6" } });
+    expect(apiClient.getMessages).not.toHaveBeenCalled();
+    lookupQueue.destroy();
+  });
+
+  it("never sends another account's queued messages", async () => {
+    await queue.enqueue(draft("conv-1"));
+    await queue.enqueue({ ...draft("conv-2"), fromUserId: "user-3" });
+
+    queue.setUser("user-3");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(queue.getJobs().map((job) => job.message.fromUserId)).toEqual([
+      "user-3",
+    ]);
+
+    await queue.clearAll();
+    expect(queue.getJobs()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,153 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { MessageCache } from "../utils/MessageCache";
+import { MessageSearchIndex } from "../utils/messageSearchIndex";
+import { Message } from "../types/message";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const makeMessage = (
+  id: string,
+  conversationId: string,
+  text: string,
+  createdAt: number,
+  fromUserId = "user-1"
+): Message => ({
+  _id: id,
+  conversationId,
+  fromUserId,
+  toUserId: fromUserId === "user-1" ? "user-2" : "user-1",
+  text,
+  type: "text",
+  createdAt,
+});
+
+describe("message search index", () => {
+  let index: MessageSearchIndex;
+  let cache: MessageCache;
+  const now = Date.now();
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    index = new MessageSearchIndex({ storageKey: "test_search_index" });
+    await index.hydrate();
+    cache = new MessageCache({ searchIndex: index });
+  });
+
+  afterEach(() => {
+    cache.destroy();
+    index.destroy();
+  });
+
+  it("finds cached messages across conversations, tolerating typos", () => {
+    cache.set("conv-1", [
+      makeMessage("a1", "conv-1", "Shall we meet in Lahore?", now - 3 * DAY),
+      makeMessage("a2", "conv-1", "Restaurant booked", now - DAY, "user-2"),
+    ]);
+    cache.set("conv-2", [
+      makeMessage("b1", "conv-2", "I love Lahore in winter", now - 40 * DAY),
+    ]);
+
+    const groups = index.searchGrouped("lahor");
+    expect(groups.map((g) => g.conversationId).sort()).toEqual([
+      "conv-1",
+      "conv-2",
+    ]);
+    expect(index.search("resturant").map((r) => r.message._id)).toEqual(["a2"]);
+
+    const [hit] = index.search("lahore", { after: now - 7 * DAY });
+    expect(hit.message._id).toBe("a1");
+    expect(
+      hit.snippet.slice(
+        hit.highlightRanges[0].start,
+        hit.highlightRanges[0].end
+      )
+    ).toBe("Lahore");
+    expect(index.search("restaurant", { fromUserId: "user-1" })).toEqual([]);
+  });
+
+  it("drops deleted and edited text as the cache changes", () => {
+    cache.set("conv-1", [
+      makeMessage("a1", "conv-1", "first draft", now - 2000),
+      makeMessage("a2", "conv-1", "second thought", now - 1000),
+    ]);
+
+    cache.removeMessage("conv-1", "a1");
+    cache.updateMessage("conv-1", "a2", { text: "changed my mind" });
+
+    expect(index.search("draft")).toEqual([]);
+    expect(index.search("thought")).toEqual([]);
+    expect(index.search("mind").map((r) => r.message._id)).toEqual(["a2"]);
+  });
+
+  it("persists documents and never returns expired messages", async () => {
+    cache.set("conv-1", [
+      makeMessage("a1", "conv-1", "see you soon", now - 1000),
+      {
+        ...makeMessage("a2", "conv-1", "see you never", now),
+        expiresAt: now + 1000,
+      },
+    ]);
+    await index.flush();
+
+    const restored = new MessageSearchIndex({
+      storageKey: "test_search_index",
+    });
+    await restored.hydrate();
+    expect(
+      restored
+        .search("see")
+        .map((r) => r.message._id)
+        .sort()
+    ).toEqual(["a1", "a2"]);
+
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now + 2000);
+    expect(restored.search("see").map((r) => r.message._id)).toEqual(["a1"]);
+    clock.mockRestore();
+    restored.destroy();
+  });
+
+  it("keeps encrypted conversations out of the index", async () => {
+    cache.set("conv-1", [
+      makeMessage("a1", "conv-1", "plain hello", now - 1000),
+      {
+        ...makeMessage("a2", "conv-1", "secret hello", now),
+        encrypted: { v: 1 } as any,
+      },
+    ]);
+    await index.flush();
+
+    expect(index.search("hello").map((r) => r.message._id)).toEqual(["a1"]);
+    const stored = await AsyncStorage.getItem("test_search_index");
+    expect(stored).not.toContain("secret");
+  });
+
+  it("backfills from the store in batches and forgets it all on clear", async () => {
+    const conversations: Record<string, Message[]> = {};
+    for (let i = 0; i < 12; i++) {
+      conversations[`conv-${i}`] = [
+        makeMessage(`m${i}`, `conv-${i}`, `hello number ${i}`, now - i),
+      ];
+    }
+    const store = {
+      hydrate: jest.fn(async () => {}),
+      getConversationIds: () => Object.keys(conversations),
+      readConversation: jest.fn(async (id: string) => conversations[id]),
+    };
+
+    const backfilled = new MessageSearchIndex({
+      storageKey: "test_search_backfill",
+      backfillFrom: store,
+    });
+    await backfilled.hydrate();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(store.readConversation).toHaveBeenCalledTimes(12);
+    expect(backfilled.search("hello")).toHaveLength(12);
+
+    backfilled.clear();
+    await backfilled.hydrate();
+    expect(backfilled.search("hello")).toEqual([]);
+    expect(await AsyncStorage.getItem("test_search_backfill")).toBeNull();
+    backfilled.destroy();
+  });
+});
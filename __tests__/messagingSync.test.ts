@@ -0,0 +1,192 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  MessageSyncManager,
+  applyMessageChanges,
+  collapseDuplicateMessages,
+} from "../utils/messagingSync";
+import { messageCache } from "../utils/MessageCache";
+import { Message } from "../types/message";
+
+const makeMessage = (id: string, createdAt: number, text = "hi"): Message => ({
+  _id: id,
+  conversationId: "conv-1",
+  fromUserId: "user-1",
+  toUserId: "user-2",
+  text,
+  type: "text",
+  createdAt,
+});
+
+describe("applyMessageChanges", () => {
+  it("applies upserts, edits, tombstones, reactions and reads", () => {
+    const { messages, deletedIds } = applyMessageChanges(
+      [makeMessage("a", 1), makeMessage("b", 2)],
+      [
+        { type: "upsert", message: makeMessage("c", 3) },
+        { type: "edit", messageId: "a", text: "edited", editedAt: 10 },
+        { type: "delete", messageId: "b", deletedAt: 11 },
+        {
+          type: "reaction",
+          messageId: "c",
+          emoji: "❤️",
+          userId: "user-2",
+          action: "add",
+        },
+        { type: "read", messageId: "c", readAt: 12 },
+      ]
+    );
+
+    expect(messages.map((m) => m._id)).toEqual(["a", "c"]);
+    expect(messages[0].text).toBe("edited");
+    expect(messages[1]).toMatchObject({
+      status: "read",
+      readAt: 12,
+      reactions: [{ emoji: "❤️", userId: "user-2" }],
+    });
+    expect(deletedIds).toEqual(["b"]);
+  });
+
+  it("orders by sequence number and ignores stale edits", () => {
+    const { messages } = applyMessageChanges(
+      [{ ...makeMessage("a", 1), editedAt: 20, text: "newest" }],
+      [
+        {
+          type: "reaction",
+          seq: 2,
+          messageId: "a",
+          emoji: "👍",
+          userId: "user-2",
+          action: "remove",
+        },
+        {
+          type: "reaction",
+          seq: 1,
+          messageId: "a",
+          emoji: "👍",
+          userId: "user-2",
+          action: "add",
+        },
+        { type: "edit", seq: 3, messageId: "a", text: "old", editedAt: 5 },
+      ]
+    );
+
+    expect(messages[0].text).toBe("newest");
+    expect(messages[0].reactions).toEqual([]);
+  });
+});
+
+describe("collapseDuplicateMessages", () => {
+  it("keeps one copy per client message id, preferring the earliest server copy", () => {
+    const optimistic = {
+      ...makeMessage("optimistic_1", 5),
+      clientMessageId: "cm-1",
+      isOptimistic: true,
+    };
+    const first = { ...makeMessage("s1", 6), clientMessageId: "cm-1" };
+    const retry = { ...makeMessage("s2", 7), clientMessageId: "cm-1" };
+    const other = makeMessage("s3", 8);
+
+    const { messages, removedIds } = collapseDuplicateMessages([
+      optimistic,
+      first,
+      retry,
+      other,
+    ]);
+
+    expect(messages.map((m) => m._id)).toEqual(["s1", "s3"]);
+    expect(removedIds).toEqual(["optimistic_1", "s2"]);
+  });
+});
+
+describe("MessageSyncManager delta sync", () => {
+  const apiClient = {
+    getMessages: jest.fn(),
+    getMessageChanges: jest.fn(),
+    getUnreadCounts: jest.fn(),
+  };
+
+  let manager: MessageSyncManager;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    messageCache.clearCache();
+    apiClient.getUnreadCounts.mockResolvedValue({ success: true, data: [] });
+    manager = new MessageSyncManager(apiClient, { storageKey: "test_sync" });
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  it("seeds with a full sync, then only requests changes", async () => {
+    apiClient.getMessages.mockResolvedValue({
+      success: true,
+      data: [makeMessage("a", 1)],
+    });
+    apiClient.getMessageChanges.mockResolvedValue({
+      success: true,
+      data: {
+        changes: [{ type: "upsert", message: makeMessage("b", 2) }],
+        cursor: "c1",
+        hasMore: false,
+      },
+    });
+
+    await manager.syncConversation("conv-1");
+    expect(apiClient.getMessages).toHaveBeenCalledTimes(1);
+    expect(apiClient.getMessageChanges).not.toHaveBeenCalled();
+
+    await manager.syncConversation("conv-1");
+    expect(apiClient.getMessages).toHaveBeenCalledTimes(1);
+    expect(apiClient.getMessageChanges).toHaveBeenCalledWith(
+      "conv-1",
+      expect.objectContaining({ cursor: undefined })
+    );
+    expect(messageCache.get("conv-1")?.map((m) => m._id)).toEqual(["a", "b"]);
+    expect(manager.getSyncStats().deltaConversations).toBe(1);
+  });
+
+  it("sends the server's watermark as `since`, not the device clock", async () => {
+    apiClient.getMessages.mockResolvedValue({
+      success: true,
+      data: [makeMessage("a", 1000)],
+    });
+    apiClient.getMessageChanges.mockResolvedValue({
+      success: true,
+      data: { changes: [], cursor: "", hasMore: false, serverTime: 5000 },
+    });
+    const clock = jest.spyOn(Date, "now").mockReturnValue(9_999_999);
+
+    await manager.syncConversation("conv-1");
+    await manager.syncConversation("conv-1");
+    await manager.syncConversation("conv-1");
+    clock.mockRestore();
+
+    expect(apiClient.getMessageChanges).toHaveBeenNthCalledWith(
+      1,
+      "conv-1",
+      expect.objectContaining({ since: 1000 })
+    );
+    expect(apiClient.getMessageChanges).toHaveBeenNthCalledWith(
+      2,
+      "conv-1",
+      expect.objectContaining({ since: 5000 })
+    );
+  });
+
+  it("falls back to full sync when the backend has no delta endpoint", async () => {
+    apiClient.getMessages.mockResolvedValue({ success: true, data: [] });
+    apiClient.getMessageChanges.mockResolvedValue({
+      success: false,
+      error: { code: "HTTP_404", message: "Not found" },
+    });
+
+    await manager.syncConversation("conv-1");
+    await manager.syncConversation("conv-1");
+    await manager.syncConversation("conv-1");
+
+    expect(apiClient.getMessageChanges).toHaveBeenCalledTimes(1);
+    expect(apiClient.getMessages).toHaveBeenCalledTimes(3);
+    expect(manager.getSyncStats().syncMode).toBe("full");
+  });
+});
@@ -0,0 +1,50 @@
+import { OptimisticMessageTracker } from "../utils/optimisticMessageManager";
+import { messageCache } from "../utils/MessageCache";
+import { MessagingErrorType } from "../types/messaging";
+
+const draft = {
+  conversationId: "conv-1",
+  fromUserId: "user-1",
+  toUserId: "user-2",
+  text: "hello",
+  type: "text" as const,
+  createdAt: 1000,
+};
+
+describe("OptimisticMessageTracker", () => {
+  beforeEach(() => {
+    messageCache.clearCache();
+  });
+
+  it("reconciles by client message id when the server copy arrived first", () => {
+    const tracker = new OptimisticMessageTracker();
+    const tempId = tracker.addOptimisticMessage(draft);
+    const { clientMessageId } = tracker.get(tempId)!;
+
+    // Realtime delivered the stored message before the send call returned
+    const stored = { ...draft, _id: "m1", clientMessageId };
+    messageCache.addMessages("conv-1", [stored]);
+
+    tracker.confirmMessage(tempId, stored);
+
+    expect(messageCache.get("conv-1")?.map((m) => m._id)).toEqual(["m1"]);
+    expect(tracker.size).toBe(0);
+  });
+
+  it("replaces a rejected copy once a retry is confirmed", () => {
+    const tracker = new OptimisticMessageTracker();
+    const tempId = tracker.addOptimisticMessage(draft);
+    const { clientMessageId } = tracker.get(tempId)!;
+
+    tracker.rejectMessage(tempId, {
+      type: MessagingErrorType.NETWORK_ERROR,
+      message: "offline",
+      recoverable: true,
+    });
+    expect(messageCache.get("conv-1")?.[0].status).toBe("failed");
+
+    tracker.confirmMessage(tempId, { ...draft, _id: "m1", clientMessageId });
+
+    expect(messageCache.get("conv-1")?.map((m) => m._id)).toEqual(["m1"]);
+  });
+});
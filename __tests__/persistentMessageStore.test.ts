@@ -0,0 +1,172 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { PersistentMessageStore } from "../utils/persistentMessageStore";
+import { Message } from "../types/message";
+
+const makeMessage = (id: string, createdAt: number, text = "hi"): Message => ({
+  _id: id,
+  conversationId: "conv-1",
+  fromUserId: "user-1",
+  toUserId: "user-2",
+  text,
+  type: "text",
+  createdAt,
+});
+
+describe("PersistentMessageStore", () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it("persists messages across instances", async () => {
+    const store = new PersistentMessageStore({ storageKey: "test_store" });
+    store.setMessages("conv-1", [makeMessage("b", 2), makeMessage("a", 1)]);
+    await store.flush();
+    store.destroy();
+
+    const reopened = new PersistentMessageStore({ storageKey: "test_store" });
+    expect(reopened.getMessages("conv-1")).toBeNull();
+
+    const messages = await reopened.loadConversation("conv-1");
+    expect(messages.map((m) => m._id)).toEqual(["a", "b"]);
+    expect(reopened.getCursor("conv-1")).toMatchObject({
+      oldestCreatedAt: 1,
+      newestCreatedAt: 2,
+    });
+  });
+
+  it("merges writes made before a conversation was loaded", async () => {
+    const first = new PersistentMessageStore({ storageKey: "test_store" });
+    first.setMessages("conv-1", [makeMessage("a", 1)]);
+    await first.flush();
+
+    const second = new PersistentMessageStore({ storageKey: "test_store" });
+    second.addMessage("conv-1", makeMessage("b", 2));
+    await second.flush();
+
+    expect(second.getMessages("conv-1")?.map((m) => m._id)).toEqual(["a", "b"]);
+  });
+
+  it("pages backwards using createdAt cursors", async () => {
+    const store = new PersistentMessageStore({ storageKey: "test_store" });
+    store.setMessages(
+      "conv-1",
+      [1, 2, 3, 4, 5].map((n) => makeMessage(`m${n}`, n))
+    );
+    store.setCursor("conv-1", { hasMoreOlder: false });
+
+    const newest = await store.getPage("conv-1", { limit: 2 });
+    expect(newest.messages.map((m) => m._id)).toEqual(["m4", "m5"]);
+    expect(newest.hasMore).toBe(true);
+
+    const oldest = await store.getPage("conv-1", { before: 2, limit: 2 });
+    expect(oldest.messages.map((m) => m._id)).toEqual(["m1"]);
+    expect(oldest.hasMore).toBe(false);
+  });
+
+  it("evicts least recently used conversations over the size budget", async () => {
+    const store = new PersistentMessageStore({
+      storageKey: "test_store",
+      maxBytes: 700,
+    });
+    const longText = "x".repeat(200);
+
+    store.setMessages("old", [makeMessage("a", 1, longText)]);
+    await store.flush();
+    store.setMessages("new", [makeMessage("b", 2, longText)]);
+    store.setMessages("newer", [makeMessage("c", 3, longText)]);
+    await store.flush();
+
+    expect(store.has("old")).toBe(false);
+    expect(store.has("newer")).toBe(true);
+    expect(store.getStats().totalBytes).toBeLessThanOrEqual(700);
+  });
+
+  it("caps history per conversation and flags older pages", () => {
+    const store = new PersistentMessageStore({
+      storageKey: "test_store",
+      maxMessagesPerConversation: 2,
+    });
+    store.setMessages(
+      "conv-1",
+      [1, 2, 3].map((n) => makeMessage(`m${n}`, n))
+    );
+
+    expect(store.getMessages("conv-1")?.map((m) => m._id)).toEqual([
+      "m2",
+      "m3",
+    ]);
+    expect(store.getCursor("conv-1")?.hasMoreOlder).toBe(true);
+  });
+
+  it("purges disappearing messages that expired while unloaded", async () => {
+    const now = Date.now();
+    const first = new PersistentMessageStore({ storageKey: "test_store" });
+    first.setMessages("conv-1", [
+      { ...makeMessage("gone", 1), expiresAt: now + 1000 },
+      makeMessage("kept", 2),
+    ]);
+    first.setDisappearingTimer("conv-1", { timer: "24h", since: 1 });
+    await first.flush();
+    first.destroy();
+
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now + 2000);
+    const reopened = new PersistentMessageStore({ storageKey: "test_store" });
+    await reopened.purgeExpired();
+    await reopened.flush();
+    clock.mockRestore();
+
+    const stored = JSON.parse(
+      (await AsyncStorage.getItem("test_store_conv_conv-1")) || "[]"
+    );
+    expect(stored.map((m: any) => m._id)).toEqual(["kept"]);
+    expect(reopened.getDisappearingTimer("conv-1")).toEqual({
+      timer: "24h",
+      since: 1,
+    });
+  });
+
+  it("clears conversations from earlier sessions on a full clear", async () => {
+    const first = new PersistentMessageStore({ storageKey: "test_store" });
+    first.setMessages("conv-1", [makeMessage("a", 1)]);
+    await first.flush();
+    first.destroy();
+
+    const reopened = new PersistentMessageStore({ storageKey: "test_store" });
+    reopened.clearCache();
+    await reopened.hydrate();
+    await reopened.flush();
+
+    expect(await AsyncStorage.getItem("test_store_conv_conv-1")).toBeNull();
+    expect(await reopened.loadConversation("conv-1")).toEqual([]);
+  });
+
+  it("stores encrypted messages sealed and opens them when read", async () => {
+    const envelope = { v: 1, senderDeviceId: "d1" } as any;
+    const cipher = {
+      decryptMessages: jest.fn(async (messages: Message[]) =>
+        messages.map((m) =>
+          m.encrypted ? { ...m, text: "secret", transcript: "secret" } : m
+        )
+      ),
+    };
+    const first = new PersistentMessageStore({ storageKey: "test_store" });
+    first.setMessages("conv-1", [
+      { ...makeMessage("a", 1, "secret"), encrypted: envelope },
+      { ...makeMessage("b", 2), transcript: "spoken" },
+    ]);
+    await first.flush();
+    first.destroy();
+
+    const raw = (await AsyncStorage.getItem("test_store_conv_conv-1"))!;
+    expect(raw).not.toContain("secret");
+    expect(raw).toContain("spoken");
+
+    const reopened = new PersistentMessageStore({
+      storageKey: "test_store",
+      cipher,
+    });
+    const messages = await reopened.loadConversation("conv-1");
+    expect(messages[0]).toMatchObject({ text: "secret", encrypted: envelope });
+    expect(cipher.decryptMessages).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  HeuristicPhotoEngine,
+  PhotoPrecheck,
+  StaticPhotoEngine,
+  getPrecheckIssues,
+  toPrecheckMetadata,
+} from "../services/photoPrecheck";
+
+describe("photo pre-check", () => {
+  const engine = new StaticPhotoEngine({
+    "solo.jpg": { faceCount: 1, largestFaceRatio: 0.2, textCoverage: 0 },
+    "group.jpg": { faceCount: 3, largestFaceRatio: 0.1, textCoverage: 0.3 },
+    "far.jpg": { faceCount: 1, largestFaceRatio: 0.01 },
+  });
+  const precheck = new PhotoPrecheck({ engine });
+
+  it("clears a solo photo and blocks a group photo with guidance", async () => {
+    const solo = await precheck.run({ uri: "solo.jpg" });
+    expect(solo.verdict).toBe("clear");
+    expect(getPrecheckIssues(solo)).toEqual([]);
+
+    const group = await precheck.run({ uri: "group.jpg" });
+    expect(group.verdict).toBe("block");
+    // Blocking issues come before warnings
+    expect(getPrecheckIssues(group).map((o) => o.ruleId)).toEqual([
+      "single_person",
+      "text_coverage",
+    ]);
+    expect(getPrecheckIssues(group)[0].guidance).toMatch(/only you/);
+
+    const far = await precheck.run({ uri: "far.jpg" });
+    expect(far.verdict).toBe("warn");
+    expect(toPrecheckMetadata(far, true)).toMatchObject({
+      verdict: "warn",
+      engine: "static",
+      overridden: true,
+      rules: {
+        face_visible: "passed",
+        face_size: "failed",
+        not_screenshot: "skipped",
+        text_coverage: "skipped",
+      },
+    });
+  });
+
+  it("skips rules it can't measure instead of failing them", async () => {
+    const heuristic = new PhotoPrecheck({
+      engine: new HeuristicPhotoEngine(() => ({ width: 1170, height: 2532 })),
+    });
+
+    const photo = await heuristic.run({ uri: "IMG_0001.jpg" });
+    expect(photo.verdict).toBe("unchecked");
+
+    const screenshot = await heuristic.run({
+      uri: "file:///cache/IMG_0002.png",
+      mimeType: "image/png",
+      width: 1170,
+      height: 2532,
+    });
+    expect(screenshot.verdict).toBe("block");
+    expect(getPrecheckIssues(screenshot)[0].ruleId).toBe("not_screenshot");
+
+    const failing = new PhotoPrecheck({
+      engine: {
+        id: "broken",
+        analyze: jest.fn().mockRejectedValue(new Error("model missing")),
+      },
+    });
+    const unchecked = await failing.run({ uri: "solo.jpg" });
+    expect(unchecked.verdict).toBe("unchecked");
+    expect(unchecked.outcomes.every((o) => o.status === "skipped")).toBe(true);
+  });
+});
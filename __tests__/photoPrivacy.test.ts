@@ -0,0 +1,48 @@
+import {
+  canViewPhoto,
+  describeLockedPhoto,
+  photoDisplayUri,
+  resolvePhotoVisibility,
+} from "../utils/photoPrivacy";
+
+describe("photo privacy", () => {
+  it("lets a photo's own setting override the profile default", () => {
+    expect(resolvePhotoVisibility({}, "matches")).toBe("matches");
+    expect(resolvePhotoVisibility({ visibility: "public" }, "matches")).toBe(
+      "public"
+    );
+    expect(resolvePhotoVisibility({ visibility: "on_request" })).toBe(
+      "on_request"
+    );
+    expect(resolvePhotoVisibility(null)).toBe("public");
+  });
+
+  it("opens private photos to matches and approved requests only", () => {
+    expect(canViewPhoto("public", {})).toBe(true);
+    expect(canViewPhoto("matches", {})).toBe(false);
+    expect(canViewPhoto("matches", { isMatch: true })).toBe(true);
+    expect(canViewPhoto("matches", { accessStatus: "pending" })).toBe(false);
+
+    // A match alone isn't enough when the owner wants to approve viewers
+    expect(canViewPhoto("on_request", { isMatch: true })).toBe(false);
+    expect(canViewPhoto("on_request", { accessStatus: "approved" })).toBe(true);
+    expect(canViewPhoto("on_request", { isOwner: true })).toBe(true);
+
+    expect(describeLockedPhoto("matches").canRequest).toBe(true);
+    expect(describeLockedPhoto("on_request", "pending")).toEqual({
+      title: "Photo access requested",
+      canRequest: false,
+    });
+  });
+
+  it("never loads the original of a locked photo", () => {
+    const photo = {
+      url: "https://cdn/a.jpg",
+      blurredUrl: "https://cdn/a-blur",
+    };
+    expect(photoDisplayUri(photo, false)).toBe("https://cdn/a.jpg");
+    expect(photoDisplayUri(photo, true)).toBe("https://cdn/a-blur");
+    expect(photoDisplayUri({ url: "https://cdn/b.jpg" }, true)).toBeUndefined();
+    expect(photoDisplayUri("https://cdn/c.jpg", true)).toBeUndefined();
+  });
+});
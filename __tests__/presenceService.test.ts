@@ -0,0 +1,166 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { PresenceService, formatLastSeen } from "../services/presenceService";
+
+describe("presence service", () => {
+  const NOW = 1700000000000;
+  const fetchPresence = jest.fn();
+  const sendHeartbeat = jest.fn();
+  const fetchPrivacy = jest.fn();
+  const savePrivacy = jest.fn();
+  let service: PresenceService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    await AsyncStorage.clear();
+    fetchPresence.mockReset();
+    sendHeartbeat.mockReset().mockResolvedValue(undefined);
+    fetchPrivacy
+      .mockReset()
+      .mockResolvedValue({ success: true, data: { showLastSeen: true } });
+    savePrivacy.mockReset().mockResolvedValue({ success: true });
+    fetchPresence.mockImplementation(async (userIds: string[]) => ({
+      success: true,
+      data: Object.fromEntries(
+        userIds.map((id) => [
+          id,
+          id === "private"
+            ? { isOnline: false, lastSeen: null }
+            : { isOnline: id === "online", lastSeen: NOW - 5 * 60000 },
+        ])
+      ),
+    }));
+    service = new PresenceService({
+      storageKey: "test_presence_privacy",
+      fetchPresence,
+      sendHeartbeat,
+      fetchPrivacy,
+      savePrivacy,
+    });
+    await service.setUser("me");
+  });
+
+  afterEach(() => {
+    service.destroy();
+    jest.useRealTimers();
+  });
+
+  const flush = async () => {
+    jest.advanceTimersByTime(50);
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+
+  it("batches subscriptions from several screens into one request", async () => {
+    const stopList = service.subscribe(["online", "away"]);
+    const stopProfile = service.subscribe(["away", "private"]);
+    await flush();
+
+    expect(fetchPresence).toHaveBeenCalledTimes(1);
+    expect(fetchPresence.mock.calls[0][0].sort()).toEqual([
+      "away",
+      "online",
+      "private",
+    ]);
+    expect(sendHeartbeat).toHaveBeenCalledTimes(1);
+    expect(formatLastSeen(service.getPresence("online"))).toBe("Online");
+    expect(formatLastSeen(service.getPresence("away"), NOW)).toBe(
+      "Last seen 5 minutes ago"
+    );
+    // They hide their last seen
+    expect(service.getPresence("private")?.lastSeenHidden).toBe(true);
+    expect(formatLastSeen(service.getPresence("private"))).toBeUndefined();
+
+    // Fresh presence isn't fetched again for a new subscriber
+    const stopAgain = service.subscribe(["away"]);
+    await flush();
+    expect(fetchPresence).toHaveBeenCalledTimes(1);
+
+    // Polling stops once nobody is watching
+    stopList();
+    stopProfile();
+    stopAgain();
+    jest.advanceTimersByTime(60000);
+    expect(fetchPresence).toHaveBeenCalledTimes(1);
+  });
+
+  it("hides everyone's last seen while ours is hidden", async () => {
+    const stop = service.subscribe(["away"]);
+    await flush();
+    const changes = jest.fn();
+    service.on("change", changes);
+
+    await service.setPrivacy({ showLastSeen: false });
+    expect(changes).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "away", lastSeenHidden: true })
+    );
+    expect(service.getPresence("away")?.lastSeen).toBeUndefined();
+    // The server is what keeps it hidden
+    expect(savePrivacy).toHaveBeenCalledWith({ showLastSeen: false });
+
+    // Read back from the server on the next sign-in
+    fetchPrivacy.mockResolvedValue({
+      success: true,
+      data: { showLastSeen: false },
+    });
+    const restored = new PresenceService({
+      storageKey: "test_presence_privacy",
+      fetchPresence,
+      sendHeartbeat,
+      fetchPrivacy,
+      savePrivacy,
+    });
+    await restored.setUser("me");
+    expect(restored.getPrivacy().showLastSeen).toBe(false);
+    restored.destroy();
+
+    await service.setPrivacy({ showLastSeen: true });
+    expect(service.getPresence("away")?.lastSeen).toBe(NOW - 5 * 60000);
+    stop();
+  });
+
+  it("retries sending the privacy setting until the server has it", async () => {
+    savePrivacy.mockResolvedValueOnce({
+      success: false,
+      error: { code: "NETWORK_ERROR", message: "offline" },
+    });
+    await service.setPrivacy({ showLastSeen: false });
+    expect(savePrivacy).toHaveBeenCalledTimes(1);
+
+    const stop = service.subscribe(["away"]);
+    await flush();
+    expect(savePrivacy).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(30000);
+    await flush();
+    expect(savePrivacy).toHaveBeenCalledTimes(2);
+    stop();
+  });
+
+  it("doesn't hand one account's setting to the next", async () => {
+    await service.setPrivacy({ showLastSeen: false });
+    service.reset();
+    expect(service.getPrivacy().showLastSeen).toBe(true);
+
+    // A pending change is kept for its own account only
+    savePrivacy.mockResolvedValue({
+      success: false,
+      error: { code: "NETWORK_ERROR", message: "offline" },
+    });
+    await service.setUser("me");
+    await service.setPrivacy({ showLastSeen: false });
+    await service.setUser("someone-else");
+    expect(service.getPrivacy().showLastSeen).toBe(true);
+    expect(fetchPrivacy).toHaveBeenCalledTimes(3);
+  });
+
+  it("applies realtime presence updates", () => {
+    service.applyRealtimePresence({ userId: "u1", status: "online" });
+    expect(service.getPresence("u1")?.isOnline).toBe(true);
+
+    jest.setSystemTime(NOW + 2 * 3600000);
+    service.applyRealtimePresence({ userId: "u1", status: "offline" });
+    expect(formatLastSeen(service.getPresence("u1"), NOW + 26 * 3600000)).toBe(
+      "Last seen yesterday"
+    );
+  });
+});
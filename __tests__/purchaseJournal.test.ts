@@ -0,0 +1,77 @@
+import { PurchaseJournal } from "../utils/purchaseJournal";
+import type { PurchaseValidationRequest } from "../types/inAppPurchase";
+
+const request = (transactionId: string): PurchaseValidationRequest => ({
+  platform: "android",
+  productId: "premium",
+  purchaseToken: `token-for-${transactionId}-abcdefghijkl`,
+  transactionId,
+  subscriptionPlan: "premium",
+});
+
+describe("PurchaseJournal", () => {
+  let journal: PurchaseJournal;
+
+  beforeEach(() => {
+    journal = new PurchaseJournal(`purchase_journal_test_${Math.random()}`);
+    journal.setUser("user-1");
+  });
+
+  it("records each store transaction once, for the user who bought it", async () => {
+    await journal.record(request("tx1"));
+    await journal.record(request("tx1"));
+    expect(journal.getPending()).toHaveLength(1);
+
+    journal.setUser("user-2");
+    expect(journal.getPending()).toHaveLength(0);
+  });
+
+  it("gives purchases journalled while signed out to the next user", async () => {
+    journal.setUser(null);
+    await journal.record(request("tx1"));
+
+    journal.setUser("user-2");
+    expect(journal.getPending()).toHaveLength(1);
+    await journal.replay(async () => ({ status: "retry", error: "offline" }));
+    expect(journal.getEntry("tx1")?.userId).toBe("user-2");
+
+    journal.setUser("user-3");
+    expect(journal.getPending()).toHaveLength(0);
+  });
+
+  it("keeps retrying until the server settles a purchase", async () => {
+    await journal.record(request("tx1"));
+    await journal.record(request("tx2"));
+    const onValidated = jest.fn();
+    journal.on("validated", onValidated);
+
+    await journal.replay(async () => ({ status: "retry", error: "offline" }));
+    expect(journal.getPending().map((e) => e.attempts)).toEqual([1, 1]);
+    expect(journal.getEntry("tx1")?.lastError).toBe("offline");
+
+    const validated = await journal.replay(async (entry) =>
+      entry.transactionId === "tx1"
+        ? { status: "validated" }
+        : { status: "rejected", error: "Receipt not found" }
+    );
+    expect(validated.map((e) => e.transactionId)).toEqual(["tx1"]);
+    expect(onValidated).toHaveBeenCalledTimes(1);
+    expect(journal.getPending()).toHaveLength(0);
+    expect(journal.getEntry("tx2")?.status).toBe("rejected");
+
+    // Settled entries aren't sent again
+    const validate = jest.fn();
+    await journal.replay(validate);
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  it("exports the journal without usable receipts", async () => {
+    await journal.record(request("tx1"));
+    const exported = JSON.parse(journal.exportForSupport());
+    expect(exported.entries[0]).toMatchObject({
+      transactionId: "tx1",
+      status: "pending",
+      request: { purchaseToken: "…efghijkl (26 chars)" },
+    });
+  });
+});
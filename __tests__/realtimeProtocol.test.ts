@@ -0,0 +1,135 @@
+import {
+  RealtimeProtocol,
+  decodeServerFrame,
+  encodeClientFrame,
+} from "../utils/realtimeProtocol";
+
+describe("realtime protocol", () => {
+  it("decodes versioned envelopes and keeps frame metadata", () => {
+    const result = decodeServerFrame(
+      JSON.stringify({
+        v: 2,
+        type: "message.edited",
+        ts: 1700000000000,
+        seq: 42,
+        data: {
+          conversationId: "c1",
+          messageId: "m1",
+          text: "edited",
+          editedAt: 1700000000000,
+          addedLater: true,
+        },
+      })
+    );
+
+    expect(result).toMatchObject({
+      kind: "event",
+      event: { type: "message.edited", messageId: "m1", text: "edited" },
+      meta: { v: 2, ts: 1700000000000, seq: 42 },
+    });
+  });
+
+  it("upgrades version 1 flat frames", () => {
+    const message = decodeServerFrame({
+      type: "message",
+      id: "m1",
+      conversationId: "c1",
+      fromUserId: "u1",
+      toUserId: "u2",
+      content: "hi",
+      timestamp: 1700000000000,
+    });
+    expect(message).toMatchObject({
+      kind: "event",
+      event: {
+        type: "message.new",
+        message: {
+          id: "m1",
+          type: "text",
+          text: "hi",
+          createdAt: 1700000000000,
+        },
+      },
+      meta: { v: 1 },
+    });
+
+    const receipt = decodeServerFrame({
+      type: "read_receipt",
+      messageId: "m1",
+      conversationId: "c1",
+      userId: "u2",
+      timestamp: 5,
+    });
+    expect(receipt).toMatchObject({
+      kind: "event",
+      event: { type: "receipt", status: "read", at: 5 },
+    });
+  });
+
+  it("rejects malformed frames and passes over unknown types", () => {
+    expect(decodeServerFrame("{not json").kind).toBe("invalid");
+    expect(
+      decodeServerFrame({
+        v: 2,
+        type: "presence",
+        data: { userId: "u1", status: "dancing" },
+      })
+    ).toMatchObject({
+      kind: "invalid",
+      error: 'presence: status has unsupported value "dancing"',
+    });
+    expect(
+      decodeServerFrame({ v: 2, type: "call.incoming", ts: 1, data: {} })
+    ).toMatchObject({ kind: "unknown", type: "call.incoming" });
+  });
+
+  it("negotiates a version and encodes frames for it", () => {
+    const protocol = new RealtimeProtocol();
+    expect(JSON.parse(protocol.hello())).toMatchObject({
+      v: 2,
+      type: "hello",
+      data: { versions: [1, 2] },
+    });
+
+    const typing = {
+      type: "typing" as const,
+      conversationId: "c1",
+      userId: "u1",
+      isTyping: true,
+    };
+    // Until the server answers, speak version 1
+    expect(JSON.parse(protocol.encode(typing))).toMatchObject({
+      type: "typing",
+      isTyping: true,
+    });
+
+    protocol.decode({ v: 2, type: "welcome", data: { version: 2 } });
+    expect(protocol.isNegotiated).toBe(true);
+    expect(JSON.parse(protocol.encode(typing))).toMatchObject({
+      v: 2,
+      type: "typing",
+      data: { conversationId: "c1", isTyping: true },
+    });
+
+    expect(
+      protocol.decode({ v: 3, type: "welcome", data: { version: 3 } }).kind
+    ).toBe("invalid");
+    expect(protocol.currentVersion).toBe(2);
+  });
+
+  it("maps receipts onto the version 1 frame names", () => {
+    const frame = JSON.parse(
+      encodeClientFrame(
+        {
+          type: "receipt",
+          conversationId: "c1",
+          messageId: "m1",
+          userId: "u1",
+          status: "read",
+        },
+        1
+      )
+    );
+    expect(frame.type).toBe("read_receipt");
+  });
+});
@@ -0,0 +1,163 @@
+import { RealtimeMessagingService } from "../services/RealtimeMessagingService";
+import { RealtimeReplayBuffer } from "../utils/realtimeReplayBuffer";
+import { MockRealtimeServer } from "./helpers/mockRealtimeServer";
+
+const wireMessage = (id: string) => ({
+  message: {
+    id,
+    conversationId: "c1",
+    fromUserId: "u2",
+    toUserId: "u1",
+    type: "text",
+    text: `text ${id}`,
+    createdAt: 1700000000000,
+  },
+});
+
+describe("realtime session resume", () => {
+  let server: MockRealtimeServer;
+  let service: RealtimeMessagingService;
+  let received: string[];
+  let resyncs: any[];
+
+  const start = async (options = {}) => {
+    server = new MockRealtimeServer(options).install();
+    service = new RealtimeMessagingService("wss://realtime.test");
+    received = [];
+    resyncs = [];
+    service.on("message", (message) => received.push(message.id));
+    service.on("resync_required", (info) => resyncs.push(info));
+
+    const ready = service.initialize("u1");
+    jest.advanceTimersByTime(1);
+    await ready;
+  };
+
+  // Reconnect backoff starts at one second; the new socket opens a tick later
+  const reconnect = () => {
+    jest.advanceTimersByTime(1000);
+    jest.advanceTimersByTime(1);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    server.restore();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("replays events missed during a drop, in order", async () => {
+    await start();
+    const receipts: string[] = [];
+    service.on("read_receipt", (receipt) => receipts.push(receipt.messageId));
+    // A fresh session has nothing to replay, so the first connect resyncs
+    expect(resyncs).toEqual([{ reason: "session_not_resumed" }]);
+
+    server.emit("message.new", wireMessage("m1"));
+    server.emit("message.new", wireMessage("m2"));
+    server.drop();
+
+    server.emit("message.new", wireMessage("m3"));
+    server.emit("receipt", {
+      conversationId: "c1",
+      messageId: "m2",
+      userId: "u2",
+      status: "read",
+      at: 1700000000001,
+    });
+    server.emit("message.new", wireMessage("m4"));
+
+    const resumed = jest.fn();
+    service.on("session_resumed", resumed);
+    reconnect();
+
+    expect(server.socket?.sent[0]).toMatchObject({
+      type: "hello",
+      data: { sessionId: "session-1", lastSeq: 2 },
+    });
+    expect(resumed).toHaveBeenCalledWith({ lastSeq: 2 });
+    expect(received).toEqual(["m1", "m2", "m3", "m4"]);
+    expect(receipts).toEqual(["m2"]);
+    expect(resyncs).toHaveLength(1);
+  });
+
+  it("drops duplicates and reorders frames within a session", async () => {
+    await start();
+    const frame = (seq: number, id: string) => ({
+      v: 2,
+      type: "message.new",
+      ts: 1,
+      seq,
+      data: wireMessage(id),
+    });
+
+    server.send(frame(1, "m1"));
+    server.send(frame(3, "m3"));
+    server.send(frame(2, "m2"));
+    server.send(frame(2, "m2"));
+    server.send(frame(1, "m1"));
+
+    expect(received).toEqual(["m1", "m2", "m3"]);
+  });
+
+  it("asks for a resync when missed events can't be replayed", async () => {
+    await start({ replayWindow: 2 });
+    server.emit("message.new", wireMessage("m1"));
+    server.drop();
+    ["m2", "m3", "m4"].forEach((id) =>
+      server.emit("message.new", wireMessage(id))
+    );
+
+    reconnect();
+    expect(resyncs).toEqual([
+      { reason: "session_not_resumed" },
+      { reason: "session_not_resumed" },
+    ]);
+
+    // A hole inside a live session is waited out, then skipped
+    server.emit("message.new", wireMessage("m5"));
+    server.send({
+      v: 2,
+      type: "message.new",
+      ts: 1,
+      seq: 3,
+      data: wireMessage("m7"),
+    });
+    expect(received).toEqual(["m1", "m5"]);
+
+    jest.advanceTimersByTime(2000);
+    expect(received).toEqual(["m1", "m5", "m7"]);
+    expect(resyncs[2]).toEqual({ reason: "gap", expected: 2, received: 3 });
+  });
+});
+
+describe("RealtimeReplayBuffer", () => {
+  it("only offers a resume point once a sequenced frame was seen", () => {
+    const buffer = new RealtimeReplayBuffer<string>();
+    const items: string[] = [];
+    buffer.on("item", (item: string) => items.push(item));
+
+    buffer.beginSession("s1", false);
+    buffer.push("pong");
+    expect(buffer.getResumeState()).toBeUndefined();
+
+    buffer.push("a", 10);
+    buffer.push("b", 11);
+    expect(buffer.getResumeState()).toEqual({ sessionId: "s1", lastSeq: 11 });
+
+    // Resuming keeps the position; a new session starts over
+    buffer.beginSession("s1", true);
+    buffer.push("b", 11);
+    buffer.push("c", 12);
+    buffer.beginSession("s2", false);
+    buffer.push("x", 1);
+    expect(items).toEqual(["pong", "a", "b", "c", "x"]);
+    buffer.destroy();
+  });
+});
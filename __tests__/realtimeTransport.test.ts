@@ -0,0 +1,89 @@
+import { apiClient } from "../utils/api";
+import {
+  TRANSPORT_STATE,
+  createRealtimeTransport,
+  parseSseEvents,
+  resetBlockedTransports,
+  toHttpUrl,
+} from "../utils/realtimeTransport";
+import { MockRealtimeServer } from "./helpers/mockRealtimeServer";
+
+describe("realtime transports", () => {
+  let server: MockRealtimeServer;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    resetBlockedTransports();
+  });
+
+  afterEach(() => {
+    server?.restore();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("parses event-stream chunks split across reads", () => {
+    const first = parseSseEvents(
+      ': keep-alive\n\ndata: {"a":1}\n\nevent: x\ndata: {"b"'
+    );
+    expect(first.events).toEqual(['{"a":1}']);
+
+    const second = parseSseEvents(first.rest + ":2}\r\n\r\n");
+    expect(second).toEqual({ events: ['{"b":2}'], rest: "" });
+    expect(toHttpUrl("wss://rt.example/ws?userId=u1", "/api/stream")).toBe(
+      "https://rt.example/api/stream?userId=u1"
+    );
+  });
+
+  it("uses the WebSocket when the network allows it", () => {
+    server = new MockRealtimeServer().install();
+    const transport = createRealtimeTransport("wss://rt.example/ws");
+    const opened = jest.fn();
+    transport.onopen = opened;
+
+    jest.advanceTimersByTime(1);
+    expect(opened).toHaveBeenCalled();
+    expect(transport.kind).toBe("websocket");
+    expect(transport.readyState).toBe(TRANSPORT_STATE.OPEN);
+  });
+
+  it("falls back to polling conversation events when sockets are blocked", async () => {
+    server = new MockRealtimeServer({ refuseSockets: true }).install();
+    const events = jest
+      .spyOn(apiClient, "getConversationEvents")
+      .mockResolvedValue({
+        success: true,
+        data: { events: [{ v: 2, type: "pong", ts: 5, data: {} }] },
+      });
+
+    const transport = createRealtimeTransport("wss://rt.example/ws", {
+      transports: ["websocket", "long-poll"],
+      pollInterval: 1000,
+    });
+    const received: string[] = [];
+    transport.onmessage = (event) => received.push(event.data);
+    transport.onopen = jest.fn();
+
+    jest.advanceTimersByTime(1); // socket refused
+    jest.advanceTimersByTime(1); // first poll
+    await Promise.resolve();
+    expect(transport.kind).toBe("long-poll");
+    expect(transport.onopen).toHaveBeenCalled();
+
+    transport.send(JSON.stringify({ type: "join", conversationId: "c1" }));
+    jest.advanceTimersByTime(1000);
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(events).toHaveBeenCalledWith("c1", expect.any(Number));
+    expect(JSON.parse(received[0])).toMatchObject({ type: "pong", ts: 5 });
+
+    // The blocked socket is skipped by the next connect
+    const next = createRealtimeTransport("wss://rt.example/ws", {
+      transports: ["websocket", "long-poll"],
+    });
+    expect(next.kind).toBe("long-poll");
+    next.close();
+    transport.close();
+  });
+});
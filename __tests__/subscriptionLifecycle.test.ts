@@ -0,0 +1,147 @@
+import {
+  LifecycleReceipt,
+  getManageSubscriptionUrl,
+  getSubscriptionLifecycle,
+  inferLifecycleEvent,
+  transitionLifecycle,
+} from "../utils/subscriptionLifecycle";
+import type { SubscriptionLifecycleState } from "../types/subscription";
+
+const NOW = Date.UTC(2026, 5, 15);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Verified receipts as the server returns them, one per lifecycle state
+const RECEIPTS: Record<string, LifecycleReceipt> = {
+  trial: {
+    plan: "premium",
+    status: "trial",
+    isActive: true,
+    trialEndsAt: NOW + 3 * DAY_MS,
+    autoRenewing: true,
+  },
+  active: {
+    plan: "premiumPlus",
+    status: "active",
+    isActive: true,
+    expiresAt: NOW + 20 * DAY_MS,
+    autoRenewing: true,
+  },
+  cancelledActive: {
+    plan: "premium",
+    status: "active",
+    isActive: true,
+    expiresAt: NOW + 5 * DAY_MS,
+    autoRenewing: false,
+  },
+  grace: {
+    plan: "premium",
+    status: "grace_period",
+    isActive: true,
+    expiresAt: NOW - DAY_MS,
+    gracePeriodEndsAt: NOW + 6 * DAY_MS,
+  },
+  graceLapsed: {
+    plan: "premium",
+    status: "grace_period",
+    isActive: true,
+    expiresAt: NOW - 20 * DAY_MS,
+    gracePeriodEndsAt: NOW - 4 * DAY_MS,
+  },
+  onHold: {
+    plan: "premiumPlus",
+    status: "on_hold",
+    isActive: false,
+    expiresAt: NOW - 10 * DAY_MS,
+  },
+  staleActive: {
+    plan: "premium",
+    status: "active",
+    isActive: true,
+    expiresAt: NOW - 1,
+  },
+  refunded: {
+    plan: "premium",
+    status: "active",
+    isActive: true,
+    expiresAt: NOW + 20 * DAY_MS,
+    refundedAt: NOW - DAY_MS,
+  },
+  free: {
+    plan: "free",
+    isActive: false,
+  },
+};
+
+describe("subscription lifecycle", () => {
+  it("derives state and entitlement from fixture receipts", () => {
+    const expected: Record<
+      string,
+      [SubscriptionLifecycleState, boolean, string]
+    > = {
+      trial: ["trial", true, "premium"],
+      active: ["active", true, "premiumPlus"],
+      cancelledActive: ["cancelled_active", true, "premium"],
+      grace: ["grace_period", true, "premium"],
+      graceLapsed: ["on_hold", false, "free"],
+      onHold: ["on_hold", false, "free"],
+      staleActive: ["expired", false, "free"],
+      refunded: ["refunded", false, "free"],
+      free: ["none", false, "free"],
+    };
+    for (const [name, [state, entitled, tier]] of Object.entries(expected)) {
+      const lifecycle = getSubscriptionLifecycle(RECEIPTS[name], NOW);
+      expect([
+        name,
+        lifecycle.state,
+        lifecycle.entitled,
+        lifecycle.tier,
+      ]).toEqual([name, state, entitled, tier]);
+    }
+  });
+
+  it("prompts for the states that need the user", () => {
+    const grace = getSubscriptionLifecycle(RECEIPTS.grace, NOW);
+    expect(grace.accessUntil).toBe(RECEIPTS.grace.gracePeriodEndsAt);
+    expect(grace.banner).toMatchObject({
+      severity: "warning",
+      action: "fix_payment",
+    });
+    expect(getSubscriptionLifecycle(RECEIPTS.onHold, NOW).banner).toMatchObject(
+      { severity: "error", title: "Premium Plus is paused" }
+    );
+    expect(
+      getSubscriptionLifecycle(RECEIPTS.cancelledActive, NOW).banner?.action
+    ).toBe("manage");
+    expect(
+      getSubscriptionLifecycle(RECEIPTS.refunded, NOW).banner?.action
+    ).toBe("resubscribe");
+    expect(getSubscriptionLifecycle(RECEIPTS.active, NOW).banner).toBeNull();
+
+    expect(getManageSubscriptionUrl("ios", "fix_payment")).toBe(
+      "https://apps.apple.com/account/billing"
+    );
+    expect(
+      getManageSubscriptionUrl("android", "manage", "premium_monthly")
+    ).toBe(
+      "https://play.google.com/store/account/subscriptions?sku=premium_monthly&package=com.aroosi.mobile"
+    );
+  });
+
+  it("only moves along known transitions", () => {
+    expect(transitionLifecycle("trial", "convert")).toBe("active");
+    expect(transitionLifecycle("active", "billing_failed")).toBe(
+      "grace_period"
+    );
+    expect(transitionLifecycle("grace_period", "grace_ended")).toBe("on_hold");
+    expect(transitionLifecycle("on_hold", "billing_recovered")).toBe("active");
+    // Events that don't apply leave the state alone
+    expect(transitionLifecycle("expired", "refund")).toBe("expired");
+
+    expect(inferLifecycleEvent("trial", "active")).toBe("convert");
+    expect(inferLifecycleEvent("grace_period", "active")).toBe(
+      "billing_recovered"
+    );
+    expect(inferLifecycleEvent("active", "active")).toBeNull();
+    expect(inferLifecycleEvent("expired", "on_hold")).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  applyOfferEligibility,
+  buildSubscriptionRequest,
+  describeOffer,
+  extractStoreOffers,
+  getTrialState,
+  pickDefaultOffer,
+} from "../utils/subscriptionOffers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const phase = (price: string, micros: string, period: string) => ({
+  formattedPrice: price,
+  priceAmountMicros: micros,
+  billingPeriod: period,
+  billingCycleCount: 1,
+  recurrenceMode: 2,
+});
+
+const playProduct = {
+  id: "premium_monthly",
+  subscriptionOfferDetailsAndroid: [
+    {
+      basePlanId: "monthly",
+      offerId: null,
+      offerToken: "base-token",
+      offerTags: [],
+      pricingPhases: {
+        pricingPhaseList: [phase("£14.99", "14990000", "P1M")],
+      },
+    },
+    {
+      basePlanId: "monthly",
+      offerId: "trial-7d",
+      offerToken: "trial-token",
+      offerTags: [],
+      pricingPhases: {
+        pricingPhaseList: [
+          phase("Free", "0", "P1W"),
+          phase("£14.99", "14990000", "P1M"),
+        ],
+      },
+    },
+    {
+      basePlanId: "monthly",
+      offerId: "winback",
+      offerToken: "promo-token",
+      offerTags: ["promo"],
+      pricingPhases: {
+        pricingPhaseList: [
+          phase("£4.99", "4990000", "P1M"),
+          phase("£14.99", "14990000", "P1M"),
+        ],
+      },
+    },
+  ],
+};
+
+describe("subscription offers", () => {
+  it("reads Play offers and keeps only what the user may take", () => {
+    const offers = extractStoreOffers(playProduct, "android");
+    expect(offers.map((o) => [o.id, o.type])).toEqual([
+      ["trial-7d", "free_trial"],
+      ["winback", "promotional"],
+    ]);
+    expect(describeOffer(offers[0], "£14.99/month")).toBe(
+      "7 days free, then £14.99/month"
+    );
+
+    // Trial already used on iOS; the promotion wasn't granted
+    const narrowed = applyOfferEligibility(offers, {
+      introEligible: false,
+      promotionalOfferIds: [],
+    });
+    expect(pickDefaultOffer(narrowed)).toBeNull();
+
+    const granted = applyOfferEligibility(offers, {
+      introEligible: false,
+      promotionalOfferIds: ["winback"],
+    });
+    const offer = pickDefaultOffer(granted)!;
+    expect(offer.id).toBe("winback");
+    expect(
+      buildSubscriptionRequest(offer.productId, playProduct, offer).android
+    ).toEqual({
+      skus: ["premium_monthly"],
+      subscriptionOffers: [
+        { sku: "premium_monthly", offerToken: "promo-token" },
+      ],
+    });
+    expect(
+      buildSubscriptionRequest("premium_monthly", playProduct, null).android
+        .subscriptionOffers
+    ).toEqual([{ sku: "premium_monthly", offerToken: "base-token" }]);
+  });
+
+  it("only attaches App Store promotions with a signature", () => {
+    const [intro, promo] = extractStoreOffers(
+      {
+        id: "premium_monthly",
+        subscriptionInfoIOS: {
+          introductoryOffer: {
+            displayPrice: "£0.00",
+            paymentMode: "FREETRIAL",
+            period: { unit: "DAY", value: 3 },
+            periodCount: 1,
+          },
+          promotionalOffers: [
+            {
+              id: "comeback",
+              displayPrice: "£7.99",
+              paymentMode: "PAYASYOUGO",
+              period: { unit: "MONTH", value: 1 },
+              periodCount: 3,
+            },
+          ],
+        },
+      },
+      "ios"
+    );
+    expect(intro).toMatchObject({ type: "free_trial", eligible: true });
+    expect(describeOffer(promo)).toBe("£7.99/month for 3 months");
+
+    expect(
+      buildSubscriptionRequest("premium_monthly", null, promo).ios
+    ).not.toHaveProperty("withOffer");
+    const signed = {
+      identifier: "comeback",
+      keyIdentifier: "KEY123",
+      nonce: "nonce",
+      signature: "sig",
+      timestamp: 1,
+    };
+    expect(
+      buildSubscriptionRequest("premium_monthly", null, promo, signed).ios
+        .withOffer
+    ).toBe(signed);
+  });
+
+  it("tracks the trial until it ends", () => {
+    const now = Date.UTC(2026, 0, 1);
+    expect(
+      getTrialState({ status: "trial", trialEndsAt: now + 2.5 * DAY_MS }, now)
+    ).toEqual({ inTrial: true, endsAt: now + 2.5 * DAY_MS, daysLeft: 3 });
+    expect(
+      getTrialState({ status: "trial", trialEndsAt: now - 1 }, now).inTrial
+    ).toBe(false);
+    expect(getTrialState({ status: "active" }, now).inTrial).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { VoiceDraftStore } from "../services/voiceDrafts";
+import { normalizeTrim, trimWaveform } from "../utils/voiceTrim";
+
+class FakeDraftFiles {
+  files = new Set<string>();
+
+  saveDraftAudio = jest.fn(async (conversationId: string, uri: string) => {
+    const draftUri = `drafts/${conversationId}-${uri}`;
+    this.files.add(draftUri);
+    return draftUri;
+  });
+  draftAudioExists = jest.fn(async (uri: string) => this.files.has(uri));
+  deleteDraftAudio = jest.fn(async (uri: string) => {
+    this.files.delete(uri);
+  });
+  releaseDraftAudio = jest.fn(async (uri: string) => {
+    this.files.delete(uri);
+    return uri.replace("drafts/", "cache/");
+  });
+  clearDraftAudio = jest.fn(async () => this.files.clear());
+}
+
+describe("voice drafts", () => {
+  let files: FakeDraftFiles;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    files = new FakeDraftFiles();
+  });
+
+  const createStore = (trimmer: any = null) =>
+    new VoiceDraftStore({ storageKey: "test_voice_drafts", files, trimmer });
+
+  it("keeps one draft per conversation across restarts", async () => {
+    const store = createStore();
+    await store.saveDraft("conv-1", { uri: "take1.m4a", duration: 8 });
+    await store.saveDraft("conv-1", {
+      uri: "take2.m4a",
+      duration: 12,
+      waveform: [0.2, 1],
+    });
+    // Re-recording replaces the earlier take and its file
+    expect(files.deleteDraftAudio).toHaveBeenCalledWith(
+      "drafts/conv-1-take1.m4a"
+    );
+    store.updateTrim("conv-1", { start: 2 });
+
+    const restored = createStore();
+    await restored.hydrate();
+    expect(restored.getDraft("conv-1")).toMatchObject({
+      uri: "drafts/conv-1-take2.m4a",
+      duration: 12,
+      trim: { start: 2, end: 12 },
+    });
+
+    // Drafts whose audio was cleaned up aren't restored
+    files.files.clear();
+    const emptied = createStore();
+    await emptied.hydrate();
+    expect(emptied.getDraft("conv-1")).toBeUndefined();
+  });
+
+  it("hands the untrimmed recording over to the upload", async () => {
+    const store = createStore();
+    await store.saveDraft("conv-1", { uri: "take.m4a", duration: 5 });
+
+    const clip = await store.finalizeDraft("conv-1");
+    expect(clip).toMatchObject({ uri: "cache/conv-1-take.m4a", duration: 5 });
+    expect(store.getDraft("conv-1")).toBeUndefined();
+  });
+
+  it("sends only the kept part when trimming is supported", async () => {
+    const trimmer = {
+      trim: jest.fn(async () => ({
+        uri: "trimmed.wav",
+        mimeType: "audio/wav",
+      })),
+    };
+    const store = createStore(trimmer);
+    await store.saveDraft("conv-1", {
+      uri: "take.m4a",
+      duration: 10,
+      waveform: [0, 0, 0, 0, 1, 1, 0.5, 0.5, 0, 0],
+    });
+    store.updateTrim("conv-1", { start: 4, end: 8 });
+
+    const clip = await store.finalizeDraft("conv-1");
+    expect(trimmer.trim).toHaveBeenCalledWith("drafts/conv-1-take.m4a", {
+      start: 4,
+      end: 8,
+    });
+    expect(clip).toEqual({
+      uri: "trimmed.wav",
+      duration: 4,
+      waveform: trimWaveform([1, 1, 0.5, 0.5], 4, { start: 0, end: 4 }),
+      mimeType: "audio/wav",
+    });
+    expect(files.deleteDraftAudio).toHaveBeenCalledWith(
+      "drafts/conv-1-take.m4a"
+    );
+
+    // Trims are kept inside the recording and at least a second long
+    expect(normalizeTrim({ start: 9.8, end: 20 }, 10)).toEqual({
+      start: 9,
+      end: 10,
+    });
+  });
+});
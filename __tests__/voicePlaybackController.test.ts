@@ -0,0 +1,163 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  VoicePlaybackController,
+  VoicePlayerHandle,
+  buildVoiceQueue,
+} from "../services/voicePlaybackController";
+import { Message } from "../types/message";
+
+jest.mock("expo-audio", () => ({
+  createAudioPlayer: jest.fn(),
+  setAudioModeAsync: jest.fn(),
+}));
+
+class FakePlayer implements VoicePlayerHandle {
+  playing = false;
+  removed = false;
+  rate = 1;
+  seekedTo?: number;
+  private listener?: (status: any) => void;
+
+  constructor(public uri: string) {}
+
+  play() {
+    this.playing = true;
+  }
+  pause() {
+    this.playing = false;
+  }
+  seekTo(seconds: number) {
+    this.seekedTo = seconds;
+  }
+  setPlaybackRate(rate: number) {
+    this.rate = rate;
+  }
+  remove() {
+    this.removed = true;
+  }
+  addListener(_event: "playbackStatusUpdate", listener: (s: any) => void) {
+    this.listener = listener;
+    return { remove: () => (this.listener = undefined) };
+  }
+  report(status: { currentTime: number; didJustFinish?: boolean }) {
+    this.listener?.({
+      duration: 10,
+      playing: !status.didJustFinish,
+      didJustFinish: false,
+      ...status,
+    });
+  }
+}
+
+const voiceNote = (
+  id: string,
+  createdAt: number,
+  extra: Partial<Message> = {}
+): Message => ({
+  _id: id,
+  conversationId: "conv-1",
+  fromUserId: "user-2",
+  toUserId: "user-1",
+  text: "",
+  type: "voice",
+  audioStorageId: `audio-${id}`,
+  duration: 10,
+  createdAt,
+  ...extra,
+});
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+describe("voice playback controller", () => {
+  let players: FakePlayer[];
+  let updateMessage: jest.Mock;
+  let sendListenedReceipt: jest.Mock;
+
+  const createController = () =>
+    new VoicePlaybackController({
+      storageKey: "test_voice_playback",
+      createPlayer: (uri) => {
+        const player = new FakePlayer(uri);
+        players.push(player);
+        return player;
+      },
+      resolveUri: async (storageId) => `https://cdn.test/${storageId}`,
+      sendListenedReceipt,
+      messageCache: { updateMessage },
+    });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    players = [];
+    updateMessage = jest.fn(() => true);
+    sendListenedReceipt = jest.fn(async () => ({ success: true }));
+  });
+
+  it("plays a run of unread notes and marks each as listened", async () => {
+    const controller = createController();
+    const queue = buildVoiceQueue(
+      [
+        voiceNote("m1", 1),
+        voiceNote("m2", 2),
+        voiceNote("m3", 3, { fromUserId: "user-1", toUserId: "user-2" }),
+        voiceNote("m4", 4),
+      ],
+      "user-1"
+    );
+    expect(queue.map((item) => item.nextMessageId)).toEqual([
+      "m2",
+      undefined,
+      "m4",
+      undefined,
+    ]);
+    controller.setPlaylist("conv-1", queue);
+    const listened: string[] = [];
+    controller.on("listened", (item) => listened.push(item.messageId));
+
+    await controller.play(queue[0]);
+    expect(players[0].uri).toBe("https://cdn.test/audio-m1");
+
+    players[0].report({ currentTime: 10, didJustFinish: true });
+    await flush();
+    expect(players[0].removed).toBe(true);
+    expect(controller.getState().current?.messageId).toBe("m2");
+    expect(players[1].playing).toBe(true);
+
+    // My own note after m2 breaks the run
+    players[1].report({ currentTime: 10, didJustFinish: true });
+    await flush();
+    expect(controller.getState().current).toBeNull();
+    expect(players).toHaveLength(2);
+
+    expect(listened).toEqual(["m1", "m2"]);
+    expect(sendListenedReceipt).toHaveBeenCalledTimes(2);
+    expect(updateMessage).toHaveBeenCalledWith("conv-1", "m1", {
+      listenedAt: expect.any(Number),
+    });
+  });
+
+  it("resumes where each note was left at the chosen speed", async () => {
+    const controller = createController();
+    const [note] = buildVoiceQueue([voiceNote("m1", 1)], "user-1");
+
+    await controller.play(note);
+    expect(controller.cycleRate()).toBe(1.5);
+    expect(players[0].rate).toBe(1.5);
+    players[0].report({ currentTime: 6 });
+    controller.pause();
+    controller.stop();
+    await flush();
+
+    const restored = createController();
+    await restored.hydrate();
+    expect(restored.getSavedPosition("m1")).toBe(6);
+    expect(restored.getState().rate).toBe(1.5);
+
+    await restored.play(note);
+    expect(players[1].seekedTo).toBe(6);
+    expect(players[1].rate).toBe(1.5);
+    expect(sendListenedReceipt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  OfflineTranscriptionEngine,
+  ServerTranscriptionEngine,
+  VoiceTranscriptionService,
+} from "../services/voiceTranscription";
+import { MessageCache } from "../utils/MessageCache";
+import { MessageSearchEngine } from "../utils/messageSearch";
+import { MessageSearchIndex } from "../utils/messageSearchIndex";
+import { Message } from "../types/message";
+
+const voiceMessage = (id: string, storageId: string): Message => ({
+  _id: id,
+  conversationId: "conv-1",
+  fromUserId: "user-2",
+  toUserId: "user-1",
+  text: "",
+  type: "voice",
+  audioStorageId: storageId,
+  duration: 4,
+  createdAt: Date.now() - 60000,
+});
+
+describe("voice transcription", () => {
+  let index: MessageSearchIndex;
+  let cache: MessageCache;
+  let service: VoiceTranscriptionService;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    index = new MessageSearchIndex({ storageKey: "test_search_index" });
+    await index.hydrate();
+    cache = new MessageCache({ searchIndex: index });
+    service = new VoiceTranscriptionService({
+      engine: new OfflineTranscriptionEngine({
+        "voice-1": {
+          text: "See you at the Lahore food street",
+          language: "en",
+        },
+      }),
+      storageKey: "test_voice_transcripts",
+      messageCache: cache,
+    });
+  });
+
+  afterEach(() => {
+    cache.destroy();
+    index.destroy();
+  });
+
+  it("stores the transcript on the message and makes it searchable", async () => {
+    cache.set("conv-1", [voiceMessage("m1", "voice-1")]);
+    expect(index.search("lahore")).toEqual([]);
+
+    const stored = await service.transcribe(
+      { storageId: "voice-1" },
+      { conversationId: "conv-1", messageId: "m1" }
+    );
+    expect(stored).toMatchObject({ status: "completed", language: "en" });
+
+    const [message] = cache.get("conv-1")!;
+    expect(message).toMatchObject({
+      audioStorageId: "voice-1",
+      transcript: "See you at the Lahore food street",
+      transcriptStatus: "completed",
+    });
+    expect(index.search("lahore").map((r) => r.message._id)).toEqual(["m1"]);
+    expect(
+      new MessageSearchEngine()
+        .search([message], "food street")
+        .map((r) => r.message._id)
+    ).toEqual(["m1"]);
+  });
+
+  it("transcribes each clip once and remembers it across restarts", async () => {
+    const engine = new OfflineTranscriptionEngine({ "voice-2": "On my way" });
+    const transcribe = jest.spyOn(engine, "transcribe");
+    service.setEngine(engine);
+
+    const [first, second] = await Promise.all([
+      service.transcribe({ storageId: "voice-2" }),
+      service.transcribe({ storageId: "voice-2" }),
+    ]);
+    expect(first).toBe(second);
+    expect(transcribe).toHaveBeenCalledTimes(1);
+
+    const restored = new VoiceTranscriptionService({
+      engine,
+      storageKey: "test_voice_transcripts",
+      messageCache: cache,
+    });
+    await restored.hydrate();
+    expect(restored.getTranscript("voice-2")?.text).toBe("On my way");
+  });
+
+  it("never sends encrypted voice notes to the server", async () => {
+    const transcribeVoiceMessage = jest.fn();
+    const server = new ServerTranscriptionEngine({ transcribeVoiceMessage });
+
+    await expect(
+      server.transcribe({ storageId: "voice-e2e", encrypted: true })
+    ).resolves.toBeNull();
+    expect(transcribeVoiceMessage).not.toHaveBeenCalled();
+  });
+
+  it("retries failures but not clips without speech", async () => {
+    const engine = new OfflineTranscriptionEngine();
+    service.setEngine(engine);
+    const transcribe = jest
+      .spyOn(engine, "transcribe")
+      .mockRejectedValueOnce(new Error("offline"));
+
+    expect((await service.transcribe({ storageId: "voice-3" })).status).toBe(
+      "failed"
+    );
+    expect((await service.transcribe({ storageId: "voice-3" })).status).toBe(
+      "unavailable"
+    );
+    await service.transcribe({ storageId: "voice-3" });
+    expect(transcribe).toHaveBeenCalledTimes(2);
+  });
+});
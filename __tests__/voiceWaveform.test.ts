@@ -0,0 +1,67 @@
+import {
+  WaveformCollector,
+  meteringToLevel,
+  resamplePeaks,
+} from "../utils/peaks";
+import {
+  VOICE_ENCODING_PROFILES,
+  selectVoiceEncodingProfile,
+  toRecordingOptions,
+} from "../utils/voiceEncoding";
+
+jest.mock("expo-audio", () => ({
+  AudioQuality: { MEDIUM: 64, HIGH: 96 },
+  IOSOutputFormat: { MPEG4AAC: "aac ", MPEG4AAC_HE: "aach" },
+}));
+
+describe("voice waveform", () => {
+  it("turns recorder metering into normalized peaks", () => {
+    expect(meteringToLevel(-160)).toBe(0);
+    expect(meteringToLevel(-30)).toBe(0.5);
+    expect(meteringToLevel(0)).toBe(1);
+    expect(meteringToLevel(undefined)).toBe(0);
+
+    const collector = new WaveformCollector();
+    // Quiet start, loud middle, silence at the end
+    [-50, -50, -10, -20, -60, -60].forEach((db) => collector.add(db));
+    collector.add(undefined); // platforms without metering report nothing
+    expect(collector.toPeaks(3)).toEqual([0.2, 1, 0]);
+    expect(resamplePeaks([], 28)).toEqual([]);
+  });
+
+  it("keeps long recordings bounded without skewing time", () => {
+    const collector = new WaveformCollector(8);
+    // One loud second at the very end of a long quiet clip
+    for (let i = 0; i < 990; i++) collector.add(-55);
+    for (let i = 0; i < 10; i++) collector.add(-5);
+
+    expect(collector.sampleCount).toBeLessThanOrEqual(8);
+    const peaks = collector.toPeaks(4);
+    expect(peaks[3]).toBe(1);
+    expect(peaks.slice(0, 3).every((p) => p < 0.2)).toBe(true);
+  });
+
+  it("records smaller files on slow networks", () => {
+    expect(selectVoiceEncodingProfile({ type: "wifi" } as any).name).toBe(
+      "high"
+    );
+    expect(
+      selectVoiceEncodingProfile({
+        type: "cellular",
+        details: { cellularGeneration: "3g" },
+      } as any).name
+    ).toBe("low");
+    expect(selectVoiceEncodingProfile(null).name).toBe("standard");
+    expect(
+      selectVoiceEncodingProfile({ type: "cellular" } as any, "high").name
+    ).toBe("high");
+
+    const options = toRecordingOptions(VOICE_ENCODING_PROFILES.low);
+    expect(options).toMatchObject({
+      isMeteringEnabled: true,
+      numberOfChannels: 1,
+      bitRate: 24000,
+      android: { audioEncoder: "he_aac" },
+    });
+  });
+});
@@ -18,12 +18,15 @@ import { uriToBlob } from "../../utils/fileUtils";
 import EmojiPicker, { EmojiType } from "rn-emoji-keyboard";
 import InlineUpgradeBanner from "../subscription/InlineUpgradeBanner";
 import { useSubscription } from "@/hooks/useSubscription";
+import ScheduleMessageSheet from "./ScheduleMessageSheet";
 
 interface ChatInputProps {
   conversationId: string;
   currentUserId: string;
   onSendMessage: (content: string, type: "text") => void;
   onSendVoiceMessage: (uri: string, duration: number) => void;
+  // Long-press on send offers "send later" when provided
+  onScheduleMessage?: (content: string, scheduledFor: number) => void;
   placeholder?: string;
   disabled?: boolean;
   maxLength?: number;
@@ -34,6 +37,7 @@ export default function ChatInput({
   currentUserId,
   onSendMessage,
   onSendVoiceMessage,
+  onScheduleMessage,
   placeholder = "Type a message...",
   disabled = false,
   maxLength = 1000,
@@ -42,6 +46,7 @@ export default function ChatInput({
   const [showVoiceRecorder, setShowVoiceRecorder] = useState(false);
   const [isKeyboardVisible, setIsKeyboardVisible] = useState(false);
   const [isEmojiPickerOpen, setIsEmojiPickerOpen] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
   const { subscription } = useSubscription();
 
   const inputRef = useRef<TextInput>(null);
@@ -123,6 +128,23 @@ export default function ChatInput({
     inputRef.current?.focus();
   }, [canSend, message, stopTyping, onSendMessage]);
 
+  const handleSendLongPress = useCallback(async () => {
+    if (!canSend || !onScheduleMessage) return;
+    await PlatformHaptics.light();
+    Keyboard.dismiss();
+    setShowSchedule(true);
+  }, [canSend, onScheduleMessage]);
+
+  const handleScheduleConfirm = useCallback(
+    (scheduledFor: number, content: string) => {
+      setShowSchedule(false);
+      setMessage("");
+      stopTyping();
+      onScheduleMessage?.(content, scheduledFor);
+    },
+    [onScheduleMessage, stopTyping]
+  );
+
   const handleVoicePress = useCallback(async () => {
     await PlatformHaptics.light();
 
@@ -223,6 +245,7 @@ export default function ChatInput({
                   disabled && styles.actionButtonDisabled,
                 ]}
                 onPress={handleSend}
+                onLongPress={handleSendLongPress}
                 disabled={disabled}
                 activeOpacity={0.8}
               >
@@ -277,6 +300,15 @@ export default function ChatInput({
         onCancel={handleVoiceRecordingCancel}
       />
 
+      {onScheduleMessage && (
+        <ScheduleMessageSheet
+          visible={showSchedule}
+          onClose={() => setShowSchedule(false)}
+          onConfirm={handleScheduleConfirm}
+          text={message.trim()}
+        />
+      )}
+
       {/* Inline upgrade banner for free users */}
       {subscription?.plan === "free" && (
         <View
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  Linking,
+  Alert,
+} from "react-native";
+import { Layout } from "../../constants";
+import { useTheme } from "@contexts/ThemeContext";
+import { LinkPreviewResult, linkPreviewService } from "../../utils/linkPreview";
+import { getUrlHostname } from "../../utils/messageUtils";
+
+interface LinkPreviewCardProps {
+  url: string;
+  isMine?: boolean;
+}
+
+export default function LinkPreviewCard({ url, isMine }: LinkPreviewCardProps) {
+  const { theme } = useTheme();
+  const [result, setResult] = useState<LinkPreviewResult | null>(() =>
+    linkPreviewService.getCached(url)
+  );
+  // Received links load only on request; preview images come from the site
+  const [requestedUrl, setRequestedUrl] = useState<string | null>(null);
+  const canLoad = isMine || requestedUrl === url;
+
+  useEffect(() => {
+    let mounted = true;
+    setResult(linkPreviewService.getCached(url));
+    if (canLoad) {
+      linkPreviewService
+        .getPreview(url)
+        .then((next) => mounted && setResult(next))
+        .catch(() => {});
+    }
+    return () => {
+      mounted = false;
+    };
+  }, [url, canLoad]);
+
+  if (result?.status === "unavailable" || (!result && canLoad)) return null;
+
+  const cardStyle = [
+    styles.card,
+    {
+      borderColor: theme.colors.border.primary,
+      backgroundColor: isMine
+        ? theme.colors.background.primary
+        : theme.colors.background.secondary,
+    },
+  ];
+
+  if (result?.status === "flagged") {
+    const openAnyway = () =>
+      Alert.alert(
+        "Open this link?",
+        `${result.reason}. Only open it if you trust ${result.hostname}.`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Open anyway",
+            style: "destructive",
+            onPress: () => Linking.openURL(url).catch(() => {}),
+          },
+        ]
+      );
+
+    return (
+      <TouchableOpacity
+        style={[
+          cardStyle,
+          styles.flagged,
+          { borderColor: theme.colors.error[500] },
+        ]}
+        onPress={openAnyway}
+        accessibilityRole="button"
+        accessibilityLabel={`Unsafe link: ${result.reason}`}
+      >
+        <Text style={[styles.flaggedTitle, { color: theme.colors.error[500] }]}>
+          ⚠️ {result.reason}
+        </Text>
+        <Text
+          style={[styles.host, { color: theme.colors.text.secondary }]}
+          numberOfLines={1}
+        >
+          {result.hostname}
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  if (!canLoad || result?.status !== "ready") {
+    const hostname = getUrlHostname(url) || url;
+    return (
+      <TouchableOpacity
+        style={[cardStyle, styles.placeholder]}
+        onPress={() => setRequestedUrl(url)}
+        accessibilityRole="button"
+        accessibilityLabel={`Load preview for ${hostname}`}
+      >
+        <Text
+          style={[styles.host, { color: theme.colors.text.secondary }]}
+          numberOfLines={1}
+        >
+          {hostname}
+        </Text>
+        <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+          Tap to load preview
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const { preview } = result;
+  return (
+    <TouchableOpacity
+      style={cardStyle}
+      activeOpacity={0.85}
+      onPress={() => Linking.openURL(url).catch(() => {})}
+      accessibilityRole="link"
+      accessibilityLabel={preview.title || result.hostname}
+    >
+      {preview.imageUrl ? (
+        <Image
+          source={{ uri: preview.imageUrl }}
+          style={styles.image}
+          resizeMode="cover"
+        />
+      ) : null}
+      <View style={styles.body}>
+        <Text
+          style={[styles.host, { color: theme.colors.text.secondary }]}
+          numberOfLines={1}
+        >
+          {preview.siteName || result.hostname}
+        </Text>
+        {preview.title ? (
+          <Text
+            style={[styles.title, { color: theme.colors.text.primary }]}
+            numberOfLines={2}
+          >
+            {preview.title}
+          </Text>
+        ) : null}
+        {preview.description ? (
+          <Text
+            style={[styles.description, { color: theme.colors.text.secondary }]}
+            numberOfLines={2}
+          >
+            {preview.description}
+          </Text>
+        ) : null}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: Layout.spacing.xs,
+    borderWidth: 1,
+    borderRadius: Layout.radius.md,
+    overflow: "hidden",
+    maxWidth: 260,
+  },
+  flagged: {
+    padding: Layout.spacing.sm,
+  },
+  placeholder: {
+    padding: Layout.spacing.sm,
+    gap: 2,
+  },
+  flaggedTitle: {
+    fontSize: Layout.typography.fontSize.sm,
+    fontWeight: "600",
+  },
+  image: {
+    width: "100%",
+    height: 130,
+  },
+  body: {
+    padding: Layout.spacing.sm,
+    gap: 2,
+  },
+  host: {
+    fontSize: Layout.typography.fontSize.xs,
+  },
+  title: {
+    fontSize: Layout.typography.fontSize.sm,
+    fontWeight: "600",
+  },
+  description: {
+    fontSize: Layout.typography.fontSize.xs,
+  },
+});
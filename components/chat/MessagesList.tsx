@@ -1,4 +1,10 @@
-import React, { useMemo, useRef, useEffect, useState } from "react";
+import React, {
+  useCallback,
+  useMemo,
+  useRef,
+  useEffect,
+  useState,
+} from "react";
 import {
   View,
   Text,
@@ -18,10 +24,14 @@ import { Image } from "react-native";
 import { Colors, Layout } from "../../constants";
 import TypingIndicator from "./TypingIndicator";
 import VoiceMessage from "./VoiceMessage";
+import LinkPreviewCard from "./LinkPreviewCard";
 import MessageStatusIndicator from "./MessageStatusIndicator";
 import { RefreshControl } from "react-native";
 import { ImageViewer } from "@components/ImageViewer";
 import { ApiErrorDisplay } from "@/components/ui/ErrorHandling";
+import { describeTimerChange } from "../../utils/disappearingMessages";
+import { extractUrls } from "../../utils/messageUtils";
+import type { MessageSystemEvent } from "../../types/message";
 
 type BaseMessage = {
   _id: string;
@@ -57,6 +67,13 @@ type BaseMessage = {
   // Align with core Message status (no 'sending'); treat local transient 'pending' as the only pre-send state
   status?: "pending" | "sent" | "delivered" | "read" | "failed";
   deliveryReceipts?: any[];
+  // end-to-end encryption: attachments are stored sealed
+  encrypted?: unknown;
+  decryptionFailed?: boolean;
+  // disappearing messages
+  expiresAt?: number;
+  isSystemMessage?: boolean;
+  systemEvent?: MessageSystemEvent;
 };
 
 interface MessagesListProps {
@@ -79,6 +96,8 @@ interface MessagesListProps {
   onRetry?: () => void | Promise<void>;
   // Notify parent when user is at bottom or not, to decide FAB visibility
   onAtBottomChange?: (atBottom: boolean) => void;
+  // Scroll to and briefly highlight this message once it is in the list
+  focusMessageId?: string;
   // Actions
   onLongPressMessage?: (message: BaseMessage) => void;
   // New explicit action callbacks to align with web: reply/edit/delete
@@ -95,6 +114,11 @@ interface MessagesListProps {
   }>;
   // Lazy fetcher for secure image URLs, given a messageId
   fetchImageUrl?: (messageId: string) => Promise<string | null>;
+  // Decrypts a sealed voice/image attachment to a local file
+  decryptAttachment?: (
+    message: BaseMessage,
+    url: string
+  ) => Promise<string | null>;
   // Upgrade chip props
   showUpgradeChip?: boolean;
   upgradeChipText?: string;
@@ -109,7 +133,7 @@ interface MessagesListProps {
 }
 
 export default function MessagesList({
-  messages,
+  messages: allMessages,
   currentUserId,
   isBlocked = false,
   lastReadAt = 0,
@@ -130,10 +154,12 @@ export default function MessagesList({
   onToggleReaction,
   getReactionsForMessage,
   fetchImageUrl,
+  decryptAttachment,
   showUpgradeChip = false,
   upgradeChipText = "Upgrade for unlimited messaging",
   onPressUpgrade,
   onAtBottomChange,
+  focusMessageId,
   onRetryVoice,
   onCancelVoice,
   onDismissVoice,
@@ -143,9 +169,60 @@ export default function MessagesList({
   onDismissFailedMessage,
 }: MessagesListProps) {
   const listRef = useRef<FlatList<BaseMessage>>(null);
+
+  // Disappearing messages leave the list the moment they expire
+  const [expiryClock, setExpiryClock] = useState(() => Date.now());
+  const messages = useMemo(
+    () => allMessages.filter((m) => !m.expiresAt || m.expiresAt > expiryClock),
+    [allMessages, expiryClock]
+  );
+  useEffect(() => {
+    const next = messages.reduce<number | null>(
+      (min, m) =>
+        m.expiresAt && (min === null || m.expiresAt < min) ? m.expiresAt : min,
+      null
+    );
+    if (next === null) return;
+    const timer = setTimeout(
+      () => setExpiryClock(Date.now()),
+      Math.max(0, next - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [messages]);
+
+  // Jump to a message opened from search
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const focusedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!focusMessageId || focusedRef.current === focusMessageId) return;
+    const index = messages.findIndex((m) => m._id === focusMessageId);
+    if (index < 0) return;
+
+    focusedRef.current = focusMessageId;
+    setHighlightedId(focusMessageId);
+    const scroll = setTimeout(() => {
+      try {
+        listRef.current?.scrollToIndex({
+          index,
+          animated: true,
+          viewPosition: 0.5,
+        });
+      } catch {}
+    }, 100);
+    const clear = setTimeout(() => setHighlightedId(null), 2500);
+    return () => {
+      clearTimeout(scroll);
+      clearTimeout(clear);
+    };
+  }, [focusMessageId, messages]);
+
   const [imageUrlCache, setImageUrlCache] = useState<Record<string, string>>(
     {}
   );
+  const [decryptedUris, setDecryptedUris] = useState<Record<string, string>>(
+    {}
+  );
+  const decryptAttemptedRef = useRef(new Set<string>());
   const [retryingIds, setRetryingIds] = useState<Record<string, boolean>>({});
   const [queuedTipFor, setQueuedTipFor] = useState<string | null>(null);
   const queuedTipTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -181,12 +258,20 @@ export default function MessagesList({
     () => messages.filter((m) => m.type === "image").map((m) => m._id),
     [messages]
   );
+  // Sealed images can only be shown once decrypted locally
+  const imageSource = useCallback(
+    (m: BaseMessage) =>
+      m.encrypted
+        ? decryptedUris[m._id]
+        : m.fileUrl || m.thumbnailUrl || imageUrlCache[m._id],
+    [imageUrlCache, decryptedUris]
+  );
   const imageUrls = useMemo(() => {
     return messages
       .filter((m) => m.type === "image")
-      .map((m) => m.fileUrl || m.thumbnailUrl || imageUrlCache[m._id])
+      .map(imageSource)
       .filter((u): u is string => !!u);
-  }, [messages, imageUrlCache]);
+  }, [messages, imageSource]);
 
   // Lazy-fetch secure image URLs for image messages missing a URL
   useEffect(() => {
@@ -196,6 +281,7 @@ export default function MessagesList({
       const missing = messages.filter(
         (m) =>
           m.type === "image" &&
+          !m.encrypted &&
           !m.fileUrl &&
           !m.thumbnailUrl &&
           !imageUrlCache[m._id]
@@ -217,6 +303,42 @@ export default function MessagesList({
     };
   }, [messages, fetchImageUrl, imageUrlCache]);
 
+  // Download and decrypt sealed voice/image attachments
+  useEffect(() => {
+    if (!decryptAttachment) return;
+    let cancelled = false;
+    const run = async () => {
+      const sealed = messages.filter(
+        (m) =>
+          !!m.encrypted &&
+          m.type !== "text" &&
+          !decryptAttemptedRef.current.has(m._id)
+      );
+      for (const msg of sealed) {
+        decryptAttemptedRef.current.add(msg._id);
+        try {
+          const url =
+            msg.type === "voice"
+              ? msg.audioUrl || msg.voiceUrl
+              : msg.fileUrl ||
+                msg.thumbnailUrl ||
+                (fetchImageUrl ? await fetchImageUrl(msg._id) : null);
+          if (!url) continue;
+          const uri = await decryptAttachment(msg, url);
+          if (!cancelled && uri) {
+            setDecryptedUris((prev) => ({ ...prev, [msg._id]: uri }));
+          }
+        } catch {
+          // shown as a placeholder
+        }
+      }
+    };
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [messages, decryptAttachment, fetchImageUrl]);
+
   // Enhanced reaction toolbar component
   const QuickReactionToolbar = ({
     messageId,
@@ -475,14 +597,40 @@ export default function MessagesList({
     </View>
   );
 
+  const renderSystemMessage = (item: BaseMessage) => (
+    <View style={styles.systemWrapper}>
+      <Text style={styles.systemText}>
+        {item.systemEvent?.type === "disappearing_timer"
+          ? `⏱ ${describeTimerChange(
+              item.systemEvent.timer,
+              item.systemEvent.changedBy === currentUserId
+            )}`
+          : item.text}
+      </Text>
+    </View>
+  );
+
   const renderItem = ({ item, index }: ListRenderItemInfo<BaseMessage>) => {
     const isMine = item.fromUserId === currentUserId;
     const showTime = shouldShowTimeChip(index);
+
+    if (item.isSystemMessage) {
+      return (
+        <View style={styles.messageBlock}>
+          {showTime && renderTimeChip(item.createdAt)}
+          {renderSystemMessage(item)}
+        </View>
+      );
+    }
     const isVoice =
       item.type === "voice" &&
       (item.audioUrl || item.voiceUrl || (item as any).audioStorageId);
     const isImage = item.type === "image";
     const isText = item.type === "text";
+    // Only the first link in a message gets a preview card
+    const previewUrl = isText
+      ? extractUrls(item.text || "")[0]?.url
+      : undefined;
 
     const showDeleted = item.deleted === true;
     const showEdited = !!item.edited || !!item.editedAt;
@@ -547,6 +695,7 @@ export default function MessagesList({
             style={[
               styles.bubble,
               isMine ? styles.bubbleMine : styles.bubbleTheirs,
+              item._id === highlightedId && styles.bubbleFocused,
             ]}
           >
             {/* Reply preview (if this message replies to another) */}
@@ -609,7 +758,9 @@ export default function MessagesList({
                     type: "voice",
                     text: item.text || "", // ensure non-undefined text for type safety
                     createdAt: item.createdAt,
-                    voiceUrl: item.audioUrl || item.voiceUrl,
+                    voiceUrl: item.encrypted
+                      ? decryptedUris[item._id]
+                      : item.audioUrl || item.voiceUrl,
                     voiceDuration:
                       typeof item.durationSeconds === "number"
                         ? item.durationSeconds * 1000
@@ -650,8 +801,7 @@ export default function MessagesList({
               />
             ) : isImage ? (
               (() => {
-                const resolvedUrl =
-                  item.fileUrl || item.thumbnailUrl || imageUrlCache[item._id];
+                const resolvedUrl = imageSource(item);
                 return (
                   <TouchableOpacity
                     activeOpacity={0.9}
@@ -677,15 +827,24 @@ export default function MessagesList({
                   </TouchableOpacity>
                 );
               })()
-            ) : (
-              <Text
-                style={[
-                  styles.text,
-                  isMine ? styles.textMine : styles.textTheirs,
-                ]}
-              >
-                {item.text}
+            ) : item.decryptionFailed ? (
+              <Text style={[styles.deletedText]}>
+                🔒 This message can't be decrypted on this device
               </Text>
+            ) : (
+              <>
+                <Text
+                  style={[
+                    styles.text,
+                    isMine ? styles.textMine : styles.textTheirs,
+                  ]}
+                >
+                  {item.text}
+                </Text>
+                {previewUrl && (
+                  <LinkPreviewCard url={previewUrl} isMine={isMine} />
+                )}
+              </>
             )}
 
             {/* Failed message inline actions (text/image) for own messages */}
@@ -832,6 +991,14 @@ export default function MessagesList({
                 })}
               </Text>
               {showEdited && <Text style={styles.editedDot}> • edited</Text>}
+              {!!item.expiresAt && (
+                <Text
+                  style={styles.editedDot}
+                  accessibilityLabel="Disappearing message"
+                >
+                  ⏱
+                </Text>
+              )}
               {isMine && (
                 <MessageStatusIndicator status={effectiveStatus()} size={12} />
               )}
@@ -964,6 +1131,22 @@ export default function MessagesList({
             keyboardShouldPersistTaps="handled"
             onScroll={handleScroll}
             scrollEventThrottle={16}
+            onScrollToIndexFailed={({ index, averageItemLength }) => {
+              // Rows are variable height; get close, then retry once laid out
+              listRef.current?.scrollToOffset({
+                offset: averageItemLength * index,
+                animated: false,
+              });
+              setTimeout(() => {
+                try {
+                  listRef.current?.scrollToIndex({
+                    index,
+                    animated: true,
+                    viewPosition: 0.5,
+                  });
+                } catch {}
+              }, 100);
+            }}
             refreshControl={
               onRefresh ? (
                 <RefreshControl
@@ -1113,6 +1296,10 @@ const styles = StyleSheet.create({
     borderColor: Colors.border.primary,
     borderBottomLeftRadius: Layout.radius.sm,
   },
+  bubbleFocused: {
+    borderWidth: 2,
+    borderColor: Colors.warning[400],
+  },
   text: {
     fontSize: Layout.typography.fontSize.sm,
     lineHeight: 20,
@@ -1204,6 +1391,16 @@ const styles = StyleSheet.create({
     paddingVertical: 2,
     borderRadius: Layout.radius.lg,
   },
+  systemWrapper: {
+    alignItems: "center",
+    marginVertical: Layout.spacing.xs,
+    paddingHorizontal: Layout.spacing.lg,
+  },
+  systemText: {
+    fontSize: Layout.typography.fontSize.xs,
+    color: Colors.text.secondary,
+    textAlign: "center",
+  },
   unreadWrapper: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from "react-native";
+import { Layout } from "../../constants";
+import { useTheme } from "@contexts/ThemeContext";
+import { BottomSheet } from "@/components/ui/BottomSheet";
+import PlatformDatePicker from "../ui/PlatformDatePicker";
+
+// A send has to be at least this far out to count as scheduled
+const MIN_LEAD_MS = 60 * 1000;
+
+interface ScheduleMessageSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onConfirm: (scheduledFor: number, text: string) => void;
+  text: string;
+  // Shows the text for editing (rescheduling an existing message)
+  editableText?: boolean;
+  initialScheduledFor?: number;
+}
+
+interface Preset {
+  label: string;
+  at: Date;
+}
+
+function atHour(daysFromToday: number, hour: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+}
+
+function getPresets(now: number): Preset[] {
+  const presets: Preset[] = [
+    { label: "In 1 hour", at: new Date(now + 60 * 60 * 1000) },
+  ];
+  const tonight = atHour(0, 20);
+  if (tonight.getTime() - now > MIN_LEAD_MS) {
+    presets.push({ label: "Tonight, 8pm", at: tonight });
+  }
+  presets.push({ label: "Tomorrow, 9am", at: atHour(1, 9) });
+  return presets;
+}
+
+/**
+ * Date/time in the sender's own time zone, e.g. "Tue 14 Oct, 09:00"
+ */
+export function formatScheduledTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function ScheduleMessageSheet({
+  visible,
+  onClose,
+  onConfirm,
+  text,
+  editableText = false,
+  initialScheduledFor,
+}: ScheduleMessageSheetProps) {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState(text);
+  const [sendAt, setSendAt] = useState<Date>(
+    () => new Date(initialScheduledFor || Date.now() + 60 * 60 * 1000)
+  );
+  const [error, setError] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(text);
+    setSendAt(new Date(initialScheduledFor || Date.now() + 60 * 60 * 1000));
+    setError(undefined);
+  }, [visible, text, initialScheduledFor]);
+
+  const presets = useMemo(
+    () => (visible ? getPresets(Date.now()) : []),
+    [visible]
+  );
+
+  const updateDate = (date: Date) => {
+    const next = new Date(sendAt);
+    next.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+    setSendAt(next);
+  };
+
+  const updateTime = (date: Date) => {
+    const next = new Date(sendAt);
+    next.setHours(date.getHours(), date.getMinutes(), 0, 0);
+    setSendAt(next);
+  };
+
+  const handleConfirm = () => {
+    const value = draft.trim();
+    if (!value) {
+      setError("Write a message to schedule");
+      return;
+    }
+    if (sendAt.getTime() - Date.now() < MIN_LEAD_MS) {
+      setError("Pick a time in the future");
+      return;
+    }
+    onConfirm(sendAt.getTime(), value);
+  };
+
+  return (
+    <BottomSheet
+      isVisible={visible}
+      onClose={onClose}
+      title={editableText ? "Edit scheduled message" : "Send later"}
+      height={editableText ? 560 : 460}
+    >
+      <View style={styles.container}>
+        {editableText ? (
+          <TextInput
+            style={[
+              styles.textInput,
+              {
+                borderColor: theme.colors.border.primary,
+                color: theme.colors.text.primary,
+                backgroundColor: theme.colors.background.secondary,
+              },
+            ]}
+            value={draft}
+            onChangeText={setDraft}
+            multiline
+            maxLength={1000}
+            placeholder="Message"
+            placeholderTextColor={theme.colors.text.tertiary}
+          />
+        ) : (
+          <Text
+            style={[styles.preview, { color: theme.colors.text.secondary }]}
+            numberOfLines={2}
+          >
+            {draft}
+          </Text>
+        )}
+
+        <View style={styles.presets}>
+          {presets.map((preset) => (
+            <TouchableOpacity
+              key={preset.label}
+              style={[
+                styles.preset,
+                { borderColor: theme.colors.primary[500] },
+              ]}
+              onPress={() => setSendAt(preset.at)}
+            >
+              <Text
+                style={[
+                  styles.presetText,
+                  { color: theme.colors.primary[500] },
+                ]}
+              >
+                {preset.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.pickers}>
+          <PlatformDatePicker
+            style={styles.picker}
+            label="Date"
+            mode="date"
+            value={sendAt}
+            minimumDate={new Date()}
+            onDateChange={updateDate}
+          />
+          <PlatformDatePicker
+            style={styles.picker}
+            label="Time"
+            mode="time"
+            value={sendAt}
+            onDateChange={updateTime}
+          />
+        </View>
+
+        <Text
+          style={[
+            styles.summary,
+            {
+              color: error
+                ? theme.colors.error[500]
+                : theme.colors.text.secondary,
+            },
+          ]}
+        >
+          {error || `Sends ${formatScheduledTime(sendAt.getTime())} your time`}
+        </Text>
+
+        <TouchableOpacity
+          style={[
+            styles.confirmButton,
+            { backgroundColor: theme.colors.primary[500] },
+          ]}
+          onPress={handleConfirm}
+        >
+          <Text
+            style={[styles.confirmText, { color: theme.colors.text.inverse }]}
+          >
+            {editableText ? "Save" : "Schedule"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Layout.spacing.md,
+    gap: Layout.spacing.md,
+  },
+  preview: {
+    fontSize: Layout.typography.fontSize.base,
+  },
+  textInput: {
+    minHeight: 44,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderRadius: Layout.radius.lg,
+    paddingHorizontal: Layout.spacing.md,
+    paddingVertical: Layout.spacing.sm,
+    fontSize: Layout.typography.fontSize.base,
+  },
+  presets: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Layout.spacing.sm,
+  },
+  preset: {
+    paddingHorizontal: Layout.spacing.md,
+    paddingVertical: Layout.spacing.xs,
+    borderRadius: Layout.radius.full,
+    borderWidth: 1,
+  },
+  presetText: {
+    fontSize: Layout.typography.fontSize.sm,
+  },
+  pickers: {
+    flexDirection: "row",
+    gap: Layout.spacing.sm,
+  },
+  picker: {
+    flex: 1,
+  },
+  summary: {
+    fontSize: Layout.typography.fontSize.sm,
+  },
+  confirmButton: {
+    borderRadius: Layout.radius.lg,
+    paddingVertical: Layout.spacing.md,
+    alignItems: "center",
+  },
+  confirmText: {
+    fontWeight: "700",
+    fontSize: Layout.typography.fontSize.base,
+  },
+});
@@ -0,0 +1,138 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { Layout } from "../../constants";
+import { useTheme } from "@contexts/ThemeContext";
+import { BottomSheet } from "@/components/ui/BottomSheet";
+import type { OutboxJob } from "@/utils/offlineMessageQueue";
+import { formatScheduledTime } from "./ScheduleMessageSheet";
+
+interface ScheduledMessagesSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  jobs: OutboxJob[];
+  onEdit: (job: OutboxJob) => void;
+  onCancel: (job: OutboxJob) => void;
+}
+
+export default function ScheduledMessagesSheet({
+  visible,
+  onClose,
+  jobs,
+  onEdit,
+  onCancel,
+}: ScheduledMessagesSheetProps) {
+  const { theme } = useTheme();
+
+  return (
+    <BottomSheet
+      isVisible={visible}
+      onClose={onClose}
+      title="Scheduled messages"
+      height={420}
+    >
+      {jobs.length === 0 ? (
+        <Text style={[styles.empty, { color: theme.colors.text.secondary }]}>
+          No scheduled messages
+        </Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.list}>
+          {jobs.map((job) => (
+            <View
+              key={job.id}
+              style={[
+                styles.item,
+                { borderBottomColor: theme.colors.border.primary },
+              ]}
+            >
+              <Text
+                style={[styles.text, { color: theme.colors.text.primary }]}
+                numberOfLines={2}
+              >
+                {job.message.text}
+              </Text>
+              <Text
+                style={[
+                  styles.meta,
+                  {
+                    color:
+                      job.status === "failed"
+                        ? theme.colors.error[500]
+                        : theme.colors.text.secondary,
+                  },
+                ]}
+              >
+                {job.status === "failed"
+                  ? `Couldn't send · ${job.error?.message || "Try again"}`
+                  : job.status === "scheduled"
+                  ? `🕒 ${formatScheduledTime(job.scheduledFor!)}`
+                  : "Sending…"}
+              </Text>
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  onPress={() => onEdit(job)}
+                  disabled={job.status === "running"}
+                >
+                  <Text
+                    style={[
+                      styles.action,
+                      { color: theme.colors.primary[500] },
+                    ]}
+                  >
+                    Edit
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => onCancel(job)}
+                  disabled={job.status === "running"}
+                >
+                  <Text
+                    style={[styles.action, { color: theme.colors.error[500] }]}
+                  >
+                    Cancel
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </BottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  empty: {
+    textAlign: "center",
+    paddingVertical: Layout.spacing.lg,
+  },
+  list: {
+    paddingHorizontal: Layout.spacing.md,
+    paddingBottom: Layout.spacing.lg,
+  },
+  item: {
+    paddingVertical: Layout.spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  text: {
+    fontSize: Layout.typography.fontSize.base,
+  },
+  meta: {
+    marginTop: 2,
+    fontSize: Layout.typography.fontSize.sm,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: Layout.spacing.lg,
+    marginTop: Layout.spacing.xs,
+  },
+  action: {
+    fontWeight: "600",
+  },
+});
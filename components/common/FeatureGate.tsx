@@ -4,6 +4,7 @@ import { useFeatureAccess } from "@/hooks/useFeatureAccess";
 import { useSubscription } from "@/hooks/useSubscription";
 import { SubscriptionFeatures } from '../../types/subscription';
 import { Colors, Layout } from '../../constants';
+import { entitlements, getTierLabel } from '@utils/entitlements';
 
 interface FeatureGateProps {
   children: ReactElement;
@@ -122,15 +123,7 @@ function UpgradePromptButton({ feature, onUpgrade, originalChildren }: UpgradePr
   };
 
   const getRequiredTier = (feature: keyof SubscriptionFeatures): string => {
-    const premiumPlusFeatures = [
-      'canBoostProfile',
-      'canViewProfileViewers', 
-      'canUseAdvancedFilters',
-      'canUseIncognitoMode',
-      'hasSpotlightBadge'
-    ];
-
-    return premiumPlusFeatures.includes(feature as string) ? 'Premium Plus' : 'Premium';
+    return getTierLabel(entitlements.requiredTier(feature) ?? 'premium');
   };
 
   const handleUpgradePress = () => {
@@ -4,6 +4,7 @@ import { Colors, Layout } from '@constants/index';
 import PaywallModal from '@components/subscription/PaywallModal';
 import { getPlans } from '@services/subscriptions';
 import { useFeatureAccess } from "@/hooks/useFeatureAccess";
+import ScheduleMessageSheet from '@components/chat/ScheduleMessageSheet';
 
 type SendResult =
   | { success: true }
@@ -16,11 +17,14 @@ export interface ComposerProps {
   placeholder?: string;
   // Optional: disabled state from parent (e.g., when conversation is closed)
   disabled?: boolean;
+  // Optional: long-press on Send to deliver later (epoch ms)
+  onSchedule?: (text: string, scheduledFor: number) => Promise<SendResult>;
 }
 
-export default function Composer({ onSend, placeholder = 'Type a message…', disabled = false }: ComposerProps) {
+export default function Composer({ onSend, placeholder = 'Type a message…', disabled = false, onSchedule }: ComposerProps) {
   const [text, setText] = useState("");
   const [sending, setSending] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
 
   // Feature access utilities
   const { checkFeatureAccess } = useFeatureAccess();
@@ -112,6 +116,35 @@ export default function Composer({ onSend, placeholder = 'Type a message…', di
     }
   }, [entitlementAllowed, entitlementChecked, onSend, openPaywall, text]);
 
+  const handleSchedule = useCallback(
+    async (scheduledFor: number, value: string) => {
+      if (!onSchedule) return;
+      setShowSchedule(false);
+      if (!entitlementAllowed) {
+        await openPaywall();
+        return;
+      }
+
+      try {
+        setSending(true);
+        const res = await onSchedule(value, scheduledFor);
+        if (res.success) {
+          setText("");
+        } else {
+          console.warn(
+            "[COMPOSER] schedule:error",
+            (res as { success: false; error?: string }).error
+          );
+        }
+      } catch (e: any) {
+        console.error("[COMPOSER] schedule:exception", e?.message || String(e));
+      } finally {
+        setSending(false);
+      }
+    },
+    [entitlementAllowed, onSchedule, openPaywall]
+  );
+
   return (
     <>
       <KeyboardAvoidingView
@@ -130,6 +163,7 @@ export default function Composer({ onSend, placeholder = 'Type a message…', di
           <TouchableOpacity
             style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
             onPress={handleSend}
+            onLongPress={onSchedule ? () => setShowSchedule(true) : undefined}
             disabled={!canSend}
           >
             {sending ? (
@@ -141,6 +175,15 @@ export default function Composer({ onSend, placeholder = 'Type a message…', di
         </View>
       </KeyboardAvoidingView>
 
+      {onSchedule && (
+        <ScheduleMessageSheet
+          visible={showSchedule}
+          onClose={() => setShowSchedule(false)}
+          onConfirm={handleSchedule}
+          text={text.trim()}
+        />
+      )}
+
       {/* Paywall for messaging entitlement */}
       <PaywallModal
         visible={showPaywall}
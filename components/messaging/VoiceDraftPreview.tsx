@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from "react-native";
+import { useVoicePlayback } from "@/hooks/useVoicePlayback";
+import { useTheme, useThemedStyles } from "@contexts/ThemeContext";
+import type { VoiceDraft } from "../../services/voiceDrafts";
+import type { VoiceTrimRange } from "../../utils/voiceTrim";
+
+interface VoiceDraftPreviewProps {
+  draft: VoiceDraft;
+  canTrim?: boolean;
+  sending?: boolean;
+  onTrimChange?: (range: Partial<VoiceTrimRange>) => void;
+  onDiscard: () => void;
+  onSend: () => void;
+  style?: any;
+}
+
+/**
+ * Review of a recorded voice note before it's sent: play it back, tap the
+ * waveform to scrub, and trim the start and end where supported
+ */
+export const VoiceDraftPreview: React.FC<VoiceDraftPreviewProps> = ({
+  draft,
+  canTrim = false,
+  sending = false,
+  onTrimChange,
+  onDiscard,
+  onSend,
+  style,
+}) => {
+  const { theme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [trackWidth, setTrackWidth] = useState(0);
+  const { play, pause, seek, isPlaying, duration, progress } = useVoicePlayback(
+    draft.uri
+  );
+
+  const total = duration || draft.duration;
+  const position = progress * total;
+  const { start, end } = draft.trim;
+  const trimmed = start > 0 || end < draft.duration;
+
+  // Playback stays inside the kept part
+  useEffect(() => {
+    if (isPlaying && position >= end) {
+      pause();
+      seek(start);
+    }
+  }, [isPlaying, position, start, end, pause, seek]);
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      pause();
+      return;
+    }
+    if (position < start || position >= end) {
+      seek(start);
+    }
+    play();
+  };
+
+  const handleScrub = (event: any) => {
+    if (!trackWidth || !total) return;
+    const fraction = Math.max(
+      0,
+      Math.min(1, event.nativeEvent.locationX / trackWidth)
+    );
+    seek(Math.max(start, Math.min(end, fraction * total)));
+  };
+
+  const bars = draft.waveform.length > 0 ? draft.waveform : [];
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.playerRow}>
+        <TouchableOpacity
+          onPress={handlePlayPause}
+          style={styles.playButton}
+          accessibilityLabel={isPlaying ? "Pause preview" : "Play preview"}
+        >
+          <Text style={styles.playIcon}>{isPlaying ? "⏸" : "▶"}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          activeOpacity={0.8}
+          onPress={handleScrub}
+          onLayout={(e) => setTrackWidth(e.nativeEvent.layout.width)}
+          style={styles.waveform}
+          accessibilityLabel="Scrub voice draft"
+        >
+          {bars.length > 0 ? (
+            bars.map((peak, index) => {
+              const at = ((index + 0.5) / bars.length) * draft.duration;
+              const kept = at >= start && at <= end;
+              return (
+                <View
+                  key={index}
+                  style={[
+                    styles.bar,
+                    {
+                      height: `${Math.round(20 + peak * 80)}%`,
+                      opacity: kept ? 1 : 0.3,
+                      backgroundColor:
+                        at <= position
+                          ? theme.colors.primary[500]
+                          : theme.colors.neutral[300],
+                    },
+                  ]}
+                />
+              );
+            })
+          ) : (
+            <View style={styles.track}>
+              <View
+                style={[
+                  styles.trackFill,
+                  { width: `${Math.round(progress * 100)}%` },
+                ]}
+              />
+            </View>
+          )}
+        </TouchableOpacity>
+
+        <Text style={styles.time}>
+          {formatTime(isPlaying ? position : end - start)}
+        </Text>
+      </View>
+
+      {canTrim && onTrimChange ? (
+        <View style={styles.trimRow}>
+          <TouchableOpacity
+            onPress={() => onTrimChange({ start: position })}
+            style={styles.trimButton}
+          >
+            <Text style={styles.trimText}>Start here</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onTrimChange({ end: position })}
+            style={styles.trimButton}
+          >
+            <Text style={styles.trimText}>End here</Text>
+          </TouchableOpacity>
+          {trimmed ? (
+            <TouchableOpacity
+              onPress={() => onTrimChange({ start: 0, end: draft.duration })}
+              style={styles.trimButton}
+            >
+              <Text style={styles.trimText}>Reset</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity
+          onPress={onDiscard}
+          disabled={sending}
+          style={styles.discardButton}
+        >
+          <Text style={styles.discardText}>Discard</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => {
+            pause();
+            onSend();
+          }}
+          disabled={sending}
+          style={styles.sendButton}
+        >
+          {sending ? (
+            <ActivityIndicator size="small" color={theme.colors.text.inverse} />
+          ) : (
+            <Text style={styles.sendText}>Send</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+const createStyles = (theme: any) =>
+  StyleSheet.create({
+    container: {
+      gap: 12,
+    },
+    playerRow: {
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    playButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: theme.colors.primary[500],
+      justifyContent: "center",
+      alignItems: "center",
+      marginRight: 12,
+    },
+    playIcon: {
+      color: theme.colors.text.inverse,
+      fontSize: 16,
+    },
+    waveform: {
+      flex: 1,
+      height: 36,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+    },
+    bar: {
+      width: 3,
+      borderRadius: 1.5,
+    },
+    track: {
+      flex: 1,
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: theme.colors.neutral[300],
+      overflow: "hidden",
+    },
+    trackFill: {
+      height: 4,
+      backgroundColor: theme.colors.primary[500],
+    },
+    time: {
+      marginLeft: 12,
+      fontSize: 12,
+      color: theme.colors.text.secondary,
+      minWidth: 36,
+      textAlign: "right",
+    },
+    trimRow: {
+      flexDirection: "row",
+      gap: 8,
+    },
+    trimButton: {
+      paddingVertical: 4,
+      paddingHorizontal: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: theme.colors.neutral[300],
+    },
+    trimText: {
+      fontSize: 12,
+      color: theme.colors.text.secondary,
+    },
+    actionsRow: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      alignItems: "center",
+      gap: 12,
+    },
+    discardButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+    },
+    discardText: {
+      color: theme.colors.error[600],
+      fontWeight: "600",
+    },
+    sendButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 20,
+      borderRadius: 8,
+      backgroundColor: theme.colors.primary[500],
+      minWidth: 72,
+      alignItems: "center",
+    },
+    sendText: {
+      color: theme.colors.text.inverse,
+      fontWeight: "600",
+    },
+  });
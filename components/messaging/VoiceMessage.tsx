@@ -5,6 +5,9 @@ interface VoiceMessageDisplayProps {
   uri?: string;
   storageId?: string;
   duration?: number;
+  waveform?: number[];
+  messageId?: string;
+  conversationId?: string;
   style?: any;
   small?: boolean;
 }
@@ -13,6 +16,9 @@ export const VoiceMessageDisplay: React.FC<VoiceMessageDisplayProps> = ({
   uri,
   storageId,
   duration,
+  waveform,
+  messageId,
+  conversationId,
   style,
   small,
 }) => {
@@ -28,6 +34,9 @@ export const VoiceMessageDisplay: React.FC<VoiceMessageDisplayProps> = ({
       uri={uri}
       storageId={storageId}
       duration={duration}
+      waveform={waveform}
+      messageId={messageId}
+      conversationId={conversationId}
       onFetchUrl={fetchVoiceUrl}
       style={style}
       small={small}
@@ -8,9 +8,10 @@ import {
   ActivityIndicator,
 } from "react-native";
 import { VoicePlayer } from "./VoicePlayer";
+import { VoiceTranscript } from "./VoiceTranscript";
 import { VoiceMessageManager } from "../../services/voiceMessageManager";
 import { useApiClient } from "@utils/api";
-import { MessagingAPI } from "../../types/messaging";
+import { Message, MessagingAPI } from "../../types/messaging";
 import { formatTime } from "@utils/timeUtils";
 import { useTheme } from "@contexts/ThemeContext";
 
@@ -84,8 +85,14 @@ class ApiClientAdapter implements MessagingAPI {
 
 interface VoiceMessageBubbleProps {
   messageId: string;
+  conversationId?: string;
   storageId: string;
   duration: number;
+  waveform?: Message["voiceWaveform"];
+  encrypted?: boolean;
+  transcript?: Message["transcript"];
+  transcriptStatus?: Message["transcriptStatus"];
+  transcriptLanguage?: Message["transcriptLanguage"];
   fileSize?: number;
   timestamp: Date;
   isOwn: boolean;
@@ -99,8 +106,14 @@ interface VoiceMessageBubbleProps {
 
 export const VoiceMessageBubble: React.FC<VoiceMessageBubbleProps> = ({
   messageId,
+  conversationId,
   storageId,
   duration,
+  waveform,
+  encrypted,
+  transcript,
+  transcriptStatus,
+  transcriptLanguage,
   fileSize,
   timestamp,
   isOwn,
@@ -212,6 +225,7 @@ export const VoiceMessageBubble: React.FC<VoiceMessageBubbleProps> = ({
           <VoicePlayer
             storageId={storageId}
             duration={duration}
+            waveform={waveform}
             onFetchUrl={fetchVoiceUrl}
             onPlaybackStart={onPlaybackStart}
             onPlaybackComplete={onPlaybackComplete}
@@ -228,6 +242,20 @@ export const VoiceMessageBubble: React.FC<VoiceMessageBubbleProps> = ({
         )}
       </View>
 
+      {/* Transcript */}
+      <VoiceTranscript
+        storageId={storageId}
+        conversationId={conversationId}
+        messageId={messageId}
+        duration={duration}
+        encrypted={encrypted}
+        transcript={transcript}
+        transcriptStatus={transcriptStatus}
+        transcriptLanguage={transcriptLanguage}
+        color={getTextColor()}
+        style={styles.transcript}
+      />
+
       {/* Message Info */}
       <View style={styles.infoContainer}>
         <View style={styles.metadataContainer}>
@@ -315,6 +343,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  transcript: {
+    marginBottom: 8,
+  },
   infoContainer: {
     flexDirection: "row",
     justifyContent: "space-between",
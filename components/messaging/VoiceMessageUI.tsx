@@ -5,6 +5,7 @@ import { VoiceMessageBubble } from "./VoiceMessageBubble";
 import { VoiceMessageToolbar } from "./VoiceMessageToolbar";
 import { VoiceRecorder } from "./VoiceRecorder";
 import { VoicePlayer } from "./VoicePlayer";
+import type { VoiceTranscriptStatus } from "../../types/message";
 import {
   VoiceDurationIndicator,
   VoiceDurationWarning,
@@ -108,8 +109,13 @@ const styles = StyleSheet.create({
 // Utility component for displaying voice messages in chat bubbles
 interface VoiceMessageChatBubbleProps {
   messageId: string;
+  conversationId?: string;
   storageId: string;
   duration: number;
+  waveform?: number[];
+  transcript?: string;
+  transcriptStatus?: VoiceTranscriptStatus;
+  transcriptLanguage?: string;
   fileSize?: number;
   timestamp: Date;
   isOwn: boolean;
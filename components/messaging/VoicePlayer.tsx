@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   View,
   Text,
@@ -8,12 +8,17 @@ import {
   Animated,
 } from "react-native";
 import { useVoicePlayback } from "@/hooks/useVoicePlayback";
+import { useVoiceClip } from "@/hooks/useVoicePlaybackQueue";
 import { useTheme } from "@contexts/ThemeContext";
 
 interface VoicePlayerProps {
   uri?: string;
   storageId?: string;
   duration?: number;
+  waveform?: number[]; // peaks in [0..1], drawn in place of the progress bar
+  // With both, playback goes through the shared voice playback controller
+  messageId?: string;
+  conversationId?: string;
   onPlaybackStart?: () => void;
   onPlaybackComplete?: () => void;
   onPlaybackError?: (error: Error) => void;
@@ -26,6 +31,9 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({
   uri,
   storageId,
   duration: initialDuration,
+  waveform,
+  messageId,
+  conversationId,
   onPlaybackStart,
   onPlaybackComplete,
   onPlaybackError,
@@ -37,10 +45,27 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({
   const [audioUrl, setAudioUrl] = useState<string | undefined>(uri);
   const [isLoading, setIsLoading] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const clipItem = useMemo(
+    () =>
+      messageId && conversationId
+        ? {
+            messageId,
+            conversationId,
+            storageId,
+            uri,
+            duration: initialDuration,
+          }
+        : null,
+    [messageId, conversationId, storageId, uri, initialDuration]
+  );
+  const clip = useVoiceClip(clipItem);
+  const queued = !!clipItem;
 
   // Fetch URL from storage ID if needed
   useEffect(() => {
-    if (!audioUrl && storageId && onFetchUrl) {
+    if (!queued && !audioUrl && storageId && onFetchUrl) {
       const fetchAudioUrl = async () => {
         setIsLoading(true);
         setFetchError(null);
@@ -65,28 +90,37 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({
 
       fetchAudioUrl();
     }
-  }, [storageId, audioUrl, onFetchUrl, onPlaybackError]);
+  }, [queued, storageId, audioUrl, onFetchUrl, onPlaybackError]);
 
   // Voice playback hook
+  const local = useVoicePlayback(queued ? undefined : audioUrl, {
+    onPlaybackStart,
+    onPlaybackComplete,
+    onPlaybackError,
+  });
   const {
-    play,
-    pause,
-    stop,
     seek,
     togglePlayPause,
     isPlaying,
     isLoaded,
     duration,
-    position,
     error,
     progress,
     formattedPosition,
     formattedDuration,
-  } = useVoicePlayback(audioUrl, {
-    onPlaybackStart,
-    onPlaybackComplete,
-    onPlaybackError,
-  });
+  } = queued
+    ? {
+        seek: clip.seek,
+        togglePlayPause: clip.toggle,
+        isPlaying: clip.isPlaying,
+        isLoaded: true,
+        duration: clip.duration,
+        error: clip.error ? new Error(clip.error) : null,
+        progress: clip.progress,
+        formattedPosition: formatTime(clip.position),
+        formattedDuration: clip.duration ? formatTime(clip.duration) : "",
+      }
+    : local;
 
   // Animation for progress bar
   const [progressAnim] = useState(new Animated.Value(0));
@@ -105,14 +139,14 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({
     if (!isLoaded || isLoading) return;
 
     const { locationX } = event.nativeEvent;
-    const width = event.nativeEvent.target?.offsetWidth || 200;
+    const width = trackWidth || event.nativeEvent.target?.offsetWidth || 200;
     const seekPosition =
       (locationX / width) * (duration || initialDuration || 0);
     seek(seekPosition);
   };
 
   // Render loading state
-  if (isLoading) {
+  if (isLoading || clip.isLoading) {
     return (
       <View
         style={[
@@ -222,31 +256,60 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({
       </TouchableOpacity>
 
       <View style={styles.controlsContainer}>
-        {/* Progress Bar */}
-        <TouchableOpacity
-          activeOpacity={0.8}
-          onPress={handleSeek}
-          style={styles.progressContainer}
-        >
-          <View
-            style={[
-              styles.progressBackground,
-              { backgroundColor: theme.colors.neutral[300] },
-            ]}
-          />
-          <Animated.View
-            style={[
-              styles.progressBar,
-              {
-                width: progressAnim.interpolate({
-                  inputRange: [0, 1],
-                  outputRange: ["0%", "100%"],
-                }),
-                backgroundColor: theme.colors.primary[500],
-              },
-            ]}
-          />
-        </TouchableOpacity>
+        {/* Waveform, or a plain progress bar when the clip has none */}
+        {waveform && waveform.length > 0 ? (
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onPress={handleSeek}
+            onLayout={(e) => setTrackWidth(e.nativeEvent.layout.width)}
+            style={styles.waveformContainer}
+            accessibilityLabel="Voice message waveform"
+          >
+            {waveform.map((peak, index) => (
+              <View
+                key={index}
+                style={[
+                  styles.waveformBar,
+                  {
+                    height: `${Math.round(
+                      20 + Math.max(0, Math.min(1, peak || 0)) * 80
+                    )}%`,
+                    backgroundColor:
+                      (index + 0.5) / waveform.length <= progress
+                        ? theme.colors.primary[500]
+                        : theme.colors.neutral[300],
+                  },
+                ]}
+              />
+            ))}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            activeOpacity={0.8}
+            onPress={handleSeek}
+            onLayout={(e) => setTrackWidth(e.nativeEvent.layout.width)}
+            style={styles.progressContainer}
+          >
+            <View
+              style={[
+                styles.progressBackground,
+                { backgroundColor: theme.colors.neutral[300] },
+              ]}
+            />
+            <Animated.View
+              style={[
+                styles.progressBar,
+                {
+                  width: progressAnim.interpolate({
+                    inputRange: [0, 1],
+                    outputRange: ["0%", "100%"],
+                  }),
+                  backgroundColor: theme.colors.primary[500],
+                },
+              ]}
+            />
+          </TouchableOpacity>
+        )}
 
         {/* Duration Text */}
         <View style={styles.timeContainer}>
@@ -255,6 +318,25 @@ export const VoicePlayer: React.FC<VoicePlayerProps> = ({
           >
             {formattedPosition}
           </Text>
+          {queued ? (
+            <TouchableOpacity
+              onPress={clip.cycleRate}
+              accessibilityLabel={`Playback speed ${clip.rate}x`}
+              style={[
+                styles.rateButton,
+                { borderColor: theme.colors.neutral[300] },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.rateText,
+                  { color: theme.colors.text.secondary },
+                ]}
+              >
+                {clip.rate}x
+              </Text>
+            </TouchableOpacity>
+          ) : null}
           <Text
             style={[styles.timeText, { color: theme.colors.text.secondary }]}
           >
@@ -332,6 +414,17 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     marginBottom: 4,
   },
+  waveformContainer: {
+    height: 28,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  waveformBar: {
+    width: 3,
+    borderRadius: 1.5,
+  },
   progressBackground: {
     height: 4,
     backgroundColor: "transparent",
@@ -353,6 +446,15 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: undefined,
   },
+  rateButton: {
+    paddingHorizontal: 6,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  rateText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
   loadingText: {
     marginLeft: 8,
     color: undefined,
@@ -11,16 +11,24 @@ import {
 } from "react-native";
 import { useVoiceRecording } from "@/hooks/useVoiceRecording";
 import { useVoiceMessageLimits } from "@/hooks/useMessagingFeatures";
+import { useVoiceDraft } from "@/hooks/useVoiceDraft";
 import { VoiceDurationIndicator } from "./VoiceDurationIndicator";
+import { VoiceDraftPreview } from "./VoiceDraftPreview";
 import { useTheme, useThemedStyles } from "@contexts/ThemeContext";
 import { rgbaHex } from "@utils/color";
 import { useReduceMotion } from "@/hooks/useReduceMotion";
 
 interface VoiceRecorderProps {
+  // With a conversation, recordings become drafts to review before sending
   conversationId?: string;
   fromUserId?: string;
   toUserId?: string;
-  onRecordingComplete: (uri: string, duration: number) => void;
+  onRecordingComplete: (
+    uri: string,
+    duration: number,
+    waveform?: number[],
+    mimeType?: string
+  ) => void;
   onRecordingCancel?: () => void;
   onCancel?: () => void;
   onRecordingError?: (error: Error) => void;
@@ -50,22 +58,39 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
   // Get subscription-based voice limits
   const { canSendVoice } = useVoiceMessageLimits();
 
+  // The hook reports the finished file (and its waveform) on stop
+  const lastRecording = useRef<{
+    uri: string;
+    duration: number;
+    waveform: number[];
+  } | null>(null);
+
   // Voice recording hook
   const {
     startRecording,
     stopRecording,
     cancelRecording,
+    pauseRecording,
+    resumeRecording,
     isRecording,
+    isPaused,
     duration,
     audioUri,
     error,
     hasPermission,
-  } = useVoiceRecording();
+  } = useVoiceRecording({
+    onRecordingStop: (uri, recordedDuration, waveform) => {
+      lastRecording.current = { uri, duration: recordedDuration, waveform };
+    },
+  });
 
   // UI state
   const [recordingState, setRecordingState] = useState<
     "idle" | "recording" | "processing" | "error"
   >("idle");
+  const [sending, setSending] = useState(false);
+  const { draft, canTrim, saveDraft, updateTrim, discard, finalize } =
+    useVoiceDraft(conversationId);
 
   // Animations
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -79,7 +104,7 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
 
   // Start pulse animation when recording
   useEffect(() => {
-    if (isRecording) {
+    if (isRecording && !isPaused) {
       if (!reduceMotion) {
         Animated.loop(
           Animated.sequence([
@@ -115,22 +140,30 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
       pulseAnim.setValue(1);
       waveAnim.setValue(0);
     }
-  }, [isRecording, reduceMotion, pulseAnim, waveAnim]);
+  }, [isRecording, isPaused, reduceMotion, pulseAnim, waveAnim]);
 
   // Handle recording button press
   const handleRecordPress = async () => {
     if (isRecording) {
       setRecordingState("processing");
       const audioBlob = await stopRecording();
-      if (Platform.OS === "web") {
-        if (audioBlob) {
-          const uri = URL.createObjectURL(audioBlob);
-          onRecordingComplete(uri, duration);
-        }
-      } else {
-        // On native, use the file URI from the hook
-        if (audioUri) {
-          onRecordingComplete(audioUri, duration);
+      const recorded = lastRecording.current;
+      lastRecording.current = null;
+      // On native, use the file URI from the hook
+      const uri =
+        Platform.OS === "web"
+          ? audioBlob && URL.createObjectURL(audioBlob)
+          : recorded?.uri || audioUri;
+      if (uri) {
+        const recordedDuration = recorded?.duration ?? duration;
+        if (conversationId) {
+          await saveDraft({
+            uri,
+            duration: recordedDuration,
+            waveform: recorded?.waveform,
+          });
+        } else {
+          onRecordingComplete(uri, recordedDuration, recorded?.waveform);
         }
       }
       setRecordingState("idle");
@@ -160,6 +193,33 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
     onCancel?.();
   };
 
+  const handleSendDraft = async () => {
+    setSending(true);
+    try {
+      const clip = await finalize();
+      if (clip) {
+        onRecordingComplete(
+          clip.uri,
+          clip.duration,
+          clip.waveform,
+          clip.mimeType
+        );
+      }
+    } catch (err) {
+      onRecordingError?.(
+        err instanceof Error ? err : new Error("Failed to send recording")
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    await discard();
+    onRecordingCancel?.();
+    onCancel?.();
+  };
+
   // Generate wave bars for animation
   const renderWaveBars = () => {
     const bars = [];
@@ -231,6 +291,22 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
     );
   };
 
+  // Review the recording before it's sent
+  if (draft && !isRecording) {
+    return (
+      <View style={[styles.container, style]}>
+        <VoiceDraftPreview
+          draft={draft}
+          canTrim={canTrim}
+          sending={sending}
+          onTrimChange={updateTrim}
+          onDiscard={handleDiscardDraft}
+          onSend={handleSendDraft}
+        />
+      </View>
+    );
+  }
+
   return (
     <View style={[styles.container, style]}>
       {/* Voice Duration Indicator */}
@@ -255,6 +331,18 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
           {renderButton()}
         </TouchableOpacity>
 
+        {/* Pause/Resume Button (only when recording) */}
+        {isRecording && (
+          <TouchableOpacity
+            onPress={isPaused ? resumeRecording : pauseRecording}
+            style={styles.cancelButton}
+          >
+            <Text style={styles.cancelText}>
+              {isPaused ? "Resume" : "Pause"}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Cancel Button (only when recording) */}
         {isRecording && (
           <TouchableOpacity
@@ -0,0 +1,138 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useVoiceTranscript } from "@/hooks/useVoiceTranscript";
+import type { Message } from "../../types/message";
+
+interface VoiceTranscriptProps {
+  storageId: string;
+  conversationId?: string;
+  messageId?: string;
+  duration?: number;
+  encrypted?: boolean;
+  transcript?: Message["transcript"];
+  transcriptStatus?: Message["transcriptStatus"];
+  transcriptLanguage?: Message["transcriptLanguage"];
+  color: string; // text color of the surrounding bubble
+  style?: any;
+}
+
+/**
+ * Collapsed "Show transcript" link under a voice message, expanding to the
+ * text. Offers to transcribe when the message arrived without a transcript.
+ */
+export const VoiceTranscript: React.FC<VoiceTranscriptProps> = ({
+  storageId,
+  conversationId,
+  messageId,
+  duration,
+  encrypted,
+  transcript: text,
+  transcriptStatus,
+  transcriptLanguage,
+  color,
+  style,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const { transcript, transcribe } = useVoiceTranscript(storageId, {
+    conversationId,
+    messageId,
+    duration,
+    encrypted,
+    transcript: text,
+    transcriptStatus,
+    transcriptLanguage,
+  });
+
+  const status = transcript?.status;
+
+  if (status === "pending") {
+    return (
+      <View style={[styles.row, style]}>
+        <ActivityIndicator size="small" color={color} />
+        <Text style={[styles.link, styles.pending, { color }]}>
+          Transcribing…
+        </Text>
+      </View>
+    );
+  }
+
+  if (status === "unavailable") {
+    return (
+      <Text style={[styles.link, styles.muted, { color }, style]}>
+        No transcript available
+      </Text>
+    );
+  }
+
+  if (status !== "completed" || !transcript?.text) {
+    const failed = status === "failed";
+    return (
+      <TouchableOpacity
+        onPress={() => {
+          setExpanded(true);
+          transcribe();
+        }}
+        accessibilityRole="button"
+        accessibilityLabel="Transcribe voice message"
+        style={style}
+      >
+        <Text style={[styles.link, { color }]}>
+          {failed ? "Couldn't transcribe. Tap to retry" : "Transcribe"}
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={style}>
+      {expanded && (
+        <Text
+          style={[styles.text, { color }]}
+          selectable
+          accessibilityLanguage={transcript.language}
+        >
+          {transcript.text}
+        </Text>
+      )}
+      <TouchableOpacity
+        onPress={() => setExpanded((value) => !value)}
+        accessibilityRole="button"
+        accessibilityState={{ expanded }}
+      >
+        <Text style={[styles.link, { color }]}>
+          {expanded ? "Hide transcript" : "Show transcript"}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  link: {
+    fontSize: 12,
+    fontWeight: "600",
+    opacity: 0.8,
+  },
+  pending: {
+    marginLeft: 6,
+  },
+  muted: {
+    fontWeight: "400",
+    opacity: 0.6,
+  },
+  text: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+});
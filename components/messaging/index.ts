@@ -5,6 +5,8 @@ export { VoicePlayer } from "./VoicePlayer";
 export { VoiceMessageDisplay } from "./VoiceMessage";
 export { VoiceMessageBubble } from "./VoiceMessageBubble";
 export { VoiceMessageToolbar } from "./VoiceMessageToolbar";
+export { VoiceTranscript } from "./VoiceTranscript";
+export { VoiceDraftPreview } from "./VoiceDraftPreview";
 export {
   VoiceDurationIndicator,
   VoiceDurationWarning,
@@ -23,10 +25,24 @@ export { FeatureGateModal } from "./FeatureGateModal";
 // Voice Message Services
 export { VoiceMessageManager } from "../../services/voiceMessageManager";
 export { VoiceMessageStorage } from "../../services/voiceMessageStorage";
+export {
+  voiceTranscriptionService,
+  OfflineTranscriptionEngine,
+  ServerTranscriptionEngine,
+} from "../../services/voiceTranscription";
+export type { TranscriptionEngine } from "../../services/voiceTranscription";
+export {
+  voicePlaybackController,
+  buildVoiceQueue,
+} from "../../services/voicePlaybackController";
+export { voiceDraftStore } from "../../services/voiceDrafts";
 
 // Voice Message Hooks
 export { useVoiceRecording } from "@/hooks/useVoiceRecording";
 export { useVoicePlayback } from "@/hooks/useVoicePlayback";
+export { useVoiceTranscript } from "@/hooks/useVoiceTranscript";
+export { useVoiceClip, useVoicePlaylist } from "@/hooks/useVoicePlaybackQueue";
+export { useVoiceDraft } from "@/hooks/useVoiceDraft";
 export {
   useMessagingFeatures,
   useVoiceMessageLimits,
@@ -28,7 +28,18 @@ import {
 } from "@/hooks/useLocalPhotoManagement";
 import PlatformHaptics from "@utils/PlatformHaptics";
 import { useApiClient } from "@utils/api";
-import { ProfileImage, IMAGE_VALIDATION } from "../../types/image";
+import {
+  ProfileImage,
+  IMAGE_VALIDATION,
+  ImagePickerResult,
+  PhotoPrecheckMetadata,
+} from "../../types/image";
+import {
+  PhotoPrecheckResult,
+  getPrecheckIssues,
+  photoPrecheck,
+  toPrecheckMetadata,
+} from "../../services/photoPrecheck";
 import { Layout } from "../../constants";
 import { useToast } from "../../providers/ToastContext";
 import ConfirmModal from "../../components/ui/ConfirmModal";
@@ -272,6 +283,58 @@ export default function ImageUpload({
         color: t.colors.error[500],
         marginTop: Layout.spacing.xs,
       },
+      precheckCard: {
+        marginTop: Layout.spacing.md,
+        padding: Layout.spacing.md,
+        borderRadius: Layout.radius.md,
+        borderWidth: 1,
+        backgroundColor: t.colors.background.secondary,
+      },
+      precheckHeader: {
+        flexDirection: "row",
+        alignItems: "center",
+        marginBottom: Layout.spacing.sm,
+      },
+      precheckThumb: {
+        width: 48,
+        height: 48,
+        borderRadius: Layout.radius.sm,
+        marginRight: Layout.spacing.sm,
+        backgroundColor: t.colors.background.primary,
+      },
+      precheckTitle: {
+        flex: 1,
+        fontSize: Layout.typography.fontSize.base,
+        fontWeight: "600",
+        color: t.colors.text.primary,
+      },
+      precheckIssue: {
+        marginBottom: Layout.spacing.sm,
+      },
+      precheckMessage: {
+        fontSize: Layout.typography.fontSize.sm,
+        fontWeight: "600",
+        color: t.colors.text.primary,
+      },
+      precheckGuidance: {
+        fontSize: Layout.typography.fontSize.sm,
+        color: t.colors.text.secondary,
+        marginTop: 2,
+      },
+      precheckActions: {
+        flexDirection: "row",
+        justifyContent: "flex-end",
+        gap: Layout.spacing.md,
+        marginTop: Layout.spacing.xs,
+      },
+      precheckPrimary: {
+        color: t.colors.primary[500],
+        fontWeight: "600",
+      },
+      precheckSecondary: {
+        color: t.colors.text.secondary,
+        fontWeight: "600",
+      },
     })
   );
   const remote = useImageUpload();
@@ -298,6 +361,11 @@ export default function ImageUpload({
     { id: string; uri: string; progress: number }[]
   >([]);
   const [currentTempId, setCurrentTempId] = useState<string | null>(null);
+  // Photo held back by the moderation pre-check, awaiting the user's call
+  const [pendingPrecheck, setPendingPrecheck] = useState<{
+    imageResult: ImagePickerResult;
+    result: PhotoPrecheckResult;
+  } | null>(null);
   const toast = useToast();
 
   // Normalize images and notify parent only when actual content changes to avoid loops
@@ -399,28 +467,60 @@ export default function ImageUpload({
         return;
       }
 
-      // Add local uploading tile
-      const tempId = `temp-${Date.now()}`;
-      setLocalUploads((prev) => [
-        ...prev,
-        { id: tempId, uri: imageResult.uri, progress: 0 },
-      ]);
-      setCurrentTempId(tempId);
-
-      // Upload image
-      remote
-        .uploadImage(imageResult)
-        .then(() => {
-          setLocalUploads((prev) => prev.filter((u) => u.id !== tempId));
-          setCurrentTempId(null);
-        })
-        .catch(() => {
-          setLocalUploads((prev) => prev.filter((u) => u.id !== tempId));
-          setCurrentTempId(null);
-        });
+      // Moderation pre-check: hold back photos that would likely be rejected
+      const result = await photoPrecheck.run({
+        uri: imageResult.uri,
+        width: asset.width,
+        height: asset.height,
+        mimeType: imageResult.type,
+        fileName: asset.fileName,
+      });
+      if (result.verdict === "block" || result.verdict === "warn") {
+        setPendingPrecheck({ imageResult, result });
+        return;
+      }
+      setPendingPrecheck(null);
+      startUpload(imageResult, toPrecheckMetadata(result));
     });
   };
 
+  const startUpload = (
+    imageResult: ImagePickerResult,
+    precheck: PhotoPrecheckMetadata
+  ) => {
+    // Add local uploading tile
+    const tempId = `temp-${Date.now()}`;
+    setLocalUploads((prev) => [
+      ...prev,
+      { id: tempId, uri: imageResult.uri, progress: 0 },
+    ]);
+    setCurrentTempId(tempId);
+
+    // Upload image
+    remote
+      .uploadImage(imageResult, precheck)
+      .then(() => {
+        setLocalUploads((prev) => prev.filter((u) => u.id !== tempId));
+        setCurrentTempId(null);
+      })
+      .catch(() => {
+        setLocalUploads((prev) => prev.filter((u) => u.id !== tempId));
+        setCurrentTempId(null);
+      });
+  };
+
+  const uploadDespiteWarnings = () => {
+    if (!pendingPrecheck) return;
+    const { imageResult, result } = pendingPrecheck;
+    setPendingPrecheck(null);
+    startUpload(imageResult, toPrecheckMetadata(result, true));
+  };
+
+  const chooseAnotherPhoto = () => {
+    setPendingPrecheck(null);
+    handleImagePicker();
+  };
+
   const handleDeleteImage = (imageId: string) => {
     setPendingDeleteId(imageId);
     setConfirmVisible(true);
@@ -683,6 +783,44 @@ export default function ImageUpload({
     </TouchableOpacity>
   );
 
+  const renderPrecheck = (result: PhotoPrecheckResult) => {
+    const blocked = result.verdict === "block";
+    const accent = blocked
+      ? theme.colors.error[500]
+      : theme.colors.warning[500];
+    return (
+      <View style={[styles.precheckCard, { borderColor: accent }]}>
+        <View style={styles.precheckHeader}>
+          <Image
+            source={{ uri: pendingPrecheck?.imageResult.uri }}
+            style={styles.precheckThumb}
+          />
+          <Text style={styles.precheckTitle}>
+            {blocked
+              ? "This photo is likely to be rejected"
+              : "This photo might not be approved"}
+          </Text>
+        </View>
+        {getPrecheckIssues(result).map((issue) => (
+          <View key={issue.ruleId} style={styles.precheckIssue}>
+            <Text style={styles.precheckMessage}>{issue.message}</Text>
+            <Text style={styles.precheckGuidance}>{issue.guidance}</Text>
+          </View>
+        ))}
+        <View style={styles.precheckActions}>
+          {!blocked && (
+            <TouchableOpacity onPress={uploadDespiteWarnings}>
+              <Text style={styles.precheckSecondary}>Upload anyway</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={chooseAnotherPhoto}>
+            <Text style={styles.precheckPrimary}>Choose another photo</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   if (isLoading) {
     return (
       <View style={styles.container}>
@@ -774,6 +912,9 @@ export default function ImageUpload({
         )}
       </View>
 
+      {/* Moderation pre-check results */}
+      {pendingPrecheck && renderPrecheck(pendingPrecheck.result)}
+
       {/* Guidelines */}
       <View style={styles.guidelines}>
         <Text style={styles.guidelinesTitle}>Photo Guidelines:</Text>
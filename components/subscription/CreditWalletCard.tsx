@@ -0,0 +1,159 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useThemedStyles } from "../../contexts/ThemeContext";
+import type { Theme } from "../../constants/Theme";
+import type { CreditPack } from "@/hooks/useCredits";
+import type { CreditBalances, CreditType } from "../../types/inAppPurchase";
+
+interface CreditWalletCardProps {
+  balances: CreditBalances;
+  packs: CreditPack[];
+  // Purchases paid for but still being confirmed
+  pendingCount?: number;
+  // Product currently being bought
+  purchasing?: string | null;
+  onPurchase: (productId: string) => void;
+}
+
+const CREDITS: { type: CreditType; label: string; icon: string }[] = [
+  { type: "boost", label: "Boosts", icon: "trending-up" },
+  { type: "spotlight_day", label: "Spotlight days", icon: "star" },
+  { type: "super_interest", label: "Super interests", icon: "heart-circle" },
+];
+
+export default function CreditWalletCard({
+  balances,
+  packs,
+  pendingCount = 0,
+  purchasing = null,
+  onPurchase,
+}: CreditWalletCardProps) {
+  const styles = useThemedStyles(createStyles);
+  const colors = useThemedStyles((theme: Theme) => theme.colors);
+
+  return (
+    <View style={styles.container}>
+      {pendingCount > 0 && (
+        <Text style={styles.pendingText}>
+          {pendingCount === 1
+            ? "1 purchase is being confirmed"
+            : `${pendingCount} purchases are being confirmed`}
+        </Text>
+      )}
+
+      {CREDITS.map(({ type, label, icon }) => (
+        <View key={type} style={styles.creditRow}>
+          <View style={styles.creditHeader}>
+            <Ionicons
+              name={icon as keyof typeof Ionicons.glyphMap}
+              size={20}
+              color={colors.primary[500]}
+            />
+            <Text style={styles.creditLabel}>{label}</Text>
+            <Text style={styles.creditBalance}>{balances[type]}</Text>
+          </View>
+          <View style={styles.packs}>
+            {packs
+              .filter((pack) => pack.credit === type)
+              .map((pack) => (
+                <TouchableOpacity
+                  key={pack.productId}
+                  style={styles.packButton}
+                  onPress={() => onPurchase(pack.productId)}
+                  disabled={purchasing !== null}
+                >
+                  {purchasing === pack.productId ? (
+                    <ActivityIndicator
+                      size="small"
+                      color={colors.primary[500]}
+                    />
+                  ) : (
+                    <>
+                      <Text style={styles.packTitle}>{pack.title}</Text>
+                      {pack.displayPrice && (
+                        <Text style={styles.packPrice}>
+                          {pack.displayPrice}
+                        </Text>
+                      )}
+                    </>
+                  )}
+                </TouchableOpacity>
+              ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (theme: Theme) => {
+  const { colors, layout } = theme;
+
+  return StyleSheet.create({
+    container: {
+      backgroundColor: colors.background.secondary,
+      padding: layout.spacing.md,
+      borderRadius: layout.radius.md,
+    },
+    pendingText: {
+      fontSize: layout.typography.fontSize.xs,
+      color: colors.text.secondary,
+      marginBottom: layout.spacing.sm,
+      fontFamily: layout.typography.fontFamily.sans,
+    },
+    creditRow: {
+      marginBottom: layout.spacing.md,
+    },
+    creditHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      marginBottom: layout.spacing.sm,
+    },
+    creditLabel: {
+      flex: 1,
+      marginLeft: 8,
+      fontSize: layout.typography.fontSize.base,
+      color: colors.text.primary,
+      fontFamily: layout.typography.fontFamily.sans,
+    },
+    creditBalance: {
+      fontSize: layout.typography.fontSize.lg,
+      fontWeight: layout.typography.fontWeight.semibold,
+      color: colors.text.primary,
+      fontFamily: layout.typography.fontFamily.sansSemiBold,
+    },
+    packs: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: layout.spacing.sm,
+    },
+    packButton: {
+      minWidth: 96,
+      alignItems: "center",
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: layout.radius.sm,
+      borderWidth: 1,
+      borderColor: colors.primary[500],
+      backgroundColor: colors.background.primary,
+    },
+    packTitle: {
+      fontSize: layout.typography.fontSize.xs,
+      fontWeight: layout.typography.fontWeight.semibold,
+      color: colors.primary[500],
+      fontFamily: layout.typography.fontFamily.sansSemiBold,
+    },
+    packPrice: {
+      fontSize: layout.typography.fontSize.xs,
+      color: colors.text.secondary,
+      fontFamily: layout.typography.fontFamily.sans,
+    },
+  });
+};
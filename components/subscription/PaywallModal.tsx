@@ -9,6 +9,8 @@ type Plan = {
   price: number; // cents or normalized, caller decides label
   features?: string[];
   popular?: boolean;
+  // Free trial on this plan, and whether the user can still take it
+  trial?: { days: number; eligible: boolean };
 };
 
 interface PaywallModalProps {
@@ -76,6 +78,19 @@ export default function PaywallModal({
                       {isRecommended && <Text style={styles.badge}>Recommended</Text>}
                     </View>
                     <Text style={styles.planPrice}>{displayPrice}</Text>
+                    {plan.trial && (
+                      <Text
+                        style={
+                          plan.trial.eligible
+                            ? styles.trialText
+                            : styles.trialUsedText
+                        }
+                      >
+                        {plan.trial.eligible
+                          ? `${plan.trial.days}-day free trial, cancel anytime`
+                          : "You've already used your free trial"}
+                      </Text>
+                    )}
                     {!!plan.features?.length && (
                       <View style={styles.features}>
                         {plan.features.map((f, idx) => (
@@ -88,7 +103,11 @@ export default function PaywallModal({
                         style={[styles.upgradeButton, { backgroundColor: Colors.primary[500] }]}
                         onPress={() => onUpgrade(plan.id)}
                       >
-                        <Text style={styles.upgradeText}>Choose {plan.name}</Text>
+                        <Text style={styles.upgradeText}>
+                          {plan.trial?.eligible
+                            ? "Start free trial"
+                            : `Choose ${plan.name}`}
+                        </Text>
                       </TouchableOpacity>
                     )}
                   </View>
@@ -203,6 +222,17 @@ const styles = StyleSheet.create({
     color: Colors.text.primary,
     marginBottom: Layout.spacing.sm,
   },
+  trialText: {
+    fontSize: Layout.typography.fontSize.sm,
+    fontWeight: Layout.typography.fontWeight.semibold,
+    color: Colors.success[600],
+    marginBottom: Layout.spacing.sm,
+  },
+  trialUsedText: {
+    fontSize: Layout.typography.fontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Layout.spacing.sm,
+  },
   features: {
     marginBottom: Layout.spacing.md,
   },
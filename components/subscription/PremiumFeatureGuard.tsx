@@ -4,6 +4,7 @@ import InlineUpgradeBanner from "./InlineUpgradeBanner";
 import UpgradePrompt from "./UpgradePrompt";
 import { useFeatureAccess } from "@/hooks/useFeatureAccess";
 import { useSubscription } from "@/hooks/useSubscription";
+import { entitlements } from "@utils/entitlements";
 import type { SubscriptionTier, SubscriptionFeatures } from "@/types/subscription";
 
 export type GuardMode = "inline" | "modal";
@@ -45,9 +46,7 @@ export default function PremiumFeatureGuard({
   // Infer recommended tier if not provided
   const inferredTier: SubscriptionTier = useMemo(() => {
     if (recommendedTier) return recommendedTier;
-    // Heuristic: features that mention incognito require premiumPlus, otherwise premium
-    if (feature === "canUseIncognitoMode") return "premiumPlus";
-    return "premium";
+    return entitlements.requiredTier(feature) ?? "premium";
   }, [feature, recommendedTier]);
 
   useEffect(() => {
@@ -3,6 +3,12 @@ import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { Colors, Layout } from "../../constants";
 import { SubscriptionPlan } from "../../types/subscription";
+import type { SubscriptionOffer } from "../../types/inAppPurchase";
+import {
+  describeOffer,
+  getOfferLabel,
+  pickDefaultOffer,
+} from "../../utils/subscriptionOffers";
 
 interface SubscriptionCardProps {
   plan: SubscriptionPlan;
@@ -10,6 +16,11 @@ interface SubscriptionCardProps {
   isCurrentPlan?: boolean;
   onSelect: (plan: SubscriptionPlan) => void;
   disabled?: boolean;
+  // Store offers for this plan, eligible or not
+  offers?: SubscriptionOffer[];
+  // Offer the purchase will start with; null pays the regular price
+  selectedOffer?: SubscriptionOffer | null;
+  onSelectOffer?: (offer: SubscriptionOffer | null) => void;
 }
 
 export default function SubscriptionCard({
@@ -18,6 +29,9 @@ export default function SubscriptionCard({
   isCurrentPlan = false,
   onSelect,
   disabled = false,
+  offers = [],
+  selectedOffer = null,
+  onSelectOffer,
 }: SubscriptionCardProps) {
   const handlePress = () => {
     if (!disabled && !isCurrentPlan) {
@@ -33,6 +47,15 @@ export default function SubscriptionCard({
     }).format(price);
   };
 
+  const regularPrice = `${formatPrice(plan.price, plan.currency)}/${
+    plan.duration === "yearly" ? "year" : "month"
+  }`;
+  const eligibleOffers = offers.filter((offer) => offer.eligible);
+  const trialUsed =
+    eligibleOffers.length === 0 &&
+    offers.some((offer) => offer.type === "free_trial");
+  const featuredOffer = pickDefaultOffer(offers);
+
   return (
     <TouchableOpacity
       style={[
@@ -76,6 +99,23 @@ export default function SubscriptionCard({
         </View>
       </View>
 
+      {/* Offer */}
+      {!isCurrentPlan && featuredOffer && (
+        <View style={styles.offerRow}>
+          <Text style={styles.offerBadge}>
+            {getOfferLabel(featuredOffer.type)}
+          </Text>
+          <Text style={styles.offerText}>
+            {describeOffer(featuredOffer, regularPrice)}
+          </Text>
+        </View>
+      )}
+      {!isCurrentPlan && trialUsed && (
+        <Text style={styles.offerUnavailable}>
+          You've already used your free trial
+        </Text>
+      )}
+
       {/* Description */}
       <Text style={styles.description}>{plan.description}</Text>
 
@@ -104,6 +144,40 @@ export default function SubscriptionCard({
         ))}
       </View>
 
+      {/* Offer choice, once the plan is picked */}
+      {isSelected &&
+        !isCurrentPlan &&
+        onSelectOffer &&
+        eligibleOffers.length > 0 && (
+          <View style={styles.offerOptions}>
+            {[...eligibleOffers, null].map((offer) => {
+              const active =
+                (selectedOffer?.id ?? null) === (offer?.id ?? null);
+              return (
+                <TouchableOpacity
+                  key={offer?.id ?? "regular"}
+                  style={styles.offerOption}
+                  onPress={() => onSelectOffer(offer)}
+                  disabled={disabled}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: active }}
+                >
+                  <Ionicons
+                    name={active ? "radio-button-on" : "radio-button-off"}
+                    size={18}
+                    color={Colors.primary[500]}
+                  />
+                  <Text style={styles.featureText}>
+                    {offer
+                      ? describeOffer(offer, regularPrice)
+                      : `Pay ${regularPrice} from today`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
       {/* Selection Indicator */}
       {isSelected && !isCurrentPlan && (
         <View style={styles.selectionIndicator}>
@@ -210,6 +284,48 @@ const styles = StyleSheet.create({
     marginLeft: Layout.spacing.xs,
   },
 
+  offerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: Layout.spacing.sm,
+    marginBottom: Layout.spacing.sm,
+  },
+
+  offerBadge: {
+    fontSize: Layout.typography.fontSize.xs,
+    fontWeight: Layout.typography.fontWeight.bold,
+    color: Colors.success[700],
+    backgroundColor: Colors.success[100],
+    paddingHorizontal: Layout.spacing.sm,
+    paddingVertical: Layout.spacing.xs,
+    borderRadius: Layout.radius.sm,
+    overflow: "hidden",
+  },
+
+  offerText: {
+    fontSize: Layout.typography.fontSize.sm,
+    color: Colors.text.primary,
+    flexShrink: 1,
+  },
+
+  offerUnavailable: {
+    fontSize: Layout.typography.fontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Layout.spacing.sm,
+  },
+
+  offerOptions: {
+    marginTop: Layout.spacing.lg,
+    gap: Layout.spacing.sm,
+  },
+
+  offerOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Layout.spacing.sm,
+  },
+
   description: {
     fontSize: Layout.typography.fontSize.base,
     color: Colors.text.secondary,
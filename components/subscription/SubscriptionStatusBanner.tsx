@@ -0,0 +1,128 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Linking,
+  Platform,
+} from "react-native";
+import { Colors, Layout } from "../../constants";
+import type { LifecycleBanner } from "../../types/subscription";
+import { getManageSubscriptionUrl } from "../../utils/subscriptionLifecycle";
+
+interface SubscriptionStatusBannerProps {
+  banner: LifecycleBanner | null;
+  // Store product for the current plan; lets Play open that subscription
+  productId?: string;
+  // Called for "resubscribe", which happens in-app rather than in the store
+  onResubscribe?: () => void;
+  style?: any;
+}
+
+const SEVERITY_COLORS = {
+  info: {
+    background: Colors.info[50],
+    border: Colors.info[200],
+    accent: Colors.info[600],
+  },
+  warning: {
+    background: Colors.warning[50],
+    border: Colors.warning[200],
+    accent: Colors.warning[600],
+  },
+  error: {
+    background: Colors.error[50],
+    border: Colors.error[200],
+    accent: Colors.error[600],
+  },
+};
+
+export default function SubscriptionStatusBanner({
+  banner,
+  productId,
+  onResubscribe,
+  style,
+}: SubscriptionStatusBannerProps) {
+  if (!banner) return null;
+
+  const colors = SEVERITY_COLORS[banner.severity];
+
+  const handlePress = async () => {
+    if (banner.action === "resubscribe") {
+      onResubscribe?.();
+      return;
+    }
+    const url = getManageSubscriptionUrl(
+      Platform.OS === "ios" ? "ios" : "android",
+      banner.action,
+      productId
+    );
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      console.error(
+        "SubscriptionStatusBanner: Failed to open store page",
+        error
+      );
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: colors.background, borderColor: colors.border },
+        style,
+      ]}
+    >
+      <View style={styles.content}>
+        <Text style={[styles.title, { color: colors.accent }]}>
+          {banner.title}
+        </Text>
+        <Text style={styles.message}>{banner.message}</Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.accent }]}
+        onPress={handlePress}
+        activeOpacity={0.85}
+      >
+        <Text style={styles.buttonText}>{banner.actionLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Layout.spacing.sm,
+    borderWidth: 1,
+    paddingHorizontal: Layout.spacing.md,
+    paddingVertical: Layout.spacing.sm,
+    borderRadius: Layout.radius.md,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: Layout.typography.fontSize.sm,
+    fontWeight: Layout.typography.fontWeight.bold,
+    marginBottom: 2,
+  },
+  message: {
+    color: Colors.text.secondary,
+    fontSize: Layout.typography.fontSize.sm,
+  },
+  button: {
+    paddingHorizontal: Layout.spacing.md,
+    paddingVertical: Layout.spacing.xs,
+    borderRadius: Layout.radius.full,
+  },
+  buttonText: {
+    color: Colors.background.primary,
+    fontSize: Layout.typography.fontSize.sm,
+    fontWeight: Layout.typography.fontWeight.bold,
+  },
+});
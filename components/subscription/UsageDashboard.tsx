@@ -11,7 +11,9 @@ import { useThemedStyles } from "../../contexts/ThemeContext";
 import type { Theme } from "../../constants/Theme";
 import { useSubscription } from "@/hooks/useSubscription";
 import { useFeatureGate } from "@/hooks/useFeatureGate";
+import { useCredits } from "@/hooks/useCredits";
 import UsageQuotaCard from "./UsageQuotaCard";
+import CreditWalletCard from "./CreditWalletCard";
 import { LoadingState } from "../error";
 
 interface UsageDashboardProps {
@@ -31,6 +33,7 @@ export default function UsageDashboard({
   } = useSubscription() as any;
 
   const { currentTier } = useFeatureGate();
+  const credits = useCredits();
   const styles = useThemedStyles(createStyles);
   const colors = useThemedStyles((theme: Theme) => theme.colors);
 
@@ -182,6 +185,18 @@ export default function UsageDashboard({
         />
       </View>
 
+      {/* Purchased credits, on top of the plan's allowances */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Wallet</Text>
+        <CreditWalletCard
+          balances={credits.balances}
+          packs={credits.packs}
+          pendingCount={credits.pendingCount}
+          purchasing={credits.purchasing}
+          onPurchase={credits.purchase}
+        />
+      </View>
+
       {/* Premium Features */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Premium Features</Text>
@@ -1,6 +1,7 @@
 // Firebase Auth Context aligned with aroosi web API
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
 import { AppState, AppStateStatus, Platform } from "react-native";
+import NetInfo from "@react-native-community/netinfo";
 import { Profile } from '../types/profile';
 import { API_BASE_URL } from '../constants';
 import { getFirebaseAuth, initFirebase } from '../services/firebase';
@@ -8,6 +9,16 @@ import { OneSignal } from "react-native-onesignal";
 import { apiClient } from "@/utils/api";
 import { NotificationPermissionsManager } from "@/utils/notificationPermissions";
 import { NotificationHandler } from "@/utils/notificationHandler";
+import { presenceService } from "../services/presenceService";
+import { voiceTranscriptionService } from "../services/voiceTranscription";
+import { voicePlaybackController } from "../services/voicePlaybackController";
+import { voiceDraftStore } from "../services/voiceDrafts";
+import { creditLedger } from "@/utils/creditLedger";
+import { purchaseJournal } from "@/utils/purchaseJournal";
+import { messageCache } from "@/utils/MessageCache";
+import { MessageSyncManager } from "@/utils/messagingSync";
+import { messageOutbox } from "../services/messageOutbox";
+import { messageEncryption } from "../services/messageEncryptionService";
 import {
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
@@ -171,6 +182,43 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return () => sub.remove();
   }, [refreshUser]);
 
+  // Last-seen privacy belongs to the account and comes from the server
+  useEffect(() => {
+    presenceService.setUser(user?.id ?? null);
+  }, [user?.id]);
+
+  // Queued sends only go out for the account that queued them
+  useEffect(() => {
+    messageOutbox.setUser(user?.id ?? null);
+  }, [user?.id]);
+
+  // Store purchases the server never confirmed, e.g. because the app died
+  // mid-purchase: retried once signed in and whenever we're back online
+  useEffect(() => {
+    purchaseJournal.setUser(user?.id ?? null);
+    if (!user?.id) return;
+    const resume = async () => {
+      try {
+        const { inAppPurchaseManager } = await import("@/utils/inAppPurchases");
+        await inAppPurchaseManager.resumePendingPurchases();
+      } catch (error) {
+        console.error(
+          "AuthProvider: Failed to resume pending purchases",
+          error
+        );
+      }
+    };
+    resume();
+    let wasOnline = true;
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const isOnline =
+        !!state.isConnected && state.isInternetReachable !== false;
+      if (isOnline && !wasOnline) resume();
+      wasOnline = isOnline;
+    });
+    return () => unsubscribe();
+  }, [user?.id]);
+
   useEffect(() => {
     if (!user && !failedProfileNoticeShownRef.current && !isLoading) {
       failedProfileNoticeShownRef.current = true;
@@ -540,6 +588,19 @@ export function AuthProvider({ children }: AuthProviderProps) {
       try {
         await apiClient.setPresence("offline");
       } catch {}
+      presenceService.reset();
+      // Transcripts are message content; don't leave them for the next user
+      voiceTranscriptionService.clear();
+      voicePlaybackController.clear();
+      voiceDraftStore.clear();
+      creditLedger.clear();
+      // Stored chat history and its search index belong to this account too
+      messageCache.clearCache();
+      MessageSyncManager.clearStoredState();
+      // Queued and scheduled sends must never go out under the next account
+      messageOutbox.clearAll();
+      // Encryption state and decrypted attachments; device keys stay
+      messageEncryption.reset();
 
       // 2) Best-effort: unregister push with backend using current OneSignal ID
       try {
@@ -4,7 +4,19 @@ import {
   TypingIndicator,
   DeliveryReceipt,
   RealtimeEventHandlers,
+  toRealtimeMessage,
 } from "./RealtimeMessagingService";
+import {
+  RealtimeClientEvent,
+  RealtimeSequencedResult,
+} from "../types/realtime";
+import { RealtimeProtocol } from "../utils/realtimeProtocol";
+import { RealtimeReplayBuffer } from "../utils/realtimeReplayBuffer";
+import {
+  RealtimeTransport,
+  RealtimeTransportKind,
+  createRealtimeTransport,
+} from "../utils/realtimeTransport";
 
 export interface ConnectionPoolConfig {
   maxConnections: number;
@@ -29,6 +41,8 @@ export interface ConnectionMetrics {
   uptime: number;
   errorCount: number;
   messageQueueSize: number;
+  // What the primary connection is running over, null while disconnected
+  transport: RealtimeTransportKind | null;
 }
 
 export interface ConnectionHealth {
@@ -43,7 +57,11 @@ export class OptimizedRealtimeService extends EventEmitter {
   private tokenProvider?: () => Promise<string | null>;
   private config: ConnectionPoolConfig;
   private eventHandlers: RealtimeEventHandlers;
-  private connections: Map<string, WebSocket> = new Map();
+  private connections: Map<string, RealtimeTransport> = new Map();
+  private protocols: Map<string, RealtimeProtocol> = new Map();
+  // Outlive their socket so a reconnect can resume where it left off
+  private replays: Map<string, RealtimeReplayBuffer<RealtimeSequencedResult>> =
+    new Map();
   private metrics: ConnectionMetrics;
   private messageQueue: RealtimeMessage[] = [];
   private typingTimeouts: Map<string, NodeJS.Timeout> = new Map();
@@ -85,6 +103,7 @@ export class OptimizedRealtimeService extends EventEmitter {
       uptime: 0,
       errorCount: 0,
       messageQueueSize: 0,
+      transport: null,
     };
     this.tokenProvider = tokenProvider;
   }
@@ -129,6 +148,9 @@ export class OptimizedRealtimeService extends EventEmitter {
       ws.close();
       this.connections.delete(key);
     }
+    this.protocols.clear();
+    for (const replay of this.replays.values()) replay.destroy();
+    this.replays.clear();
 
     // Clear timeouts
     if (this.heartbeatInterval) {
@@ -240,39 +262,41 @@ export class OptimizedRealtimeService extends EventEmitter {
     if (token) url.searchParams.set("token", token);
 
     return new Promise((resolve, reject) => {
-      const ws = new WebSocket(url.toString());
+      const ws = createRealtimeTransport(url.toString());
 
       const timeout = setTimeout(() => {
         ws.close();
         reject(new Error("Connection timeout"));
       }, this.config.connectionTimeout);
 
+      const protocol = new RealtimeProtocol();
+
       ws.onopen = () => {
         clearTimeout(timeout);
         this.connections.set(key, ws);
+        this.protocols.set(key, protocol);
         this.metrics.connectionCount++;
         this.metrics.activeConnections++;
-        // Send initial auth message if token not passed as query or needs verification handshake
-        if (token) {
-          try {
+        if (key === "primary") this.metrics.transport = ws.kind;
+        try {
+          ws.send(protocol.hello(this.getReplay(key).getResumeState()));
+          // Send initial auth message if token not passed as query or needs verification handshake
+          if (token) {
             ws.send(
-              JSON.stringify({
-                type: "auth",
-                token,
-                userId: this.userId,
-                ts: Date.now(),
-              })
+              protocol.encode({ type: "auth", token, userId: this.userId })
             );
-          } catch (e) {
-            console.warn("Failed to send initial auth message", e);
           }
+        } catch (e) {
+          console.warn("Failed to send initial handshake", e);
         }
         resolve();
       };
 
       ws.onclose = () => {
         this.connections.delete(key);
+        this.protocols.delete(key);
         this.metrics.activeConnections--;
+        if (key === "primary") this.metrics.transport = null;
         this.handleConnectionLoss(key);
       };
 
@@ -283,7 +307,7 @@ export class OptimizedRealtimeService extends EventEmitter {
       };
 
       ws.onmessage = (event) => {
-        this.handleMessage(event.data);
+        this.handleMessage(key, protocol, event.data);
       };
     });
   }
@@ -319,61 +343,159 @@ export class OptimizedRealtimeService extends EventEmitter {
     if (!this.tokenProvider) return;
     const token = await this.tokenProvider();
     if (!token) return;
-    for (const ws of this.connections.values()) {
+    for (const key of this.connections.keys()) {
       try {
-        ws.send(
-          JSON.stringify({
-            type: "auth_refresh",
-            token,
-            userId: this.userId,
-            ts: Date.now(),
-          })
-        );
+        this.sendEvent(key, {
+          type: "auth.refresh",
+          token,
+          userId: this.userId,
+        });
       } catch (e) {
         console.warn("Failed to send auth_refresh", e);
       }
     }
   }
 
-  private handleMessage(data: string): void {
-    try {
-      const message = JSON.parse(data);
-      this.metrics.totalMessagesReceived++;
-
-      // Route message to appropriate handler
-      if (message.type === "message") {
-        this.eventHandlers.onMessage?.(message as RealtimeMessage);
-      } else if (message.type === "typing") {
-        this.eventHandlers.onTypingIndicator?.(message as TypingIndicator);
-      } else if (message.type === "receipt") {
-        this.eventHandlers.onDeliveryReceipt?.(message as DeliveryReceipt);
+  private getReplay(
+    key: string
+  ): RealtimeReplayBuffer<RealtimeSequencedResult> {
+    let replay = this.replays.get(key);
+    if (!replay) {
+      replay = new RealtimeReplayBuffer<RealtimeSequencedResult>();
+      replay.on("item", (result: RealtimeSequencedResult) =>
+        this.dispatch(result)
+      );
+      replay.on("gap", (gap: { expected: number; received: number }) => {
+        console.warn(`Realtime ${key} missed events`, gap);
+        this.emit("resync_required", {
+          reason: "gap",
+          connection: key,
+          ...gap,
+        });
+      });
+      this.replays.set(key, replay);
+    }
+    return replay;
+  }
+
+  private handleMessage(
+    key: string,
+    protocol: RealtimeProtocol,
+    data: string
+  ): void {
+    const result = protocol.decode(data);
+    this.metrics.totalMessagesReceived++;
+
+    if (result.kind === "invalid") {
+      console.error("Failed to parse message:", result.error);
+      this.metrics.errorCount++;
+      return;
+    }
+
+    const replay = this.getReplay(key);
+    if (result.kind === "event" && result.event.type === "welcome") {
+      const resumed = !!result.event.resumed;
+      replay.beginSession(result.event.sessionId, resumed);
+      if (resumed) {
+        this.emit("session_resumed", {
+          connection: key,
+          lastSeq: replay.lastSeq,
+        });
+      } else {
+        this.emit("resync_required", {
+          reason: "session_not_resumed",
+          connection: key,
+        });
       }
-    } catch (error) {
-      console.error("Failed to parse message:", error);
+    }
+    replay.push(result, result.meta.seq);
+  }
+
+  private dispatch(result: RealtimeSequencedResult): void {
+    if (result.kind === "unknown") {
+      // Newer server event; ignore it rather than fail
+      this.emit("unknown_event", { type: result.type, meta: result.meta });
+      return;
+    }
+
+    const { event, meta } = result;
+    this.eventHandlers.onEvent?.(event, meta);
+    this.emit(event.type, event, meta);
+
+    // Route message to appropriate handler
+    if (event.type === "message.new") {
+      this.eventHandlers.onMessage?.(toRealtimeMessage(event.message));
+    } else if (event.type === "typing") {
+      this.eventHandlers.onTypingIndicator?.({
+        conversationId: event.conversationId,
+        userId: event.userId,
+        isTyping: event.isTyping,
+        timestamp: meta.ts,
+      });
+    } else if (event.type === "receipt") {
+      this.eventHandlers.onDeliveryReceipt?.({
+        messageId: event.messageId,
+        conversationId: event.conversationId,
+        userId: event.userId,
+        status: event.status,
+        timestamp: event.at,
+      });
+    } else if (event.type === "error") {
       this.metrics.errorCount++;
+      this.eventHandlers.onError?.(new Error(event.message));
+    }
+  }
+
+  /**
+   * Encode an event for one connection's negotiated protocol version
+   */
+  private sendEvent(key: string, event: RealtimeClientEvent): boolean {
+    const ws = this.connections.get(key);
+    const protocol = this.protocols.get(key);
+    if (!ws || !protocol) return false;
+
+    ws.send(protocol.encode(event));
+    return true;
+  }
+
+  private toClientEvent(message: RealtimeMessage): RealtimeClientEvent {
+    if (
+      message.type !== "text" &&
+      message.type !== "voice" &&
+      message.type !== "image"
+    ) {
+      throw new Error(`Unsupported realtime message type: ${message.type}`);
     }
+    return {
+      type: "message.send",
+      message: {
+        id: message.id,
+        conversationId: message.conversationId,
+        fromUserId: message.fromUserId,
+        toUserId: message.toUserId,
+        type: message.type,
+        text: message.content,
+        createdAt: message.timestamp,
+        clientMessageId: message.clientMessageId,
+        encrypted: message.encrypted,
+      },
+    };
   }
 
   private async sendMessageDirect(message: RealtimeMessage): Promise<void> {
-    const primaryConnection = this.connections.get("primary");
-    if (!primaryConnection) {
+    if (!this.sendEvent("primary", this.toClientEvent(message))) {
       throw new Error("No primary connection available");
     }
-
-    primaryConnection.send(JSON.stringify(message));
     this.metrics.totalMessagesSent++;
   }
 
   private sendTypingIndicatorDirect(indicator: TypingIndicator): void {
-    const primaryConnection = this.connections.get("primary");
-    if (!primaryConnection) return;
-
-    primaryConnection.send(
-      JSON.stringify({
-        type: "typing",
-        ...indicator,
-      })
-    );
+    this.sendEvent("primary", {
+      type: "typing",
+      conversationId: indicator.conversationId,
+      userId: indicator.userId,
+      isTyping: indicator.isTyping,
+    });
   }
 
   private processBatchedMessages(): void {
@@ -392,28 +514,21 @@ export class OptimizedRealtimeService extends EventEmitter {
   private flushMessageQueue(): void {
     if (this.messageQueue.length === 0) return;
 
+    if (!this.connections.has("primary")) return;
+
     const messages = [...this.messageQueue];
     this.messageQueue = [];
 
-    const primaryConnection = this.connections.get("primary");
-    if (!primaryConnection) return;
-
-    primaryConnection.send(
-      JSON.stringify({
-        type: "batch",
-        messages,
-      })
-    );
+    for (const message of messages) {
+      this.sendEvent("primary", this.toClientEvent(message));
+    }
 
     this.metrics.totalMessagesSent += messages.length;
   }
 
   private startHeartbeat(): void {
     this.heartbeatInterval = setInterval(() => {
-      const primaryConnection = this.connections.get("primary");
-      if (primaryConnection) {
-        primaryConnection.send(JSON.stringify({ type: "ping" }));
-      }
+      this.sendEvent("primary", { type: "ping" });
     }, this.config.heartbeatInterval);
   }
 }
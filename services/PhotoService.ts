@@ -1,15 +1,23 @@
 import * as ImagePicker from "expo-image-picker";
 // removed unused: ImageManipulator, Image
 import { apiClient } from "@utils/api";
-import { ProfileImage } from "../types/image";
+import { PhotoPrecheckMetadata, ProfileImage } from "../types/image";
 import { errorHandler, AppError } from "@utils/errorHandling";
 import { networkManager } from "@utils/NetworkManager";
+import {
+  PhotoPrecheckInput,
+  PhotoPrecheckResult,
+  getPrecheckIssues,
+  photoPrecheck,
+  toPrecheckMetadata,
+} from "./photoPrecheck";
 // Removed util toast usage. Services remain UI-agnostic; UI surfaces messages via ToastContext.
 
 export interface PhotoUploadResult {
   success: boolean;
   imageId?: string;
   error?: string;
+  precheck?: PhotoPrecheckResult;
 }
 
 export interface PhotoMetadata {
@@ -108,7 +116,8 @@ export class PhotoService {
    */
   async uploadPhoto(
     processedPhoto: ProcessedPhoto,
-    userId?: string
+    userId?: string,
+    precheck?: PhotoPrecheckMetadata
   ): Promise<PhotoUploadResult & { profileImage?: ProfileImage }> {
     try {
       // Generate a unique filename
@@ -176,6 +185,7 @@ export class PhotoService {
         fileName,
         contentType: "image/jpeg",
         fileSize: imageBlob.size,
+        precheck,
       });
       if (!metadataResult.success) {
         const error = new AppError(
@@ -233,7 +243,8 @@ export class PhotoService {
         return { success: false, error: "No photo selected" };
       }
 
-      const pickedUri = pickerResult.assets[0].uri;
+      const asset = pickerResult.assets[0];
+      const pickedUri = asset.uri;
 
       // Validate image before processing
       const isValid = await this.validateImage(pickedUri);
@@ -241,6 +252,23 @@ export class PhotoService {
         return { success: false, error: "Invalid image selected" };
       }
 
+      // Catch photos moderation would reject before uploading them
+      const precheck = await this.precheckImage({
+        uri: pickedUri,
+        width: asset.width,
+        height: asset.height,
+        mimeType: asset.type,
+        fileName: asset.fileName,
+      });
+      if (precheck.verdict === "block") {
+        const [issue] = getPrecheckIssues(precheck);
+        return {
+          success: false,
+          error: `${issue.message}. ${issue.guidance}`,
+          precheck,
+        };
+      }
+
       // Process the image
       const processedPhoto = await this.processImage(pickedUri);
 
@@ -249,9 +277,13 @@ export class PhotoService {
       }
 
       // Upload the processed image
-      const uploadResult = await this.uploadPhoto(processedPhoto, userId);
+      const uploadResult = await this.uploadPhoto(
+        processedPhoto,
+        userId,
+        toPrecheckMetadata(precheck)
+      );
 
-      return uploadResult;
+      return { ...uploadResult, precheck };
     } catch (error) {
       const appError = errorHandler.handle(error as Error, {
         action: "addPhoto",
@@ -287,6 +319,14 @@ export class PhotoService {
     }
   }
 
+  /**
+   * Run the on-device moderation rules over a photo (no face, several
+   * people, screenshots, heavy text)
+   */
+  async precheckImage(input: PhotoPrecheckInput): Promise<PhotoPrecheckResult> {
+    return photoPrecheck.run(input);
+  }
+
   /**
    * Initialize offline queue processing
    */
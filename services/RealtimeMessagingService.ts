@@ -1,4 +1,19 @@
 import EventEmitter from "eventemitter3";
+import {
+  RealtimeClientEvent,
+  RealtimeFrameMeta,
+  RealtimeSequencedResult,
+  RealtimeServerEvent,
+  RealtimeWireMessage,
+} from "../types/realtime";
+import { RealtimeProtocol } from "../utils/realtimeProtocol";
+import { RealtimeReplayBuffer } from "../utils/realtimeReplayBuffer";
+import {
+  RealtimeTransport,
+  RealtimeTransportKind,
+  createRealtimeTransport,
+} from "../utils/realtimeTransport";
+import { logger } from "../utils/logger";
 
 export interface RealtimeMessage {
   id: string;
@@ -11,10 +26,14 @@ export interface RealtimeMessage {
     | "image"
     | "typing"
     | "delivery_receipt"
-    | "read_receipt";
+    | "read_receipt"
+    | "listened_receipt";
   content?: string;
   timestamp: number;
   metadata?: any;
+  clientMessageId?: string;
+  encrypted?: unknown;
+  expiresAt?: number;
 }
 
 export interface TypingIndicator {
@@ -28,7 +47,7 @@ export interface DeliveryReceipt {
   messageId: string;
   conversationId: string;
   userId: string;
-  status: "sent" | "delivered" | "read";
+  status: "sent" | "delivered" | "read" | "listened";
   timestamp: number;
 }
 
@@ -38,13 +57,43 @@ export interface RealtimeEventHandlers {
   onDeliveryReceipt?: (receipt: DeliveryReceipt) => void;
   onConnectionChange?: (connected: boolean) => void;
   onError?: (error: Error) => void;
+  // Every validated server event, including ones without a dedicated handler
+  onEvent?: (event: RealtimeServerEvent, meta: RealtimeFrameMeta) => void;
+}
+
+// Servers that don't answer the hello within this window speak version 1
+const HANDSHAKE_TIMEOUT_MS = 3000;
+
+/**
+ * Legacy message shape handed to onMessage / "message" listeners
+ */
+export function toRealtimeMessage(
+  message: RealtimeWireMessage
+): RealtimeMessage {
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    fromUserId: message.fromUserId,
+    toUserId: message.toUserId,
+    type: message.type,
+    content: message.text,
+    timestamp: message.createdAt,
+    metadata: {
+      audioUrl: message.audioUrl,
+      imageUrl: message.imageUrl,
+      duration: message.duration,
+    },
+    clientMessageId: message.clientMessageId,
+    encrypted: message.encrypted,
+    expiresAt: message.expiresAt,
+  };
 }
 
 /**
  * Real-time messaging service using WebSocket connection
  */
 export class RealtimeMessagingService extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private ws: RealtimeTransport | null = null;
   private url: string;
   private userId: string | null = null;
   private reconnectAttempts = 0;
@@ -54,11 +103,23 @@ export class RealtimeMessagingService extends EventEmitter {
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private isConnected = false;
   private handlers: RealtimeEventHandlers = {};
-  private messageQueue: any[] = [];
+  private messageQueue: RealtimeClientEvent[] = [];
+  private protocol = new RealtimeProtocol();
+  private handshakeTimeout: NodeJS.Timeout | null = null;
+  private handshakeSettled = false;
+  private replay = new RealtimeReplayBuffer<RealtimeSequencedResult>();
 
   constructor(url: string) {
     super();
     this.url = url;
+
+    this.replay.on("item", (result: RealtimeSequencedResult) =>
+      this.dispatch(result)
+    );
+    this.replay.on("gap", (gap: { expected: number; received: number }) => {
+      console.warn("Realtime events were lost:", gap);
+      this.emit("resync_required", { reason: "gap", ...gap });
+    });
   }
 
   /**
@@ -94,12 +155,13 @@ export class RealtimeMessagingService extends EventEmitter {
           this.ws.close();
         }
 
-        // Create WebSocket connection
+        // Falls back to SSE or long-polling where sockets are blocked
         const wsUrl = `${this.url}?userId=${this.userId}`;
-        this.ws = new WebSocket(wsUrl);
+        const ws = createRealtimeTransport(wsUrl);
+        this.ws = ws;
 
         this.ws.onopen = () => {
-          console.log("WebSocket connected");
+          logger.info("REALTIME", "connected", { transport: ws.kind });
           this.isConnected = true;
           this.reconnectAttempts = 0;
           this.reconnectDelay = 1000;
@@ -107,8 +169,8 @@ export class RealtimeMessagingService extends EventEmitter {
           // Start heartbeat
           this.startHeartbeat();
 
-          // Process queued messages
-          this.processMessageQueue();
+          // Negotiate the protocol; queued frames go out once it settles
+          this.startHandshake();
 
           // Notify handlers
           this.handlers.onConnectionChange?.(true);
@@ -125,6 +187,7 @@ export class RealtimeMessagingService extends EventEmitter {
           console.log("WebSocket disconnected:", event.code, event.reason);
           this.isConnected = false;
           this.stopHeartbeat();
+          this.clearHandshake();
 
           // Notify handlers
           this.handlers.onConnectionChange?.(false);
@@ -158,30 +221,81 @@ export class RealtimeMessagingService extends EventEmitter {
    * Handle incoming WebSocket messages
    */
   private handleMessage(data: string): void {
-    try {
-      const message = JSON.parse(data);
-
-      switch (message.type) {
-        case "message":
-          this.handleRealtimeMessage(message);
-          break;
-        case "typing":
-          this.handleTypingIndicator(message);
-          break;
-        case "delivery_receipt":
-          this.handleDeliveryReceipt(message);
-          break;
-        case "read_receipt":
-          this.handleReadReceipt(message);
-          break;
-        case "pong":
-          // Heartbeat response
-          break;
-        default:
-          console.warn("Unknown message type:", message.type);
-      }
-    } catch (error) {
-      console.error("Failed to parse WebSocket message:", error);
+    const result = this.protocol.decode(data);
+
+    if (result.kind === "invalid") {
+      console.warn("Dropped invalid realtime frame:", result.error);
+      this.emit("protocol_error", result.error);
+      return;
+    }
+    if (result.kind === "event" && result.event.type === "welcome") {
+      const { version, sessionId, resumed } = result.event;
+      this.replay.beginSession(sessionId, !!resumed);
+      this.emit("protocol_negotiated", { version, sessionId, resumed });
+      this.settleHandshake(!!resumed);
+      return;
+    }
+
+    // Unknown events still carry a seq, so they go through the buffer too
+    this.replay.push(result, result.meta.seq);
+  }
+
+  /**
+   * Route an event once the replay buffer releases it in order
+   */
+  private dispatch(result: RealtimeSequencedResult): void {
+    if (result.kind === "unknown") {
+      // Newer server event; ignore it rather than fail
+      this.emit("unknown_event", { type: result.type, meta: result.meta });
+      return;
+    }
+
+    const { event, meta } = result;
+    this.handlers.onEvent?.(event, meta);
+    this.emit("event", event, meta);
+
+    switch (event.type) {
+      case "welcome":
+        // Handled before buffering
+        break;
+      case "pong":
+        // Heartbeat response
+        break;
+      case "error":
+        console.error("Realtime server error:", event.code, event.message);
+        this.handlers.onError?.(new Error(event.message));
+        this.emit("server_error", event);
+        break;
+      case "message.new":
+        this.handleRealtimeMessage(toRealtimeMessage(event.message));
+        break;
+      case "typing":
+        this.handleTypingIndicator(event, meta);
+        break;
+      case "receipt":
+        this.handleReceipt(event);
+        break;
+      case "message.edited":
+        this.emit("message_edited", event);
+        break;
+      case "message.deleted":
+        this.emit("message_deleted", event);
+        break;
+      case "reaction":
+        this.emit("reaction", event);
+        break;
+      case "presence":
+        this.emit("presence", event);
+        break;
+      case "match.new":
+        this.emit("match", event);
+        break;
+      case "interest":
+        this.emit("interest", event);
+        break;
+      case "subscription.updated":
+        this.emit("subscription_updated", event);
+        break;
     }
   }
 
@@ -196,12 +310,15 @@ export class RealtimeMessagingService extends EventEmitter {
   /**
    * Handle typing indicator
    */
-  private handleTypingIndicator(data: any): void {
+  private handleTypingIndicator(
+    event: Extract<RealtimeServerEvent, { type: "typing" }>,
+    meta: RealtimeFrameMeta
+  ): void {
     const indicator: TypingIndicator = {
-      conversationId: data.conversationId,
-      userId: data.userId,
-      isTyping: data.isTyping,
-      timestamp: data.timestamp || Date.now(),
+      conversationId: event.conversationId,
+      userId: event.userId,
+      isTyping: event.isTyping,
+      timestamp: meta.ts,
     };
 
     this.handlers.onTypingIndicator?.(indicator);
@@ -209,50 +326,42 @@ export class RealtimeMessagingService extends EventEmitter {
   }
 
   /**
-   * Handle delivery receipt
+   * Handle delivery and read receipts
    */
-  private handleDeliveryReceipt(data: any): void {
+  private handleReceipt(
+    event: Extract<RealtimeServerEvent, { type: "receipt" }>
+  ): void {
     const receipt: DeliveryReceipt = {
-      messageId: data.messageId,
-      conversationId: data.conversationId,
-      userId: data.userId,
-      status: data.status,
-      timestamp: data.timestamp || Date.now(),
+      messageId: event.messageId,
+      conversationId: event.conversationId,
+      userId: event.userId,
+      status: event.status,
+      timestamp: event.at,
     };
 
-    this.handlers.onDeliveryReceipt?.(receipt);
-    this.emit("delivery_receipt", receipt);
-  }
-
-  /**
-   * Handle read receipt
-   */
-  private handleReadReceipt(data: any): void {
-    const receipt: DeliveryReceipt = {
-      messageId: data.messageId,
-      conversationId: data.conversationId,
-      userId: data.userId,
-      status: "read",
-      timestamp: data.timestamp || Date.now(),
-    };
+    // Listening to a voice note doesn't change the message's status
+    if (event.status === "listened") {
+      this.emit("listened_receipt", receipt);
+      return;
+    }
 
     this.handlers.onDeliveryReceipt?.(receipt);
-    this.emit("read_receipt", receipt);
+    this.emit(
+      event.status === "read" ? "read_receipt" : "delivery_receipt",
+      receipt
+    );
   }
 
   /**
    * Send typing indicator
    */
   sendTypingIndicator(conversationId: string, isTyping: boolean): void {
-    const message = {
+    this.send({
       type: "typing",
       conversationId,
-      userId: this.userId,
+      userId: this.userId || "",
       isTyping,
-      timestamp: Date.now(),
-    };
-
-    this.sendMessage(message);
+    });
   }
 
   /**
@@ -263,48 +372,50 @@ export class RealtimeMessagingService extends EventEmitter {
     conversationId: string,
     status: "sent" | "delivered" | "read"
   ): void {
-    const message = {
-      type: "delivery_receipt",
+    this.send({
+      type: "receipt",
       messageId,
       conversationId,
-      userId: this.userId,
-      status,
-      timestamp: Date.now(),
-    };
-
-    this.sendMessage(message);
+      userId: this.userId || "",
+      status: status === "read" ? "read" : "delivered",
+    });
   }
 
   /**
    * Send read receipt
    */
   sendReadReceipt(messageId: string, conversationId: string): void {
-    const message = {
-      type: "read_receipt",
+    this.sendDeliveryReceipt(messageId, conversationId, "read");
+  }
+
+  /**
+   * Tell the sender a voice message was played to the end
+   */
+  sendListenedReceipt(messageId: string, conversationId: string): void {
+    this.send({
+      type: "receipt",
       messageId,
       conversationId,
-      userId: this.userId,
-      timestamp: Date.now(),
-    };
-
-    this.sendMessage(message);
+      userId: this.userId || "",
+      status: "listened",
+    });
   }
 
   /**
-   * Send message through WebSocket
+   * Send an event through WebSocket, encoded for the negotiated version
    */
-  private sendMessage(message: any): void {
-    if (this.isConnected && this.ws) {
+  private send(event: RealtimeClientEvent): void {
+    if (this.isConnected && this.ws && this.handshakeSettled) {
       try {
-        this.ws.send(JSON.stringify(message));
+        this.ws.send(this.protocol.encode(event));
       } catch (error) {
         console.error("Failed to send WebSocket message:", error);
         // Queue message for retry
-        this.messageQueue.push(message);
+        this.messageQueue.push(event);
       }
     } else {
       // Queue message for when connection is restored
-      this.messageQueue.push(message);
+      this.messageQueue.push(event);
     }
   }
 
@@ -312,19 +423,65 @@ export class RealtimeMessagingService extends EventEmitter {
    * Process queued messages
    */
   private processMessageQueue(): void {
-    while (this.messageQueue.length > 0 && this.isConnected) {
-      const message = this.messageQueue.shift();
-      this.sendMessage(message);
+    const queued = this.messageQueue;
+    this.messageQueue = [];
+    queued.forEach((event) => this.send(event));
+  }
+
+  /**
+   * Say hello and wait briefly for the server to pick a protocol version
+   */
+  private startHandshake(): void {
+    this.clearHandshake();
+    this.protocol.reset();
+    this.handshakeSettled = false;
+
+    try {
+      this.ws?.send(this.protocol.hello(this.replay.getResumeState()));
+    } catch (error) {
+      console.warn("Failed to send realtime hello:", error);
+    }
+    this.handshakeTimeout = setTimeout(
+      () => this.settleHandshake(false),
+      HANDSHAKE_TIMEOUT_MS
+    );
+  }
+
+  private settleHandshake(resumed: boolean): void {
+    this.clearHandshake();
+    if (this.handshakeSettled) return;
+    this.handshakeSettled = true;
+
+    // Missed events arrive as replay when resumed; otherwise fetch them
+    if (resumed) {
+      this.emit("session_resumed", { lastSeq: this.replay.lastSeq });
+    } else {
+      this.emit("resync_required", { reason: "session_not_resumed" });
+    }
+    this.processMessageQueue();
+  }
+
+  private clearHandshake(): void {
+    if (this.handshakeTimeout) {
+      clearTimeout(this.handshakeTimeout);
+      this.handshakeTimeout = null;
     }
   }
 
+  /**
+   * Get the protocol version agreed with the server
+   */
+  getProtocolVersion(): number {
+    return this.protocol.currentVersion;
+  }
+
   /**
    * Start heartbeat to keep connection alive
    */
   private startHeartbeat(): void {
     this.heartbeatInterval = setInterval(() => {
       if (this.isConnected && this.ws) {
-        this.ws.send(JSON.stringify({ type: "ping" }));
+        this.ws.send(this.protocol.encode({ type: "ping" }));
       }
     }, 30000); // Send ping every 30 seconds
   }
@@ -375,26 +532,14 @@ export class RealtimeMessagingService extends EventEmitter {
    * Join a conversation room
    */
   joinConversation(conversationId: string): void {
-    const message = {
-      type: "join_conversation",
-      conversationId,
-      userId: this.userId,
-    };
-
-    this.sendMessage(message);
+    this.send({ type: "join", conversationId, userId: this.userId || "" });
   }
 
   /**
    * Leave a conversation room
    */
   leaveConversation(conversationId: string): void {
-    const message = {
-      type: "leave_conversation",
-      conversationId,
-      userId: this.userId,
-    };
-
-    this.sendMessage(message);
+    this.send({ type: "leave", conversationId, userId: this.userId || "" });
   }
 
   /**
@@ -404,6 +549,13 @@ export class RealtimeMessagingService extends EventEmitter {
     return this.isConnected;
   }
 
+  /**
+   * Transport currently carrying the connection
+   */
+  getTransport(): RealtimeTransportKind | null {
+    return this.isConnected && this.ws ? this.ws.kind : null;
+  }
+
   /**
    * Disconnect and cleanup
    */
@@ -418,6 +570,8 @@ export class RealtimeMessagingService extends EventEmitter {
 
     // Stop heartbeat
     this.stopHeartbeat();
+    this.clearHandshake();
+    this.replay.reset();
 
     // Close WebSocket
     if (this.ws) {
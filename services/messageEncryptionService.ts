@@ -0,0 +1,632 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import * as FileSystem from "expo-file-system/legacy";
+import * as Crypto from "expo-crypto";
+import EventEmitter from "eventemitter3";
+import { apiClient } from "@utils/api";
+import {
+  DeviceKey,
+  DeviceKeyPair,
+  EnvelopeContent,
+  computeSafetyNumber,
+  decryptAttachment,
+  encryptAttachment,
+  generateDeviceKeyPair,
+  openEnvelope,
+  sealEnvelope,
+} from "@utils/e2eeCrypto";
+import { EncryptedEnvelope, Message } from "../types/message";
+import {
+  ApiResponse,
+  MessageCipher,
+  SealedAttachment,
+} from "../types/messaging";
+
+export interface EncryptedConversation {
+  partnerId: string;
+  enabledAt: number;
+}
+
+export interface SafetyNumberInfo {
+  safetyNumber: string;
+  verified: boolean;
+  partnerHasKeys: boolean;
+}
+
+interface KnownDevices {
+  devices: DeviceKey[];
+  fetchedAt: number;
+}
+
+interface PersistedState {
+  conversations: Record<string, EncryptedConversation>;
+  knownKeys: Record<string, KnownDevices>;
+  // Safety number each partner was verified at
+  verified: Record<string, string>;
+}
+
+const STATE_KEY = "e2ee_state";
+const DEVICE_KEY = "e2ee_device_keypair";
+// Re-fetch a user's device list at most this often when sealing
+const KEY_REFRESH_INTERVAL = 5 * 60 * 1000;
+const ATTACHMENT_DIR = `${FileSystem.cacheDirectory}e2ee/`;
+// Decrypted copies live apart from sealed uploads so they can be wiped
+const OPENED_DIR = `${ATTACHMENT_DIR}opened/`;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "audio/m4a": "m4a",
+  "audio/mp4": "m4a",
+  "audio/aac": "aac",
+  "audio/mpeg": "mp3",
+};
+
+/**
+ * Opt-in end-to-end encryption for 1:1 conversations.
+ *
+ * Each device has its own key pair; the secret key never leaves SecureStore
+ * and the public key is published on the user's profile. A conversation is
+ * encrypted once either participant turns it on, after which every message
+ * is sealed for all devices of both users.
+ */
+export class MessageEncryptionService
+  extends EventEmitter
+  implements MessageCipher
+{
+  private userId: string | null = null;
+  private device: DeviceKeyPair | null = null;
+  private conversations = new Map<string, EncryptedConversation>();
+  private knownKeys = new Map<string, KnownDevices>();
+  private verified = new Map<string, string>();
+  private attachments = new Map<string, Promise<string | null>>();
+  private initPromise: Promise<void> | null = null;
+  private published = false;
+
+  /**
+   * Load this device's keys and the saved state for a user
+   */
+  initialize(userId: string): Promise<void> {
+    if (this.userId !== userId) {
+      this.reset();
+      this.userId = userId;
+      this.initPromise = this.load(userId);
+    }
+    return this.initPromise!;
+  }
+
+  private async load(userId: string): Promise<void> {
+    try {
+      await Promise.all([this.loadDeviceKeys(userId), this.loadState(userId)]);
+      this.emit("initialized", { deviceId: this.device?.deviceId });
+      // Sending doesn't depend on it, so don't hold startup on the network
+      this.publishDeviceKey().catch((error) =>
+        console.warn("MessageEncryption: Failed to publish device key", error)
+      );
+    } catch (error) {
+      console.error("MessageEncryption: Failed to initialize", error);
+    }
+  }
+
+  private async loadDeviceKeys(userId: string): Promise<void> {
+    const storeKey = `${DEVICE_KEY}_${userId.replace(/[^\w.-]/g, "_")}`;
+    const raw = await SecureStore.getItemAsync(storeKey);
+    if (raw) {
+      this.device = JSON.parse(raw);
+      return;
+    }
+
+    const device = generateDeviceKeyPair(Crypto.randomUUID());
+    await SecureStore.setItemAsync(storeKey, JSON.stringify(device));
+    this.device = device;
+  }
+
+  private async loadState(userId: string): Promise<void> {
+    const raw = await AsyncStorage.getItem(`${STATE_KEY}_${userId}`);
+    if (!raw) return;
+
+    const state: PersistedState = JSON.parse(raw);
+    this.conversations = new Map(Object.entries(state.conversations || {}));
+    this.knownKeys = new Map(Object.entries(state.knownKeys || {}));
+    this.verified = new Map(Object.entries(state.verified || {}));
+  }
+
+  private async saveState(): Promise<void> {
+    if (!this.userId) return;
+    try {
+      const state: PersistedState = {
+        conversations: Object.fromEntries(this.conversations),
+        knownKeys: Object.fromEntries(this.knownKeys),
+        verified: Object.fromEntries(this.verified),
+      };
+      await AsyncStorage.setItem(
+        `${STATE_KEY}_${this.userId}`,
+        JSON.stringify(state)
+      );
+    } catch (error) {
+      console.error("MessageEncryption: Failed to save state", error);
+    }
+  }
+
+  /**
+   * Make this device's public key discoverable by the people we talk to
+   */
+  private async publishDeviceKey(): Promise<boolean> {
+    if (this.published || !this.device) return this.published;
+
+    const response = await apiClient.publishEncryptionKey({
+      deviceId: this.device.deviceId,
+      publicKey: this.device.publicKey,
+    });
+    if (!response.success) {
+      console.warn(
+        "MessageEncryption: Failed to publish device key",
+        response.error
+      );
+      return false;
+    }
+
+    this.published = true;
+    return true;
+  }
+
+  /**
+   * A user's published device keys, from cache unless stale
+   */
+  private async getDevices(
+    userId: string,
+    refresh = false
+  ): Promise<ApiResponse<DeviceKey[]>> {
+    const known = this.knownKeys.get(userId);
+    if (
+      known &&
+      !refresh &&
+      Date.now() - known.fetchedAt < KEY_REFRESH_INTERVAL
+    ) {
+      return { success: true, data: known.devices };
+    }
+
+    const response = await apiClient.getEncryptionKeys(userId);
+    if (!response.success || !response.data) {
+      // Offline: fall back to what we saw last
+      return known
+        ? { success: true, data: known.devices }
+        : { success: false, error: response.error };
+    }
+
+    const devices = response.data.devices.map(({ deviceId, publicKey }) => ({
+      deviceId,
+      publicKey,
+    }));
+    const changed = !!known && keySetId(known.devices) !== keySetId(devices);
+
+    this.knownKeys.set(userId, { devices, fetchedAt: Date.now() });
+    await this.saveState();
+
+    if (changed) {
+      this.emit("identity_changed", { userId });
+    }
+    return { success: true, data: devices };
+  }
+
+  isEncrypted(conversationId: string): boolean {
+    return this.conversations.has(conversationId);
+  }
+
+  getConversation(conversationId: string): EncryptedConversation | undefined {
+    return this.conversations.get(conversationId);
+  }
+
+  /**
+   * Turn on encryption for a conversation. Fails when the partner has no
+   * device keys yet, since nothing could be sealed for them.
+   */
+  async enableEncryption(
+    conversationId: string,
+    partnerId: string
+  ): Promise<ApiResponse<void>> {
+    await this.initPromise;
+    if (!this.device || !(await this.publishDeviceKey())) {
+      return {
+        success: false,
+        error: {
+          code: "ENCRYPTION_NOT_READY",
+          message: "Encryption isn't set up on this device yet",
+        },
+      };
+    }
+
+    const devices = await this.getDevices(partnerId, true);
+    if (!devices.success) {
+      return { success: false, error: devices.error };
+    }
+    if (!devices.data || devices.data.length === 0) {
+      return {
+        success: false,
+        error: {
+          code: "ENCRYPTION_UNAVAILABLE",
+          message: "Your match hasn't set up encrypted messaging yet",
+        },
+      };
+    }
+
+    await this.markEncrypted(conversationId, partnerId);
+    return { success: true };
+  }
+
+  async disableEncryption(conversationId: string): Promise<void> {
+    if (this.conversations.delete(conversationId)) {
+      await this.saveState();
+      this.emit("conversation_updated", { conversationId, encrypted: false });
+    }
+  }
+
+  private async markEncrypted(
+    conversationId: string,
+    partnerId: string
+  ): Promise<void> {
+    if (this.conversations.has(conversationId)) return;
+
+    this.conversations.set(conversationId, {
+      partnerId,
+      enabledAt: Date.now(),
+    });
+    await this.saveState();
+    this.emit("conversation_updated", { conversationId, encrypted: true });
+  }
+
+  /**
+   * Seal a message for the partner's devices and our own. An attachment is
+   * encrypted into a temporary file that is uploaded in its place.
+   */
+  async encryptMessage(
+    message: Omit<Message, "_id">,
+    attachment?: SealedAttachment
+  ): Promise<
+    ApiResponse<{ encrypted: EncryptedEnvelope; encryptedUri?: string }>
+  > {
+    await this.initPromise;
+    const device = this.device;
+    if (!device || !this.userId) {
+      return {
+        success: false,
+        error: {
+          code: "ENCRYPTION_NOT_READY",
+          message: "Encryption isn't set up on this device yet",
+        },
+      };
+    }
+
+    const [partner, own] = await Promise.all([
+      this.getDevices(message.toUserId),
+      this.getDevices(this.userId),
+    ]);
+    if (!partner.success) {
+      return { success: false, error: partner.error };
+    }
+    if (!partner.data || partner.data.length === 0) {
+      return {
+        success: false,
+        error: {
+          code: "ENCRYPTION_FAILED",
+          message: "The recipient has no encryption keys",
+        },
+      };
+    }
+
+    try {
+      const content: EnvelopeContent = { text: message.text || undefined };
+      const media = {
+        duration: message.duration,
+        waveform: attachment?.peaks?.length
+          ? attachment.peaks
+          : message.voiceWaveform,
+        width: attachment?.width,
+        height: attachment?.height,
+        transcript: message.transcript,
+        transcriptLanguage: message.transcriptLanguage,
+      };
+      if (Object.values(media).some((value) => value !== undefined)) {
+        content.media = media;
+      }
+      let encryptedUri: string | undefined;
+
+      if (attachment) {
+        const data = await FileSystem.readAsStringAsync(attachment.localUri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        const sealed = encryptAttachment(data);
+
+        await FileSystem.makeDirectoryAsync(ATTACHMENT_DIR, {
+          intermediates: true,
+        }).catch(() => undefined);
+        // Named after the send, so retries overwrite rather than pile up
+        encryptedUri = `${ATTACHMENT_DIR}out_${
+          message.clientMessageId || Date.now()
+        }`;
+        await FileSystem.writeAsStringAsync(encryptedUri, sealed.data, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+
+        content.attachment = {
+          key: sealed.key,
+          nonce: sealed.nonce,
+          mimeType: attachment.contentType,
+        };
+      }
+
+      const recipients = uniqueDevices([
+        ...partner.data,
+        ...(own.data || []),
+        device,
+      ]);
+      return {
+        success: true,
+        data: {
+          encrypted: sealEnvelope(content, device, recipients),
+          encryptedUri,
+        },
+      };
+    } catch (error) {
+      console.error("MessageEncryption: Failed to encrypt message", error);
+      return {
+        success: false,
+        error: {
+          code: "ENCRYPTION_FAILED",
+          message: "Failed to encrypt message",
+          details: error,
+        },
+      };
+    }
+  }
+
+  /**
+   * Replace sealed messages with their plaintext. Messages that can't be
+   * opened on this device are flagged rather than dropped.
+   */
+  async decryptMessages(messages: Message[]): Promise<Message[]> {
+    if (!messages.some((m) => m.encrypted)) return messages;
+
+    await this.initPromise;
+    const refreshed = new Set<string>();
+    const result: Message[] = [];
+
+    for (const message of messages) {
+      if (!message.encrypted || !this.device) {
+        result.push(message);
+        continue;
+      }
+
+      const trusted = await this.isTrustedSender(message, refreshed);
+      const content = trusted
+        ? openEnvelope(message.encrypted, this.device)
+        : null;
+
+      result.push({
+        ...message,
+        text: content?.text || "",
+        ...(content?.media?.duration !== undefined && {
+          duration: content.media.duration,
+        }),
+        ...(content?.media?.waveform && {
+          voiceWaveform: content.media.waveform,
+        }),
+        ...(content?.media?.width !== undefined && {
+          width: content.media.width,
+          height: content.media.height,
+        }),
+        ...(content?.media?.transcript && {
+          transcript: content.media.transcript,
+          transcriptStatus: "completed" as const,
+          transcriptLanguage: content.media.transcriptLanguage,
+        }),
+        decryptionFailed: !content,
+      });
+
+      // The partner turned encryption on; answer in kind, but only for an
+      // envelope a trusted key actually opened
+      if (content) {
+        const partnerId =
+          message.fromUserId === this.userId
+            ? message.toUserId
+            : message.fromUserId;
+        await this.markEncrypted(message.conversationId, partnerId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The envelope names its sender key; only accept keys the sender has
+   * published, refreshing their device list once per batch
+   */
+  private async isTrustedSender(
+    message: Message,
+    refreshed: Set<string>
+  ): Promise<boolean> {
+    const { senderDeviceId, senderKey } = message.encrypted!;
+    if (
+      this.device &&
+      senderDeviceId === this.device.deviceId &&
+      senderKey === this.device.publicKey
+    ) {
+      return true;
+    }
+
+    const matches = (devices?: DeviceKey[]) =>
+      !!devices?.some(
+        (d) => d.deviceId === senderDeviceId && d.publicKey === senderKey
+      );
+
+    if (matches(this.knownKeys.get(message.fromUserId)?.devices)) {
+      return true;
+    }
+    if (refreshed.has(message.fromUserId)) {
+      return false;
+    }
+
+    refreshed.add(message.fromUserId);
+    const devices = await this.getDevices(message.fromUserId, true);
+    return matches(devices.data);
+  }
+
+  /**
+   * Download and decrypt a message's attachment into the cache directory.
+   * Returns a local file URI, or null when it can't be decrypted. The file
+   * stays until clearDecryptedFiles() or reset().
+   */
+  decryptAttachmentFile(message: Message, url: string): Promise<string | null> {
+    let pending = this.attachments.get(message._id);
+    if (!pending) {
+      pending = this.fetchAttachment(message, url);
+      this.attachments.set(message._id, pending);
+      // Let a failed attempt be retried on the next render
+      pending.then((uri) => {
+        if (!uri) this.attachments.delete(message._id);
+      });
+    }
+    return pending;
+  }
+
+  private async fetchAttachment(
+    message: Message,
+    url: string
+  ): Promise<string | null> {
+    await this.initPromise;
+    if (!message.encrypted || !this.device) return null;
+    // Same rule as message text: a forged sender key opens nothing
+    if (!(await this.isTrustedSender(message, new Set()))) return null;
+
+    const content = openEnvelope(message.encrypted, this.device);
+    if (!content?.attachment) return null;
+
+    const { key, nonce, mimeType } = content.attachment;
+    const extension = (mimeType && EXTENSIONS[mimeType]) || "bin";
+    const target = `${OPENED_DIR}${message._id}.${extension}`;
+    const download = `${ATTACHMENT_DIR}${message._id}.enc`;
+
+    try {
+      const existing = await FileSystem.getInfoAsync(target);
+      if (existing.exists) return target;
+
+      await FileSystem.makeDirectoryAsync(OPENED_DIR, {
+        intermediates: true,
+      }).catch(() => undefined);
+      await FileSystem.downloadAsync(url, download);
+      const sealed = await FileSystem.readAsStringAsync(download, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      await FileSystem.deleteAsync(download, { idempotent: true });
+
+      const plain = decryptAttachment(sealed, key, nonce);
+      if (!plain) return null;
+
+      await FileSystem.writeAsStringAsync(target, plain, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      return target;
+    } catch (error) {
+      console.error("MessageEncryption: Failed to decrypt attachment", error);
+      return null;
+    }
+  }
+
+  /**
+   * Safety number for this user and a partner, over the current device keys
+   * of both
+   */
+  async getSafetyNumber(partnerId: string): Promise<SafetyNumberInfo> {
+    await this.initPromise;
+    if (!this.userId || !this.device) {
+      throw new Error("Encryption isn't set up on this device yet");
+    }
+
+    const [partner, own] = await Promise.all([
+      this.getDevices(partnerId, true),
+      this.getDevices(this.userId, true),
+    ]);
+    const ownDevices = uniqueDevices([...(own.data || []), this.device]);
+    const partnerDevices = partner.data || [];
+
+    const safetyNumber = computeSafetyNumber(
+      {
+        userId: this.userId,
+        publicKeys: ownDevices.map((d) => d.publicKey),
+      },
+      {
+        userId: partnerId,
+        publicKeys: partnerDevices.map((d) => d.publicKey),
+      }
+    );
+
+    return {
+      safetyNumber,
+      verified: this.verified.get(partnerId) === safetyNumber,
+      partnerHasKeys: partnerDevices.length > 0,
+    };
+  }
+
+  /**
+   * Record that the user compared the safety number with their partner. A
+   * key change on either side produces a new number and clears this.
+   */
+  async markVerified(partnerId: string, safetyNumber: string): Promise<void> {
+    this.verified.set(partnerId, safetyNumber);
+    await this.saveState();
+    this.emit("verification_changed", { partnerId, verified: true });
+  }
+
+  async clearVerification(partnerId: string): Promise<void> {
+    if (this.verified.delete(partnerId)) {
+      await this.saveState();
+      this.emit("verification_changed", { partnerId, verified: false });
+    }
+  }
+
+  /**
+   * Delete decrypted attachments, e.g. once the chat showing them closes.
+   * Sealed uploads still waiting in the outbox are kept.
+   */
+  async clearDecryptedFiles(): Promise<void> {
+    this.attachments.clear();
+    try {
+      await FileSystem.deleteAsync(OPENED_DIR, { idempotent: true });
+    } catch (error) {
+      console.warn("MessageEncryption: Failed to delete attachments", error);
+    }
+  }
+
+  /**
+   * Forget the signed-in user's state, including decrypted attachments;
+   * device keys stay in SecureStore
+   */
+  reset(): void {
+    this.userId = null;
+    this.device = null;
+    this.published = false;
+    this.initPromise = null;
+    this.conversations.clear();
+    this.knownKeys.clear();
+    this.verified.clear();
+    this.clearDecryptedFiles();
+  }
+}
+
+function keySetId(devices: DeviceKey[]): string {
+  return devices
+    .map((d) => `${d.deviceId}:${d.publicKey}`)
+    .sort()
+    .join(",");
+}
+
+function uniqueDevices(devices: DeviceKey[]): DeviceKey[] {
+  const byId = new Map(devices.map((d) => [d.deviceId, d]));
+  return Array.from(byId.values()).map(({ deviceId, publicKey }) => ({
+    deviceId,
+    publicKey,
+  }));
+}
+
+export const messageEncryption = new MessageEncryptionService();
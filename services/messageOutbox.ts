@@ -0,0 +1,124 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  OfflineMessageQueue,
+  OutboxStepHandler,
+} from "@utils/offlineMessageQueue";
+import {
+  ImageUploadItem,
+  LEGACY_IMAGE_QUEUE_KEY,
+  uploadMessageImage,
+} from "@utils/imageUploadQueue";
+import { MessagingApiAdapter } from "../src/utils/messagingApiAdapter";
+import { VoiceMessageStorage } from "./voiceMessageStorage";
+import { messageEncryption } from "./messageEncryptionService";
+
+let voiceStorage: VoiceMessageStorage | null = null;
+
+/**
+ * Outbox upload step for voice messages: PUT the recording to a signed URL
+ * and hand the storage id to the create step
+ */
+export const uploadVoiceMessage: OutboxStepHandler = async (
+  job,
+  { apiClient, onProgress, onCancel }
+) => {
+  const { message, attachment, stepResults } = job;
+  if (!attachment) {
+    return {
+      success: false,
+      error: { code: "UPLOAD_ERROR", message: "No recording to upload" },
+    };
+  }
+  // Encrypted conversations upload the sealed copy; the real type is inside
+  const encrypted = !!stepResults.encryptedUri;
+
+  if (!voiceStorage) {
+    voiceStorage = new VoiceMessageStorage(apiClient);
+  }
+
+  const handle = voiceStorage.beginUploadVoiceMessage(
+    stepResults.encryptedUri || attachment.localUri,
+    {
+      duration: encrypted ? undefined : message.duration,
+      fileSize: encrypted ? undefined : attachment.fileSize,
+      mimeType: encrypted ? "application/octet-stream" : attachment.contentType,
+    },
+    onProgress
+  );
+  onCancel(handle.cancel);
+
+  const response = await handle.promise;
+  if (!response.success || !response.data) {
+    return { success: false, error: response.error };
+  }
+  return {
+    success: true,
+    data: { storageId: response.data.storageId, url: response.data.url },
+  };
+};
+
+/**
+ * Move uploads left in the standalone image queue into the outbox
+ */
+async function migrateLegacyImageQueue(
+  outbox: OfflineMessageQueue
+): Promise<void> {
+  try {
+    const raw = await AsyncStorage.getItem(LEGACY_IMAGE_QUEUE_KEY);
+    if (!raw) return;
+
+    const items: ImageUploadItem[] = JSON.parse(raw);
+    for (const item of items.filter((i) => i.status !== "done")) {
+      await outbox.enqueueJob({
+        kind: "image",
+        message: {
+          conversationId: item.conversationId,
+          fromUserId: item.fromUserId,
+          toUserId: item.toUserId,
+          text: "",
+          type: "image",
+          createdAt: item.createdAt,
+        },
+        attachment: {
+          localUri: item.localUri,
+          fileName: item.fileName,
+          contentType: item.contentType,
+          width: item.width,
+          height: item.height,
+        },
+      });
+    }
+
+    await AsyncStorage.removeItem(LEGACY_IMAGE_QUEUE_KEY);
+  } catch (error) {
+    console.error("MessageOutbox: Failed to migrate image queue", error);
+  }
+}
+
+/**
+ * The app-wide outbox. Text, voice and image sends all go through it.
+ */
+export const messageOutbox = new OfflineMessageQueue(
+  new MessagingApiAdapter(),
+  {
+    uploaders: {
+      voice: uploadVoiceMessage,
+      image: uploadMessageImage,
+    },
+    cipher: messageEncryption,
+  }
+);
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Load the outbox once per app session
+ */
+export function initializeMessageOutbox(): Promise<void> {
+  if (!initPromise) {
+    initPromise = messageOutbox
+      .initialize()
+      .then(() => migrateLegacyImageQueue(messageOutbox));
+  }
+  return initPromise;
+}
@@ -17,6 +17,7 @@ export interface SecurityConfig {
   enableAuthValidation?: boolean;
   maxMessageLength?: number;
   maxFileSize?: number;
+  blockedLinkDomains?: string[]; // added to MessageSecurity.KNOWN_BAD_LINK_DOMAINS
 }
 
 export interface AuthContext {
@@ -50,6 +51,7 @@ export class MessagingSecurityService extends EventEmitter {
   private providerUserId?: string;
   private userRelationships = new Map<string, UserRelationship[]>();
   private blockedUsers = new Set<string>();
+  private blockedLinkDomains: Set<string>;
   private securityViolations: SecurityViolation[] = [];
 
   constructor(config: SecurityConfig = {}) {
@@ -65,8 +67,14 @@ export class MessagingSecurityService extends EventEmitter {
       enableAuthValidation: config.enableAuthValidation !== false,
       maxMessageLength: config.maxMessageLength || 1000,
       maxFileSize: config.maxFileSize || 10 * 1024 * 1024, // 10MB
+      blockedLinkDomains: config.blockedLinkDomains || [],
     };
 
+    this.blockedLinkDomains = new Set([
+      ...MessageSecurity.KNOWN_BAD_LINK_DOMAINS,
+      ...this.config.blockedLinkDomains.map((d) => d.toLowerCase()),
+    ]);
+
     if (this.config.enableRateLimit) {
       this.rateLimiter = new ClientRateLimit(
         this.config.rateLimitMessages,
@@ -343,6 +351,37 @@ export class MessagingSecurityService extends EventEmitter {
     return { valid: true };
   }
 
+  /**
+   * Validate a link before it is previewed or opened
+   */
+  validateLink(url: string): ValidationResult {
+    if (!this.config.enableContentFiltering) {
+      return { valid: true };
+    }
+
+    const reason = MessageSecurity.getUnsafeLinkReason(
+      url,
+      this.blockedLinkDomains
+    );
+    if (reason) {
+      this.recordSecurityViolation("content_filter", "Unsafe link detected", {
+        reason,
+      });
+      return { valid: false, error: reason };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Add domains whose links should be flagged, e.g. from a server blocklist
+   */
+  addBlockedLinkDomains(domains: string[]): void {
+    domains.forEach((domain) =>
+      this.blockedLinkDomains.add(domain.toLowerCase())
+    );
+  }
+
   /**
    * Validate file upload security
    */
@@ -460,6 +499,10 @@ export class MessagingSecurityService extends EventEmitter {
   updateConfig(newConfig: Partial<SecurityConfig>): void {
     this.config = { ...this.config, ...newConfig };
 
+    if (newConfig.blockedLinkDomains) {
+      this.addBlockedLinkDomains(newConfig.blockedLinkDomains);
+    }
+
     // Recreate rate limiter if settings changed
     if (
       newConfig.enableRateLimit !== undefined ||
@@ -630,6 +673,8 @@ export class MessagingSecurityErrorHandler {
         "Voice recording failed. Please try again.",
       [MessagingErrorType.FILE_UPLOAD_FAILED]:
         "File upload failed. Please try again.",
+      [MessagingErrorType.ENCRYPTION_FAILED]:
+        "This message couldn't be encrypted. Check the chat's encryption settings.",
       [MessagingErrorType.UNKNOWN_ERROR]:
         "Something went wrong. Please try again.",
     };
@@ -1,13 +1,17 @@
 import EventEmitter from "eventemitter3";
 import { Message } from "../types/message";
 import {
+  MessageCipher,
   MessagingAPI,
   MessagingError,
   MessagingErrorType,
 } from "../types/messaging";
 import { OfflineMessageQueue, QueuedMessage } from "@utils/offlineMessageQueue";
 import { messageCache } from "@utils/MessageCache";
+import { persistentMessageStore } from "@utils/persistentMessageStore";
 import { MessageSyncManager } from "@utils/messagingSync";
+import { generateClientMessageId } from "@utils/messageUtils";
+import { OptimisticMessageTracker } from "@utils/optimisticMessageManager";
 
 export interface OfflineMessagingOptions {
   enableOfflineQueue?: boolean;
@@ -15,6 +19,10 @@ export interface OfflineMessagingOptions {
   maxRetries?: number;
   syncInterval?: number;
   cacheMessages?: boolean;
+  // Shared outbox to send through instead of a private queue
+  outbox?: OfflineMessageQueue;
+  // End-to-end encryption for conversations that opted in
+  cipher?: MessageCipher;
 }
 
 export interface SendMessageOptions {
@@ -45,10 +53,15 @@ export class OfflineMessagingService extends EventEmitter {
   // Guard to avoid feedback loops when propagating online status between components
   private applyingStatus = false;
 
-  private readonly options: Required<OfflineMessagingOptions>;
+  private readonly options: Required<
+    Omit<OfflineMessagingOptions, "outbox" | "cipher">
+  >;
+  private readonly sharedOutbox: OfflineMessageQueue | null;
+  private readonly cipher: MessageCipher | null;
+  private queueListeners: [string, (...args: any[]) => void][] = [];
 
   // Optimistic message tracking
-  private optimisticMessages = new Map<string, Message>();
+  private optimisticMessages: OptimisticMessageTracker;
   private optimisticToActual = new Map<string, string>();
 
   constructor(apiClient: MessagingAPI, options: OfflineMessagingOptions = {}) {
@@ -61,6 +74,11 @@ export class OfflineMessagingService extends EventEmitter {
       syncInterval: options.syncInterval || 30000,
       cacheMessages: options.cacheMessages !== false,
     };
+    this.sharedOutbox = options.outbox || null;
+    this.cipher = options.cipher || null;
+    this.optimisticMessages = new OptimisticMessageTracker({
+      cacheMessages: this.options.cacheMessages,
+    });
   }
 
   /**
@@ -97,27 +115,45 @@ export class OfflineMessagingService extends EventEmitter {
    * Initialize offline message queue
    */
   private async initializeOfflineQueue(): Promise<void> {
-    this.offlineQueue = new OfflineMessageQueue(this.apiClient, {
-      maxRetries: this.options.maxRetries,
-    });
-
-    // Setup queue event handlers
-    this.offlineQueue.on("message_sent", ({ id, message, attempts }) => {
-      this.handleQueuedMessageSent(id, message, attempts);
-    });
+    this.offlineQueue =
+      this.sharedOutbox ||
+      new OfflineMessageQueue(this.apiClient, {
+        maxRetries: this.options.maxRetries,
+        cipher: this.cipher || undefined,
+      });
 
-    this.offlineQueue.on(
-      "message_failed",
-      ({ id, message, error, attempts }) => {
-        this.handleQueuedMessageFailed(id, message, error, attempts);
-      }
+    // Setup queue event handlers; kept so a shared outbox can be detached
+    this.queueListeners = [
+      [
+        "message_sent",
+        ({ id, message, attempts }) => {
+          this.handleQueuedMessageSent(id, message, attempts);
+        },
+      ],
+      [
+        "message_failed",
+        ({ id, message, error, attempts }) => {
+          this.handleQueuedMessageFailed(id, message, error, attempts);
+        },
+      ],
+      [
+        "connection_status_changed",
+        ({ online }) => {
+          // Update internal status without echoing back into the queue
+          this.applyOnlineStatus(online, "queue");
+        },
+      ],
+      [
+        "job_updated",
+        (update) => {
+          this.emit("outbox_job_updated", update);
+        },
+      ],
+    ];
+    this.queueListeners.forEach(([event, listener]) =>
+      this.offlineQueue!.on(event, listener)
     );
 
-    this.offlineQueue.on("connection_status_changed", ({ online }) => {
-      // Update internal status without echoing back into the queue
-      this.applyOnlineStatus(online, "queue");
-    });
-
     await this.offlineQueue.initialize();
   }
 
@@ -132,6 +168,7 @@ export class OfflineMessagingService extends EventEmitter {
     this.syncManager = new MessageSyncManager(this.apiClient, {
       conflictResolution: "server",
       enableRealtime: true,
+      cipher: this.cipher || undefined,
     });
 
     // Setup sync event handlers
@@ -175,6 +212,12 @@ export class OfflineMessagingService extends EventEmitter {
       };
     }
 
+    // One id for the whole life of this send, shared by every retry
+    messageData = {
+      ...messageData,
+      clientMessageId: messageData.clientMessageId || generateClientMessageId(),
+    };
+
     try {
       let optimisticId: string | undefined;
 
@@ -186,18 +229,32 @@ export class OfflineMessagingService extends EventEmitter {
       // Try to send immediately if online and not forced to queue
       if (this.isOnline && !forceQueue && !this.offlineQueue) {
         try {
+          const sealed = this.cipher?.isEncrypted(messageData.conversationId)
+            ? await this.cipher.encryptMessage(messageData)
+            : undefined;
+          if (sealed && !sealed.success) {
+            throw new Error(sealed.error?.message || "Failed to encrypt");
+          }
+
           const response = await this.apiClient.sendMessage({
             conversationId: messageData.conversationId,
             fromUserId: messageData.fromUserId,
             toUserId: messageData.toUserId,
-            text: messageData.text,
+            text: sealed ? "" : messageData.text,
             type: messageData.type,
             audioStorageId: messageData.audioStorageId,
             duration: messageData.duration,
             fileSize: messageData.fileSize,
             mimeType: messageData.mimeType,
+            clientMessageId: messageData.clientMessageId,
+            encrypted: sealed?.data?.encrypted,
           });
 
+          if (response.success && sealed && response.data) {
+            // The server echoes ciphertext; show what was typed
+            response.data = { ...response.data, text: messageData.text };
+          }
+
           if (response.success) {
             // Success - update optimistic message
             if (optimisticId && response.data) {
@@ -338,6 +395,7 @@ export class OfflineMessagingService extends EventEmitter {
   ): Promise<Message[]> {
     // Try cache first if enabled
     if (this.options.cacheMessages) {
+      await persistentMessageStore.loadConversation(conversationId);
       const cached = messageCache.get(conversationId);
       if (cached && cached.length > 0) {
         // Apply filters if specified
@@ -367,13 +425,26 @@ export class OfflineMessagingService extends EventEmitter {
         options
       );
 
+      if (response.success && response.data && this.cipher) {
+        response.data = await this.cipher.decryptMessages(response.data);
+      }
+
       if (response.success && response.data) {
         // Cache the messages
         if (this.options.cacheMessages) {
           messageCache.addMessages(conversationId, response.data, true);
+          if (
+            options.before &&
+            options.limit &&
+            response.data.length < options.limit
+          ) {
+            persistentMessageStore.setCursor(conversationId, {
+              hasMoreOlder: false,
+            });
+          }
         }
 
-        return response.data;
+        return messageCache.applyExpiry(conversationId, response.data);
       }
 
       return [];
@@ -442,25 +513,13 @@ export class OfflineMessagingService extends EventEmitter {
    * Add optimistic message
    */
   private addOptimisticMessage(messageData: Omit<Message, "_id">): string {
-    const optimisticId = `optimistic_${Date.now()}_${Math.random()
-      .toString(36)
-      .substr(2, 9)}`;
+    const optimisticId =
+      this.optimisticMessages.addOptimisticMessage(messageData);
 
-    const optimisticMessage: Message = {
-      ...messageData,
-      _id: optimisticId,
-      status: "pending",
-      createdAt: messageData.createdAt || Date.now(),
-    };
-
-    this.optimisticMessages.set(optimisticId, optimisticMessage);
-
-    // Add to cache if enabled
-    if (this.options.cacheMessages) {
-      messageCache.addMessages(messageData.conversationId, [optimisticMessage]);
-    }
-
-    this.emit("optimistic_message_added", optimisticMessage);
+    this.emit(
+      "optimistic_message_added",
+      this.optimisticMessages.get(optimisticId)
+    );
 
     return optimisticId;
   }
@@ -474,21 +533,10 @@ export class OfflineMessagingService extends EventEmitter {
   ): void {
     const optimisticMessage = this.optimisticMessages.get(optimisticId);
 
-    if (optimisticMessage) {
-      this.optimisticMessages.delete(optimisticId);
-
-      // Update cache
-      if (this.options.cacheMessages) {
-        // Remove optimistic message and add actual message
-        messageCache.removeMessage(
-          optimisticMessage.conversationId,
-          optimisticId
-        );
-        messageCache.addMessages(optimisticMessage.conversationId, [
-          actualMessage,
-        ]);
-      }
+    // Reconciles by clientMessageId, also after an earlier rejection
+    this.optimisticMessages.confirmMessage(optimisticId, actualMessage);
 
+    if (optimisticMessage) {
       this.emit("optimistic_message_confirmed", {
         optimisticId,
         optimisticMessage,
@@ -507,16 +555,7 @@ export class OfflineMessagingService extends EventEmitter {
     const optimisticMessage = this.optimisticMessages.get(optimisticId);
 
     if (optimisticMessage) {
-      this.optimisticMessages.delete(optimisticId);
-
-      // Update message status in cache
-      if (this.options.cacheMessages) {
-        messageCache.updateMessage(
-          optimisticMessage.conversationId,
-          optimisticId,
-          { status: "failed" }
-        );
-      }
+      this.optimisticMessages.rejectMessage(optimisticId, error);
 
       this.emit("optimistic_message_rejected", {
         optimisticId,
@@ -535,9 +574,11 @@ export class OfflineMessagingService extends EventEmitter {
     attempts: number
   ): void {
     // Find and confirm optimistic message
-    const optimisticId = Array.from(this.optimisticToActual.entries()).find(
-      ([, actualId]) => actualId === queueId
-    )?.[0];
+    const optimisticId =
+      Array.from(this.optimisticToActual.entries()).find(
+        ([, actualId]) => actualId === queueId
+      )?.[0] ||
+      (message ? this.optimisticMessages.findTempId(message) : undefined);
 
     if (optimisticId) {
       this.confirmOptimisticMessage(optimisticId, message);
@@ -566,9 +607,9 @@ export class OfflineMessagingService extends EventEmitter {
       ([, actualId]) => actualId === queueId
     )?.[0];
 
+    // Keep the mapping: the failed job stays in the outbox for retry
     if (optimisticId) {
       this.rejectOptimisticMessage(optimisticId, error);
-      this.optimisticToActual.delete(optimisticId);
     }
 
     this.emit("queued_message_failed", {
@@ -693,7 +734,14 @@ export class OfflineMessagingService extends EventEmitter {
    */
   destroy(): void {
     if (this.offlineQueue) {
-      this.offlineQueue.destroy();
+      if (this.offlineQueue === this.sharedOutbox) {
+        this.queueListeners.forEach(([event, listener]) =>
+          this.offlineQueue!.off(event, listener)
+        );
+      } else {
+        this.offlineQueue.destroy();
+      }
+      this.queueListeners = [];
       this.offlineQueue = null;
     }
 
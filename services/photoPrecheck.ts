@@ -0,0 +1,302 @@
+import { Dimensions, PixelRatio } from "react-native";
+import type {
+  PhotoPrecheckMetadata,
+  PhotoPrecheckVerdict,
+} from "../types/image";
+
+export interface PhotoPrecheckInput {
+  uri: string;
+  width?: number;
+  height?: number;
+  mimeType?: string;
+  fileName?: string;
+}
+
+/**
+ * What an engine could tell about a photo. Anything left undefined wasn't
+ * measured, and rules that need it are skipped rather than failed.
+ */
+export interface PhotoSignals {
+  faceCount?: number;
+  largestFaceRatio?: number; // share of the image covered by the biggest face, 0..1
+  textCoverage?: number; // share of the image covered by text, 0..1
+  isScreenshot?: boolean;
+}
+
+/**
+ * Looks at a photo on the device and reports signals for the rules.
+ * Rejects when the analysis itself failed.
+ */
+export interface PhotoAnalysisEngine {
+  readonly id: string;
+  analyze(input: PhotoPrecheckInput): Promise<PhotoSignals>;
+}
+
+export type PhotoRuleSeverity = "block" | "warn";
+
+export interface PhotoRuleFinding {
+  message: string;
+  guidance: string;
+}
+
+export interface PhotoPrecheckRule {
+  readonly id: string;
+  readonly severity: PhotoRuleSeverity;
+  // Signals the rule reads; it's skipped when any of them is missing
+  readonly requires: (keyof PhotoSignals)[];
+  evaluate(signals: PhotoSignals): PhotoRuleFinding | null;
+}
+
+export interface PhotoRuleOutcome {
+  ruleId: string;
+  status: "passed" | "failed" | "skipped";
+  severity: PhotoRuleSeverity;
+  message?: string;
+  guidance?: string;
+}
+
+export interface PhotoPrecheckResult {
+  verdict: PhotoPrecheckVerdict;
+  engine: string;
+  outcomes: PhotoRuleOutcome[];
+  checkedAt: number;
+}
+
+// Text covering more than this reads as a poster, meme or screenshot
+export const HEAVY_TEXT_COVERAGE = 0.2;
+// Faces smaller than this are hard for reviewers to make out
+export const MIN_FACE_RATIO = 0.04;
+
+export const DEFAULT_PHOTO_RULES: PhotoPrecheckRule[] = [
+  {
+    id: "face_visible",
+    severity: "block",
+    requires: ["faceCount"],
+    evaluate: (signals) =>
+      signals.faceCount === 0
+        ? {
+            message: "We couldn't find a face in this photo",
+            guidance:
+              "Choose a photo where your face is clearly visible and not covered by sunglasses, masks or filters.",
+          }
+        : null,
+  },
+  {
+    id: "single_person",
+    severity: "block",
+    requires: ["faceCount"],
+    evaluate: (signals) =>
+      (signals.faceCount ?? 0) > 1
+        ? {
+            message: "There's more than one person in this photo",
+            guidance:
+              "Profile photos need to show only you. Crop out friends and family or pick a solo photo.",
+          }
+        : null,
+  },
+  {
+    id: "face_size",
+    severity: "warn",
+    requires: ["faceCount", "largestFaceRatio"],
+    evaluate: (signals) =>
+      signals.faceCount === 1 &&
+      (signals.largestFaceRatio ?? 0) < MIN_FACE_RATIO
+        ? {
+            message: "Your face is quite small in this photo",
+            guidance: "Crop closer or use a photo taken nearer to the camera.",
+          }
+        : null,
+  },
+  {
+    id: "not_screenshot",
+    severity: "block",
+    requires: ["isScreenshot"],
+    evaluate: (signals) =>
+      signals.isScreenshot
+        ? {
+            message: "This looks like a screenshot",
+            guidance:
+              "Upload the original photo from your camera roll instead of a screenshot of it.",
+          }
+        : null,
+  },
+  {
+    id: "text_coverage",
+    severity: "warn",
+    requires: ["textCoverage"],
+    evaluate: (signals) =>
+      (signals.textCoverage ?? 0) > HEAVY_TEXT_COVERAGE
+        ? {
+            message: "This photo has a lot of text on it",
+            guidance:
+              "Photos with captions, contact details or quotes are usually rejected. Use a photo without text.",
+          }
+        : null,
+  },
+];
+
+const SCREENSHOT_NAME = /screen[\s_-]?shot|screen[\s_-]?capture|scrnli/i;
+
+/**
+ * Cheap checks that work on every device without a vision model: flags
+ * screenshots by file name, or PNGs with exactly the screen's dimensions.
+ * Faces and text aren't measured, so those rules are skipped.
+ */
+export class HeuristicPhotoEngine implements PhotoAnalysisEngine {
+  readonly id = "heuristic";
+
+  constructor(
+    private getScreenSize: () => { width: number; height: number } = () => {
+      const screen = Dimensions.get("screen");
+      const scale = PixelRatio.get();
+      return {
+        width: Math.round(screen.width * scale),
+        height: Math.round(screen.height * scale),
+      };
+    }
+  ) {}
+
+  async analyze(input: PhotoPrecheckInput): Promise<PhotoSignals> {
+    const name = input.fileName || input.uri.split("/").pop() || "";
+    if (SCREENSHOT_NAME.test(name)) {
+      return { isScreenshot: true };
+    }
+
+    const isPng =
+      input.mimeType === "image/png" || /\.png$/i.test(name.split("?")[0]);
+    if (!isPng || !input.width || !input.height) {
+      return {};
+    }
+    const screen = this.getScreenSize();
+    const matches =
+      (input.width === screen.width && input.height === screen.height) ||
+      (input.width === screen.height && input.height === screen.width);
+    return { isScreenshot: matches };
+  }
+}
+
+/**
+ * Deterministic engine that answers from a table of signals keyed by uri.
+ * Used by tests and to preview the pre-check UI without a vision model.
+ */
+export class StaticPhotoEngine implements PhotoAnalysisEngine {
+  readonly id = "static";
+  private signals: Map<string, PhotoSignals>;
+
+  constructor(
+    signals: Record<string, PhotoSignals> = {},
+    private fallback: PhotoSignals = {}
+  ) {
+    this.signals = new Map(Object.entries(signals));
+  }
+
+  setSignals(uri: string, signals: PhotoSignals): void {
+    this.signals.set(uri, signals);
+  }
+
+  async analyze(input: PhotoPrecheckInput): Promise<PhotoSignals> {
+    return { ...(this.signals.get(input.uri) ?? this.fallback) };
+  }
+}
+
+export interface PhotoPrecheckOptions {
+  engine?: PhotoAnalysisEngine;
+  rules?: PhotoPrecheckRule[];
+}
+
+/**
+ * Runs profile photos past the moderation rules on the device, before
+ * they're uploaded, so photos that would obviously be rejected can be
+ * swapped straight away. The server still reviews every photo; a failed
+ * analysis only means the photo goes up unchecked.
+ */
+export class PhotoPrecheck {
+  private engine: PhotoAnalysisEngine;
+  private rules: PhotoPrecheckRule[];
+
+  constructor(options: PhotoPrecheckOptions = {}) {
+    this.engine = options.engine ?? new HeuristicPhotoEngine();
+    this.rules = options.rules ?? DEFAULT_PHOTO_RULES;
+  }
+
+  /**
+   * Swap in a different engine, e.g. an on-device face/text detector
+   */
+  setEngine(engine: PhotoAnalysisEngine): void {
+    this.engine = engine;
+  }
+
+  async run(input: PhotoPrecheckInput): Promise<PhotoPrecheckResult> {
+    const engine = this.engine;
+    let signals: PhotoSignals | null = null;
+    try {
+      signals = await engine.analyze(input);
+    } catch (error) {
+      console.error("PhotoPrecheck: Failed to analyze photo", error);
+    }
+
+    const outcomes = this.rules.map((rule): PhotoRuleOutcome => {
+      const measured =
+        signals && rule.requires.every((key) => signals![key] !== undefined);
+      if (!signals || !measured) {
+        return { ruleId: rule.id, status: "skipped", severity: rule.severity };
+      }
+      const finding = rule.evaluate(signals);
+      return finding
+        ? {
+            ruleId: rule.id,
+            status: "failed",
+            severity: rule.severity,
+            ...finding,
+          }
+        : { ruleId: rule.id, status: "passed", severity: rule.severity };
+    });
+
+    return {
+      verdict: getVerdict(outcomes),
+      engine: engine.id,
+      outcomes,
+      checkedAt: Date.now(),
+    };
+  }
+}
+
+function getVerdict(outcomes: PhotoRuleOutcome[]): PhotoPrecheckVerdict {
+  const failed = outcomes.filter((o) => o.status === "failed");
+  if (failed.some((o) => o.severity === "block")) return "block";
+  if (failed.length > 0) return "warn";
+  return outcomes.some((o) => o.status === "passed") ? "clear" : "unchecked";
+}
+
+/**
+ * The failed rules, blocking ones first, for showing to the user
+ */
+export function getPrecheckIssues(
+  result: PhotoPrecheckResult
+): PhotoRuleOutcome[] {
+  return result.outcomes
+    .filter((o) => o.status === "failed")
+    .sort(
+      (a, b) =>
+        (a.severity === "block" ? 0 : 1) - (b.severity === "block" ? 0 : 1)
+    );
+}
+
+/**
+ * Compact record of the pre-check for the upload metadata. `overridden`
+ * marks photos the user chose to upload despite warnings.
+ */
+export function toPrecheckMetadata(
+  result: PhotoPrecheckResult,
+  overridden = false
+): PhotoPrecheckMetadata {
+  return {
+    verdict: result.verdict,
+    engine: result.engine,
+    checkedAt: result.checkedAt,
+    overridden,
+    rules: Object.fromEntries(result.outcomes.map((o) => [o.ruleId, o.status])),
+  };
+}
+
+export const photoPrecheck = new PhotoPrecheck();
@@ -0,0 +1,415 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import EventEmitter from "eventemitter3";
+import { apiClient } from "../utils/api";
+import type { ApiResponse } from "../types/profile";
+import type {
+  PresencePrivacy,
+  PresenceSnapshot,
+  UserPresence,
+} from "../types/presence";
+import type { PresenceStatus } from "../types/realtime";
+
+export interface PresenceServiceOptions {
+  storageKey?: string;
+  batchDelay?: number; // collect subscriptions this long before fetching
+  refreshInterval?: number; // re-fetch everything subscribed, in milliseconds
+  heartbeatInterval?: number;
+  maxBatchSize?: number;
+  fetchPresence?: (
+    userIds: string[]
+  ) => Promise<ApiResponse<Record<string, PresenceSnapshot>>>;
+  sendHeartbeat?: () => Promise<unknown>;
+  fetchPrivacy?: () => Promise<ApiResponse<PresencePrivacy>>;
+  savePrivacy?: (privacy: PresencePrivacy) => Promise<ApiResponse<unknown>>;
+}
+
+const DEFAULT_PRIVACY: PresencePrivacy = { showLastSeen: true };
+
+// Cached copy; synced is false while the server hasn't got a change yet
+type StoredPrivacy = Partial<PresencePrivacy> & { synced?: boolean };
+
+/**
+ * Presence for every user currently on screen. Screens subscribe to the
+ * users they show; subscriptions made close together are fetched in one
+ * batch and kept fresh by polling plus realtime presence events.
+ *
+ * Hiding last seen is reciprocal: while our own last seen is hidden, other
+ * users' last seen is hidden from us too. The server enforces this once it
+ * has the setting; hiding it here as well only keeps the display right
+ * until the change reaches the server. The setting belongs to the signed-in
+ * user: it's read from the server on sign-in and cached per user only to
+ * carry a change the server hasn't received yet.
+ */
+export class PresenceService extends EventEmitter {
+  private options: Required<PresenceServiceOptions>;
+  private snapshots = new Map<string, PresenceSnapshot & { at: number }>();
+  private subscribers = new Map<string, number>();
+  private queued = new Set<string>();
+  private batchTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private privacy: PresencePrivacy = { ...DEFAULT_PRIVACY };
+  // Whether the server has the current privacy setting
+  private privacySynced = true;
+  private userId: string | null = null;
+  private loaded: Promise<void> = Promise.resolve();
+
+  constructor(options: PresenceServiceOptions = {}) {
+    super();
+    this.options = {
+      storageKey: options.storageKey ?? "presence_privacy",
+      batchDelay: options.batchDelay ?? 50,
+      refreshInterval: options.refreshInterval ?? 30000,
+      heartbeatInterval: options.heartbeatInterval ?? 30000,
+      maxBatchSize: options.maxBatchSize ?? 100,
+      fetchPresence:
+        options.fetchPresence ??
+        ((userIds) => apiClient.getPresenceBatch(userIds)),
+      sendHeartbeat: options.sendHeartbeat ?? (() => apiClient.heartbeat()),
+      fetchPrivacy:
+        options.fetchPrivacy ?? (() => apiClient.getPresencePrivacy()),
+      savePrivacy:
+        options.savePrivacy ??
+        ((privacy) => apiClient.updatePresencePrivacy(privacy)),
+    };
+  }
+
+  /**
+   * Load the signed-in user's privacy setting
+   */
+  setUser(userId: string | null): Promise<void> {
+    if (this.userId !== userId) {
+      this.userId = userId;
+      this.privacy = { ...DEFAULT_PRIVACY };
+      this.privacySynced = true;
+      this.loaded = userId ? this.loadPrivacy(userId) : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Watch these users until the returned function is called. Safe to call
+   * repeatedly for the same user; each call needs its own unsubscribe.
+   */
+  subscribe(userIds: string[]): () => void {
+    const ids = Array.from(new Set(userIds.filter(Boolean)));
+    for (const id of ids) {
+      const count = this.subscribers.get(id) || 0;
+      this.subscribers.set(id, count + 1);
+      if (count === 0 && !this.isFresh(id)) this.queued.add(id);
+    }
+    this.scheduleBatch();
+    this.updateTimers();
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      for (const id of ids) {
+        const count = (this.subscribers.get(id) || 1) - 1;
+        if (count > 0) {
+          this.subscribers.set(id, count);
+        } else {
+          this.subscribers.delete(id);
+          this.queued.delete(id);
+        }
+      }
+      this.updateTimers();
+    };
+  }
+
+  getPresence(userId: string): UserPresence | undefined {
+    const snapshot = this.snapshots.get(userId);
+    return snapshot ? this.toUserPresence(userId, snapshot) : undefined;
+  }
+
+  /**
+   * Apply a presence change pushed over the realtime connection
+   */
+  applyRealtimePresence(event: {
+    userId: string;
+    status: PresenceStatus;
+    lastSeen?: number;
+  }): void {
+    const previous = this.snapshots.get(event.userId);
+    // Events rarely carry lastSeen; keep it hidden if they hide it
+    let lastSeen = event.lastSeen ?? previous?.lastSeen;
+    if (event.lastSeen === undefined && lastSeen !== null) {
+      lastSeen = event.status === "online" ? lastSeen : Date.now();
+    }
+    this.update(event.userId, {
+      isOnline: event.status === "online",
+      status: event.status,
+      lastSeen,
+    });
+  }
+
+  getPrivacy(): PresencePrivacy {
+    return { ...this.privacy };
+  }
+
+  async setPrivacy(privacy: Partial<PresencePrivacy>): Promise<void> {
+    await this.loaded;
+    const next = { ...this.privacy, ...privacy };
+    if (next.showLastSeen === this.privacy.showLastSeen) return;
+
+    this.privacy = next;
+    this.privacySynced = false;
+    this.emitAll();
+    await this.savePrivacyLocally();
+    await this.syncPrivacy();
+  }
+
+  /**
+   * Fetch everything subscribed now instead of waiting for the next poll
+   */
+  async refresh(): Promise<void> {
+    Array.from(this.subscribers.keys()).forEach((id) => this.queued.add(id));
+    await this.flushBatch();
+  }
+
+  /**
+   * Stop polling and forget cached presence and the privacy setting, e.g.
+   * on logout
+   */
+  reset(): void {
+    this.clearTimers();
+    this.subscribers.clear();
+    this.queued.clear();
+    this.snapshots.clear();
+    const storageKey = this.privacyKey();
+    if (storageKey) {
+      AsyncStorage.removeItem(storageKey).catch((error) =>
+        console.error("PresenceService: Failed to clear privacy", error)
+      );
+    }
+    this.userId = null;
+    this.privacy = { ...DEFAULT_PRIVACY };
+    this.privacySynced = true;
+    this.loaded = Promise.resolve();
+  }
+
+  destroy(): void {
+    this.reset();
+    this.removeAllListeners();
+  }
+
+  private isFresh(userId: string): boolean {
+    const snapshot = this.snapshots.get(userId);
+    return (
+      !!snapshot && Date.now() - snapshot.at < this.options.refreshInterval
+    );
+  }
+
+  private scheduleBatch(): void {
+    if (this.batchTimer || this.queued.size === 0) return;
+    this.batchTimer = setTimeout(() => {
+      this.batchTimer = null;
+      this.flushBatch();
+    }, this.options.batchDelay);
+  }
+
+  private async flushBatch(): Promise<void> {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    const ids = Array.from(this.queued);
+    this.queued.clear();
+
+    for (let i = 0; i < ids.length; i += this.options.maxBatchSize) {
+      const batch = ids.slice(i, i + this.options.maxBatchSize);
+      try {
+        const res = await this.options.fetchPresence(batch);
+        if (!res.success || !res.data) continue;
+        for (const [userId, snapshot] of Object.entries(res.data)) {
+          if (snapshot) this.update(userId, snapshot);
+        }
+      } catch (error) {
+        console.error("PresenceService: Failed to fetch presence", error);
+      }
+    }
+  }
+
+  private update(userId: string, snapshot: PresenceSnapshot): void {
+    this.snapshots.set(userId, { ...snapshot, at: Date.now() });
+    this.emit("change", this.toUserPresence(userId, snapshot));
+  }
+
+  private toUserPresence(
+    userId: string,
+    snapshot: PresenceSnapshot & { at?: number }
+  ): UserPresence {
+    const lastSeen =
+      typeof snapshot.lastSeen === "number" && snapshot.lastSeen > 0
+        ? snapshot.lastSeen
+        : undefined;
+    // The server withholds lastSeen both ways; our own setting is checked
+    // again only so the display follows a change before the server has it
+    const hiddenByThem = snapshot.lastSeen === null;
+    const visible = this.privacy.showLastSeen && !hiddenByThem;
+
+    return {
+      userId,
+      isOnline: !!snapshot.isOnline,
+      status: snapshot.status ?? (snapshot.isOnline ? "online" : "offline"),
+      lastSeen: visible ? lastSeen : undefined,
+      lastSeenHidden: !visible,
+      updatedAt: snapshot.at ?? Date.now(),
+    };
+  }
+
+  private emitAll(): void {
+    for (const [userId, snapshot] of this.snapshots) {
+      this.emit("change", this.toUserPresence(userId, snapshot));
+    }
+  }
+
+  private updateTimers(): void {
+    if (this.subscribers.size === 0) {
+      this.clearTimers();
+      return;
+    }
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(
+        () => this.refresh(),
+        this.options.refreshInterval
+      );
+    }
+    // Someone is looking at presence, so we are online too
+    if (!this.heartbeatTimer) {
+      this.heartbeat();
+      this.heartbeatTimer = setInterval(
+        () => this.heartbeat(),
+        this.options.heartbeatInterval
+      );
+    }
+  }
+
+  private heartbeat(): void {
+    this.options.sendHeartbeat().catch((error) => {
+      console.warn("PresenceService: Heartbeat failed", error);
+    });
+    if (!this.privacySynced) {
+      this.syncPrivacy();
+    }
+  }
+
+  /**
+   * Send the privacy setting to the server, which is what actually keeps
+   * last seen hidden; retried with the heartbeat until it lands
+   */
+  private async syncPrivacy(): Promise<void> {
+    const privacy = { ...this.privacy };
+    try {
+      const res = await this.options.savePrivacy(privacy);
+      if (!res.success) throw new Error(res.error?.message);
+      if (privacy.showLastSeen !== this.privacy.showLastSeen) return;
+      this.privacySynced = true;
+      await this.savePrivacyLocally();
+    } catch (error) {
+      console.warn("PresenceService: Failed to sync privacy", error);
+    }
+  }
+
+  private privacyKey(): string | null {
+    return this.userId ? `${this.options.storageKey}_${this.userId}` : null;
+  }
+
+  private async savePrivacyLocally(): Promise<void> {
+    const storageKey = this.privacyKey();
+    if (!storageKey) return;
+    try {
+      await AsyncStorage.setItem(
+        storageKey,
+        JSON.stringify({ ...this.privacy, synced: this.privacySynced })
+      );
+    } catch (error) {
+      console.error("PresenceService: Failed to save privacy", error);
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * The server has the setting; the local copy only wins while it holds a
+   * change the server hasn't received, or when the server can't be reached
+   */
+  private async loadPrivacy(userId: string): Promise<void> {
+    let cached: StoredPrivacy | null = null;
+    try {
+      const stored = await AsyncStorage.getItem(
+        `${this.options.storageKey}_${userId}`
+      );
+      cached = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error("PresenceService: Failed to load privacy", error);
+    }
+
+    let showLastSeen = cached?.showLastSeen;
+    if (cached?.synced === false) {
+      this.privacySynced = false;
+    } else {
+      try {
+        const res = await this.options.fetchPrivacy();
+        if (res.success && res.data) showLastSeen = res.data.showLastSeen;
+      } catch (error) {
+        console.warn("PresenceService: Failed to fetch privacy", error);
+      }
+    }
+    // Signed out or switched accounts while loading
+    if (this.userId !== userId) return;
+
+    if (typeof showLastSeen === "boolean") {
+      const changed = showLastSeen !== this.privacy.showLastSeen;
+      this.privacy = { ...this.privacy, showLastSeen };
+      if (changed) this.emitAll();
+    }
+    await this.savePrivacyLocally();
+  }
+}
+
+/**
+ * "Online", "Last seen 5 minutes ago" and so on. Undefined when last seen
+ * is hidden, so nothing is shown rather than a misleading "Offline".
+ */
+export function formatLastSeen(
+  presence: UserPresence | undefined,
+  now: number = Date.now()
+): string | undefined {
+  if (!presence) return undefined;
+  if (presence.isOnline) return "Online";
+  if (presence.lastSeenHidden) return undefined;
+  if (!presence.lastSeen) return "Offline";
+
+  const minutes = Math.max(0, Math.floor((now - presence.lastSeen) / 60000));
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  const plural = (n: number, unit: string) =>
+    `${n} ${unit}${n === 1 ? "" : "s"} ago`;
+
+  if (minutes < 1) return "Last seen just now";
+  if (minutes < 60) return `Last seen ${plural(minutes, "minute")}`;
+  if (hours < 24) return `Last seen ${plural(hours, "hour")}`;
+  if (days === 1) return "Last seen yesterday";
+  if (days < 7) return `Last seen ${plural(days, "day")}`;
+  return `Last seen ${new Date(presence.lastSeen).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+  })}`;
+}
+
+export const presenceService = new PresenceService();
@@ -8,6 +8,8 @@ export type Plan = {
   priceId?: string;
   features?: string[];
   popular?: boolean;
+  // Present when the plan has a free trial; eligibility is per user
+  trial?: { days: number; eligible: boolean };
 };
 
 export type PlansResponse = {
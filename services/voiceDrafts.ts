@@ -0,0 +1,261 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import EventEmitter from "eventemitter3";
+import { MessagingApiAdapter } from "../src/utils/messagingApiAdapter";
+import { VoiceMessageStorage } from "./voiceMessageStorage";
+import {
+  VoiceClipTrimmer,
+  VoiceTrimRange,
+  getVoiceClipTrimmer,
+  isTrimmed,
+  normalizeTrim,
+  trimWaveform,
+} from "../utils/voiceTrim";
+
+export interface VoiceDraft {
+  conversationId: string;
+  uri: string;
+  duration: number; // in seconds, of the whole recording
+  waveform: number[];
+  mimeType?: string;
+  trim: VoiceTrimRange;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What's handed to the send path once a draft is sent
+export interface FinalizedVoiceClip {
+  uri: string;
+  duration: number;
+  waveform: number[];
+  mimeType?: string;
+}
+
+type VoiceDraftFiles = Pick<
+  VoiceMessageStorage,
+  | "saveDraftAudio"
+  | "draftAudioExists"
+  | "deleteDraftAudio"
+  | "releaseDraftAudio"
+  | "clearDraftAudio"
+>;
+
+export interface VoiceDraftStoreOptions {
+  storageKey?: string;
+  files?: VoiceDraftFiles;
+  trimmer?: VoiceClipTrimmer | null;
+}
+
+/**
+ * One unsent voice recording per conversation, reviewed before sending.
+ * The audio is copied into VoiceMessageStorage's drafts directory and the
+ * draft itself is kept in AsyncStorage, so both survive the app being
+ * killed. Emits "change" with { conversationId, draft }.
+ */
+export class VoiceDraftStore extends EventEmitter {
+  private drafts = new Map<string, VoiceDraft>();
+  private storageKey: string;
+  private files: VoiceDraftFiles | null;
+  private trimmer: VoiceClipTrimmer | null;
+  private loaded: Promise<void> | null = null;
+
+  constructor(options: VoiceDraftStoreOptions = {}) {
+    super();
+    this.storageKey = options.storageKey ?? "voice_drafts";
+    this.files = options.files ?? null;
+    this.trimmer =
+      options.trimmer !== undefined ? options.trimmer : getVoiceClipTrimmer();
+  }
+
+  /**
+   * Load drafts saved by earlier sessions, dropping any whose audio is gone
+   */
+  hydrate(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  getDraft(conversationId: string): VoiceDraft | undefined {
+    return this.drafts.get(conversationId);
+  }
+
+  /**
+   * Whether drafts can be trimmed on this platform
+   */
+  canTrim(): boolean {
+    return !!this.trimmer;
+  }
+
+  /**
+   * Keep a finished recording as the conversation's draft, replacing any
+   * earlier one
+   */
+  async saveDraft(
+    conversationId: string,
+    recording: {
+      uri: string;
+      duration: number;
+      waveform?: number[];
+      mimeType?: string;
+    }
+  ): Promise<VoiceDraft> {
+    await this.hydrate();
+
+    let uri = recording.uri;
+    try {
+      uri = await this.getFiles().saveDraftAudio(conversationId, recording.uri);
+    } catch (error) {
+      // Still reviewable this session, just not after a restart
+      console.error("VoiceDrafts: Failed to store draft audio", error);
+    }
+
+    const previous = this.drafts.get(conversationId);
+    if (previous && previous.uri !== uri) {
+      await this.getFiles().deleteDraftAudio(previous.uri);
+    }
+
+    const now = Date.now();
+    const draft: VoiceDraft = {
+      conversationId,
+      uri,
+      duration: recording.duration,
+      waveform: recording.waveform ?? [],
+      mimeType: recording.mimeType,
+      trim: normalizeTrim(undefined, recording.duration),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.set(conversationId, draft);
+    return draft;
+  }
+
+  updateTrim(
+    conversationId: string,
+    range: Partial<VoiceTrimRange>
+  ): VoiceDraft | undefined {
+    const draft = this.drafts.get(conversationId);
+    if (!draft) return undefined;
+
+    const updated: VoiceDraft = {
+      ...draft,
+      trim: normalizeTrim({ ...draft.trim, ...range }, draft.duration),
+      updatedAt: Date.now(),
+    };
+    this.set(conversationId, updated);
+    return updated;
+  }
+
+  async discardDraft(conversationId: string): Promise<void> {
+    const draft = this.drafts.get(conversationId);
+    if (!draft) return;
+    this.set(conversationId, undefined);
+    await this.getFiles().deleteDraftAudio(draft.uri);
+  }
+
+  /**
+   * Turn the draft into the clip to send: trimmed where that's supported,
+   * with its audio handed over to the upload. The draft is removed.
+   */
+  async finalizeDraft(
+    conversationId: string
+  ): Promise<FinalizedVoiceClip | null> {
+    await this.hydrate();
+    const draft = this.drafts.get(conversationId);
+    if (!draft) return null;
+
+    let clip: FinalizedVoiceClip = {
+      uri: draft.uri,
+      duration: draft.duration,
+      waveform: draft.waveform,
+      mimeType: draft.mimeType,
+    };
+
+    if (this.trimmer && isTrimmed(draft.trim, draft.duration)) {
+      try {
+        const trimmed = await this.trimmer.trim(draft.uri, draft.trim);
+        clip = {
+          uri: trimmed.uri,
+          duration: draft.trim.end - draft.trim.start,
+          waveform: trimWaveform(draft.waveform, draft.duration, draft.trim),
+          mimeType: trimmed.mimeType,
+        };
+      } catch (error) {
+        console.error("VoiceDrafts: Failed to trim draft", error);
+        throw new Error("Couldn't trim the recording");
+      }
+    }
+
+    this.set(conversationId, undefined);
+    if (clip.uri === draft.uri) {
+      clip.uri = await this.getFiles().releaseDraftAudio(draft.uri);
+    } else {
+      await this.getFiles().deleteDraftAudio(draft.uri);
+    }
+    return clip;
+  }
+
+  /**
+   * Forget every draft and its audio, e.g. on logout
+   */
+  async clear(): Promise<void> {
+    const conversationIds = Array.from(this.drafts.keys());
+    this.drafts.clear();
+    conversationIds.forEach((conversationId) =>
+      this.emit("change", { conversationId, draft: undefined })
+    );
+    await this.getFiles().clearDraftAudio();
+    try {
+      await AsyncStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.error("VoiceDrafts: Failed to clear drafts", error);
+    }
+  }
+
+  private getFiles(): VoiceDraftFiles {
+    if (!this.files) {
+      this.files = new VoiceMessageStorage(new MessagingApiAdapter());
+    }
+    return this.files;
+  }
+
+  private set(conversationId: string, draft: VoiceDraft | undefined): void {
+    if (draft) {
+      this.drafts.set(conversationId, draft);
+    } else {
+      this.drafts.delete(conversationId);
+    }
+    this.emit("change", { conversationId, draft });
+    this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        this.storageKey,
+        JSON.stringify(Object.fromEntries(this.drafts))
+      );
+    } catch (error) {
+      console.error("VoiceDrafts: Failed to save drafts", error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey);
+      if (!stored) return;
+      const parsed = JSON.parse(stored) as Record<string, VoiceDraft>;
+      for (const [conversationId, draft] of Object.entries(parsed)) {
+        // Anything newer from this session wins
+        if (this.drafts.has(conversationId)) continue;
+        if (await this.getFiles().draftAudioExists(draft.uri)) {
+          this.drafts.set(conversationId, draft);
+        }
+      }
+    } catch (error) {
+      console.error("VoiceDrafts: Failed to load drafts", error);
+    }
+  }
+}
+
+export const voiceDraftStore = new VoiceDraftStore();
@@ -3,6 +3,7 @@ import { ApiResponse } from "../types/profile";
 import { MessagingAPI } from "../types/messaging";
 import { getFileSize, getMimeTypeFromUri } from "@utils/fileUtils";
 import { VoiceMessageStorage } from "./voiceMessageStorage";
+import { voiceTranscriptionService } from "./voiceTranscription";
 
 /**
  * Service for managing voice message recording, uploading, and playback
@@ -33,6 +34,11 @@ export class VoiceMessageManager {
       peaks?: number[];
       mimeType?: string;
       fileSize?: number;
+      // Send the transcript with the message (delays the send until done)
+      transcribe?: boolean;
+      // The conversation is end-to-end encrypted: no server transcription
+      // and no plaintext transcript on the message
+      encrypted?: boolean;
     }
   ): {
     promise: Promise<ApiResponse<any>>;
@@ -49,6 +55,10 @@ export class VoiceMessageManager {
       if (!uploadResult.success || !uploadResult.data)
         return uploadResult as any;
       const { storageId } = uploadResult.data;
+      const transcript =
+        options?.transcribe && !options.encrypted
+          ? await this.transcribe(storageId, audioUri, duration)
+          : {};
 
       return this.apiClient.sendMessage({
         conversationId,
@@ -57,10 +67,11 @@ export class VoiceMessageManager {
         type: "voice",
         audioStorageId: storageId,
         duration,
+        ...transcript,
         fileSize: options?.fileSize,
         mimeType: options?.mimeType || "audio/m4a",
         ...(Array.isArray(options?.peaks) && options?.peaks.length
-          ? { peaks: options?.peaks }
+          ? { voiceWaveform: options?.peaks }
           : {}),
       });
     })();
@@ -80,6 +91,8 @@ export class VoiceMessageManager {
     options?: {
       onProgress?: (progress: number) => void;
       peaks?: number[];
+      transcribe?: boolean;
+      encrypted?: boolean;
     }
   ): Promise<ApiResponse<any>> {
     try {
@@ -116,6 +129,10 @@ export class VoiceMessageManager {
       }
 
       const { storageId } = uploadResult.data;
+      const transcript =
+        options?.transcribe && !options.encrypted
+          ? await this.transcribe(storageId, audioUri, duration)
+          : {};
 
       // Send the message with the storage ID
       return this.apiClient.sendMessage({
@@ -125,11 +142,12 @@ export class VoiceMessageManager {
         type: "voice",
         audioStorageId: storageId,
         duration,
+        ...transcript,
         fileSize,
         mimeType,
         // pass through peaks if available so server can store for clients
         ...(Array.isArray(options?.peaks) && options?.peaks.length
-          ? { peaks: options?.peaks }
+          ? { voiceWaveform: options?.peaks }
           : {}),
       });
     } catch (error) {
@@ -148,6 +166,25 @@ export class VoiceMessageManager {
     }
   }
 
+  /**
+   * Transcript fields for sendMessage; empty when the clip couldn't be
+   * transcribed, so the send goes ahead without one
+   */
+  private async transcribe(
+    storageId: string,
+    audioUri: string,
+    duration: number
+  ): Promise<{ transcript?: string; transcriptLanguage?: string }> {
+    const stored = await voiceTranscriptionService.transcribe({
+      storageId,
+      audioUri,
+      duration,
+    });
+    return stored.status === "completed"
+      ? { transcript: stored.text, transcriptLanguage: stored.language }
+      : {};
+  }
+
   /**
    * Gets the URL for a voice message
    */
@@ -5,16 +5,21 @@ import { MessagingAPI } from "../types/messaging";
 import { UnifiedResponseSystem } from "@utils/unifiedResponseSystem";
 import { uriToBlob } from "@utils/fileUtils";
 
+// Voice drafts live under the cache directory but outlast cache cleanup
+const DRAFTS_DIRECTORY = "drafts";
+
 /**
  * Service for managing voice message storage and uploads
  */
 export class VoiceMessageStorage {
   private api: MessagingAPI;
   private cacheDirectory: string;
+  private draftDirectory: string;
 
   constructor(api: MessagingAPI) {
     this.api = api;
     this.cacheDirectory = `${FileSystem.cacheDirectory}voice-messages/`;
+    this.draftDirectory = `${this.cacheDirectory}${DRAFTS_DIRECTORY}/`;
     this.ensureCacheDirectoryExists();
   }
 
@@ -391,14 +396,90 @@ export class VoiceMessageStorage {
   }
 
   /**
-   * Clears cached voice messages
+   * Copies a finished recording into the drafts directory so it survives
+   * until it's sent or discarded. Web recordings are blob URLs and stay as
+   * they are.
+   */
+  async saveDraftAudio(
+    conversationId: string,
+    sourceUri: string
+  ): Promise<string> {
+    if (Platform.OS === "web") return sourceUri;
+
+    const dirInfo = await FileSystem.getInfoAsync(this.draftDirectory);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(this.draftDirectory, {
+        intermediates: true,
+      });
+    }
+    const extension = sourceUri.match(/\.(\w+)$/)?.[1] || "m4a";
+    const safeId = conversationId.replace(/[^\w-]/g, "_");
+    const fileName = `${safeId}-${Date.now()}.${extension}`;
+    const draftUri = `${this.draftDirectory}${fileName}`;
+    await FileSystem.copyAsync({ from: sourceUri, to: draftUri });
+    return draftUri;
+  }
+
+  async draftAudioExists(uri: string): Promise<boolean> {
+    // Blob URLs don't outlive the page they were made in
+    if (Platform.OS === "web") return !uri.startsWith("blob:");
+    try {
+      const info = await FileSystem.getInfoAsync(uri);
+      return info.exists;
+    } catch {
+      return false;
+    }
+  }
+
+  async deleteDraftAudio(uri: string): Promise<void> {
+    if (!uri.startsWith(this.draftDirectory)) return;
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    } catch (error) {
+      console.error("Failed to delete voice draft:", error);
+    }
+  }
+
+  /**
+   * Moves a draft being sent back into the regular cache, where it's cleaned
+   * up with everything else once the upload no longer needs it
+   */
+  async releaseDraftAudio(uri: string): Promise<string> {
+    if (!uri.startsWith(this.draftDirectory)) return uri;
+    const releasedUri = `${this.cacheDirectory}${uri.slice(
+      this.draftDirectory.length
+    )}`;
+    try {
+      await FileSystem.moveAsync({ from: uri, to: releasedUri });
+      return releasedUri;
+    } catch (error) {
+      console.error("Failed to release voice draft:", error);
+      return uri;
+    }
+  }
+
+  async clearDraftAudio(): Promise<void> {
+    try {
+      await FileSystem.deleteAsync(this.draftDirectory, { idempotent: true });
+    } catch (error) {
+      console.error("Failed to clear voice drafts:", error);
+    }
+  }
+
+  /**
+   * Clears cached voice messages; drafts are kept
    */
   async clearCache(): Promise<void> {
     try {
       const dirInfo = await FileSystem.getInfoAsync(this.cacheDirectory);
       if (dirInfo.exists) {
-        await FileSystem.deleteAsync(this.cacheDirectory, { idempotent: true });
-        await this.ensureCacheDirectoryExists();
+        const files = await FileSystem.readDirectoryAsync(this.cacheDirectory);
+        for (const file of files) {
+          if (file === DRAFTS_DIRECTORY) continue;
+          await FileSystem.deleteAsync(`${this.cacheDirectory}${file}`, {
+            idempotent: true,
+          });
+        }
       }
     } catch (error) {
       console.error("Failed to clear voice message cache:", error);
@@ -449,6 +530,7 @@ export class VoiceMessageStorage {
       const now = Date.now();
 
       for (const file of files) {
+        if (file === DRAFTS_DIRECTORY) continue;
         const filePath = `${this.cacheDirectory}${file}`;
         const fileInfo = await FileSystem.getInfoAsync(filePath);
 
@@ -0,0 +1,488 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import EventEmitter from "eventemitter3";
+import { createAudioPlayer } from "expo-audio";
+import { apiClient } from "../utils/api";
+import { messageCache } from "../utils/MessageCache";
+import { MessagingApiAdapter } from "../src/utils/messagingApiAdapter";
+import { VoiceMessageManager } from "./voiceMessageManager";
+import type { Message } from "../types/message";
+
+export type VoicePlaybackRate = 1 | 1.5 | 2;
+
+export const VOICE_PLAYBACK_RATES: VoicePlaybackRate[] = [1, 1.5, 2];
+
+export interface VoiceQueueItem {
+  messageId: string;
+  conversationId: string;
+  storageId?: string;
+  uri?: string; // local or already resolved audio
+  duration?: number; // in seconds
+  isOwn?: boolean;
+  listened?: boolean;
+  // Played next when this one finishes, if it's still unlistened
+  nextMessageId?: string;
+  title?: string; // shown on the lock screen
+}
+
+export interface VoicePlaybackState {
+  current: VoiceQueueItem | null;
+  isPlaying: boolean;
+  isLoading: boolean;
+  position: number; // in seconds
+  duration: number; // in seconds
+  rate: VoicePlaybackRate;
+  error: string | null;
+}
+
+interface PlayerStatus {
+  currentTime: number;
+  duration: number;
+  playing: boolean;
+  didJustFinish: boolean;
+}
+
+/**
+ * The parts of an expo-audio player the controller uses.
+ * setActiveForLockScreen is only present on expo-audio builds with
+ * lock-screen support.
+ */
+export interface VoicePlayerHandle {
+  play(): void;
+  pause(): void;
+  seekTo(seconds: number): Promise<void> | void;
+  setPlaybackRate(rate: number): void;
+  remove(): void;
+  addListener(
+    event: "playbackStatusUpdate",
+    listener: (status: PlayerStatus) => void
+  ): { remove(): void };
+  setActiveForLockScreen?(
+    active: boolean,
+    metadata?: { title?: string; artist?: string }
+  ): void;
+}
+
+export interface VoicePlaybackControllerOptions {
+  storageKey?: string;
+  maxSavedPositions?: number;
+  createPlayer?: (uri: string) => VoicePlayerHandle;
+  // Turns a storage id into something playable
+  resolveUri?: (storageId: string) => Promise<string | null>;
+  // Sends the listened receipt once a note has played to the end
+  sendListenedReceipt?: (item: VoiceQueueItem) => Promise<unknown>;
+  messageCache?: {
+    updateMessage(
+      conversationId: string,
+      messageId: string,
+      updates: Partial<Message>
+    ): boolean;
+  };
+}
+
+// Positions this close to the end start the clip over instead
+const RESTART_THRESHOLD_SECONDS = 1;
+const POSITION_SAVE_INTERVAL_MS = 5000;
+
+/**
+ * Voice notes of a conversation as a queue, oldest first. Each incoming note
+ * points at the next message when that one is an unlistened incoming note
+ * too, so a run of unread notes plays through without tapping each one.
+ */
+export function buildVoiceQueue(
+  messages: Message[],
+  currentUserId: string
+): VoiceQueueItem[] {
+  const sorted = [...messages].sort((a, b) => a.createdAt - b.createdAt);
+  const items: VoiceQueueItem[] = [];
+
+  sorted.forEach((message, index) => {
+    if (message.type !== "voice" || message.deletedAt) return;
+    if (!message.audioStorageId) return;
+
+    const next = sorted[index + 1];
+    const isOwn = message.fromUserId === currentUserId;
+    items.push({
+      messageId: message._id,
+      conversationId: message.conversationId,
+      storageId: message.audioStorageId,
+      duration: message.duration,
+      isOwn,
+      listened: isOwn || !!message.listenedAt,
+      nextMessageId:
+        next &&
+        next.type === "voice" &&
+        !next.deletedAt &&
+        next.fromUserId !== currentUserId &&
+        !next.listenedAt
+          ? next._id
+          : undefined,
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Plays voice notes one at a time across the whole app. Keeps a queue per
+ * conversation, remembers where each note was paused, applies the chosen
+ * speed to every note and marks incoming notes as listened when they finish.
+ * Emits "change" with the current state and "listened" with the item.
+ */
+export class VoicePlaybackController extends EventEmitter {
+  private options: Required<
+    Omit<VoicePlaybackControllerOptions, "createPlayer" | "resolveUri">
+  >;
+  private createPlayer: (uri: string) => VoicePlayerHandle;
+  private resolveUri: (storageId: string) => Promise<string | null>;
+  private playlists = new Map<string, Map<string, VoiceQueueItem>>();
+  private positions = new Map<string, number>();
+  private player: VoicePlayerHandle | null = null;
+  private subscription: { remove(): void } | null = null;
+  private lastSavedAt = 0;
+  private loadId = 0;
+  private loaded: Promise<void> | null = null;
+  private state: VoicePlaybackState = {
+    current: null,
+    isPlaying: false,
+    isLoading: false,
+    position: 0,
+    duration: 0,
+    rate: 1,
+    error: null,
+  };
+
+  constructor(options: VoicePlaybackControllerOptions = {}) {
+    super();
+    this.createPlayer =
+      options.createPlayer ??
+      ((uri) =>
+        createAudioPlayer(
+          { uri },
+          { updateInterval: 250 }
+        ) as unknown as VoicePlayerHandle);
+    this.resolveUri =
+      options.resolveUri ??
+      ((storageId) =>
+        new VoiceMessageManager(new MessagingApiAdapter()).playVoiceMessage(
+          storageId
+        ));
+    this.options = {
+      storageKey: options.storageKey ?? "voice_playback",
+      maxSavedPositions: options.maxSavedPositions ?? 200,
+      sendListenedReceipt:
+        options.sendListenedReceipt ??
+        ((item) => apiClient.markVoiceMessageListened(item.messageId)),
+      messageCache: options.messageCache ?? messageCache,
+    };
+  }
+
+  /**
+   * Load the speed and saved positions from earlier sessions
+   */
+  hydrate(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  getState(): VoicePlaybackState {
+    return this.state;
+  }
+
+  getSavedPosition(messageId: string): number {
+    return this.positions.get(messageId) ?? 0;
+  }
+
+  /**
+   * Replace the queue for a conversation, e.g. whenever its messages change
+   */
+  setPlaylist(conversationId: string, items: VoiceQueueItem[]): void {
+    this.playlists.set(
+      conversationId,
+      new Map(items.map((item) => [item.messageId, item]))
+    );
+
+    // Keep what's playing in step with the latest message data
+    const current = this.state.current;
+    if (current?.conversationId === conversationId) {
+      const updated = this.playlists
+        .get(conversationId)
+        ?.get(current.messageId);
+      if (updated) this.update({ current: { ...current, ...updated } });
+    }
+  }
+
+  clearPlaylist(conversationId: string): void {
+    this.playlists.delete(conversationId);
+  }
+
+  isCurrent(messageId: string): boolean {
+    return this.state.current?.messageId === messageId;
+  }
+
+  /**
+   * Play a note from where it was left off; resumes it if it's the one
+   * already loaded. Queue details come from the conversation's playlist.
+   */
+  async play(requested: VoiceQueueItem): Promise<void> {
+    await this.hydrate();
+    const item: VoiceQueueItem = {
+      ...requested,
+      ...this.playlists.get(requested.conversationId)?.get(requested.messageId),
+    };
+
+    if (this.player && this.isCurrent(item.messageId)) {
+      this.player.play();
+      this.update({ isPlaying: true });
+      return;
+    }
+
+    this.release();
+    const loadId = ++this.loadId;
+    this.update({
+      current: item,
+      isPlaying: false,
+      isLoading: true,
+      position: this.getSavedPosition(item.messageId),
+      duration: item.duration ?? 0,
+      error: null,
+    });
+
+    try {
+      const uri =
+        item.uri ??
+        (item.storageId ? await this.resolveUri(item.storageId) : null);
+      // Another note was picked while this one loaded
+      if (loadId !== this.loadId) return;
+      if (!uri) throw new Error("Failed to load audio");
+
+      const player = this.createPlayer(uri);
+      this.player = player;
+      this.subscription = player.addListener("playbackStatusUpdate", (status) =>
+        this.handleStatus(item.messageId, status)
+      );
+      player.setPlaybackRate(this.state.rate);
+
+      const saved = this.getSavedPosition(item.messageId);
+      const duration = item.duration ?? 0;
+      if (
+        saved > 0 &&
+        (!duration || saved < duration - RESTART_THRESHOLD_SECONDS)
+      ) {
+        await player.seekTo(saved);
+      }
+
+      player.play();
+      player.setActiveForLockScreen?.(true, {
+        title: item.title ?? "Voice message",
+        artist: "Aroosi",
+      });
+      this.update({ isPlaying: true, isLoading: false });
+    } catch (error) {
+      if (loadId !== this.loadId) return;
+      console.error("VoicePlayback: Failed to play voice message", error);
+      this.release();
+      this.update({
+        isPlaying: false,
+        isLoading: false,
+        error: error instanceof Error ? error.message : "Failed to play audio",
+      });
+    }
+  }
+
+  pause(): void {
+    if (!this.player || !this.state.isPlaying) return;
+    this.player.pause();
+    this.update({ isPlaying: false });
+    this.persist();
+  }
+
+  toggle(item: VoiceQueueItem): Promise<void> {
+    if (this.isCurrent(item.messageId) && this.state.isPlaying) {
+      this.pause();
+      return Promise.resolve();
+    }
+    return this.play(item);
+  }
+
+  /**
+   * Stop and unload; the position is kept for next time
+   */
+  stop(): void {
+    this.loadId++;
+    this.release();
+    this.update({
+      current: null,
+      isPlaying: false,
+      isLoading: false,
+      position: 0,
+      duration: 0,
+    });
+    this.persist();
+  }
+
+  async seek(seconds: number): Promise<void> {
+    const current = this.state.current;
+    if (!current) return;
+    const position = Math.max(0, seconds);
+    this.positions.set(current.messageId, position);
+    this.update({ position });
+    await this.player?.seekTo(position);
+  }
+
+  setRate(rate: VoicePlaybackRate): void {
+    this.player?.setPlaybackRate(rate);
+    this.update({ rate });
+    this.persist();
+  }
+
+  /**
+   * Step through 1x, 1.5x and 2x
+   */
+  cycleRate(): VoicePlaybackRate {
+    const index = VOICE_PLAYBACK_RATES.indexOf(this.state.rate);
+    const rate =
+      VOICE_PLAYBACK_RATES[(index + 1) % VOICE_PLAYBACK_RATES.length];
+    this.setRate(rate);
+    return rate;
+  }
+
+  /**
+   * Forget playback state, e.g. on logout
+   */
+  async clear(): Promise<void> {
+    this.stop();
+    this.playlists.clear();
+    this.positions.clear();
+    this.update({ rate: 1, error: null });
+    try {
+      await AsyncStorage.removeItem(this.options.storageKey);
+    } catch (error) {
+      console.error("VoicePlayback: Failed to clear playback state", error);
+    }
+  }
+
+  private handleStatus(messageId: string, status: PlayerStatus): void {
+    const current = this.state.current;
+    if (!current || current.messageId !== messageId) return;
+
+    if (status.didJustFinish) {
+      this.finish(current);
+      return;
+    }
+
+    this.positions.set(messageId, status.currentTime);
+    this.update({
+      position: status.currentTime,
+      duration: status.duration || this.state.duration,
+      isPlaying: status.playing,
+    });
+
+    if (Date.now() - this.lastSavedAt > POSITION_SAVE_INTERVAL_MS) {
+      this.persist();
+    }
+  }
+
+  private finish(item: VoiceQueueItem): void {
+    this.positions.delete(item.messageId);
+
+    const playlist = this.playlists.get(item.conversationId);
+    if (!item.isOwn && !item.listened) {
+      this.markListened(item);
+    }
+
+    const next = item.nextMessageId
+      ? playlist?.get(item.nextMessageId)
+      : undefined;
+    if (next && !next.listened && !next.isOwn) {
+      this.play(next);
+      return;
+    }
+
+    this.release();
+    this.update({
+      current: null,
+      isPlaying: false,
+      position: 0,
+      duration: 0,
+    });
+    this.persist();
+  }
+
+  private markListened(item: VoiceQueueItem): void {
+    const listenedAt = Date.now();
+    const playlist = this.playlists.get(item.conversationId);
+    playlist?.set(item.messageId, { ...item, listened: true });
+
+    this.options.messageCache.updateMessage(
+      item.conversationId,
+      item.messageId,
+      { listenedAt }
+    );
+    this.emit("listened", { ...item, listened: true, listenedAt });
+
+    this.options.sendListenedReceipt(item).catch((error) => {
+      console.error("VoicePlayback: Failed to send listened receipt", error);
+    });
+  }
+
+  private release(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+    if (this.player) {
+      this.player.setActiveForLockScreen?.(false);
+      this.player.remove();
+      this.player = null;
+    }
+  }
+
+  private update(changes: Partial<VoicePlaybackState>): void {
+    this.state = { ...this.state, ...changes };
+    this.emit("change", this.state);
+  }
+
+  private async persist(): Promise<void> {
+    this.lastSavedAt = Date.now();
+    const positions = Array.from(this.positions.entries())
+      .filter(([, seconds]) => seconds > 0)
+      .slice(-this.options.maxSavedPositions);
+    try {
+      await AsyncStorage.setItem(
+        this.options.storageKey,
+        JSON.stringify({
+          rate: this.state.rate,
+          positions: Object.fromEntries(positions),
+        })
+      );
+    } catch (error) {
+      console.error("VoicePlayback: Failed to save playback state", error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.options.storageKey);
+      if (!stored) return;
+      const parsed = JSON.parse(stored) as {
+        rate?: number;
+        positions?: Record<string, number>;
+      };
+      if (VOICE_PLAYBACK_RATES.includes(parsed.rate as VoicePlaybackRate)) {
+        this.update({ rate: parsed.rate as VoicePlaybackRate });
+      }
+      for (const [messageId, seconds] of Object.entries(
+        parsed.positions ?? {}
+      )) {
+        // Anything newer from this session wins
+        if (!this.positions.has(messageId)) {
+          this.positions.set(messageId, seconds);
+        }
+      }
+    } catch (error) {
+      console.error("VoicePlayback: Failed to load playback state", error);
+    }
+  }
+}
+
+export const voicePlaybackController = new VoicePlaybackController();
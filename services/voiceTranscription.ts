@@ -0,0 +1,299 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import EventEmitter from "eventemitter3";
+import { apiClient } from "../utils/api";
+import { messageCache } from "../utils/MessageCache";
+import type { Message, VoiceTranscriptStatus } from "../types/message";
+import type { MessagingAPI } from "../types/messaging";
+
+export interface TranscriptionRequest {
+  storageId: string;
+  audioUri?: string; // local recording, for engines that run on the device
+  mimeType?: string;
+  duration?: number; // in seconds
+  language?: string; // BCP 47 hint, e.g. "en" or "ur"
+  // End-to-end encrypted: the server only holds ciphertext and must not
+  // be sent the audio
+  encrypted?: boolean;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+}
+
+/**
+ * Turns a voice message into text. Resolves null when the audio can't be
+ * transcribed (no speech, unsupported language); rejects when the attempt
+ * itself failed and is worth retrying.
+ */
+export interface TranscriptionEngine {
+  readonly id: string;
+  transcribe(
+    request: TranscriptionRequest
+  ): Promise<TranscriptionResult | null>;
+}
+
+export interface StoredTranscript {
+  status: VoiceTranscriptStatus;
+  text?: string;
+  language?: string;
+  engine?: string;
+  updatedAt: number;
+}
+
+export interface VoiceTranscriptionServiceOptions {
+  engine?: TranscriptionEngine;
+  storageKey?: string;
+  maxEntries?: number;
+  // Transcripts are written onto cached messages so search picks them up
+  messageCache?: {
+    updateMessage(
+      conversationId: string,
+      messageId: string,
+      updates: Partial<Message>
+    ): boolean;
+  };
+}
+
+/**
+ * Transcribes on the server, next to the stored audio. Never used for
+ * end-to-end encrypted messages.
+ */
+export class ServerTranscriptionEngine implements TranscriptionEngine {
+  readonly id = "server";
+
+  constructor(
+    private api: Pick<MessagingAPI, "transcribeVoiceMessage"> = apiClient
+  ) {}
+
+  async transcribe(
+    request: TranscriptionRequest
+  ): Promise<TranscriptionResult | null> {
+    if (!this.api.transcribeVoiceMessage || request.encrypted) return null;
+
+    const res = await this.api.transcribeVoiceMessage(request.storageId, {
+      language: request.language,
+    });
+    if (res.success && res.data) {
+      return res.data.text?.trim() ? res.data : null;
+    }
+    const code = res.error?.code;
+    if (code === "HTTP_404" || code === "NOT_FOUND") return null;
+    throw new Error(res.error?.message || "Failed to transcribe voice message");
+  }
+}
+
+/**
+ * Local stand-in that never touches the network: answers from a table of
+ * transcripts keyed by storage id or audio uri. Used by tests and offline
+ * builds until an on-device speech model ships.
+ */
+export class OfflineTranscriptionEngine implements TranscriptionEngine {
+  readonly id = "offline";
+  private transcripts: Map<string, TranscriptionResult>;
+
+  constructor(
+    transcripts: Record<string, string | TranscriptionResult> = {},
+    private delay = 0
+  ) {
+    this.transcripts = new Map(
+      Object.entries(transcripts).map(([key, value]) => [
+        key,
+        typeof value === "string" ? { text: value } : value,
+      ])
+    );
+  }
+
+  setTranscript(key: string, result: string | TranscriptionResult): void {
+    this.transcripts.set(
+      key,
+      typeof result === "string" ? { text: result } : result
+    );
+  }
+
+  async transcribe(
+    request: TranscriptionRequest
+  ): Promise<TranscriptionResult | null> {
+    if (this.delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+    }
+    const result =
+      this.transcripts.get(request.storageId) ??
+      (request.audioUri ? this.transcripts.get(request.audioUri) : undefined);
+    return result ? { language: request.language, ...result } : null;
+  }
+}
+
+/**
+ * Voice message transcripts, keyed by the audio's storage id. Each clip is
+ * transcribed at most once at a time; finished transcripts are kept on the
+ * device and copied onto the cached message, which feeds them into search.
+ */
+export class VoiceTranscriptionService extends EventEmitter {
+  private engine: TranscriptionEngine;
+  private options: Required<Omit<VoiceTranscriptionServiceOptions, "engine">>;
+  private transcripts = new Map<string, StoredTranscript>();
+  private inFlight = new Map<string, Promise<StoredTranscript>>();
+  private loaded: Promise<void> | null = null;
+
+  constructor(options: VoiceTranscriptionServiceOptions = {}) {
+    super();
+    this.engine = options.engine ?? new ServerTranscriptionEngine();
+    this.options = {
+      storageKey: options.storageKey ?? "voice_transcripts",
+      maxEntries: options.maxEntries ?? 500,
+      messageCache: options.messageCache ?? messageCache,
+    };
+  }
+
+  setEngine(engine: TranscriptionEngine): void {
+    this.engine = engine;
+  }
+
+  getEngine(): TranscriptionEngine {
+    return this.engine;
+  }
+
+  /**
+   * Load transcripts saved by earlier sessions. Safe to call repeatedly.
+   */
+  hydrate(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  getTranscript(storageId: string): StoredTranscript | undefined {
+    return this.transcripts.get(storageId);
+  }
+
+  /**
+   * Transcribe a clip, or return the transcript we already have. When the
+   * message is given, the result is also written onto the cached message.
+   */
+  async transcribe(
+    request: TranscriptionRequest,
+    target?: { conversationId: string; messageId: string }
+  ): Promise<StoredTranscript> {
+    await this.hydrate();
+
+    let run = this.inFlight.get(request.storageId);
+    if (!run) {
+      const existing = this.transcripts.get(request.storageId);
+      if (existing && existing.status !== "failed") {
+        this.writeToMessage(existing, target);
+        return existing;
+      }
+      run = this.run(request).finally(() => {
+        this.inFlight.delete(request.storageId);
+      });
+      this.inFlight.set(request.storageId, run);
+    }
+
+    const stored = await run;
+    this.writeToMessage(stored, target);
+    return stored;
+  }
+
+  /**
+   * Forget every transcript, e.g. on logout
+   */
+  async clear(): Promise<void> {
+    this.transcripts.clear();
+    this.inFlight.clear();
+    try {
+      await AsyncStorage.removeItem(this.options.storageKey);
+    } catch (error) {
+      console.error("VoiceTranscription: Failed to clear transcripts", error);
+    }
+  }
+
+  private async run(request: TranscriptionRequest): Promise<StoredTranscript> {
+    const engine = this.engine;
+    this.save(
+      request.storageId,
+      { status: "pending", engine: engine.id, updatedAt: Date.now() },
+      false
+    );
+
+    let stored: StoredTranscript;
+    try {
+      const result = await engine.transcribe(request);
+      stored = result
+        ? {
+            status: "completed",
+            text: result.text.trim(),
+            language: result.language,
+            engine: engine.id,
+            updatedAt: Date.now(),
+          }
+        : { status: "unavailable", engine: engine.id, updatedAt: Date.now() };
+    } catch (error) {
+      console.error("VoiceTranscription: Failed to transcribe", error);
+      stored = { status: "failed", engine: engine.id, updatedAt: Date.now() };
+    }
+
+    // Failures aren't persisted so the next session can try again
+    this.save(request.storageId, stored, stored.status !== "failed");
+    return stored;
+  }
+
+  private save(storageId: string, stored: StoredTranscript, persist = true) {
+    this.transcripts.delete(storageId);
+    this.transcripts.set(storageId, stored);
+    this.emit("change", { storageId, ...stored });
+    if (persist) this.persist();
+  }
+
+  private writeToMessage(
+    stored: StoredTranscript,
+    target?: { conversationId: string; messageId: string }
+  ): void {
+    if (!target || stored.status === "pending") return;
+    this.options.messageCache.updateMessage(
+      target.conversationId,
+      target.messageId,
+      {
+        transcript: stored.text,
+        transcriptStatus: stored.status,
+        transcriptLanguage: stored.language,
+      }
+    );
+  }
+
+  private async persist(): Promise<void> {
+    const entries = Array.from(this.transcripts.entries())
+      .filter(
+        ([, stored]) =>
+          stored.status !== "pending" && stored.status !== "failed"
+      )
+      .slice(-this.options.maxEntries);
+    try {
+      await AsyncStorage.setItem(
+        this.options.storageKey,
+        JSON.stringify(Object.fromEntries(entries))
+      );
+    } catch (error) {
+      console.error("VoiceTranscription: Failed to save transcripts", error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.options.storageKey);
+      if (!stored) return;
+      const parsed = JSON.parse(stored) as Record<string, StoredTranscript>;
+      for (const [storageId, transcript] of Object.entries(parsed)) {
+        // Anything newer from this session wins
+        if (!this.transcripts.has(storageId)) {
+          this.transcripts.set(storageId, transcript);
+        }
+      }
+    } catch (error) {
+      console.error("VoiceTranscription: Failed to load transcripts", error);
+    }
+  }
+}
+
+export const voiceTranscriptionService = new VoiceTranscriptionService();
@@ -4,6 +4,7 @@ import { GradientButton } from "@/components/ui/GradientComponents";
 import * as Haptics from "expo-haptics";
 import { useTheme } from "@contexts/ThemeContext";
 import { useSubscription } from "@/hooks/useSubscription";
+import { entitlements, getTierLabel } from "@utils/entitlements";
 
 interface PremiumFeatureGuardProps {
   feature: string; // descriptive label
@@ -33,14 +34,7 @@ export const PremiumFeatureGuard: React.FC<PremiumFeatureGuardProps> = ({
   const isAllowed =
     typeof allowed === "boolean"
       ? allowed
-      : (() => {
-          const plan = subscription?.plan;
-          if (!plan || plan === "free") return false;
-          if (requiredPlan === "premium")
-            return plan === "premium" || plan === "premiumPlus";
-          if (requiredPlan === "premiumPlus") return plan === "premiumPlus";
-          return false;
-        })();
+      : entitlements.isTierAtLeast(subscription?.plan || "free", requiredPlan);
 
   if (isAllowed) {
     return <>{showIfAllowed ? children : null}</>;
@@ -65,9 +59,7 @@ export const PremiumFeatureGuard: React.FC<PremiumFeatureGuardProps> = ({
         }}
       >
         {fallbackText ||
-          (requiredPlan === "premiumPlus"
-            ? `Upgrade to Premium Plus to access ${feature}.`
-            : `Upgrade to Premium to access ${feature}.`)}
+          `Upgrade to ${getTierLabel(requiredPlan)} to access ${feature}.`}
       </Text>
       <GradientButton
         title="Upgrade"
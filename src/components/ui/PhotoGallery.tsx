@@ -29,6 +29,11 @@ import { BlurView } from "expo-blur";
 import * as Haptics from "expo-haptics";
 import { useTheme, useThemedStyles } from "@contexts/ThemeContext";
 import { rgbaHex } from "@utils/color";
+import {
+  PRIVATE_PHOTO_BLUR_RADIUS,
+  photoDisplayUri,
+} from "@utils/photoPrivacy";
+import { PrivatePhotoOverlay } from "./PrivatePhotoOverlay";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -37,6 +42,8 @@ interface PhotoItem {
   url: string;
   caption?: string;
   isMain?: boolean;
+  locked?: boolean; // private to this viewer: shown blurred
+  blurredUrl?: string; // server-blurred copy shown while locked
 }
 
 interface PhotoGalleryProps {
@@ -45,6 +52,9 @@ interface PhotoGalleryProps {
   onClose?: () => void;
   onPhotoChange?: (index: number) => void;
   style?: any;
+  lockedTitle?: string;
+  onRequestAccess?: () => void;
+  requestingAccess?: boolean;
 }
 
 interface ZoomableImageProps {
@@ -179,6 +189,9 @@ export const PhotoGallery: React.FC<PhotoGalleryProps> = ({
   onClose,
   onPhotoChange,
   style,
+  lockedTitle = "Photos are private",
+  onRequestAccess,
+  requestingAccess,
 }) => {
   const { theme } = useTheme();
   const styles = useThemedStyles((t) =>
@@ -418,11 +431,27 @@ export const PhotoGallery: React.FC<PhotoGalleryProps> = ({
 
   const renderPhoto = ({ item, index }: { item: PhotoItem; index: number }) => (
     <View style={styles.photoContainer}>
-      <ZoomableImage
-        uri={item.url}
-        onSingleTap={toggleControls}
-        onDoubleTap={() => {}}
-      />
+      {item.locked ? (
+        <>
+          <Image
+            source={{ uri: photoDisplayUri(item, true) }}
+            style={styles.zoomableImage}
+            resizeMode="cover"
+            blurRadius={PRIVATE_PHOTO_BLUR_RADIUS}
+          />
+          <PrivatePhotoOverlay
+            title={lockedTitle}
+            onRequestAccess={onRequestAccess}
+            requesting={requestingAccess}
+          />
+        </>
+      ) : (
+        <ZoomableImage
+          uri={item.url}
+          onSingleTap={toggleControls}
+          onDoubleTap={() => {}}
+        />
+      )}
     </View>
   );
 
@@ -444,7 +473,11 @@ export const PhotoGallery: React.FC<PhotoGalleryProps> = ({
         onPhotoChange?.(index);
       }}
     >
-      <Image source={{ uri: item.url }} style={styles.thumbnailImage} />
+      <Image
+        source={{ uri: photoDisplayUri(item, !!item.locked) }}
+        style={styles.thumbnailImage}
+        blurRadius={item.locked ? PRIVATE_PHOTO_BLUR_RADIUS : undefined}
+      />
       {item.isMain && (
         <View style={styles.mainBadge}>
           <Text style={styles.mainBadgeText}>Main</Text>
@@ -635,7 +668,12 @@ export const PhotoGrid: React.FC<PhotoGridProps> = ({
       ]}
       onPress={() => onPhotoPress(index)}
     >
-      <Image source={{ uri: item.url }} style={styles.gridImage} />
+      <Image
+        source={{ uri: photoDisplayUri(item, !!item.locked) }}
+        style={styles.gridImage}
+        blurRadius={item.locked ? PRIVATE_PHOTO_BLUR_RADIUS : undefined}
+      />
+      {item.locked && <PrivatePhotoOverlay compact />}
       {item.isMain && (
         <View style={styles.gridMainBadge}>
           <Text style={styles.gridMainBadgeText}>Main</Text>
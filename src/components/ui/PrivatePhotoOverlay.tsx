@@ -0,0 +1,101 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useThemedStyles } from "@contexts/ThemeContext";
+import { rgbaHex } from "@utils/color";
+
+interface PrivatePhotoOverlayProps {
+  title?: string;
+  // Shown as a "Request access" button when set
+  onRequestAccess?: () => void;
+  requesting?: boolean;
+  compact?: boolean;
+  style?: any;
+}
+
+/**
+ * Sits over a blurred private photo: says why it's blurred and offers to
+ * ask the owner for access
+ */
+export const PrivatePhotoOverlay: React.FC<PrivatePhotoOverlayProps> = ({
+  title,
+  onRequestAccess,
+  requesting = false,
+  compact = false,
+  style,
+}) => {
+  const styles = useThemedStyles((t) =>
+    StyleSheet.create({
+      overlay: {
+        ...StyleSheet.absoluteFillObject,
+        alignItems: "center",
+        justifyContent: "center",
+        padding: 16,
+        backgroundColor: rgbaHex(t.colors.neutral[900], 0.25),
+      },
+      lock: {
+        fontSize: 32,
+        marginBottom: 8,
+      },
+      lockCompact: {
+        fontSize: 18,
+      },
+      title: {
+        color: t.colors.text.inverse,
+        fontSize: 15,
+        fontWeight: "600",
+        textAlign: "center",
+      },
+      button: {
+        marginTop: 12,
+        paddingVertical: 8,
+        paddingHorizontal: 18,
+        borderRadius: 20,
+        backgroundColor: t.colors.primary[500],
+        minWidth: 140,
+        alignItems: "center",
+      },
+      buttonText: {
+        color: t.colors.text.inverse,
+        fontWeight: "600",
+      },
+    })
+  );
+
+  if (compact) {
+    return (
+      <View
+        style={[styles.overlay, { padding: 4 }, style]}
+        pointerEvents="none"
+      >
+        <Text style={styles.lockCompact}>🔒</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.overlay, style]} pointerEvents="box-none">
+      <Text style={styles.lock}>🔒</Text>
+      {title ? <Text style={styles.title}>{title}</Text> : null}
+      {onRequestAccess ? (
+        <TouchableOpacity
+          style={styles.button}
+          onPress={onRequestAccess}
+          disabled={requesting}
+          accessibilityLabel="Request photo access"
+        >
+          {requesting ? (
+            <ActivityIndicator size="small" color={styles.buttonText.color} />
+          ) : (
+            <Text style={styles.buttonText}>Request access</Text>
+          )}
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+};
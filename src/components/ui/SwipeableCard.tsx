@@ -26,6 +26,13 @@ import { BlurView } from "expo-blur";
 import { Layout } from "@constants";
 import { rgbaHex } from "@utils/color";
 import { useTheme } from "@contexts/ThemeContext";
+import { usePhotoAccess } from "@/hooks/usePhotoAccess";
+import {
+  PRIVATE_PHOTO_BLUR_RADIUS,
+  photoDisplayUri,
+} from "@utils/photoPrivacy";
+import type { PhotoVisibility } from "../../../types/image";
+import { PrivatePhotoOverlay } from "./PrivatePhotoOverlay";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 const CARD_WIDTH = screenWidth * 0.9;
@@ -38,7 +45,13 @@ interface SwipeableCardProps {
     fullName: string;
     age?: number;
     city?: string;
-    images?: Array<{ url: string; isMain?: boolean }>;
+    images?: Array<{
+      url: string;
+      isMain?: boolean;
+      visibility?: PhotoVisibility;
+      blurredUrl?: string;
+    }>;
+    photoVisibility?: PhotoVisibility;
     bio?: string;
     occupation?: string;
     education?: string;
@@ -77,6 +90,10 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = ({
 
   const images = profile.images || [];
   const mainImage = images.find((img) => img.isMain) || images[0];
+  const photoAccess = usePhotoAccess(profile.id, {
+    profileVisibility: profile.photoVisibility,
+    images,
+  });
 
   const triggerHaptic = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -235,6 +252,7 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = ({
   };
 
   const openViewer = (index: number) => {
+    if (photoAccess.isLocked(images[index])) return;
     setViewerIndex(index);
     setViewerVisible(true);
   };
@@ -262,39 +280,46 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = ({
               snapToInterval={CARD_WIDTH}
               decelerationRate="fast"
               onMomentumScrollEnd={onMomentumEnd}
-              renderItem={({ item, index }) => (
-                <TouchableWithoutFeedback onPress={() => openViewer(index)}>
-                  <View style={{ width: CARD_WIDTH, height: "100%" }}>
-                    {item && !imageError ? (
-                      <Animated.Image
-                        source={{ uri: item.url }}
-                        style={[
-                          styles.image,
-                          index === currentImageIndex
-                            ? imageParallaxStyle
-                            : undefined,
-                        ]}
-                        onError={() => setImageError(true)}
-                      />
-                    ) : (
-                      <View
-                        style={[
-                          styles.image,
-                          styles.imageFallback,
-                          {
-                            backgroundColor: rgbaHex(
-                              theme.colors.neutral[900],
-                              0.05
-                            ),
-                          },
-                        ]}
-                      >
-                        <Text style={{ fontSize: 48 }}>🖼️</Text>
-                      </View>
-                    )}
-                  </View>
-                </TouchableWithoutFeedback>
-              )}
+              renderItem={({ item, index }) => {
+                const locked = photoAccess.isLocked(item);
+                const uri = photoDisplayUri(item, locked);
+                return (
+                  <TouchableWithoutFeedback onPress={() => openViewer(index)}>
+                    <View style={{ width: CARD_WIDTH, height: "100%" }}>
+                      {uri && !imageError ? (
+                        <Animated.Image
+                          source={{ uri }}
+                          style={[
+                            styles.image,
+                            index === currentImageIndex
+                              ? imageParallaxStyle
+                              : undefined,
+                          ]}
+                          blurRadius={
+                            locked ? PRIVATE_PHOTO_BLUR_RADIUS : undefined
+                          }
+                          onError={() => setImageError(true)}
+                        />
+                      ) : (
+                        <View
+                          style={[
+                            styles.image,
+                            styles.imageFallback,
+                            {
+                              backgroundColor: rgbaHex(
+                                theme.colors.neutral[900],
+                                0.05
+                              ),
+                            },
+                          ]}
+                        >
+                          <Text style={{ fontSize: 48 }}>🖼️</Text>
+                        </View>
+                      )}
+                    </View>
+                  </TouchableWithoutFeedback>
+                );
+              }}
             />
           </GestureDetector>
 
@@ -336,6 +361,20 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = ({
             activeOpacity={1}
           />
 
+          {/* Private photo: blurred until the owner allows it */}
+          {currentImage && photoAccess.isLocked(currentImage) && (
+            <PrivatePhotoOverlay
+              style={styles.privateOverlay}
+              title={photoAccess.describe(currentImage).title}
+              onRequestAccess={
+                photoAccess.describe(currentImage).canRequest
+                  ? () => photoAccess.requestAccess().catch(() => {})
+                  : undefined
+              }
+              requesting={photoAccess.requesting}
+            />
+          )}
+
           {/* Image Indicators */}
           {images.length > 1 && (
             <View style={styles.imageIndicators}>
@@ -616,7 +655,10 @@ export const SwipeableCard: React.FC<SwipeableCardProps> = ({
         >
           {/* Swipe down to dismiss + pinch to zoom */}
           <Viewer
-            images={images}
+            // Locked photos stay out of the viewer; it only loads originals
+            images={images.map((img) =>
+              photoAccess.isLocked(img) ? undefined : img
+            )}
             startIndex={viewerIndex}
             onClose={() => setViewerVisible(false)}
             themeColors={theme.colors}
@@ -671,7 +713,7 @@ const Viewer: React.FC<{
           { translateY: translateY.value },
           { scale: Math.max(1, Math.min(3, scale.value)) },
         ],
-      } as any)
+      }) as any
   );
 
   const composed = Gesture.Simultaneous(pinch, pan);
@@ -800,6 +842,9 @@ const styles = StyleSheet.create({
     height: "70%",
     zIndex: 2,
   },
+  privateOverlay: {
+    zIndex: 3,
+  },
   imageIndicators: {
     position: "absolute",
     top: 20,
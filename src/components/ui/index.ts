@@ -12,6 +12,7 @@ export * from './Toast';
 export * from './GradientComponents';
 export * from './VoiceMessage';
 export * from './PhotoGallery';
+export * from './PrivatePhotoOverlay';
 export * from './ProgressIndicators';
 export * from './PullToRefresh';
 export * from './AccessibilityComponents';
@@ -62,6 +63,7 @@ export {
   PhotoGallery,
   PhotoGrid,
 } from './PhotoGallery';
+export { PrivatePhotoOverlay } from './PrivatePhotoOverlay';
 
 export {
   // Toast Components
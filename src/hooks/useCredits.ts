@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Platform } from "react-native";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@contexts/AuthProvider";
+import { useApiClient } from "@utils/api";
+import { creditLedger } from "@utils/creditLedger";
+import { inAppPurchaseManager } from "@utils/inAppPurchases";
+import type { ConsumablePurchaseResult } from "@utils/inAppPurchases";
+import { showErrorToast, showInfoToast, showSuccessToast } from "@utils/toast";
+import { CONSUMABLE_PRODUCTS } from "../../types/inAppPurchase";
+import type {
+  ConsumableProductConfig,
+  CreditBalances,
+  CreditType,
+} from "../../types/inAppPurchase";
+
+export interface CreditPack extends ConsumableProductConfig {
+  // Store price, once the store has been reached
+  displayPrice?: string;
+}
+
+/**
+ * Purchased credits (boosts, spotlight days, super interests) and the packs
+ * on sale. Balances come from the local ledger, refreshed from the server.
+ */
+export function useCredits() {
+  const { user } = useAuth();
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+  const platform = Platform.OS === "ios" ? "ios" : "android";
+
+  const [balances, setBalances] = useState<CreditBalances>(() =>
+    creditLedger.getBalances()
+  );
+  const [pendingCount, setPendingCount] = useState(
+    () => creditLedger.getPendingPurchases().length
+  );
+
+  useEffect(() => {
+    const onChange = () => {
+      setBalances(creditLedger.getBalances());
+      setPendingCount(creditLedger.getPendingPurchases().length);
+    };
+    creditLedger.on("change", onChange);
+    creditLedger.hydrate().then(onChange);
+    return () => {
+      creditLedger.off("change", onChange);
+    };
+  }, []);
+
+  const { isLoading, refetch } = useQuery({
+    queryKey: ["credits", user?.id],
+    queryFn: () => creditLedger.sync(() => apiClient.getCreditWallet()),
+    enabled: !!user,
+  });
+
+  const { data: storeProducts = [] } = useQuery({
+    queryKey: ["creditPacks", platform],
+    queryFn: async () => {
+      if (!(await inAppPurchaseManager.initialize())) return [];
+      return inAppPurchaseManager.getAvailableProducts(
+        CONSUMABLE_PRODUCTS[platform].map((pack) => pack.productId)
+      );
+    },
+    enabled: !!user,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const packs = useMemo<CreditPack[]>(
+    () =>
+      CONSUMABLE_PRODUCTS[platform].map((pack) => {
+        const product: any = storeProducts.find(
+          (p: any) => (p.id ?? p.productId) === pack.productId
+        );
+        return {
+          ...pack,
+          displayPrice: product?.displayPrice ?? product?.localizedPrice,
+        };
+      }),
+    [platform, storeProducts]
+  );
+
+  const purchaseMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      if (!(await inAppPurchaseManager.initialize())) {
+        throw new Error("Purchases aren't available right now");
+      }
+      const result = await inAppPurchaseManager.purchaseConsumable(productId);
+      if (!result.success && !result.cancelled) {
+        throw new Error(result.error || "Purchase failed");
+      }
+      return result;
+    },
+    onSuccess: (result: ConsumablePurchaseResult) => {
+      if (result.cancelled) return;
+      if (result.pendingValidation) {
+        showInfoToast(
+          "Purchase received. Your credits will appear once it's confirmed."
+        );
+        return;
+      }
+      showSuccessToast("Credits added to your wallet");
+      queryClient.invalidateQueries({ queryKey: ["credits", user?.id] });
+    },
+    onError: (error: any) => {
+      showErrorToast(error?.message || "Purchase failed");
+    },
+  });
+
+  // Call after the server has accepted a spend, e.g. a boost paid by credit
+  const recordSpend = useCallback(
+    (credit: CreditType) => creditLedger.recordSpend(credit),
+    []
+  );
+
+  return {
+    balances,
+    pendingCount,
+    packs,
+    isLoading,
+    refresh: refetch,
+    purchase: (productId: string) =>
+      purchaseMutation.mutateAsync(productId).catch(() => undefined),
+    purchasing: purchaseMutation.isPending
+      ? purchaseMutation.variables ?? null
+      : null,
+    recordSpend,
+  };
+}
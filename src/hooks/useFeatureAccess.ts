@@ -2,6 +2,7 @@ import { useCallback } from "react";
 import { Alert } from "react-native";
 import { useSubscription } from "./useSubscription";
 import { errorHandler } from "@utils/errorHandling";
+import { entitlements, getTierLabel } from "@utils/entitlements";
 import { FeatureUsage, SubscriptionFeatures } from "../../types/subscription";
 
 export interface FeatureAccessResult {
@@ -193,25 +194,24 @@ export function useFeatureAccess(): UseFeatureAccessReturn {
 
 // Helper functions
 function getFeatureUpgradeMessage(feature: keyof SubscriptionFeatures): string {
-  const messages: Record<string, string> = {
-    canInitiateChat:
-      "Upgrade to Premium to start conversations with your matches",
-    canSendUnlimitedLikes: "Upgrade to Premium for unlimited likes",
-    canViewFullProfiles: "Upgrade to Premium to view complete profiles",
-    canBoostProfile:
-      "Upgrade to Premium for monthly boosts or Premium Plus for unlimited boosts",
-    canViewProfileViewers: "Upgrade to Premium to see who viewed your profile",
-    canUseAdvancedFilters: "Upgrade to Premium for advanced search filters",
-    canUseIncognitoMode: "Upgrade to Premium Plus for incognito browsing",
-    canAccessPrioritySupport:
-      "Upgrade to Premium for priority customer support",
-    canSeeReadReceipts: "Upgrade to Premium to see read receipts",
-    hasSpotlightBadge: "Upgrade to Premium Plus for a spotlight badge",
+  const benefits: Record<string, string> = {
+    canInitiateChat: "to start conversations with your matches",
+    canSendUnlimitedLikes: "for unlimited likes",
+    canViewFullProfiles: "to view complete profiles",
+    canBoostProfile: "to boost your profile",
+    canViewProfileViewers: "to see who viewed your profile",
+    canUseAdvancedFilters: "for advanced search filters",
+    canUseIncognitoMode: "for incognito browsing",
+    canAccessPrioritySupport: "for priority customer support",
+    canSeeReadReceipts: "to see read receipts",
+    canViewWhoLikedMe: "to see who liked you",
+    hasSpotlightBadge: "for a spotlight badge",
   };
 
-  return (
-    messages[feature as string] ||
-    "Upgrade your subscription to access this feature"
-  );
+  const requiredTier = entitlements.requiredTier(feature);
+  const benefit = benefits[feature as string];
+  if (!requiredTier || !benefit) {
+    return "Upgrade your subscription to access this feature";
+  }
+  return `Upgrade to ${getTierLabel(requiredTier)} ${benefit}`;
 }
-
@@ -48,7 +48,6 @@ export function useFeatureGate(): UseFeatureGateResult {
       action,
       currentTier,
       usage,
-      usage.limits,
       options
     );
     
@@ -70,7 +69,6 @@ export function useFeatureGate(): UseFeatureGateResult {
       action,
       currentTier,
       usage,
-      usage.limits,
       { showAlert: false }
     );
     
@@ -90,7 +88,6 @@ export function useFeatureGate(): UseFeatureGateResult {
       action,
       currentTier,
       usage,
-      usage.limits,
       options
     );
 
@@ -7,6 +7,7 @@ import {
   ProfileImage,
   IMAGE_VALIDATION,
   ImagePickerResult,
+  PhotoPrecheckMetadata,
 } from "../../types/image";
 import { ApiResponse } from "../../types/profile";
 import { validateImageUpload } from "../../utils/imageValidationWebParity";
@@ -19,7 +20,10 @@ export interface UseImageUploadReturn {
   isLoading: boolean;
   isUploading: boolean;
   uploadProgress: number;
-  uploadImage: (imageResult: ImagePickerResult) => Promise<void>;
+  uploadImage: (
+    imageResult: ImagePickerResult,
+    precheck?: PhotoPrecheckMetadata
+  ) => Promise<void>;
   deleteImage: (imageId: string) => Promise<void>;
   reorderImages: (imageIds: string[]) => Promise<void>;
   refetchImages: () => void;
@@ -50,7 +54,13 @@ export function useImageUpload(): UseImageUploadReturn {
 
   // Upload image mutation
   const uploadMutation = useMutation({
-    mutationFn: async (imageResult: ImagePickerResult) => {
+    mutationFn: async ({
+      imageResult,
+      precheck,
+    }: {
+      imageResult: ImagePickerResult;
+      precheck?: PhotoPrecheckMetadata;
+    }) => {
       if (!userId) throw new Error("User not authenticated");
 
       // Unified validation
@@ -126,6 +136,7 @@ export function useImageUpload(): UseImageUploadReturn {
         fileName: imageResult.name,
         contentType: imageResult.type,
         fileSize: imageResult.size,
+        precheck,
       });
 
       if (!metadataResponse.success) {
@@ -219,8 +230,10 @@ export function useImageUpload(): UseImageUploadReturn {
     isLoading,
     isUploading: uploadMutation.isPending,
     uploadProgress,
-    uploadImage: (imageResult: ImagePickerResult) =>
-      uploadMutation.mutateAsync(imageResult).then(() => {}),
+    uploadImage: (
+      imageResult: ImagePickerResult,
+      precheck?: PhotoPrecheckMetadata
+    ) => uploadMutation.mutateAsync({ imageResult, precheck }).then(() => {}),
     deleteImage: (imageId: string) =>
       deleteMutation.mutateAsync(imageId).then(() => {}),
     reorderImages: (imageIds: string[]) =>
@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { Platform } from "react-native";
+import { Linking, Platform, Share } from "react-native";
 import { useAuth } from "@contexts/AuthProvider";
 import {
   initConnection,
@@ -15,9 +15,21 @@ import {
   requestPurchase,
   getAvailablePurchases,
   endConnection,
+  isEligibleForIntroOfferIOS,
+  presentCodeRedemptionSheetIOS,
   Purchase as RNIAPPurchase,
 } from "react-native-iap";
 import { useApiClient } from "@utils/api";
+import {
+  applyOfferEligibility,
+  buildSubscriptionRequest,
+  extractStoreOffers,
+} from "@utils/subscriptionOffers";
+import {
+  getConsumableProduct,
+  inAppPurchaseManager,
+} from "@utils/inAppPurchases";
+import { purchaseJournal, validateJournalEntry } from "@utils/purchaseJournal";
 import {
   Platform as AppPlatform,
   Product,
@@ -34,10 +46,39 @@ import {
   AROOSI_PRODUCTS,
   PurchaseValidationRequest,
   PurchaseValidationResponse,
+  SignedPromotionalOffer,
+  SubscriptionOffer,
 } from "../../types/inAppPurchase";
 
 const PLATFORM: AppPlatform = Platform.OS === "ios" ? "ios" : "android";
 
+const buildValidationRequest = (
+  transaction: PurchaseTransaction
+): PurchaseValidationRequest => ({
+  platform: PLATFORM,
+  productId: transaction.productId,
+  purchaseToken: transaction.purchaseToken,
+  transactionId: transaction.transactionId,
+  receiptData: transaction.receiptData,
+  offerId: transaction.offerId,
+  offerType: transaction.offerType,
+  subscriptionPlan: (() => {
+    if (
+      transaction.productId.includes("premium") &&
+      !transaction.productId.includes("plus")
+    ) {
+      return "premium";
+    } else if (
+      transaction.productId.includes("premiumplus") ||
+      transaction.productId.includes("plus")
+    ) {
+      return "premiumPlus";
+    } else {
+      return "free";
+    }
+  })(),
+});
+
 export const useInAppPurchase = (): UsePurchaseReturn => {
   const { userId, getToken: token } = useAuth() as any;
   const apiClient = useApiClient();
@@ -53,6 +94,8 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
   // Refs for cleanup
   const purchaseUpdateSubscription = useRef<any>(null);
   const purchaseErrorSubscription = useRef<any>(null);
+  // Offer each in-flight purchase started with, reported when validating
+  const pendingOffers = useRef<Map<string, SubscriptionOffer>>(new Map());
 
   // Initialize in-app purchases
   const initializePurchases = useCallback(async (): Promise<boolean> => {
@@ -149,8 +192,34 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
         introductoryPricePeriod:
           p.introductoryPriceSubscriptionPeriodIOS || undefined,
         freeTrialPeriod: p.freeTrialPeriod || undefined,
+        offers: extractStoreOffers(p, PLATFORM),
       }));
 
+      // Trims offers to what the user can still take; without an answer the
+      // store's own view stands and the server re-checks at validation
+      const eligibility = await apiClient
+        .getOfferEligibility()
+        .then((res) => (res.success && res.data ? res.data : null))
+        .catch(() => null);
+      for (const product of mappedProducts) {
+        if (!product.offers?.length) continue;
+        let storeIntroEligible = true;
+        const storeProduct: any = productsFromStore.find(
+          (p: any) => (p.id || p.productId || p.sku) === product.productId
+        );
+        const groupId = storeProduct?.subscriptionInfoIOS?.subscriptionGroupId;
+        if (PLATFORM === "ios" && groupId) {
+          storeIntroEligible = await isEligibleForIntroOfferIOS(groupId).catch(
+            () => true
+          );
+        }
+        product.offers = applyOfferEligibility(
+          product.offers,
+          eligibility,
+          storeIntroEligible
+        );
+      }
+
       setState((prev: PurchaseState) => ({
         ...prev,
         products: mappedProducts,
@@ -168,11 +237,14 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
       }));
       return [];
     }
-  }, []);
+  }, [apiClient]);
 
-  // Purchase a product
+  // Purchase a product, optionally starting with a trial or other offer
   const purchaseProduct = useCallback(
-    async (productId: string): Promise<PurchaseResult> => {
+    async (
+      productId: string,
+      offer?: SubscriptionOffer | null
+    ): Promise<PurchaseResult> => {
       try {
         if (!state.isAvailable || !state.isInitialized) {
           return {
@@ -234,30 +306,14 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
 
           // Trigger purchase request (treat as subscription)
           const trigger = async () => {
-            // Build Android subscriptionOffers with offerToken if available
-            let androidRequest: {
-              skus: string[];
-              subscriptionOffers?: { sku: string; offerToken: string }[];
-            } = { skus: [productId] };
+            // Android needs an offerToken from the store product
+            let storeProduct: any = null;
             if (Platform.OS === "android") {
               try {
-                const [product] = await fetchProducts({
+                [storeProduct] = await fetchProducts({
                   skus: [productId],
                   type: "subs",
                 });
-                const offerToken: string | undefined =
-                  (product as any)?.subscriptionOfferDetailsAndroid?.[0]
-                    ?.offerToken ||
-                  (product as any)?.subscriptionOfferDetails?.[0]?.offerToken;
-                if (offerToken) {
-                  androidRequest.subscriptionOffers = [
-                    { sku: productId, offerToken },
-                  ];
-                } else {
-                  console.warn(
-                    "No offerToken found for subscription on Android"
-                  );
-                }
               } catch (err) {
                 console.warn(
                   "Failed to fetch product offers for Android:",
@@ -266,16 +322,36 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
               }
             }
 
-            await requestPurchase({
-              request: {
-                ios: {
-                  sku: productId,
-                  andDangerouslyFinishTransactionAutomatically: false,
-                },
-                android: androidRequest,
-              },
-              type: "subs",
-            });
+            // App Store promotional offers only go through with our signature
+            let signedOffer: SignedPromotionalOffer | null = null;
+            if (Platform.OS === "ios" && offer?.type === "promotional") {
+              const signed = await apiClient.signPromotionalOffer(
+                productId,
+                offer.id
+              );
+              if (!signed.success || !signed.data) {
+                throw new Error("This offer is no longer available");
+              }
+              signedOffer = signed.data;
+            }
+
+            const request = buildSubscriptionRequest(
+              productId,
+              storeProduct,
+              offer,
+              signedOffer
+            );
+            if (
+              Platform.OS === "android" &&
+              !request.android.subscriptionOffers
+            ) {
+              console.warn("No offerToken found for subscription on Android");
+            }
+
+            if (offer) {
+              pendingOffers.current.set(productId, offer);
+            }
+            await requestPurchase({ request, type: "subs" });
           };
 
           trigger().catch((e) => {
@@ -303,24 +379,41 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
         };
       }
     },
-    [state.isAvailable, state.isInitialized]
+    [state.isAvailable, state.isInitialized, apiClient]
   );
 
   // Handle purchase updates
   const handlePurchaseUpdate = useCallback(async (purchase: any) => {
+    // Credit packs are validated and consumed by inAppPurchaseManager
+    if (purchase?.productId && getConsumableProduct(purchase.productId)) {
+      return;
+    }
     try {
-      // Validate purchase with backend
+      // Journal before validating, so a purchase the app doesn't live to
+      // validate is replayed on the next start
       const transaction = mapPurchaseToTransaction(purchase);
-      const validationResult = await validatePurchase(transaction);
+      const entry = await purchaseJournal.record(
+        buildValidationRequest(transaction)
+      );
+      pendingOffers.current.delete(transaction.productId);
+
+      let status = entry.status;
+      let validationResult: PurchaseValidationResponse | undefined;
+      if (status === "pending") {
+        const outcome = await validateJournalEntry(entry);
+        await purchaseJournal.settle(entry.transactionId, outcome);
+        status = outcome.status === "retry" ? "pending" : outcome.status;
+        validationResult = outcome.response;
+      }
 
-      if (validationResult.success && validationResult.valid) {
+      if (status === "validated") {
         // Purchase is valid, finish the transaction
         if (purchase && !Array.isArray(purchase)) {
           await finishTransaction({ purchase, isConsumable: false });
         }
 
         // Update subscription status
-        if (validationResult.subscription) {
+        if (validationResult?.subscription) {
           setState((prev) => ({
             ...prev,
             currentSubscription: {
@@ -339,6 +432,9 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
 
         // Previously used Alert to notify success. Replace with non-blocking log or integrate toast in UI layer.
         console.log("Purchase Successful: Subscription activated successfully");
+      } else if (status === "pending") {
+        // Paid but unconfirmed; state.pendingPurchases carries it from here
+        setState((prev) => ({ ...prev, isLoading: false, error: undefined }));
       } else {
         // Purchase validation failed
         setState((prev) => ({
@@ -346,7 +442,7 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
           isLoading: false,
           error: {
             type: "ValidationFailed",
-            message: validationResult.message || "Purchase validation failed",
+            message: validationResult?.message || "Purchase validation failed",
           },
         }));
 
@@ -480,28 +576,7 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
           };
         }
 
-        const validationRequest: PurchaseValidationRequest = {
-          platform: PLATFORM,
-          productId: transaction.productId,
-          purchaseToken: transaction.purchaseToken,
-          transactionId: transaction.transactionId,
-          receiptData: transaction.receiptData,
-          subscriptionPlan: (() => {
-            if (
-              transaction.productId.includes("premium") &&
-              !transaction.productId.includes("plus")
-            ) {
-              return "premium";
-            } else if (
-              transaction.productId.includes("premiumplus") ||
-              transaction.productId.includes("plus")
-            ) {
-              return "premiumPlus";
-            } else {
-              return "free";
-            }
-          })(),
-        };
+        const validationRequest = buildValidationRequest(transaction);
 
         const response = await apiClient.validatePurchase(validationRequest);
 
@@ -604,6 +679,41 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
     [state.currentSubscription]
   );
 
+  // Validates purchases that were paid for but never confirmed
+  const retryPendingPurchases = useCallback(async (): Promise<number> => {
+    await inAppPurchaseManager.resumePendingPurchases();
+    return purchaseJournal.getPending().length;
+  }, []);
+
+  // Shares the purchase journal so support can match it against the store
+  const exportPurchaseJournal = useCallback(async (): Promise<boolean> => {
+    try {
+      await purchaseJournal.hydrate();
+      await Share.share({
+        title: "Aroosi purchase history",
+        message: purchaseJournal.exportForSupport(),
+      });
+      return true;
+    } catch (error) {
+      console.error("Error exporting purchase journal:", error);
+      return false;
+    }
+  }, []);
+
+  // Opens the store's own screen for App Store offer codes / Play promo codes
+  const redeemOfferCode = useCallback(async (): Promise<boolean> => {
+    try {
+      if (Platform.OS === "ios") {
+        return await presentCodeRedemptionSheetIOS();
+      }
+      await Linking.openURL("https://play.google.com/redeem");
+      return true;
+    } catch (error) {
+      console.error("Error opening offer code redemption:", error);
+      return false;
+    }
+  }, []);
+
   const getPriceString = useCallback(
     (productId: string): string => {
       const product = state.products.find((p) => p.productId === productId);
@@ -616,10 +726,12 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
   const mapPurchaseToTransaction = (
     purchase: RNIAPPurchase
   ): PurchaseTransaction => {
+    const productId = (purchase as any).productId || (purchase as any).id;
+    const offer = pendingOffers.current.get(productId);
     return {
       transactionId:
         (purchase as any).transactionId || (purchase as any).id || "",
-      productId: (purchase as any).productId || (purchase as any).id,
+      productId,
       purchaseToken:
         (purchase as any).purchaseToken ||
         (purchase as any).purchaseTokenAndroid ||
@@ -649,6 +761,8 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
         (purchase as any).isAutoRenewing ??
         (purchase as any).autoRenewingAndroid ??
         undefined,
+      offerId: offer?.id ?? (purchase as any).offerIOS?.id,
+      offerType: offer?.type,
     };
   };
 
@@ -699,6 +813,21 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
     };
   }, [initializePurchases]);
 
+  // Purchases still waiting on the server, kept current from the journal
+  useEffect(() => {
+    const onChange = () => {
+      setState((prev) => ({
+        ...prev,
+        pendingPurchases: purchaseJournal.getPending(),
+      }));
+    };
+    purchaseJournal.on("change", onChange);
+    purchaseJournal.hydrate().then(onChange);
+    return () => {
+      purchaseJournal.off("change", onChange);
+    };
+  }, []);
+
   // Load subscription status on auth change
   useEffect(() => {
     if (userId && state.isInitialized) {
@@ -717,10 +846,13 @@ export const useInAppPurchase = (): UsePurchaseReturn => {
     loadProducts,
     purchaseProduct,
     restorePurchases,
+    redeemOfferCode,
     getSubscriptionStatus,
     cancelSubscription,
     isProductOwned,
     getPriceString,
     validatePurchase,
+    retryPendingPurchases,
+    exportPurchaseJournal,
   };
 };
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { Message } from "../types/messaging";
 import { useApiClient } from "@utils/api";
 import { messageCache, messagePagination } from "@utils/MessageCache";
+import { persistentMessageStore } from "@utils/persistentMessageStore";
 
 interface UseMessageHistoryOptions {
   conversationId: string;
@@ -46,18 +47,28 @@ export function useMessageHistory({
   const scrollPositionRef = useRef<number>(0);
   const messageHeightsRef = useRef<Map<string, number>>(new Map());
 
-  // Initialize with cached messages
+  // Initialize with cached messages (falling back to the on-device store)
   useEffect(() => {
-    if (enableCache && conversationId) {
+    if (!enableCache || !conversationId) return;
+    let cancelled = false;
+
+    persistentMessageStore.loadConversation(conversationId).then(() => {
       const cachedMessages = messageCache.get(conversationId);
-      if (cachedMessages && cachedMessages.length > 0) {
-        setState((prev) => ({
-          ...prev,
-          messages: cachedMessages,
-          totalCount: cachedMessages.length,
-        }));
-      }
-    }
+      if (cancelled || !cachedMessages || cachedMessages.length === 0) return;
+      setState((prev) =>
+        prev.messages.length > 0
+          ? prev
+          : {
+              ...prev,
+              messages: cachedMessages,
+              totalCount: cachedMessages.length,
+            }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [conversationId, enableCache]);
 
   // Load initial messages
@@ -181,6 +192,12 @@ export function useMessageHistory({
       if (response.success && response.data) {
         const newMessages = response.data;
 
+        if (newMessages.length < pageSize && enableCache) {
+          persistentMessageStore.setCursor(conversationId, {
+            hasMoreOlder: false,
+          });
+        }
+
         if (newMessages.length === 0) {
           setState((prev) => ({
             ...prev,
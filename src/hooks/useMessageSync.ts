@@ -6,6 +6,7 @@ import {
   ConversationSyncState,
   SyncError,
 } from "@utils/messagingSync";
+import { ConflictResolutionOption } from "@utils/conflictResolution";
 import { useApiClient } from "@utils/api";
 import { useRealtimeMessaging } from "./useRealtimeMessaging";
 import { useAuth } from "@contexts/AuthProvider"
@@ -13,7 +14,7 @@ import { useAuth } from "@contexts/AuthProvider"
 interface UseMessageSyncOptions {
   enableAutoSync?: boolean;
   syncInterval?: number;
-  conflictResolution?: "client" | "server" | "manual";
+  conflictResolution?: ConflictResolutionOption;
   onSyncComplete?: () => void;
   onSyncError?: (error: SyncError) => void;
   onConflictDetected?: (conflict: any) => void;
@@ -3,7 +3,11 @@ import { Message } from "@/types/message";
 import { Conversation } from "@/types/messaging";
 import PushNotificationService from "@services/PushNotificationService";
 import { useApiClient } from "@utils/api";
-import { normalizeMessage, normalizeConversation } from "@utils/messageUtils";
+import {
+  generateClientMessageId,
+  normalizeMessage,
+  normalizeConversation,
+} from "@utils/messageUtils";
 import { useAuth } from "@contexts/AuthProvider";
 
 export interface UseMessagingProps {
@@ -115,6 +119,8 @@ export function useMessaging({
           toUserId: matchId || "", // Use matchId as the recipient
           text: text.trim(),
           type: "text",
+          // Lets the server ignore transport-level retries of this send
+          clientMessageId: generateClientMessageId(),
         });
 
         if (response.success) {
@@ -1,4 +1,3 @@
-import { MessagingApiAdapter } from "../utils/messagingApiAdapter";
 import { useState, useEffect, useCallback, useRef } from "react";
 import NetInfo from "@react-native-community/netinfo";
 import { AppState, AppStateStatus } from "react-native";
@@ -10,10 +9,12 @@ import {
 import { MessagingAPI } from "../../types/messaging";
 import { Message } from "../types/message";
 import { useApiClient } from "@utils/api";
+import {
+  initializeMessageOutbox,
+  messageOutbox,
+} from "../../services/messageOutbox";
 
 interface UseOfflineMessageQueueOptions {
-  maxRetries?: number;
-  baseRetryDelay?: number;
   autoStart?: boolean;
   onMessageSent?: (message: Message) => void;
   onMessageFailed?: (queuedMessage: QueuedMessage, error: any) => void;
@@ -36,8 +37,6 @@ export function useOfflineMessageQueue(
   options: UseOfflineMessageQueueOptions = {}
 ) {
   const {
-    maxRetries = 3,
-    baseRetryDelay = 1000,
     autoStart = true,
     onMessageSent,
     onMessageFailed,
@@ -53,8 +52,10 @@ export function useOfflineMessageQueue(
       pending: 0,
       failed: 0,
       processing: 0,
+      scheduled: 0,
       lastProcessed: 0,
       successRate: 0,
+      pendingByKind: { text: 0, voice: 0, image: 0 },
     },
     queuedMessages: [],
     failedMessages: [],
@@ -64,21 +65,21 @@ export function useOfflineMessageQueue(
   const queueRef = useRef<OfflineMessageQueue | null>(null);
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
 
-  // Initialize queue
+  // Bind to the shared outbox
   useEffect(() => {
     if (queueRef.current) return;
 
+    const queue = messageOutbox;
+    const listeners: [string, (...args: any[]) => void][] = [];
+    const listen = (event: string, listener: (...args: any[]) => void) => {
+      queue.on(event, listener);
+      listeners.push([event, listener]);
+    };
+
     const initializeQueue = async () => {
       try {
-  const messagingApi = new MessagingApiAdapter();
-  // Realtime methods now return Promise<void>; compatibility helpers exist if ApiResponse envelope needed
-  const queue = new OfflineMessageQueue(messagingApi, {
-          maxRetries,
-          baseRetryDelay,
-        });
-
         // Setup event listeners
-        queue.on("initialized", ({ queueSize }) => {
+        listen("initialized", ({ queueSize }) => {
           setState((prev) => ({
             ...prev,
             isInitialized: true,
@@ -88,7 +89,7 @@ export function useOfflineMessageQueue(
           }));
         });
 
-        queue.on("message_queued", () => {
+        listen("message_queued", () => {
           setState((prev) => ({
             ...prev,
             stats: queue.getStats(),
@@ -96,7 +97,7 @@ export function useOfflineMessageQueue(
           }));
         });
 
-        queue.on("message_sent", ({ message }) => {
+        listen("message_sent", ({ message }) => {
           setState((prev) => ({
             ...prev,
             stats: queue.getStats(),
@@ -106,7 +107,7 @@ export function useOfflineMessageQueue(
           onMessageSent?.(message);
         });
 
-        queue.on("message_failed", ({ message, error }) => {
+        listen("message_failed", ({ message, error }) => {
           setState((prev) => ({
             ...prev,
             stats: queue.getStats(),
@@ -116,11 +117,20 @@ export function useOfflineMessageQueue(
           onMessageFailed?.(message as QueuedMessage, error);
         });
 
-        queue.on("processing_started", () => {
+        listen("job_updated", () => {
+          setState((prev) => ({
+            ...prev,
+            stats: queue.getStats(),
+            queuedMessages: queue.getQueuedMessages(),
+            failedMessages: queue.getFailedMessages(),
+          }));
+        });
+
+        listen("processing_started", () => {
           setState((prev) => ({ ...prev, isProcessing: true }));
         });
 
-        queue.on("processing_completed", () => {
+        listen("processing_completed", () => {
           setState((prev) => ({
             ...prev,
             isProcessing: false,
@@ -131,18 +141,27 @@ export function useOfflineMessageQueue(
           onQueueProcessed?.();
         });
 
-        queue.on("connection_status_changed", ({ online }) => {
+        listen("connection_status_changed", ({ online }) => {
           setState((prev) => ({ ...prev, isOnline: online }));
         });
 
-        queue.on("error", (error) => {
+        listen("error", (error) => {
           console.error("Offline message queue error:", error);
         });
 
         // Initialize the queue
-        await queue.initialize();
+        await initializeMessageOutbox();
         queueRef.current = queue;
 
+        // The outbox may have been initialized before this hook mounted
+        setState((prev) => ({
+          ...prev,
+          isInitialized: true,
+          stats: queue.getStats(),
+          queuedMessages: queue.getQueuedMessages(),
+          failedMessages: queue.getFailedMessages(),
+        }));
+
         // Start monitoring network status if auto-start is enabled
         if (autoStart) {
           startNetworkMonitoring();
@@ -155,20 +174,11 @@ export function useOfflineMessageQueue(
     initializeQueue();
 
     return () => {
-      if (queueRef.current) {
-        queueRef.current.destroy();
-        queueRef.current = null;
-      }
+      // The outbox outlives this hook; only detach our listeners
+      listeners.forEach(([event, listener]) => queue.off(event, listener));
+      queueRef.current = null;
     };
-  }, [
-    apiClient,
-    maxRetries,
-    baseRetryDelay,
-    autoStart,
-    onMessageSent,
-    onMessageFailed,
-    onQueueProcessed,
-  ]);
+  }, [apiClient, autoStart, onMessageSent, onMessageFailed, onQueueProcessed]);
 
   // Network monitoring
   const startNetworkMonitoring = useCallback(() => {
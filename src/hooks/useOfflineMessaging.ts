@@ -7,10 +7,17 @@ import {
   SendMessageResult,
 } from "../../services/offlineMessagingService";
 import { MessagingAPI } from "../../types/messaging";
-import { Message } from "../../types/message";
+import { DisappearingTimer, Message } from "../../types/message";
 import { useApiClient } from "@utils/api";
 import { MessagingApiAdapter } from "../utils/messagingApiAdapter";
 import { useAuth } from "@contexts/AuthProvider"
+import { persistentMessageStore } from "@utils/persistentMessageStore";
+import { messageCache } from "@utils/MessageCache";
+import {
+  initializeMessageOutbox,
+  messageOutbox,
+} from "../../services/messageOutbox";
+import { messageEncryption } from "../../services/messageEncryptionService";
 
 interface UseOfflineMessagingOptions {
   enableOfflineQueue?: boolean;
@@ -72,6 +79,8 @@ export function useOfflineMessaging(options: UseOfflineMessagingOptions = {}) {
           maxRetries,
           syncInterval,
           cacheMessages,
+          outbox: messageOutbox,
+          cipher: messageEncryption,
         });
 
         // Setup event listeners
@@ -106,6 +115,10 @@ export function useOfflineMessaging(options: UseOfflineMessagingOptions = {}) {
           updateServiceState();
         });
 
+        service.on("outbox_job_updated", () => {
+          updateServiceState();
+        });
+
         service.on("sync_completed", () => {
           setState((prev) => ({
             ...prev,
@@ -143,6 +156,9 @@ export function useOfflineMessaging(options: UseOfflineMessagingOptions = {}) {
 
         // Initialize the service
         if (autoInitialize) {
+          // Encrypted conversations must be known before anything is sent
+          await messageEncryption.initialize(userId);
+          await initializeMessageOutbox();
           await service.initialize(userId);
         }
 
@@ -392,6 +408,16 @@ export function useConversationMessaging(conversationId: string) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const apiClient = useApiClient();
+  const [disappearingTimer, setDisappearingTimerState] =
+    useState<DisappearingTimer>("off");
+
+  // Either side can change the timer; the cache picks it up from the timeline
+  useEffect(() => {
+    setDisappearingTimerState(
+      messageCache.getDisappearingTimer(conversationId)?.timer || "off"
+    );
+  }, [conversationId, messages]);
 
   // Load messages for conversation
   const loadMessages = useCallback(
@@ -452,6 +478,35 @@ export function useConversationMessaging(conversationId: string) {
     [conversationId, baseSendMessage]
   );
 
+  // Change the disappearing-messages timer; the server adds a system message
+  const setDisappearingTimer = useCallback(
+    async (timer: DisappearingTimer) => {
+      const response = await apiClient.updateDisappearingTimer(
+        conversationId,
+        timer
+      );
+      if (!response.success || !response.data) {
+        return response;
+      }
+
+      const { disappearingTimerSetAt, message } = response.data;
+      messageCache.setDisappearingTimer(conversationId, {
+        timer,
+        since: disappearingTimerSetAt || Date.now(),
+      });
+      setDisappearingTimerState(timer);
+
+      if (message) {
+        messageCache.addMessage(conversationId, message);
+        setMessages((prev) =>
+          prev.some((m) => m._id === message._id) ? prev : [...prev, message]
+        );
+      }
+      return response;
+    },
+    [apiClient, conversationId]
+  );
+
   // Sync this conversation
   const sync = useCallback(async () => {
     if (!conversationId) return;
@@ -465,6 +520,21 @@ export function useConversationMessaging(conversationId: string) {
     }
   }, [conversationId, syncConversation, loadMessages]);
 
+  // Show locally stored history immediately, before the service is ready
+  useEffect(() => {
+    if (!conversationId) return;
+    let cancelled = false;
+
+    persistentMessageStore.loadConversation(conversationId).then((stored) => {
+      if (cancelled || stored.length === 0) return;
+      setMessages((prev) => (prev.length === 0 ? stored : prev));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
   // Load messages on mount and conversation change
   useEffect(() => {
     if (isInitialized && conversationId) {
@@ -479,11 +549,13 @@ export function useConversationMessaging(conversationId: string) {
     error,
     isOnline,
     isInitialized,
+    disappearingTimer,
 
     // Actions
     sendMessage,
     loadMessages,
     sync,
+    setDisappearingTimer,
     retryMessageById: retryMessageByAnyId,
 
     // Computed
@@ -528,6 +600,16 @@ export function useOfflineMessagingHealth() {
       details.push(`${queueStats.pending} messages waiting to send`);
     }
 
+    if (queueStats?.pendingByKind?.voice > 0) {
+      details.push(
+        `${queueStats.pendingByKind.voice} voice messages waiting to upload`
+      );
+    }
+
+    if (queueStats?.pendingByKind?.image > 0) {
+      details.push(`${queueStats.pendingByKind.image} photos waiting to upload`);
+    }
+
     if (optimisticMessages > 0) {
       details.push(`${optimisticMessages} messages pending confirmation`);
     }
@@ -0,0 +1,190 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@contexts/AuthProvider";
+import { useApiClient } from "@utils/api";
+import { showErrorToast } from "@utils/toast";
+import {
+  canViewPhoto,
+  describeLockedPhoto,
+  resolvePhotoVisibility,
+} from "@utils/photoPrivacy";
+import type {
+  PhotoAccessRequest,
+  PhotoAccessStatus,
+  PhotoVisibility,
+} from "../../types/image";
+
+interface PhotoAccessOptions {
+  profileVisibility?: PhotoVisibility | null;
+  images?: ({ visibility?: PhotoVisibility | null } | null | undefined)[];
+  // Known mutual match, e.g. from the interest status
+  isMatch?: boolean;
+}
+
+/**
+ * Whether the signed-in user may see another member's photos unblurred,
+ * and a way to ask for access. Access is only looked up when some of the
+ * photos are private.
+ */
+export function usePhotoAccess(
+  ownerId: string | undefined,
+  options: PhotoAccessOptions = {}
+) {
+  const { user } = useAuth();
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+  const { profileVisibility, images = [], isMatch: knownMatch } = options;
+
+  const isOwner = !!ownerId && user?.id === ownerId;
+  const hasPrivatePhotos =
+    resolvePhotoVisibility(null, profileVisibility) !== "public" ||
+    images.some(
+      (image) => resolvePhotoVisibility(image, profileVisibility) !== "public"
+    );
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["photoAccess", ownerId],
+    queryFn: async () => {
+      const res = await apiClient.getPhotoAccessStatus(ownerId!);
+      return res.success && res.data
+        ? res.data
+        : { status: "none" as PhotoAccessStatus };
+    },
+    enabled: !!ownerId && !!user && !isOwner && hasPrivatePhotos,
+  });
+
+  const status: PhotoAccessStatus = data?.status ?? "none";
+  const isMatch = !!knownMatch || !!data?.isMatch;
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiClient.requestPhotoAccess(ownerId!);
+      if (!res.success) {
+        throw new Error(
+          typeof res.error === "string"
+            ? res.error
+            : res.error?.message || "Failed to request photo access"
+        );
+      }
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["photoAccess", ownerId], {
+        ...data,
+        status: "pending" as PhotoAccessStatus,
+      });
+    },
+    onError: (error: any) => {
+      showErrorToast(error?.message || "Failed to request photo access");
+    },
+  });
+
+  const isLocked = useCallback(
+    (image?: { visibility?: PhotoVisibility | null } | null) =>
+      !canViewPhoto(resolvePhotoVisibility(image, profileVisibility), {
+        isOwner,
+        isMatch,
+        accessStatus: status,
+      }),
+    [profileVisibility, isOwner, isMatch, status]
+  );
+
+  const describe = useCallback(
+    (image?: { visibility?: PhotoVisibility | null } | null) =>
+      describeLockedPhoto(
+        resolvePhotoVisibility(image, profileVisibility),
+        status
+      ),
+    [profileVisibility, status]
+  );
+
+  return {
+    status,
+    isMatch,
+    isLoading,
+    isLocked,
+    describe,
+    requestAccess: () => requestMutation.mutateAsync().then(() => {}),
+    requesting: requestMutation.isPending,
+  };
+}
+
+/**
+ * Requests from other members to see the signed-in user's private photos
+ */
+export function usePhotoAccessRequests() {
+  const { user } = useAuth();
+  const apiClient = useApiClient();
+  const queryClient = useQueryClient();
+
+  const {
+    data: requests = [],
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["photoAccessRequests", user?.id],
+    queryFn: async () => {
+      const res = await apiClient.getPhotoAccessRequests();
+      return res.success && res.data ? res.data.requests : [];
+    },
+    enabled: !!user,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({
+      requestId,
+      approve,
+    }: {
+      requestId: string;
+      approve: boolean;
+    }) => {
+      const res = await apiClient.respondToPhotoAccessRequest(
+        requestId,
+        approve
+      );
+      if (!res.success) {
+        throw new Error(
+          typeof res.error === "string"
+            ? res.error
+            : res.error?.message || "Failed to respond to request"
+        );
+      }
+      return res.data;
+    },
+    onSuccess: (_, { requestId, approve }) => {
+      queryClient.setQueryData<PhotoAccessRequest[]>(
+        ["photoAccessRequests", user?.id],
+        (prev = []) =>
+          prev.map((r) =>
+            r.id === requestId
+              ? {
+                  ...r,
+                  status: approve ? "approved" : "declined",
+                  respondedAt: Date.now(),
+                }
+              : r
+          )
+      );
+    },
+    onError: (error: any) => {
+      showErrorToast(error?.message || "Failed to respond to request");
+    },
+  });
+
+  const pending = useMemo(
+    () => requests.filter((r) => r.status === "pending"),
+    [requests]
+  );
+
+  return {
+    requests,
+    pending,
+    isLoading,
+    refetch,
+    approve: (requestId: string) =>
+      respondMutation.mutateAsync({ requestId, approve: true }).then(() => {}),
+    decline: (requestId: string) =>
+      respondMutation.mutateAsync({ requestId, approve: false }).then(() => {}),
+    responding: respondMutation.isPending,
+  };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useState } from "react";
+import { presenceService } from "../../services/presenceService";
+import type { UserPresence } from "../../types/presence";
+
+/**
+ * Presence for a set of visible users, keyed by user id. Subscriptions from
+ * every mounted screen are batched by the shared presence service.
+ */
+export function usePresence(
+  userIds: Array<string | undefined | null>
+): Record<string, UserPresence> {
+  const ids = useMemo(
+    () =>
+      Array.from(new Set(userIds.filter((id): id is string => !!id))).sort(),
+    [userIds]
+  );
+  const key = ids.join(",");
+
+  const [presence, setPresence] = useState<Record<string, UserPresence>>(() =>
+    snapshot(ids)
+  );
+
+  useEffect(() => {
+    if (ids.length === 0) {
+      setPresence({});
+      return;
+    }
+    const watched = new Set(ids);
+    setPresence(snapshot(ids));
+
+    const onChange = (next: UserPresence) => {
+      if (!watched.has(next.userId)) return;
+      setPresence((prev) => ({ ...prev, [next.userId]: next }));
+    };
+    presenceService.on("change", onChange);
+    const unsubscribe = presenceService.subscribe(ids);
+
+    return () => {
+      presenceService.off("change", onChange);
+      unsubscribe();
+    };
+    // ids is derived from key
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  return presence;
+}
+
+/**
+ * Presence for a single user, e.g. a chat partner or an open profile
+ */
+export function useUserPresence(
+  userId: string | undefined | null
+): UserPresence | undefined {
+  const ids = useMemo(() => [userId], [userId]);
+  const presence = usePresence(ids);
+  return userId ? presence[userId] : undefined;
+}
+
+function snapshot(ids: string[]): Record<string, UserPresence> {
+  const result: Record<string, UserPresence> = {};
+  for (const id of ids) {
+    const presence = presenceService.getPresence(id);
+    if (presence) result[id] = presence;
+  }
+  return result;
+}
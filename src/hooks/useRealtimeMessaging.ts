@@ -13,6 +13,7 @@ import {
   validateWebSocketConnection,
 } from "@utils/websocketConfig";
 import { API_BASE_URL } from "@utils/api";
+import { presenceService } from "../../services/presenceService";
 
 interface UseRealtimeMessagingOptions {
   autoConnect?: boolean;
@@ -83,6 +84,9 @@ export function useRealtimeMessaging(
 
         if (!serviceRef.current) {
           serviceRef.current = new RealtimeMessagingService(wsUrl);
+          serviceRef.current.on("presence", (event) =>
+            presenceService.applyRealtimePresence(event)
+          );
         }
       } catch (e) {
         if (cancelled) return;
@@ -1,4 +1,4 @@
-import { useCallback } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { useAuth } from "@contexts/AuthProvider";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useApiClient } from "@utils/api";
@@ -12,12 +12,21 @@ import {
   CACHE_TTL,
   OfflineSubscriptionManager,
 } from "@utils/subscriptionCache";
+import { entitlements } from "@utils/entitlements";
+import { getTrialState } from "@utils/subscriptionOffers";
+import {
+  getSubscriptionLifecycle,
+  inferLifecycleEvent,
+} from "@utils/subscriptionLifecycle";
+import { showInfoToast, showSuccessToast } from "@utils/toast";
+import { purchaseJournal } from "@utils/purchaseJournal";
 import {
   UserSubscription,
   FeatureUsage,
   SubscriptionInfo,
   SubscriptionPlan,
   SubscriptionFeatures,
+  SubscriptionLifecycle,
   FeatureAvailabilityResult,
 } from "../../types/subscription";
 
@@ -29,6 +38,9 @@ export interface UseSubscriptionResult extends SubscriptionInfo {
   loading: boolean;
   error: string | null;
 
+  // Lifecycle state derived from the verified receipt, with its banner
+  lifecycle: SubscriptionLifecycle;
+
   // Actions
   refreshSubscription: () => Promise<void>;
   trackFeatureUsage: (feature: string) => Promise<void>;
@@ -135,6 +147,20 @@ export function useSubscription(): UseSubscriptionResult {
     gcTime: CACHE_TTL.FEATURE_ACCESS * 2,
   });
 
+  // Keep the entitlement tables current; the version is only read so that a
+  // newly applied config re-renders everything gated on it
+  const { data: entitlementsVersion } = useQuery({
+    queryKey: ["entitlements"],
+    queryFn: async (): Promise<number> => {
+      const config = await entitlements.refresh(() =>
+        apiClient.getEntitlementConfig()
+      );
+      return config.version;
+    },
+    staleTime: CACHE_TTL.ENTITLEMENTS,
+    gcTime: CACHE_TTL.ENTITLEMENTS * 2,
+  });
+
   const loading = subscriptionLoading || usageLoading || featuresLoading;
   const error =
     subscriptionError || usageError
@@ -142,7 +168,15 @@ export function useSubscription(): UseSubscriptionResult {
       : null;
   const subscription = subscriptionData || null;
   const usage = usageData || null;
-  const features = featuresData?.features || null;
+  const lifecycle = useMemo(
+    () => getSubscriptionLifecycle(subscription),
+    [subscription]
+  );
+  // The lifecycle decides entitlement: a plan on hold or refunded grants
+  // nothing even if the record still names it
+  const currentTier = subscription
+    ? lifecycle.tier
+    : featuresData?.plan?.tier || "free";
 
   // Refresh subscription data
   const refreshSubscription = useCallback(async () => {
@@ -154,43 +188,57 @@ export function useSubscription(): UseSubscriptionResult {
 
   // Check if subscription is active - aligned with main project
   const hasActiveSubscription = useCallback((): boolean => {
-    return subscription?.isActive || false;
-  }, [subscription]);
+    return lifecycle.entitled;
+  }, [lifecycle.entitled]);
 
-  // Check if trial is active (not used in main project, but kept for compatibility)
+  // Check if the subscription is still in its free trial
   const isTrialActive = useCallback((): boolean => {
-    return false; // Main project doesn't use trials
-  }, []);
+    return getTrialState(subscription).inTrial;
+  }, [subscription]);
+
+  // React to lifecycle moves seen between fetches: entitlement changes pick
+  // up the new plan's features, and good news gets a toast
+  const lifecycleState = lifecycle.state;
+  const previousLifecycleState = useRef(lifecycleState);
+  useEffect(() => {
+    const previous = previousLifecycleState.current;
+    previousLifecycleState.current = lifecycleState;
+    if (previous === lifecycleState) return;
+
+    queryClient.invalidateQueries({
+      queryKey: ["subscriptionFeatures", userId],
+    });
+    queryClient.invalidateQueries({ queryKey: ["usage", userId] });
+
+    const event = inferLifecycleEvent(previous, lifecycleState);
+    if (event === "convert") {
+      showSuccessToast("Your free trial has ended and your plan is now active");
+    } else if (event === "billing_recovered") {
+      showSuccessToast("Payment received. Your plan is active again");
+    }
+  }, [lifecycleState, queryClient, userId]);
+
+  // A purchase confirmed by a journal replay upgrades the plan in place
+  useEffect(() => {
+    const onValidated = () => {
+      refreshSubscription();
+    };
+    purchaseJournal.on("validated", onValidated);
+    return () => {
+      purchaseJournal.off("validated", onValidated);
+    };
+  }, [refreshSubscription]);
 
   // Get days until expiry - aligned with main project
   const daysUntilExpiry = useCallback((): number => {
     return subscription?.daysRemaining || 0;
   }, [subscription]);
 
-  // Get subscription features - aligned with main project
+  // Get subscription features from the entitlement tables for the plan
   const getSubscriptionFeatures = useCallback((): SubscriptionFeatures => {
-    if (features) {
-      return features;
-    }
-    // Fallback to default free features
-    return {
-      canViewMatches: true,
-      canChatWithMatches: true,
-      canInitiateChat: false,
-      canSendUnlimitedLikes: false,
-      canViewFullProfiles: false,
-      canHideFromFreeUsers: false,
-      canBoostProfile: false,
-      canViewProfileViewers: false,
-      canUseAdvancedFilters: false,
-      hasSpotlightBadge: false,
-      canUseIncognitoMode: false,
-      canAccessPrioritySupport: false,
-      canSeeReadReceipts: false,
-      maxLikesPerDay: 5,
-      boostsPerMonth: 0,
-    };
-  }, [features]);
+    return entitlements.getFeatures(currentTier);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTier, entitlementsVersion]);
 
   // Remove old live feature access query - now handled by featuresData
 
@@ -253,31 +301,6 @@ export function useSubscription(): UseSubscriptionResult {
     },
   });
 
-  const purchaseSubscriptionMutation = useMutation({
-    mutationFn: async ({
-      platform,
-      productId,
-      purchaseToken,
-      receiptData,
-    }: {
-      platform: "ios" | "android";
-      productId: string;
-      purchaseToken: string;
-      receiptData?: string;
-    }) => {
-      const response = await apiClient.purchaseSubscription({
-        platform,
-        productId,
-        purchaseToken,
-        receiptData,
-      });
-      return response.success === true;
-    },
-    onSuccess: () => {
-      refreshSubscription();
-    },
-  });
-
   const restorePurchasesMutation = useMutation({
     mutationFn: () => apiClient.restorePurchases(),
     onSuccess: () => {
@@ -387,35 +410,17 @@ export function useSubscription(): UseSubscriptionResult {
           return false;
         }
 
-        // Extract purchase data
-        const purchaseToken = purchaseResult.purchaseToken || "";
-        const receiptData = purchaseResult.receiptData;
-
-        console.log("Purchase successful, validating with server...");
-
-        // Validate with server
-        return new Promise<boolean>((resolve) => {
-          purchaseSubscriptionMutation.mutate(
-            { platform, productId, purchaseToken, receiptData },
-            {
-              onSuccess: (success) => {
-                console.log("Server validation result:", success);
-                resolve(success);
-              },
-              onError: (error) => {
-                console.error("Server validation failed:", error);
-                const appError = errorHandler.handle(error, {
-                  component: "useSubscription",
-                  action: "purchaseSubscription",
-                  userId,
-                  metadata: { planId, platform, productId },
-                });
-                errorHandler.showError(appError);
-                resolve(false);
-              },
-            }
+        // The manager has already validated the receipt with the server;
+        // one it couldn't confirm is journalled and retried in the background
+        if (purchaseResult.pendingValidation) {
+          showInfoToast(
+            "Payment received. Your plan will update once it's confirmed."
           );
-        });
+          return false;
+        }
+
+        await refreshSubscription();
+        return true;
       } catch (error) {
         console.error("Error in purchaseSubscription:", error);
         const appError = errorHandler.handle(error, {
@@ -428,7 +433,7 @@ export function useSubscription(): UseSubscriptionResult {
         return false;
       }
     },
-    [userId, purchaseSubscriptionMutation]
+    [userId, refreshSubscription]
   );
 
   const restorePurchases = useCallback(async (): Promise<boolean> => {
@@ -510,6 +515,7 @@ export function useSubscription(): UseSubscriptionResult {
     // Loading states
     loading,
     error,
+    lifecycle,
 
     // Helper methods
     canAccessFeature,
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  FinalizedVoiceClip,
+  VoiceDraft,
+  voiceDraftStore,
+} from "../../services/voiceDrafts";
+import type { VoiceTrimRange } from "../../utils/voiceTrim";
+
+/**
+ * The unsent voice recording of a conversation, if any
+ */
+export function useVoiceDraft(conversationId: string | undefined) {
+  const [draft, setDraft] = useState<VoiceDraft | undefined>(() =>
+    conversationId ? voiceDraftStore.getDraft(conversationId) : undefined
+  );
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!conversationId) {
+      setDraft(undefined);
+      setLoaded(true);
+      return;
+    }
+    let active = true;
+    const onChange = (event: {
+      conversationId: string;
+      draft: VoiceDraft | undefined;
+    }) => {
+      if (event.conversationId === conversationId) setDraft(event.draft);
+    };
+    voiceDraftStore.on("change", onChange);
+    voiceDraftStore.hydrate().then(() => {
+      if (!active) return;
+      setDraft(voiceDraftStore.getDraft(conversationId));
+      setLoaded(true);
+    });
+    return () => {
+      active = false;
+      voiceDraftStore.off("change", onChange);
+    };
+  }, [conversationId]);
+
+  const saveDraft = useCallback(
+    (recording: { uri: string; duration: number; waveform?: number[] }) =>
+      conversationId
+        ? voiceDraftStore.saveDraft(conversationId, recording)
+        : Promise.resolve(undefined),
+    [conversationId]
+  );
+
+  const updateTrim = useCallback(
+    (range: Partial<VoiceTrimRange>) => {
+      if (conversationId) voiceDraftStore.updateTrim(conversationId, range);
+    },
+    [conversationId]
+  );
+
+  const discard = useCallback(
+    () =>
+      conversationId
+        ? voiceDraftStore.discardDraft(conversationId)
+        : Promise.resolve(),
+    [conversationId]
+  );
+
+  const finalize = useCallback(
+    (): Promise<FinalizedVoiceClip | null> =>
+      conversationId
+        ? voiceDraftStore.finalizeDraft(conversationId)
+        : Promise.resolve(null),
+    [conversationId]
+  );
+
+  return {
+    draft,
+    loaded,
+    canTrim: voiceDraftStore.canTrim(),
+    saveDraft,
+    updateTrim,
+    discard,
+    finalize,
+  };
+}
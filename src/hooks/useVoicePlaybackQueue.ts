@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  buildVoiceQueue,
+  VoicePlaybackRate,
+  VoicePlaybackState,
+  VoiceQueueItem,
+  voicePlaybackController,
+} from "../../services/voicePlaybackController";
+import type { Message } from "../../types/message";
+
+/**
+ * Keep the shared playback queue in step with a conversation's messages
+ */
+export function useVoicePlaylist(
+  conversationId: string | undefined,
+  messages: Message[],
+  currentUserId: string | undefined
+): void {
+  useEffect(() => {
+    if (!conversationId || !currentUserId) return;
+    voicePlaybackController.setPlaylist(
+      conversationId,
+      buildVoiceQueue(messages, currentUserId)
+    );
+  }, [conversationId, messages, currentUserId]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+    return () => voicePlaybackController.clearPlaylist(conversationId);
+  }, [conversationId]);
+}
+
+/**
+ * Playback of one voice note through the shared controller. Only the note
+ * that's loaded reports live progress; others show their saved position.
+ */
+export function useVoiceClip(item: VoiceQueueItem | null) {
+  const [state, setState] = useState<VoicePlaybackState>(() =>
+    voicePlaybackController.getState()
+  );
+
+  useEffect(() => {
+    if (!item) return;
+    const onChange = (next: VoicePlaybackState) => setState(next);
+    voicePlaybackController.on("change", onChange);
+    voicePlaybackController.hydrate();
+    return () => {
+      voicePlaybackController.off("change", onChange);
+    };
+  }, [item]);
+
+  const isCurrent = !!item && state.current?.messageId === item.messageId;
+  const duration =
+    isCurrent && state.duration ? state.duration : item?.duration ?? 0;
+  const position = isCurrent
+    ? state.position
+    : item
+    ? voicePlaybackController.getSavedPosition(item.messageId)
+    : 0;
+
+  const toggle = useCallback(() => {
+    if (item) voicePlaybackController.toggle(item);
+  }, [item]);
+
+  const seek = useCallback(
+    (seconds: number) => {
+      if (!item) return;
+      if (voicePlaybackController.isCurrent(item.messageId)) {
+        voicePlaybackController.seek(seconds);
+      }
+    },
+    [item]
+  );
+
+  const cycleRate = useCallback(
+    (): VoicePlaybackRate => voicePlaybackController.cycleRate(),
+    []
+  );
+
+  return {
+    isCurrent,
+    isPlaying: isCurrent && state.isPlaying,
+    isLoading: isCurrent && state.isLoading,
+    error: isCurrent ? state.error : null,
+    position,
+    duration,
+    progress: duration > 0 ? Math.min(1, position / duration) : 0,
+    rate: state.rate,
+    toggle,
+    seek,
+    cycleRate,
+  };
+}
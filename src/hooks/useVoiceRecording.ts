@@ -1,13 +1,24 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { useAudioRecorder, RecordingPresets, AudioModule, setAudioModeAsync } from "expo-audio";
+import { useAudioRecorder, AudioModule, setAudioModeAsync } from "expo-audio";
 import { Platform } from "react-native";
+import NetInfo from "@react-native-community/netinfo";
 import { useVoiceMessageLimits } from "./useMessagingFeatures";
+import { WaveformCollector } from "../../utils/peaks";
+import {
+  VOICE_ENCODING_PROFILES,
+  VoiceEncodingPreference,
+  VoiceEncodingProfile,
+  getVoiceEncodingPreference,
+  selectVoiceEncodingProfile,
+  toRecordingOptions,
+} from "../../utils/voiceEncoding";
 
 interface VoiceRecordingOptions {
   maxDuration?: number; // in seconds
-  quality?: any;
+  quality?: any; // explicit expo-audio options; overrides profile
+  profile?: VoiceEncodingPreference; // defaults to the saved preference
   onRecordingStart?: () => void;
-  onRecordingStop?: (uri: string, duration: number) => void;
+  onRecordingStop?: (uri: string, duration: number, waveform: number[]) => void;
   onRecordingError?: (error: Error) => void;
   onDurationExceeded?: () => void;
 }
@@ -26,13 +37,21 @@ export interface UseVoiceRecordingResult {
   startRecording: () => Promise<boolean>;
   stopRecording: () => Promise<Blob | null>;
   cancelRecording: () => Promise<void>;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
 
   // State
   isRecording: boolean;
+  // Recording is still open (isRecording stays true) but not capturing
+  isPaused: boolean;
   duration: number;
   audioUri: string | null;
   error: string | null;
   hasPermission: boolean | null;
+  // Peaks of the last recording, captured from metering while recording
+  waveform: number[];
+  // Encoding used for the current or last recording
+  profile: VoiceEncodingProfile | null;
 
   // Subscription validation
   maxDuration: number;
@@ -45,22 +64,32 @@ export interface UseVoiceRecordingResult {
 export function useVoiceRecording(options: VoiceRecordingOptions = {}): UseVoiceRecordingResult {
   const {
     maxDuration = 300, // 5 minutes default
-    quality = RecordingPresets.HIGH_QUALITY,
+    quality,
+    profile: profilePreference,
     onRecordingStart,
     onRecordingStop,
     onRecordingError,
     onDurationExceeded,
   } = options;
-  const audioRecorder = useAudioRecorder(quality);
+  const audioRecorder = useAudioRecorder(
+    quality ?? toRecordingOptions(VOICE_ENCODING_PROFILES.high)
+  );
   const [recording, setRecording] = useState<any | null>(null);
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [duration, setDuration] = useState(0);
   const [audioUri, setAudioUri] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [waveform, setWaveform] = useState<number[]>([]);
+  const [profile, setProfile] = useState<VoiceEncodingProfile | null>(null);
 
+  const waveformRef = useRef(new WaveformCollector());
   const durationInterval = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number>(0);
+  // Time recorded before the current stretch, so pauses don't count
+  const recordedMsRef = useRef<number>(0);
+  const tickRef = useRef<() => void>(() => {});
 
   // Get subscription-based voice message limits
   const { maxDuration: subscriptionMaxDuration, isDurationAllowed } =
@@ -109,6 +138,46 @@ export function useVoiceRecording(options: VoiceRecordingOptions = {}): UseVoice
     };
   }, []);
 
+  const elapsedSeconds = () =>
+    Math.floor(
+      (recordedMsRef.current +
+        (startTimeRef.current ? Date.now() - startTimeRef.current : 0)) /
+        1000
+    );
+
+  // Runs every 100ms while capturing; kept in a ref so the interval always
+  // sees the latest state
+  tickRef.current = () => {
+    const currentDuration = elapsedSeconds();
+    setDuration(currentDuration);
+    waveformRef.current.add(audioRecorder.getStatus().metering);
+
+    // Check if max duration exceeded
+    if (currentDuration >= effectiveMaxDuration) {
+      stopRecording();
+      onDurationExceeded?.();
+    }
+  };
+
+  const startTimer = () => {
+    if (durationInterval.current) {
+      clearInterval(durationInterval.current);
+    }
+    startTimeRef.current = Date.now();
+    durationInterval.current = setInterval(() => tickRef.current(), 100);
+  };
+
+  const stopTimer = () => {
+    if (durationInterval.current) {
+      clearInterval(durationInterval.current);
+      durationInterval.current = null;
+    }
+    if (startTimeRef.current) {
+      recordedMsRef.current += Date.now() - startTimeRef.current;
+      startTimeRef.current = 0;
+    }
+  };
+
   // Start recording function
   const startRecording = useCallback(async (): Promise<boolean> => {
     try {
@@ -126,28 +195,31 @@ export function useVoiceRecording(options: VoiceRecordingOptions = {}): UseVoice
       setError(null);
       setDuration(0);
       setAudioUri(null);
+      setWaveform([]);
+      waveformRef.current.reset();
+
+      // Smaller encodings on slow networks, unless the caller chose
+      const nextProfile = selectVoiceEncodingProfile(
+        await NetInfo.fetch(),
+        profilePreference ?? (await getVoiceEncodingPreference())
+      );
+      setProfile(nextProfile);
 
       // Prepare and start recording with expo-audio
-      await audioRecorder.prepareToRecordAsync();
+      await audioRecorder.prepareToRecordAsync(
+        quality
+          ? { ...quality, isMeteringEnabled: true }
+          : toRecordingOptions(nextProfile)
+      );
       audioRecorder.record();
 
       setRecording(audioRecorder);
       setIsRecording(true);
-      startTimeRef.current = Date.now();
+      setIsPaused(false);
+      recordedMsRef.current = 0;
 
       // Start duration timer
-      durationInterval.current = setInterval(() => {
-        const currentDuration = Math.floor(
-          (Date.now() - startTimeRef.current) / 1000
-        );
-        setDuration(currentDuration);
-
-        // Check if max duration exceeded
-        if (currentDuration >= effectiveMaxDuration) {
-          stopRecording();
-          onDurationExceeded?.();
-        }
-      }, 100);
+      startTimer();
 
       onRecordingStart?.();
       return true;
@@ -163,12 +235,38 @@ export function useVoiceRecording(options: VoiceRecordingOptions = {}): UseVoice
   }, [
     hasPermission,
     quality,
-    effectiveMaxDuration,
+    profilePreference,
     onRecordingStart,
-    onDurationExceeded,
     onRecordingError,
   ]);
 
+  const pauseRecording = useCallback(() => {
+    if (!recording || isPaused) return;
+    try {
+      audioRecorder.pause();
+      stopTimer();
+      setDuration(elapsedSeconds());
+      setIsPaused(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to pause recording"
+      );
+    }
+  }, [recording, isPaused]);
+
+  const resumeRecording = useCallback(() => {
+    if (!recording || !isPaused) return;
+    try {
+      audioRecorder.record();
+      startTimer();
+      setIsPaused(false);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to resume recording"
+      );
+    }
+  }, [recording, isPaused]);
+
   // Stop recording function
   const stopRecording = useCallback(async (): Promise<Blob | null> => {
     if (!recording) {
@@ -177,26 +275,25 @@ export function useVoiceRecording(options: VoiceRecordingOptions = {}): UseVoice
 
     try {
       // Stop the timer
-  if (durationInterval.current) {
-        clearInterval(durationInterval.current);
-        durationInterval.current = null;
-      }
+      stopTimer();
 
-  // Stop recording
-  await audioRecorder.stop();
-      const finalDuration = Math.floor(
-        (Date.now() - startTimeRef.current) / 1000
-      );
+      // Stop recording
+      await audioRecorder.stop();
+      const finalDuration = elapsedSeconds();
       setDuration(finalDuration);
 
-  // Get recording URI
-  const uri = audioRecorder.uri;
+      // Get recording URI
+      const uri = audioRecorder.uri;
       setAudioUri(uri || null);
       setIsRecording(false);
+      setIsPaused(false);
       setRecording(null);
 
+      const peaks = waveformRef.current.toPeaks();
+      setWaveform(peaks);
+
       if (uri) {
-        onRecordingStop?.(uri, finalDuration);
+        onRecordingStop?.(uri, finalDuration, peaks);
 
         // Convert URI to Blob for web compatibility
         if (Platform.OS === "web") {
@@ -225,15 +322,13 @@ export function useVoiceRecording(options: VoiceRecordingOptions = {}): UseVoice
 
     try {
       // Stop the timer
-      if (durationInterval.current) {
-        clearInterval(durationInterval.current);
-        durationInterval.current = null;
-      }
+      stopTimer();
 
       // Stop and delete recording
       await audioRecorder.stop();
 
       setIsRecording(false);
+      setIsPaused(false);
       setRecording(null);
       setAudioUri(null);
       setDuration(0);
@@ -260,13 +355,18 @@ export function useVoiceRecording(options: VoiceRecordingOptions = {}): UseVoice
     startRecording,
     stopRecording,
     cancelRecording,
+    pauseRecording,
+    resumeRecording,
 
     // State
     isRecording,
+    isPaused,
     duration,
     audioUri,
     error,
     hasPermission,
+    waveform,
+    profile,
 
     // Subscription validation
     maxDuration: effectiveMaxDuration,
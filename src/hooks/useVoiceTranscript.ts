@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  StoredTranscript,
+  voiceTranscriptionService,
+} from "../../services/voiceTranscription";
+import type { Message } from "../../types/message";
+
+type VoiceMessageFields = Pick<
+  Message,
+  "transcript" | "transcriptStatus" | "transcriptLanguage"
+>;
+
+/**
+ * The transcript of one voice message: the one it arrived with, else one
+ * made on this device. transcribe() starts (or retries) transcription.
+ */
+export function useVoiceTranscript(
+  storageId: string | undefined,
+  message: VoiceMessageFields & {
+    conversationId?: string;
+    messageId?: string;
+    duration?: number;
+    encrypted?: boolean;
+  } = {}
+): { transcript?: StoredTranscript; transcribe: () => void } {
+  const [local, setLocal] = useState<StoredTranscript | undefined>(() =>
+    storageId ? voiceTranscriptionService.getTranscript(storageId) : undefined
+  );
+
+  useEffect(() => {
+    if (!storageId) {
+      setLocal(undefined);
+      return;
+    }
+    let active = true;
+    const onChange = (next: StoredTranscript & { storageId: string }) => {
+      if (next.storageId === storageId) setLocal(next);
+    };
+    voiceTranscriptionService.on("change", onChange);
+    voiceTranscriptionService.hydrate().then(() => {
+      if (active) setLocal(voiceTranscriptionService.getTranscript(storageId));
+    });
+    return () => {
+      active = false;
+      voiceTranscriptionService.off("change", onChange);
+    };
+  }, [storageId]);
+
+  const { conversationId, messageId, duration, encrypted } = message;
+  const transcribe = useCallback(() => {
+    if (!storageId) return;
+    voiceTranscriptionService.transcribe(
+      { storageId, duration, encrypted },
+      conversationId && messageId ? { conversationId, messageId } : undefined
+    );
+  }, [storageId, conversationId, messageId, duration, encrypted]);
+
+  const fromMessage: StoredTranscript | undefined = message.transcript
+    ? {
+        status: "completed",
+        text: message.transcript,
+        language: message.transcriptLanguage,
+        updatedAt: 0,
+      }
+    : message.transcriptStatus
+    ? { status: message.transcriptStatus, updatedAt: 0 }
+    : undefined;
+
+  // A finished transcript on the message beats a pending or failed local one
+  const transcript =
+    fromMessage?.status === "completed" ? fromMessage : local ?? fromMessage;
+
+  return { transcript, transcribe };
+}
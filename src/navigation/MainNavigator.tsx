@@ -23,6 +23,8 @@ import IcebreakersScreen from "@screens/main/IcebreakersScreen";
 import ContactScreen from "@screens/support/ContactScreen";
 import AIChatbotScreen from "@screens/support/AIChatbotScreen";
 import ShortlistsScreen from "@screens/main/ShortlistsScreen";
+import SafetyNumberScreen from "@screens/main/SafetyNumberScreen";
+import MessageSearchScreen from "@screens/main/MessageSearchScreen";
 import withScreenContainer from "@components/common/withScreenContainer";
 import { View, Text, Pressable, StyleSheet, Platform } from "react-native";
 import { NavGuideProvider, useNavGuide } from "../../contexts/NavGuideContext";
@@ -313,6 +315,16 @@ export default function MainNavigator() {
           component={withSC(SearchScreen)}
           options={getScreenTransition("Search")}
         />
+        <RootStack.Screen
+          name="MessageSearch"
+          component={MessageSearchScreen}
+          options={getScreenTransition("default")}
+        />
+        <RootStack.Screen
+          name="SafetyNumber"
+          component={SafetyNumberScreen}
+          options={getScreenTransition("default")}
+        />
       </RootStack.Navigator>
     </NavGuideProvider>
   );
@@ -42,6 +42,15 @@ export type ChatStackParamList = {
     conversationId: string;
     partnerName?: string;
     partnerId?: string;
+    // Scroll to and highlight a message, e.g. one opened from search
+    focusMessageId?: string;
+    focusMessageAt?: number;
+  };
+  MessageSearch: undefined;
+  SafetyNumber: {
+    conversationId: string;
+    partnerId: string;
+    partnerName?: string;
   };
 };
 
@@ -23,9 +23,12 @@ import { Message } from "@/types/message";
 import { OfflineMessageStatus } from "@components/messaging/OfflineMessageStatus";
 import { useToast } from "@/providers/ToastContext";
 import { VoiceMessageDisplay } from "@components/messaging/VoiceMessage";
+import { VoiceTranscript } from "@components/messaging/VoiceTranscript";
 import { VoiceRecorder } from "@components/messaging/VoiceRecorder";
 import { useTypingIndicator } from "@/hooks/useTypingIndicator";
 import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { useVoicePlaylist } from "@/hooks/useVoicePlaybackQueue";
+import { useVoiceDraft } from "@/hooks/useVoiceDraft";
 import {
   useMessagingFeatures,
   useVoiceMessageLimits,
@@ -33,15 +36,19 @@ import {
 } from "@/hooks/useMessagingFeatures";
 import MessagesList from "@components/chat/MessagesList";
 import { useApiClient } from "@/utils/api";
-import { VoiceMessageManager } from "../../../services/voiceMessageManager";
 import { computePeaksFromUri } from "@/utils/peaks";
-import type { MessagingAPI } from "@/types/messaging";
+import {
+  DISAPPEARING_TIMER_OPTIONS,
+  describeDisappearingTimer,
+} from "@/utils/disappearingMessages";
 import * as ImagePicker from "expo-image-picker";
 import * as ImageManipulator from "expo-image-manipulator";
+import type { OutboxJob } from "@/utils/offlineMessageQueue";
 import {
-  imageUploadQueue,
-  type ImageUploadItem,
-} from "@/utils/imageUploadQueue";
+  initializeMessageOutbox,
+  messageOutbox,
+} from "../../../services/messageOutbox";
+import { messageEncryption } from "../../../services/messageEncryptionService";
 import { BottomSheet } from "@/components/ui/BottomSheet";
 import { useSubscription } from "@/hooks/useSubscription";
 import { validatePickedImage } from "@/utils/imageValidation";
@@ -51,7 +58,13 @@ import SafetyActionSheet from "@components/safety/SafetyActionSheet";
 import ReportUserModal from "@components/safety/ReportUserModal";
 import AppHeader from "@/components/common/AppHeader";
 import { useFeatureGuard } from "@/hooks/useFeatureGuard";
+import { useUserPresence } from "@/hooks/usePresence";
+import { formatLastSeen } from "@services/presenceService";
 import HintPopover from "@/components/ui/HintPopover";
+import ScheduleMessageSheet, {
+  formatScheduledTime,
+} from "@components/chat/ScheduleMessageSheet";
+import ScheduledMessagesSheet from "@components/chat/ScheduledMessagesSheet";
 // (Note: ChatScreenProps defined below)
 
 type ChatRouteParams = {
@@ -59,6 +72,8 @@ type ChatRouteParams = {
     conversationId: string;
     partnerName?: string;
     partnerId?: string;
+    focusMessageId?: string;
+    focusMessageAt?: number;
   };
 };
 
@@ -70,7 +85,8 @@ interface ChatScreenProps {
 
 export default function ChatScreen({ navigation }: ChatScreenProps) {
   const route = useRoute<ChatScreenRoute>();
-  const { conversationId, partnerName, partnerId } = route.params;
+  const { conversationId, partnerName, partnerId, focusMessageAt } =
+    route.params;
   const { user } = useAuth();
   const userId = user?.id;
   const scrollViewRef = useRef<any>(null);
@@ -112,100 +128,45 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     hasMessages,
     canSend,
     retryMessageById,
+    disappearingTimer,
+    setDisappearingTimer,
   } = useConversationMessaging(conversationId);
+  // Unread voice notes play one after another
+  useVoicePlaylist(conversationId, messages, userId);
 
-  const apiClient = useApiClient();
-  // Adapter to make our existing apiClient conform to MessagingAPI expected by VoiceMessageManager
-  class ApiClientAdapter implements MessagingAPI {
-    constructor(private client: any) {}
-    async getMessages(
-      conversationId: string,
-      options?: { limit?: number; before?: number }
-    ) {
-      return this.client.transportRequest(
-        `/conversations/${conversationId}/messages`,
-        { method: "GET" }
-      );
-    }
-    async sendMessage(data: any) {
-      return this.client.transportRequest("/messages", {
-        method: "POST",
-        body: data,
-      });
-    }
-    async markConversationAsRead(conversationId: string) {
-      return this.client.transportRequest(
-        `/conversations/${conversationId}/read`,
-        { method: "POST" }
-      );
-    }
-    async generateVoiceUploadUrl() {
-      return this.client.transportRequest("/voice/upload-url", {
-        method: "POST",
-      });
-    }
-    async getVoiceMessageUrl(storageId: string) {
-      return this.client.transportRequest(`/voice/${storageId}/url`);
-    }
-    async sendTypingIndicator(
-      _conversationId: string,
-      _action: "start" | "stop"
+  // Reopen an unsent voice recording for review
+  const { draft: voiceDraft } = useVoiceDraft(conversationId);
+  const hasVoiceDraft = !!voiceDraft;
+  useEffect(() => {
+    if (hasVoiceDraft) setShowVoiceRecorder(true);
+  }, [hasVoiceDraft]);
+
+  // Jump to a message opened from search, paging back until it is loaded
+  const [focusMessageId, setFocusMessageId] = useState(
+    route.params.focusMessageId
+  );
+  const focusPagesRef = useRef(0);
+  useEffect(() => {
+    if (!focusMessageId || loading || messages.length === 0) return;
+    if (messages.some((m) => m._id === focusMessageId)) return;
+
+    const oldest = messages[0]?.createdAt || 0;
+    if (
+      focusPagesRef.current >= 10 ||
+      (focusMessageAt !== undefined && oldest <= focusMessageAt)
     ) {
-      // no-op here; handled elsewhere in app
-      return { success: true } as any;
-    }
-    async sendDeliveryReceipt(_messageId: string, _status: string) {
-      // no-op here; handled elsewhere in app
-      return { success: true } as any;
-    }
-    async getConversations() {
-      return this.client.transportRequest("/conversations");
-    }
-    async createConversation(participantIds: string[]) {
-      return this.client.transportRequest("/conversations", {
-        method: "POST",
-        body: { participantIds },
-      });
-    }
-    async deleteConversation(conversationId: string) {
-      return this.client.transportRequest(`/conversations/${conversationId}`, {
-        method: "DELETE",
-      });
+      setFocusMessageId(undefined);
+      toast?.show?.("That message is no longer available", "info");
+      return;
     }
-  }
-  const voiceManagerRef = useRef<VoiceMessageManager | null>(null);
-  if (!voiceManagerRef.current) {
-    voiceManagerRef.current = new VoiceMessageManager(
-      new ApiClientAdapter(apiClient)
-    );
-  }
-  // Presence state for partner
-  const [partnerPresence, setPartnerPresence] = useState<{
-    isOnline: boolean;
-    lastSeen: number;
-  }>({ isOnline: false, lastSeen: 0 });
-  const presenceIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Compute last seen label similar to web
-  const lastSeenLabel = useMemo(() => {
-    if (partnerPresence.isOnline) return "Online";
-    const ts = partnerPresence.lastSeen;
-    if (!ts) return "Offline";
-    const d = new Date(ts);
-    const now = new Date();
-    const diffMs = now.getTime() - d.getTime();
-    const diffMinutes = Math.floor(diffMs / (1000 * 60));
-    const diffHours = Math.floor(diffMinutes / 60);
-    const diffDays = Math.floor(diffHours / 24);
-    if (diffMinutes < 1) return "Last seen just now";
-    if (diffMinutes < 60) return `Last seen ${diffMinutes}m ago`;
-    if (diffHours < 24) return `Last seen ${diffHours}h ago`;
-    if (diffDays < 7) return `Last seen ${diffDays}d ago`;
-    return `Last seen ${d.toLocaleDateString([], {
-      month: "short",
-      day: "numeric",
-    })}`;
-  }, [partnerPresence.isOnline, partnerPresence.lastSeen]);
+    focusPagesRef.current++;
+    loadMessages({ before: oldest, limit: 50 });
+  }, [focusMessageId, focusMessageAt, loading, messages, loadMessages, toast]);
+
+  const apiClient = useApiClient();
+  // Partner presence, shared with the other screens showing them
+  const partnerPresence = useUserPresence(partnerId);
+  const lastSeenLabel = formatLastSeen(partnerPresence);
 
   // Draft persistence per conversation
   useEffect(() => {
@@ -230,43 +191,6 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     return () => clearTimeout(t);
   }, [inputText, conversationId]);
 
-  // Presence polling + heartbeat
-  useEffect(() => {
-    let mounted = true;
-    const poll = async () => {
-      try {
-        // Heartbeat current user
-        await apiClient.heartbeat();
-        if (partnerId) {
-          const res = await apiClient.getPresence(partnerId);
-          if (mounted && res.success) {
-            const payload: any = (res.data as any)?.data ?? res.data;
-            // web returns { data: { isOnline, lastSeen } } or direct shape depending on envelope
-            const presence =
-              payload?.isOnline !== undefined && payload?.lastSeen !== undefined
-                ? payload
-                : res.data;
-            setPartnerPresence({
-              isOnline: !!(presence as any).isOnline,
-              lastSeen: Number((presence as any).lastSeen) || 0,
-            });
-          }
-        }
-      } catch {
-        // ignore
-      }
-    };
-    // initial fetch
-    poll();
-    // start interval every 10s (parity with web)
-    presenceIntervalRef.current = setInterval(poll, 10000);
-    return () => {
-      mounted = false;
-      if (presenceIntervalRef.current)
-        clearInterval(presenceIntervalRef.current);
-      presenceIntervalRef.current = null;
-    };
-  }, [apiClient, partnerId]);
   const { usage, subscription } = useSubscription();
   const { ensureAllowed } = useFeatureGuard();
   const subscriptionPlan = subscription?.plan || subscription?.tier || "free";
@@ -305,23 +229,41 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [pendingAsset, setPendingAsset] =
     useState<ImagePicker.ImagePickerAsset | null>(null);
-  const [localUploads, setLocalUploads] = useState<ImageUploadItem[]>([]);
   const [showScrollToBottom, setShowScrollToBottom] = useState(false);
-  // Ephemeral voice uploads state: track by tempId
-  const [pendingVoice, setPendingVoice] = useState<
-    Record<
-      string,
-      {
-        uri: string;
-        progress: number; // 0..1
-        duration: number; // seconds
-        createdAt: number;
-        error?: string;
-        peaks?: number[];
-        cancel?: () => void;
-      }
-    >
-  >({});
+  // Voice and image sends still in the outbox for this conversation
+  const [outboxJobs, setOutboxJobs] = useState<OutboxJob[]>([]);
+  const localUploads = useMemo(
+    () => outboxJobs.filter((job) => job.kind === "image"),
+    [outboxJobs]
+  );
+  const pendingVoice = useMemo(
+    () => outboxJobs.filter((job) => job.kind === "voice"),
+    [outboxJobs]
+  );
+  // "Send later" texts waiting in the outbox
+  const [scheduledJobs, setScheduledJobs] = useState<OutboxJob[]>([]);
+  const [scheduledListVisible, setScheduledListVisible] = useState(false);
+  const [scheduleTarget, setScheduleTarget] = useState<{
+    text: string;
+    job?: OutboxJob;
+  } | null>(null);
+  const [isEncrypted, setIsEncrypted] = useState(() =>
+    messageEncryption.isEncrypted(conversationId)
+  );
+
+  // Either side can turn on end-to-end encryption
+  useEffect(() => {
+    setIsEncrypted(messageEncryption.isEncrypted(conversationId));
+    const onUpdated = (e: { conversationId: string; encrypted: boolean }) => {
+      if (e.conversationId === conversationId) setIsEncrypted(e.encrypted);
+    };
+    messageEncryption.on("conversation_updated", onUpdated);
+    return () => {
+      messageEncryption.off("conversation_updated", onUpdated);
+      // Decrypted photos and voice notes only stay while the chat is open
+      messageEncryption.clearDecryptedFiles();
+    };
+  }, [conversationId]);
 
   // Real-time features
   const typingIndicator = useTypingIndicator({
@@ -659,7 +601,12 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     typingIndicator.handleTextChange(text);
   };
 
-  const handleVoiceMessage = async (audioUri: string, duration: number) => {
+  const handleVoiceMessage = async (
+    audioUri: string,
+    duration: number,
+    waveform?: number[],
+    mimeType?: string
+  ) => {
     setShowVoiceRecorder(false);
     if (!conversationId || !userId || !partnerId) return;
     try {
@@ -679,160 +626,50 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
         setUpgradeVisible(true);
         return;
       }
-      const tempId = `v_${Date.now()}_${Math.random()
-        .toString(36)
-        .slice(2, 8)}`;
-      // Seed an ephemeral pending bubble with progress
-      setPendingVoice((prev) => ({
-        ...prev,
-        [tempId]: {
-          uri: audioUri,
-          progress: 0.05,
+      // Peaks captured while recording; decode the file where we can't
+      let peaks = waveform?.length ? waveform : undefined;
+      if (!peaks) {
+        const decoded = await computePeaksFromUri(audioUri);
+        peaks = decoded.length ? decoded : undefined;
+      }
+
+      await messageOutbox.enqueueJob({
+        kind: "voice",
+        message: {
+          conversationId,
+          fromUserId: userId,
+          toUserId: partnerId,
+          text: "",
+          type: "voice",
           duration: Math.round(duration),
           createdAt: Date.now(),
         },
-      }));
-      const mgr = voiceManagerRef.current!;
-      // Compute lightweight peaks to send for consistent rendering
-      let peaks: number[] | undefined = undefined;
-      try {
-        peaks = await computePeaksFromUri(audioUri, 28);
-      } catch {}
-
-      const handle = mgr.beginUploadVoiceMessage(
-        audioUri,
-        conversationId,
-        userId,
-        partnerId,
-        Math.round(duration),
-        {
-          onProgress: (p) =>
-            setPendingVoice((prev) =>
-              prev[tempId]
-                ? {
-                    ...prev,
-                    [tempId]: {
-                      ...prev[tempId],
-                      progress: Math.max(0, Math.min(1, p)),
-                    },
-                  }
-                : prev
-            ),
+        attachment: {
+          localUri: audioUri,
+          contentType: mimeType || "audio/m4a",
           peaks,
-        }
-      );
-      // store cancel
-      setPendingVoice((prev) =>
-        prev[tempId]
-          ? {
-              ...prev,
-              [tempId]: { ...prev[tempId], peaks, cancel: handle.cancel },
-            }
-          : prev
-      );
-
-      const res = await handle.promise;
-      if (res?.success) {
-        // Remove ephemeral and refresh to reflect server message
-        setPendingVoice((prev) => {
-          const { [tempId]: _omit, ...rest } = prev;
-          return rest;
-        });
-        await loadMessages();
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-        toast?.show?.("Voice message sent", "success");
-      } else {
-        const msg =
-          (res as any)?.error?.message || "Failed to send voice message";
-        setPendingVoice((prev) =>
-          prev[tempId]
-            ? { ...prev, [tempId]: { ...prev[tempId], error: msg } }
-            : prev
-        );
-        toast?.show?.(msg, "error");
+        },
+      });
+      if (!isOnline) {
+        toast?.show?.("Voice message will send when you're online", "info");
       }
     } catch (e: any) {
-      const msg = e?.message || "Failed to send voice message";
-      // Mark ephemeral as failed for retry
-      setPendingVoice((prev) => {
-        const keys = Object.keys(prev);
-        if (!keys.length) return prev;
-        const lastKey = keys[keys.length - 1];
-        return { ...prev, [lastKey]: { ...prev[lastKey], error: msg } };
-      });
-      toast?.show?.(msg, "error");
+      toast?.show?.(e?.message || "Failed to send voice message", "error");
     }
   };
 
   // Actions for voice upload retries / cancel / dismiss
-  const retryPendingVoice = async (tempId: string) => {
-    const entry = pendingVoice[tempId];
-    if (!entry) return;
-    if (!conversationId || !userId || !partnerId) return;
-    try {
-      // reset error/progress
-      setPendingVoice((prev) => ({
-        ...prev,
-        [tempId]: { ...prev[tempId], error: undefined, progress: 0 },
-      }));
-      const mgr = voiceManagerRef.current!;
-      const handle = mgr.beginUploadVoiceMessage(
-        entry.uri,
-        conversationId,
-        userId,
-        partnerId,
-        pendingVoice[tempId].duration,
-        {
-          onProgress: (p) =>
-            setPendingVoice((prev) =>
-              prev[tempId]
-                ? { ...prev, [tempId]: { ...prev[tempId], progress: p } }
-                : prev
-            ),
-          peaks: pendingVoice[tempId].peaks,
-        }
-      );
-      setPendingVoice((prev) => ({
-        ...prev,
-        [tempId]: { ...prev[tempId], cancel: handle.cancel },
-      }));
-      const res = await handle.promise;
-      if (res?.success) {
-        setPendingVoice((prev) => {
-          const { [tempId]: _omit, ...rest } = prev;
-          return rest;
-        });
-        await loadMessages();
-        toast?.show?.("Voice message sent", "success");
-      } else {
-        const msg = (res as any)?.error?.message || "Failed to send";
-        setPendingVoice((prev) => ({
-          ...prev,
-          [tempId]: { ...prev[tempId], error: msg },
-        }));
-      }
-    } catch {
-      toast?.show?.("Retry failed", "error");
-    }
+  const retryPendingVoice = async (jobId: string) => {
+    const ok = await messageOutbox.retryMessage(jobId);
+    if (!ok) toast?.show?.("Retry failed", "error");
   };
 
-  const cancelPendingVoice = (tempId: string) => {
-    const entry = pendingVoice[tempId];
-    try {
-      entry?.cancel?.();
-    } catch {}
-    setPendingVoice((prev) => {
-      const next = { ...prev } as any;
-      if (next[tempId]) next[tempId].error = "Canceled";
-      return next;
-    });
+  const cancelPendingVoice = (jobId: string) => {
+    messageOutbox.cancelJob(jobId);
   };
 
-  const dismissPendingVoice = (tempId: string) => {
-    setPendingVoice((prev) => {
-      const { [tempId]: _omit, ...rest } = prev;
-      return rest;
-    });
+  const dismissPendingVoice = (jobId: string) => {
+    messageOutbox.dequeue(jobId);
   };
 
   // Image attachments
@@ -957,15 +794,23 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
         height,
       } = await prepareImageForUpload(asset);
 
-      await imageUploadQueue.enqueue({
-        conversationId,
-        fromUserId: userId,
-        toUserId: partnerId,
-        localUri: processedUri,
-        fileName,
-        contentType: contentType as string,
-        width,
-        height,
+      await messageOutbox.enqueueJob({
+        kind: "image",
+        message: {
+          conversationId,
+          fromUserId: userId,
+          toUserId: partnerId,
+          text: "",
+          type: "image",
+          createdAt: Date.now(),
+        },
+        attachment: {
+          localUri: processedUri,
+          fileName,
+          contentType: contentType as string,
+          width,
+          height,
+        },
       });
       // Inform user
       toast?.show?.(
@@ -1162,6 +1007,118 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     setActionSheetVisible(false);
   };
 
+  const handleDisappearingTimerPress = () => {
+    Alert.alert(
+      "Disappearing messages",
+      `New messages will disappear from both devices after the chosen time. Currently: ${describeDisappearingTimer(
+        disappearingTimer
+      )}.`,
+      [
+        ...DISAPPEARING_TIMER_OPTIONS.filter(
+          (timer) => timer !== disappearingTimer
+        ).map((timer) => ({
+          text: describeDisappearingTimer(timer),
+          onPress: async () => {
+            const res = await setDisappearingTimer(timer);
+            if (!res.success) {
+              toast?.show(
+                "Couldn't change disappearing messages. Please try again.",
+                "error"
+              );
+            }
+          },
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  };
+
+  const handleOpenSchedule = () => {
+    const trimmed = inputText.trim();
+    if (!trimmed) {
+      toast?.show?.("Type a message to schedule", "info");
+      return;
+    }
+    const guard = ensureAllowed("text");
+    if (!guard.allowed) {
+      setRecommendedTier(guard.recommendedTier || "premium");
+      setUpgradeVisible(true);
+      return;
+    }
+    setShowAttachmentTray(false);
+    setScheduleTarget({ text: trimmed });
+  };
+
+  const handleScheduleConfirm = async (scheduledFor: number, text: string) => {
+    const target = scheduleTarget;
+    setScheduleTarget(null);
+    if (!target || !userId || !partnerId) return;
+
+    if (target.job) {
+      const res = await messageOutbox.updateScheduledJob(target.job.id, {
+        text,
+        scheduledFor,
+      });
+      if (!res.success) {
+        toast?.show?.(
+          res.error?.message || "Couldn't update the scheduled message",
+          "error"
+        );
+      }
+      return;
+    }
+
+    try {
+      await messageOutbox.enqueueJob({
+        kind: "text",
+        message: {
+          conversationId,
+          fromUserId: userId,
+          toUserId: partnerId,
+          text,
+          type: "text",
+          createdAt: Date.now(),
+        },
+        scheduledFor,
+      });
+      setInputText("");
+      setIsTyping(false);
+      try {
+        recordMessage();
+      } catch {}
+      toast?.show?.(
+        `Scheduled for ${formatScheduledTime(scheduledFor)}`,
+        "success"
+      );
+    } catch (e: any) {
+      toast?.show?.(e?.message || "Failed to schedule message", "error");
+    }
+  };
+
+  const handleEditScheduled = (job: OutboxJob) => {
+    setScheduledListVisible(false);
+    setScheduleTarget({ text: job.message.text || "", job });
+  };
+
+  const handleCancelScheduled = (job: OutboxJob) => {
+    Alert.alert("Cancel scheduled message?", job.message.text, [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Cancel message",
+        style: "destructive",
+        onPress: async () => {
+          const res = await messageOutbox.cancelScheduledJob(job.id);
+          if (!res.success) {
+            toast?.show?.(
+              res.error?.message || "Couldn't cancel the scheduled message",
+              "error"
+            );
+          }
+        },
+      },
+    ]);
+  };
+
   const handleDeleteAction = async () => {
     if (!actionMessage || !canDelete(actionMessage)) return;
     const targetId = actionMessage._id;
@@ -1222,13 +1179,36 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
           ]}
         >
           {item.type === "voice" ? (
-            <VoiceMessageDisplay
-              uri={item.audioUri}
-              storageId={item.audioStorageId}
-              duration={item.duration}
-              style={{ backgroundColor: "transparent" }}
-              small={false}
-            />
+            <View>
+              <VoiceMessageDisplay
+                uri={item.audioUri}
+                storageId={item.audioStorageId}
+                duration={item.duration}
+                waveform={item.voiceWaveform || item.peaks}
+                messageId={item._id}
+                conversationId={item.conversationId}
+                style={{ backgroundColor: "transparent" }}
+                small={false}
+              />
+              {item.audioStorageId ? (
+                <VoiceTranscript
+                  storageId={item.audioStorageId}
+                  conversationId={item.conversationId}
+                  messageId={item._id}
+                  duration={item.duration}
+                  encrypted={!!item.encrypted}
+                  transcript={item.transcript}
+                  transcriptStatus={item.transcriptStatus}
+                  transcriptLanguage={item.transcriptLanguage}
+                  color={
+                    isOwnMessage
+                      ? theme.colors.text.inverse
+                      : theme.colors.text.primary
+                  }
+                  style={styles.voiceTranscript}
+                />
+              ) : null}
+            </View>
           ) : (
             <Text
               style={[
@@ -1355,6 +1335,9 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     otherMessageText: {
       color: theme.colors.text.primary,
     },
+    voiceTranscript: {
+      marginTop: spacing.xs,
+    },
     messageFooter: {
       flexDirection: "row",
       alignItems: "center",
@@ -1596,57 +1579,54 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
     );
   }
 
-  // Initialize and bind to image upload queue
+  // Initialize and bind to the message outbox
   useEffect(() => {
     let mounted = true;
-    const ensureInit = async () => {
-      try {
-        await imageUploadQueue.initialize();
-      } catch {}
-    };
-    ensureInit();
 
     const refresh = () => {
-      const state = (imageUploadQueue as any).getState?.();
-      if (!state) return;
-      const list = (state.items as ImageUploadItem[]).filter(
-        (i) => i.conversationId === conversationId
+      if (!mounted) return;
+      setOutboxJobs(
+        messageOutbox
+          .getJobs(conversationId)
+          .filter((job) => job.kind !== "text")
       );
-      if (mounted) setLocalUploads(list);
+      setScheduledJobs(messageOutbox.getScheduledJobs(conversationId));
     };
 
-    const onAny = () => refresh();
-    imageUploadQueue.on("initialized", onAny);
-    imageUploadQueue.on("enqueued", onAny);
-    imageUploadQueue.on("status", onAny);
-    imageUploadQueue.on("removed", onAny);
-    imageUploadQueue.on("done", ({ conversationId: cid }) => {
-      if (cid === conversationId) {
-        loadMessages();
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-      }
-      refresh();
-    });
-    imageUploadQueue.on("error", onAny);
+    const onSent = ({
+      kind,
+      conversationId: cid,
+      scheduledFor,
+    }: {
+      kind: OutboxJob["kind"];
+      conversationId: string;
+      scheduledFor?: number;
+    }) => {
+      // Immediate texts already show up through the messaging hook
+      if ((kind === "text" && !scheduledFor) || cid !== conversationId) return;
+      loadMessages();
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      if (kind === "voice") toast?.show?.("Voice message sent", "success");
+    };
+
+    messageOutbox.on("job_updated", refresh);
+    messageOutbox.on("message_sent", onSent);
+    initializeMessageOutbox().then(refresh, () => undefined);
 
     // Initial sync
     refresh();
 
     return () => {
       mounted = false;
-      imageUploadQueue.off("initialized", onAny);
-      imageUploadQueue.off("enqueued", onAny);
-      imageUploadQueue.off("status", onAny);
-      imageUploadQueue.off("removed", onAny);
-      imageUploadQueue.off("done", onAny as any);
-      imageUploadQueue.off("error", onAny);
+      messageOutbox.off("job_updated", refresh);
+      messageOutbox.off("message_sent", onSent);
     };
   }, [conversationId, loadMessages]);
 
-  // Keep queue aware of connectivity
+  // Keep outbox aware of connectivity
   useEffect(() => {
     try {
-      imageUploadQueue.setOnlineStatus(!!isOnline);
+      messageOutbox.setOnlineStatus(!!isOnline);
     } catch {}
   }, [isOnline]);
 
@@ -1673,6 +1653,49 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
               >
                 <Text style={styles.actionButtonText}>🔍</Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                accessibilityLabel="Encryption and safety number"
+                onPress={() =>
+                  partnerId &&
+                  navigation.navigate("SafetyNumber", {
+                    conversationId,
+                    partnerId,
+                    partnerName,
+                  })
+                }
+              >
+                <Text style={styles.actionButtonText}>
+                  {isEncrypted ? "🔒" : "🔓"}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.actionButton}
+                accessibilityLabel={`Disappearing messages: ${describeDisappearingTimer(
+                  disappearingTimer
+                )}`}
+                onPress={handleDisappearingTimerPress}
+              >
+                <Text
+                  style={[
+                    styles.actionButtonText,
+                    disappearingTimer === "off" && { opacity: 0.5 },
+                  ]}
+                >
+                  ⏱
+                </Text>
+              </TouchableOpacity>
+              {scheduledJobs.length > 0 && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  accessibilityLabel={`${scheduledJobs.length} scheduled messages`}
+                  onPress={() => setScheduledListVisible(true)}
+                >
+                  <Text style={styles.actionButtonText}>
+                    🕒{scheduledJobs.length}
+                  </Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity
                 style={styles.actionButton}
                 onPress={() => setSafetyVisible(true)}
@@ -1756,21 +1779,26 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
                   ? searchResults
                   : displayMessages
               ) as any[];
-              const pending = Object.entries(pendingVoice).map(([id, v]) => ({
-                _id: id,
-                conversationId,
-                fromUserId: userId!,
-                toUserId: partnerId!,
-                type: "voice",
-                createdAt: v.createdAt,
-                status: v.error ? ("failed" as const) : ("pending" as const),
-                durationSeconds: v.duration,
-                peaks: v.peaks,
-                // special fields for UI rendering progress
-                __uploading: !v.error,
-                __progress: v.progress,
-                __error: v.error,
-              }));
+              const pending = pendingVoice.map((job) => {
+                const failed = job.status === "failed";
+                return {
+                  _id: job.id,
+                  conversationId,
+                  fromUserId: userId!,
+                  toUserId: partnerId!,
+                  type: "voice",
+                  createdAt: job.createdAt,
+                  status: failed ? ("failed" as const) : ("pending" as const),
+                  durationSeconds: job.message.duration,
+                  peaks: job.attachment?.peaks,
+                  // special fields for UI rendering progress
+                  __uploading: !failed,
+                  __progress: job.progress,
+                  __error: failed
+                    ? job.error?.message || "Failed to send"
+                    : undefined,
+                };
+              });
               // Show pending at the end (most recent)
               return [...base, ...pending];
             })()}
@@ -1809,6 +1837,7 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
                 }
               } catch {}
             }}
+            focusMessageId={focusMessageId}
             typingVisible={typingIndicator.isAnyoneElseTyping}
             typingText={typingIndicator.isAnyoneElseTyping ? "Typing..." : ""}
             showScrollToBottom={showScrollToBottom}
@@ -1827,6 +1856,9 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
               } catch {}
               return null;
             }}
+            decryptAttachment={(m: any, url: string) =>
+              messageEncryption.decryptAttachmentFile(m as Message, url)
+            }
             onReplyMessage={(m: any) => {
               setReplyContext({
                 messageId: m._id,
@@ -2034,6 +2066,17 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
                 📍 Location
               </Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.attachmentChip,
+                { borderColor: theme.colors.border.primary },
+              ]}
+              onPress={handleOpenSchedule}
+            >
+              <Text style={{ color: theme.colors.text.primary }}>
+                🕒 Send later
+              </Text>
+            </TouchableOpacity>
             {localUploads.length > 0 && (
               <View style={{ flex: 1, gap: spacing.xs }}>
                 {localUploads.map((u) => (
@@ -2050,21 +2093,21 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
                       style={{ flex: 1, color: theme.colors.text.primary }}
                       numberOfLines={1}
                     >
-                      {u.fileName} ·{" "}
-                      {u.status === "queued"
+                      {u.attachment?.fileName || "Photo"} ·{" "}
+                      {u.status === "queued" || u.status === "retrying"
                         ? "Queued"
-                        : u.status === "error"
+                        : u.status === "failed"
                         ? "Failed"
                         : `${Math.round((u.progress || 0) * 100)}%`}
                     </Text>
-                    {u.status === "error" ? (
+                    {u.status === "failed" ? (
                       <>
                         <TouchableOpacity
                           style={[
                             styles.attachmentChip,
                             { borderColor: theme.colors.error[400] },
                           ]}
-                          onPress={() => imageUploadQueue.retry(u.id)}
+                          onPress={() => messageOutbox.retryMessage(u.id)}
                         >
                           <Text style={{ color: theme.colors.text.primary }}>
                             Retry
@@ -2075,7 +2118,7 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
                             styles.attachmentChip,
                             { borderColor: theme.colors.border.primary },
                           ]}
-                          onPress={() => imageUploadQueue.remove(u.id)}
+                          onPress={() => messageOutbox.dequeue(u.id)}
                         >
                           <Text style={{ color: theme.colors.text.primary }}>
                             Dismiss
@@ -2084,9 +2127,9 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
                       </>
                     ) : (
                       <Text style={{ color: theme.colors.text.secondary }}>
-                        {u.status === "done"
+                        {u.status === "sent"
                           ? "Done"
-                          : u.status === "queued"
+                          : u.status === "queued" || u.status === "retrying"
                           ? "Waiting"
                           : "Uploading"}
                       </Text>
@@ -2164,6 +2207,7 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
         <View style={styles.chatInputContainer}>
           {showVoiceRecorder ? (
             <VoiceRecorder
+              conversationId={conversationId}
               onRecordingComplete={handleVoiceMessage}
               onCancel={() => setShowVoiceRecorder(false)}
               style={styles.voiceRecorderContainer}
@@ -2318,6 +2362,23 @@ export default function ChatScreen({ navigation }: ChatScreenProps) {
           </View>
         </BottomSheet>
 
+        <ScheduleMessageSheet
+          visible={!!scheduleTarget}
+          onClose={() => setScheduleTarget(null)}
+          onConfirm={handleScheduleConfirm}
+          text={scheduleTarget?.text || ""}
+          editableText={!!scheduleTarget?.job}
+          initialScheduledFor={scheduleTarget?.job?.scheduledFor}
+        />
+
+        <ScheduledMessagesSheet
+          visible={scheduledListVisible}
+          onClose={() => setScheduledListVisible(false)}
+          jobs={scheduledJobs}
+          onEdit={handleEditScheduled}
+          onCancel={handleCancelScheduled}
+        />
+
         {/* Upgrade Prompt Modal */}
         <UpgradePrompt
           visible={upgradeVisible}
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   View,
   Text,
@@ -15,6 +15,7 @@ import { Layout } from "@constants";
 import type { Theme } from "@/../constants/Theme";
 import { useTheme, useThemedStyles } from "@contexts/ThemeContext";
 import { useOfflineMessaging } from "@/hooks/useOfflineMessaging";
+import { usePresence } from "@/hooks/usePresence";
 import { ChatListSkeleton } from "@/components/ui/LoadingStates";
 import { NoMessages } from "@/components/ui/EmptyStates";
 import { ErrorBoundary, ApiErrorDisplay } from "@/components/ui/ErrorHandling";
@@ -25,6 +26,8 @@ import Avatar from "@/components/common/Avatar";
 import SafetyActionSheet from "@components/safety/SafetyActionSheet";
 import ReportUserModal from "@components/safety/ReportUserModal";
 import { unifiedMessagingApi } from "@/utils/unifiedMessagingApi";
+import { messageCache } from "@/utils/MessageCache";
+import { getOtherParticipantInfo } from "@/utils/messageUtils";
 import HapticPressable from "@/components/ui/HapticPressable";
 
 interface ConversationListScreenProps {
@@ -40,10 +43,6 @@ export default function ConversationListScreen({
   const apiClient = useApiClient();
   const { isOnline } = useOfflineMessaging();
   const [refreshing, setRefreshing] = useState(false);
-  const [presenceMap, setPresenceMap] = useState<
-    Record<string, { isOnline: boolean; lastSeen: number }>
-  >({});
-  const presenceIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [safetyVisible, setSafetyVisible] = useState(false);
   const [reportVisible, setReportVisible] = useState(false);
   const [selectedPartner, setSelectedPartner] = useState<{
@@ -69,7 +68,17 @@ export default function ConversationListScreen({
       if (!response.success) return [] as NormalizedConversation[];
       const raw =
         (response.data as any)?.conversations ?? (response.data as any);
-      return (Array.isArray(raw) ? raw : []) as NormalizedConversation[];
+      const list = (Array.isArray(raw) ? raw : []) as NormalizedConversation[];
+      // Let the cache enforce each conversation's disappearing-messages timer
+      for (const conv of list as any[]) {
+        if (conv.disappearingTimer && conv.disappearingTimerSetAt) {
+          messageCache.setDisappearingTimer(conv._id || conv.id, {
+            timer: conv.disappearingTimer,
+            since: conv.disappearingTimerSetAt,
+          });
+        }
+      }
+      return list;
     },
     enabled: !!userId,
     retry: 2,
@@ -105,51 +114,8 @@ export default function ConversationListScreen({
     return Array.from(ids);
   }, [conversations, userId]);
 
-  // Fetch presence for partner IDs and keep polling
-  useEffect(() => {
-    let canceled = false;
-    if (!partnerIds.length) return;
-
-    const fetchPresence = async () => {
-      if (!partnerIds.length) return;
-      try {
-        const results = await Promise.allSettled(
-          partnerIds.map(async (pid) => ({
-            pid,
-            res: await apiClient.getPresence(pid),
-          }))
-        );
-        if (canceled) return;
-        const next: Record<string, { isOnline: boolean; lastSeen: number }> =
-          {};
-        for (const r of results) {
-          if (r.status === "fulfilled") {
-            const { pid, res } = r.value as any;
-            if (res?.success && res.data) {
-              next[pid] = {
-                isOnline: !!res.data.isOnline,
-                lastSeen: Number(res.data.lastSeen || 0),
-              };
-            }
-          }
-        }
-        setPresenceMap((prev) => ({ ...prev, ...next }));
-      } catch {
-        // best-effort, ignore errors
-      }
-    };
-
-    // Initial fetch and interval
-    fetchPresence();
-    if (presenceIntervalRef.current) clearInterval(presenceIntervalRef.current);
-    presenceIntervalRef.current = setInterval(fetchPresence, 30000);
-
-    return () => {
-      canceled = true;
-      if (presenceIntervalRef.current)
-        clearInterval(presenceIntervalRef.current);
-    };
-  }, [apiClient, partnerIds.join("|")]);
+  // Presence for every partner in the list, batched by the presence service
+  const presenceMap = usePresence(partnerIds);
 
   const handleConversationPress = (conversation: NormalizedConversation) => {
     const { id: otherParticipantId, name: otherParticipantName } =
@@ -351,17 +317,30 @@ export default function ConversationListScreen({
         <AppHeader
           title="Messages"
           rightActions={
-            <HapticPressable
-              accessibilityRole="button"
-              accessibilityLabel="Start new chat"
-              style={[
-                styles.newChatButton,
-                { backgroundColor: theme.colors.primary[50] },
-              ]}
-              onPress={() => navigation.navigate("Search")}
-            >
-              <Text style={styles.newChatButtonText}>✏️</Text>
-            </HapticPressable>
+            <View style={styles.headerActions}>
+              <HapticPressable
+                accessibilityRole="button"
+                accessibilityLabel="Search messages"
+                style={[
+                  styles.newChatButton,
+                  { backgroundColor: theme.colors.primary[50] },
+                ]}
+                onPress={() => navigation.navigate("MessageSearch")}
+              >
+                <Text style={styles.newChatButtonText}>🔍</Text>
+              </HapticPressable>
+              <HapticPressable
+                accessibilityRole="button"
+                accessibilityLabel="Start new chat"
+                style={[
+                  styles.newChatButton,
+                  { backgroundColor: theme.colors.primary[50] },
+                ]}
+                onPress={() => navigation.navigate("Search")}
+              >
+                <Text style={styles.newChatButtonText}>✏️</Text>
+              </HapticPressable>
+            </View>
           }
         />
 
@@ -389,17 +368,30 @@ export default function ConversationListScreen({
         <AppHeader
           title="Messages"
           rightActions={
-            <HapticPressable
-              accessibilityRole="button"
-              accessibilityLabel="Start new chat"
-              style={[
-                styles.newChatButton,
-                { backgroundColor: theme.colors.primary[50] },
-              ]}
-              onPress={() => navigation.navigate("Search")}
-            >
-              <Text style={styles.newChatButtonText}>✏️</Text>
-            </HapticPressable>
+            <View style={styles.headerActions}>
+              <HapticPressable
+                accessibilityRole="button"
+                accessibilityLabel="Search messages"
+                style={[
+                  styles.newChatButton,
+                  { backgroundColor: theme.colors.primary[50] },
+                ]}
+                onPress={() => navigation.navigate("MessageSearch")}
+              >
+                <Text style={styles.newChatButtonText}>🔍</Text>
+              </HapticPressable>
+              <HapticPressable
+                accessibilityRole="button"
+                accessibilityLabel="Start new chat"
+                style={[
+                  styles.newChatButton,
+                  { backgroundColor: theme.colors.primary[50] },
+                ]}
+                onPress={() => navigation.navigate("Search")}
+              >
+                <Text style={styles.newChatButtonText}>✏️</Text>
+              </HapticPressable>
+            </View>
           }
         />
 
@@ -451,53 +443,6 @@ export default function ConversationListScreen({
   );
 }
 
-function getOtherParticipantInfo(
-  conversation: any,
-  currentUserId?: string
-): { id?: string; name?: string; initial: string } {
-  // Participants array may be string[] of userIds
-  const participants: any[] = Array.isArray(conversation?.participants)
-    ? conversation.participants
-    : [];
-  const otherId: any = participants.find((p) => p && p !== currentUserId);
-
-  // Profiles array might carry names
-  const profiles: any[] = Array.isArray(conversation?.profiles)
-    ? conversation.profiles
-    : [];
-  const profileForOther = profiles.find(
-    (p) => p?.userId === otherId || p?.id === otherId
-  );
-  const nameFromProfile = profileForOther?.fullName || profileForOther?.name;
-
-  // Some APIs may embed a 'partner' object
-  const partner = conversation?.partner || conversation?.otherParticipant;
-  const partnerName =
-    partner?.fullName || partner?.name || partner?.email?.split("@")[0];
-
-  const name: string | undefined =
-    typeof nameFromProfile === "string"
-      ? nameFromProfile
-      : typeof partnerName === "string"
-      ? partnerName
-      : typeof otherId === "string"
-      ? otherId
-      : undefined;
-
-  const initial =
-    typeof name === "string" && name.length > 0
-      ? name.trim().charAt(0).toUpperCase()
-      : typeof otherId === "string" && otherId.length > 0
-      ? otherId.trim().charAt(0).toUpperCase()
-      : "?";
-
-  return {
-    id: typeof otherId === "string" ? otherId : undefined,
-    name,
-    initial,
-  };
-}
-
 const createStyles = (theme: Theme) =>
   StyleSheet.create({
     container: {
@@ -505,6 +450,10 @@ const createStyles = (theme: Theme) =>
       backgroundColor: theme.colors.background.secondary,
     },
     // Header handled by AppHeader
+    headerActions: {
+      flexDirection: "row",
+      gap: Layout.spacing.xs,
+    },
     newChatButton: {
       padding: Layout.spacing.sm,
       backgroundColor: theme.colors.primary[50],
@@ -47,6 +47,7 @@ import { useToast } from "@/providers/ToastContext";
 import { useInterests } from "@/hooks/useInterests";
 import { formatTimeAgo } from "@/utils/formatting";
 import { useRealtime } from "@/hooks/useRealtime";
+import { usePresence } from "@/hooks/usePresence";
 // Use lightweight in-memory profile image cache (NOT the persistent advanced cache in project root)
 import { getProfileImages, setProfileImages } from "@/utils/imageCache";
 import AsyncStorage from "@react-native-async-storage/async-storage";
@@ -219,6 +220,11 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
     () => (matchesPages?.pages || []).flatMap((p: any) => p.items),
     [matchesPages]
   );
+  const matchUserIds = useMemo(
+    () => matches.map((m: UIMatch) => m.userId),
+    [matches]
+  );
+  const presenceMap = usePresence(matchUserIds);
 
   // ---------------- Typing indicators per conversation ----------------
   const [typingMap, setTypingMap] = useState<Record<string, number>>({});
@@ -482,8 +488,10 @@ export default function MatchesScreen({ navigation }: MatchesScreenProps) {
                   (match.lastActivity
                     ? Date.parse(String(match.lastActivity))
                     : 0);
+                // Recent activity stands in until presence has loaded
                 const isOnline =
-                  !!lastTs && Date.now() - lastTs < 5 * 60 * 1000;
+                  presenceMap[match.userId]?.isOnline ??
+                  (!!lastTs && Date.now() - lastTs < 5 * 60 * 1000);
                 return (
                   <Avatar
                     uri={urls && urls.length ? urls[0] : undefined}
@@ -0,0 +1,336 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  SectionList,
+  ActivityIndicator,
+} from "react-native";
+import { useQueryClient } from "@tanstack/react-query";
+import { useTheme } from "@contexts/ThemeContext";
+import { useAuth } from "@contexts/AuthProvider";
+import { Layout } from "@constants";
+import AppHeader from "@/components/common/AppHeader";
+import { getOtherParticipantInfo } from "@/utils/messageUtils";
+import {
+  ConversationSearchGroup,
+  GlobalSearchFilters,
+  GlobalSearchResult,
+  messageSearchIndex,
+} from "@/utils/messageSearchIndex";
+
+type SenderFilter = "anyone" | "me" | "them";
+type DateFilter = "any" | "week" | "month" | "year";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SENDER_OPTIONS: Array<{ value: SenderFilter; label: string }> = [
+  { value: "anyone", label: "Anyone" },
+  { value: "me", label: "From me" },
+  { value: "them", label: "From them" },
+];
+
+const DATE_OPTIONS: Array<{ value: DateFilter; label: string; days?: number }> =
+  [
+    { value: "any", label: "Any time" },
+    { value: "week", label: "Past week", days: 7 },
+    { value: "month", label: "Past month", days: 30 },
+    { value: "year", label: "Past year", days: 365 },
+  ];
+
+interface MessageSearchScreenProps {
+  navigation: any;
+}
+
+export default function MessageSearchScreen({
+  navigation,
+}: MessageSearchScreenProps) {
+  const { theme } = useTheme();
+  const { userId } = useAuth();
+  const queryClient = useQueryClient();
+
+  const [ready, setReady] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [sender, setSender] = useState<SenderFilter>("anyone");
+  const [dateRange, setDateRange] = useState<DateFilter>("any");
+
+  useEffect(() => {
+    let mounted = true;
+    messageSearchIndex.hydrate().finally(() => mounted && setReady(true));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Partner names from the conversation list already fetched
+  const partners = useMemo(() => {
+    const map: Record<string, { id?: string; name?: string }> = {};
+    const conversations =
+      (queryClient.getQueryData(["conversations"]) as any[]) || [];
+    for (const conv of conversations) {
+      const info = getOtherParticipantInfo(conv, userId as any);
+      map[conv._id || conv.id] = { id: info.id, name: info.name };
+    }
+    return map;
+  }, [queryClient, userId]);
+
+  const sections = useMemo(() => {
+    if (!ready || !debouncedQuery.trim()) return [];
+
+    const days = DATE_OPTIONS.find((o) => o.value === dateRange)?.days;
+    const filters: GlobalSearchFilters = {
+      fromUserId: sender === "me" ? userId || undefined : undefined,
+      notFromUserId: sender === "them" ? userId || undefined : undefined,
+      after: days ? Date.now() - days * DAY_MS : undefined,
+    };
+    return messageSearchIndex
+      .searchGrouped(debouncedQuery, filters)
+      .map((group: ConversationSearchGroup) => ({
+        conversationId: group.conversationId,
+        title:
+          partners[group.conversationId]?.name ||
+          partners[group.conversationId]?.id ||
+          "Conversation",
+        data: group.results,
+      }));
+  }, [ready, debouncedQuery, sender, dateRange, userId, partners]);
+
+  const openResult = (result: GlobalSearchResult) => {
+    const { message } = result;
+    const partner = partners[message.conversationId];
+    navigation.navigate("Chat", {
+      conversationId: message.conversationId,
+      partnerName: partner?.name,
+      partnerId:
+        partner?.id ||
+        (message.fromUserId === userId ? message.toUserId : message.fromUserId),
+      focusMessageId: message._id,
+      focusMessageAt: message.createdAt,
+    });
+  };
+
+  const renderSnippet = (result: GlobalSearchResult) => {
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    result.highlightRanges.forEach((range, index) => {
+      parts.push(result.snippet.slice(last, range.start));
+      parts.push(
+        <Text
+          key={index}
+          style={[styles.highlight, { color: theme.colors.primary[600] }]}
+        >
+          {result.snippet.slice(range.start, range.end)}
+        </Text>
+      );
+      last = range.end;
+    });
+    parts.push(result.snippet.slice(last));
+    return parts;
+  };
+
+  const renderChips = <T extends string>(
+    options: Array<{ value: T; label: string }>,
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const active = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.chip,
+              {
+                borderColor: active
+                  ? theme.colors.primary[500]
+                  : theme.colors.border.primary,
+                backgroundColor: active
+                  ? theme.colors.primary[50]
+                  : theme.colors.background.primary,
+              },
+            ]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                {
+                  color: active
+                    ? theme.colors.primary[600]
+                    : theme.colors.text.secondary,
+                },
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.colors.background.secondary },
+      ]}
+    >
+      <AppHeader
+        title="Search messages"
+        onPressBack={() => navigation.goBack()}
+      />
+      <View style={styles.controls}>
+        <TextInput
+          style={[
+            styles.input,
+            {
+              borderColor: theme.colors.border.primary,
+              backgroundColor: theme.colors.background.primary,
+              color: theme.colors.text.primary,
+            },
+          ]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search all conversations"
+          placeholderTextColor={theme.colors.text.tertiary}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        {renderChips(SENDER_OPTIONS, sender, setSender)}
+        {renderChips(DATE_OPTIONS, dateRange, setDateRange)}
+      </View>
+
+      {!ready ? (
+        <ActivityIndicator style={styles.loader} />
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.message._id}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.list}
+          renderSectionHeader={({ section }) => (
+            <Text
+              style={[
+                styles.sectionHeader,
+                { color: theme.colors.text.secondary },
+              ]}
+            >
+              {section.title} · {section.data.length}
+            </Text>
+          )}
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={[
+                styles.result,
+                { backgroundColor: theme.colors.background.primary },
+              ]}
+              onPress={() => openResult(item)}
+            >
+              <Text
+                style={[styles.snippet, { color: theme.colors.text.primary }]}
+                numberOfLines={3}
+              >
+                {renderSnippet(item)}
+              </Text>
+              <Text
+                style={[styles.meta, { color: theme.colors.text.tertiary }]}
+              >
+                {item.message.fromUserId === userId ? "You · " : ""}
+                {new Date(item.message.createdAt).toLocaleDateString("en-GB", {
+                  day: "numeric",
+                  month: "short",
+                  year: "numeric",
+                })}
+              </Text>
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={
+            debouncedQuery.trim() ? (
+              <Text
+                style={[styles.empty, { color: theme.colors.text.secondary }]}
+              >
+                No messages match “{debouncedQuery.trim()}”
+              </Text>
+            ) : null
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  controls: {
+    padding: Layout.spacing.md,
+    gap: Layout.spacing.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: Layout.radius.lg,
+    paddingHorizontal: Layout.spacing.md,
+    paddingVertical: Layout.spacing.sm,
+    fontSize: Layout.typography.fontSize.base,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Layout.spacing.xs,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: Layout.radius.full,
+    paddingHorizontal: Layout.spacing.sm,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: Layout.typography.fontSize.sm,
+  },
+  loader: {
+    marginTop: Layout.spacing.xl,
+  },
+  list: {
+    paddingHorizontal: Layout.spacing.md,
+    paddingBottom: Layout.spacing.xl,
+  },
+  sectionHeader: {
+    fontSize: Layout.typography.fontSize.sm,
+    fontWeight: "600",
+    marginTop: Layout.spacing.md,
+    marginBottom: Layout.spacing.xs,
+  },
+  result: {
+    borderRadius: Layout.radius.md,
+    padding: Layout.spacing.md,
+    marginBottom: Layout.spacing.xs,
+  },
+  snippet: {
+    fontSize: Layout.typography.fontSize.base,
+    lineHeight: 20,
+  },
+  highlight: {
+    fontWeight: "700",
+  },
+  meta: {
+    marginTop: 4,
+    fontSize: Layout.typography.fontSize.xs,
+  },
+  empty: {
+    textAlign: "center",
+    marginTop: Layout.spacing.xl,
+  },
+});
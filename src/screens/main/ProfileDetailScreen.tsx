@@ -24,7 +24,15 @@ import useResponsiveSpacing, {
   useResponsiveTypography,
 } from "@/hooks/useResponsive";
 import { useInterestStatus } from "@/hooks/useInterests";
+import { usePhotoAccess } from "@/hooks/usePhotoAccess";
+import { PrivatePhotoOverlay } from "@/components/ui/PrivatePhotoOverlay";
+import {
+  PRIVATE_PHOTO_BLUR_RADIUS,
+  photoDisplayUri,
+} from "@utils/photoPrivacy";
 import { useBlockStatus } from "@/hooks/useSafety";
+import { useUserPresence } from "@/hooks/usePresence";
+import { formatLastSeen } from "@services/presenceService";
 import { Profile } from "@/types/profile";
 import type { ReportReason } from "@/types/profile";
 import ScreenContainer from "@components/common/ScreenContainer";
@@ -79,6 +87,10 @@ export default function ProfileDetailScreen({
   const { status: interestStatus, loading: interestLoading } =
     useInterestStatus(profileId);
   const { data: blockStatus } = useBlockStatus(profileId);
+  const presence = useUserPresence(
+    profileId !== currentUserId ? profileId : undefined
+  );
+  const presenceLabel = formatLastSeen(presence);
   // Subscription and usage for gating + hints
   const { subscription, usage, canUseFeatureNow, trackFeatureUsage } =
     useSubscription();
@@ -300,6 +312,22 @@ export default function ProfileDetailScreen({
     enabled: !!profileId,
   });
 
+  // Private photos stay blurred until the viewer is a match or approved
+  const photoAccess = usePhotoAccess(profileId, {
+    profileVisibility: profile?.photoVisibility,
+    images: profileImages,
+    isMatch: interestStatus === "matched",
+  });
+
+  const handleRequestPhotoAccess = async () => {
+    try {
+      await photoAccess.requestAccess();
+      toast.show("Photo access requested", "success");
+    } catch {
+      // Hook surfaces the error toast
+    }
+  };
+
   // Record profile view
   useEffect(() => {
     if (profile && currentUserId && profileId !== currentUserId) {
@@ -684,8 +712,31 @@ export default function ProfileDetailScreen({
               }}
             >
               {profileImages.map((image: any, index: number) => {
-                const uri = typeof image === "string" ? image : image?.url;
                 const key = (image && (image.id || image._id)) || index;
+                const photo = typeof image === "string" ? null : image;
+                const locked = photoAccess.isLocked(photo);
+                const uri = photoDisplayUri(image, locked);
+                if (locked) {
+                  const { title, canRequest } = photoAccess.describe(photo);
+                  return (
+                    <View key={key} style={styles.profileImage}>
+                      {uri ? (
+                        <Image
+                          source={{ uri }}
+                          style={styles.profileImage}
+                          blurRadius={PRIVATE_PHOTO_BLUR_RADIUS}
+                        />
+                      ) : null}
+                      <PrivatePhotoOverlay
+                        title={title}
+                        onRequestAccess={
+                          canRequest ? handleRequestPhotoAccess : undefined
+                        }
+                        requesting={photoAccess.requesting}
+                      />
+                    </View>
+                  );
+                }
                 return (
                   <Image
                     key={key}
@@ -811,6 +862,20 @@ export default function ProfileDetailScreen({
             <Text style={[styles.name, { color: theme.colors.text.primary }]}>
               {profile?.fullName}
             </Text>
+            {presenceLabel ? (
+              <Text
+                style={[
+                  styles.detail,
+                  {
+                    color: presence?.isOnline
+                      ? theme.colors.success[500]
+                      : theme.colors.text.secondary,
+                  },
+                ]}
+              >
+                {presenceLabel}
+              </Text>
+            ) : null}
             <View style={styles.chipsRow}>
               {age ? (
                 <View
@@ -62,6 +62,7 @@ import ScreenContainer from "@components/common/ScreenContainer";
 import ConfirmModal from "@components/ui/ConfirmModal";
 import VerifyEmailInline from "@components/auth/VerifyEmailInline";
 import InlineUpgradeBanner from "@components/subscription/InlineUpgradeBanner";
+import SubscriptionStatusBanner from "@components/subscription/SubscriptionStatusBanner";
 import PremiumFeatureGuard from "@components/subscription/PremiumFeatureGuard";
 import { rgbaHex } from "@utils/color";
 import AppHeader from "@/components/common/AppHeader";
@@ -111,6 +112,7 @@ export default function ProfileScreen({
     hasActiveSubscription,
     isTrialActive,
     daysUntilExpiry,
+    lifecycle,
     loading: subscriptionLoading,
     trackFeatureUsage,
     canUseFeatureNow,
@@ -1537,6 +1539,11 @@ export default function ProfileScreen({
           </View>
           {/* Boost Action / CTA */}
           <View style={{ marginTop: spacing.md }}>
+            <SubscriptionStatusBanner
+              banner={lifecycle.banner}
+              onResubscribe={handleViewSubscription}
+              style={{ marginBottom: spacing.sm }}
+            />
             {subscription?.plan === "free" && (
               <GradientButton
                 title="🚀 Boost Your Profile (Upgrade)"
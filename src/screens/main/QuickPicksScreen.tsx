@@ -145,6 +145,7 @@ export default function QuickPicksScreen() {
       fullName: p.fullName || "Member",
       city: p.city || undefined,
       images: p.imageUrl ? [{ url: p.imageUrl, isMain: true }] : [],
+      photoVisibility: p.photoVisibility || undefined,
       interests: topIceQs,
     };
   };
@@ -0,0 +1,293 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from "react-native";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { useTheme } from "@contexts/ThemeContext";
+import { Layout } from "@constants";
+import { useToast } from "@/providers/ToastContext";
+import AppHeader from "@/components/common/AppHeader";
+import { ChatStackParamList } from "@/navigation/types";
+import { formatSafetyNumber } from "@/utils/e2eeCrypto";
+import {
+  SafetyNumberInfo,
+  messageEncryption,
+} from "../../../services/messageEncryptionService";
+
+type SafetyNumberRoute = RouteProp<ChatStackParamList, "SafetyNumber">;
+
+interface SafetyNumberScreenProps {
+  navigation: any;
+}
+
+export default function SafetyNumberScreen({
+  navigation,
+}: SafetyNumberScreenProps) {
+  const route = useRoute<SafetyNumberRoute>();
+  const { conversationId, partnerId, partnerName } = route.params;
+  const { theme } = useTheme();
+  const toast = useToast();
+  const name = partnerName || "your match";
+
+  const [encrypted, setEncrypted] = useState(() =>
+    messageEncryption.isEncrypted(conversationId)
+  );
+  const [info, setInfo] = useState<SafetyNumberInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setInfo(await messageEncryption.getSafetyNumber(partnerId));
+    } catch (error) {
+      console.warn("Failed to load safety number:", error);
+      setInfo(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [partnerId]);
+
+  useEffect(() => {
+    load();
+    const onConversation = (e: {
+      conversationId: string;
+      encrypted: boolean;
+    }) => {
+      if (e.conversationId === conversationId) setEncrypted(e.encrypted);
+    };
+    // A new device on either side changes the number
+    const onIdentity = () => load();
+    messageEncryption.on("conversation_updated", onConversation);
+    messageEncryption.on("identity_changed", onIdentity);
+    messageEncryption.on("verification_changed", onIdentity);
+    return () => {
+      messageEncryption.off("conversation_updated", onConversation);
+      messageEncryption.off("identity_changed", onIdentity);
+      messageEncryption.off("verification_changed", onIdentity);
+    };
+  }, [conversationId, load]);
+
+  const onToggleEncryption = async (value: boolean) => {
+    setSaving(true);
+    if (value) {
+      const res = await messageEncryption.enableEncryption(
+        conversationId,
+        partnerId
+      );
+      if (!res.success) {
+        toast.show(
+          res.error?.message || "Couldn't turn on encryption",
+          "error"
+        );
+      }
+    } else {
+      await messageEncryption.disableEncryption(conversationId);
+    }
+    setSaving(false);
+  };
+
+  const onToggleVerified = async () => {
+    if (!info) return;
+    if (info.verified) {
+      await messageEncryption.clearVerification(partnerId);
+    } else {
+      await messageEncryption.markVerified(partnerId, info.safetyNumber);
+      toast.show(`Marked ${name} as verified`, "success");
+    }
+  };
+
+  const groups = info ? formatSafetyNumber(info.safetyNumber) : [];
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: theme.colors.background.secondary },
+      ]}
+    >
+      <AppHeader
+        title="Encryption"
+        subtitle={partnerName}
+        onPressBack={() => navigation.goBack()}
+      />
+      <ScrollView contentContainerStyle={styles.content}>
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: theme.colors.background.primary },
+          ]}
+        >
+          <View style={styles.row}>
+            <View style={styles.left}>
+              <Text
+                style={[styles.title, { color: theme.colors.text.primary }]}
+              >
+                End-to-end encryption
+              </Text>
+              <Text
+                style={[
+                  styles.description,
+                  { color: theme.colors.text.secondary },
+                ]}
+              >
+                Messages, voice notes and photos can only be read on your and{" "}
+                {name}'s devices
+              </Text>
+            </View>
+            <Switch
+              value={encrypted}
+              disabled={saving}
+              onValueChange={onToggleEncryption}
+            />
+          </View>
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: theme.colors.background.primary },
+          ]}
+        >
+          <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+            Safety number
+          </Text>
+          {loading ? (
+            <ActivityIndicator style={styles.loader} />
+          ) : !info ? (
+            <Text
+              style={[
+                styles.description,
+                { color: theme.colors.text.secondary },
+              ]}
+            >
+              Couldn't load the safety number. Check your connection and try
+              again.
+            </Text>
+          ) : !info.partnerHasKeys ? (
+            <Text
+              style={[
+                styles.description,
+                { color: theme.colors.text.secondary },
+              ]}
+            >
+              {name} hasn't set up encrypted messaging yet.
+            </Text>
+          ) : (
+            <>
+              <Text
+                style={[
+                  styles.description,
+                  { color: theme.colors.text.secondary },
+                ]}
+              >
+                Compare these numbers with {name} in person or on a call. If
+                they match, nobody is listening in on your conversation.
+              </Text>
+              <View style={styles.grid}>
+                {groups.map((group, index) => (
+                  <Text
+                    key={index}
+                    style={[
+                      styles.digits,
+                      { color: theme.colors.text.primary },
+                    ]}
+                  >
+                    {group}
+                  </Text>
+                ))}
+              </View>
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  {
+                    backgroundColor: info.verified
+                      ? theme.colors.background.secondary
+                      : theme.colors.primary[500],
+                  },
+                ]}
+                onPress={onToggleVerified}
+              >
+                <Text
+                  style={[
+                    styles.buttonText,
+                    {
+                      color: info.verified
+                        ? theme.colors.text.primary
+                        : theme.colors.text.inverse,
+                    },
+                  ]}
+                >
+                  {info.verified ? "✓ Verified · Clear" : "Mark as verified"}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: Layout.spacing.lg,
+  },
+  card: {
+    borderRadius: Layout.radius.md,
+    padding: Layout.spacing.md,
+    marginBottom: Layout.spacing.md,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  left: {
+    flex: 1,
+    paddingRight: Layout.spacing.md,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  loader: {
+    marginVertical: Layout.spacing.md,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    marginVertical: Layout.spacing.md,
+  },
+  digits: {
+    width: "25%",
+    textAlign: "center",
+    fontSize: 18,
+    fontVariant: ["tabular-nums"],
+    letterSpacing: 1,
+    paddingVertical: 6,
+  },
+  button: {
+    borderRadius: Layout.radius.md,
+    paddingVertical: Layout.spacing.sm,
+    alignItems: "center",
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
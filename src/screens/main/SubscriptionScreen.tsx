@@ -15,13 +15,22 @@ import SubscriptionCard from "@components/subscription/SubscriptionCard";
 // UsageDashboard is optional and not wired in this API-based flow
 import UpgradeConfirmationModal from "@components/subscription/UpgradeConfirmationModal";
 import PaywallModal from "@components/subscription/PaywallModal";
+import SubscriptionStatusBanner from "@components/subscription/SubscriptionStatusBanner";
 import { Layout } from "@constants";
 import { useTheme } from "@contexts/ThemeContext";
 import { useToast } from "@/providers/ToastContext";
 import { getPlans, getBillingPortalUrl } from "@services/subscriptions";
 import type { SubscriptionPlan, SubscriptionTier } from "@/types/subscription";
 import { useInAppPurchase } from "@/hooks/useInAppPurchase";
+import { useSubscription } from "@/hooks/useSubscription";
 import { PRODUCT_IDS } from "@/types/inAppPurchase";
+import type { SubscriptionOffer } from "@/types/inAppPurchase";
+import {
+  formatOfferDuration,
+  getTrialState,
+  pickDefaultOffer,
+} from "@utils/subscriptionOffers";
+import { getManageSubscriptionUrl } from "@utils/subscriptionLifecycle";
 import AppHeader from "@/components/common/AppHeader";
 
 // Helper to coerce backend ids to SubscriptionTier safely
@@ -47,6 +56,10 @@ export default function SubscriptionScreen({
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [upgradeTargetId, setUpgradeTargetId] = useState<string | null>(null);
   const [showPaywall, setShowPaywall] = useState(false);
+  // Offer the next purchase starts with; null pays the regular price
+  const [selectedOffer, setSelectedOffer] = useState<SubscriptionOffer | null>(
+    null
+  );
   const [plans, setPlans] = useState<
     Array<{
       id: string;
@@ -63,6 +76,7 @@ export default function SubscriptionScreen({
   const queryClient = useQueryClient();
   const toast = useToast();
   const iap = useInAppPurchase();
+  const { subscription, lifecycle } = useSubscription();
   const { theme } = useTheme();
 
   // Theme-scoped styles
@@ -89,6 +103,10 @@ export default function SubscriptionScreen({
           color: theme.colors.text.primary,
         },
         placeholder: { width: 50 },
+        lifecycleBanner: {
+          marginHorizontal: Layout.spacing.lg,
+          marginTop: Layout.spacing.lg,
+        },
         statusCard: {
           marginHorizontal: Layout.spacing.lg,
           marginTop: Layout.spacing.lg,
@@ -156,6 +174,13 @@ export default function SubscriptionScreen({
           color: theme.colors.success[500],
           marginBottom: Layout.spacing.xs,
         },
+        statusWarning: {
+          fontFamily: Layout.typography.fontFamily.sansSemiBold,
+          fontSize: Layout.typography.fontSize.base,
+          fontWeight: Layout.typography.fontWeight.semibold,
+          color: theme.colors.warning[600],
+          marginBottom: Layout.spacing.xs,
+        },
         statusFree: {
           fontSize: Layout.typography.fontSize.base,
           color: theme.colors.text.secondary,
@@ -209,6 +234,21 @@ export default function SubscriptionScreen({
           fontSize: Layout.typography.fontSize.base,
           fontWeight: Layout.typography.fontWeight.semibold,
         },
+        redeemButton: {
+          marginTop: Layout.spacing.md,
+        },
+        pendingPurchase: {
+          marginTop: Layout.spacing.md,
+          paddingTop: Layout.spacing.md,
+          borderTopWidth: 1,
+          borderTopColor: theme.colors.border.primary,
+        },
+        retryLink: {
+          marginTop: Layout.spacing.xs,
+          color: theme.colors.primary[500],
+          fontSize: Layout.typography.fontSize.sm,
+          fontWeight: Layout.typography.fontWeight.semibold,
+        },
         termsSection: {
           paddingHorizontal: Layout.spacing.lg,
           paddingVertical: Layout.spacing.lg,
@@ -236,6 +276,10 @@ export default function SubscriptionScreen({
         Math.ceil((subscriptionExpiresAt - now) / (1000 * 60 * 60 * 24))
       )
     : 0;
+  const trial = getTrialState(subscription, now);
+  // Renewal failed but the store is still retrying; the plan needs the user
+  const needsPaymentFix =
+    lifecycle.state === "grace_period" || lifecycle.state === "on_hold";
 
   // Load plans from API
   useEffect(() => {
@@ -274,6 +318,21 @@ export default function SubscriptionScreen({
     [platformKey]
   );
 
+  const getOffersForPlan = useCallback(
+    (planId: string): SubscriptionOffer[] => {
+      const pid = getProductIdForPlan(planId);
+      if (!pid) return [];
+      return iap.state.products.find((p) => p.productId === pid)?.offers ?? [];
+    },
+    [getProductIdForPlan, iap.state.products]
+  );
+
+  const handleSelectPlan = (planId: string) => {
+    setSelectedPlanId(planId);
+    // Preselect the best offer the user can still take on this plan
+    setSelectedOffer(pickDefaultOffer(getOffersForPlan(planId)));
+  };
+
   // Map plans with IAP price data when available
   const enrichedPlans = useMemo(() => {
     return plans.map((plan) => {
@@ -309,7 +368,7 @@ export default function SubscriptionScreen({
       const pid = getProductIdForPlan(planId);
       if (!pid) return; // free
       setPurchasing(planId);
-      const result = await iap.purchaseProduct(pid);
+      const result = await iap.purchaseProduct(pid, selectedOffer);
       if (result.success) {
         // Status will update via listener; ensure user refresh
         await refreshUser();
@@ -328,13 +387,14 @@ export default function SubscriptionScreen({
       const pid = getProductIdForPlan(planId);
       if (!pid) return false;
       setPurchasing(planId);
-      const res = await iap.purchaseProduct(pid);
+      const res = await iap.purchaseProduct(pid, selectedOffer);
       if (res.success) {
         await refreshUser();
         queryClient.invalidateQueries({ queryKey: ["currentProfile"] });
         setShowUpgradeModal(false);
         setUpgradeTargetId(null);
         setSelectedPlanId(null);
+        setSelectedOffer(null);
         toast.show("Your plan has been upgraded.", "success");
         return true;
       }
@@ -361,16 +421,13 @@ export default function SubscriptionScreen({
           style: "default",
           onPress: async () => {
             try {
-              if (Platform.OS === "ios") {
-                await Linking.openURL(
-                  "itms-apps://apps.apple.com/account/subscriptions"
-                );
-              } else {
-                // Optionally include package name params
-                await Linking.openURL(
-                  "https://play.google.com/store/account/subscriptions"
-                );
-              }
+              await Linking.openURL(
+                getManageSubscriptionUrl(
+                  platformKey,
+                  "manage",
+                  getProductIdForPlan(currentTier) ?? undefined
+                )
+              );
             } catch {
               // Fallback to Stripe portal if available (for web-managed subs)
               try {
@@ -401,6 +458,29 @@ export default function SubscriptionScreen({
     }
   };
 
+  const pendingPurchaseCount = iap.state.pendingPurchases?.length ?? 0;
+
+  const handleRetryPendingPurchases = async () => {
+    const stillPending = await iap.retryPendingPurchases();
+    if (stillPending > 0) {
+      toast.show("Still confirming. We'll keep trying.", "info");
+    }
+  };
+
+  const handleExportPurchaseJournal = async () => {
+    const shared = await iap.exportPurchaseJournal();
+    if (!shared) {
+      toast.show("Could not export purchase records.", "error");
+    }
+  };
+
+  const handleRedeemOfferCode = async () => {
+    const opened = await iap.redeemOfferCode();
+    if (!opened) {
+      toast.show("Could not open offer code redemption.", "error");
+    }
+  };
+
   // Removed legacy feature table renderer; plans are rendered via SubscriptionCard
 
   // No separate loading path; current status can render with available profile data
@@ -410,10 +490,59 @@ export default function SubscriptionScreen({
       {/* Header */}
       <AppHeader title="Subscription" onPressBack={() => navigation.goBack()} />
 
+      {/* Payment problems, cancellations and refunds */}
+      <SubscriptionStatusBanner
+        banner={lifecycle.banner}
+        productId={getProductIdForPlan(currentTier) ?? undefined}
+        onResubscribe={() =>
+          handleSelectPlan(
+            subscription?.plan && subscription.plan !== "free"
+              ? subscription.plan
+              : "premium"
+          )
+        }
+        style={styles.lifecycleBanner}
+      />
+
       {/* Current Status */}
       <View style={styles.statusCard}>
         <Text style={styles.statusTitle}>Current Plan</Text>
-        {hasActiveSubscription ? (
+        {needsPaymentFix ? (
+          <View>
+            <Text style={styles.statusWarning}>
+              {(currentTier || "free").toUpperCase()}{" "}
+              {lifecycle.state === "on_hold" ? "On Hold" : "Payment Issue"}
+            </Text>
+            <Text style={styles.statusExpiry}>
+              {lifecycle.state === "on_hold"
+                ? "Premium features are paused until your payment goes through"
+                : "You still have access while the store retries your payment"}
+            </Text>
+          </View>
+        ) : lifecycle.state === "cancelled_active" ? (
+          <View>
+            <Text style={styles.statusActive}>
+              {(currentTier || "free").toUpperCase()} Active
+            </Text>
+            {daysUntilExpiry > 0 && (
+              <Text style={styles.statusExpiry}>
+                Ends in {daysUntilExpiry} days. Auto-renew is off
+              </Text>
+            )}
+          </View>
+        ) : trial.inTrial ? (
+          <View>
+            <Text style={styles.statusActive}>
+              {(currentTier || "free").toUpperCase()} Free Trial
+            </Text>
+            <Text style={styles.statusExpiry}>
+              {trial.daysLeft === 1
+                ? "Trial ends tomorrow"
+                : `Trial ends in ${trial.daysLeft} days`}
+              , then your plan renews automatically
+            </Text>
+          </View>
+        ) : hasActiveSubscription ? (
           <View>
             <Text style={styles.statusActive}>
               {(currentTier || "free").toUpperCase()} Active
@@ -427,6 +556,18 @@ export default function SubscriptionScreen({
         ) : (
           <Text style={styles.statusFree}>Free Plan</Text>
         )}
+        {pendingPurchaseCount > 0 && (
+          <View style={styles.pendingPurchase}>
+            <Text style={styles.statusWarning}>Confirming your purchase</Text>
+            <Text style={styles.statusExpiry}>
+              Your payment went through. Your plan updates as soon as we've
+              confirmed it with the store.
+            </Text>
+            <TouchableOpacity onPress={handleRetryPendingPurchases}>
+              <Text style={styles.retryLink}>Retry now</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
 
       {/* Usage Dashboard (optional). Integrate when usage data source is available */}
@@ -458,8 +599,11 @@ export default function SubscriptionScreen({
               }
               isSelected={selectedPlanId === plan.id}
               isCurrentPlan={currentTier === plan.id}
-              onSelect={(p) => setSelectedPlanId(p.id)}
+              onSelect={(p) => handleSelectPlan(p.id)}
               disabled={purchasing !== null}
+              offers={getOffersForPlan(plan.id)}
+              selectedOffer={selectedPlanId === plan.id ? selectedOffer : null}
+              onSelectOffer={setSelectedOffer}
             />
           ))
         )}
@@ -478,12 +622,20 @@ export default function SubscriptionScreen({
               {purchasing === selectedPlanId ? (
                 <ActivityIndicator color={theme.colors.background.primary} />
               ) : (
-                <Text style={styles.purchaseButtonText}>Subscribe</Text>
+                <Text style={styles.purchaseButtonText}>
+                  {selectedOffer?.type === "free_trial"
+                    ? "Start free trial"
+                    : "Subscribe"}
+                </Text>
               )}
             </TouchableOpacity>
             <Text style={styles.purchaseHelpText}>
-              You can cancel anytime from Settings. Your plan will auto-renew
-              each month.
+              {selectedOffer?.type === "free_trial"
+                ? `You won't be charged until your ${formatOfferDuration(
+                    selectedOffer.period,
+                    selectedOffer.cycles
+                  )} trial ends. Cancel before then and you pay nothing.`
+                : "You can cancel anytime from Settings. Your plan will auto-renew each month."}
             </Text>
           </View>
         )}
@@ -497,7 +649,7 @@ export default function SubscriptionScreen({
           <Text style={styles.usageHistoryButtonText}>View Usage History</Text>
         </TouchableOpacity>
 
-        {hasActiveSubscription && (
+        {(hasActiveSubscription || needsPaymentFix) && (
           <TouchableOpacity
             style={styles.cancelButton}
             onPress={async () => {
@@ -514,6 +666,20 @@ export default function SubscriptionScreen({
         >
           <Text style={styles.restoreButtonText}>Restore Purchases</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.restoreButton, styles.redeemButton]}
+          onPress={handleRedeemOfferCode}
+        >
+          <Text style={styles.restoreButtonText}>Redeem Offer Code</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.restoreButton, styles.redeemButton]}
+          onPress={handleExportPurchaseJournal}
+        >
+          <Text style={styles.restoreButtonText}>Share Purchase Records</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Terms */}
@@ -531,6 +697,7 @@ export default function SubscriptionScreen({
             setShowUpgradeModal(false);
             setUpgradeTargetId(null);
             setSelectedPlanId(null);
+            setSelectedOffer(null);
           }}
           currentPlan={
             currentTier
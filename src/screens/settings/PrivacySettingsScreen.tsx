@@ -1,11 +1,22 @@
 import React, { useEffect, useState } from "react";
-import { View, Text, StyleSheet, Switch } from "react-native";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+  TouchableOpacity,
+  Image,
+} from "react-native";
 import ScreenContainer from "@components/common/ScreenContainer";
 import { useTheme } from "@contexts/ThemeContext";
 import { Layout } from "@constants/Layout";
 import { useApiClient } from "@/utils/api";
 import { useToast } from "@providers/ToastContext";
 import { useFeatureAccess } from "@/hooks/useFeatureAccess";
+import { presenceService } from "@services/presenceService";
+import { usePhotoAccessRequests } from "@/hooks/usePhotoAccess";
+import { PHOTO_VISIBILITY_OPTIONS } from "@utils/photoPrivacy";
+import type { PhotoVisibility } from "@/types/image";
 
 export default function PrivacySettingsScreen() {
   const { theme } = useTheme();
@@ -17,8 +28,13 @@ export default function PrivacySettingsScreen() {
   const [saving, setSaving] = useState(false);
 
   const [showOnlineStatus, setShowOnlineStatus] = useState(true);
-  const [showLastSeen, setShowLastSeen] = useState(true);
+  const [showLastSeen, setShowLastSeen] = useState(
+    () => presenceService.getPrivacy().showLastSeen
+  );
   const [hideFromFreeUsers, setHideFromFreeUsers] = useState<boolean>(false);
+  const [photoVisibility, setPhotoVisibility] =
+    useState<PhotoVisibility>("public");
+  const photoRequests = usePhotoAccessRequests();
 
   useEffect(() => {
     let cancelled = false;
@@ -30,8 +46,11 @@ export default function PrivacySettingsScreen() {
           setShowOnlineStatus(
             profile?.privacySettings?.showOnlineStatus ?? true
           );
-          setShowLastSeen(profile?.privacySettings?.showLastSeen ?? true);
+          const lastSeen = profile?.privacySettings?.showLastSeen ?? true;
+          setShowLastSeen(lastSeen);
+          presenceService.setPrivacy({ showLastSeen: lastSeen });
           setHideFromFreeUsers(profile?.hideFromFreeUsers ?? false);
+          setPhotoVisibility(profile?.photoVisibility ?? "public");
         }
         setLoading(false);
       }
@@ -67,6 +86,8 @@ export default function PrivacySettingsScreen() {
 
   const onToggleLastSeen = async (val: boolean) => {
     setShowLastSeen(val);
+    // Reciprocal: hiding ours also hides everyone else's from us
+    presenceService.setPrivacy({ showLastSeen: val });
     await persist({ privacySettings: { showOnlineStatus, showLastSeen: val } });
   };
 
@@ -80,6 +101,12 @@ export default function PrivacySettingsScreen() {
     await persist({ hideFromFreeUsers: val });
   };
 
+  const onSelectPhotoVisibility = async (val: PhotoVisibility) => {
+    if (val === photoVisibility) return;
+    setPhotoVisibility(val);
+    await persist({ photoVisibility: val });
+  };
+
   return (
     <ScreenContainer
       containerStyle={{
@@ -150,7 +177,8 @@ export default function PrivacySettingsScreen() {
               Show Last Seen
             </Text>
             <Text style={{ fontSize: 13, color: theme.colors.text.secondary }}>
-              Display your last active time
+              Display your last active time. If you don't share yours, you won't
+              see other people's either.
             </Text>
           </View>
           <Switch value={showLastSeen} onValueChange={onToggleLastSeen} />
@@ -204,9 +232,166 @@ export default function PrivacySettingsScreen() {
           </Text>
         )}
       </View>
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+        Who can see my photos
+      </Text>
+      <View
+        style={{
+          backgroundColor: theme.colors.background.primary,
+          borderRadius: Layout.radius.md,
+          padding: Layout.spacing.md,
+        }}
+      >
+        {PHOTO_VISIBILITY_OPTIONS.map((option) => {
+          const selected = option.value === photoVisibility;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.optionRow}
+              onPress={() => onSelectPhotoVisibility(option.value)}
+              accessibilityRole="radio"
+              accessibilityState={{ selected }}
+            >
+              <View style={styles.left}>
+                <Text
+                  style={{
+                    fontSize: 16,
+                    fontWeight: "600",
+                    color: theme.colors.text.primary,
+                    marginBottom: 4,
+                  }}
+                >
+                  {option.label}
+                </Text>
+                <Text
+                  style={{ fontSize: 13, color: theme.colors.text.secondary }}
+                >
+                  {option.description}
+                </Text>
+              </View>
+              <View
+                style={[
+                  styles.radio,
+                  {
+                    borderColor: selected
+                      ? theme.colors.primary[500]
+                      : theme.colors.neutral[300],
+                  },
+                ]}
+              >
+                {selected && (
+                  <View
+                    style={[
+                      styles.radioDot,
+                      { backgroundColor: theme.colors.primary[500] },
+                    ]}
+                  />
+                )}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {photoRequests.pending.length > 0 && (
+        <>
+          <Text
+            style={[styles.sectionTitle, { color: theme.colors.text.primary }]}
+          >
+            Photo access requests
+          </Text>
+          <View
+            style={{
+              backgroundColor: theme.colors.background.primary,
+              borderRadius: Layout.radius.md,
+              padding: Layout.spacing.md,
+            }}
+          >
+            {photoRequests.pending.map((request) => (
+              <View key={request.id} style={styles.optionRow}>
+                {request.requesterImageUrl ? (
+                  <Image
+                    source={{ uri: request.requesterImageUrl }}
+                    style={styles.avatar}
+                  />
+                ) : null}
+                <Text
+                  style={[styles.left, { color: theme.colors.text.primary }]}
+                  numberOfLines={2}
+                >
+                  {request.requesterName || "A member"} wants to see your photos
+                </Text>
+                <TouchableOpacity
+                  onPress={() => photoRequests.decline(request.id)}
+                  disabled={photoRequests.responding}
+                  style={styles.requestButton}
+                >
+                  <Text
+                    style={{
+                      color: theme.colors.text.secondary,
+                      fontWeight: "600",
+                    }}
+                  >
+                    Decline
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => photoRequests.approve(request.id)}
+                  disabled={photoRequests.responding}
+                  style={styles.requestButton}
+                >
+                  <Text
+                    style={{
+                      color: theme.colors.primary[500],
+                      fontWeight: "600",
+                    }}
+                  >
+                    Approve
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
     </ScreenContainer>
   );
 }
 const styles = StyleSheet.create({
   left: { flex: 1, paddingRight: Layout.spacing.md },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    marginTop: Layout.spacing.lg,
+    marginBottom: Layout.spacing.sm,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Layout.spacing.sm,
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  radioDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: Layout.spacing.sm,
+  },
+  requestButton: {
+    paddingVertical: Layout.spacing.xs,
+    paddingHorizontal: Layout.spacing.sm,
+  },
 });
@@ -25,6 +25,7 @@ import PremiumFeatureGuard from "@components/subscription/PremiumFeatureGuard";
 import UpgradePrompt from "@components/subscription/UpgradePrompt";
 import { useSubscription } from "@/hooks/useSubscription";
 import { useFeatureAccess } from "@/hooks/useFeatureAccess";
+import { useCredits } from "@/hooks/useCredits";
 import type { SubscriptionTier } from "@/types/subscription";
 import { getBillingPortalUrl } from "@services/subscriptions";
 import HintPopover from "@/components/ui/HintPopover";
@@ -81,6 +82,7 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
   const [checking, setChecking] = useState(false);
   const { subscription, canUseFeatureNow } = useSubscription();
   const { checkFeatureAccess } = useFeatureAccess();
+  const { balances: credits, recordSpend } = useCredits();
   const currentTier = (subscription?.plan as SubscriptionTier) || "free";
   const [upgradeVisible, setUpgradeVisible] = useState(false);
   const { theme, isDark, setTheme } = useTheme();
@@ -357,25 +359,38 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
               : "Get more visibility for 24 hours",
           type: "action" as const,
           onPress: async () => {
+            // Purchased boosts cover users whose plan or quota doesn't
+            let useCredit = false;
             // Plan gate first
             const access = await checkFeatureAccess("canBoostProfile");
             if (!access.allowed) {
-              setRecommendedTier("premiumPlus");
-              setUpgradeVisible(true);
-              return;
-            }
-            // Server-side quota check
-            const avail = await canUseFeatureNow("profileBoosts");
-            if (!avail.canUse) {
-              toast.show(
-                avail.reason || "You've reached your boost quota for now.",
-                "info"
-              );
-              return;
+              if (credits.boost <= 0) {
+                setRecommendedTier("premiumPlus");
+                setUpgradeVisible(true);
+                return;
+              }
+              useCredit = true;
+            } else {
+              // Server-side quota check
+              const avail = await canUseFeatureNow("profileBoosts");
+              if (!avail.canUse) {
+                if (credits.boost <= 0) {
+                  toast.show(
+                    avail.reason || "You've reached your boost quota for now.",
+                    "info"
+                  );
+                  return;
+                }
+                useCredit = true;
+              }
             }
-            const res = await apiClient.boostProfile();
+            const res = await apiClient.boostProfile({ useCredit });
             if ((res as any)?.success === false) {
               toast.show((res as any)?.error || "Failed to boost", "error");
+            } else if (useCredit) {
+              recordSpend("boost");
+              toast.show("Boost activated using 1 boost credit", "success");
+              setBoostedUntil(Date.now() + 24 * 60 * 60 * 1000);
             } else {
               toast.show("Boost activated", "success");
               // Optimistically reflect updated state
@@ -423,7 +438,8 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
           type: "action" as const,
           onPress: async () => {
             const access = await checkFeatureAccess("canUseIncognitoMode");
-            if (!access.allowed) {
+            const useCredit = !access.allowed && credits.spotlight_day > 0;
+            if (!access.allowed && !useCredit) {
               setRecommendedTier("premiumPlus");
               setUpgradeVisible(true);
               return;
@@ -432,10 +448,11 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
               toast.show("Spotlight already active", "info");
               return;
             }
-            const res = await apiClient.activateSpotlight();
+            const res = await apiClient.activateSpotlight({ useCredit });
             if ((res as any)?.success === false) {
               toast.show((res as any)?.error || "Failed to activate", "error");
             } else {
+              if (useCredit) recordSpend("spotlight_day");
               toast.show("Spotlight activated", "success");
               setHasSpotlightBadge(true);
             }
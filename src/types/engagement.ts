@@ -1,5 +1,7 @@
 // Engagement-related shared types
 
+import type { PhotoVisibility } from "../../types/image";
+
 export type Icebreaker = {
   id: string;
   text: string;
@@ -13,6 +15,7 @@ export type QuickPickProfile = {
   fullName?: string | null;
   city?: string | null;
   imageUrl?: string | null;
+  photoVisibility?: PhotoVisibility | null;
   // Optional, may be present for ordering
   viewsToday?: number;
   profileViewsToday?: number;
@@ -1,4 +1,5 @@
 import { Message } from "./message";
+import type { EncryptedEnvelope } from "../../types/message";
 import { ApiResponse } from "../../types/profile";
 
 // Re-export types for consistency
@@ -22,6 +23,8 @@ export interface MessagingAPI {
     duration?: number;
     fileSize?: number;
     mimeType?: string;
+    clientMessageId?: string;
+    encrypted?: EncryptedEnvelope;
   }): Promise<ApiResponse<Message>>;
 
   markConversationAsRead(conversationId: string): Promise<ApiResponse<void>>;
@@ -1,5 +1,5 @@
 import { apiClient } from "../../utils/api";
-import { MessagingAPI } from "@/types/messaging";
+import { MessageChangesResponse, MessagingAPI } from "@/types/messaging";
 import { Message } from "@/types/message";
 import { ApiResponse } from "../../types/profile";
 
@@ -10,20 +10,34 @@ export class MessagingApiAdapter implements MessagingAPI {
     return await this.client.getMessages(conversationId, options);
   }
 
-  async sendMessage(data: {
-    conversationId: string;
-    fromUserId: string;
-    toUserId: string;
-    text?: string;
-    type?: "text" | "voice" | "image";
-    audioStorageId?: string;
-    duration?: number;
-    fileSize?: number;
-    mimeType?: string;
-  }): Promise<ApiResponse<Message>> {
+  async getMessageByClientId(
+    conversationId: string,
+    clientMessageId: string
+  ): Promise<ApiResponse<Message | null>> {
+    return await this.client.getMessageByClientId(
+      conversationId,
+      clientMessageId
+    );
+  }
+
+  async sendMessage(
+    data: Parameters<MessagingAPI["sendMessage"]>[0]
+  ): Promise<ApiResponse<Message>> {
     return await this.client.sendMessage(data);
   }
 
+  async scheduleMessage(
+    data: Parameters<MessagingAPI["sendMessage"]>[0] & { sendAt: number }
+  ): Promise<ApiResponse<{ scheduledId: string }>> {
+    return await this.client.scheduleMessage(data);
+  }
+
+  async cancelScheduledMessage(
+    scheduledId: string
+  ): Promise<ApiResponse<void>> {
+    return await this.client.cancelScheduledMessage(scheduledId);
+  }
+
   async markConversationAsRead(conversationId: string): Promise<ApiResponse<void>> {
     return await this.client.markConversationAsRead(conversationId);
   }
@@ -107,4 +121,11 @@ export class MessagingApiAdapter implements MessagingAPI {
   ): Promise<ApiResponse<{ success: boolean }>> {
     return await this.client.deleteMessage(messageId);
   }
+
+  async getMessageChanges(
+    conversationId: string,
+    options?: { cursor?: string; since?: number; limit?: number }
+  ): Promise<ApiResponse<MessageChangesResponse>> {
+    return await this.client.getMessageChanges(conversationId, options);
+  }
 }
@@ -23,18 +23,51 @@ export interface ProfileImage {
   id?: string;
   order?: number;
   isMain?: boolean;
+  visibility?: PhotoVisibility; // overrides the profile's photoVisibility
+  // Server-blurred copy, sent instead of the original while the photo is
+  // private to the viewer
+  blurredUrl?: string;
+}
+
+// Who can see a photo unblurred: everyone, mutual matches, or only people
+// the owner approved
+export type PhotoVisibility = "public" | "matches" | "on_request";
+
+export type PhotoAccessStatus = "none" | "pending" | "approved" | "declined";
+
+export interface PhotoAccessRequest {
+  id: string;
+  requesterId: string;
+  ownerId: string;
+  status: Exclude<PhotoAccessStatus, "none">;
+  createdAt: number;
+  respondedAt?: number;
+  requesterName?: string;
+  requesterImageUrl?: string;
 }
 
 export interface ImageUploadResponse {
   uploadUrl: string;
 }
 
+export type PhotoPrecheckVerdict = "clear" | "warn" | "block" | "unchecked";
+
+// On-device moderation pre-check, sent along with the upload
+export interface PhotoPrecheckMetadata {
+  verdict: PhotoPrecheckVerdict;
+  engine: string;
+  checkedAt: number;
+  overridden: boolean; // uploaded despite warnings
+  rules: Record<string, "passed" | "failed" | "skipped">;
+}
+
 export interface ImageUploadMetadata {
   userId: string;
   storageId: string;
   fileName: string;
   contentType: string;
   fileSize: number;
+  precheck?: PhotoPrecheckMetadata;
 }
 
 export interface ImageValidationConstants {
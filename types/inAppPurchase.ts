@@ -34,6 +34,44 @@ export interface Product {
   introductoryPrice?: string;
   introductoryPricePeriod?: string;
   freeTrialPeriod?: string;
+  // Trials, intro prices and promotions the store offers for this product
+  offers?: SubscriptionOffer[];
+}
+
+export type SubscriptionOfferType = 'free_trial' | 'intro' | 'promotional';
+
+export interface OfferPeriod {
+  unit: 'day' | 'week' | 'month' | 'year';
+  value: number;
+}
+
+// A discounted start to a subscription, as the store describes it
+export interface SubscriptionOffer {
+  id: string; // Play offerId, or the App Store offer identifier
+  productId: string;
+  type: SubscriptionOfferType;
+  displayPrice: string; // price per period during the offer; '' when free
+  period: OfferPeriod;
+  cycles: number; // how many periods the offer lasts
+  offerToken?: string; // Android
+  eligible: boolean;
+}
+
+// What the server knows about the user's offer history
+export interface OfferEligibility {
+  // False once a trial or intro price has been used on any platform
+  introEligible: boolean;
+  // Promotional offers the user has been granted
+  promotionalOfferIds: string[];
+}
+
+// Server-signed App Store promotional offer, passed to the purchase as-is
+export interface SignedPromotionalOffer {
+  identifier: string;
+  keyIdentifier: string;
+  nonce: string;
+  signature: string;
+  timestamp: number;
 }
 
 // Purchase transaction
@@ -50,6 +88,8 @@ export interface PurchaseTransaction {
   acknowledged?: boolean; // Android
   autoRenewing?: boolean;
   isTrialPeriod?: boolean;
+  offerId?: string;
+  offerType?: SubscriptionOfferType;
 }
 
 // Purchase validation request
@@ -61,6 +101,8 @@ export interface PurchaseValidationRequest {
   receiptData?: string; // iOS
   packageName?: string; // Android
   subscriptionPlan: SubscriptionPlan;
+  offerId?: string;
+  offerType?: SubscriptionOfferType;
 }
 
 // Purchase validation response
@@ -137,6 +179,8 @@ export interface PurchaseState {
   currentSubscription?: SubscriptionStatus;
   isLoading: boolean;
   error?: PurchaseError;
+  // Paid for in the store, not yet confirmed by the server
+  pendingPurchases?: PurchaseJournalEntry[];
 }
 
 // Product configuration
@@ -223,6 +267,133 @@ export const PRODUCT_IDS: ProductIdentifiers = {
   }
 };
 
+// Credits sold à la carte, on top of what the subscription includes
+export type CreditType = 'boost' | 'spotlight_day' | 'super_interest';
+
+export type CreditBalances = Record<CreditType, number>;
+
+// A consumable store product and the credits it grants
+export interface ConsumableProductConfig {
+  productId: string;
+  credit: CreditType;
+  quantity: number;
+  title: string;
+}
+
+export const CONSUMABLE_PRODUCTS: Record<Platform, ConsumableProductConfig[]> = {
+  ios: [
+    {
+      productId: 'com.aroosi.boost.pack1',
+      credit: 'boost',
+      quantity: 1,
+      title: '1 Boost'
+    },
+    {
+      productId: 'com.aroosi.boost.pack5',
+      credit: 'boost',
+      quantity: 5,
+      title: '5 Boosts'
+    },
+    {
+      productId: 'com.aroosi.spotlight.day1',
+      credit: 'spotlight_day',
+      quantity: 1,
+      title: '1 Spotlight Day'
+    },
+    {
+      productId: 'com.aroosi.spotlight.day7',
+      credit: 'spotlight_day',
+      quantity: 7,
+      title: '7 Spotlight Days'
+    },
+    {
+      productId: 'com.aroosi.superinterest.pack3',
+      credit: 'super_interest',
+      quantity: 3,
+      title: '3 Super Interests'
+    }
+  ],
+  android: [
+    {
+      productId: 'boost_pack_1',
+      credit: 'boost',
+      quantity: 1,
+      title: '1 Boost'
+    },
+    {
+      productId: 'boost_pack_5',
+      credit: 'boost',
+      quantity: 5,
+      title: '5 Boosts'
+    },
+    {
+      productId: 'spotlight_day_1',
+      credit: 'spotlight_day',
+      quantity: 1,
+      title: '1 Spotlight Day'
+    },
+    {
+      productId: 'spotlight_day_7',
+      credit: 'spotlight_day',
+      quantity: 7,
+      title: '7 Spotlight Days'
+    },
+    {
+      productId: 'super_interest_pack_3',
+      credit: 'super_interest',
+      quantity: 3,
+      title: '3 Super Interests'
+    }
+  ]
+};
+
+// Local record of a credit change the server hasn't confirmed yet
+export interface CreditLedgerEntry {
+  id: string;
+  credit: CreditType;
+  delta: number;
+  reason: 'purchase' | 'spend';
+  transactionId?: string; // purchases only
+  createdAt: number;
+}
+
+// Server's view of the wallet
+export interface CreditWallet {
+  balances: CreditBalances;
+  updatedAt: number;
+  // Store transactions already credited, so retries don't double up
+  creditedTransactionIds?: string[];
+}
+
+// Server reply to a consumable receipt
+export interface ConsumableValidationResponse {
+  transactionId: string;
+  credit: CreditType;
+  quantity: number;
+  wallet: CreditWallet;
+  // Set with valid: false when the server checked the receipt and refuses it
+  success?: boolean;
+  valid?: boolean;
+  message?: string;
+}
+
+// Where a store transaction stands with the server
+export type PurchaseJournalStatus = 'pending' | 'validated' | 'rejected';
+
+// A store transaction, kept from the store callback until the server settles it
+export interface PurchaseJournalEntry {
+  transactionId: string;
+  productId: string;
+  userId?: string;
+  status: PurchaseJournalStatus;
+  // Replayed as-is, so every retry is the same idempotent request
+  request: PurchaseValidationRequest;
+  attempts: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 // Purchase event types for analytics
 export type PurchaseEvent = 
   | 'purchase_initiated'
@@ -276,8 +447,13 @@ export interface UsePurchaseReturn {
   // Actions
   initializePurchases: () => Promise<boolean>;
   loadProducts: () => Promise<Product[]>;
-  purchaseProduct: (productId: string) => Promise<PurchaseResult>;
+  purchaseProduct: (
+    productId: string,
+    offer?: SubscriptionOffer | null
+  ) => Promise<PurchaseResult>;
   restorePurchases: () => Promise<RestorePurchasesResult>;
+  // App Store offer codes / Play promo codes
+  redeemOfferCode: () => Promise<boolean>;
   
   // Subscription management
   getSubscriptionStatus: () => Promise<SubscriptionStatus>;
@@ -287,4 +463,8 @@ export interface UsePurchaseReturn {
   isProductOwned: (productId: string) => boolean;
   getPriceString: (productId: string) => string;
   validatePurchase: (transaction: PurchaseTransaction) => Promise<PurchaseValidationResponse>;
+  // Retries purchases the server hasn't confirmed; resolves with how many remain
+  retryPendingPurchases: () => Promise<number>;
+  // Opens the share sheet with the purchase journal, for support disputes
+  exportPurchaseJournal: () => Promise<boolean>;
 }
\ No newline at end of file
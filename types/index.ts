@@ -16,6 +16,8 @@ export {
 	type MessageCacheInterface,
 	type OptimisticMessageManager,
 	type RealtimeEvents,
+	type MessageChangeEvent,
+	type MessageChangesResponse,
 	type SubscriptionTier,
 } from "./messaging";
 export * from "./subscription";
@@ -29,6 +31,8 @@ export * from "./inAppPurchase";
 export * from "./notifications";
 export * from "./contact";
 export * from "./engagement";
+export * from "./realtime";
+export * from "./presence";
 
 // Import global type declarations
 import "./global";
@@ -13,14 +13,64 @@ export interface Conversation {
   isGroup?: boolean;
   createdAt?: number;
   updatedAt?: number;
+  // Disappearing messages: messages sent after the timer was set expire
+  // this long after they were sent
+  disappearingTimer?: DisappearingTimer;
+  disappearingTimerSetAt?: number;
 }
 
+export type DisappearingTimer = "off" | "24h" | "7d";
+
+/**
+ * A conversation's disappearing-messages timer and when it took effect
+ */
+export interface DisappearingTimerSetting {
+  timer: DisappearingTimer;
+  since: number;
+}
+
+/**
+ * Conversation events recorded in the timeline as system messages
+ */
+export type MessageSystemEvent = {
+  type: "disappearing_timer";
+  timer: DisappearingTimer;
+  changedBy?: string;
+};
+
 export type MessageStatus =
   | "pending"
   | "sent"
   | "delivered"
   | "read"
   | "failed";
+// Where a voice message's transcript is; "unavailable" when no engine could
+// transcribe it (unsupported language, no speech)
+export type VoiceTranscriptStatus =
+  | "pending"
+  | "completed"
+  | "failed"
+  | "unavailable";
+
+export interface MessageReaction {
+  emoji: string;
+  userId: string;
+}
+
+/**
+ * Payload of an end-to-end encrypted message. The content is sealed with a
+ * per-message key, which is boxed separately for every device of both
+ * participants.
+ */
+export interface EncryptedEnvelope {
+  v: 1;
+  senderDeviceId: string;
+  senderKey: string; // sender device public key, base64
+  nonce: string;
+  ciphertext: string;
+  keys: Record<string, { nonce: string; box: string }>; // by device id
+}
+
 export interface Message {
   _id: string;
   conversationId: string;
@@ -34,9 +84,16 @@ export interface Message {
   // Voice message fields
   audioStorageId?: string;
   duration?: number;
+  transcript?: string;
+  transcriptStatus?: VoiceTranscriptStatus;
+  transcriptLanguage?: string;
+  // Played to the end by the recipient; a receipt separate from readAt
+  listenedAt?: number;
 
   // Image message fields
   imageStorageId?: string;
+  width?: number;
+  height?: number;
 
   // Common metadata
   fileSize?: number;
@@ -46,6 +103,18 @@ export interface Message {
   status?: "pending" | "sent" | "delivered" | "read" | "failed";
   isOptimistic?: boolean;
   deliveryReceipts?: any[];
+  // Generated on the device and sent with every attempt, so the server can
+  // drop retries of a send it already stored
+  clientMessageId?: string;
+
+  // End-to-end encryption: the sealed payload as stored by the server. Once
+  // decrypted on this device, `text` holds the plaintext.
+  encrypted?: EncryptedEnvelope;
+  decryptionFailed?: boolean;
+
+  // Disappearing messages: removed from every local copy after this time
+  expiresAt?: number;
+  systemEvent?: MessageSystemEvent;
 
   // Backward compatibility fields (kept optional)
   id?: string;
@@ -61,6 +130,8 @@ export interface Message {
   fileName?: string;
   thumbnailUrl?: string;
   editedAt?: number;
+  deletedAt?: number;
+  reactions?: MessageReaction[];
   replyToId?: string;
   isSystemMessage?: boolean;
 }
@@ -1,4 +1,10 @@
-import { Message, Conversation, MessageStatus } from "./message";
+import {
+  Message,
+  Conversation,
+  MessageStatus,
+  EncryptedEnvelope,
+  DisappearingTimerSetting,
+} from "./message";
 import { ApiResponse } from "./profile";
 
 // Align subscription tier type with web (and re-export for downstream tests)
@@ -14,6 +20,11 @@ export interface MessagingAPI {
     conversationId: string,
     options?: { limit?: number; before?: number }
   ): Promise<ApiResponse<Message[]>>;
+  // Exact lookup of a send (optional: older backends only list pages)
+  getMessageByClientId?(
+    conversationId: string,
+    clientMessageId: string
+  ): Promise<ApiResponse<Message | null>>;
 
   sendMessage(data: {
     conversationId: string;
@@ -23,10 +34,21 @@ export interface MessagingAPI {
     type?: "text" | "voice" | "image";
     audioStorageId?: string;
     duration?: number;
+    voiceWaveform?: number[]; // peaks in [0..1], one per bar
+    transcript?: string;
+    transcriptLanguage?: string;
     fileSize?: number;
     mimeType?: string;
+    clientMessageId?: string;
+    encrypted?: EncryptedEnvelope;
   }): Promise<ApiResponse<Message>>;
 
+  // Server-held scheduled sends (optional: older backends deliver from the device)
+  scheduleMessage?(
+    data: Parameters<MessagingAPI["sendMessage"]>[0] & { sendAt: number }
+  ): Promise<ApiResponse<{ scheduledId: string }>>;
+  cancelScheduledMessage?(scheduledId: string): Promise<ApiResponse<void>>;
+
   markConversationAsRead(conversationId: string): Promise<ApiResponse<void>>;
 
   // Voice message operations
@@ -34,6 +56,14 @@ export interface MessagingAPI {
     ApiResponse<{ uploadUrl: string; storageId: string }>
   >;
   getVoiceMessageUrl(storageId: string): Promise<ApiResponse<{ url: string }>>;
+  // Server-side speech to text (optional: older backends can't transcribe)
+  transcribeVoiceMessage?(
+    storageId: string,
+    options?: { language?: string }
+  ): Promise<ApiResponse<{ text: string; language?: string }>>;
+  markVoiceMessageListened?(
+    messageId: string
+  ): Promise<ApiResponse<{ listenedAt: number }>>;
 
   // Real-time operations (non-API envelope: fire-and-forget semantics)
   sendTypingIndicator(
@@ -51,6 +81,10 @@ export interface MessagingAPI {
 }
 
 // Real-time event types
+/**
+ * @deprecated Covers only the version 1 events; use the wire protocol
+ * types in types/realtime.ts (RealtimeServerEventHandlers)
+ */
 export interface RealtimeEvents {
   // Message events
   "message:new": (message: Message) => void;
@@ -65,6 +99,37 @@ export interface RealtimeEvents {
   "connection:status": (status: "connected" | "disconnected") => void;
 }
 
+// Delta sync change events (GET /api/messages/changes)
+export type MessageChangeEvent =
+  | { type: "upsert"; seq?: number; message: Message }
+  | {
+      type: "edit";
+      seq?: number;
+      messageId: string;
+      text: string;
+      editedAt: number;
+    }
+  | { type: "delete"; seq?: number; messageId: string; deletedAt: number }
+  | {
+      type: "reaction";
+      seq?: number;
+      messageId: string;
+      emoji: string;
+      userId: string;
+      action: "add" | "remove";
+    }
+  | { type: "read"; seq?: number; messageId: string; readAt: number };
+
+export interface MessageChangesResponse {
+  changes: MessageChangeEvent[];
+  cursor: string;
+  hasMore: boolean;
+  // Server clock when the page was read, used as the `since` watermark
+  serverTime?: number;
+  // Server no longer has history back to the cursor; do a full resync
+  resetRequired?: boolean;
+}
+
 // Voice recording and playback interfaces
 export interface VoiceRecorder {
   startRecording(): Promise<void>;
@@ -126,6 +191,7 @@ export enum MessagingErrorType {
   SUBSCRIPTION_REQUIRED = "SUBSCRIPTION_REQUIRED",
   VOICE_RECORDING_FAILED = "VOICE_RECORDING_FAILED",
   FILE_UPLOAD_FAILED = "FILE_UPLOAD_FAILED",
+  ENCRYPTION_FAILED = "ENCRYPTION_FAILED",
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
 }
 
@@ -156,6 +222,14 @@ export interface MessageCacheInterface {
   setMessages(conversationId: string, messages: Message[]): void;
   addMessage(conversationId: string, message: Message): void;
   clearCache(conversationId?: string): void;
+  // Durable stores keep the disappearing-messages timer next to the messages
+  getDisappearingTimer?(
+    conversationId: string
+  ): DisappearingTimerSetting | null;
+  setDisappearingTimer?(
+    conversationId: string,
+    setting: DisappearingTimerSetting
+  ): void;
 }
 
 // Optimistic message manager interface
@@ -164,3 +238,25 @@ export interface OptimisticMessageManager {
   confirmMessage(tempId: string, actualMessage: Message): void;
   rejectMessage(tempId: string, error: MessagingError): void;
 }
+
+// End-to-end encryption hooks for the send path and sync ingest
+// Local media handed to a MessageCipher; everything but the file itself is
+// sealed inside the envelope
+export interface SealedAttachment {
+  localUri: string;
+  contentType?: string;
+  width?: number;
+  height?: number;
+  peaks?: number[];
+}
+
+export interface MessageCipher {
+  isEncrypted(conversationId: string): boolean;
+  encryptMessage(
+    message: Omit<Message, "_id">,
+    attachment?: SealedAttachment
+  ): Promise<
+    ApiResponse<{ encrypted: EncryptedEnvelope; encryptedUri?: string }>
+  >;
+  decryptMessages(messages: Message[]): Promise<Message[]>;
+}
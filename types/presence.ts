@@ -0,0 +1,29 @@
+import type { PresenceStatus } from "./realtime";
+
+/**
+ * Presence as the server reports it. lastSeen is null when the user hides
+ * their last seen (or when the viewer hides theirs, which is reciprocal).
+ */
+export interface PresenceSnapshot {
+  isOnline: boolean;
+  lastSeen?: number | null;
+  status?: PresenceStatus;
+}
+
+/**
+ * What the app shows for another user
+ */
+export interface UserPresence {
+  userId: string;
+  isOnline: boolean;
+  status: PresenceStatus;
+  lastSeen?: number;
+  // Last seen exists but one side has chosen not to share it
+  lastSeenHidden: boolean;
+  updatedAt: number;
+}
+
+export interface PresencePrivacy {
+  // Off hides our last seen from others and theirs from us, like WhatsApp
+  showLastSeen: boolean;
+}
@@ -14,6 +14,7 @@ export type PhysicalStatus = "normal" | "differently-abled" | "other" | "";
 export type ProfileFor = "self" | "friend" | "family";
 // Import from subscription types for consistency
 import type { SubscriptionTier } from "./subscription";
+import type { PhotoVisibility } from "./image";
 export type SubscriptionPlan = SubscriptionTier;
 
 export type Id<TableName extends string = string> = string & {
@@ -53,6 +54,8 @@ export interface Profile {
   isApproved?: boolean;
 
   hideFromFreeUsers?: boolean;
+  // Default visibility of this profile's photos
+  photoVisibility?: PhotoVisibility;
   banned: boolean;
   createdAt: number;
   updatedAt: number;
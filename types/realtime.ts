@@ -0,0 +1,173 @@
+// Realtime wire protocol shared by the WebSocket clients in services/.
+//
+// From version 2 every frame is an envelope { v, type, ts, seq?, data }.
+// Version 1 is the older flat JSON ({ type: "message", ...fields }) still
+// spoken by servers that never answer the hello handshake.
+
+import type { SubscriptionTier } from "./messaging";
+
+export type RealtimeMessageType = "text" | "voice" | "image";
+
+/**
+ * A chat message as pushed over the socket
+ */
+export interface RealtimeWireMessage {
+  id: string;
+  conversationId: string;
+  fromUserId: string;
+  toUserId: string;
+  type: RealtimeMessageType;
+  text?: string;
+  createdAt: number;
+  clientMessageId?: string;
+  audioUrl?: string;
+  imageUrl?: string;
+  duration?: number;
+  encrypted?: unknown;
+  expiresAt?: number;
+}
+
+export type PresenceStatus = "online" | "away" | "offline";
+
+export type RealtimeServerEvent =
+  // Handshake
+  | {
+      type: "welcome";
+      version: number;
+      sessionId?: string;
+      heartbeatMs?: number;
+      // True when the server will replay everything after the hello's lastSeq
+      resumed?: boolean;
+    }
+  | { type: "pong" }
+  | { type: "error"; code: string; message: string }
+  // Messages
+  | { type: "message.new"; message: RealtimeWireMessage }
+  | {
+      type: "message.edited";
+      conversationId: string;
+      messageId: string;
+      text: string;
+      editedAt: number;
+    }
+  | {
+      type: "message.deleted";
+      conversationId: string;
+      messageId: string;
+      deletedAt: number;
+    }
+  | {
+      type: "reaction";
+      conversationId: string;
+      messageId: string;
+      userId: string;
+      emoji: string;
+      action: "add" | "remove";
+    }
+  | {
+      type: "receipt";
+      conversationId: string;
+      messageId: string;
+      userId: string;
+      status: "delivered" | "read" | "listened";
+      at: number;
+    }
+  | {
+      type: "typing";
+      conversationId: string;
+      userId: string;
+      isTyping: boolean;
+    }
+  // People
+  | {
+      type: "presence";
+      userId: string;
+      status: PresenceStatus;
+      lastSeen?: number;
+    }
+  | {
+      type: "match.new";
+      matchId: string;
+      userId: string;
+      conversationId?: string;
+    }
+  | {
+      type: "interest";
+      interestId: string;
+      fromUserId: string;
+      toUserId: string;
+      status: "pending" | "accepted" | "rejected";
+    }
+  // Account
+  | {
+      type: "subscription.updated";
+      plan: SubscriptionTier;
+      status?: string;
+      expiresAt?: number;
+    };
+
+export type RealtimeServerEventType = RealtimeServerEvent["type"];
+
+/**
+ * Listener signatures keyed by server event type
+ */
+export type RealtimeServerEventHandlers = {
+  [K in RealtimeServerEventType]: (
+    event: Extract<RealtimeServerEvent, { type: K }>,
+    meta: RealtimeFrameMeta
+  ) => void;
+};
+
+export type RealtimeClientEvent =
+  | {
+      type: "hello";
+      versions: number[];
+      client: string;
+      sessionId?: string;
+      lastSeq?: number;
+    }
+  | { type: "ping" }
+  | { type: "auth"; token: string; userId: string }
+  | { type: "auth.refresh"; token: string; userId: string }
+  | {
+      type: "typing";
+      conversationId: string;
+      userId: string;
+      isTyping: boolean;
+    }
+  | {
+      type: "receipt";
+      conversationId: string;
+      messageId: string;
+      userId: string;
+      status: "delivered" | "read" | "listened";
+    }
+  | { type: "join"; conversationId: string; userId: string }
+  | { type: "leave"; conversationId: string; userId: string }
+  | {
+      type: "message.send";
+      message: Omit<RealtimeWireMessage, "createdAt"> & { createdAt?: number };
+    };
+
+export type RealtimeClientEventType = RealtimeClientEvent["type"];
+
+/**
+ * Frame metadata that travels alongside every decoded event
+ */
+export interface RealtimeFrameMeta {
+  v: number;
+  ts: number;
+  seq?: number;
+}
+
+export type RealtimeDecodeResult =
+  | { kind: "event"; event: RealtimeServerEvent; meta: RealtimeFrameMeta }
+  // A type this client doesn't know yet; safe to ignore
+  | { kind: "unknown"; type: string; meta: RealtimeFrameMeta; raw: unknown }
+  | { kind: "invalid"; error: string; raw: unknown };
+
+// Decoded frames that carry an event, known or not
+export type RealtimeSequencedResult = Exclude<
+  RealtimeDecodeResult,
+  { kind: "invalid" }
+>;
@@ -2,12 +2,60 @@
 export type SubscriptionTier = "free" | "premium" | "premiumPlus";
 
 export type SubscriptionStatus =
+  | "trial"
   | "active"
   | "expired"
   | "cancelled"
   | "pending"
   | "grace_period"
-  | "on_hold";
+  | "on_hold"
+  | "refunded";
+
+// Where a subscription is in its life, derived from the verified receipt
+export type SubscriptionLifecycleState =
+  | "none"
+  | "trial"
+  | "active"
+  | "cancelled_active" // auto-renew off, paid time left
+  | "grace_period" // renewal failed, store still retrying with access
+  | "on_hold" // renewal failed, access suspended until payment is fixed
+  | "expired"
+  | "refunded";
+
+export type SubscriptionLifecycleEvent =
+  | "start_trial"
+  | "purchase"
+  | "convert" // trial's first paid renewal
+  | "renew"
+  | "cancel"
+  | "resume"
+  | "billing_failed"
+  | "grace_ended"
+  | "billing_recovered"
+  | "expire"
+  | "refund";
+
+export type LifecycleBannerAction = "fix_payment" | "resubscribe" | "manage";
+
+// Prompt shown in-app for states that need the user's attention
+export interface LifecycleBanner {
+  severity: "info" | "warning" | "error";
+  title: string;
+  message: string;
+  action: LifecycleBannerAction;
+  actionLabel: string;
+}
+
+export interface SubscriptionLifecycle {
+  state: SubscriptionLifecycleState;
+  // Whether paid features are available right now
+  entitled: boolean;
+  // Tier to grant; "free" whenever not entitled
+  tier: SubscriptionTier;
+  // When access ends unless something changes (renewal, payment fix)
+  accessUntil?: number;
+  banner: LifecycleBanner | null;
+}
 
 // Subscription plan object - what mobile components expect
 export interface SubscriptionPlan {
@@ -53,6 +101,13 @@ export interface UserSubscription {
 
   // Mobile-specific fields
   status?: SubscriptionStatus;
+  // Set while status is "trial": when the first paid period starts
+  trialEndsAt?: number;
+  // False once the user has turned off auto-renew in the store
+  autoRenewing?: boolean;
+  // Set while status is "grace_period": when the store stops retrying with access
+  gracePeriodEndsAt?: number;
+  refundedAt?: number;
   paymentMethod?: "apple" | "google" | "stripe";
   originalTransactionId?: string;
   latestReceiptData?: string;
@@ -147,10 +202,32 @@ export interface SubscriptionFeatures {
   canUseIncognitoMode: boolean;
   canAccessPrioritySupport: boolean;
   canSeeReadReceipts: boolean;
+  canViewWhoLikedMe?: boolean;
   maxLikesPerDay: number; // -1 = unlimited
   boostsPerMonth: number;
 }
 
+// What one tier is entitled to; limits are keyed by usage counter, -1 = unlimited
+export interface TierEntitlements {
+  features: SubscriptionFeatures;
+  limits: Record<string, number>;
+}
+
+// Tier tables served by the entitlement config; versions only move forward
+export interface EntitlementConfig {
+  version: number;
+  issuedAt: number;
+  // Cheapest first; upgrades are suggested in this order
+  tierOrder: SubscriptionTier[];
+  tiers: Record<SubscriptionTier, TierEntitlements>;
+}
+
+// The config exactly as signed: a JSON payload and a detached ed25519 signature
+export interface SignedEntitlementConfig {
+  payload: string;
+  signature: string; // base64
+}
+
 export interface PurchaseResult {
   success: boolean;
   transactionId?: string;
@@ -158,6 +235,8 @@ export interface PurchaseResult {
   cancelled?: boolean;
   purchaseToken?: string;
   receiptData?: string;
+  // Paid for in the store but not confirmed by the server yet; retried later
+  pendingValidation?: boolean;
 }
 
 // Combined subscription info for mobile hooks
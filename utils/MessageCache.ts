@@ -1,4 +1,13 @@
-import { Message } from "../types/message";
+import { DisappearingTimerSetting, Message } from "../types/message";
+import { MessageCacheInterface } from "../types/messaging";
+import { persistentMessageStore } from "./persistentMessageStore";
+import { MessageSearchIndex, messageSearchIndex } from "./messageSearchIndex";
+import {
+  applyDisappearingTimer,
+  findTimerChange,
+  isMessageExpired,
+  removeExpiredMessages,
+} from "./disappearingMessages";
 
 export interface CacheEntry<T> {
   data: T;
@@ -11,23 +20,38 @@ export interface MessageCacheOptions {
   maxSize?: number;
   maxAge?: number; // in milliseconds
   cleanupInterval?: number; // in milliseconds
+  store?: MessageCacheInterface; // durable backing store, written through on set
+  searchIndex?: MessageSearchIndex; // cross-conversation search, kept in step with the cache
 }
 
 /**
- * LRU Cache implementation for messages with automatic cleanup
+ * LRU Cache implementation for messages with automatic cleanup.
+ *
+ * When a backing store is configured, writes go through to it and misses
+ * (including entries past maxAge) fall back to it, so the in-memory layer
+ * only controls what stays hot, not what survives a restart.
+ *
+ * Disappearing messages are enforced here: messages are stamped with an
+ * expiry from the conversation's timer as they are written, and expired
+ * messages are never returned and are pruned on cleanup.
  */
-export class MessageCache {
+export class MessageCache implements MessageCacheInterface {
   private cache = new Map<string, CacheEntry<Message[]>>();
   private conversationSizes = new Map<string, number>();
   private maxSize: number;
   private maxAge: number;
   private cleanupInterval: number;
   private cleanupTimer: NodeJS.Timeout | null = null;
+  private store: MessageCacheInterface | null;
+  private searchIndex: MessageSearchIndex | null;
+  private timers = new Map<string, DisappearingTimerSetting>();
 
   constructor(options: MessageCacheOptions = {}) {
     this.maxSize = options.maxSize || 1000; // Max number of message arrays
     this.maxAge = options.maxAge || 30 * 60 * 1000; // 30 minutes default
     this.cleanupInterval = options.cleanupInterval || 5 * 60 * 1000; // 5 minutes cleanup interval
+    this.store = options.store || null;
+    this.searchIndex = options.searchIndex || null;
 
     this.startCleanupTimer();
   }
@@ -39,21 +63,22 @@ export class MessageCache {
     const entry = this.cache.get(conversationId);
 
     if (!entry) {
-      return null;
+      return this.getFromStore(conversationId);
     }
 
     // Check if entry is expired
     if (Date.now() - entry.timestamp > this.maxAge) {
       this.cache.delete(conversationId);
       this.conversationSizes.delete(conversationId);
-      return null;
+      return this.getFromStore(conversationId);
     }
 
     // Update access information
     entry.lastAccessed = Date.now();
     entry.accessCount++;
 
-    return [...entry.data]; // Return a copy to prevent mutations
+    // Expired messages stay in memory until the next cleanup, but are never read
+    return removeExpiredMessages(entry.data).slice(); // Copy to prevent mutations
   }
 
   /**
@@ -67,6 +92,81 @@ export class MessageCache {
    * Set messages for a conversation
    */
   set(conversationId: string, messages: Message[]): void {
+    const prepared = this.applyExpiry(conversationId, messages);
+    this.setInMemory(conversationId, prepared);
+    this.store?.setMessages(conversationId, prepared);
+    this.searchIndex?.indexConversation(conversationId, prepared);
+  }
+
+  /**
+   * Stamp expiry from the conversation's disappearing-messages timer and drop
+   * anything already expired. Timer changes found among the messages (system
+   * messages from either participant) are picked up first.
+   */
+  applyExpiry(conversationId: string, messages: Message[]): Message[] {
+    const change = findTimerChange(
+      messages,
+      this.getDisappearingTimer(conversationId)
+    );
+    if (change) {
+      this.rememberTimer(conversationId, change);
+    }
+
+    return removeExpiredMessages(
+      applyDisappearingTimer(
+        messages,
+        this.getDisappearingTimer(conversationId)
+      )
+    );
+  }
+
+  /**
+   * Current disappearing-messages timer for a conversation, if known
+   */
+  getDisappearingTimer(
+    conversationId: string
+  ): DisappearingTimerSetting | null {
+    return (
+      this.timers.get(conversationId) ||
+      this.store?.getDisappearingTimer?.(conversationId) ||
+      null
+    );
+  }
+
+  /**
+   * Record a conversation's timer (e.g. from the conversation list). Older
+   * settings than the one already known are ignored.
+   */
+  setDisappearingTimer(
+    conversationId: string,
+    setting: DisappearingTimerSetting
+  ): void {
+    const current = this.getDisappearingTimer(conversationId);
+    if (current && current.since >= setting.since) {
+      return;
+    }
+
+    this.rememberTimer(conversationId, setting);
+
+    // Stamp cached messages sent since the timer took effect
+    const entry = this.cache.get(conversationId);
+    if (entry) {
+      this.set(conversationId, entry.data);
+    }
+  }
+
+  private rememberTimer(
+    conversationId: string,
+    setting: DisappearingTimerSetting
+  ): void {
+    this.timers.set(conversationId, setting);
+    this.store?.setDisappearingTimer?.(conversationId, setting);
+  }
+
+  /**
+   * Populate the in-memory layer only (used when reading back from the store)
+   */
+  private setInMemory(conversationId: string, messages: Message[]): void {
     // If cache is at max size, remove least recently used entries
     if (this.cache.size >= this.maxSize && !this.cache.has(conversationId)) {
       this.evictLRU();
@@ -175,6 +275,7 @@ export class MessageCache {
     }
 
     this.set(conversationId, filteredMessages);
+    this.searchIndex?.removeMessage(messageId);
     return true;
   }
 
@@ -185,19 +286,34 @@ export class MessageCache {
     const entry = this.cache.get(conversationId);
 
     if (!entry) {
-      return false;
+      return this.getFromStore(conversationId) !== null;
     }
 
     // Check if expired
     if (Date.now() - entry.timestamp > this.maxAge) {
       this.cache.delete(conversationId);
       this.conversationSizes.delete(conversationId);
-      return false;
+      return this.getFromStore(conversationId) !== null;
     }
 
     return true;
   }
 
+  /**
+   * Read a conversation back from the backing store into memory
+   */
+  private getFromStore(conversationId: string): Message[] | null {
+    const stored = this.store?.getMessages(conversationId);
+
+    if (!stored) {
+      return null;
+    }
+
+    const messages = removeExpiredMessages(stored);
+    this.setInMemory(conversationId, messages);
+    return [...messages];
+  }
+
   /**
    * Get cache statistics
    */
@@ -247,17 +363,33 @@ export class MessageCache {
   delete(conversationId: string): boolean {
     const deleted = this.cache.delete(conversationId);
     this.conversationSizes.delete(conversationId);
+    this.store?.clearCache(conversationId);
+    this.searchIndex?.removeConversation(conversationId);
     return deleted;
   }
 
   /**
-   * Clear all cache
+   * Clear all cache (in-memory only; persisted messages are kept)
    */
   clear(): void {
     this.cache.clear();
     this.conversationSizes.clear();
   }
 
+  /**
+   * Clear one or all conversations from memory and the backing store
+   */
+  clearCache(conversationId?: string): void {
+    if (conversationId) {
+      this.delete(conversationId);
+      return;
+    }
+
+    this.clear();
+    this.store?.clearCache();
+    this.searchIndex?.clear();
+  }
+
   /**
    * Get messages in a specific range
    */
@@ -330,18 +462,29 @@ export class MessageCache {
   }
 
   /**
-   * Clean up expired entries
+   * Clean up expired entries and disappeared messages
    */
   private cleanup(): void {
     const now = Date.now();
     const expiredKeys: string[] = [];
+    const disappeared: string[] = [];
 
     for (const [key, entry] of this.cache.entries()) {
       if (now - entry.timestamp > this.maxAge) {
         expiredKeys.push(key);
+      } else if (entry.data.some((m) => isMessageExpired(m, now))) {
+        disappeared.push(key);
       }
     }
 
+    // Write the pruned history through so the store drops it as well
+    disappeared.forEach((key) => {
+      const entry = this.cache.get(key);
+      if (entry) {
+        this.set(key, entry.data);
+      }
+    });
+
     expiredKeys.forEach((key) => {
       this.cache.delete(key);
       this.conversationSizes.delete(key);
@@ -478,6 +621,8 @@ export const messageCache = new MessageCache({
   maxSize: 100, // Cache up to 100 conversations
   maxAge: 30 * 60 * 1000, // 30 minutes
   cleanupInterval: 5 * 60 * 1000, // Cleanup every 5 minutes
+  store: persistentMessageStore,
+  searchIndex: messageSearchIndex,
 });
 
 /**
@@ -1,10 +1,19 @@
 import { EventEmitter } from "events";
 import NetInfo from "@react-native-community/netinfo";
+import { RealtimeProtocol, decodeServerFrame } from "./realtimeProtocol";
+import { RealtimeReplayBuffer } from "./realtimeReplayBuffer";
+import {
+  RealtimeTransport,
+  RealtimeTransportKind,
+  TRANSPORT_STATE,
+  createRealtimeTransport,
+} from "./realtimeTransport";
+import { logger } from "./logger";
 
 export interface WebSocketConnection {
   id: string;
   url: string;
-  ws: WebSocket;
+  ws: RealtimeTransport;
   state: "connecting" | "connected" | "disconnected" | "error";
   lastActivity: number;
   reconnectAttempts: number;
@@ -14,6 +23,7 @@ export interface WebSocketConnection {
     errorRate: number;
     uptime: number;
     bytesTransferred: number;
+    transport: RealtimeTransportKind;
   };
 }
 
@@ -105,6 +115,8 @@ export class WebSocketConnectionManager extends EventEmitter {
   private reconnectTimers = new Map<string, NodeJS.Timeout>();
   private isNetworkAvailable = true;
   private messageQueue: Array<{ message: any; priority: number }> = [];
+  // Raw frames per connection id, released in seq order across reconnects
+  private replays = new Map<string, RealtimeReplayBuffer<string>>();
 
   constructor(config: Partial<ConnectionManagerConfig> = {}) {
     super();
@@ -173,7 +185,8 @@ export class WebSocketConnectionManager extends EventEmitter {
   }
 
   /**
-   * Create a WebSocket connection
+   * Create a connection, falling back from WebSocket to SSE or long-polling
+   * where the network blocks sockets
    */
   private async createConnection(
     id: string,
@@ -184,7 +197,7 @@ export class WebSocketConnectionManager extends EventEmitter {
         ? `${url}?compression=true`
         : url;
 
-      const ws = new WebSocket(wsUrl);
+      const ws = createRealtimeTransport(wsUrl);
       const startTime = Date.now();
 
       const connection: WebSocketConnection = {
@@ -200,6 +213,7 @@ export class WebSocketConnectionManager extends EventEmitter {
           errorRate: 0,
           uptime: 0,
           bytesTransferred: 0,
+          transport: ws.kind,
         },
       };
 
@@ -214,7 +228,18 @@ export class WebSocketConnectionManager extends EventEmitter {
         connection.state = "connected";
         connection.metrics.uptime = Date.now();
 
-        console.log(`WebSocket ${id} connected`);
+        connection.metrics.transport = ws.kind;
+        logger.info("REALTIME", "connected", { id, transport: ws.kind });
+
+        // Ask the server to replay whatever we missed while disconnected
+        const resume = this.getReplay(id).getResumeState();
+        if (resume) {
+          try {
+            ws.send(new RealtimeProtocol().hello(resume));
+          } catch (error) {
+            console.warn(`Failed to send resume hello on ${id}:`, error);
+          }
+        }
         this.emit("connection_opened", connection);
 
         resolve(connection);
@@ -236,7 +261,7 @@ export class WebSocketConnectionManager extends EventEmitter {
           // Ignore parsing errors for latency calculation
         }
 
-        this.emit("message", { connectionId: id, data: event.data });
+        this.handleFrame(id, event.data);
       };
 
       ws.onclose = (event) => {
@@ -265,6 +290,56 @@ export class WebSocketConnectionManager extends EventEmitter {
     });
   }
 
+  private getReplay(id: string): RealtimeReplayBuffer<string> {
+    let replay = this.replays.get(id);
+    if (!replay) {
+      replay = new RealtimeReplayBuffer<string>();
+      replay.on("item", (data: string) =>
+        this.emit("message", { connectionId: id, data })
+      );
+      replay.on("gap", (gap: { expected: number; received: number }) => {
+        console.warn(`Connection ${id} missed events`, gap);
+        this.emit("resync_required", {
+          connectionId: id,
+          reason: "gap",
+          ...gap,
+        });
+      });
+      this.replays.set(id, replay);
+    }
+    return replay;
+  }
+
+  /**
+   * Peek at the frame's sequence number so messages are emitted in order,
+   * without duplicates, even when a reconnect replays them
+   */
+  private handleFrame(id: string, data: string): void {
+    const replay = this.getReplay(id);
+    const result = decodeServerFrame(data);
+    if (result.kind === "invalid") {
+      replay.push(data);
+      return;
+    }
+
+    if (result.kind === "event" && result.event.type === "welcome") {
+      const resumed = !!result.event.resumed;
+      replay.beginSession(result.event.sessionId, resumed);
+      if (resumed) {
+        this.emit("session_resumed", {
+          connectionId: id,
+          lastSeq: replay.lastSeq,
+        });
+      } else {
+        this.emit("resync_required", {
+          connectionId: id,
+          reason: "session_not_resumed",
+        });
+      }
+    }
+    replay.push(data, result.meta.seq);
+  }
+
   /**
    * Remove a connection from the pool
    */
@@ -282,11 +357,13 @@ export class WebSocketConnectionManager extends EventEmitter {
     }
 
     // Close WebSocket
-    if (connection.ws.readyState === WebSocket.OPEN) {
+    if (connection.ws.readyState === TRANSPORT_STATE.OPEN) {
       connection.ws.close(1000, "Connection removed");
     }
 
     this.connections.delete(id);
+    this.replays.get(id)?.destroy();
+    this.replays.delete(id);
     this.emit("connection_removed", connection);
 
     console.log(`Connection ${id} removed`);
@@ -475,7 +552,7 @@ export class WebSocketConnectionManager extends EventEmitter {
       }
 
       // Check connection state
-      if (connection.ws.readyState === WebSocket.CLOSED) {
+      if (connection.ws.readyState === TRANSPORT_STATE.CLOSED) {
         console.warn(`Connection ${id} is closed, scheduling reconnection`);
         this.scheduleReconnection(connection);
       }
@@ -614,13 +691,15 @@ export class WebSocketConnectionManager extends EventEmitter {
 
     // Close all connections
     for (const connection of this.connections.values()) {
-      if (connection.ws.readyState === WebSocket.OPEN) {
+      if (connection.ws.readyState === TRANSPORT_STATE.OPEN) {
         connection.ws.close(1000, "Manager shutdown");
       }
     }
 
     this.connections.clear();
     this.messageQueue = [];
+    for (const replay of this.replays.values()) replay.destroy();
+    this.replays.clear();
 
     // Remove all listeners
     this.removeAllListeners();
@@ -16,6 +16,24 @@ import {
   ReportResponse,
 } from "../types/profile";
 import type { Icebreaker } from "../src/types/engagement";
+import type { MessageChangesResponse } from "../types/messaging";
+import type { DisappearingTimer, EncryptedEnvelope } from "../types/message";
+import type { PresencePrivacy, PresenceSnapshot } from "../types/presence";
+import type {
+  ImageUploadMetadata,
+  PhotoAccessRequest,
+  PhotoAccessStatus,
+  PhotoVisibility,
+} from "../types/image";
+import type { SignedEntitlementConfig } from "../types/subscription";
+import type { LinkPreviewData } from "./linkPreview";
+import type {
+  ConsumableValidationResponse,
+  CreditWallet,
+  OfferEligibility,
+  SignedPromotionalOffer,
+  SubscriptionOfferType,
+} from "../types/inAppPurchase";
 import {
   validateCreateProfile as validateFormData,
   validateUpdateProfile as validateProfileData,
@@ -211,6 +229,34 @@ class ApiClient {
     });
   }
 
+  // End-to-end encryption: device public keys published on the profile
+  async getEncryptionKeys(userId: string): Promise<
+    ApiResponse<{
+      devices: { deviceId: string; publicKey: string; createdAt?: number }[];
+    }>
+  > {
+    const res = await this.request<any>(
+      `/user/profile/encryption-keys?userId=${encodeURIComponent(userId)}`
+    );
+    if (!res.success) return res;
+    const payload = res.data as any;
+    const devices = payload?.devices ?? payload?.data?.devices ?? [];
+    return {
+      success: true,
+      data: { devices: Array.isArray(devices) ? devices : [] },
+    };
+  }
+
+  async publishEncryptionKey(device: {
+    deviceId: string;
+    publicKey: string;
+  }): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request("/user/profile/encryption-keys", {
+      method: "PUT",
+      body: JSON.stringify(device),
+    });
+  }
+
   // Engagement: Icebreakers
   async fetchIcebreakers(): Promise<ApiResponse<Icebreaker[]>> {
     const res = await this.request<Icebreaker[]>("/icebreakers");
@@ -645,6 +691,16 @@ class ApiClient {
     return primary as any;
   }
 
+  /**
+   * Preview metadata for a link, fetched by the server so the site never
+   * sees the device's IP address. Data is null when the page has none.
+   */
+  async getLinkPreview(
+    url: string
+  ): Promise<ApiResponse<LinkPreviewData | null>> {
+    return this.request(`/link-preview?url=${encodeURIComponent(url)}`);
+  }
+
   /**
    * Retrieve a secure URL for a message image (web counterpart)
    * Primary (web): GET /api/message-images/:messageId/url
@@ -783,6 +839,71 @@ class ApiClient {
     return this.request(`/presence?userId=${encodeURIComponent(userId)}`);
   }
 
+  /**
+   * Presence for many users in one round trip. Users who hide their last
+   * seen come back with lastSeen null. Falls back to one request per user
+   * on servers without the batch endpoint.
+   */
+  async getPresenceBatch(
+    userIds: string[]
+  ): Promise<ApiResponse<Record<string, PresenceSnapshot>>> {
+    const res = await this.request<any>(`/presence/batch`, {
+      method: "POST",
+      body: JSON.stringify({ userIds }),
+    });
+    if (res.success) {
+      const raw = res.data?.data ?? res.data;
+      const mapping: Record<string, PresenceSnapshot> = {};
+      if (Array.isArray(raw)) {
+        raw.forEach((entry: any) => {
+          if (entry?.userId) mapping[entry.userId] = entry;
+        });
+      } else if (raw && typeof raw === "object") {
+        Object.assign(mapping, raw);
+      }
+      return { success: true, data: mapping };
+    }
+
+    const code = (res as any)?.error?.code || "";
+    if (code !== "HTTP_404" && code !== "NOT_FOUND") {
+      return res as ApiResponse<Record<string, PresenceSnapshot>>;
+    }
+    const results = await Promise.all(
+      userIds.map(async (userId) => ({
+        userId,
+        res: await this.getPresence(userId),
+      }))
+    );
+    const mapping: Record<string, PresenceSnapshot> = {};
+    for (const { userId, res: single } of results) {
+      if (!single.success || !single.data) continue;
+      const payload: any = (single.data as any)?.data ?? single.data;
+      mapping[userId] = payload;
+    }
+    return { success: true, data: mapping };
+  }
+
+  /**
+   * The signed-in user's last-seen setting as the server has it
+   */
+  async getPresencePrivacy(): Promise<ApiResponse<PresencePrivacy>> {
+    return this.request(`/presence/privacy`);
+  }
+
+  /**
+   * Share or hide our last seen. The server applies it both ways: while
+   * hidden, presence responses carry lastSeen null for us and for everyone
+   * we look up.
+   */
+  async updatePresencePrivacy(
+    privacy: PresencePrivacy
+  ): Promise<ApiResponse<void>> {
+    return this.request(`/presence/privacy`, {
+      method: "PUT",
+      body: JSON.stringify(privacy),
+    }) as unknown as ApiResponse<void>;
+  }
+
   async heartbeat(): Promise<ApiResponse<void>> {
     return this.request(`/presence`, {
       method: "POST",
@@ -911,6 +1032,35 @@ class ApiClient {
     return response;
   }
 
+  /**
+   * Look up a message by the client-generated id it was sent with
+   * GET /api/messages/messages?conversationId=...&clientMessageId=...
+   * Resolves to null when the server has no such message.
+   */
+  async getMessageByClientId(
+    conversationId: string,
+    clientMessageId: string
+  ): Promise<ApiResponse<Message | null>> {
+    const params = new URLSearchParams({
+      conversationId,
+      clientMessageId,
+      limit: "1",
+    });
+    const response = await this.request<Message[]>(
+      `/messages/messages?${params.toString()}`
+    );
+
+    if (!response.success) {
+      return { success: false, error: response.error };
+    }
+
+    // Servers that ignore the filter return the latest page instead
+    const match = (response.data || [])
+      .map(this.normalizeMessage)
+      .find((m) => m.clientMessageId === clientMessageId);
+    return { success: true, data: match || null };
+  }
+
   /**
    * Send a message (web-first with legacy fallback)
    * Primary (web): POST /api/messages/send
@@ -926,8 +1076,13 @@ class ApiClient {
     audioStorageId?: string;
     imageStorageId?: string;
     duration?: number;
+    voiceWaveform?: number[];
+    transcript?: string;
+    transcriptLanguage?: string;
     fileSize?: number;
     mimeType?: string;
+    clientMessageId?: string;
+    encrypted?: EncryptedEnvelope;
     replyTo?: {
       messageId: string;
       text?: string;
@@ -948,10 +1103,16 @@ class ApiClient {
       };
     }
 
+    // Retries of the same send reuse the key, so the server stores it once
+    const headers = data.clientMessageId
+      ? { "Idempotency-Key": data.clientMessageId }
+      : undefined;
+
     // Prefer web-style endpoint first, then fallback to legacy
     // Primary (web): POST /api/messages/send
     let response = await this.request<Message>("/messages/send", {
       method: "POST",
+      headers,
       body: JSON.stringify({
         conversationId: data.conversationId,
         fromUserId: data.fromUserId,
@@ -960,8 +1121,13 @@ class ApiClient {
         type: data.type || "text",
         audioStorageId: data.audioStorageId,
         duration: data.duration,
+        voiceWaveform: data.voiceWaveform,
+        transcript: data.transcript,
+        transcriptLanguage: data.transcriptLanguage,
         fileSize: data.fileSize,
         mimeType: data.mimeType,
+        clientMessageId: data.clientMessageId,
+        encrypted: data.encrypted,
         replyToMessageId: data.replyTo?.messageId,
         replyToText: data.replyTo?.text,
         replyToType: data.replyTo?.type,
@@ -975,6 +1141,7 @@ class ApiClient {
         // Fallback (legacy mobile): POST /api/match-messages
         response = await this.request<Message>("/match-messages", {
           method: "POST",
+          headers,
           body: JSON.stringify({
             conversationId: data.conversationId,
             fromUserId: data.fromUserId,
@@ -983,8 +1150,13 @@ class ApiClient {
             type: data.type || "text",
             audioStorageId: data.audioStorageId,
             duration: data.duration,
+            voiceWaveform: data.voiceWaveform,
+            transcript: data.transcript,
+            transcriptLanguage: data.transcriptLanguage,
             fileSize: data.fileSize,
             mimeType: data.mimeType,
+            clientMessageId: data.clientMessageId,
+            encrypted: data.encrypted,
             replyToMessageId: data.replyTo?.messageId,
             replyToText: data.replyTo?.text,
             replyToType: data.replyTo?.type,
@@ -1022,6 +1194,79 @@ class ApiClient {
     });
   }
 
+  /**
+   * Hand a message to the server for delivery at `sendAt` (epoch ms)
+   */
+  async scheduleMessage(data: {
+    conversationId: string;
+    fromUserId: string;
+    toUserId: string;
+    text?: string;
+    type?: "text" | "voice" | "image";
+    clientMessageId?: string;
+    encrypted?: EncryptedEnvelope;
+    sendAt: number;
+  }): Promise<ApiResponse<{ scheduledId: string }>> {
+    return this.request<{ scheduledId: string }>("/messages/scheduled", {
+      method: "POST",
+      headers: data.clientMessageId
+        ? { "Idempotency-Key": data.clientMessageId }
+        : undefined,
+      body: JSON.stringify({
+        conversationId: data.conversationId,
+        fromUserId: data.fromUserId,
+        toUserId: data.toUserId,
+        text: data.text || "",
+        type: data.type || "text",
+        clientMessageId: data.clientMessageId,
+        encrypted: data.encrypted,
+        sendAt: data.sendAt,
+      }),
+    });
+  }
+
+  async cancelScheduledMessage(
+    scheduledId: string
+  ): Promise<ApiResponse<void>> {
+    return this.request<void>(
+      `/messages/scheduled/${encodeURIComponent(scheduledId)}`,
+      { method: "DELETE" }
+    );
+  }
+
+  /**
+   * Incremental message changes since a sync cursor
+   * GET /api/messages/changes?conversationId=...&cursor=...&since=...
+   * Returns { changes, cursor, hasMore, resetRequired? }; 404 means the
+   * backend does not support delta sync and callers should fall back.
+   */
+  async getMessageChanges(
+    conversationId: string,
+    options: { cursor?: string; since?: number; limit?: number } = {}
+  ): Promise<ApiResponse<MessageChangesResponse>> {
+    const params = new URLSearchParams({ conversationId });
+    if (options.cursor) params.append("cursor", options.cursor);
+    if (options.since) params.append("since", options.since.toString());
+    if (options.limit) params.append("limit", options.limit.toString());
+
+    const response = await this.request<MessageChangesResponse>(
+      `/messages/changes?${params.toString()}`
+    );
+
+    if (response.success && response.data) {
+      response.data = {
+        ...response.data,
+        changes: (response.data.changes || []).map((change) =>
+          change.type === "upsert"
+            ? { ...change, message: this.normalizeMessage(change.message) }
+            : change
+        ),
+      };
+    }
+
+    return response;
+  }
+
   async markMessagesAsRead(messageIds: string[]) {
     return this.request("/messages/mark-read", {
       method: "POST",
@@ -1164,6 +1409,10 @@ class ApiClient {
       // Voice message fields
       audioStorageId: rawMessage.audioStorageId,
       duration: rawMessage.duration || rawMessage.voiceDuration,
+      transcript: rawMessage.transcript,
+      transcriptStatus: rawMessage.transcriptStatus,
+      transcriptLanguage: rawMessage.transcriptLanguage,
+      listenedAt: rawMessage.listenedAt,
 
       // Image message fields
       imageStorageId: rawMessage.imageStorageId,
@@ -1176,6 +1425,10 @@ class ApiClient {
       status: this.normalizeMessageStatus(rawMessage.status),
       isOptimistic: rawMessage.isOptimistic || false,
       deliveryReceipts: rawMessage.deliveryReceipts || [],
+      clientMessageId: rawMessage.clientMessageId,
+      encrypted: rawMessage.encrypted,
+      expiresAt: rawMessage.expiresAt,
+      systemEvent: rawMessage.systemEvent,
 
       // Backward compatibility fields
       id: rawMessage.id,
@@ -1218,13 +1471,7 @@ class ApiClient {
     }
   }
 
-  async saveImageMetadata(data: {
-    userId: string;
-    storageId: string;
-    fileName: string;
-    contentType: string;
-    fileSize: number;
-  }) {
+  async saveImageMetadata(data: ImageUploadMetadata) {
     return this.request("/profile-images", {
       method: "POST",
       body: JSON.stringify(data),
@@ -1238,6 +1485,45 @@ class ApiClient {
     });
   }
 
+  async updatePhotoVisibility(imageId: string, visibility: PhotoVisibility) {
+    return this.request(`/profile-images/${imageId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ visibility }),
+    });
+  }
+
+  // Photo privacy: access to another member's blurred photos
+  async getPhotoAccessStatus(
+    ownerId: string
+  ): Promise<ApiResponse<{ status: PhotoAccessStatus; isMatch?: boolean }>> {
+    return this.request(`/photo-access/${encodeURIComponent(ownerId)}`);
+  }
+
+  async requestPhotoAccess(
+    ownerId: string
+  ): Promise<ApiResponse<PhotoAccessRequest>> {
+    return this.request("/photo-access/requests", {
+      method: "POST",
+      body: JSON.stringify({ ownerId }),
+    });
+  }
+
+  async getPhotoAccessRequests(): Promise<
+    ApiResponse<{ requests: PhotoAccessRequest[] }>
+  > {
+    return this.request("/photo-access/requests?direction=incoming");
+  }
+
+  async respondToPhotoAccessRequest(
+    requestId: string,
+    approve: boolean
+  ): Promise<ApiResponse<PhotoAccessRequest>> {
+    return this.request(`/photo-access/requests/${requestId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: approve ? "approved" : "declined" }),
+    });
+  }
+
   async reorderProfileImages(data: { profileId: string; imageIds: string[] }) {
     return this.request("/profile-images/order", {
       method: "POST",
@@ -1347,6 +1633,34 @@ class ApiClient {
     return this.request("/subscription/features");
   }
 
+  /**
+   * Whether the user can still take a trial or intro price, and which
+   * promotional offers they've been granted
+   */
+  async getOfferEligibility(): Promise<ApiResponse<OfferEligibility>> {
+    return this.request("/subscription/offers/eligibility");
+  }
+
+  /**
+   * Server signature for an App Store promotional offer
+   */
+  async signPromotionalOffer(
+    productId: string,
+    offerId: string
+  ): Promise<ApiResponse<SignedPromotionalOffer>> {
+    return this.request("/subscription/offers/sign", {
+      method: "POST",
+      body: JSON.stringify({ productId, offerId }),
+    });
+  }
+
+  /**
+   * Signed tier tables for the entitlement engine
+   */
+  async getEntitlementConfig(): Promise<ApiResponse<SignedEntitlementConfig>> {
+    return this.request("/subscription/entitlements");
+  }
+
   /**
    * Purchase a subscription (in-app purchase) - aligned with main project
    * @param {Object} params
@@ -1413,17 +1727,48 @@ class ApiClient {
     return this.request(`/subscription/can-use/${feature}`);
   }
 
-  // Profile boost
-  async boostProfile() {
+  // Profile boost; useCredit spends a purchased boost instead of the
+  // subscription allowance
+  async boostProfile(options: { useCredit?: boolean } = {}) {
     return this.request("/profile/boost", {
       method: "POST",
+      ...(options.useCredit
+        ? { body: JSON.stringify({ source: "credit" }) }
+        : {}),
     });
   }
 
-  // Spotlight badge (Premium Plus)
-  async activateSpotlight() {
+  // Spotlight badge (Premium Plus, or a purchased spotlight day)
+  async activateSpotlight(options: { useCredit?: boolean } = {}) {
     return this.request("/profile/spotlight", {
       method: "POST",
+      ...(options.useCredit
+        ? { body: JSON.stringify({ source: "credit" }) }
+        : {}),
+    });
+  }
+
+  /**
+   * Balances of purchased boosts, spotlight days and super interests
+   */
+  async getCreditWallet(): Promise<ApiResponse<CreditWallet>> {
+    return this.request("/credits");
+  }
+
+  /**
+   * Check a consumable receipt with the store and credit the wallet. Safe
+   * to retry: each transaction is only credited once.
+   */
+  async validateConsumablePurchase(validationRequest: {
+    platform: "ios" | "android";
+    productId: string;
+    transactionId: string;
+    purchaseToken?: string;
+    receiptData?: string;
+  }): Promise<ApiResponse<ConsumableValidationResponse>> {
+    return this.request("/credits/validate", {
+      method: "POST",
+      body: JSON.stringify(validationRequest),
     });
   }
 
@@ -1484,6 +1829,24 @@ class ApiClient {
     return this.request(`/voice-messages/${storageId}/url`);
   }
 
+  async transcribeVoiceMessage(
+    storageId: string,
+    options?: { language?: string }
+  ): Promise<ApiResponse<{ text: string; language?: string }>> {
+    return this.request(`/voice-messages/${storageId}/transcript`, {
+      method: "POST",
+      body: JSON.stringify({ language: options?.language }),
+    });
+  }
+
+  async markVoiceMessageListened(
+    messageId: string
+  ): Promise<ApiResponse<{ listenedAt: number }>> {
+    return this.request(`/messages/${messageId}/listened`, {
+      method: "POST",
+    });
+  }
+
   // Profile view tracking (align with web: body { profileId }, GET requires ?profileId=)
   async recordProfileView(profileId: string) {
     return this.request("/profile/view", {
@@ -1596,11 +1959,18 @@ class ApiClient {
   async validatePurchase(validationRequest: {
     platform: "ios" | "android";
     productId: string;
+    transactionId?: string;
     purchaseToken?: string;
     receiptData?: string;
+    offerId?: string;
+    offerType?: SubscriptionOfferType;
   }) {
     return this.request("/subscription/validate-purchase", {
       method: "POST",
+      // Replays of the same store transaction are applied only once
+      ...(validationRequest.transactionId
+        ? { headers: { "Idempotency-Key": validationRequest.transactionId } }
+        : {}),
       body: JSON.stringify(validationRequest),
     });
   }
@@ -1635,8 +2005,36 @@ class ApiClient {
   }
 
   // Messaging - Extended
-  async getConversationEvents(conversationId: string) {
-    return this.request(`/conversations/${conversationId}/events`);
+  async getConversationEvents(conversationId: string, since?: number) {
+    const query = since ? `?since=${since}` : "";
+    return this.request(`/conversations/${conversationId}/events${query}`);
+  }
+
+  /**
+   * Set a conversation's disappearing-messages timer. The server records the
+   * change as a system message so both participants see it in the timeline.
+   */
+  async updateDisappearingTimer(
+    conversationId: string,
+    timer: DisappearingTimer
+  ): Promise<
+    ApiResponse<{
+      disappearingTimer: DisappearingTimer;
+      disappearingTimerSetAt: number;
+      message?: import("../types/message").Message;
+    }>
+  > {
+    const res = await this.request<any>(
+      `/conversations/${encodeURIComponent(conversationId)}/disappearing`,
+      {
+        method: "PUT",
+        body: JSON.stringify({ timer }),
+      }
+    );
+    if (res.success && res.data?.message) {
+      res.data.message = this.normalizeMessage(res.data.message);
+    }
+    return res;
   }
 
   // Public APIs (no auth required)
@@ -1680,7 +2078,9 @@ class ApiClient {
         const id = img._id || img.id || img.storageId || String(idx);
         const url = img.url || img.imageUrl || img.src || "";
         const isMain = !!(img.isMain || img.main || img.primary);
-        return { id, url, isMain };
+        // Photos private to us come with a blurred copy instead of the original
+        const blurredUrl = img.blurredUrl || img.placeholderUrl;
+        return { id, url, isMain, visibility: img.visibility, blurredUrl };
       }
       return { id: String(idx), url: "" };
     });
@@ -59,6 +59,10 @@ export class ApiResponseHandler {
       // Voice message fields
       audioStorageId: rawMessage.audioStorageId,
       duration: rawMessage.duration || rawMessage.voiceDuration,
+      transcript: rawMessage.transcript,
+      transcriptStatus: rawMessage.transcriptStatus,
+      transcriptLanguage: rawMessage.transcriptLanguage,
+      listenedAt: rawMessage.listenedAt,
 
       // Image message fields
       imageStorageId: rawMessage.imageStorageId,
@@ -0,0 +1,290 @@
+import { Message } from "../types/message";
+
+export interface MessageConflict {
+  conversationId: string;
+  local: Message;
+  remote: Message;
+}
+
+export interface ConflictOutcome {
+  resolved: Message;
+  winner: "local" | "remote" | "merged" | "deferred";
+  // Local version should be pushed back to the server
+  pushToServer?: boolean;
+  reason?: string;
+}
+
+/**
+ * A conflict resolution strategy decides which version of a message wins
+ * when the cached copy and the server copy disagree.
+ */
+export interface ConflictResolutionStrategy {
+  name: string;
+  resolve(
+    conflict: MessageConflict
+  ): ConflictOutcome | Promise<ConflictOutcome>;
+}
+
+export type ConflictResolutionOption =
+  | "client"
+  | "server"
+  | "manual"
+  | "last-writer-wins"
+  | "field-merge"
+  | ConflictResolutionStrategy;
+
+type MessageSnapshot = Pick<
+  Message,
+  "text" | "status" | "readAt" | "editedAt" | "reactions"
+>;
+
+export interface ConflictRecord {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  strategy: string;
+  winner: ConflictOutcome["winner"];
+  reason?: string;
+  changedFields: string[];
+  local: MessageSnapshot;
+  remote: MessageSnapshot;
+  resolved: MessageSnapshot;
+  timestamp: number;
+}
+
+export interface ConflictLogQuery {
+  conversationId?: string;
+  messageId?: string;
+  strategy?: string;
+  since?: number;
+  limit?: number;
+}
+
+const CONFLICT_FIELDS: (keyof MessageSnapshot)[] = [
+  "text",
+  "status",
+  "readAt",
+  "editedAt",
+  "reactions",
+];
+
+const STATUS_ORDER: Record<NonNullable<Message["status"]>, number> = {
+  failed: 0,
+  pending: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+};
+
+/**
+ * Server clock for a message version: the latest server-stamped change we know of
+ */
+function serverClock(message: Message): number {
+  return Math.max(
+    message.editedAt || 0,
+    message.readAt || 0,
+    message.createdAt
+  );
+}
+
+export const serverWinsStrategy: ConflictResolutionStrategy = {
+  name: "server",
+  resolve: ({ remote }) => ({ resolved: remote, winner: "remote" }),
+};
+
+export const clientWinsStrategy: ConflictResolutionStrategy = {
+  name: "client",
+  resolve: ({ local }) => ({
+    resolved: local,
+    winner: "local",
+    pushToServer: true,
+  }),
+};
+
+export const manualStrategy: ConflictResolutionStrategy = {
+  name: "manual",
+  // Show the server version until the user picks one
+  resolve: ({ remote }) => ({ resolved: remote, winner: "deferred" }),
+};
+
+export const lastWriterWinsStrategy: ConflictResolutionStrategy = {
+  name: "last-writer-wins",
+  resolve: ({ local, remote }) => {
+    // Ties go to the server, which is the source of truth for ordering
+    if (serverClock(local) > serverClock(remote)) {
+      return {
+        resolved: local,
+        winner: "local",
+        reason: "local version has a later server timestamp",
+      };
+    }
+    return {
+      resolved: remote,
+      winner: "remote",
+      reason: "remote version is as new or newer",
+    };
+  },
+};
+
+export const fieldMergeStrategy: ConflictResolutionStrategy = {
+  name: "field-merge",
+  resolve: ({ local, remote }) => {
+    const merged: Message = { ...remote };
+
+    // Edits: newest edit wins
+    if ((local.editedAt || 0) > (remote.editedAt || 0)) {
+      merged.text = local.text;
+      merged.editedAt = local.editedAt;
+    }
+
+    // Receipts only move forward
+    const localRank = local.status ? STATUS_ORDER[local.status] : -1;
+    const remoteRank = remote.status ? STATUS_ORDER[remote.status] : -1;
+    if (localRank > remoteRank) {
+      merged.status = local.status;
+    }
+    if (local.readAt && (!remote.readAt || local.readAt < remote.readAt)) {
+      merged.readAt = local.readAt;
+    }
+
+    // Reactions: the server list is authoritative once it has one
+    if (!remote.reactions && local.reactions) {
+      merged.reactions = local.reactions;
+    }
+
+    const fromLocal = CONFLICT_FIELDS.filter(
+      (field) =>
+        merged[field] !== remote[field] && merged[field] === local[field]
+    );
+
+    return {
+      resolved: merged,
+      winner: fromLocal.length > 0 ? "merged" : "remote",
+      reason:
+        fromLocal.length > 0
+          ? `kept local ${fromLocal.join(", ")}`
+          : "remote fields newer",
+    };
+  },
+};
+
+/**
+ * Wrap a callback as a named strategy
+ */
+export function createCustomStrategy(
+  name: string,
+  resolve: ConflictResolutionStrategy["resolve"]
+): ConflictResolutionStrategy {
+  return { name, resolve };
+}
+
+/**
+ * Map a conflictResolution option to a strategy
+ */
+export function getConflictStrategy(
+  option: ConflictResolutionOption
+): ConflictResolutionStrategy {
+  if (typeof option === "object") {
+    return option;
+  }
+
+  switch (option) {
+    case "client":
+      return clientWinsStrategy;
+    case "manual":
+      return manualStrategy;
+    case "last-writer-wins":
+      return lastWriterWinsStrategy;
+    case "field-merge":
+      return fieldMergeStrategy;
+    case "server":
+    default:
+      return serverWinsStrategy;
+  }
+}
+
+/**
+ * Bounded, queryable record of how each conflict was resolved
+ */
+export class ConflictAuditLog {
+  private records: ConflictRecord[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries = 200) {
+    this.maxEntries = maxEntries;
+  }
+
+  record(
+    conflict: MessageConflict,
+    strategy: string,
+    outcome: ConflictOutcome
+  ): ConflictRecord {
+    const { local, remote } = conflict;
+    const entry: ConflictRecord = {
+      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      conversationId: conflict.conversationId,
+      messageId: remote._id,
+      strategy,
+      winner: outcome.winner,
+      reason: outcome.reason,
+      changedFields: CONFLICT_FIELDS.filter(
+        (field) =>
+          JSON.stringify(local[field]) !== JSON.stringify(remote[field])
+      ),
+      local: this.snapshot(local),
+      remote: this.snapshot(remote),
+      resolved: this.snapshot(outcome.resolved),
+      timestamp: Date.now(),
+    };
+
+    this.records.push(entry);
+    if (this.records.length > this.maxEntries) {
+      this.records.splice(0, this.records.length - this.maxEntries);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Newest-first records matching the filter
+   */
+  query(filter: ConflictLogQuery = {}): ConflictRecord[] {
+    const matches = this.records.filter(
+      (r) =>
+        (!filter.conversationId ||
+          r.conversationId === filter.conversationId) &&
+        (!filter.messageId || r.messageId === filter.messageId) &&
+        (!filter.strategy || r.strategy === filter.strategy) &&
+        (!filter.since || r.timestamp >= filter.since)
+    );
+
+    matches.reverse();
+    return filter.limit ? matches.slice(0, filter.limit) : matches;
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  toJSON(): ConflictRecord[] {
+    return [...this.records];
+  }
+
+  load(records: ConflictRecord[]): void {
+    this.records = records.slice(-this.maxEntries);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+
+  private snapshot(message: Message): MessageSnapshot {
+    return {
+      text: message.text,
+      status: message.status,
+      readAt: message.readAt,
+      editedAt: message.editedAt,
+      reactions: message.reactions,
+    };
+  }
+}
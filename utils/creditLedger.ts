@@ -0,0 +1,239 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import EventEmitter from "eventemitter3";
+import type { ApiResponse } from "../types/profile";
+import type {
+  ConsumableValidationResponse,
+  CreditBalances,
+  CreditLedgerEntry,
+  CreditType,
+  CreditWallet,
+} from "../types/inAppPurchase";
+
+export const EMPTY_BALANCES: CreditBalances = {
+  boost: 0,
+  spotlight_day: 0,
+  super_interest: 0,
+};
+
+interface LedgerState {
+  wallet: CreditWallet;
+  entries: CreditLedgerEntry[];
+}
+
+function emptyState(): LedgerState {
+  return {
+    wallet: { balances: { ...EMPTY_BALANCES }, updatedAt: 0 },
+    entries: [],
+  };
+}
+
+/**
+ * Credits bought as consumables. The server owns the balances; the ledger
+ * keeps the last wallet it reported plus local changes it hasn't confirmed
+ * yet, so spends show up straight away and purchases still waiting on
+ * receipt validation survive a restart. Emits "change" with the balances.
+ */
+export class CreditLedger extends EventEmitter {
+  private state: LedgerState = emptyState();
+  private storageKey: string;
+  private loaded: Promise<void> | null = null;
+
+  constructor(storageKey = "credit_ledger") {
+    super();
+    this.storageKey = storageKey;
+  }
+
+  hydrate(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(this.storageKey);
+      if (raw) {
+        const saved = JSON.parse(raw) as LedgerState;
+        this.state = {
+          wallet: {
+            ...saved.wallet,
+            balances: { ...EMPTY_BALANCES, ...saved.wallet?.balances },
+          },
+          entries: Array.isArray(saved.entries) ? saved.entries : [],
+        };
+        this.emit("change", this.getBalances());
+      }
+    } catch (error) {
+      console.error("CreditLedger: Failed to load ledger", error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      console.error("CreditLedger: Failed to save ledger", error);
+    }
+    this.emit("change", this.getBalances());
+  }
+
+  /**
+   * Spendable credits: the server's balances less spends it hasn't
+   * reported back yet. Unverified purchases don't count until credited.
+   */
+  getBalances(): CreditBalances {
+    const balances = { ...this.state.wallet.balances };
+    for (const entry of this.state.entries) {
+      if (entry.reason === "spend") {
+        balances[entry.credit] = Math.max(
+          0,
+          balances[entry.credit] + entry.delta
+        );
+      }
+    }
+    return balances;
+  }
+
+  getBalance(credit: CreditType): number {
+    return this.getBalances()[credit];
+  }
+
+  /**
+   * Store purchases the server hasn't credited yet
+   */
+  getPendingPurchases(): CreditLedgerEntry[] {
+    return this.state.entries.filter((entry) => entry.reason === "purchase");
+  }
+
+  async recordPendingPurchase(
+    transactionId: string,
+    credit: CreditType,
+    quantity: number
+  ): Promise<void> {
+    await this.hydrate();
+    const alreadyKnown =
+      this.state.entries.some((e) => e.transactionId === transactionId) ||
+      !!this.state.wallet.creditedTransactionIds?.includes(transactionId);
+    if (alreadyKnown) return;
+
+    this.state.entries.push({
+      id: `purchase_${transactionId}`,
+      credit,
+      delta: quantity,
+      reason: "purchase",
+      transactionId,
+      createdAt: Date.now(),
+    });
+    await this.persist();
+  }
+
+  /**
+   * Forget a purchase the server refused to credit
+   */
+  async dropPendingPurchase(transactionId: string): Promise<void> {
+    await this.hydrate();
+    const entries = this.state.entries.filter(
+      (entry) =>
+        entry.reason !== "purchase" || entry.transactionId !== transactionId
+    );
+    if (entries.length === this.state.entries.length) return;
+    this.state = { ...this.state, entries };
+    await this.persist();
+  }
+
+  /**
+   * Record a credit the server has just accepted a spend for, until the
+   * next wallet fetch includes it
+   */
+  async recordSpend(credit: CreditType, amount = 1): Promise<void> {
+    await this.hydrate();
+    this.state.entries.push({
+      id: `spend_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      credit,
+      delta: -amount,
+      reason: "spend",
+      createdAt: Date.now(),
+    });
+    await this.persist();
+  }
+
+  /**
+   * Take the server's wallet as the new baseline. requestedAt is when the
+   * request went out: spends recorded before then are already in it.
+   * A wallet older than the one we have only settles purchases.
+   */
+  async applyWallet(
+    wallet: CreditWallet,
+    requestedAt = Date.now()
+  ): Promise<void> {
+    await this.hydrate();
+    const credited = new Set(wallet.creditedTransactionIds ?? []);
+    const unsettled = this.state.entries.filter(
+      (entry) =>
+        entry.reason !== "purchase" || !credited.has(entry.transactionId!)
+    );
+
+    if (wallet.updatedAt < this.state.wallet.updatedAt) {
+      this.state = { ...this.state, entries: unsettled };
+    } else {
+      this.state = {
+        wallet: {
+          ...wallet,
+          balances: { ...EMPTY_BALANCES, ...wallet.balances },
+        },
+        entries: unsettled.filter(
+          (entry) =>
+            entry.reason === "purchase" || entry.createdAt > requestedAt
+        ),
+      };
+    }
+    await this.persist();
+  }
+
+  async applyValidation(
+    response: ConsumableValidationResponse,
+    requestedAt = Date.now()
+  ): Promise<void> {
+    const creditedTransactionIds = Array.from(
+      new Set([
+        ...(response.wallet.creditedTransactionIds ?? []),
+        response.transactionId,
+      ])
+    );
+    await this.applyWallet(
+      { ...response.wallet, creditedTransactionIds },
+      requestedAt
+    );
+  }
+
+  /**
+   * Refresh from the server. Offline, the last known balances stay.
+   */
+  async sync(
+    fetchWallet: () => Promise<ApiResponse<CreditWallet>>
+  ): Promise<CreditBalances> {
+    await this.hydrate();
+    const requestedAt = Date.now();
+    try {
+      const response = await fetchWallet();
+      if (response.success && response.data) {
+        await this.applyWallet(response.data, requestedAt);
+      }
+    } catch (error) {
+      console.error("CreditLedger: Failed to sync wallet", error);
+    }
+    return this.getBalances();
+  }
+
+  /**
+   * Forget everything, e.g. on sign-out
+   */
+  async clear(): Promise<void> {
+    this.state = emptyState();
+    this.loaded = Promise.resolve();
+    await this.persist();
+  }
+}
+
+export const creditLedger = new CreditLedger();
@@ -0,0 +1,110 @@
+import {
+  DisappearingTimer,
+  DisappearingTimerSetting,
+  Message,
+} from "../types/message";
+
+export const DISAPPEARING_TIMER_DURATIONS: Record<
+  Exclude<DisappearingTimer, "off">,
+  number
+> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+};
+
+export const DISAPPEARING_TIMER_OPTIONS: DisappearingTimer[] = [
+  "off",
+  "24h",
+  "7d",
+];
+
+export function describeDisappearingTimer(timer: DisappearingTimer): string {
+  switch (timer) {
+    case "24h":
+      return "24 hours";
+    case "7d":
+      return "7 days";
+    default:
+      return "Off";
+  }
+}
+
+/**
+ * Timeline text for a timer change, from the viewer's point of view
+ */
+export function describeTimerChange(
+  timer: DisappearingTimer,
+  byCurrentUser: boolean
+): string {
+  const who = byCurrentUser ? "You" : "Your match";
+  return timer === "off"
+    ? `${who} turned off disappearing messages`
+    : `${who} set messages to disappear after ${describeDisappearingTimer(
+        timer
+      )}`;
+}
+
+export function isMessageExpired(message: Message, now = Date.now()): boolean {
+  return !!message.expiresAt && message.expiresAt <= now;
+}
+
+export function removeExpiredMessages(
+  messages: Message[],
+  now = Date.now()
+): Message[] {
+  return messages.some((m) => isMessageExpired(m, now))
+    ? messages.filter((m) => !isMessageExpired(m, now))
+    : messages;
+}
+
+/**
+ * Earliest upcoming expiry among the messages, if any
+ */
+export function getNextExpiry(messages: Message[]): number | null {
+  let next: number | null = null;
+  for (const message of messages) {
+    if (message.expiresAt && (next === null || message.expiresAt < next)) {
+      next = message.expiresAt;
+    }
+  }
+  return next;
+}
+
+/**
+ * The newest timer change recorded in the timeline, if it is newer than
+ * `current`
+ */
+export function findTimerChange(
+  messages: Message[],
+  current: DisappearingTimerSetting | null
+): DisappearingTimerSetting | null {
+  let latest = current;
+  for (const message of messages) {
+    if (message.systemEvent?.type !== "disappearing_timer") continue;
+    if (!latest || message.createdAt > latest.since) {
+      latest = { timer: message.systemEvent.timer, since: message.createdAt };
+    }
+  }
+  return latest === current ? null : latest;
+}
+
+/**
+ * Stamp expiry on messages sent while the timer was on. The server normally
+ * stamps `expiresAt` itself; this covers messages it didn't (older builds,
+ * optimistic copies). System messages never expire.
+ */
+export function applyDisappearingTimer(
+  messages: Message[],
+  setting: DisappearingTimerSetting | null
+): Message[] {
+  if (!setting || setting.timer === "off") {
+    return messages;
+  }
+
+  const duration = DISAPPEARING_TIMER_DURATIONS[setting.timer];
+  return messages.map((m) =>
+    m.expiresAt || m.isSystemMessage || (m.createdAt || 0) < setting.since
+      ? m
+      : { ...m, expiresAt: (m.createdAt || 0) + duration }
+  );
+}
@@ -0,0 +1,201 @@
+import nacl from "tweetnacl";
+import {
+  decodeBase64,
+  decodeUTF8,
+  encodeBase64,
+  encodeUTF8,
+} from "tweetnacl-util";
+import * as Crypto from "expo-crypto";
+import { EncryptedEnvelope } from "../types/message";
+
+// tweetnacl has no random source of its own on React Native
+nacl.setPRNG((bytes, length) => {
+  bytes.set(Crypto.getRandomBytes(length));
+});
+
+export interface DeviceKey {
+  deviceId: string;
+  publicKey: string; // base64
+}
+
+export interface DeviceKeyPair extends DeviceKey {
+  secretKey: string; // base64
+}
+
+/**
+ * What the envelope protects. Attachments are encrypted separately and only
+ * their key travels inside the envelope.
+ */
+export interface EnvelopeContent {
+  text?: string;
+  attachment?: {
+    key: string;
+    nonce: string;
+    mimeType?: string;
+  };
+  // Voice and image details and voice transcripts, which would give away
+  // what was sent if they travelled next to the envelope
+  media?: {
+    duration?: number;
+    waveform?: number[];
+    width?: number;
+    height?: number;
+    transcript?: string;
+    transcriptLanguage?: string;
+  };
+}
+
+export function generateDeviceKeyPair(deviceId: string): DeviceKeyPair {
+  const pair = nacl.box.keyPair();
+  return {
+    deviceId,
+    publicKey: encodeBase64(pair.publicKey),
+    secretKey: encodeBase64(pair.secretKey),
+  };
+}
+
+/**
+ * Seal content for a set of recipient devices. The sender's own devices
+ * should be among the recipients so the message stays readable to them.
+ */
+export function sealEnvelope(
+  content: EnvelopeContent,
+  sender: DeviceKeyPair,
+  recipients: DeviceKey[]
+): EncryptedEnvelope {
+  const contentKey = nacl.randomBytes(nacl.secretbox.keyLength);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const ciphertext = nacl.secretbox(
+    decodeUTF8(JSON.stringify(content)),
+    nonce,
+    contentKey
+  );
+
+  const senderSecret = decodeBase64(sender.secretKey);
+  const keys: EncryptedEnvelope["keys"] = {};
+  for (const device of recipients) {
+    const keyNonce = nacl.randomBytes(nacl.box.nonceLength);
+    keys[device.deviceId] = {
+      nonce: encodeBase64(keyNonce),
+      box: encodeBase64(
+        nacl.box(
+          contentKey,
+          keyNonce,
+          decodeBase64(device.publicKey),
+          senderSecret
+        )
+      ),
+    };
+  }
+
+  return {
+    v: 1,
+    senderDeviceId: sender.deviceId,
+    senderKey: sender.publicKey,
+    nonce: encodeBase64(nonce),
+    ciphertext: encodeBase64(ciphertext),
+    keys,
+  };
+}
+
+/**
+ * Open an envelope with this device's key pair. Returns null when the
+ * envelope wasn't sealed for this device or has been tampered with.
+ */
+export function openEnvelope(
+  envelope: EncryptedEnvelope,
+  device: DeviceKeyPair
+): EnvelopeContent | null {
+  const sealedKey = envelope.keys?.[device.deviceId];
+  if (!sealedKey) return null;
+
+  try {
+    const contentKey = nacl.box.open(
+      decodeBase64(sealedKey.box),
+      decodeBase64(sealedKey.nonce),
+      decodeBase64(envelope.senderKey),
+      decodeBase64(device.secretKey)
+    );
+    if (!contentKey) return null;
+
+    const plaintext = nacl.secretbox.open(
+      decodeBase64(envelope.ciphertext),
+      decodeBase64(envelope.nonce),
+      contentKey
+    );
+    return plaintext ? JSON.parse(encodeUTF8(plaintext)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt file contents (base64 in, base64 out) with a fresh key
+ */
+export function encryptAttachment(base64Data: string): {
+  data: string;
+  key: string;
+  nonce: string;
+} {
+  const key = nacl.randomBytes(nacl.secretbox.keyLength);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  return {
+    data: encodeBase64(nacl.secretbox(decodeBase64(base64Data), nonce, key)),
+    key: encodeBase64(key),
+    nonce: encodeBase64(nonce),
+  };
+}
+
+export function decryptAttachment(
+  base64Data: string,
+  key: string,
+  nonce: string
+): string | null {
+  try {
+    const plain = nacl.secretbox.open(
+      decodeBase64(base64Data),
+      decodeBase64(nonce),
+      decodeBase64(key)
+    );
+    return plain ? encodeBase64(plain) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 30 digits identifying a user's set of device keys
+ */
+function fingerprint(userId: string, publicKeys: string[]): string {
+  const input = decodeUTF8(`${userId}:${[...publicKeys].sort().join(",")}`);
+  const hash = nacl.hash(input);
+
+  let digits = "";
+  for (let i = 0; i < 30; i += 5) {
+    // 5 bytes per chunk stays within Number's safe integer range
+    let chunk = 0;
+    for (let j = 0; j < 5; j++) {
+      chunk = chunk * 256 + hash[i + j];
+    }
+    digits += String(chunk % 100000).padStart(5, "0");
+  }
+  return digits;
+}
+
+/**
+ * Safety number for a pair of users, the same on both sides. Shown as
+ * twelve groups of five digits for users to compare out of band.
+ */
+export function computeSafetyNumber(
+  a: { userId: string; publicKeys: string[] },
+  b: { userId: string; publicKeys: string[] }
+): string {
+  return [a, b]
+    .sort((x, y) => (x.userId < y.userId ? -1 : 1))
+    .map((party) => fingerprint(party.userId, party.publicKeys))
+    .join("");
+}
+
+export function formatSafetyNumber(safetyNumber: string): string[] {
+  return safetyNumber.match(/.{1,5}/g) || [];
+}
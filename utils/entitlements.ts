@@ -0,0 +1,366 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import EventEmitter from "eventemitter3";
+import nacl from "tweetnacl";
+import { decodeBase64, decodeUTF8 } from "tweetnacl-util";
+import { CACHE_KEYS, CACHE_TTL, SubscriptionCache } from "./subscriptionCache";
+import type { ApiResponse } from "../types/profile";
+import type {
+  EntitlementConfig,
+  SignedEntitlementConfig,
+  SubscriptionFeatures,
+  SubscriptionTier,
+} from "../types/subscription";
+
+/**
+ * Tier tables shipped with the app. Used until a signed config has been
+ * fetched, and whenever the fetched one can't be verified.
+ */
+export const BUNDLED_ENTITLEMENTS: EntitlementConfig = {
+  version: 0,
+  issuedAt: 0,
+  tierOrder: ["free", "premium", "premiumPlus"],
+  tiers: {
+    free: {
+      features: {
+        canViewMatches: true,
+        canChatWithMatches: true,
+        canInitiateChat: false,
+        canSendUnlimitedLikes: false,
+        canViewFullProfiles: false,
+        canHideFromFreeUsers: false,
+        canBoostProfile: false,
+        canViewProfileViewers: false,
+        canUseAdvancedFilters: false,
+        hasSpotlightBadge: false,
+        canUseIncognitoMode: false,
+        canAccessPrioritySupport: false,
+        canSeeReadReceipts: false,
+        canViewWhoLikedMe: false,
+        maxLikesPerDay: 5,
+        boostsPerMonth: 0,
+      },
+      limits: {
+        message_sent: 5,
+        profile_view: 10,
+        search_performed: 20,
+        interest_sent: 3,
+        profile_boost_used: 0,
+        voice_message_sent: 0,
+      },
+    },
+    premium: {
+      features: {
+        canViewMatches: true,
+        canChatWithMatches: true,
+        canInitiateChat: true,
+        canSendUnlimitedLikes: true,
+        canViewFullProfiles: true,
+        canHideFromFreeUsers: true,
+        canBoostProfile: true,
+        canViewProfileViewers: true,
+        canUseAdvancedFilters: true,
+        hasSpotlightBadge: false,
+        canUseIncognitoMode: false,
+        canAccessPrioritySupport: true,
+        canSeeReadReceipts: true,
+        canViewWhoLikedMe: false,
+        maxLikesPerDay: -1, // unlimited
+        boostsPerMonth: 1,
+      },
+      limits: {
+        message_sent: -1, // unlimited
+        profile_view: 50,
+        search_performed: -1,
+        interest_sent: -1,
+        profile_boost_used: 1,
+        voice_message_sent: 10,
+      },
+    },
+    premiumPlus: {
+      features: {
+        canViewMatches: true,
+        canChatWithMatches: true,
+        canInitiateChat: true,
+        canSendUnlimitedLikes: true,
+        canViewFullProfiles: true,
+        canHideFromFreeUsers: true,
+        canBoostProfile: true,
+        canViewProfileViewers: true,
+        canUseAdvancedFilters: true,
+        hasSpotlightBadge: true,
+        canUseIncognitoMode: true,
+        canAccessPrioritySupport: true,
+        canSeeReadReceipts: true,
+        canViewWhoLikedMe: true,
+        maxLikesPerDay: -1, // unlimited
+        boostsPerMonth: -1, // unlimited
+      },
+      limits: {
+        message_sent: -1,
+        profile_view: -1,
+        search_performed: -1,
+        interest_sent: -1,
+        profile_boost_used: -1,
+        voice_message_sent: -1,
+      },
+    },
+  },
+};
+
+const TIER_LABELS: Record<SubscriptionTier, string> = {
+  free: "Free",
+  premium: "Premium",
+  premiumPlus: "Premium Plus",
+};
+
+export function getTierLabel(tier: SubscriptionTier): string {
+  return TIER_LABELS[tier] ?? tier;
+}
+
+/**
+ * Checks a signed payload; returns false for anything it can't vouch for
+ */
+export type EntitlementVerifier = (
+  payload: string,
+  signature: string
+) => boolean;
+
+export function createEd25519Verifier(
+  publicKey: string | undefined
+): EntitlementVerifier {
+  if (!publicKey) {
+    // Without a key nothing remote can be trusted; stay on the bundled tables
+    return () => false;
+  }
+  const key = decodeBase64(publicKey);
+  return (payload, signature) => {
+    try {
+      return nacl.sign.detached.verify(
+        decodeUTF8(payload),
+        decodeBase64(signature),
+        key
+      );
+    } catch {
+      return false;
+    }
+  };
+}
+
+export type EntitlementUpdate = "applied" | "stale" | "rejected";
+
+export interface EntitlementEngineOptions {
+  verifier?: EntitlementVerifier;
+  bundled?: EntitlementConfig;
+  storageKey?: string;
+}
+
+/**
+ * Single source of truth for what each tier may do and how much of it.
+ * Starts from the bundled tables and moves to newer signed configs from the
+ * server; the last verified one is kept in AsyncStorage for offline starts
+ * and in SubscriptionCache until it's due a refresh. Emits "change" with
+ * the new config.
+ */
+export class EntitlementEngine extends EventEmitter {
+  private config: EntitlementConfig;
+  private bundled: EntitlementConfig;
+  private verifier: EntitlementVerifier;
+  private storageKey: string;
+  private loaded: Promise<void> | null = null;
+
+  constructor(options: EntitlementEngineOptions = {}) {
+    super();
+    this.bundled = options.bundled ?? BUNDLED_ENTITLEMENTS;
+    this.config = this.bundled;
+    this.verifier =
+      options.verifier ??
+      createEd25519Verifier(process.env.EXPO_PUBLIC_ENTITLEMENTS_PUBLIC_KEY);
+    this.storageKey = options.storageKey ?? "entitlements_config";
+  }
+
+  get version(): number {
+    return this.config.version;
+  }
+
+  getConfig(): EntitlementConfig {
+    return this.config;
+  }
+
+  /**
+   * Load the last verified config saved by an earlier session
+   */
+  hydrate(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(this.storageKey);
+      if (raw) {
+        this.apply(JSON.parse(raw) as SignedEntitlementConfig);
+      }
+    } catch (error) {
+      console.error("EntitlementEngine: Failed to load saved config", error);
+    }
+  }
+
+  /**
+   * Switch to a signed config if it verifies and is newer than the current
+   * one. Anything else leaves the current tables in place.
+   */
+  apply(signed: SignedEntitlementConfig): EntitlementUpdate {
+    const config = this.verify(signed);
+    if (!config) {
+      return "rejected";
+    }
+    if (config.version <= this.config.version) {
+      return "stale";
+    }
+    this.config = config;
+    this.emit("change", config);
+    return "applied";
+  }
+
+  /**
+   * Fetch the server's config unless the current one is still fresh.
+   * Failures keep whatever is in use, so entitlements never disappear
+   * offline.
+   */
+  async refresh(
+    fetchConfig: () => Promise<ApiResponse<SignedEntitlementConfig>>
+  ): Promise<EntitlementConfig> {
+    await this.hydrate();
+    const cacheKey = CACHE_KEYS.entitlements();
+    if (SubscriptionCache.has(cacheKey)) {
+      return this.config;
+    }
+
+    try {
+      const response = await fetchConfig();
+      if (response.success && response.data) {
+        if (this.apply(response.data) === "applied") {
+          await AsyncStorage.setItem(
+            this.storageKey,
+            JSON.stringify(response.data)
+          );
+        }
+        SubscriptionCache.set(cacheKey, this.config, CACHE_TTL.ENTITLEMENTS);
+      }
+    } catch (error) {
+      console.error("EntitlementEngine: Failed to refresh config", error);
+    }
+    return this.config;
+  }
+
+  private verify(signed: SignedEntitlementConfig): EntitlementConfig | null {
+    if (!signed?.payload || !signed.signature) {
+      return null;
+    }
+    if (!this.verifier(signed.payload, signed.signature)) {
+      console.warn("EntitlementEngine: Ignoring config with a bad signature");
+      return null;
+    }
+    try {
+      return this.normalize(JSON.parse(signed.payload));
+    } catch (error) {
+      console.error("EntitlementEngine: Failed to parse config", error);
+      return null;
+    }
+  }
+
+  /**
+   * Fills anything an older server doesn't know about from the bundled
+   * tables, and refuses configs missing a tier outright
+   */
+  private normalize(raw: any): EntitlementConfig | null {
+    if (typeof raw?.version !== "number" || !raw.tiers) {
+      return null;
+    }
+    const tiers = {} as EntitlementConfig["tiers"];
+    for (const tier of this.bundled.tierOrder) {
+      const remote = raw.tiers[tier];
+      if (!remote?.features || !remote.limits) {
+        return null;
+      }
+      tiers[tier] = {
+        features: { ...this.bundled.tiers[tier].features, ...remote.features },
+        limits: { ...this.bundled.tiers[tier].limits, ...remote.limits },
+      };
+    }
+    const tierOrder: SubscriptionTier[] = Array.isArray(raw.tierOrder)
+      ? raw.tierOrder.filter((tier: SubscriptionTier) => tier in tiers)
+      : [];
+    return {
+      version: raw.version,
+      issuedAt: typeof raw.issuedAt === "number" ? raw.issuedAt : 0,
+      tierOrder:
+        tierOrder.length === this.bundled.tierOrder.length
+          ? tierOrder
+          : this.bundled.tierOrder,
+      tiers,
+    };
+  }
+
+  getFeatures(tier: SubscriptionTier): SubscriptionFeatures {
+    return (this.config.tiers[tier] ?? this.config.tiers.free).features;
+  }
+
+  canAccess(
+    tier: SubscriptionTier,
+    feature: keyof SubscriptionFeatures
+  ): boolean {
+    return Boolean(this.getFeatures(tier)[feature]);
+  }
+
+  /**
+   * Usage cap for a counter such as "interest_sent"; -1 is unlimited and
+   * counters the config doesn't mention aren't allowed at all
+   */
+  getLimit(tier: SubscriptionTier, usageKey: string): number {
+    const limits = (this.config.tiers[tier] ?? this.config.tiers.free).limits;
+    return limits[usageKey] ?? 0;
+  }
+
+  isUnlimited(tier: SubscriptionTier, usageKey: string): boolean {
+    return this.getLimit(tier, usageKey) === -1;
+  }
+
+  isTierAtLeast(tier: SubscriptionTier, required: SubscriptionTier): boolean {
+    const order = this.config.tierOrder;
+    return order.indexOf(tier) >= order.indexOf(required);
+  }
+
+  /**
+   * Cheapest tier that unlocks the feature, or null if none does
+   */
+  requiredTier(feature: keyof SubscriptionFeatures): SubscriptionTier | null {
+    return (
+      this.config.tierOrder.find((tier) => this.canAccess(tier, feature)) ??
+      null
+    );
+  }
+
+  /**
+   * Cheapest tier above the current one that raises the cap on a counter,
+   * or null when there's nothing more to buy
+   */
+  upgradeTierForLimit(
+    currentTier: SubscriptionTier,
+    usageKey: string
+  ): SubscriptionTier | null {
+    const current = this.getLimit(currentTier, usageKey);
+    if (current === -1) return null;
+    const order = this.config.tierOrder;
+    return (
+      order.slice(order.indexOf(currentTier) + 1).find((tier) => {
+        const limit = this.getLimit(tier, usageKey);
+        return limit === -1 || limit > current;
+      }) ?? null
+    );
+  }
+}
+
+export const entitlements = new EntitlementEngine();
@@ -1,8 +1,9 @@
 import {
-  FeatureLimits,
   FeatureUsage,
+  SubscriptionFeatures,
   SubscriptionTier,
 } from "../types/subscription";
+import { entitlements, getTierLabel } from "./entitlements";
 
 export type FeatureAction =
   | "send_message"
@@ -24,16 +25,143 @@ export interface FeatureGateResult {
   upgradeRequired?: boolean;
   showUpgradePrompt?: boolean;
 }
- 
+
 export interface FeatureGateOptions {
   // Deprecated: UI should handle toasts/modals at call sites
   showAlert?: boolean;
   customMessage?: string;
   onUpgradePrompt?: () => void;
   // New: allow callers to receive a UI message to toast
-  onDisallowedMessage?: (title: string, message: string, upgrade: boolean) => void;
+  onDisallowedMessage?: (
+    title: string,
+    message: string,
+    upgrade: boolean
+  ) => void;
+}
+
+interface ActionRule {
+  title: string;
+  // Entitlement the action needs, and how to say it's missing
+  feature?: keyof SubscriptionFeatures;
+  unavailable?: (availableIn: string) => string;
+  // Counter the action uses up, capped per period by the entitlement config
+  usageKey?: string;
+  usageField?: UsageField;
+  limitMessage?: string;
+}
+
+type UsageField =
+  | "messagesSent"
+  | "interestsSent"
+  | "profileViews"
+  | "searchesPerformed"
+  | "profileBoosts";
+
+const ACTION_RULES: Record<FeatureAction, ActionRule> = {
+  send_message: {
+    title: "Message Limit Reached",
+    usageKey: "message_sent",
+    usageField: "messagesSent",
+    limitMessage: "You've reached your monthly message limit",
+  },
+  send_interest: {
+    title: "Interest Limit Reached",
+    usageKey: "interest_sent",
+    usageField: "interestsSent",
+    limitMessage: "You've reached your monthly interest limit",
+  },
+  view_profile: {
+    title: "Profile View Limit Reached",
+    usageKey: "profile_view",
+    usageField: "profileViews",
+    limitMessage: "You've reached your daily profile view limit",
+  },
+  perform_search: {
+    title: "Search Limit Reached",
+    usageKey: "search_performed",
+    usageField: "searchesPerformed",
+    limitMessage: "You've reached your daily search limit",
+  },
+  boost_profile: {
+    title: "Profile Boost Unavailable",
+    feature: "canBoostProfile",
+    unavailable: () => "Profile boost is not available in your current plan",
+    usageKey: "profile_boost_used",
+    usageField: "profileBoosts",
+    limitMessage: "You've used all your profile boosts for this month",
+  },
+  view_who_liked_me: {
+    title: "Premium Feature",
+    feature: "canViewWhoLikedMe",
+    unavailable: (tier) => `See who liked you is only available in ${tier}`,
+  },
+  see_who_viewed_profile: {
+    title: "Premium Feature",
+    feature: "canViewProfileViewers",
+    unavailable: (tier) =>
+      `See who viewed your profile is only available in ${tier}`,
+  },
+  use_advanced_filters: {
+    title: "Premium Feature",
+    feature: "canUseAdvancedFilters",
+    unavailable: (tier) => `Advanced filters are only available in ${tier}`,
+  },
+  see_read_receipts: {
+    title: "Premium Feature",
+    feature: "canSeeReadReceipts",
+    unavailable: (tier) => `Read receipts are only available in ${tier}`,
+  },
+  use_incognito_mode: {
+    title: "Premium Plus Feature",
+    feature: "canUseIncognitoMode",
+    unavailable: (tier) => `Incognito mode is only available in ${tier}`,
+  },
+  access_priority_support: {
+    title: "Premium Plus Feature",
+    feature: "canAccessPrioritySupport",
+    unavailable: (tier) => `Priority support is only available in ${tier}`,
+  },
+};
+
+const UPGRADE_BENEFITS: Record<SubscriptionTier, string[]> = {
+  free: [],
+  premium: [
+    "Unlimited messaging",
+    "Unlimited interests",
+    "Advanced filters",
+    "See who viewed your profile",
+    "Read receipts",
+    "Monthly profile boost",
+  ],
+  premiumPlus: [
+    "See who liked you",
+    "Incognito browsing",
+    "Priority support",
+    "Unlimited profile boosts",
+    "All Premium features",
+  ],
+};
+
+function getUsageCount(usage: FeatureUsage, field: UsageField): number {
+  const value = usage[field] as number | { count: number };
+  return typeof value === "number" ? value : value?.count ?? 0;
+}
+
+/**
+ * "Premium Plus" for the top tier, "Premium plans" for anything below it
+ */
+function describeAvailability(tier: SubscriptionTier): string {
+  const order = entitlements.getConfig().tierOrder;
+  return tier === order[order.length - 1]
+    ? getTierLabel(tier)
+    : `${getTierLabel(tier)} plans`;
 }
 
+/**
+ * Decides whether an action is allowed for a tier. What each tier gets
+ * comes from the entitlement engine; this only knows which entitlement and
+ * counter every action maps to.
+ */
 class FeatureGateManager {
   /**
    * Check if a feature action is allowed
@@ -42,16 +170,10 @@ class FeatureGateManager {
     action: FeatureAction,
     currentTier: SubscriptionTier,
     usage: FeatureUsage,
-    limits: FeatureLimits,
     options: FeatureGateOptions = {}
   ): FeatureGateResult {
-    const result = this.evaluateFeatureAccess(
-      action,
-      currentTier,
-      usage,
-      limits
-    );
- 
+    const result = this.evaluateFeatureAccess(action, currentTier, usage);
+
     // No direct UI side-effects in utils; pass message via callback if provided
     if (!result.allowed && options.onDisallowedMessage) {
       const { title, message } = this.composeDisallowedMessage(
@@ -61,138 +183,45 @@ class FeatureGateManager {
       );
       options.onDisallowedMessage(title, message, !!result.upgradeRequired);
     }
- 
+
     return result;
   }
 
   /**
-   * Evaluate feature access based on action, tier, usage, and limits
+   * Evaluate feature access based on action, tier and usage
    */
   private evaluateFeatureAccess(
     action: FeatureAction,
     currentTier: SubscriptionTier,
-    usage: FeatureUsage,
-    limits: FeatureLimits
+    usage: FeatureUsage
   ): FeatureGateResult {
-    switch (action) {
-      case "send_message":
-        return this.checkUsageLimit(
-          typeof usage.profileViews === 'number' ? usage.profileViews : usage.profileViews.count,
-          limits.maxProfileViews,
-          "You've reached your daily profile view limit",
-          currentTier === "free"
-        );
-
-      case "send_interest":
-        return this.checkUsageLimit(
-          usage.interestsSent,
-          limits.maxInterests,
-          "You've reached your monthly interest limit",
-          currentTier === "free"
-        );
-
-      case "view_profile":
-        return this.checkUsageLimit(
-          typeof usage.profileViews === 'number' ? usage.profileViews : usage.profileViews.count,
-          limits.maxProfileViews,
-          "You've reached your daily profile view limit",
-          currentTier === "free"
-        );
-
-      case "perform_search":
-        return this.checkUsageLimit(
-          usage.searchesPerformed,
-          limits.maxSearches,
-          "You've reached your daily search limit",
-          currentTier === "free"
-        );
-
-      case "boost_profile":
-        if (!limits.canBoostProfile) {
-          return {
-            allowed: false,
-            reason: "Profile boost is not available in your current plan",
-            upgradeRequired: true,
-            showUpgradePrompt: true,
-          };
-        }
-        return this.checkUsageLimit(
-          usage.profileBoosts,
-          limits.maxProfileBoosts,
-          "You've used all your profile boosts for this month",
-          currentTier !== "premiumPlus"
-        );
-
-      case "view_who_liked_me":
-        if (!limits.canViewWhoLikedMe) {
-          return {
-            allowed: false,
-            reason: "See who liked you is only available in Premium Plus",
-            upgradeRequired: true,
-            showUpgradePrompt: true,
-          };
-        }
-        return { allowed: true };
-
-      case "see_who_viewed_profile":
-        if (!limits.canSeeWhoViewedProfile) {
-          return {
-            allowed: false,
-            reason:
-              "See who viewed your profile is only available in Premium plans",
-            upgradeRequired: true,
-            showUpgradePrompt: true,
-          };
-        }
-        return { allowed: true };
-
-      case "use_advanced_filters":
-        if (!limits.canUseAdvancedFilters) {
-          return {
-            allowed: false,
-            reason: "Advanced filters are only available in Premium plans",
-            upgradeRequired: true,
-            showUpgradePrompt: true,
-          };
-        }
-        return { allowed: true };
-
-      case "see_read_receipts":
-        if (!limits.canSeeReadReceipts) {
-          return {
-            allowed: false,
-            reason: "Read receipts are only available in Premium plans",
-            upgradeRequired: true,
-            showUpgradePrompt: true,
-          };
-        }
-        return { allowed: true };
-
-      case "use_incognito_mode":
-        if (!limits.canUseIncognitoMode) {
-          return {
-            allowed: false,
-            reason: "Incognito mode is only available in Premium Plus",
-            upgradeRequired: true,
-            showUpgradePrompt: true,
-          };
-        }
-        return { allowed: true };
+    const rule = ACTION_RULES[action];
+    if (!rule) {
+      return { allowed: true };
+    }
 
-      case "access_priority_support":
-        if (!limits.canAccessPrioritySupport) {
-          return {
-            allowed: false,
-            reason: "Priority support is only available in Premium Plus",
-            upgradeRequired: true,
-            showUpgradePrompt: true,
-          };
-        }
-        return { allowed: true };
+    if (rule.feature && !entitlements.canAccess(currentTier, rule.feature)) {
+      const requiredTier = entitlements.requiredTier(rule.feature);
+      return {
+        allowed: false,
+        reason: requiredTier
+          ? rule.unavailable?.(describeAvailability(requiredTier))
+          : "This feature is not available",
+        upgradeRequired: !!requiredTier,
+        showUpgradePrompt: !!requiredTier,
+      };
+    }
 
-      default:
-        return { allowed: true };
+    if (rule.usageKey && rule.usageField) {
+      return this.checkUsageLimit(
+        getUsageCount(usage, rule.usageField),
+        entitlements.getLimit(currentTier, rule.usageKey),
+        rule.limitMessage || "You've reached your limit",
+        entitlements.upgradeTierForLimit(currentTier, rule.usageKey) !== null
+      );
     }
+
+    return { allowed: true };
   }
 
   /**
@@ -200,12 +229,12 @@ class FeatureGateManager {
    */
   private checkUsageLimit(
     currentUsage: number,
-    maxUsage: number | null,
+    maxUsage: number,
     limitMessage: string,
     upgradeAvailable: boolean
   ): FeatureGateResult {
     // Unlimited usage
-    if (maxUsage === null) {
+    if (maxUsage === -1) {
       return { allowed: true };
     }
 
@@ -237,42 +266,10 @@ class FeatureGateManager {
   ): { title: string; message: string } {
     const message =
       customMessage || result.reason || "This feature is not available";
-    const title = this.getFeatureTitle(action);
+    const title = ACTION_RULES[action]?.title || "Feature Unavailable";
     return { title, message };
   }
 
-  /**
-   * Get user-friendly title for feature
-   */
-  private getFeatureTitle(action: FeatureAction): string {
-    switch (action) {
-      case "send_message":
-        return "Message Limit Reached";
-      case "send_interest":
-        return "Interest Limit Reached";
-      case "view_profile":
-        return "Profile View Limit Reached";
-      case "perform_search":
-        return "Search Limit Reached";
-      case "boost_profile":
-        return "Profile Boost Unavailable";
-      case "view_who_liked_me":
-        return "Premium Feature";
-      case "see_who_viewed_profile":
-        return "Premium Feature";
-      case "use_advanced_filters":
-        return "Premium Feature";
-      case "see_read_receipts":
-        return "Premium Feature";
-      case "use_incognito_mode":
-        return "Premium Plus Feature";
-      case "access_priority_support":
-        return "Premium Plus Feature";
-      default:
-        return "Feature Unavailable";
-    }
-  }
-
   /**
    * Get upgrade suggestions based on current tier and desired feature
    */
@@ -280,52 +277,21 @@ class FeatureGateManager {
     action: FeatureAction,
     currentTier: SubscriptionTier
   ): { targetTier: SubscriptionTier; benefits: string[] } {
-    const premiumFeatures = [
-      "send_message",
-      "send_interest",
-      "use_advanced_filters",
-      "see_who_viewed_profile",
-      "see_read_receipts",
-      "boost_profile",
-    ];
+    const rule = ACTION_RULES[action];
+    const order = entitlements.getConfig().tierOrder;
 
-    const premiumPlusFeatures = [
-      "view_who_liked_me",
-      "use_incognito_mode",
-      "access_priority_support",
-    ];
-
-    if (premiumPlusFeatures.includes(action)) {
-      return {
-        targetTier: "premiumPlus",
-        benefits: [
-          "See who liked you",
-          "Incognito browsing",
-          "Priority support",
-          "Unlimited profile boosts",
-          "All Premium features",
-        ],
-      };
+    let targetTier: SubscriptionTier | null = null;
+    if (rule?.feature && !entitlements.canAccess(currentTier, rule.feature)) {
+      targetTier = entitlements.requiredTier(rule.feature);
+    } else if (rule?.usageKey) {
+      targetTier = entitlements.upgradeTierForLimit(currentTier, rule.usageKey);
     }
-
-    if (premiumFeatures.includes(action) || currentTier === "free") {
-      return {
-        targetTier: "premium",
-        benefits: [
-          "Unlimited messaging",
-          "Unlimited interests",
-          "Advanced filters",
-          "See who viewed your profile",
-          "Read receipts",
-          "Monthly profile boost",
-        ],
-      };
+    if (!targetTier) {
+      targetTier =
+        order[Math.min(order.indexOf(currentTier) + 1, order.length - 1)];
     }
 
-    return {
-      targetTier: "premiumPlus",
-      benefits: ["All premium features"],
-    };
+    return { targetTier, benefits: UPGRADE_BENEFITS[targetTier] ?? [] };
   }
 
   /**
@@ -333,31 +299,22 @@ class FeatureGateManager {
    */
   checkApproachingLimits(
     usage: FeatureUsage,
-    limits: FeatureLimits
+    currentTier: SubscriptionTier
   ): { feature: keyof FeatureUsage; percentage: number }[] {
     const approaching: { feature: keyof FeatureUsage; percentage: number }[] =
       [];
     const threshold = 0.8; // 80%
 
-    const usageFields: (keyof FeatureUsage)[] = [
-      "messagesSent",
-      "interestsSent",
-      "profileViews",
-      "searchesPerformed",
-      "profileBoosts",
-    ];
-
-    usageFields.forEach((field) => {
-      const limitField = `max${
-        field.charAt(0).toUpperCase() + field.slice(1)
-      }` as keyof FeatureLimits;
-      const currentUsage = usage[field] as number;
-      const maxUsage = limits[limitField] as number | null;
-
-      if (maxUsage !== null && maxUsage > 0) {
-        const percentage = currentUsage / maxUsage;
+    Object.values(ACTION_RULES).forEach(({ usageKey, usageField }) => {
+      if (!usageKey || !usageField) return;
+      const maxUsage = entitlements.getLimit(currentTier, usageKey);
+      if (maxUsage > 0) {
+        const percentage = getUsageCount(usage, usageField) / maxUsage;
         if (percentage >= threshold) {
-          approaching.push({ feature: field, percentage: percentage * 100 });
+          approaching.push({
+            feature: usageField,
+            percentage: percentage * 100,
+          });
         }
       }
     });
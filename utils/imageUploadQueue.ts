@@ -1,11 +1,14 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import EventEmitter from "eventemitter3";
 import * as FileSystem from "expo-file-system";
 import { getAuthToken } from "../services/authToken";
 import { API_BASE_URL } from "./api";
+import { Message } from "../types/message";
+import type { OutboxStepHandler } from "./offlineMessageQueue";
 
 export type UploadStatus = "queued" | "uploading" | "saving" | "done" | "error";
 
+/**
+ * Item persisted by the standalone image queue that predates the outbox
+ */
 export interface ImageUploadItem {
   id: string;
   conversationId: string;
@@ -23,188 +26,135 @@ export interface ImageUploadItem {
   createdAt: number;
 }
 
-export interface ImageUploadQueueState {
-  items: ImageUploadItem[];
-  isOnline: boolean;
-}
-
-const STORAGE_KEY = "image_upload_queue_v1";
-
-export class ImageUploadQueue extends EventEmitter {
-  private items: Map<string, ImageUploadItem> = new Map();
-  private processing = false;
-  private online = true;
-
-  async initialize() {
-    try {
-      const raw = await AsyncStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed: ImageUploadItem[] = JSON.parse(raw);
-        parsed.forEach((it) => this.items.set(it.id, it));
-      }
-      this.emit("initialized", this.getState());
-    } catch (e) {
-      // ignore
-    }
-  }
-
-  setOnlineStatus(online: boolean) {
-    const was = this.online;
-    this.online = online;
-    this.emit("online", online);
-    if (online && !was) this.process();
-  }
-
-  getState(): ImageUploadQueueState {
-    return { items: Array.from(this.items.values()), isOnline: this.online };
-    }
-
-  private async persist() {
-    const list = Array.from(this.items.values());
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+export const LEGACY_IMAGE_QUEUE_KEY = "image_upload_queue_v1";
+
+/**
+ * The upload endpoint responds with the created message, wrapped or not
+ */
+function parseCreatedMessage(body?: string): Message | undefined {
+  if (!body) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    const data = parsed?.data ?? parsed;
+    const message = data?.message ?? data;
+    return message && message._id ? message : undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  async enqueue(item: Omit<ImageUploadItem, "id" | "progress" | "status" | "attempts" | "createdAt">) {
-    const id = `iu_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    const rec: ImageUploadItem = {
-      id,
-      progress: 0,
-      status: "queued",
-      attempts: 0,
-      createdAt: Date.now(),
-      ...item,
+/**
+ * Outbox upload step for image messages: multipart upload to
+ * /api/messages/upload-image, which also creates the message
+ */
+export const uploadMessageImage: OutboxStepHandler = async (
+  job,
+  { onProgress, onCancel }
+) => {
+  const { message, attachment, stepResults } = job;
+  if (!attachment) {
+    return {
+      success: false,
+      error: { code: "UPLOAD_ERROR", message: "No image to upload" },
     };
-    this.items.set(id, rec);
-    await this.persist();
-    this.emit("enqueued", rec);
-    if (this.online) this.process();
-    return id;
-  }
-
-  async retry(id: string) {
-    const item = this.items.get(id);
-    if (!item) return false;
-    item.status = "queued";
-    item.progress = 0;
-    item.error = undefined;
-    await this.persist();
-    this.emit("retry", item);
-    if (this.online) this.process();
-    return true;
   }
 
-  async remove(id: string) {
-    const ok = this.items.delete(id);
-    await this.persist();
-    if (ok) this.emit("removed", id);
-    return ok;
-  }
-
-  private async process() {
-    if (this.processing || !this.online) return;
-    this.processing = true;
-    try {
-      // FIFO by createdAt
-      const list = Array.from(this.items.values())
-        .filter((i) => i.status === "queued" || i.status === "error")
-        .sort((a, b) => a.createdAt - b.createdAt);
-
-      for (const job of list) {
-        if (!this.online) break;
-        await this.processOne(job).catch(() => undefined);
-      }
-    } finally {
-      this.processing = false;
+  const token = await getAuthToken().catch(() => undefined);
+
+  const uploadUrl = `${API_BASE_URL}/api/messages/upload-image`;
+  // Let native set the boundary; don't set Content-Type here
+  const headers: Record<string, string> = {};
+  if (token) headers["Authorization"] = `Bearer ${token}`;
+
+  // Encrypted conversations upload the sealed copy; the real type is inside
+  const encrypted = stepResults.encrypted;
+  const sourceUri = stepResults.encryptedUri || attachment.localUri;
+  const fileName = encrypted ? "image.bin" : attachment.fileName || "image.jpg";
+  const contentType = encrypted
+    ? "application/octet-stream"
+    : attachment.contentType || "image/jpeg";
+  const multipartFields = [
+    { name: "conversationId", value: message.conversationId },
+    { name: "fromUserId", value: message.fromUserId },
+    { name: "toUserId", value: message.toUserId },
+    { name: "fileName", value: fileName },
+    { name: "contentType", value: contentType },
+    ...(message.clientMessageId
+      ? [{ name: "clientMessageId", value: message.clientMessageId }]
+      : []),
+    ...(encrypted
+      ? [{ name: "encrypted", value: JSON.stringify(encrypted) }]
+      : []),
+    // Dimensions of a sealed image stay inside its envelope
+    ...(!encrypted && attachment.width
+      ? [{ name: "width", value: String(attachment.width) }]
+      : []),
+    ...(!encrypted && attachment.height
+      ? [{ name: "height", value: String(attachment.height) }]
+      : []),
+  ];
+
+  // Use any-typed options for broad SDK compatibility
+  const uploadOptions: any = {
+    fieldName: "image",
+    httpMethod: "POST",
+    uploadType: (FileSystem as any).FileSystemUploadType?.MULTIPART ?? 1,
+    headers,
+    parameters: Object.fromEntries(
+      multipartFields.map((f) => [f.name, f.value])
+    ),
+    sessionType:
+      (FileSystem as any).FileSystemSessionType?.BACKGROUND ?? undefined,
+  };
+
+  try {
+    let result: any;
+    if (typeof (FileSystem as any).createUploadTask === "function") {
+      const task: any = (FileSystem as any).createUploadTask(
+        uploadUrl,
+        sourceUri,
+        uploadOptions,
+        ({ totalBytesSent, totalBytesExpectedToSend }: any) => {
+          if (totalBytesExpectedToSend > 0) {
+            onProgress(totalBytesSent / totalBytesExpectedToSend);
+          }
+        }
+      );
+      onCancel(() => task.cancelAsync?.());
+      result = await task.uploadAsync();
+    } else {
+      result = await (FileSystem as any).uploadAsync(
+        uploadUrl,
+        sourceUri,
+        uploadOptions
+      );
     }
-  }
-
-  private async processOne(job: ImageUploadItem) {
-    job.attempts += 1;
-    job.status = "uploading";
-    job.progress = 0;
-    this.emit("status", { id: job.id, status: job.status, progress: job.progress });
-
-    // Upload multipart directly to /api/messages/upload-image
-    const token = await getAuthToken().catch(() => undefined);
-
-    const uploadUrl = `${API_BASE_URL}/api/messages/upload-image`;
-    // Let native set the boundary; don't set Content-Type here
-    const headers: Record<string, string> = {};
-    if (token) headers["Authorization"] = `Bearer ${token}`;
 
-    // Build multipart body from localUri via FileSystem UploadTask
-    const multipartFields = [
-      { name: "conversationId", value: job.conversationId },
-      { name: "fromUserId", value: job.fromUserId },
-      { name: "toUserId", value: job.toUserId },
-      { name: "fileName", value: job.fileName },
-      { name: "contentType", value: job.contentType },
-      ...(job.width ? [{ name: "width", value: String(job.width) }] : []),
-      ...(job.height ? [{ name: "height", value: String(job.height) }] : []),
-    ];
+    const status = result?.status ?? 0;
+    if (status < 200 || status >= 300) {
+      return {
+        success: false,
+        error: {
+          code: status === 401 ? "AUTHENTICATION_ERROR" : "UPLOAD_FAILED",
+          message: `Image upload failed: HTTP ${status}`,
+          details: { status },
+        },
+      };
+    }
 
-    // Use any-typed options for broad SDK compatibility
-    const uploadOptions: any = {
-      fieldName: "image",
-      httpMethod: "POST",
-      uploadType: (FileSystem as any).FileSystemUploadType?.MULTIPART ?? 1,
-      headers,
-      parameters: Object.fromEntries(multipartFields.map((f) => [f.name, f.value])),
-      sessionType: (FileSystem as any).FileSystemSessionType?.BACKGROUND ?? undefined,
+    onProgress(1);
+    return {
+      success: true,
+      data: { message: parseCreatedMessage(result?.body) },
     };
-
-    const hasCreateUploadTask = typeof (FileSystem as any).createUploadTask === "function";
-    const onProgress = ({ totalBytesSent, totalBytesExpectedToSend }: any) => {
-      if (totalBytesExpectedToSend > 0) {
-        job.progress = totalBytesSent / totalBytesExpectedToSend;
-        this.emit("status", { id: job.id, status: job.status, progress: job.progress });
-      }
+  } catch (e: any) {
+    return {
+      success: false,
+      error: {
+        code: "UPLOAD_ERROR",
+        message: e?.message || "Upload failed",
+        details: e,
+      },
     };
-
-    try {
-      let status = 0;
-      let body: string | undefined;
-      if (hasCreateUploadTask) {
-        const task: any = (FileSystem as any).createUploadTask(
-          uploadUrl,
-          job.localUri,
-          uploadOptions,
-          onProgress
-        );
-        const result: any = await task.uploadAsync();
-        status = result?.status ?? 0;
-        body = result?.body;
-      } else {
-        const result: any = await (FileSystem as any).uploadAsync(
-          uploadUrl,
-          job.localUri,
-          uploadOptions
-        );
-        status = result?.status ?? 0;
-        body = result?.body;
-      }
-      if (status >= 200 && status < 300) {
-        job.status = "done";
-        job.progress = 1;
-        job.error = undefined;
-        this.emit("status", { id: job.id, status: job.status, progress: job.progress });
-        this.emit("done", { id: job.id, conversationId: job.conversationId, responseBody: body });
-        // Remove from queue after success
-        await this.remove(job.id);
-      } else {
-        job.status = "error";
-        job.error = `HTTP ${status}`;
-        this.emit("status", { id: job.id, status: job.status, progress: job.progress, error: job.error });
-        await this.persist();
-      }
-    } catch (e: any) {
-      job.status = "error";
-      job.error = e?.message || "Upload failed";
-      this.emit("status", { id: job.id, status: job.status, progress: job.progress, error: job.error });
-      this.emit("error", { id: job.id, error: job.error });
-      await this.persist();
-    }
   }
-}
-
-export const imageUploadQueue = new ImageUploadQueue();
+};
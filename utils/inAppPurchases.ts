@@ -11,16 +11,46 @@ import {
   purchaseErrorListener,
   purchaseUpdatedListener,
   getAvailablePurchases,
-  validateReceipt,
-  clearTransactionIOS,
 } from "react-native-iap";
 import { Platform } from "react-native";
 import { SubscriptionPlan, PurchaseResult } from "../types/subscription";
+import { CONSUMABLE_PRODUCTS } from "../types/inAppPurchase";
+import type {
+  ConsumableProductConfig,
+  CreditType,
+  PurchaseValidationRequest,
+  SignedPromotionalOffer,
+  SubscriptionOffer,
+} from "../types/inAppPurchase";
+import { apiClient } from "./api";
+import { creditLedger } from "./creditLedger";
+import { purchaseJournal, validateJournalEntry } from "./purchaseJournal";
+import type { JournalValidationOutcome } from "./purchaseJournal";
+import { buildSubscriptionRequest } from "./subscriptionOffers";
+
+export interface ConsumablePurchaseResult extends PurchaseResult {
+  credit?: CreditType;
+  quantity?: number;
+}
+
+export function getConsumableProduct(
+  productId: string
+): ConsumableProductConfig | undefined {
+  return [...CONSUMABLE_PRODUCTS.ios, ...CONSUMABLE_PRODUCTS.android].find(
+    (product) => product.productId === productId
+  );
+}
 
 export interface PurchaseManager {
   initialize: () => Promise<boolean>;
   getAvailableProducts: (productIds: string[]) => Promise<Product[]>;
-  purchaseProduct: (productId: string) => Promise<PurchaseResult>;
+  purchaseProduct: (
+    productId: string,
+    offer?: SubscriptionOffer | null,
+    signedOffer?: SignedPromotionalOffer | null
+  ) => Promise<PurchaseResult>;
+  purchaseConsumable: (productId: string) => Promise<ConsumablePurchaseResult>;
+  resumePendingPurchases: () => Promise<void>;
   restorePurchases: () => Promise<PurchaseResult[]>;
   getReceiptData: () => Promise<string | null>;
   cleanup: () => Promise<void>;
@@ -30,13 +60,20 @@ class InAppPurchaseManager implements PurchaseManager {
   private isInitialized = false;
   private purchaseUpdateSubscription?: any;
   private purchaseErrorSubscription?: any;
-  private pendingPurchases: Map<string, (result: PurchaseResult) => void> =
-    new Map();
+  private pendingPurchases: Map<
+    string,
+    (result: ConsumablePurchaseResult) => void
+  > = new Map();
+  // Offer each in-flight subscription purchase started with
+  private pendingOffers: Map<string, SubscriptionOffer> = new Map();
 
   /**
    * Initialize in-app purchases with platform-specific setup
    */
   async initialize(): Promise<boolean> {
+    if (this.isInitialized) {
+      return true;
+    }
     try {
       console.log("Initializing in-app purchases...");
 
@@ -46,15 +83,11 @@ class InAppPurchaseManager implements PurchaseManager {
 
       this.isInitialized = true;
 
-      // Clear any pending transactions on iOS
-      if (Platform.OS === "ios") {
-        try {
-          await clearTransactionIOS();
-        } catch (error) {
-          console.log("No pending iOS transactions to clear");
-        }
-      }
+      // Credit consumables left over from an interrupted purchase
+      await this.reconcileConsumables();
 
+      // Unfinished transactions aren't cleared: the store hands them to the
+      // listener, which journals them until the server settles them
       this.setupPurchaseListeners();
       console.log("In-app purchases initialized successfully");
       return true;
@@ -89,27 +122,57 @@ class InAppPurchaseManager implements PurchaseManager {
   private async handlePurchaseSuccess(
     purchase: Purchase | SubscriptionPurchase
   ): Promise<void> {
+    if (getConsumableProduct(purchase.productId)) {
+      await this.handleConsumablePurchase(purchase);
+      return;
+    }
+
     try {
       console.log("Processing successful purchase:", purchase.productId);
 
       // Extract purchase data based on platform
       const purchaseData = this.extractPurchaseData(purchase);
 
+      // Journal before anything else: if the app dies from here on, the
+      // purchase is validated on the next start
+      let status = "pending";
+      if (purchase.purchaseState !== "pending") {
+        const entry = await purchaseJournal.record(
+          this.toValidationRequest(purchase)
+        );
+        this.pendingOffers.delete(purchase.productId);
+        if (entry.status === "pending") {
+          const outcome = await validateJournalEntry(entry);
+          await purchaseJournal.settle(entry.transactionId, outcome);
+        }
+        status =
+          purchaseJournal.getEntry(entry.transactionId)?.status ?? status;
+      }
+      const validated = status === "validated";
+
       // Resolve pending purchase promise
       const pendingCallback = this.pendingPurchases.get(purchase.productId);
       if (pendingCallback) {
-        pendingCallback({
-          success: true,
-          transactionId: purchase.transactionId,
-          purchaseToken: purchaseData.purchaseToken,
-          receiptData: purchaseData.receiptData,
-        });
+        pendingCallback(
+          status === "rejected"
+            ? { success: false, error: "We couldn't verify this purchase" }
+            : {
+                success: true,
+                transactionId: purchase.id,
+                purchaseToken: purchaseData.purchaseToken,
+                receiptData: purchaseData.receiptData,
+                pendingValidation: !validated,
+              }
+        );
         this.pendingPurchases.delete(purchase.productId);
       }
 
-      // Finish the transaction
-      await finishTransaction({ purchase, isConsumable: false });
-      console.log("Transaction finished successfully");
+      // Finish the transaction once the server has settled it; until then
+      // the store keeps offering it back
+      if (status !== "pending") {
+        await finishTransaction({ purchase, isConsumable: false });
+        console.log("Transaction finished successfully");
+      }
     } catch (error) {
       console.error("Error handling purchase success:", error);
 
@@ -125,6 +188,151 @@ class InAppPurchaseManager implements PurchaseManager {
     }
   }
 
+  /**
+   * Credit a consumable through the server before consuming it. If the
+   * receipt can't be validated yet the transaction stays unfinished, so the
+   * store hands it back and it's retried on the next launch.
+   */
+  private async handleConsumablePurchase(
+    purchase: Purchase | SubscriptionPurchase
+  ): Promise<void> {
+    const product = getConsumableProduct(purchase.productId)!;
+    const resolve = this.pendingPurchases.get(purchase.productId);
+    this.pendingPurchases.delete(purchase.productId);
+
+    let status: JournalValidationOutcome["status"] = "retry";
+    // Android pending payments (e.g. cash) only have a receipt once paid
+    if (purchase.purchaseState !== "pending") {
+      await creditLedger.recordPendingPurchase(
+        purchase.id,
+        product.credit,
+        product.quantity
+      );
+      status = await this.validateReceipt(purchase);
+      await this.settleConsumable(purchase, status);
+    }
+
+    resolve?.(
+      status === "rejected"
+        ? { success: false, error: "We couldn't verify this purchase" }
+        : {
+            success: true,
+            transactionId: purchase.id,
+            credit: product.credit,
+            quantity: product.quantity,
+            pendingValidation: status !== "validated",
+          }
+    );
+  }
+
+  /**
+   * Consume a consumable once the server has settled it. A rejected one is
+   * consumed too, or the store keeps handing it back and the product can't
+   * be bought again.
+   */
+  private async settleConsumable(
+    purchase: Purchase | SubscriptionPurchase,
+    status: JournalValidationOutcome["status"]
+  ): Promise<void> {
+    if (status === "retry") return;
+    if (status === "rejected") {
+      await creditLedger.dropPendingPurchase(purchase.id);
+    }
+    try {
+      await finishTransaction({ purchase, isConsumable: true });
+    } catch (error) {
+      console.error("Error finishing consumable transaction:", error);
+    }
+  }
+
+  /**
+   * Validate and consume consumables that were paid for but never
+   * credited, e.g. when the app closed mid-purchase
+   */
+  async reconcileConsumables(): Promise<void> {
+    try {
+      const purchases = await getAvailablePurchases();
+      for (const purchase of purchases) {
+        if (
+          !getConsumableProduct(purchase.productId) ||
+          purchase.purchaseState === "pending"
+        ) {
+          continue;
+        }
+        await this.settleConsumable(
+          purchase,
+          await this.validateReceipt(purchase)
+        );
+      }
+    } catch (error) {
+      console.error("Error reconciling consumable purchases:", error);
+    }
+  }
+
+  /**
+   * Validate journalled subscription purchases the server hasn't confirmed,
+   * then finish whichever settled ones the store still holds, rejected
+   * included
+   */
+  async replayPurchaseJournal(): Promise<void> {
+    await purchaseJournal.replay();
+    const transactionIds = new Set(
+      purchaseJournal
+        .getEntries()
+        .filter((entry) => entry.status !== "pending")
+        .map((entry) => entry.transactionId)
+    );
+    if (transactionIds.size === 0) return;
+
+    try {
+      const purchases = await getAvailablePurchases();
+      for (const purchase of purchases) {
+        if (transactionIds.has(purchase.id)) {
+          await finishTransaction({ purchase, isConsumable: false });
+        }
+      }
+    } catch (error) {
+      console.error("Error finishing replayed purchases:", error);
+    }
+  }
+
+  /**
+   * Connect and retry anything paid for but not yet confirmed: journalled
+   * subscriptions and uncredited consumables. Called at startup, after
+   * sign-in and when the network comes back; a no-op when nothing's owed.
+   */
+  async resumePendingPurchases(): Promise<void> {
+    await Promise.all([purchaseJournal.hydrate(), creditLedger.hydrate()]);
+    const hasPending =
+      purchaseJournal.getPending().length > 0 ||
+      creditLedger.getPendingPurchases().length > 0;
+    if (!hasPending || !(await this.initialize())) return;
+    await this.replayPurchaseJournal();
+    await this.reconcileConsumables();
+  }
+
+  private toValidationRequest(
+    purchase: Purchase | SubscriptionPurchase
+  ): PurchaseValidationRequest {
+    const { purchaseToken, receiptData } = this.extractPurchaseData(purchase);
+    const plan = SUBSCRIPTION_PLANS.find(
+      (p) =>
+        p.appleProductId === purchase.productId ||
+        p.googleProductId === purchase.productId
+    );
+    const offer = this.pendingOffers.get(purchase.productId);
+    return {
+      platform: Platform.OS === "ios" ? "ios" : "android",
+      productId: purchase.productId,
+      purchaseToken,
+      transactionId: purchase.id,
+      receiptData,
+      subscriptionPlan: plan?.tier ?? "free",
+      offerId: offer?.id,
+      offerType: offer?.type,
+    };
+  }
+
   /**
    * Handle purchase errors with platform-specific messages
    */
@@ -216,9 +424,15 @@ class InAppPurchaseManager implements PurchaseManager {
   }
 
   /**
-   * Purchase a product with proper platform handling
+   * Purchase a product with proper platform handling. An offer starts the
+   * subscription with a trial or discounted price; App Store promotional
+   * offers also need the server's signature.
    */
-  async purchaseProduct(productId: string): Promise<PurchaseResult> {
+  async purchaseProduct(
+    productId: string,
+    offer?: SubscriptionOffer | null,
+    signedOffer?: SignedPromotionalOffer | null
+  ): Promise<PurchaseResult> {
     if (!this.isInitialized) {
       return { success: false, error: "In-app purchases not initialized" };
     }
@@ -227,20 +441,7 @@ class InAppPurchaseManager implements PurchaseManager {
       console.log("Attempting to purchase:", productId);
 
       // Create promise for purchase completion
-      const purchasePromise = new Promise<PurchaseResult>((resolve) => {
-        this.pendingPurchases.set(productId, resolve);
-
-        // Set timeout to prevent hanging
-        setTimeout(() => {
-          if (this.pendingPurchases.has(productId)) {
-            this.pendingPurchases.delete(productId);
-            resolve({
-              success: false,
-              error: "Purchase timeout",
-            });
-          }
-        }, 60000); // 60 second timeout
-      });
+      const purchasePromise = this.waitForPurchase(productId);
 
       // Determine if it's a subscription
       const isSubscription = true; // Aroosi only sells subscriptions currently
@@ -248,40 +449,38 @@ class InAppPurchaseManager implements PurchaseManager {
       if (isSubscription) {
         console.log("Requesting subscription:", productId);
 
-        // Android requires subscriptionOffers with offerToken
-        let androidRequest: {
-          skus: string[];
-          subscriptionOffers?: { sku: string; offerToken: string }[];
-        } = { skus: [productId] };
+        // Android requires subscriptionOffers with an offerToken, which is
+        // only on the store product
+        let storeProduct: any = null;
         if (Platform.OS === "android") {
           try {
-            const [product] = await fetchProducts({
+            [storeProduct] = await fetchProducts({
               skus: [productId],
               type: "subs",
             });
-            const offerToken: string | undefined =
-              (product as any)?.subscriptionOfferDetailsAndroid?.[0]
-                ?.offerToken ||
-              (product as any)?.subscriptionOfferDetails?.[0]?.offerToken;
-            if (offerToken) {
-              androidRequest.subscriptionOffers = [
-                { sku: productId, offerToken },
-              ];
-            } else {
-              console.warn(
-                "No offerToken found for subscription, proceeding without subscriptionOffers"
-              );
-            }
           } catch (e) {
             console.warn("Failed to fetch subscription offers for Android:", e);
           }
         }
 
+        const request = buildSubscriptionRequest(
+          productId,
+          storeProduct,
+          offer,
+          signedOffer
+        );
+        if (Platform.OS === "android" && !request.android.subscriptionOffers) {
+          console.warn(
+            "No offerToken found for subscription, proceeding without subscriptionOffers"
+          );
+        }
+
+        if (offer) {
+          this.pendingOffers.set(productId, offer);
+        }
+
         await requestPurchase({
-          request: {
-            ios: { sku: productId },
-            android: androidRequest,
-          },
+          request,
           type: "subs",
         });
       } else {
@@ -301,31 +500,87 @@ class InAppPurchaseManager implements PurchaseManager {
       return result;
     } catch (error) {
       console.error("Error purchasing product:", error);
+      return this.toFailedPurchase(productId, error);
+    }
+  }
 
-      // Clean up pending purchase
-      this.pendingPurchases.delete(productId);
+  /**
+   * Buy a pack of credits. Resolves once the server has credited it, or
+   * with pendingValidation when the store took payment but the receipt
+   * couldn't be checked yet.
+   */
+  async purchaseConsumable(
+    productId: string
+  ): Promise<ConsumablePurchaseResult> {
+    if (!this.isInitialized) {
+      return { success: false, error: "In-app purchases not initialized" };
+    }
+    if (!getConsumableProduct(productId)) {
+      return { success: false, error: "Unknown product" };
+    }
 
-      if (error instanceof Error) {
-        if (
-          error.message.includes("cancelled") ||
-          error.message.includes("canceled")
-        ) {
-          return {
+    try {
+      const purchasePromise = this.waitForPurchase(productId);
+      await requestPurchase({
+        request: {
+          ios: {
+            sku: productId,
+            andDangerouslyFinishTransactionAutomatically: false,
+          },
+          android: { skus: [productId] },
+        },
+        type: "inapp",
+      });
+      return await purchasePromise;
+    } catch (error) {
+      console.error("Error purchasing consumable:", error);
+      return this.toFailedPurchase(productId, error);
+    }
+  }
+
+  private waitForPurchase(
+    productId: string
+  ): Promise<ConsumablePurchaseResult> {
+    return new Promise<ConsumablePurchaseResult>((resolve) => {
+      this.pendingPurchases.set(productId, resolve);
+
+      // Set timeout to prevent hanging
+      setTimeout(() => {
+        if (this.pendingPurchases.has(productId)) {
+          this.pendingPurchases.delete(productId);
+          resolve({
             success: false,
-            cancelled: true,
-          };
+            error: "Purchase timeout",
+          });
         }
+      }, 60000); // 60 second timeout
+    });
+  }
+
+  private toFailedPurchase(productId: string, error: unknown): PurchaseResult {
+    // Clean up pending purchase
+    this.pendingPurchases.delete(productId);
+
+    if (error instanceof Error) {
+      if (
+        error.message.includes("cancelled") ||
+        error.message.includes("canceled")
+      ) {
         return {
           success: false,
-          error: error.message,
+          cancelled: true,
         };
       }
-
       return {
         success: false,
-        error: "Purchase failed",
+        error: error.message,
       };
     }
+
+    return {
+      success: false,
+      error: "Purchase failed",
+    };
   }
 
   /**
@@ -384,28 +639,40 @@ class InAppPurchaseManager implements PurchaseManager {
   }
 
   /**
-   * Validate receipt with platform stores
+   * Validate a consumable's receipt with the server, which checks it with
+   * the store and credits the wallet. Client-side validation would need the
+   * store secrets in the app, so it isn't done here. Only an explicit
+   * refusal is "rejected"; anything else is retried later.
    */
   async validateReceipt(
-    receiptData: string,
-    isProduction: boolean = true
-  ): Promise<boolean> {
+    purchase: Purchase | SubscriptionPurchase
+  ): Promise<JournalValidationOutcome["status"]> {
+    const requestedAt = Date.now();
     try {
-      if (Platform.OS === "ios") {
-        const res = await validateReceipt("com.aroosi.premium.monthly");
-        // iOS result has isValid
-        return (res as any)?.isValid === true;
-      } else {
-        // Android requires productId + packageName + accessToken; use server-side validation in production
-        // Here we fallback to true to avoid exposing accessToken in app
-        console.warn(
-          "validateReceipt: Use server-side validation on Android. Skipping client validation."
-        );
-        return true;
+      const { purchaseToken, receiptData } = this.extractPurchaseData(purchase);
+      const response = await apiClient.validateConsumablePurchase({
+        platform: Platform.OS === "ios" ? "ios" : "android",
+        productId: purchase.productId,
+        transactionId: purchase.id,
+        purchaseToken,
+        receiptData,
+      });
+      const data = response.data;
+      // Same rule as validateJournalEntry: only the server's verdict is
+      // final, never a failed request
+      if (response.success && data?.success && data.valid === false) {
+        console.warn("Consumable receipt was rejected:", data.message);
+        return "rejected";
+      }
+      if (!response.success || !data) {
+        console.warn("Consumable receipt was not accepted:", response.error);
+        return "retry";
       }
+      await creditLedger.applyValidation(data, requestedAt);
+      return "validated";
     } catch (error) {
       console.error("Error validating receipt:", error);
-      return false;
+      return "retry";
     }
   }
 
@@ -433,6 +700,7 @@ class InAppPurchaseManager implements PurchaseManager {
 
       // Clear pending purchases
       this.pendingPurchases.clear();
+      this.pendingOffers.clear();
 
       // Remove listeners
       if (this.purchaseUpdateSubscription) {
@@ -0,0 +1,369 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { MessagingSecurityService } from "../services/messagingSecurityService";
+import { ValidationResult } from "../types/messaging";
+import { apiClient } from "./api";
+import { getUrlHostname } from "./messageUtils";
+
+export interface LinkPreviewData {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+}
+
+/**
+ * Turns a URL into preview metadata. Whatever fetches the page sees the
+ * requester's IP address, so the default goes through our server.
+ */
+export type LinkPreviewResolver = (
+  url: string
+) => Promise<LinkPreviewData | null>;
+
+export type LinkPreviewResult =
+  | { status: "ready"; url: string; hostname: string; preview: LinkPreviewData }
+  | { status: "flagged"; url: string; hostname: string; reason: string }
+  | { status: "unavailable"; url: string; hostname: string };
+
+export interface LinkPreviewServiceOptions {
+  storageKey?: string;
+  ttl?: number; // in milliseconds
+  failureTtl?: number; // how long to remember links with no preview
+  maxEntries?: number;
+  flushDelay?: number; // in milliseconds
+  resolver?: LinkPreviewResolver;
+  security?: { validateLink(url: string): ValidationResult };
+}
+
+interface CachedPreview {
+  preview: LinkPreviewData | null;
+  fetchedAt: number;
+}
+
+interface StoredPreviewCache {
+  version: number;
+  entries: Record<string, CachedPreview>;
+}
+
+const CACHE_VERSION = 1;
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_HTML_LENGTH = 200 * 1024;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    if (code[0] === "#") {
+      const point =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff
+        ? String.fromCodePoint(point)
+        : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanText(value: string | undefined, maxLength: number) {
+  if (!value) return undefined;
+  const text = decodeHtmlEntities(value).replace(/\s+/g, " ").trim();
+  if (!text) return undefined;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function resolveUrl(value: string | undefined, base: string) {
+  if (!value) return undefined;
+  try {
+    const resolved = new URL(decodeHtmlEntities(value.trim()), base).href;
+    return /^https?:\/\//i.test(resolved) ? resolved : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read Open Graph / Twitter card / <title> metadata out of a page
+ */
+export function parseLinkMetadata(
+  html: string,
+  url: string
+): LinkPreviewData | null {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attr = (name: string) =>
+      new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i").exec(tag);
+    const key = attr("property") || attr("name");
+    const content = attr("content");
+    if (!key || !content) continue;
+
+    const name = (key[2] ?? key[3]).toLowerCase();
+    if (!(name in meta)) meta[name] = content[2] ?? content[3];
+  }
+
+  const titleTag = /<title[^>]*>([^<]*)<\/title>/i.exec(html)?.[1];
+  const title = cleanText(
+    meta["og:title"] || meta["twitter:title"] || titleTag,
+    MAX_TITLE_LENGTH
+  );
+  const description = cleanText(
+    meta["og:description"] ||
+      meta["twitter:description"] ||
+      meta["description"],
+    MAX_DESCRIPTION_LENGTH
+  );
+  const imageUrl = resolveUrl(
+    meta["og:image"] || meta["og:image:url"] || meta["twitter:image"],
+    url
+  );
+  const siteName = cleanText(meta["og:site_name"], MAX_TITLE_LENGTH);
+
+  if (!title && !description && !imageUrl) return null;
+  return { url, title, description, imageUrl, siteName };
+}
+
+/**
+ * Fetch the page from the device and parse its metadata. The site sees the
+ * device's IP address, so this is only for pages we already trust.
+ */
+export const openGraphResolver: LinkPreviewResolver = async (url) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "text/html,application/xhtml+xml" },
+      signal: controller.signal,
+    });
+    const contentType = response.headers.get("content-type") || "";
+    if (!response.ok || !contentType.includes("html")) return null;
+
+    const html = (await response.text()).slice(0, MAX_HTML_LENGTH);
+    return parseLinkMetadata(html, response.url || url);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Default resolver: the server fetches the page and returns its metadata
+ */
+export const proxyResolver: LinkPreviewResolver = async (url) => {
+  const response = await apiClient.getLinkPreview(url);
+  if (!response.success) {
+    throw new Error(response.error?.message || "Link preview request failed");
+  }
+  return response.data ?? null;
+};
+
+/**
+ * Cached link previews for chat bubbles. Links are checked against the
+ * security content rules first; flagged links are never fetched.
+ */
+export class LinkPreviewService {
+  private options: Required<Omit<LinkPreviewServiceOptions, "security">>;
+  private security: LinkPreviewServiceOptions["security"];
+  private entries = new Map<string, CachedPreview>();
+  private inFlight = new Map<string, Promise<LinkPreviewResult>>();
+  private hydratePromise: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: LinkPreviewServiceOptions = {}) {
+    this.options = {
+      storageKey: options.storageKey || "link_preview_cache",
+      ttl: options.ttl || 7 * 24 * 60 * 60 * 1000, // 7 days
+      failureTtl: options.failureTtl || 6 * 60 * 60 * 1000, // 6 hours
+      maxEntries: options.maxEntries || 500,
+      flushDelay: options.flushDelay ?? 1000,
+      resolver: options.resolver || proxyResolver,
+    };
+    this.security = options.security;
+  }
+
+  /**
+   * Load the persisted cache; safe to call repeatedly
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydratePromise) {
+      this.hydratePromise = this.load();
+    }
+    return this.hydratePromise;
+  }
+
+  setResolver(resolver: LinkPreviewResolver): void {
+    this.options.resolver = resolver;
+  }
+
+  /**
+   * Result available without waiting, for a link's first render
+   */
+  getCached(url: string): LinkPreviewResult | null {
+    const flagged = this.checkLink(url);
+    if (flagged) return flagged;
+
+    const entry = this.entries.get(url);
+    if (!entry || this.isStale(entry)) return null;
+    return this.toResult(url, entry.preview);
+  }
+
+  async getPreview(url: string): Promise<LinkPreviewResult> {
+    const flagged = this.checkLink(url);
+    if (flagged) return flagged;
+
+    await this.hydrate();
+    const entry = this.entries.get(url);
+    if (entry && !this.isStale(entry)) {
+      return this.toResult(url, entry.preview);
+    }
+
+    // Bubbles showing the same link share one fetch
+    let pending = this.inFlight.get(url);
+    if (!pending) {
+      pending = this.fetchPreview(url).finally(() => this.inFlight.delete(url));
+      this.inFlight.set(url, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Write pending changes to storage immediately
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    try {
+      const data: StoredPreviewCache = {
+        version: CACHE_VERSION,
+        entries: Object.fromEntries(this.entries),
+      };
+      await AsyncStorage.setItem(this.options.storageKey, JSON.stringify(data));
+    } catch (error) {
+      console.error("LinkPreviewService: Failed to flush:", error);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    AsyncStorage.removeItem(this.options.storageKey).catch((error) =>
+      console.error("LinkPreviewService: Failed to clear:", error)
+    );
+  }
+
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  private checkLink(url: string): LinkPreviewResult | null {
+    const hostname = getUrlHostname(url) || url;
+    const validation = this.security?.validateLink(url);
+    if (validation && !validation.valid) {
+      return {
+        status: "flagged",
+        url,
+        hostname,
+        reason: validation.error || "Link flagged as unsafe",
+      };
+    }
+    return null;
+  }
+
+  private async fetchPreview(url: string): Promise<LinkPreviewResult> {
+    let preview: LinkPreviewData | null = null;
+    try {
+      preview = await this.options.resolver(url);
+    } catch (error) {
+      console.warn("LinkPreviewService: Failed to resolve preview:", error);
+    }
+
+    // Redirect targets and images are loaded too, so they pass the same rules
+    if (preview && this.security) {
+      if (!this.security.validateLink(preview.url).valid) {
+        preview = null;
+      } else if (
+        preview.imageUrl &&
+        !this.security.validateLink(preview.imageUrl).valid
+      ) {
+        preview = { ...preview, imageUrl: undefined };
+      }
+    }
+
+    this.entries.set(url, { preview, fetchedAt: Date.now() });
+    this.enforceLimit();
+    this.scheduleFlush();
+    return this.toResult(url, preview);
+  }
+
+  private toResult(
+    url: string,
+    preview: LinkPreviewData | null
+  ): LinkPreviewResult {
+    const hostname = getUrlHostname(url) || url;
+    return preview
+      ? { status: "ready", url, hostname, preview }
+      : { status: "unavailable", url, hostname };
+  }
+
+  private isStale(entry: CachedPreview): boolean {
+    const ttl = entry.preview ? this.options.ttl : this.options.failureTtl;
+    return Date.now() - entry.fetchedAt > ttl;
+  }
+
+  private enforceLimit(): void {
+    if (this.entries.size <= this.options.maxEntries) return;
+
+    const oldest = Array.from(this.entries.entries())
+      .sort((a, b) => a[1].fetchedAt - b[1].fetchedAt)
+      .slice(0, this.entries.size - this.options.maxEntries);
+    oldest.forEach(([url]) => this.entries.delete(url));
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.options.flushDelay);
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(this.options.storageKey);
+      const stored = raw ? (JSON.parse(raw) as StoredPreviewCache) : null;
+      if (stored?.version !== CACHE_VERSION) return;
+
+      Object.entries(stored.entries).forEach(([url, entry]) => {
+        // Keep anything fetched before hydration finished
+        if (!this.entries.has(url) && !this.isStale(entry)) {
+          this.entries.set(url, entry);
+        }
+      });
+    } catch (error) {
+      console.error("LinkPreviewService: Failed to load cache:", error);
+    }
+  }
+}
+
+export const linkPreviewService = new LinkPreviewService({
+  security: new MessagingSecurityService({
+    enableRateLimit: false,
+    enableAuthValidation: false,
+    enableRelationshipValidation: false,
+  }),
+});
@@ -1,4 +1,5 @@
 import { Message } from "../types/messaging";
+import { isMessageExpired } from "./disappearingMessages";
 
 export interface SearchResult {
   message: Message;
@@ -16,71 +17,86 @@ export interface SearchOptions {
   contextLength?: number;
 }
 
+/**
+ * Common words that carry no meaning on their own in a query
+ */
+export const SEARCH_STOP_WORDS = new Set([
+  "the",
+  "a",
+  "an",
+  "and",
+  "or",
+  "but",
+  "in",
+  "on",
+  "at",
+  "to",
+  "for",
+  "of",
+  "with",
+  "by",
+  "is",
+  "are",
+  "was",
+  "were",
+  "be",
+  "been",
+  "being",
+  "have",
+  "has",
+  "had",
+  "do",
+  "does",
+  "did",
+  "will",
+  "would",
+  "could",
+  "should",
+  "may",
+  "might",
+  "can",
+  "must",
+  "shall",
+  "i",
+  "you",
+  "he",
+  "she",
+  "it",
+  "we",
+  "they",
+  "me",
+  "him",
+  "her",
+  "us",
+  "them",
+  "my",
+  "your",
+  "his",
+  "her",
+  "its",
+  "our",
+  "their",
+  "this",
+  "that",
+  "these",
+  "those",
+]);
+
+/**
+ * The text a message is found by: what was typed, or for voice messages the
+ * transcript
+ */
+export function getSearchableText(
+  message: Pick<Message, "text" | "transcript">
+): string {
+  return message.text || message.transcript || "";
+}
+
 /**
  * Advanced message search utility with highlighting and scoring
  */
 export class MessageSearchEngine {
-  private stopWords = new Set([
-    "the",
-    "a",
-    "an",
-    "and",
-    "or",
-    "but",
-    "in",
-    "on",
-    "at",
-    "to",
-    "for",
-    "of",
-    "with",
-    "by",
-    "is",
-    "are",
-    "was",
-    "were",
-    "be",
-    "been",
-    "being",
-    "have",
-    "has",
-    "had",
-    "do",
-    "does",
-    "did",
-    "will",
-    "would",
-    "could",
-    "should",
-    "may",
-    "might",
-    "can",
-    "must",
-    "shall",
-    "i",
-    "you",
-    "he",
-    "she",
-    "it",
-    "we",
-    "they",
-    "me",
-    "him",
-    "her",
-    "us",
-    "them",
-    "my",
-    "your",
-    "his",
-    "her",
-    "its",
-    "our",
-    "their",
-    "this",
-    "that",
-    "these",
-    "those",
-  ]);
+  private stopWords = SEARCH_STOP_WORDS;
 
   /**
    * Search messages with advanced options
@@ -104,13 +120,15 @@ export class MessageSearchEngine {
     const normalizedQuery = caseSensitive ? query : query.toLowerCase();
     const queryTerms = this.tokenize(normalizedQuery);
     const results: SearchResult[] = [];
+    const now = Date.now();
 
     for (const message of messages) {
-      if (!message.text) continue;
+      const text = getSearchableText(message);
+      if (!text || message.isSystemMessage) continue;
+      // Disappeared messages must not resurface through search
+      if (isMessageExpired(message, now)) continue;
 
-      const messageText = caseSensitive
-        ? message.text
-        : message.text.toLowerCase();
+      const messageText = caseSensitive ? text : text.toLowerCase();
       const searchResult = this.searchInMessage(
         message,
         messageText,
@@ -366,31 +384,38 @@ export class MessageSearchEngine {
    * Calculate Levenshtein distance between two strings
    */
   private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1)
-      .fill(null)
-      .map(() => Array(str1.length + 1).fill(null));
+    return levenshteinDistance(str1, str2);
+  }
+}
 
-    for (let i = 0; i <= str1.length; i++) {
-      matrix[0][i] = i;
-    }
+/**
+ * Levenshtein (edit) distance between two strings
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1)
+    .fill(null)
+    .map(() => Array(str1.length + 1).fill(null));
 
-    for (let j = 0; j <= str2.length; j++) {
-      matrix[j][0] = j;
-    }
+  for (let i = 0; i <= str1.length; i++) {
+    matrix[0][i] = i;
+  }
 
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1, // deletion
-          matrix[j - 1][i] + 1, // insertion
-          matrix[j - 1][i - 1] + indicator // substitution
-        );
-      }
-    }
+  for (let j = 0; j <= str2.length; j++) {
+    matrix[j][0] = j;
+  }
 
-    return matrix[str2.length][str1.length];
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1, // deletion
+        matrix[j - 1][i] + 1, // insertion
+        matrix[j - 1][i - 1] + indicator // substitution
+      );
+    }
   }
+
+  return matrix[str2.length][str1.length];
 }
 
 /**
@@ -437,8 +462,9 @@ export function generateSearchSuggestions(
   const searchEngine = new MessageSearchEngine();
 
   // Count word frequency
+  const now = Date.now();
   for (const message of messages) {
-    if (!message.text) continue;
+    if (!message.text || isMessageExpired(message, now)) continue;
 
     const tokens = message.text
       .toLowerCase()
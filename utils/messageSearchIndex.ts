@@ -0,0 +1,595 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Message } from "../types/message";
+import { isMessageExpired } from "./disappearingMessages";
+import {
+  SEARCH_STOP_WORDS,
+  getSearchableText,
+  levenshteinDistance,
+} from "./messageSearch";
+import { persistentMessageStore } from "./persistentMessageStore";
+
+/**
+ * The parts of a message the index keeps, enough to show a result and jump
+ * to it without loading the conversation
+ */
+export type IndexedMessage = Pick<
+  Message,
+  | "_id"
+  | "conversationId"
+  | "fromUserId"
+  | "toUserId"
+  | "text"
+  | "transcript"
+  | "type"
+  | "createdAt"
+  | "expiresAt"
+>;
+
+export interface GlobalSearchFilters {
+  conversationId?: string;
+  fromUserId?: string;
+  notFromUserId?: string; // e.g. "from them" in 1:1 chats
+  after?: number; // inclusive, epoch ms
+  before?: number; // exclusive, epoch ms
+}
+
+export interface GlobalSearchOptions extends GlobalSearchFilters {
+  fuzzy?: boolean;
+  maxResults?: number;
+  contextLength?: number;
+}
+
+export interface GlobalSearchResult {
+  message: IndexedMessage;
+  snippet: string;
+  highlightRanges: Array<{ start: number; end: number }>;
+  score: number;
+}
+
+export interface ConversationSearchGroup {
+  conversationId: string;
+  results: GlobalSearchResult[];
+  topScore: number;
+}
+
+export interface MessageSearchIndexOptions {
+  storageKey?: string;
+  maxDocuments?: number;
+  flushDelay?: number; // in milliseconds
+  // Where to build the index from the first time it is hydrated
+  backfillFrom?: {
+    hydrate(): Promise<void>;
+    getConversationIds(): string[];
+    readConversation(conversationId: string): Promise<Message[]>;
+  };
+}
+
+interface StoredSearchIndex {
+  version: number;
+  documents: IndexedMessage[];
+}
+
+// Version 2 stopped indexing end-to-end encrypted messages
+const INDEX_VERSION = 2;
+// Conversations read per backfill step, so the whole store is never in memory
+const BACKFILL_BATCH_SIZE = 5;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercased word tokens. Unicode-aware so Urdu, Hindi and other non-Latin
+ * scripts are searchable.
+ */
+export function tokenizeForSearch(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Typos tolerated for a query term of this length
+ */
+function allowedEdits(term: string): number {
+  if (term.length >= 7) return 2;
+  if (term.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Inverted index over every cached message, across all conversations.
+ *
+ * Messages are added as they are written to the message cache, so the index
+ * grows as the user browses and syncs. Postings live in memory and are
+ * rebuilt from the persisted documents on hydrate; only the documents are
+ * written to disk. Queries match each term exactly, by prefix, or (when
+ * fuzzy) within a small edit distance, and every non-stop-word term must
+ * match. Disappeared messages never come back in results, and end-to-end
+ * encrypted messages are never indexed, so their plaintext isn't copied
+ * to disk a second time.
+ */
+export class MessageSearchIndex {
+  private documents = new Map<string, IndexedMessage>();
+  private postings = new Map<string, Set<string>>();
+  private byConversation = new Map<string, Set<string>>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private hydrated: Promise<void> | null = null;
+  // Bumped by clear(), so loads and backfills already running stop
+  private generation = 0;
+
+  private readonly options: Required<
+    Omit<MessageSearchIndexOptions, "backfillFrom">
+  >;
+  private readonly backfillFrom: MessageSearchIndexOptions["backfillFrom"];
+
+  constructor(options: MessageSearchIndexOptions = {}) {
+    this.options = {
+      storageKey: options.storageKey || "message_search_index",
+      maxDocuments: options.maxDocuments || 20000,
+      flushDelay: options.flushDelay ?? 1000,
+    };
+    this.backfillFrom = options.backfillFrom;
+  }
+
+  /**
+   * Load the persisted index, building it from the message store the first
+   * time. Safe to call repeatedly.
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydrated) {
+      this.hydrated = this.load();
+    }
+    return this.hydrated;
+  }
+
+  /**
+   * Index a conversation's messages as written to the cache. The list is
+   * treated as a contiguous window: indexed messages inside its time range
+   * that are missing from it were deleted and are dropped.
+   */
+  indexConversation(conversationId: string, messages: Message[]): void {
+    const searchable = messages.filter(
+      // Unconfirmed sends are indexed once the server copy arrives
+      (m) =>
+        m._id &&
+        !m.isSystemMessage &&
+        !m.encrypted &&
+        m.status !== "pending" &&
+        m.status !== "failed"
+    );
+    const present = new Set(searchable.map((m) => m._id));
+    const times = messages.map((m) => m.createdAt || 0);
+    const oldest = times.length ? Math.min(...times) : Infinity;
+    const newest = times.length ? Math.max(...times) : -Infinity;
+
+    let changed = false;
+    this.byConversation.get(conversationId)?.forEach((id) => {
+      const doc = this.documents.get(id)!;
+      const createdAt = doc.createdAt || 0;
+      if (!present.has(id) && createdAt >= oldest && createdAt <= newest) {
+        this.removeDocument(id);
+        changed = true;
+      }
+    });
+
+    for (const message of searchable) {
+      if (this.upsert(message)) {
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.enforceLimit();
+      this.scheduleFlush();
+    }
+  }
+
+  removeMessage(messageId: string): void {
+    if (this.documents.has(messageId)) {
+      this.removeDocument(messageId);
+      this.scheduleFlush();
+    }
+  }
+
+  removeConversation(conversationId: string): void {
+    const ids = this.byConversation.get(conversationId);
+    if (!ids?.size) return;
+    Array.from(ids).forEach((id) => this.removeDocument(id));
+    this.scheduleFlush();
+  }
+
+  /**
+   * Search every indexed conversation, best match first
+   */
+  search(
+    query: string,
+    options: GlobalSearchOptions = {}
+  ): GlobalSearchResult[] {
+    const { fuzzy = true, maxResults = 100, contextLength = 40 } = options;
+
+    const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+    const meaningful = queryTerms.filter((t) => !SEARCH_STOP_WORDS.has(t));
+    const terms = meaningful.length > 0 ? meaningful : queryTerms;
+    if (terms.length === 0) return [];
+
+    // Every term has to match; a document's score is the sum of its best
+    // match per term
+    let scores: Map<string, number> | null = null;
+    const matchedTokens = new Set<string>();
+    for (const term of terms) {
+      const termScores = new Map<string, number>();
+      this.expandTerm(term, fuzzy).forEach((weight, token) => {
+        matchedTokens.add(token);
+        this.postings.get(token)?.forEach((id) => {
+          termScores.set(id, Math.max(termScores.get(id) || 0, weight));
+        });
+      });
+
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      termScores.forEach((weight, id) => {
+        if (!previous || previous.has(id)) {
+          scores!.set(id, (previous?.get(id) || 0) + weight * 10);
+        }
+      });
+      if (scores.size === 0) return [];
+    }
+
+    const now = Date.now();
+    const phrase = query.trim().toLowerCase();
+    const results: GlobalSearchResult[] = [];
+    scores!.forEach((score, id) => {
+      const doc = this.documents.get(id)!;
+      if (!this.matchesFilters(doc, options, now)) return;
+
+      const text = getSearchableText(doc);
+      let total = score;
+      if (terms.length > 1 && text.toLowerCase().includes(phrase)) {
+        total += 20;
+      }
+      // Same recency boost as in-conversation search
+      const days = (now - (doc.createdAt || 0)) / (1000 * 60 * 60 * 24);
+      total += Math.max(0, 10 - days * 0.1);
+
+      results.push({
+        message: { ...doc },
+        ...this.buildSnippet(text, matchedTokens, contextLength),
+        score: total,
+      });
+    });
+
+    results.sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.message.createdAt || 0) - (a.message.createdAt || 0)
+    );
+    return results.slice(0, maxResults);
+  }
+
+  /**
+   * Search results grouped by conversation, best conversation first
+   */
+  searchGrouped(
+    query: string,
+    options: GlobalSearchOptions = {}
+  ): ConversationSearchGroup[] {
+    const groups = new Map<string, ConversationSearchGroup>();
+    for (const result of this.search(query, options)) {
+      const { conversationId } = result.message;
+      const group = groups.get(conversationId);
+      if (group) {
+        group.results.push(result);
+      } else {
+        groups.set(conversationId, {
+          conversationId,
+          results: [result],
+          topScore: result.score,
+        });
+      }
+    }
+    return Array.from(groups.values()).sort((a, b) => b.topScore - a.topScore);
+  }
+
+  getStats(): { documents: number; terms: number; conversations: number } {
+    return {
+      documents: this.documents.size,
+      terms: this.postings.size,
+      conversations: this.byConversation.size,
+    };
+  }
+
+  /**
+   * Write pending changes to storage immediately
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.hydrate();
+
+    try {
+      const now = Date.now();
+      const data: StoredSearchIndex = {
+        version: INDEX_VERSION,
+        documents: Array.from(this.documents.values()).filter(
+          (doc) => !isMessageExpired(doc as Message, now)
+        ),
+      };
+      await AsyncStorage.setItem(this.options.storageKey, JSON.stringify(data));
+    } catch (error) {
+      console.error("MessageSearchIndex: Failed to flush:", error);
+    }
+  }
+
+  clear(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.generation++;
+    // Start over empty rather than reloading or backfilling the old data
+    this.hydrated = Promise.resolve();
+    this.documents.clear();
+    this.postings.clear();
+    this.byConversation.clear();
+    AsyncStorage.removeItem(this.options.storageKey).catch((error) =>
+      console.error("MessageSearchIndex: Failed to clear:", error)
+    );
+  }
+
+  /**
+   * Stop timers and release memory without touching persisted data
+   */
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.documents.clear();
+    this.postings.clear();
+    this.byConversation.clear();
+  }
+
+  private async load(): Promise<void> {
+    const generation = this.generation;
+    let stored: StoredSearchIndex | null = null;
+    try {
+      const raw = await AsyncStorage.getItem(this.options.storageKey);
+      stored = raw ? (JSON.parse(raw) as StoredSearchIndex) : null;
+    } catch (error) {
+      console.error("MessageSearchIndex: Failed to load index:", error);
+    }
+
+    if (generation !== this.generation) return;
+
+    if (stored?.version === INDEX_VERSION) {
+      const now = Date.now();
+      // Keep anything indexed before hydration finished
+      stored.documents
+        .filter(
+          (doc) =>
+            !this.documents.has(doc._id) &&
+            !isMessageExpired(doc as Message, now)
+        )
+        .forEach((doc) => this.addDocument(doc));
+      return;
+    }
+
+    // Search works on what's indexed so far while older history fills in
+    this.backfill(generation);
+  }
+
+  /**
+   * Index the message store a few conversations at a time, yielding between
+   * batches so startup isn't held up
+   */
+  private async backfill(generation: number): Promise<void> {
+    if (!this.backfillFrom) return;
+
+    try {
+      await this.backfillFrom.hydrate();
+      const ids = this.backfillFrom.getConversationIds();
+      for (let i = 0; i < ids.length; i += BACKFILL_BATCH_SIZE) {
+        for (const id of ids.slice(i, i + BACKFILL_BATCH_SIZE)) {
+          const messages = await this.backfillFrom.readConversation(id);
+          if (generation !== this.generation) return;
+          this.indexConversation(id, messages);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    } catch (error) {
+      console.error("MessageSearchIndex: Failed to backfill:", error);
+    }
+    if (generation === this.generation) {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Index tokens matching a query term, with a weight for how well they match
+   */
+  private expandTerm(term: string, fuzzy: boolean): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(term)) {
+      matches.set(term, 1);
+    }
+
+    const maxEdits = fuzzy ? allowedEdits(term) : 0;
+    this.postings.forEach((_ids, token) => {
+      if (token === term) return;
+      if (token.startsWith(term)) {
+        matches.set(token, 0.8);
+        return;
+      }
+      if (maxEdits === 0 || Math.abs(token.length - term.length) > maxEdits) {
+        return;
+      }
+      const distance = levenshteinDistance(term, token);
+      if (distance <= maxEdits) {
+        matches.set(token, 0.6 * (1 - distance / (term.length + 1)));
+      }
+    });
+
+    return matches;
+  }
+
+  private matchesFilters(
+    doc: IndexedMessage,
+    filters: GlobalSearchFilters,
+    now: number
+  ): boolean {
+    const createdAt = doc.createdAt || 0;
+    return (
+      !isMessageExpired(doc as Message, now) &&
+      (!filters.conversationId ||
+        doc.conversationId === filters.conversationId) &&
+      (!filters.fromUserId || doc.fromUserId === filters.fromUserId) &&
+      (!filters.notFromUserId || doc.fromUserId !== filters.notFromUserId) &&
+      (filters.after === undefined || createdAt >= filters.after) &&
+      (filters.before === undefined || createdAt < filters.before)
+    );
+  }
+
+  /**
+   * A window of text around the first match, with every matched word
+   * highlighted
+   */
+  private buildSnippet(
+    text: string,
+    matchedTokens: Set<string>,
+    contextLength: number
+  ): Pick<GlobalSearchResult, "snippet" | "highlightRanges"> {
+    const ranges: Array<{ start: number; end: number }> = [];
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+      if (matchedTokens.has(match[0].toLowerCase())) {
+        ranges.push({
+          start: match.index!,
+          end: match.index! + match[0].length,
+        });
+      }
+    }
+
+    const first = ranges[0];
+    if (!first) {
+      return { snippet: text.slice(0, contextLength * 2), highlightRanges: [] };
+    }
+
+    const start = Math.max(0, first.start - contextLength);
+    const end = Math.min(text.length, first.end + contextLength * 2);
+    const prefix = start > 0 ? "…" : "";
+    const snippet =
+      prefix + text.slice(start, end) + (end < text.length ? "…" : "");
+    const offset = prefix.length - start;
+
+    return {
+      snippet,
+      highlightRanges: ranges
+        .filter((r) => r.start >= start && r.end <= end)
+        .map((r) => ({ start: r.start + offset, end: r.end + offset })),
+    };
+  }
+
+  /**
+   * Add or refresh a message; returns whether anything changed
+   */
+  private upsert(message: Message): boolean {
+    const existing = this.documents.get(message._id);
+    if (
+      existing &&
+      existing.text === message.text &&
+      existing.transcript === message.transcript &&
+      existing.expiresAt === message.expiresAt
+    ) {
+      return false;
+    }
+    const searchable = getSearchableText(message);
+    if (!existing && !searchable) {
+      return false;
+    }
+
+    if (existing) {
+      this.removeDocument(message._id);
+    }
+    if (searchable) {
+      this.addDocument({
+        _id: message._id,
+        conversationId: message.conversationId,
+        fromUserId: message.fromUserId,
+        toUserId: message.toUserId,
+        text: message.text,
+        transcript: message.transcript,
+        type: message.type,
+        createdAt: message.createdAt,
+        expiresAt: message.expiresAt,
+      });
+    }
+    return true;
+  }
+
+  private addDocument(doc: IndexedMessage): void {
+    this.documents.set(doc._id, doc);
+    let ids = this.byConversation.get(doc.conversationId);
+    if (!ids) {
+      ids = new Set();
+      this.byConversation.set(doc.conversationId, ids);
+    }
+    ids.add(doc._id);
+
+    new Set(tokenizeForSearch(getSearchableText(doc))).forEach((token) => {
+      let postings = this.postings.get(token);
+      if (!postings) {
+        postings = new Set();
+        this.postings.set(token, postings);
+      }
+      postings.add(doc._id);
+    });
+  }
+
+  private removeDocument(id: string): void {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+
+    this.documents.delete(id);
+    const ids = this.byConversation.get(doc.conversationId);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      this.byConversation.delete(doc.conversationId);
+    }
+
+    new Set(tokenizeForSearch(getSearchableText(doc))).forEach((token) => {
+      const postings = this.postings.get(token);
+      postings?.delete(id);
+      if (postings?.size === 0) {
+        this.postings.delete(token);
+      }
+    });
+  }
+
+  /**
+   * Drop the oldest messages once over the document budget
+   */
+  private enforceLimit(): void {
+    const overflow = this.documents.size - this.options.maxDocuments;
+    if (overflow <= 0) return;
+
+    Array.from(this.documents.values())
+      .sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0))
+      .slice(0, overflow)
+      .forEach((doc) => this.removeDocument(doc._id));
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.options.flushDelay);
+  }
+}
+
+/**
+ * Global search index instance, built from the on-device message store
+ */
+export const messageSearchIndex = new MessageSearchIndex({
+  backfillFrom: persistentMessageStore,
+});
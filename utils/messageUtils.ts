@@ -35,6 +35,13 @@ export function truncateMessage(text: string, maxLength: number = 50): string {
   return text.substring(0, maxLength) + "...";
 }
 
+// Client message ID: one per send, reused by every retry of it
+export function generateClientMessageId(): string {
+  return `cm_${Date.now().toString(36)}_${Math.random()
+    .toString(36)
+    .slice(2, 10)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
 // Conversation ID utilities
 export function createConversationId(userId1: string, userId2: string): string {
   const sortedIds = [userId1, userId2].sort();
@@ -63,6 +70,57 @@ export function getOtherUserId(
   return parsed.user1 === currentUserId ? parsed.user2 : parsed.user1;
 }
 
+/**
+ * The other participant of a 1:1 conversation as returned by the API, with
+ * the best display name available
+ */
+export function getOtherParticipantInfo(
+  conversation: any,
+  currentUserId?: string
+): { id?: string; name?: string; initial: string } {
+  // Participants array may be string[] of userIds
+  const participants: any[] = Array.isArray(conversation?.participants)
+    ? conversation.participants
+    : [];
+  const otherId: any = participants.find((p) => p && p !== currentUserId);
+
+  // Profiles array might carry names
+  const profiles: any[] = Array.isArray(conversation?.profiles)
+    ? conversation.profiles
+    : [];
+  const profileForOther = profiles.find(
+    (p) => p?.userId === otherId || p?.id === otherId
+  );
+  const nameFromProfile = profileForOther?.fullName || profileForOther?.name;
+
+  // Some APIs may embed a 'partner' object
+  const partner = conversation?.partner || conversation?.otherParticipant;
+  const partnerName =
+    partner?.fullName || partner?.name || partner?.email?.split("@")[0];
+
+  const name: string | undefined =
+    typeof nameFromProfile === "string"
+      ? nameFromProfile
+      : typeof partnerName === "string"
+      ? partnerName
+      : typeof otherId === "string"
+      ? otherId
+      : undefined;
+
+  const initial =
+    typeof name === "string" && name.length > 0
+      ? name.trim().charAt(0).toUpperCase()
+      : typeof otherId === "string" && otherId.length > 0
+      ? otherId.trim().charAt(0).toUpperCase()
+      : "?";
+
+  return {
+    id: typeof otherId === "string" ? otherId : undefined,
+    name,
+    initial,
+  };
+}
+
 // Message grouping utilities
 export function groupMessagesByDate(
   messages: Message[]
@@ -210,6 +268,10 @@ export function normalizeMessage(message: any): Message {
     editedAt: message.editedAt,
     replyToId: message.replyToId,
     isSystemMessage: message.isSystemMessage,
+    clientMessageId: message.clientMessageId,
+    encrypted: message.encrypted,
+    expiresAt: message.expiresAt,
+    systemEvent: message.systemEvent,
   };
 }
 
@@ -231,6 +293,8 @@ export function normalizeConversation(conversation: any): Conversation {
     title: conversation.title,
     description: conversation.description,
     isGroup: conversation.isGroup || false,
+    disappearingTimer: conversation.disappearingTimer || "off",
+    disappearingTimerSetAt: conversation.disappearingTimerSetAt,
     createdAt: conversation.createdAt || Date.now(),
     updatedAt:
       conversation.updatedAt || conversation.lastActivity || Date.now(),
@@ -246,6 +310,51 @@ export function searchMessages(messages: Message[], query: string): Message[] {
   });
 }
 
+// Link utilities
+export interface DetectedUrl {
+  url: string; // normalized, always with a scheme
+  start: number; // offsets of the raw match in the text
+  end: number;
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+const TRAILING_URL_PUNCTUATION = /[.,;:!?'")\]}]+$/;
+
+/**
+ * Find http(s) and www. links in message text, in order of appearance
+ */
+export function extractUrls(text: string): DetectedUrl[] {
+  if (!text) return [];
+
+  const found: DetectedUrl[] = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    let raw = match[0];
+    // Keep a closing bracket that belongs to the URL, e.g. wiki links
+    while (TRAILING_URL_PUNCTUATION.test(raw)) {
+      const opens = raw.split("(").length - 1;
+      const closes = raw.split(")").length - 1;
+      if (raw.endsWith(")") && opens >= closes) break;
+      raw = raw.slice(0, -1);
+    }
+
+    const url = raw.toLowerCase().startsWith("www.") ? `https://${raw}` : raw;
+    if (!getUrlHostname(url)) continue;
+
+    const start = match.index || 0;
+    found.push({ url, start, end: start + raw.length });
+  }
+  return found;
+}
+
+/**
+ * Lowercased hostname of a URL, or null when it can't be parsed
+ */
+export function getUrlHostname(url: string): string | null {
+  const match = /^[a-z][a-z0-9+.-]*:\/\/(?:[^/?#@]*@)?([^/?#:]+)/i.exec(url);
+  const host = match?.[1]?.toLowerCase().replace(/\.$/, "");
+  return host && host.includes(".") ? host : null;
+}
+
 export function filterMessagesByType(
   messages: Message[],
   type: "text" | "voice" | "image"
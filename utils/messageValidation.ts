@@ -411,6 +411,7 @@ export class MessageValidator {
     duration?: number;
     fileSize?: number;
     mimeType?: string;
+    encrypted?: unknown;
   }): ValidationResult {
     // Validate required fields
     const conversationValidation = this.validateConversationId(
@@ -433,6 +434,8 @@ export class MessageValidator {
     // Validate based on message type
     switch (data.type) {
       case "text":
+        // Sealed content is validated before it is encrypted
+        if (data.encrypted) break;
         if (!data.text) {
           return { valid: false, error: "Text message requires text content" };
         }
@@ -691,6 +694,67 @@ export class MessageSecurity {
     return allowedTypes[messageType]?.includes(mimeType.toLowerCase()) || false;
   }
 
+  /**
+   * Domains known for IP logging or phishing; links to them are never previewed
+   */
+  static readonly KNOWN_BAD_LINK_DOMAINS = [
+    "grabify.link",
+    "iplogger.org",
+    "iplogger.com",
+    "2no.co",
+    "blasze.com",
+    "ps3cfw.com",
+  ];
+
+  /**
+   * Why a link shouldn't be trusted, or null if nothing stands out.
+   * Matches blocked domains and any of their subdomains.
+   */
+  static getUnsafeLinkReason(
+    url: string,
+    blockedDomains: Iterable<string> = MessageSecurity.KNOWN_BAD_LINK_DOMAINS
+  ): string | null {
+    const match = /^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)/i.exec(url.trim());
+    if (!match) return "Unrecognized link format";
+
+    const scheme = match[1].toLowerCase();
+    if (scheme !== "http" && scheme !== "https") {
+      return "Only web links can be opened";
+    }
+
+    const authority = match[2];
+    if (authority.includes("@")) {
+      return "Link hides its real destination";
+    }
+
+    const host = authority
+      .replace(/:\d+$/, "")
+      .toLowerCase()
+      .replace(/\.$/, "");
+    if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith("[")) {
+      return "Link points to a raw IP address";
+    }
+    if (
+      host === "localhost" ||
+      host.endsWith(".localhost") ||
+      host.endsWith(".local")
+    ) {
+      return "Link points to a device on your network";
+    }
+    if (host.split(".").some((label) => label.startsWith("xn--"))) {
+      return "Link uses look-alike characters";
+    }
+
+    for (const domain of blockedDomains) {
+      const blocked = domain.toLowerCase();
+      if (host === blocked || host.endsWith(`.${blocked}`)) {
+        return "Link goes to a known unsafe site";
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Validates file signature (magic bytes) to prevent MIME type spoofing
    */
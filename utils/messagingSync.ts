@@ -1,8 +1,20 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import EventEmitter from "eventemitter3";
-import { Message } from "../types/message";
+import { Message, MessageReaction } from "../types/message";
+import { MessageChangeEvent, MessageCipher } from "../types/messaging";
 import { messageCache } from "./MessageCache";
+import { persistentMessageStore } from "./persistentMessageStore";
 import { RealtimeMessagingService } from "../services/RealtimeMessagingService";
 import { OfflineMessageQueue } from "./offlineMessageQueue";
+import {
+  ConflictAuditLog,
+  ConflictLogQuery,
+  ConflictRecord,
+  ConflictResolutionOption,
+  ConflictResolutionStrategy,
+  MessageConflict,
+  getConflictStrategy,
+} from "./conflictResolution";
 
 export interface SyncState {
   lastSyncTimestamp: number;
@@ -28,14 +40,175 @@ export interface ConversationSyncState {
   unreadCount: number;
   syncStatus: "synced" | "syncing" | "error" | "conflict";
   lastSyncAttempt: number;
+  // Delta sync high-water mark: the server's timestamp for when we last
+  // caught up (never the device clock), and its opaque cursor for
+  // "everything after that point"
+  lastSyncedAt: number;
+  cursor?: string;
+  // A full sync has completed, so deltas have something to build on
+  seeded?: boolean;
 }
 
 export interface SyncOptions {
   batchSize?: number;
   maxRetries?: number;
   retryDelay?: number;
-  conflictResolution?: "client" | "server" | "manual";
+  conflictResolution?: ConflictResolutionOption;
   enableRealtime?: boolean;
+  syncMode?: "delta" | "full";
+  storageKey?: string;
+  // Opens end-to-end encrypted messages as they are ingested
+  cipher?: MessageCipher;
+}
+
+/**
+ * Apply delta sync change events to a conversation's messages.
+ * Returns the updated list (sorted by createdAt) and the IDs of messages
+ * removed by tombstones.
+ */
+export function applyMessageChanges(
+  messages: Message[],
+  changes: MessageChangeEvent[]
+): { messages: Message[]; deletedIds: string[] } {
+  const byId = new Map(messages.map((m) => [m._id, m]));
+  const deletedIds: string[] = [];
+
+  const ordered = changes.every((c) => typeof c.seq === "number")
+    ? [...changes].sort((a, b) => (a.seq as number) - (b.seq as number))
+    : changes;
+
+  for (const change of ordered) {
+    if (change.type === "upsert") {
+      byId.set(change.message._id, change.message);
+      continue;
+    }
+
+    const existing = byId.get(change.messageId);
+
+    switch (change.type) {
+      case "edit":
+        if (existing && (existing.editedAt || 0) <= change.editedAt) {
+          byId.set(change.messageId, {
+            ...existing,
+            text: change.text,
+            editedAt: change.editedAt,
+          });
+        }
+        break;
+
+      case "delete":
+        if (byId.delete(change.messageId)) {
+          deletedIds.push(change.messageId);
+        }
+        break;
+
+      case "reaction":
+        if (existing) {
+          const others = (existing.reactions || []).filter(
+            (r: MessageReaction) =>
+              !(r.emoji === change.emoji && r.userId === change.userId)
+          );
+          byId.set(change.messageId, {
+            ...existing,
+            reactions:
+              change.action === "add"
+                ? [...others, { emoji: change.emoji, userId: change.userId }]
+                : others,
+          });
+        }
+        break;
+
+      case "read":
+        if (existing) {
+          byId.set(change.messageId, {
+            ...existing,
+            status: "read",
+            readAt: change.readAt,
+          });
+        }
+        break;
+    }
+  }
+
+  return {
+    messages: Array.from(byId.values()).sort(
+      (a, b) => (a.createdAt || 0) - (b.createdAt || 0)
+    ),
+    deletedIds,
+  };
+}
+
+const serverTimestamp = (message: Message) =>
+  Math.max(
+    message.createdAt || 0,
+    message.editedAt || 0,
+    message.deletedAt || 0
+  );
+
+/**
+ * Latest server-assigned timestamp in a batch of changes, so the `since`
+ * watermark only ever moves to a point the server has shown us
+ */
+export function serverWatermark(changes: MessageChangeEvent[]): number {
+  return changes.reduce((latest, change) => {
+    switch (change.type) {
+      case "upsert":
+        return Math.max(latest, serverTimestamp(change.message));
+      case "edit":
+        return Math.max(latest, change.editedAt || 0);
+      case "delete":
+        return Math.max(latest, change.deletedAt || 0);
+      case "read":
+        return Math.max(latest, change.readAt || 0);
+      default:
+        return latest;
+    }
+  }, 0);
+}
+
+const isLocalCopy = (message: Message) =>
+  !!message.isOptimistic || message._id.startsWith("optimistic_");
+
+/**
+ * Collapse copies of the same send, matched by clientMessageId. A server
+ * message replaces any optimistic copy, and if the server stored a send
+ * twice the earliest copy is kept. Returns the kept messages in their
+ * original order and the IDs of the dropped copies.
+ */
+export function collapseDuplicateMessages(messages: Message[]): {
+  messages: Message[];
+  removedIds: string[];
+} {
+  const winners = new Map<string, Message>();
+
+  for (const message of messages) {
+    if (!message.clientMessageId) continue;
+
+    const current = winners.get(message.clientMessageId);
+    const replaces =
+      !current ||
+      (isLocalCopy(current) && !isLocalCopy(message)) ||
+      (isLocalCopy(current) === isLocalCopy(message) &&
+        (message.createdAt || 0) < (current.createdAt || 0));
+
+    if (replaces) {
+      winners.set(message.clientMessageId, message);
+    }
+  }
+
+  const removedIds: string[] = [];
+  const kept = messages.filter((message) => {
+    if (
+      !message.clientMessageId ||
+      winners.get(message.clientMessageId) === message
+    ) {
+      return true;
+    }
+    removedIds.push(message._id);
+    return false;
+  });
+
+  return { messages: kept, removedIds };
 }
 
 /**
@@ -55,8 +228,13 @@ export class MessageSyncManager extends EventEmitter {
   private realtimeService: RealtimeMessagingService | null = null;
   private offlineQueue: OfflineMessageQueue | null = null;
   private syncInterval: NodeJS.Timeout | null = null;
-  private options: Required<SyncOptions>;
+  private options: Required<Omit<SyncOptions, "cipher">>;
+  private cipher: MessageCipher | null;
+  private conflictStrategy: ConflictResolutionStrategy;
+  private conflictLog = new ConflictAuditLog();
   private userId: string | null = null;
+  // Flipped off when the backend has no delta endpoint, to avoid probing it every tick
+  private deltaSupported = true;
 
   constructor(apiClient: any, options: SyncOptions = {}) {
     super();
@@ -67,7 +245,13 @@ export class MessageSyncManager extends EventEmitter {
       retryDelay: options.retryDelay || 1000,
       conflictResolution: options.conflictResolution || "server",
       enableRealtime: options.enableRealtime !== false,
+      syncMode: options.syncMode || "delta",
+      storageKey: options.storageKey || "message_sync_state",
     };
+    this.cipher = options.cipher || null;
+    this.conflictStrategy = getConflictStrategy(
+      this.options.conflictResolution
+    );
   }
 
   /**
@@ -90,8 +274,20 @@ export class MessageSyncManager extends EventEmitter {
       this.setupOfflineQueueHandlers();
     }
 
-    // Load sync state from storage
-    await this.loadSyncState();
+    // Encrypted messages are stored sealed and opened as they're read
+    if (this.cipher) {
+      persistentMessageStore.setCipher(this.cipher);
+    }
+
+    // Load sync state and the local message store index
+    await Promise.all([this.loadSyncState(), persistentMessageStore.hydrate()]);
+
+    // Disappearing messages may have expired while the app was closed
+    persistentMessageStore
+      .purgeExpired()
+      .catch((error) =>
+        console.error("MessageSyncManager: Failed to purge expired:", error)
+      );
 
     // Start periodic sync
     this.startPeriodicSync();
@@ -117,9 +313,46 @@ export class MessageSyncManager extends EventEmitter {
       this.handleReadReceipt(receipt);
     });
 
+    this.realtimeService.on("listened_receipt", (receipt) => {
+      messageCache.updateMessage(receipt.conversationId, receipt.messageId, {
+        listenedAt: receipt.timestamp,
+      });
+    });
+
+    // Edits, deletes and reactions are the same changes delta sync applies
+    this.realtimeService.on("message_edited", (event) => {
+      this.applyRealtimeChange(event.conversationId, {
+        type: "edit",
+        messageId: event.messageId,
+        text: event.text,
+        editedAt: event.editedAt,
+      });
+    });
+
+    this.realtimeService.on("message_deleted", (event) => {
+      this.applyRealtimeChange(event.conversationId, {
+        type: "delete",
+        messageId: event.messageId,
+        deletedAt: event.deletedAt,
+      });
+    });
+
+    this.realtimeService.on("reaction", (event) => {
+      this.applyRealtimeChange(event.conversationId, {
+        type: "reaction",
+        messageId: event.messageId,
+        emoji: event.emoji,
+        userId: event.userId,
+        action: event.action,
+      });
+    });
+
     this.realtimeService.on("connected", () => {
       this.emit("realtime_connected");
-      // Trigger sync when reconnected
+    });
+
+    // A resumed session replays what was missed; anything else needs a sync
+    this.realtimeService.on("resync_required", () => {
       this.syncAllConversations();
     });
 
@@ -177,20 +410,34 @@ export class MessageSyncManager extends EventEmitter {
     });
   }
 
+  private applyRealtimeChange(
+    conversationId: string,
+    change: MessageChangeEvent
+  ): void {
+    this.applyChanges(conversationId, [change]).catch((error) =>
+      console.error("Failed to apply realtime change:", error)
+    );
+  }
+
   /**
    * Handle real-time message
    */
-  private handleRealtimeMessage(realtimeMessage: any): void {
-    const message: Message = {
-      _id: realtimeMessage.id,
-      conversationId: realtimeMessage.conversationId,
-      fromUserId: realtimeMessage.fromUserId,
-      toUserId: realtimeMessage.toUserId,
-      text: realtimeMessage.content,
-      type: realtimeMessage.type || "text",
-      createdAt: realtimeMessage.timestamp,
-      status: "delivered",
-    };
+  private async handleRealtimeMessage(realtimeMessage: any): Promise<void> {
+    const [message] = await this.decrypt([
+      {
+        _id: realtimeMessage.id,
+        conversationId: realtimeMessage.conversationId,
+        fromUserId: realtimeMessage.fromUserId,
+        toUserId: realtimeMessage.toUserId,
+        text: realtimeMessage.content,
+        type: realtimeMessage.type || "text",
+        createdAt: realtimeMessage.timestamp,
+        status: "delivered",
+        clientMessageId: realtimeMessage.clientMessageId,
+        encrypted: realtimeMessage.encrypted,
+        expiresAt: realtimeMessage.expiresAt,
+      },
+    ]);
 
     // Add to cache
     messageCache.addMessages(message.conversationId, [message]);
@@ -321,72 +568,292 @@ export class MessageSyncManager extends EventEmitter {
     });
 
     try {
-      // Get cached messages
-      const cachedMessages = messageCache.get(conversationId) || [];
-      const lastCachedTimestamp =
-        cachedMessages.length > 0
-          ? Math.max(...cachedMessages.map((m) => m.createdAt || 0))
-          : syncState.lastMessageTimestamp;
-
-      // Fetch latest messages from server (API supports 'before' for older pages, not 'after')
-      // We'll request the latest batch and then filter by timestamp > lastCachedTimestamp
-      const response = await this.apiClient.getMessages(conversationId, {
+      // Make sure persisted history is in memory before merging, so the
+      // write-through below extends it rather than replacing it
+      await persistentMessageStore.loadConversation(conversationId);
+
+      const syncedIncrementally =
+        this.options.syncMode === "delta" &&
+        this.deltaSupported &&
+        (await this.syncConversationDelta(conversationId));
+
+      if (!syncedIncrementally) {
+        await this.syncConversationFull(conversationId);
+      }
+
+      // Sync read status
+      await this.syncReadStatus(conversationId);
+
+      this.emit("conversation_synced", conversationId);
+    } catch (error) {
+      console.error(`Conversation sync failed for ${conversationId}:`, error);
+      this.updateConversationSyncState(conversationId, {
+        syncStatus: "error",
+      });
+      this.addSyncError("network", `Conversation sync failed: ${error}`, {
+        conversationId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Pull only what changed since the conversation's high-water mark.
+   * Returns false when delta sync isn't possible and a full sync is needed.
+   */
+  private async syncConversationDelta(
+    conversationId: string
+  ): Promise<boolean> {
+    if (typeof this.apiClient.getMessageChanges !== "function") {
+      this.deltaSupported = false;
+      return false;
+    }
+
+    const syncState = this.getConversationSyncState(conversationId);
+
+    // Nothing to be incremental against yet; seed with a full sync
+    if (!syncState.cursor && !syncState.seeded) {
+      return false;
+    }
+
+    let cursor = syncState.cursor;
+    let since = syncState.lastSyncedAt;
+    let hasMore = true;
+    let pages = 0;
+
+    while (hasMore && pages < 10) {
+      pages++;
+      const response = await this.apiClient.getMessageChanges(conversationId, {
+        cursor,
+        since: cursor ? undefined : syncState.lastSyncedAt,
         limit: this.options.batchSize,
       });
 
       if (!response.success) {
-        throw new Error(response.error?.message || "Failed to fetch messages");
+        const code = response.error?.code || "";
+        if (code === "HTTP_404" || code === "NOT_FOUND") {
+          this.deltaSupported = false;
+          return false;
+        }
+        throw new Error(response.error?.message || "Failed to fetch changes");
       }
 
-      const serverMessages = (response.data || []).filter(
-        (m: Message) => (m.createdAt || 0) > (lastCachedTimestamp || 0)
+      const {
+        changes = [],
+        cursor: nextCursor,
+        hasMore: more,
+        resetRequired,
+        serverTime,
+      } = response.data || {};
+
+      if (resetRequired) {
+        this.updateConversationSyncState(conversationId, {
+          cursor: undefined,
+          lastSyncedAt: 0,
+          seeded: false,
+        });
+        return false;
+      }
+
+      if (changes.length > 0) {
+        await this.applyChanges(conversationId, changes);
+      }
+
+      cursor = nextCursor || cursor;
+      since = Math.max(since, serverTime || 0, serverWatermark(changes));
+      hasMore = !!more && changes.length > 0;
+    }
+
+    this.updateConversationSyncState(conversationId, {
+      cursor,
+      lastSyncedAt: since,
+      syncStatus: "synced",
+    });
+
+    return true;
+  }
+
+  /**
+   * Apply a page of change events to the cache and notify listeners
+   */
+  private async applyChanges(
+    conversationId: string,
+    changes: MessageChangeEvent[]
+  ): Promise<void> {
+    const cachedMessages = messageCache.get(conversationId) || [];
+
+    // Open sealed messages before anything compares or stores them
+    const sealed = changes.filter(
+      (c): c is Extract<MessageChangeEvent, { type: "upsert" }> =>
+        c.type === "upsert" && !!c.message.encrypted
+    );
+    if (sealed.length > 0) {
+      const opened = await this.decrypt(sealed.map((c) => c.message));
+      const byId = new Map(opened.map((m) => [m._id, m]));
+      changes = changes.map((c) =>
+        c.type === "upsert" && byId.has(c.message._id)
+          ? { ...c, message: byId.get(c.message._id)! }
+          : c
       );
+    }
 
-      if (serverMessages.length > 0) {
-        // Check for conflicts
-        const conflicts = this.detectConflicts(cachedMessages, serverMessages);
+    const upserts = changes
+      .filter(
+        (c): c is Extract<MessageChangeEvent, { type: "upsert" }> =>
+          c.type === "upsert"
+      )
+      .map((c) => c.message);
+    const conflicts = this.detectConflicts(
+      conversationId,
+      cachedMessages,
+      upserts
+    );
+    const resolved =
+      conflicts.length > 0
+        ? await this.resolveConflicts(conflicts)
+        : new Map<string, Message>();
+
+    const { messages, deletedIds } = applyMessageChanges(
+      cachedMessages,
+      changes
+    );
+    messageCache.set(
+      conversationId,
+      this.collapseDuplicates(
+        conversationId,
+        messages.map((m) => resolved.get(m._id) || m)
+      )
+    );
 
-        if (conflicts.length > 0) {
-          await this.resolveConflicts(conversationId, conflicts);
-        }
+    const latestTimestamp = Math.max(
+      this.getConversationSyncState(conversationId).lastMessageTimestamp,
+      ...upserts.map((m) => m.createdAt || 0)
+    );
+    this.updateConversationSyncState(conversationId, {
+      lastMessageTimestamp: latestTimestamp,
+    });
 
-        // Merge messages
-        const mergedMessages = this.mergeMessages(
-          cachedMessages,
-          serverMessages
-        );
+    deletedIds.forEach((messageId) =>
+      this.emit("message_deleted", { conversationId, messageId })
+    );
+    this.emit("messages_patched", { conversationId, changes });
+  }
 
-        // Update cache
-        messageCache.set(conversationId, mergedMessages);
+  /**
+   * Fetch the latest batch and merge it into the cache
+   */
+  private async syncConversationFull(conversationId: string): Promise<void> {
+    const syncState = this.getConversationSyncState(conversationId);
 
-        // Update sync state
-        const latestTimestamp = Math.max(
-          ...serverMessages.map((m: Message) => m.createdAt || 0)
-        );
-        this.updateConversationSyncState(conversationId, {
-          lastMessageTimestamp: latestTimestamp,
-          syncStatus: "synced",
-        });
-      } else {
-        this.updateConversationSyncState(conversationId, {
-          syncStatus: "synced",
-        });
-      }
+    // Get cached messages
+    const cachedMessages = messageCache.get(conversationId) || [];
+    const lastCachedTimestamp =
+      cachedMessages.length > 0
+        ? Math.max(...cachedMessages.map((m) => m.createdAt || 0))
+        : syncState.lastMessageTimestamp;
+
+    // Fetch latest messages from server (API supports 'before' for older pages, not 'after')
+    // We'll request the latest batch and then filter by timestamp > lastCachedTimestamp
+    const response = await this.apiClient.getMessages(conversationId, {
+      limit: this.options.batchSize,
+    });
 
-      // Sync read status
-      await this.syncReadStatus(conversationId);
+    if (!response.success) {
+      throw new Error(response.error?.message || "Failed to fetch messages");
+    }
 
-      this.emit("conversation_synced", conversationId);
-    } catch (error) {
-      console.error(`Conversation sync failed for ${conversationId}:`, error);
+    // Only advance the watermark to what the server has actually shown us
+    const lastSyncedAt = Math.max(
+      syncState.lastSyncedAt,
+      ...(response.data || []).map(serverTimestamp)
+    );
+
+    const serverMessages = await this.decrypt(
+      (response.data || []).filter(
+        (m: Message) => (m.createdAt || 0) > (lastCachedTimestamp || 0)
+      )
+    );
+
+    if (serverMessages.length > 0) {
+      // Check for conflicts
+      const conflicts = this.detectConflicts(
+        conversationId,
+        cachedMessages,
+        serverMessages
+      );
+      const resolved =
+        conflicts.length > 0
+          ? await this.resolveConflicts(conflicts)
+          : new Map<string, Message>();
+
+      // Merge messages, with resolved versions taking the server's place
+      const mergedMessages = this.mergeMessages(
+        cachedMessages,
+        serverMessages.map((m: Message) => resolved.get(m._id) || m)
+      );
+
+      // Update cache, dropping duplicates of retried sends
+      messageCache.set(
+        conversationId,
+        this.collapseDuplicates(conversationId, mergedMessages)
+      );
+
+      // Update sync state
+      const latestTimestamp = Math.max(
+        ...serverMessages.map((m: Message) => m.createdAt || 0)
+      );
       this.updateConversationSyncState(conversationId, {
-        syncStatus: "error",
+        lastMessageTimestamp: latestTimestamp,
+        lastSyncedAt,
+        seeded: true,
+        syncStatus: "synced",
       });
-      this.addSyncError("network", `Conversation sync failed: ${error}`, {
+    } else {
+      // Duplicates can already be in the cache from before this build
+      const collapsed = this.collapseDuplicates(conversationId, cachedMessages);
+      if (collapsed.length !== cachedMessages.length) {
+        messageCache.set(conversationId, collapsed);
+      }
+
+      this.updateConversationSyncState(conversationId, {
+        lastSyncedAt,
+        seeded: true,
+        syncStatus: "synced",
+      });
+    }
+  }
+
+  /**
+   * Replace end-to-end encrypted messages with their plaintext
+   */
+  private async decrypt(messages: Message[]): Promise<Message[]> {
+    if (!this.cipher || messages.length === 0) return messages;
+    try {
+      return await this.cipher.decryptMessages(messages);
+    } catch (error) {
+      console.error("Failed to decrypt messages:", error);
+      return messages;
+    }
+  }
+
+  /**
+   * Collapse duplicate sends and tell listeners which copies went away
+   */
+  private collapseDuplicates(
+    conversationId: string,
+    messages: Message[]
+  ): Message[] {
+    const { messages: collapsed, removedIds } =
+      collapseDuplicateMessages(messages);
+
+    if (removedIds.length > 0) {
+      this.emit("duplicates_collapsed", {
         conversationId,
+        messageIds: removedIds,
       });
-      throw error;
     }
+
+    return collapsed;
   }
 
   /**
@@ -417,17 +884,22 @@ export class MessageSyncManager extends EventEmitter {
    * Detect conflicts between cached and server messages
    */
   private detectConflicts(
+    conversationId: string,
     cachedMessages: Message[],
     serverMessages: Message[]
-  ): Message[] {
-    const conflicts: Message[] = [];
+  ): MessageConflict[] {
+    const conflicts: MessageConflict[] = [];
     const cachedById = new Map(cachedMessages.map((m) => [m._id, m]));
 
     for (const serverMessage of serverMessages) {
       const cachedMessage = cachedById.get(serverMessage._id);
 
       if (cachedMessage && this.hasConflict(cachedMessage, serverMessage)) {
-        conflicts.push(serverMessage);
+        conflicts.push({
+          conversationId,
+          local: cachedMessage,
+          remote: serverMessage,
+        });
       }
     }
 
@@ -442,46 +914,60 @@ export class MessageSyncManager extends EventEmitter {
     if (cached.text !== server.text) return true;
     if (cached.status !== server.status) return true;
     if (cached.readAt !== server.readAt) return true;
+    if (cached.editedAt !== server.editedAt) return true;
 
     return false;
   }
 
   /**
-   * Resolve message conflicts
+   * Resolve message conflicts with the configured strategy.
+   * Returns the version to keep for each conflicted message ID.
    */
   private async resolveConflicts(
-    conversationId: string,
-    conflicts: Message[]
-  ): Promise<void> {
-    for (const conflictMessage of conflicts) {
-      switch (this.options.conflictResolution) {
-        case "server":
-          // Server wins - no action needed, server message will overwrite
-          break;
-
-        case "client":
-          // Client wins - push local version to server
-          try {
-            await this.pushMessageToServer(conflictMessage);
-          } catch (error) {
-            console.error(
-              "Failed to push conflicted message to server:",
-              error
-            );
-            this.globalSyncState.conflictedMessages.push(conflictMessage);
-          }
-          break;
-
-        case "manual":
-          // Add to conflicts for manual resolution
-          this.globalSyncState.conflictedMessages.push(conflictMessage);
-          this.emit("conflict_detected", {
-            conversationId,
-            message: conflictMessage,
-          });
-          break;
+    conflicts: MessageConflict[]
+  ): Promise<Map<string, Message>> {
+    const resolved = new Map<string, Message>();
+    const strategy = this.conflictStrategy;
+
+    for (const conflict of conflicts) {
+      let outcome;
+      try {
+        outcome = await strategy.resolve(conflict);
+      } catch (error) {
+        // A broken custom strategy must not stall sync; fall back to the server
+        console.error(`Conflict strategy "${strategy.name}" failed:`, error);
+        outcome = {
+          resolved: conflict.remote,
+          winner: "remote" as const,
+          reason: `strategy error: ${error}`,
+        };
+      }
+
+      resolved.set(conflict.remote._id, outcome.resolved);
+      const record = this.conflictLog.record(conflict, strategy.name, outcome);
+      this.emit("conflict_resolved_auto", record);
+
+      if (outcome.winner === "deferred") {
+        // Keep the local version for manual resolution
+        this.globalSyncState.conflictedMessages.push(conflict.local);
+        this.emit("conflict_detected", {
+          conversationId: conflict.conversationId,
+          message: conflict.local,
+          remote: conflict.remote,
+        });
+      }
+
+      if (outcome.pushToServer) {
+        try {
+          await this.pushMessageToServer(outcome.resolved);
+        } catch (error) {
+          console.error("Failed to push conflicted message to server:", error);
+          this.globalSyncState.conflictedMessages.push(conflict.local);
+        }
       }
     }
+
+    return resolved;
   }
 
   /**
@@ -512,6 +998,7 @@ export class MessageSyncManager extends EventEmitter {
       toUserId: message.toUserId,
       text: message.text,
       type: message.type,
+      clientMessageId: message.clientMessageId,
     });
 
     if (!response.success) {
@@ -535,6 +1022,7 @@ export class MessageSyncManager extends EventEmitter {
         unreadCount: 0,
         syncStatus: "synced",
         lastSyncAttempt: 0,
+        lastSyncedAt: 0,
       });
     }
 
@@ -603,9 +1091,28 @@ export class MessageSyncManager extends EventEmitter {
    */
   private async loadSyncState(): Promise<void> {
     try {
-      // This would load from AsyncStorage or similar
-      // For now, we'll use in-memory state
-      console.log("Loading sync state from storage...");
+      const stored = await AsyncStorage.getItem(this.options.storageKey);
+
+      if (stored) {
+        const data = JSON.parse(stored);
+
+        if (Array.isArray(data.conversations)) {
+          data.conversations.forEach((state: ConversationSyncState) => {
+            this.syncState.set(state.conversationId, {
+              ...state,
+              // An interrupted sync must not block the next one
+              syncStatus: "synced",
+            });
+          });
+        }
+
+        this.globalSyncState.lastSyncTimestamp =
+          data.lastSyncTimestamp || this.globalSyncState.lastSyncTimestamp;
+
+        if (Array.isArray(data.conflictLog)) {
+          this.conflictLog.load(data.conflictLog);
+        }
+      }
     } catch (error) {
       console.error("Failed to load sync state:", error);
     }
@@ -616,9 +1123,14 @@ export class MessageSyncManager extends EventEmitter {
    */
   private async saveSyncState(): Promise<void> {
     try {
-      // This would save to AsyncStorage or similar
-      // For now, we'll just log
-      console.log("Saving sync state to storage...");
+      const data = {
+        conversations: Array.from(this.syncState.values()),
+        lastSyncTimestamp: this.globalSyncState.lastSyncTimestamp,
+        conflictLog: this.conflictLog.toJSON(),
+        timestamp: Date.now(),
+      };
+
+      await AsyncStorage.setItem(this.options.storageKey, JSON.stringify(data));
     } catch (error) {
       console.error("Failed to save sync state:", error);
     }
@@ -635,6 +1147,11 @@ export class MessageSyncManager extends EventEmitter {
     conflictedMessages: number;
     lastSyncTimestamp: number;
     syncInProgress: boolean;
+    syncMode: "delta" | "full";
+    deltaConversations: number;
+    conflictStrategy: string;
+    resolvedConflicts: number;
+    recentConflicts: ConflictRecord[];
   } {
     const states = Array.from(this.syncState.values());
 
@@ -648,17 +1165,42 @@ export class MessageSyncManager extends EventEmitter {
       conflictedMessages: this.globalSyncState.conflictedMessages.length,
       lastSyncTimestamp: this.globalSyncState.lastSyncTimestamp,
       syncInProgress: this.globalSyncState.syncInProgress,
+      syncMode:
+        this.options.syncMode === "delta" && this.deltaSupported
+          ? "delta"
+          : "full",
+      deltaConversations: states.filter((s) => !!s.cursor).length,
+      conflictStrategy: this.conflictStrategy.name,
+      resolvedConflicts: this.conflictLog.size,
+      recentConflicts: this.conflictLog.query({ limit: 10 }),
     };
   }
 
+  /**
+   * Query the conflict resolution audit trail (newest first)
+   */
+  getConflictLog(query: ConflictLogQuery = {}): ConflictRecord[] {
+    return this.conflictLog.query(query);
+  }
+
+  /**
+   * Swap the conflict resolution strategy at runtime
+   */
+  setConflictStrategy(option: ConflictResolutionOption): void {
+    this.conflictStrategy = getConflictStrategy(option);
+  }
+
   /**
    * Force sync a conversation
    */
   async forceSyncConversation(conversationId: string): Promise<void> {
-    // Reset sync state
+    // Reset sync state, dropping the delta cursor so we refetch in full
     this.updateConversationSyncState(conversationId, {
       syncStatus: "synced",
       lastSyncAttempt: 0,
+      cursor: undefined,
+      lastSyncedAt: 0,
+      seeded: false,
     });
 
     await this.syncConversation(conversationId);
@@ -692,6 +1234,11 @@ export class MessageSyncManager extends EventEmitter {
 
     if (resolution === "keep_local") {
       await this.pushMessageToServer(conflictedMessage);
+      messageCache.updateMessage(
+        conflictedMessage.conversationId,
+        messageId,
+        conflictedMessage
+      );
     }
     // For 'keep_server', we don't need to do anything as server version will be used
 
@@ -700,11 +1247,26 @@ export class MessageSyncManager extends EventEmitter {
     this.emit("conflict_resolved", { messageId, resolution });
   }
 
+  /**
+   * Remove persisted sync state (cursors, watermarks and the conflict log),
+   * e.g. when the user signs out
+   */
+  static async clearStoredState(
+    storageKey = "message_sync_state"
+  ): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(storageKey);
+    } catch (error) {
+      console.error("Failed to clear sync state:", error);
+    }
+  }
+
   /**
    * Cleanup and destroy
    */
   destroy(): void {
     this.stopPeriodicSync();
+    persistentMessageStore.flush();
     this.removeAllListeners();
     this.syncState.clear();
   }
@@ -7,7 +7,13 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import React from "react";
 
 export interface NotificationData {
-  type: "message" | "match" | "interest" | "system" | "subscription";
+  type:
+    | "message"
+    | "match"
+    | "interest"
+    | "photo_access"
+    | "system"
+    | "subscription";
   title: string;
   body: string;
   data?: Record<string, any>;
@@ -100,6 +106,14 @@ export class NotificationHandler {
       case "interest":
         this.navigateToProfile(data.profileId, data.data);
         break;
+      case "photo_access":
+        // Owners review requests in privacy settings; requesters see the photos
+        if (data.data?.status === "pending") {
+          this.navigationRef.navigate("Privacy");
+        } else {
+          this.navigateToProfile(data.profileId, data.data);
+        }
+        break;
       case "system":
         this.navigateToSystem(data.data);
         break;
@@ -460,6 +474,7 @@ export class NotificationManager {
       case "match":
         return this.preferences.matches;
       case "interest":
+      case "photo_access":
         return this.preferences.interests;
       case "system":
         return this.preferences.system;
@@ -1,15 +1,67 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import EventEmitter from "eventemitter3";
-import { Message } from "../types/message";
+import { EncryptedEnvelope, Message } from "../types/message";
 import {
+  ApiResponse,
+  MessageCipher,
   MessagingAPI,
   MessagingError,
   MessagingErrorType,
 } from "../types/messaging";
+import { generateClientMessageId } from "./messageUtils";
+
+export type OutboxJobKind = "text" | "voice" | "image";
+export type OutboxStep =
+  | "encrypt"
+  | "upload"
+  | "schedule"
+  | "create"
+  | "confirm";
+export type OutboxJobStatus =
+  | "queued"
+  | "scheduled"
+  | "running"
+  | "retrying"
+  | "sent"
+  | "failed";
+
+/**
+ * Local media that has to be uploaded before the message can be created
+ */
+export interface OutboxAttachment {
+  localUri: string;
+  fileName?: string;
+  contentType?: string;
+  width?: number;
+  height?: number;
+  fileSize?: number;
+  peaks?: number[];
+}
+
+/**
+ * Output of completed steps, persisted so a retry resumes where it stopped
+ */
+export interface OutboxStepResults {
+  storageId?: string;
+  url?: string;
+  message?: Message;
+  encrypted?: EncryptedEnvelope;
+  // Encrypted copy of the attachment, uploaded instead of the original
+  encryptedUri?: string;
+  // Set once the server holds a scheduled send and will deliver it itself
+  scheduledId?: string;
+}
 
 export interface QueuedMessage {
   id: string;
+  kind: OutboxJobKind;
   message: Omit<Message, "_id">;
+  attachment?: OutboxAttachment;
+  steps: OutboxStep[];
+  stepIndex: number;
+  stepResults: OutboxStepResults;
+  status: OutboxJobStatus;
+  progress: number; // 0..1 across all steps
   attempts: number;
   maxAttempts: number;
   lastAttempt: number;
@@ -17,14 +69,64 @@ export interface QueuedMessage {
   error?: MessagingError;
   priority: "high" | "normal" | "low";
   createdAt: number;
+  // Send later: the job waits in the outbox until this time
+  scheduledFor?: number;
+}
+
+// Every queued send is an outbox job
+export type OutboxJob = QueuedMessage;
+
+export interface OutboxStepContext {
+  apiClient: MessagingAPI;
+  // Progress of the current step, 0..1
+  onProgress: (progress: number) => void;
+  // Register a callback that aborts the in-flight step
+  onCancel: (cancel: () => void) => void;
+}
+
+export type OutboxStepHandler = (
+  job: QueuedMessage,
+  context: OutboxStepContext
+) => Promise<ApiResponse<OutboxStepResults>>;
+
+export interface EnqueueJobInput {
+  kind: OutboxJobKind;
+  message: Omit<Message, "_id">;
+  attachment?: OutboxAttachment;
+  priority?: "high" | "normal" | "low";
+  scheduledFor?: number;
 }
 
+export const OUTBOX_STEPS: Record<OutboxJobKind, OutboxStep[]> = {
+  text: ["create", "confirm"],
+  voice: ["upload", "create", "confirm"],
+  // The image upload endpoint creates the message itself
+  image: ["upload", "confirm"],
+};
+
+// Scheduled text sends are handed to the server when it supports it, and
+// created from the device at the due time otherwise
+const SCHEDULED_STEPS: OutboxStep[] = ["schedule", "confirm"];
+
+// How far back confirm looks for a message the server did not echo
+const CONFIRM_WINDOW_MS = 60000;
+
+// Time the server gets to deliver a scheduled send before we look for it
+const SERVER_DELIVERY_GRACE_MS = 60000;
+
+// setTimeout fires immediately for delays beyond a signed 32-bit int
+const MAX_TIMER_DELAY_MS = 2147483647;
+
 export interface QueueOptions {
   maxRetries?: number;
   baseRetryDelay?: number;
   maxRetryDelay?: number;
   storageKey?: string;
   batchSize?: number;
+  // Blob upload step per media kind
+  uploaders?: Partial<Record<OutboxJobKind, OutboxStepHandler>>;
+  // Jobs in end-to-end encrypted conversations get an "encrypt" step first
+  cipher?: MessageCipher;
 }
 
 export interface QueueStats {
@@ -32,22 +134,41 @@ export interface QueueStats {
   pending: number;
   failed: number;
   processing: number;
+  scheduled: number;
   lastProcessed: number;
   successRate: number;
+  pendingByKind: Record<OutboxJobKind, number>;
 }
 
 /**
- * Offline message queue with automatic retry and persistence
+ * Outbox for text, voice and image sends with automatic retry and persistence.
+ *
+ * Each job runs its steps in order (upload, create, confirm) and resumes at
+ * the failed step on retry. Jobs in the same conversation are sent strictly
+ * in the order they were queued. Every state change is reported through a
+ * single "job_updated" event.
+ *
+ * Scheduled ("send later") jobs are persisted like any other job and wait
+ * with status "scheduled" until they are due, so they go out on time after
+ * an app restart. They are ordered by their due time, not the queue.
  */
 export class OfflineMessageQueue extends EventEmitter {
   private queue: Map<string, QueuedMessage> = new Map();
   private processing = new Set<string>();
+  private cancelers = new Map<string, () => void>();
+  private canceled = new Set<string>();
+  private initPromise: Promise<void> | null = null;
   private isOnline = false;
   private isProcessing = false;
   private processingTimer: NodeJS.Timeout | null = null;
+  // Flipped off when the backend has no scheduled-send endpoint
+  private serverScheduling = true;
+  // Signed-in user; only their jobs are sent
+  private userId: string | null = null;
 
-  private readonly options: Required<QueueOptions>;
+  private readonly options: Required<Omit<QueueOptions, "cipher">>;
   private readonly apiClient: MessagingAPI;
+  private readonly cipher: MessageCipher | null;
 
   // Statistics
   private stats = {
@@ -66,7 +187,9 @@ export class OfflineMessageQueue extends EventEmitter {
       maxRetryDelay: options.maxRetryDelay || 30000, // 30 seconds
       storageKey: options.storageKey || "offline_message_queue",
       batchSize: options.batchSize || 5,
+      uploaders: options.uploaders || {},
     };
+    this.cipher = options.cipher || null;
   }
 
   /**
@@ -112,7 +235,15 @@ export class OfflineMessageQueue extends EventEmitter {
   /**
    * Initialize the queue by loading persisted messages
    */
-  async initialize(): Promise<void> {
+  initialize(): Promise<void> {
+    // Shared instances are initialized by several owners
+    if (!this.initPromise) {
+      this.initPromise = this.loadAndAnnounce();
+    }
+    return this.initPromise;
+  }
+
+  private async loadAndAnnounce(): Promise<void> {
     try {
       await this.loadFromStorage();
       this.emit("initialized", { queueSize: this.queue.size });
@@ -125,6 +256,33 @@ export class OfflineMessageQueue extends EventEmitter {
     }
   }
 
+  /**
+   * Scope sending to the signed-in user. Jobs another account queued on
+   * this device are dropped rather than sent under this session.
+   */
+  setUser(userId: string | null): void {
+    if (this.userId === userId) return;
+    this.userId = userId;
+    if (userId) {
+      this.dropForeignJobs().catch((error) =>
+        console.error("Failed to drop another user's queued messages:", error)
+      );
+    }
+  }
+
+  private isForeignJob(job: QueuedMessage): boolean {
+    return !!this.userId && job.message.fromUserId !== this.userId;
+  }
+
+  private async dropForeignJobs(): Promise<void> {
+    await this.initialize();
+    for (const job of Array.from(this.queue.values())) {
+      if (this.isForeignJob(job)) {
+        await this.dequeue(job.id);
+      }
+    }
+  }
+
   /**
    * Add a message to the queue
    */
@@ -132,16 +290,56 @@ export class OfflineMessageQueue extends EventEmitter {
     messageData: Omit<Message, "_id">,
     priority: "high" | "normal" | "low" = "normal"
   ): Promise<string> {
+    return this.enqueueJob({ kind: "text", message: messageData, priority });
+  }
+
+  /**
+   * Add a text, voice or image send to the outbox
+   */
+  async enqueueJob({
+    kind,
+    message,
+    attachment,
+    priority = "normal",
+    scheduledFor,
+  }: EnqueueJobInput): Promise<string> {
+    if (kind !== "text" && !attachment) {
+      throw new Error(`A ${kind} message needs an attachment`);
+    }
+    if (scheduledFor !== undefined && kind !== "text") {
+      throw new Error("Only text messages can be scheduled");
+    }
+
     const queuedMessage: QueuedMessage = {
       id: this.generateId(),
-      message: messageData,
+      kind,
+      // Every attempt of this job reuses the id, so retries are idempotent
+      message: {
+        ...message,
+        clientMessageId: message.clientMessageId || generateClientMessageId(),
+      },
+      attachment,
+      steps: this.planSteps(
+        kind,
+        message.conversationId,
+        scheduledFor !== undefined
+      ),
+      stepIndex: 0,
+      stepResults: {},
+      status: scheduledFor !== undefined ? "scheduled" : "queued",
+      progress: 0,
       attempts: 0,
       maxAttempts: this.options.maxRetries,
       lastAttempt: 0,
       nextRetry: Date.now(),
       priority,
       createdAt: Date.now(),
+      scheduledFor,
     };
+    queuedMessage.nextRetry = Math.max(
+      queuedMessage.nextRetry,
+      this.getDueAt(queuedMessage)
+    );
 
     this.queue.set(queuedMessage.id, queuedMessage);
 
@@ -150,9 +348,11 @@ export class OfflineMessageQueue extends EventEmitter {
 
     this.emit("message_queued", {
       id: queuedMessage.id,
+      kind,
       priority,
       queueSize: this.queue.size,
     });
+    this.emitJobUpdate(queuedMessage);
 
     // Try to process immediately if online
     if (this.isOnline && !this.isProcessing) {
@@ -162,19 +362,61 @@ export class OfflineMessageQueue extends EventEmitter {
     return queuedMessage.id;
   }
 
+  /**
+   * Steps for a new job
+   */
+  private planSteps(
+    kind: OutboxJobKind,
+    conversationId: string,
+    scheduled: boolean
+  ): OutboxStep[] {
+    const steps =
+      scheduled &&
+      this.serverScheduling &&
+      typeof this.apiClient.scheduleMessage === "function"
+        ? SCHEDULED_STEPS
+        : OUTBOX_STEPS[kind];
+    // Decided once, so a job never goes out in plaintext after a restart
+    return this.cipher?.isEncrypted(conversationId)
+      ? ["encrypt", ...steps]
+      : steps;
+  }
+
+  /**
+   * When a scheduled job may run its next step. Encrypting and handing the
+   * job to the server happen right away; creating the message waits for the
+   * due time, and confirming a server-held send gives the server a moment.
+   */
+  private getDueAt(job: QueuedMessage): number {
+    const step = job.steps[job.stepIndex];
+    if (!job.scheduledFor || (step !== "create" && step !== "confirm")) {
+      return 0;
+    }
+    return job.stepResults.scheduledId
+      ? job.scheduledFor + SERVER_DELIVERY_GRACE_MS
+      : job.scheduledFor;
+  }
+
   /**
    * Remove a message from the queue
    */
   async dequeue(messageId: string): Promise<boolean> {
+    const job = this.queue.get(messageId);
     const removed = this.queue.delete(messageId);
     this.processing.delete(messageId);
 
-    if (removed) {
+    if (job) {
       await this.saveToStorage();
       this.emit("message_dequeued", {
         id: messageId,
         queueSize: this.queue.size,
       });
+      this.emitJobUpdate(job, true);
+
+      // Dismissing a failed send unblocks the rest of its conversation
+      if (job.status === "failed" && this.isOnline) {
+        this.processQueue();
+      }
     }
 
     return removed;
@@ -241,10 +483,10 @@ export class OfflineMessageQueue extends EventEmitter {
   }
 
   /**
-   * Process a single message
+   * Run the remaining steps of a job
    */
   private async processMessage(queuedMessage: QueuedMessage): Promise<void> {
-    const { id, message } = queuedMessage;
+    const { id } = queuedMessage;
 
     if (this.processing.has(id)) {
       return; // Already processing
@@ -253,6 +495,7 @@ export class OfflineMessageQueue extends EventEmitter {
     this.processing.add(id);
     queuedMessage.attempts++;
     queuedMessage.lastAttempt = Date.now();
+    queuedMessage.status = "running";
 
     this.emit("message_processing", {
       id,
@@ -261,42 +504,81 @@ export class OfflineMessageQueue extends EventEmitter {
     });
 
     try {
-      // Send the message
-      const response = await this.apiClient.sendMessage({
-        conversationId: message.conversationId,
-        fromUserId: message.fromUserId,
-        toUserId: message.toUserId,
-        text: message.text,
-        type: message.type,
-        audioStorageId: message.audioStorageId,
-        duration: message.duration,
-        fileSize: message.fileSize,
-        mimeType: message.mimeType,
-      });
+      while (queuedMessage.stepIndex < queuedMessage.steps.length) {
+        const dueAt = this.getDueAt(queuedMessage);
+        if (dueAt > Date.now()) {
+          // Not an attempt: wait for the due time without using up retries
+          queuedMessage.status = "scheduled";
+          queuedMessage.attempts = 0;
+          queuedMessage.nextRetry = dueAt;
+          await this.saveToStorage();
+          this.emitJobUpdate(queuedMessage);
+          return;
+        }
+
+        const step = queuedMessage.steps[queuedMessage.stepIndex];
+        this.setStepProgress(queuedMessage, 0);
+
+        const response = await this.runStep(step, queuedMessage);
+
+        if (this.canceled.has(id)) {
+          return; // Canceled while the step was in flight
+        }
+
+        if (!response.success && this.isUnsupportedSchedule(step, response)) {
+          // Send from this device at the due time instead
+          this.serverScheduling = false;
+          queuedMessage.steps = [
+            ...queuedMessage.steps.slice(0, queuedMessage.stepIndex),
+            ...OUTBOX_STEPS[queuedMessage.kind],
+          ];
+          await this.saveToStorage();
+          continue;
+        }
 
-      if (response.success) {
-        // Success - remove from queue
-        await this.dequeue(id);
-
-        this.stats.totalProcessed++;
-        this.stats.totalSuccessful++;
-        this.stats.lastProcessedAt = Date.now();
-
-        this.emit("message_sent", {
-          id,
-          message: response.data,
-          attempts: queuedMessage.attempts,
-        });
-      } else {
-        // API returned error
-        await this.handleMessageError(queuedMessage, {
-          type: this.classifyApiError(response.error),
-          message: response.error?.message || "Unknown API error",
-          details: response.error,
-          recoverable: this.isRecoverableError(response.error),
-        });
+        if (!response.success) {
+          await this.handleMessageError(queuedMessage, {
+            type: this.classifyApiError(response.error),
+            message: response.error?.message || `Failed to ${step} message`,
+            details: response.error,
+            recoverable: this.isRecoverableError(response.error),
+          });
+          return;
+        }
+
+        queuedMessage.stepResults = {
+          ...queuedMessage.stepResults,
+          ...response.data,
+        };
+        queuedMessage.stepIndex++;
+
+        // Persist finished steps so a restart never re-uploads
+        await this.saveToStorage();
       }
+
+      queuedMessage.status = "sent";
+      queuedMessage.progress = 1;
+      queuedMessage.error = undefined;
+      this.emitJobUpdate(queuedMessage);
+
+      await this.dequeue(id);
+
+      this.stats.totalProcessed++;
+      this.stats.totalSuccessful++;
+      this.stats.lastProcessedAt = Date.now();
+
+      this.emit("message_sent", {
+        id,
+        kind: queuedMessage.kind,
+        conversationId: queuedMessage.message.conversationId,
+        message: this.sentMessage(queuedMessage),
+        scheduledFor: queuedMessage.scheduledFor,
+        attempts: queuedMessage.attempts,
+      });
     } catch (error) {
+      if (this.canceled.has(id)) {
+        return;
+      }
       // Network or other error
       await this.handleMessageError(queuedMessage, {
         type: MessagingErrorType.NETWORK_ERROR,
@@ -306,7 +588,252 @@ export class OfflineMessageQueue extends EventEmitter {
       });
     } finally {
       this.processing.delete(id);
+      this.cancelers.delete(id);
+      this.canceled.delete(id);
+    }
+  }
+
+  /**
+   * Whether a schedule step failed only because the backend can't hold
+   * scheduled sends
+   */
+  private isUnsupportedSchedule(
+    step: OutboxStep,
+    response: ApiResponse<OutboxStepResults>
+  ): boolean {
+    const code = response.error?.code || "";
+    return (
+      step === "schedule" &&
+      (code === "HTTP_404" ||
+        code === "NOT_FOUND" ||
+        code === "SCHEDULE_UNAVAILABLE")
+    );
+  }
+
+  /**
+   * Dispatch one step to its handler
+   */
+  private runStep(
+    step: OutboxStep,
+    job: QueuedMessage
+  ): Promise<ApiResponse<OutboxStepResults>> {
+    const context: OutboxStepContext = {
+      apiClient: this.apiClient,
+      onProgress: (progress) => this.setStepProgress(job, progress),
+      onCancel: (cancel) => this.cancelers.set(job.id, cancel),
+    };
+
+    switch (step) {
+      case "encrypt":
+        return this.encryptMessage(job);
+      case "upload": {
+        const uploader = this.options.uploaders[job.kind];
+        if (!uploader) {
+          return Promise.resolve({
+            success: false,
+            error: {
+              code: "NO_UPLOADER",
+              message: `No uploader registered for ${job.kind} messages`,
+            },
+          });
+        }
+        return uploader(job, context);
+      }
+      case "schedule":
+        return this.scheduleMessage(job);
+      case "create":
+        return this.createMessage(job);
+      case "confirm":
+        return this.confirmMessage(job);
+    }
+  }
+
+  /**
+   * Seal the message, and encrypt its attachment, for every device in the
+   * conversation
+   */
+  private async encryptMessage(
+    job: QueuedMessage
+  ): Promise<ApiResponse<OutboxStepResults>> {
+    if (!this.cipher) {
+      return {
+        success: false,
+        error: {
+          code: "ENCRYPTION_FAILED",
+          message: "Encryption is not available",
+        },
+      };
+    }
+    return this.cipher.encryptMessage(job.message, job.attachment);
+  }
+
+  /**
+   * Hand a scheduled send to the server, which delivers it at the due time
+   * even if this device is offline by then
+   */
+  private async scheduleMessage(
+    job: QueuedMessage
+  ): Promise<ApiResponse<OutboxStepResults>> {
+    const { message, stepResults } = job;
+    if (!this.apiClient.scheduleMessage || !job.scheduledFor) {
+      return {
+        success: false,
+        error: {
+          code: "SCHEDULE_UNAVAILABLE",
+          message: "Scheduled sending is not available",
+        },
+      };
+    }
+
+    const response = await this.apiClient.scheduleMessage({
+      conversationId: message.conversationId,
+      fromUserId: message.fromUserId,
+      toUserId: message.toUserId,
+      text: stepResults.encrypted ? "" : message.text,
+      type: message.type,
+      clientMessageId: message.clientMessageId,
+      encrypted: stepResults.encrypted,
+      sendAt: job.scheduledFor,
+    });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
     }
+    return { success: true, data: { scheduledId: response.data.scheduledId } };
+  }
+
+  /**
+   * Create the message on the server, referencing any uploaded blob
+   */
+  private async createMessage(
+    job: QueuedMessage
+  ): Promise<ApiResponse<OutboxStepResults>> {
+    const { message, attachment, stepResults } = job;
+    const peaks = attachment?.peaks;
+    // Sealed sends carry their media details inside the envelope only
+    const sealed = !!stepResults.encrypted;
+
+    const response = await this.apiClient.sendMessage({
+      conversationId: message.conversationId,
+      fromUserId: message.fromUserId,
+      toUserId: message.toUserId,
+      text: sealed ? "" : message.text,
+      type: message.type,
+      audioStorageId: stepResults.storageId || message.audioStorageId,
+      duration: sealed ? undefined : message.duration,
+      transcript: sealed ? undefined : message.transcript,
+      transcriptLanguage: sealed ? undefined : message.transcriptLanguage,
+      fileSize: sealed ? undefined : message.fileSize || attachment?.fileSize,
+      mimeType: sealed
+        ? undefined
+        : message.mimeType || attachment?.contentType,
+      clientMessageId: message.clientMessageId,
+      encrypted: stepResults.encrypted,
+      ...(!sealed && Array.isArray(peaks) && peaks.length
+        ? { voiceWaveform: peaks }
+        : {}),
+    });
+
+    if (!response.success) {
+      return { success: false, error: response.error };
+    }
+    return { success: true, data: { message: response.data } };
+  }
+
+  /**
+   * Make sure the server knows the message. When the create or upload step
+   * did not echo it back, look it up by clientMessageId, which finds it
+   * however many messages came after. Failing that, search the latest page
+   * of the conversation, by clientMessageId or, for servers that drop it,
+   * by sender, type and time.
+   */
+  private async confirmMessage(
+    job: QueuedMessage
+  ): Promise<ApiResponse<OutboxStepResults>> {
+    if (job.stepResults.message?._id) {
+      return { success: true, data: {} };
+    }
+
+    const { message } = job;
+    if (
+      message.clientMessageId &&
+      typeof this.apiClient.getMessageByClientId === "function"
+    ) {
+      const lookup = await this.apiClient.getMessageByClientId(
+        message.conversationId,
+        message.clientMessageId
+      );
+      if (lookup.success && lookup.data) {
+        return { success: true, data: { message: lookup.data } };
+      }
+    }
+
+    const response = await this.apiClient.getMessages(message.conversationId, {
+      limit: 20,
+    });
+    if (!response.success) {
+      return { success: false, error: response.error };
+    }
+
+    const candidates = response.data || [];
+    const match =
+      candidates.find(
+        (m) =>
+          !!message.clientMessageId &&
+          m.clientMessageId === message.clientMessageId
+      ) ||
+      candidates.find(
+        (m) =>
+          !m.clientMessageId &&
+          m.fromUserId === message.fromUserId &&
+          m.type === message.type &&
+          m.createdAt >=
+            (job.scheduledFor || job.createdAt) - CONFIRM_WINDOW_MS &&
+          (message.type !== "text" || m.text === message.text)
+      );
+
+    if (!match) {
+      return {
+        success: false,
+        error: {
+          code: "CONFIRM_PENDING",
+          message: "Message is not visible on the server yet",
+        },
+      };
+    }
+    return { success: true, data: { message: match } };
+  }
+
+  /**
+   * The server's copy of a sent job. For encrypted sends the server only
+   * echoes ciphertext, so the plaintext is restored from the job.
+   */
+  private sentMessage(job: QueuedMessage): Message | undefined {
+    const sent = job.stepResults.message;
+    if (!sent || !job.stepResults.encrypted) return sent;
+    return {
+      ...sent,
+      text: job.message.text,
+      duration: job.message.duration,
+      voiceWaveform: job.attachment?.peaks?.length
+        ? job.attachment.peaks
+        : job.message.voiceWaveform,
+      width: job.attachment?.width,
+      height: job.attachment?.height,
+      transcript: job.message.transcript,
+      transcriptLanguage: job.message.transcriptLanguage,
+      encrypted: sent.encrypted || job.stepResults.encrypted,
+    };
+  }
+
+  private setStepProgress(job: QueuedMessage, stepProgress: number): void {
+    const clamped = Math.max(0, Math.min(1, stepProgress));
+    job.progress = (job.stepIndex + clamped) / job.steps.length;
+    this.emitJobUpdate(job);
+  }
+
+  private emitJobUpdate(job: QueuedMessage, removed = false): void {
+    this.emit("job_updated", { job: { ...job }, removed });
   }
 
   /**
@@ -347,8 +874,12 @@ export class OfflineMessageQueue extends EventEmitter {
       queuedMessage.attempts >= queuedMessage.maxAttempts ||
       !error.recoverable
     ) {
-      // Max attempts reached or non-recoverable error
-      await this.dequeue(queuedMessage.id);
+      // Max attempts reached or non-recoverable error: keep the job so the
+      // user can retry it without uploading again
+      queuedMessage.status = "failed";
+      queuedMessage.attempts = queuedMessage.maxAttempts;
+      await this.saveToStorage();
+      this.emitJobUpdate(queuedMessage);
 
       this.stats.totalProcessed++;
       this.stats.totalFailed++;
@@ -367,7 +898,9 @@ export class OfflineMessageQueue extends EventEmitter {
       );
 
       queuedMessage.nextRetry = Date.now() + delay;
+      queuedMessage.status = "retrying";
       await this.saveToStorage();
+      this.emitJobUpdate(queuedMessage);
 
       this.emit("message_retry_scheduled", {
         id: queuedMessage.id,
@@ -379,19 +912,35 @@ export class OfflineMessageQueue extends EventEmitter {
   }
 
   /**
-   * Get messages ready for processing
+   * Get messages ready for processing. Only the oldest unsent job of each
+   * conversation is eligible, so sends never overtake each other; a failed
+   * job keeps its conversation blocked until it is retried or dismissed.
+   * Scheduled jobs go out at their own time and never hold up other sends.
    */
   private getReadyMessages(): QueuedMessage[] {
     const now = Date.now();
-    const ready = Array.from(this.queue.values())
-      .filter(
-        (msg) =>
-          !this.processing.has(msg.id) &&
-          msg.nextRetry <= now &&
-          msg.attempts < msg.maxAttempts
-      )
+    const heads = new Map<string, QueuedMessage>();
+    const unsent = Array.from(this.queue.values()).filter(
+      (msg) => msg.status !== "sent" && !this.isForeignJob(msg)
+    );
+
+    unsent
+      .filter((msg) => !msg.scheduledFor)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach((msg) => {
+        if (!heads.has(msg.message.conversationId)) {
+          heads.set(msg.message.conversationId, msg);
+        }
+      });
+
+    const ready = [
+      ...heads.values(),
+      ...unsent.filter((msg) => !!msg.scheduledFor),
+    ]
+      .filter((msg) => msg.status !== "failed")
+      .filter((msg) => !this.processing.has(msg.id) && msg.nextRetry <= now)
       .sort((a, b) => {
-        // Sort by priority first, then by creation time
+        // Sort by priority first, then by creation (or due) time
         const priorityOrder = { high: 0, normal: 1, low: 2 };
         const priorityDiff =
           priorityOrder[a.priority] - priorityOrder[b.priority];
@@ -400,7 +949,9 @@ export class OfflineMessageQueue extends EventEmitter {
           return priorityDiff;
         }
 
-        return a.createdAt - b.createdAt;
+        return (
+          (a.scheduledFor || a.createdAt) - (b.scheduledFor || b.createdAt)
+        );
       });
 
     return ready;
@@ -416,11 +967,15 @@ export class OfflineMessageQueue extends EventEmitter {
 
     // Find the next message that will be ready
     const nextMessage = Array.from(this.queue.values())
-      .filter((msg) => msg.attempts < msg.maxAttempts)
+      .filter((msg) => msg.status !== "failed" && !this.processing.has(msg.id))
       .sort((a, b) => a.nextRetry - b.nextRetry)[0];
 
     if (nextMessage) {
-      const delay = Math.max(0, nextMessage.nextRetry - Date.now());
+      // Scheduled sends can be days away; long waits are re-armed on wake
+      const delay = Math.min(
+        Math.max(0, nextMessage.nextRetry - Date.now()),
+        MAX_TIMER_DELAY_MS
+      );
       this.processingTimer = setTimeout(() => {
         this.processQueue();
       }, delay);
@@ -449,6 +1004,11 @@ export class OfflineMessageQueue extends EventEmitter {
         return MessagingErrorType.SUBSCRIPTION_REQUIRED;
       case "USER_BLOCKED":
         return MessagingErrorType.USER_BLOCKED;
+      case "UPLOAD_FAILED":
+      case "UPLOAD_ERROR":
+        return MessagingErrorType.FILE_UPLOAD_FAILED;
+      case "ENCRYPTION_FAILED":
+        return MessagingErrorType.ENCRYPTION_FAILED;
       default:
         return MessagingErrorType.UNKNOWN_ERROR;
     }
@@ -466,6 +1026,7 @@ export class OfflineMessageQueue extends EventEmitter {
       MessagingErrorType.SUBSCRIPTION_REQUIRED,
       MessagingErrorType.USER_BLOCKED,
       MessagingErrorType.MESSAGE_TOO_LONG,
+      MessagingErrorType.ENCRYPTION_FAILED,
     ];
 
     const errorType = this.classifyApiError(error);
@@ -491,8 +1052,9 @@ export class OfflineMessageQueue extends EventEmitter {
 
         if (data.queue && Array.isArray(data.queue)) {
           this.queue.clear();
-          data.queue.forEach((item: QueuedMessage) => {
-            this.queue.set(item.id, item);
+          data.queue.forEach((item: Partial<QueuedMessage>) => {
+            const job = this.normalizeJob(item);
+            this.queue.set(job.id, job);
           });
         }
 
@@ -505,6 +1067,33 @@ export class OfflineMessageQueue extends EventEmitter {
     }
   }
 
+  /**
+   * Fill in outbox fields for text-only entries persisted by older builds,
+   * and requeue jobs interrupted by an app restart
+   */
+  private normalizeJob(item: Partial<QueuedMessage>): QueuedMessage {
+    const kind = item.kind || "text";
+    const attempts = item.attempts || 0;
+    const maxAttempts = item.maxAttempts || this.options.maxRetries;
+    const failed = item.status === "failed" || attempts >= maxAttempts;
+
+    const job: QueuedMessage = {
+      ...(item as QueuedMessage),
+      kind,
+      steps: item.steps || OUTBOX_STEPS[kind],
+      stepIndex: item.stepIndex || 0,
+      stepResults: item.stepResults || {},
+      status: failed ? "failed" : "queued",
+      progress: item.progress || 0,
+      attempts,
+      maxAttempts,
+    };
+    if (!failed && this.getDueAt(job) > Date.now()) {
+      job.status = "scheduled";
+    }
+    return job;
+  }
+
   /**
    * Save queue to persistent storage
    */
@@ -527,10 +1116,23 @@ export class OfflineMessageQueue extends EventEmitter {
    */
   getStats(): QueueStats {
     const messages = Array.from(this.queue.values());
-    const pending = messages.filter((m) => m.attempts < m.maxAttempts).length;
-    const failed = messages.filter((m) => m.attempts >= m.maxAttempts).length;
+    const pendingMessages = messages.filter(
+      (m) => m.status !== "failed" && m.status !== "scheduled"
+    );
+    const pending = pendingMessages.length;
+    const failed = messages.filter((m) => m.status === "failed").length;
+    const scheduled = messages.length - pending - failed;
     const processing = this.processing.size;
 
+    const pendingByKind: Record<OutboxJobKind, number> = {
+      text: 0,
+      voice: 0,
+      image: 0,
+    };
+    pendingMessages.forEach((m) => {
+      pendingByKind[m.kind]++;
+    });
+
     const successRate =
       this.stats.totalProcessed > 0
         ? (this.stats.totalSuccessful / this.stats.totalProcessed) * 100
@@ -541,9 +1143,130 @@ export class OfflineMessageQueue extends EventEmitter {
       pending,
       failed,
       processing,
+      scheduled,
       lastProcessed: this.stats.lastProcessedAt,
       successRate,
+      pendingByKind,
+    };
+  }
+
+  /**
+   * Outbox jobs in queue order, optionally for one conversation
+   */
+  getJobs(conversationId?: string): OutboxJob[] {
+    return Array.from(this.queue.values())
+      .filter(
+        (job) =>
+          !conversationId || job.message.conversationId === conversationId
+      )
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((job) => ({ ...job }));
+  }
+
+  /**
+   * Scheduled sends that haven't gone out yet, soonest first
+   */
+  getScheduledJobs(conversationId?: string): OutboxJob[] {
+    return this.getJobs(conversationId)
+      .filter((job) => !!job.scheduledFor)
+      .sort((a, b) => a.scheduledFor! - b.scheduledFor!);
+  }
+
+  /**
+   * Change the text or due time of a scheduled send. A copy the server is
+   * already holding is withdrawn first and the job starts over.
+   */
+  async updateScheduledJob(
+    messageId: string,
+    changes: { text?: string; scheduledFor?: number }
+  ): Promise<ApiResponse<OutboxJob>> {
+    const job = this.queue.get(messageId);
+    const blocked = this.checkScheduledJob(job);
+    if (blocked) {
+      return blocked;
+    }
+
+    const withdrawn = await this.withdrawScheduled(job!);
+    if (!withdrawn.success) {
+      return { success: false, error: withdrawn.error };
+    }
+
+    const updated = job!;
+    updated.message = {
+      ...updated.message,
+      text: changes.text ?? updated.message.text,
+      // The server has seen the old id on the withdrawn copy
+      clientMessageId: generateClientMessageId(),
     };
+    updated.scheduledFor = changes.scheduledFor ?? updated.scheduledFor;
+    updated.steps = this.planSteps(
+      updated.kind,
+      updated.message.conversationId,
+      true
+    );
+    updated.stepIndex = 0;
+    updated.stepResults = {};
+    updated.status = "scheduled";
+    updated.progress = 0;
+    updated.attempts = 0;
+    updated.error = undefined;
+    updated.nextRetry = Math.max(Date.now(), this.getDueAt(updated));
+
+    await this.saveToStorage();
+    this.emitJobUpdate(updated);
+
+    if (this.isOnline) {
+      this.processQueue();
+    }
+
+    return { success: true, data: { ...updated } };
+  }
+
+  /**
+   * Cancel a scheduled send, withdrawing it from the server if it is held there
+   */
+  async cancelScheduledJob(messageId: string): Promise<ApiResponse<void>> {
+    const job = this.queue.get(messageId);
+    const blocked = this.checkScheduledJob(job);
+    if (blocked) {
+      return blocked;
+    }
+
+    const withdrawn = await this.withdrawScheduled(job!);
+    if (!withdrawn.success) {
+      return withdrawn;
+    }
+
+    await this.dequeue(messageId);
+    return { success: true };
+  }
+
+  private checkScheduledJob(
+    job: QueuedMessage | undefined
+  ): ApiResponse<never> | null {
+    if (!job?.scheduledFor) {
+      return {
+        success: false,
+        error: { code: "NOT_FOUND", message: "Scheduled message not found" },
+      };
+    }
+    if (this.processing.has(job.id)) {
+      return {
+        success: false,
+        error: { code: "JOB_BUSY", message: "This message is being sent" },
+      };
+    }
+    return null;
+  }
+
+  private async withdrawScheduled(
+    job: QueuedMessage
+  ): Promise<ApiResponse<void>> {
+    const { scheduledId } = job.stepResults;
+    if (!scheduledId || !this.apiClient.cancelScheduledMessage) {
+      return { success: true };
+    }
+    return this.apiClient.cancelScheduledMessage(scheduledId);
   }
 
   // (Original getQueuedMessages returning QueuedMessage[] removed in favor of compatibility variant above)
@@ -553,7 +1276,7 @@ export class OfflineMessageQueue extends EventEmitter {
    */
   getFailedMessages(): QueuedMessage[] {
     return Array.from(this.queue.values()).filter(
-      (msg) => msg.attempts >= msg.maxAttempts
+      (msg) => msg.status === "failed"
     );
   }
 
@@ -567,12 +1290,15 @@ export class OfflineMessageQueue extends EventEmitter {
       return false;
     }
 
-    // Reset attempts and schedule for immediate processing
+    // Reset attempts and schedule for immediate processing; completed
+    // steps are kept so the job resumes where it failed
     message.attempts = 0;
     message.nextRetry = Date.now();
     message.error = undefined;
+    message.status = "queued";
 
     await this.saveToStorage();
+    this.emitJobUpdate(message);
 
     this.emit("message_retry_manual", {
       id: messageId,
@@ -587,6 +1313,38 @@ export class OfflineMessageQueue extends EventEmitter {
     return true;
   }
 
+  /**
+   * Stop a job, aborting its in-flight upload. The job stays in the outbox
+   * as failed so it can be retried or dismissed.
+   */
+  async cancelJob(messageId: string): Promise<boolean> {
+    const job = this.queue.get(messageId);
+
+    if (!job || job.status === "failed") {
+      return false;
+    }
+
+    if (this.processing.has(messageId)) {
+      this.canceled.add(messageId);
+      try {
+        this.cancelers.get(messageId)?.();
+      } catch {}
+    }
+
+    job.status = "failed";
+    job.attempts = job.maxAttempts;
+    job.error = {
+      type: MessagingErrorType.UNKNOWN_ERROR,
+      message: "Canceled",
+      recoverable: true,
+    };
+
+    await this.saveToStorage();
+    this.emitJobUpdate(job);
+
+    return true;
+  }
+
   /**
    * Clear failed messages
    */
@@ -604,6 +1362,13 @@ export class OfflineMessageQueue extends EventEmitter {
    * Clear all messages from queue
    */
   async clearAll(): Promise<void> {
+    // Stop sends in flight too, e.g. when the user signs out
+    for (const id of this.processing) {
+      this.canceled.add(id);
+      try {
+        this.cancelers.get(id)?.();
+      } catch {}
+    }
     this.queue.clear();
     this.processing.clear();
 
@@ -629,5 +1394,7 @@ export class OfflineMessageQueue extends EventEmitter {
     this.removeAllListeners();
     this.queue.clear();
     this.processing.clear();
+    this.cancelers.clear();
+    this.canceled.clear();
   }
 }
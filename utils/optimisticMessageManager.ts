@@ -0,0 +1,137 @@
+import { Message } from "../types/message";
+import { MessagingError, OptimisticMessageManager } from "../types/messaging";
+import { generateClientMessageId } from "./messageUtils";
+import { messageCache } from "./MessageCache";
+
+export interface OptimisticMessageOptions {
+  // Mirror optimistic messages into the shared message cache
+  cacheMessages?: boolean;
+}
+
+/**
+ * Tracks messages shown before the server has confirmed them.
+ *
+ * Every optimistic message carries a clientMessageId. Confirmation reconciles
+ * by that id rather than by the temporary id, so a copy of the same send that
+ * reached the cache first (via sync or realtime) is replaced instead of
+ * showing up as a second bubble.
+ */
+export class OptimisticMessageTracker implements OptimisticMessageManager {
+  private messages = new Map<string, Message>();
+  private byClientId = new Map<string, string>();
+  private readonly options: Required<OptimisticMessageOptions>;
+
+  constructor(options: OptimisticMessageOptions = {}) {
+    this.options = {
+      cacheMessages: options.cacheMessages !== false,
+    };
+  }
+
+  /**
+   * Show a message immediately; returns its temporary id
+   */
+  addOptimisticMessage(messageData: Omit<Message, "_id">): string {
+    const tempId = `optimistic_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+
+    const message: Message = {
+      ...messageData,
+      _id: tempId,
+      clientMessageId: messageData.clientMessageId || generateClientMessageId(),
+      status: "pending",
+      isOptimistic: true,
+      createdAt: messageData.createdAt || Date.now(),
+    };
+
+    this.messages.set(tempId, message);
+    this.byClientId.set(message.clientMessageId!, tempId);
+
+    if (this.options.cacheMessages) {
+      messageCache.addMessages(message.conversationId, [message]);
+    }
+
+    return tempId;
+  }
+
+  get(tempId: string): Message | undefined {
+    return this.messages.get(tempId);
+  }
+
+  /**
+   * Temporary id of the optimistic message for a server message, if any
+   */
+  findTempId(message: Pick<Message, "clientMessageId">): string | undefined {
+    return message.clientMessageId
+      ? this.byClientId.get(message.clientMessageId)
+      : undefined;
+  }
+
+  /**
+   * Replace the optimistic message, and any other local copy of the same
+   * send, with the server's version
+   */
+  confirmMessage(tempId: string, actualMessage: Message): void {
+    const optimistic = this.messages.get(tempId);
+    const clientMessageId =
+      actualMessage.clientMessageId || optimistic?.clientMessageId;
+    const conversationId =
+      actualMessage.conversationId || optimistic?.conversationId;
+
+    this.forget(tempId);
+
+    if (!this.options.cacheMessages || !conversationId) {
+      return;
+    }
+
+    const confirmed: Message = {
+      ...actualMessage,
+      clientMessageId,
+      isOptimistic: false,
+    };
+    const cached = messageCache.get(conversationId) || [];
+    cached
+      .filter(
+        (m) =>
+          m._id !== confirmed._id &&
+          (m._id === tempId ||
+            (!!clientMessageId && m.clientMessageId === clientMessageId))
+      )
+      .forEach((m) => messageCache.removeMessage(conversationId, m._id));
+
+    messageCache.addMessages(conversationId, [confirmed]);
+  }
+
+  /**
+   * Mark the optimistic message as failed; it stays visible for retry
+   */
+  rejectMessage(tempId: string, _error: MessagingError): void {
+    const optimistic = this.messages.get(tempId);
+    if (!optimistic) return;
+
+    this.forget(tempId);
+
+    if (this.options.cacheMessages) {
+      messageCache.updateMessage(optimistic.conversationId, tempId, {
+        status: "failed",
+      });
+    }
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+
+  clear(): void {
+    this.messages.clear();
+    this.byClientId.clear();
+  }
+
+  private forget(tempId: string): void {
+    const message = this.messages.get(tempId);
+    if (message?.clientMessageId) {
+      this.byClientId.delete(message.clientMessageId);
+    }
+    this.messages.delete(tempId);
+  }
+}
@@ -1,70 +1,146 @@
-// Cross-platform simple peaks generator for small audio clips
-// Returns an array of N normalized values [0..1]
-export async function computePeaksFromUri(
-  uri: string,
-  bars: number = 28
-): Promise<number[]> {
-  try {
-    if (typeof window !== "undefined" && typeof (window as any).AudioContext !== "undefined") {
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const res = await fetch(uri);
-      const arrayBuf = await res.arrayBuffer();
-      const audioBuf = await ctx.decodeAudioData(arrayBuf);
-      const channelData = audioBuf.getChannelData(0);
-      const samplesPerBar = Math.floor(channelData.length / bars);
-      const peaks: number[] = [];
-      for (let i = 0; i < bars; i++) {
-        const start = i * samplesPerBar;
-        const end = Math.min(channelData.length, start + samplesPerBar);
-        let max = 0;
-        for (let j = start; j < end; j++) {
-          const v = Math.abs(channelData[j]);
-          if (v > max) max = v;
-        }
-        peaks.push(max);
+// Waveform peaks for voice messages: one value in [0..1] per bar, sent with
+// the message as voiceWaveform so every client draws the same shape
+
+export const DEFAULT_WAVEFORM_BARS = 28;
+
+// Metering below this is drawn as silence
+const SILENCE_DB = -60;
+
+/**
+ * Recorder metering (dBFS, 0 is full scale) as a bar height. Linear in
+ * decibels, which tracks loudness of speech better than raw amplitude.
+ */
+export function meteringToLevel(db: number | undefined | null): number {
+  if (typeof db !== "number" || !isFinite(db)) return 0;
+  if (db >= 0) return 1;
+  if (db <= SILENCE_DB) return 0;
+  return (db - SILENCE_DB) / -SILENCE_DB;
+}
+
+/**
+ * Reduce levels to `bars` peaks (the loudest level in each slice),
+ * normalized so the loudest bar is 1
+ */
+export function resamplePeaks(
+  levels: number[],
+  bars: number = DEFAULT_WAVEFORM_BARS
+): number[] {
+  if (levels.length === 0 || bars <= 0) return [];
+
+  const peaks: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    const start = Math.floor((i * levels.length) / bars);
+    const end = Math.max(
+      start + 1,
+      Math.floor(((i + 1) * levels.length) / bars)
+    );
+    let max = 0;
+    for (let j = start; j < end && j < levels.length; j++) {
+      if (levels[j] > max) max = levels[j];
+    }
+    peaks.push(max);
+  }
+
+  const loudest = Math.max(...peaks);
+  if (loudest <= 0) return peaks;
+  // Two decimals is plenty for drawing and keeps the message small
+  return peaks.map(
+    (p) => Math.round(Math.max(0, Math.min(1, p / loudest)) * 100) / 100
+  );
+}
+
+/**
+ * Collects metering levels while recording. Memory stays bounded for long
+ * recordings: once full, neighbouring samples are merged and later samples
+ * are merged at the same rate, so every stored level covers equal time.
+ */
+export class WaveformCollector {
+  private levels: number[] = [];
+  private stride = 1;
+  private pending = 0;
+  private pendingCount = 0;
+
+  constructor(private maxSamples: number = 1024) {}
+
+  add(meteringDb: number | undefined | null): void {
+    if (typeof meteringDb !== "number") return;
+
+    this.pending = Math.max(this.pending, meteringToLevel(meteringDb));
+    this.pendingCount++;
+    if (this.pendingCount < this.stride) return;
+
+    this.levels.push(this.pending);
+    this.pending = 0;
+    this.pendingCount = 0;
+
+    if (this.levels.length >= this.maxSamples) {
+      const merged: number[] = [];
+      for (let i = 0; i < this.levels.length; i += 2) {
+        merged.push(Math.max(this.levels[i], this.levels[i + 1] ?? 0));
       }
-      // normalize to 0..1
-      const maxPeak = peaks.reduce((m, v) => (v > m ? v : m), 0) || 1;
-      return peaks.map((p) => Math.max(0, Math.min(1, p / maxPeak)));
+      this.levels = merged;
+      this.stride *= 2;
     }
-  } catch {
-    // ignore and fallback
   }
-  // Native or fallback: generate pseudo peaks by sampling bytes via fetch as blob
+
+  get sampleCount(): number {
+    return this.levels.length + (this.pendingCount > 0 ? 1 : 0);
+  }
+
+  toPeaks(bars: number = DEFAULT_WAVEFORM_BARS): number[] {
+    const levels =
+      this.pendingCount > 0 ? [...this.levels, this.pending] : this.levels;
+    return resamplePeaks(levels, bars);
+  }
+
+  reset(): void {
+    this.levels = [];
+    this.stride = 1;
+    this.pending = 0;
+    this.pendingCount = 0;
+  }
+}
+
+/**
+ * Peaks for an existing clip, decoded with Web Audio. Native has no decoder
+ * here, so this returns [] there; recordings made in the app get their
+ * peaks from metering instead (see WaveformCollector).
+ */
+export async function computePeaksFromUri(
+  uri: string,
+  bars: number = DEFAULT_WAVEFORM_BARS
+): Promise<number[]> {
+  const AudioContextClass =
+    typeof window !== "undefined"
+      ? (window as any).AudioContext || (window as any).webkitAudioContext
+      : undefined;
+  if (!AudioContextClass) return [];
+
+  const ctx = new AudioContextClass();
   try {
     const res = await fetch(uri);
-    const blob = await res.blob();
-    const reader = new FileReader();
-    const arrBuf: ArrayBuffer = await new Promise((resolve, reject) => {
-      reader.onload = () => resolve(reader.result as ArrayBuffer);
-      reader.onerror = reject;
-      reader.readAsArrayBuffer(blob);
-    });
-    const bytes = new Uint8Array(arrBuf);
-    const step = Math.max(1, Math.floor(bytes.length / bars));
-    const peaks: number[] = [];
-    for (let i = 0; i < bars; i++) {
-      let sum = 0;
-      let count = 0;
-      const start = i * step;
-      const end = Math.min(bytes.length, start + step);
+    const audioBuf = await ctx.decodeAudioData(await res.arrayBuffer());
+    const channelData: Float32Array = audioBuf.getChannelData(0);
+
+    // Loudest sample per slice; a few slices per bar smooths the resample
+    const slices = Math.min(channelData.length, bars * 8);
+    const levels: number[] = [];
+    for (let i = 0; i < slices; i++) {
+      const start = Math.floor((i * channelData.length) / slices);
+      const end = Math.floor(((i + 1) * channelData.length) / slices);
+      let max = 0;
       for (let j = start; j < end; j++) {
-        sum += bytes[j];
-        count++;
+        const v = Math.abs(channelData[j]);
+        if (v > max) max = v;
       }
-      const avg = count ? sum / count : 0;
-      peaks.push(avg / 255);
-    }
-    return peaks.map((p) => Math.max(0, Math.min(1, p)));
-  } catch {
-    // Last resort: random-ish stable values derived from uri hash
-    const seed = Array.from(uri).reduce((a, c) => (a * 33 + c.charCodeAt(0)) >>> 0, 5381);
-    const peaks: number[] = [];
-    let x = seed;
-    for (let i = 0; i < bars; i++) {
-      x = (1103515245 * x + 12345) % 2147483648;
-      peaks.push(((x / 2147483648) * 0.8) + 0.1); // 0.1..0.9
+      // Same scale as recorder metering, so both kinds of clip look alike
+      levels.push(meteringToLevel(20 * Math.log10(max)));
     }
-    return peaks;
+    return resamplePeaks(levels, bars);
+  } catch (error) {
+    console.warn("computePeaksFromUri: Failed to decode audio", error);
+    return [];
+  } finally {
+    ctx.close?.();
   }
 }
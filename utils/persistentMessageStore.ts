@@ -0,0 +1,643 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DisappearingTimerSetting, Message } from "../types/message";
+import { MessageCacheInterface, MessageCipher } from "../types/messaging";
+import { getNextExpiry, removeExpiredMessages } from "./disappearingMessages";
+
+export interface ConversationCursor {
+  oldestCreatedAt: number;
+  newestCreatedAt: number;
+  hasMoreOlder: boolean;
+}
+
+export interface StoredConversationMeta {
+  conversationId: string;
+  messageCount: number;
+  bytes: number;
+  lastAccessed: number;
+  updatedAt: number;
+  cursor: ConversationCursor;
+  // Earliest disappearing-message expiry in the shard, so expired shards can
+  // be purged without reading every one
+  nextExpiresAt?: number;
+}
+
+export interface PersistentMessageStoreOptions {
+  storageKey?: string;
+  maxBytes?: number; // total budget across all conversations
+  maxMessagesPerConversation?: number;
+  flushDelay?: number; // in milliseconds
+  // Opens end-to-end encrypted messages read back from disk
+  cipher?: Pick<MessageCipher, "decryptMessages">;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  cursor: ConversationCursor | null;
+  hasMore: boolean;
+}
+
+interface StoreIndex {
+  version: number;
+  conversations: Record<string, StoredConversationMeta>;
+  // Kept apart from conversation metadata so clearing or evicting a
+  // conversation's messages doesn't forget its timer
+  timers?: Record<string, DisappearingTimerSetting>;
+}
+
+const INDEX_VERSION = 1;
+
+// What an end-to-end encrypted message was opened into; never written out
+const PLAINTEXT_FIELDS = [
+  "duration",
+  "voiceWaveform",
+  "width",
+  "height",
+  "transcript",
+  "transcriptStatus",
+  "transcriptLanguage",
+  "decryptionFailed",
+] as const;
+
+/**
+ * An end-to-end encrypted message as it goes to disk: the envelope only,
+ * without the plaintext it was opened into
+ */
+function toStored(message: Message): Message {
+  if (!message.encrypted) return message;
+  const sealed: Message = { ...message, text: "" };
+  PLAINTEXT_FIELDS.forEach((field) => delete sealed[field]);
+  return sealed;
+}
+
+/**
+ * Durable on-device message store backed by AsyncStorage.
+ *
+ * Messages are sharded one key per conversation, with a small index holding
+ * per-conversation metadata (size, pagination cursor, last access) so the
+ * store can answer "what do we have locally" without reading every shard.
+ * Reads are served from an in-memory mirror of loaded conversations; writes
+ * are applied to the mirror immediately and flushed to disk shortly after.
+ * Expired disappearing messages are dropped on every read and write.
+ * End-to-end encrypted messages are stored as their envelope and opened
+ * again when read.
+ */
+export class PersistentMessageStore implements MessageCacheInterface {
+  private index: StoreIndex = { version: INDEX_VERSION, conversations: {} };
+  private loaded = new Map<string, Message[]>();
+  private loading = new Map<string, Promise<Message[]>>();
+  // Conversations whose on-disk shard has been folded into memory
+  private reconciled = new Set<string>();
+  private dirty = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private hydrated: Promise<void> | null = null;
+  private cipher: Pick<MessageCipher, "decryptMessages"> | null;
+
+  private readonly options: Required<
+    Omit<PersistentMessageStoreOptions, "cipher">
+  >;
+
+  constructor(options: PersistentMessageStoreOptions = {}) {
+    this.options = {
+      storageKey: options.storageKey || "message_store",
+      // Android caps AsyncStorage at ~6MB in total, shared with everything else
+      maxBytes: options.maxBytes || 3 * 1024 * 1024, // 3MB
+      maxMessagesPerConversation: options.maxMessagesPerConversation || 2000,
+      flushDelay: options.flushDelay ?? 250,
+    };
+    this.cipher = options.cipher || null;
+  }
+
+  /**
+   * Set the cipher for the shared store once encryption is set up
+   */
+  setCipher(cipher: Pick<MessageCipher, "decryptMessages"> | null): void {
+    this.cipher = cipher;
+  }
+
+  /**
+   * Load the store index from storage. Safe to call repeatedly.
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydrated) {
+      this.hydrated = this.loadIndex();
+    }
+    return this.hydrated;
+  }
+
+  /**
+   * Load a conversation's messages from disk into memory
+   */
+  async loadConversation(conversationId: string): Promise<Message[]> {
+    await this.hydrate();
+
+    const existing = this.getMessages(conversationId);
+    if (existing) {
+      return existing;
+    }
+
+    const pending = this.loading.get(conversationId);
+    if (pending) {
+      return pending;
+    }
+
+    const load = (async () => {
+      let messages: Message[] = [];
+      try {
+        if (this.index.conversations[conversationId]) {
+          const stored = await AsyncStorage.getItem(
+            this.shardKey(conversationId)
+          );
+          messages = await this.parseShard(stored);
+        }
+      } catch (error) {
+        console.error(
+          `PersistentMessageStore: Failed to load ${conversationId}:`,
+          error
+        );
+      }
+
+      // A write may have landed while we were reading; keep both
+      const current = this.loaded.get(conversationId);
+      const merged = current ? this.merge(messages, current) : messages;
+      const live = removeExpiredMessages(merged);
+      this.loaded.set(conversationId, live);
+      this.reconciled.add(conversationId);
+      this.touch(conversationId);
+      if (live !== merged) {
+        // Rewrite the shard without the messages that disappeared
+        this.updateMeta(conversationId, live);
+        this.markDirty(conversationId);
+      }
+      return [...live];
+    })();
+
+    this.loading.set(conversationId, load);
+    try {
+      return await load;
+    } finally {
+      this.loading.delete(conversationId);
+    }
+  }
+
+  /**
+   * Read a conversation's stored messages without keeping them in memory,
+   * for one-off passes over the whole store
+   */
+  async readConversation(conversationId: string): Promise<Message[]> {
+    await this.hydrate();
+
+    const loaded = this.loaded.get(conversationId);
+    if (loaded) {
+      return removeExpiredMessages([...loaded]);
+    }
+    if (!this.index.conversations[conversationId]) {
+      return [];
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(this.shardKey(conversationId));
+      return removeExpiredMessages(await this.parseShard(stored));
+    } catch (error) {
+      console.error(
+        `PersistentMessageStore: Failed to read ${conversationId}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Whether a conversation has been loaded into memory
+   */
+  isLoaded(conversationId: string): boolean {
+    return this.loaded.has(conversationId);
+  }
+
+  /**
+   * Whether the store holds any messages for a conversation (loaded or not)
+   */
+  has(conversationId: string): boolean {
+    return (
+      this.loaded.has(conversationId) ||
+      !!this.index.conversations[conversationId]
+    );
+  }
+
+  /**
+   * Every conversation with messages stored on this device
+   */
+  getConversationIds(): string[] {
+    return Array.from(
+      new Set([...Object.keys(this.index.conversations), ...this.loaded.keys()])
+    );
+  }
+
+  getMessages(conversationId: string): Message[] | null {
+    const messages = this.loaded.get(conversationId);
+    if (!messages) {
+      return null;
+    }
+    this.touch(conversationId);
+
+    const live = removeExpiredMessages(messages);
+    if (live !== messages) {
+      this.setMessages(conversationId, live);
+    }
+    return [...live];
+  }
+
+  setMessages(conversationId: string, messages: Message[]): void {
+    const sorted = [...removeExpiredMessages(messages)].sort(
+      (a, b) => (a.createdAt || 0) - (b.createdAt || 0)
+    );
+    this.loaded.set(conversationId, sorted);
+    this.updateMeta(conversationId, sorted);
+    this.markDirty(conversationId);
+  }
+
+  addMessage(conversationId: string, message: Message): void {
+    this.addMessages(conversationId, [message]);
+  }
+
+  /**
+   * Merge messages into a conversation, replacing any with the same ID
+   */
+  addMessages(conversationId: string, messages: Message[]): void {
+    const existing = this.loaded.get(conversationId) || [];
+    this.setMessages(conversationId, this.merge(existing, messages));
+  }
+
+  updateMessage(
+    conversationId: string,
+    messageId: string,
+    updates: Partial<Message>
+  ): boolean {
+    const messages = this.loaded.get(conversationId);
+    const index = messages?.findIndex((m) => m._id === messageId) ?? -1;
+    if (!messages || index === -1) {
+      return false;
+    }
+
+    const next = [...messages];
+    next[index] = { ...next[index], ...updates };
+    this.setMessages(conversationId, next);
+    return true;
+  }
+
+  removeMessage(conversationId: string, messageId: string): boolean {
+    const messages = this.loaded.get(conversationId);
+    if (!messages) {
+      return false;
+    }
+
+    const next = messages.filter((m) => m._id !== messageId);
+    if (next.length === messages.length) {
+      return false;
+    }
+
+    this.setMessages(conversationId, next);
+    return true;
+  }
+
+  /**
+   * Read a page of messages older than `before` (newest page when omitted)
+   */
+  async getPage(
+    conversationId: string,
+    options: { before?: number; limit?: number } = {}
+  ): Promise<MessagePage> {
+    const limit = options.limit || 20;
+    const messages = await this.loadConversation(conversationId);
+    const eligible = options.before
+      ? messages.filter((m) => (m.createdAt || 0) < options.before!)
+      : messages;
+    const page = eligible.slice(-limit);
+    const cursor = this.getCursor(conversationId);
+
+    return {
+      messages: page,
+      cursor,
+      // More may exist locally, or on the server beyond what we have stored
+      hasMore: eligible.length > page.length || !!cursor?.hasMoreOlder,
+    };
+  }
+
+  getCursor(conversationId: string): ConversationCursor | null {
+    const meta = this.index.conversations[conversationId];
+    return meta ? { ...meta.cursor } : null;
+  }
+
+  /**
+   * Record pagination knowledge learned from the server (e.g. no older pages)
+   */
+  setCursor(
+    conversationId: string,
+    updates: Partial<ConversationCursor>
+  ): void {
+    const meta = this.index.conversations[conversationId];
+    if (!meta) {
+      return;
+    }
+
+    meta.cursor = { ...meta.cursor, ...updates };
+    this.scheduleFlush();
+  }
+
+  getDisappearingTimer(
+    conversationId: string
+  ): DisappearingTimerSetting | null {
+    const setting = this.index.timers?.[conversationId];
+    return setting ? { ...setting } : null;
+  }
+
+  setDisappearingTimer(
+    conversationId: string,
+    setting: DisappearingTimerSetting
+  ): void {
+    this.index.timers = { ...this.index.timers, [conversationId]: setting };
+    this.scheduleFlush();
+  }
+
+  /**
+   * Drop expired disappearing messages from every stored conversation,
+   * including ones that haven't been loaded this session
+   */
+  async purgeExpired(): Promise<void> {
+    await this.hydrate();
+
+    const now = Date.now();
+    const due = Object.values(this.index.conversations).filter(
+      (meta) => meta.nextExpiresAt && meta.nextExpiresAt <= now
+    );
+    // Reading a conversation prunes it and schedules the shard rewrite
+    for (const meta of due) {
+      await this.loadConversation(meta.conversationId);
+    }
+  }
+
+  clearCache(conversationId?: string): void {
+    const ids = conversationId
+      ? [conversationId]
+      : this.getConversationIds();
+    this.removeConversations(ids);
+
+    if (!conversationId) {
+      // Forget everything, including timers and shards written by earlier
+      // sessions that the index hadn't been read back for yet
+      this.index.timers = {};
+      this.hydrate().then(() => {
+        this.index.timers = {};
+        this.removeConversations(this.getConversationIds());
+      });
+    }
+  }
+
+  /**
+   * Get store statistics
+   */
+  getStats(): {
+    conversations: number;
+    loadedConversations: number;
+    totalMessages: number;
+    totalBytes: number;
+    maxBytes: number;
+  } {
+    const metas = Object.values(this.index.conversations);
+    return {
+      conversations: metas.length,
+      loadedConversations: this.loaded.size,
+      totalMessages: metas.reduce((sum, m) => sum + m.messageCount, 0),
+      totalBytes: metas.reduce((sum, m) => sum + m.bytes, 0),
+      maxBytes: this.options.maxBytes,
+    };
+  }
+
+  /**
+   * Write all pending changes to storage immediately
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    await this.hydrate();
+
+    const ids = Array.from(this.dirty);
+    this.dirty.clear();
+
+    try {
+      for (const id of ids) {
+        const messages = this.loaded.get(id);
+        if (!messages) continue;
+
+        // Never clobber a shard we haven't read yet; fold disk contents in
+        const persisted = await this.readUnreconciledShard(id);
+        const toWrite = persisted
+          ? removeExpiredMessages(this.merge(persisted, messages))
+          : messages;
+        if (persisted) {
+          this.loaded.set(id, toWrite);
+          this.updateMeta(id, toWrite);
+        }
+
+        await AsyncStorage.setItem(
+          this.shardKey(id),
+          JSON.stringify(toWrite.map(toStored))
+        );
+      }
+
+      this.enforceBudget(ids);
+
+      await AsyncStorage.setItem(this.indexKey(), JSON.stringify(this.index));
+    } catch (error) {
+      console.error("PersistentMessageStore: Failed to flush:", error);
+      ids.forEach((id) => this.dirty.add(id));
+    }
+  }
+
+  /**
+   * Stop timers and release memory without touching persisted data
+   */
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.loaded.clear();
+    this.reconciled.clear();
+    this.dirty.clear();
+  }
+
+  private async loadIndex(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.indexKey());
+      if (stored) {
+        const data = JSON.parse(stored) as StoreIndex;
+        if (data.version === INDEX_VERSION && data.conversations) {
+          this.index = {
+            version: INDEX_VERSION,
+            // Keep metadata for conversations written before hydration finished
+            conversations: {
+              ...data.conversations,
+              ...this.index.conversations,
+            },
+            timers: { ...data.timers, ...this.index.timers },
+          };
+        }
+      }
+    } catch (error) {
+      console.error("PersistentMessageStore: Failed to load index:", error);
+    }
+  }
+
+  private removeConversations(ids: string[]): void {
+    ids.forEach((id) => {
+      this.loaded.delete(id);
+      this.dirty.delete(id);
+      this.reconciled.add(id);
+      delete this.index.conversations[id];
+    });
+
+    AsyncStorage.multiRemove(ids.map((id) => this.shardKey(id))).catch(
+      (error) =>
+        console.error("PersistentMessageStore: Failed to clear shards:", error)
+    );
+    this.scheduleFlush();
+  }
+
+  private async readUnreconciledShard(id: string): Promise<Message[] | null> {
+    if (this.reconciled.has(id)) {
+      return null;
+    }
+    this.reconciled.add(id);
+
+    const stored = await AsyncStorage.getItem(this.shardKey(id));
+    return stored ? this.parseShard(stored) : null;
+  }
+
+  private async parseShard(stored: string | null): Promise<Message[]> {
+    const messages = stored ? (JSON.parse(stored) as Message[]) : [];
+    if (!this.cipher || !messages.some((m) => m.encrypted)) {
+      return messages;
+    }
+    try {
+      return await this.cipher.decryptMessages(messages);
+    } catch (error) {
+      console.error("PersistentMessageStore: Failed to decrypt:", error);
+      return messages;
+    }
+  }
+
+  private markDirty(conversationId: string): void {
+    this.dirty.add(conversationId);
+    this.scheduleFlush();
+  }
+
+  private touch(conversationId: string): void {
+    const meta = this.index.conversations[conversationId];
+    if (meta) {
+      meta.lastAccessed = Date.now();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.options.flushDelay);
+  }
+
+  private updateMeta(conversationId: string, messages: Message[]): void {
+    // Cap per-conversation history, keeping the newest messages
+    const { maxMessagesPerConversation } = this.options;
+    let trimmed = false;
+    if (messages.length > maxMessagesPerConversation) {
+      messages.splice(0, messages.length - maxMessagesPerConversation);
+      trimmed = true;
+    }
+
+    const now = Date.now();
+    const previous = this.index.conversations[conversationId];
+    this.index.conversations[conversationId] = {
+      conversationId,
+      messageCount: messages.length,
+      bytes: this.estimateBytes(messages),
+      lastAccessed: now,
+      updatedAt: now,
+      cursor: {
+        oldestCreatedAt: messages[0]?.createdAt || 0,
+        newestCreatedAt: messages[messages.length - 1]?.createdAt || 0,
+        hasMoreOlder: trimmed || (previous?.cursor.hasMoreOlder ?? true),
+      },
+      nextExpiresAt: getNextExpiry(messages) ?? undefined,
+    };
+  }
+
+  /**
+   * Evict least recently used conversations until under the size budget
+   */
+  private enforceBudget(protectedIds: string[]): void {
+    const metas = Object.values(this.index.conversations);
+    let total = metas.reduce((sum, m) => sum + m.bytes, 0);
+
+    if (total <= this.options.maxBytes) {
+      return;
+    }
+
+    const target = this.options.maxBytes * 0.9;
+    const candidates = metas
+      .filter((m) => !protectedIds.includes(m.conversationId))
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    const evicted: string[] = [];
+    for (const meta of candidates) {
+      if (total <= target) break;
+      total -= meta.bytes;
+      evicted.push(meta.conversationId);
+      delete this.index.conversations[meta.conversationId];
+      this.loaded.delete(meta.conversationId);
+      this.reconciled.delete(meta.conversationId);
+    }
+
+    if (evicted.length > 0) {
+      AsyncStorage.multiRemove(evicted.map((id) => this.shardKey(id))).catch(
+        (error) =>
+          console.error("PersistentMessageStore: Failed to evict:", error)
+      );
+    }
+  }
+
+  private merge(base: Message[], incoming: Message[]): Message[] {
+    const merged = new Map<string, Message>();
+    base.forEach((m) => merged.set(m._id, m));
+    incoming.forEach((m) => merged.set(m._id, m));
+    return Array.from(merged.values()).sort(
+      (a, b) => (a.createdAt || 0) - (b.createdAt || 0)
+    );
+  }
+
+  private estimateBytes(messages: Message[]): number {
+    try {
+      return JSON.stringify(messages).length;
+    } catch {
+      return messages.length * 1024;
+    }
+  }
+
+  private indexKey(): string {
+    return `${this.options.storageKey}_index`;
+  }
+
+  private shardKey(conversationId: string): string {
+    return `${this.options.storageKey}_conv_${conversationId}`;
+  }
+}
+
+/**
+ * Global persistent message store instance
+ */
+export const persistentMessageStore = new PersistentMessageStore();
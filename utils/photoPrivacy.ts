@@ -0,0 +1,92 @@
+import type { PhotoAccessStatus, PhotoVisibility } from "../types/image";
+
+// Strong enough that faces can't be made out, even on large screens
+export const PRIVATE_PHOTO_BLUR_RADIUS = 40;
+
+export const PHOTO_VISIBILITY_OPTIONS: {
+  value: PhotoVisibility;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "public",
+    label: "Everyone",
+    description: "Anyone who can see your profile sees your photos",
+  },
+  {
+    value: "matches",
+    label: "Matches only",
+    description: "Photos stay blurred until your interest is mutual",
+  },
+  {
+    value: "on_request",
+    label: "On request",
+    description: "Photos stay blurred until you approve a request to see them",
+  },
+];
+
+export interface PhotoViewerAccess {
+  isOwner?: boolean;
+  isMatch?: boolean;
+  accessStatus?: PhotoAccessStatus;
+}
+
+/**
+ * A photo's own visibility wins over the profile default; photos without
+ * either are public
+ */
+export function resolvePhotoVisibility(
+  image: { visibility?: PhotoVisibility | null } | null | undefined,
+  profileVisibility?: PhotoVisibility | null
+): PhotoVisibility {
+  return image?.visibility || profileVisibility || "public";
+}
+
+/**
+ * Whether the viewer sees the photo unblurred. An approved request opens
+ * both private levels; a mutual match only opens "matches".
+ */
+export function canViewPhoto(
+  visibility: PhotoVisibility,
+  access: PhotoViewerAccess
+): boolean {
+  if (visibility === "public" || access.isOwner) return true;
+  if (access.accessStatus === "approved") return true;
+  return visibility === "matches" && !!access.isMatch;
+}
+
+/**
+ * What to load for a photo. A locked photo only ever loads the copy the
+ * server blurred for this viewer, so the original never reaches the device
+ * before access is granted; without one there is nothing to load.
+ */
+export function photoDisplayUri(
+  image: { url?: string; blurredUrl?: string } | string | null | undefined,
+  locked: boolean
+): string | undefined {
+  if (typeof image === "string") return locked ? undefined : image;
+  return (locked ? image?.blurredUrl : image?.url) || undefined;
+}
+
+/**
+ * Copy for a blurred photo, and whether the viewer can ask to see it
+ */
+export function describeLockedPhoto(
+  visibility: PhotoVisibility,
+  accessStatus: PhotoAccessStatus = "none"
+): { title: string; canRequest: boolean } {
+  switch (accessStatus) {
+    case "pending":
+      return { title: "Photo access requested", canRequest: false };
+    case "declined":
+      return { title: "Photos are private", canRequest: false };
+    default:
+      return {
+        title:
+          visibility === "matches"
+            ? "Photos are visible to matches"
+            : "Photos are shared on request",
+        canRequest: true,
+      };
+  }
+}
@@ -0,0 +1,259 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import EventEmitter from "eventemitter3";
+import { apiClient } from "./api";
+import type {
+  PurchaseJournalEntry,
+  PurchaseValidationRequest,
+  PurchaseValidationResponse,
+} from "../types/inAppPurchase";
+
+// Settled entries kept around for support exports
+const MAX_SETTLED_ENTRIES = 50;
+
+export interface JournalValidationOutcome {
+  status: "validated" | "rejected" | "retry";
+  error?: string;
+  response?: PurchaseValidationResponse;
+}
+
+/**
+ * Send a journalled purchase to the server. Only an explicit "not valid"
+ * is final; anything else (offline, server errors) is retried later.
+ */
+export async function validateJournalEntry(
+  entry: PurchaseJournalEntry
+): Promise<JournalValidationOutcome> {
+  try {
+    const response = await apiClient.validatePurchase(entry.request);
+    const data = response.data as PurchaseValidationResponse | undefined;
+    if (response.success && data?.valid === true) {
+      return { status: "validated", response: data };
+    }
+    if (response.success && data?.success && data.valid === false) {
+      return {
+        status: "rejected",
+        error: data.message || data.error || "Purchase was not valid",
+        response: data,
+      };
+    }
+    return {
+      status: "retry",
+      error:
+        data?.error ||
+        (typeof response.error === "string"
+          ? response.error
+          : response.error?.message) ||
+        "Validation failed",
+    };
+  } catch (error) {
+    return {
+      status: "retry",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Store transactions from the moment the store reports them until the
+ * server has settled them. Written before validation, so a purchase the
+ * app didn't live to validate is replayed on the next start instead of
+ * waiting for the user to find "Restore". Emits "change" with the pending
+ * entries and "validated" with each entry the server accepts.
+ */
+export class PurchaseJournal extends EventEmitter {
+  private entries: PurchaseJournalEntry[] = [];
+  private storageKey: string;
+  private loaded: Promise<void> | null = null;
+  private userId: string | null = null;
+  private replaying: Promise<PurchaseJournalEntry[]> | null = null;
+
+  constructor(storageKey = "purchase_journal") {
+    super();
+    this.storageKey = storageKey;
+  }
+
+  /**
+   * Entries are replayed for the user who made the purchase only. Ones
+   * journalled before anyone signed in go to the next user who does.
+   */
+  setUser(userId: string | null): void {
+    if (this.userId === userId) return;
+    this.userId = userId;
+    this.emit("change", this.getPending());
+  }
+
+  hydrate(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load();
+    }
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = await AsyncStorage.getItem(this.storageKey);
+      if (raw) {
+        const saved = JSON.parse(raw);
+        this.entries = Array.isArray(saved) ? saved : [];
+        this.emit("change", this.getPending());
+      }
+    } catch (error) {
+      console.error("PurchaseJournal: Failed to load journal", error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error("PurchaseJournal: Failed to save journal", error);
+    }
+    this.emit("change", this.getPending());
+  }
+
+  getEntries(): PurchaseJournalEntry[] {
+    return [...this.entries];
+  }
+
+  getEntry(transactionId: string): PurchaseJournalEntry | undefined {
+    return this.entries.find((entry) => entry.transactionId === transactionId);
+  }
+
+  /**
+   * The signed-in user's purchases still waiting on the server, including
+   * unowned ones
+   */
+  getPending(): PurchaseJournalEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        entry.status === "pending" &&
+        (entry.userId ?? this.userId) === this.userId
+    );
+  }
+
+  /**
+   * Journal a store transaction. Recording one that's already known
+   * returns the existing entry untouched.
+   */
+  async record(
+    request: PurchaseValidationRequest
+  ): Promise<PurchaseJournalEntry> {
+    await this.hydrate();
+    const existing = this.getEntry(request.transactionId);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const entry: PurchaseJournalEntry = {
+      transactionId: request.transactionId,
+      productId: request.productId,
+      userId: this.userId ?? undefined,
+      status: "pending",
+      request,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.entries.push(entry);
+    await this.persist();
+    return entry;
+  }
+
+  async settle(
+    transactionId: string,
+    outcome: JournalValidationOutcome
+  ): Promise<void> {
+    await this.hydrate();
+    const entry = this.getEntry(transactionId);
+    if (!entry || entry.status !== "pending") return;
+
+    // The first attempt made while signed in claims an unowned entry
+    entry.userId = entry.userId ?? this.userId ?? undefined;
+    entry.attempts += 1;
+    entry.updatedAt = Date.now();
+    entry.lastError = outcome.error;
+    if (outcome.status !== "retry") {
+      entry.status = outcome.status;
+    }
+    this.prune();
+    await this.persist();
+    if (entry.status === "validated") {
+      this.emit("validated", entry);
+    }
+  }
+
+  /**
+   * Validate every pending entry, oldest first. Concurrent calls share one
+   * run. Resolves with the entries the server accepted.
+   */
+  replay(
+    validate: (
+      entry: PurchaseJournalEntry
+    ) => Promise<JournalValidationOutcome> = validateJournalEntry
+  ): Promise<PurchaseJournalEntry[]> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(validate).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async runReplay(
+    validate: (entry: PurchaseJournalEntry) => Promise<JournalValidationOutcome>
+  ): Promise<PurchaseJournalEntry[]> {
+    await this.hydrate();
+    const validated: PurchaseJournalEntry[] = [];
+    for (const entry of this.getPending()) {
+      const outcome = await validate(entry);
+      await this.settle(entry.transactionId, outcome);
+      if (outcome.status === "validated") {
+        validated.push(entry);
+      }
+    }
+    return validated;
+  }
+
+  /**
+   * The journal as JSON for support, e.g. when a charge is disputed.
+   * Receipts and tokens are cut down to their tails: enough to match
+   * them against the store, not enough to replay them.
+   */
+  exportForSupport(): string {
+    const redact = (value?: string) =>
+      value ? `…${value.slice(-8)} (${value.length} chars)` : undefined;
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        entries: this.entries.map((entry) => ({
+          ...entry,
+          createdAt: new Date(entry.createdAt).toISOString(),
+          updatedAt: new Date(entry.updatedAt).toISOString(),
+          request: {
+            ...entry.request,
+            purchaseToken: redact(entry.request.purchaseToken),
+            receiptData: redact(entry.request.receiptData),
+          },
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  private prune(): void {
+    const settled = this.entries.filter((entry) => entry.status !== "pending");
+    const excess = settled.length - MAX_SETTLED_ENTRIES;
+    if (excess <= 0) return;
+    const dropped = new Set(
+      settled
+        .sort((a, b) => a.updatedAt - b.updatedAt)
+        .slice(0, excess)
+        .map((entry) => entry.transactionId)
+    );
+    this.entries = this.entries.filter(
+      (entry) => !dropped.has(entry.transactionId)
+    );
+  }
+}
+
+export const purchaseJournal = new PurchaseJournal();
@@ -0,0 +1,379 @@
+import {
+  RealtimeClientEvent,
+  RealtimeDecodeResult,
+  RealtimeFrameMeta,
+  RealtimeServerEvent,
+  RealtimeServerEventType,
+} from "../types/realtime";
+import type { RealtimeResumeState } from "./realtimeReplayBuffer";
+
+export const REALTIME_PROTOCOL_VERSION = 2;
+export const LEGACY_PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  LEGACY_PROTOCOL_VERSION,
+  REALTIME_PROTOCOL_VERSION,
+];
+
+// Minimal runtime schemas. Unlisted fields are allowed through so newer
+// servers can add data without breaking older clients.
+interface FieldSpec {
+  kind: "string" | "number" | "boolean" | "object" | "unknown";
+  optional?: boolean;
+  oneOf?: readonly string[];
+  fields?: Schema;
+}
+
+type Schema = Record<string, FieldSpec>;
+
+const string: FieldSpec = { kind: "string" };
+const number: FieldSpec = { kind: "number" };
+const boolean: FieldSpec = { kind: "boolean" };
+const unknown: FieldSpec = { kind: "unknown", optional: true };
+const optional = (spec: FieldSpec): FieldSpec => ({ ...spec, optional: true });
+const oneOf = (...values: string[]): FieldSpec => ({
+  kind: "string",
+  oneOf: values,
+});
+const object = (fields: Schema): FieldSpec => ({ kind: "object", fields });
+
+const WIRE_MESSAGE_SCHEMA: Schema = {
+  id: string,
+  conversationId: string,
+  fromUserId: string,
+  toUserId: string,
+  type: oneOf("text", "voice", "image"),
+  text: optional(string),
+  createdAt: number,
+  clientMessageId: optional(string),
+  audioUrl: optional(string),
+  imageUrl: optional(string),
+  duration: optional(number),
+  encrypted: unknown,
+  expiresAt: optional(number),
+};
+
+const SERVER_EVENT_SCHEMAS: Record<RealtimeServerEventType, Schema> = {
+  welcome: {
+    version: number,
+    sessionId: optional(string),
+    heartbeatMs: optional(number),
+    resumed: optional(boolean),
+  },
+  pong: {},
+  error: { code: string, message: string },
+  "message.new": { message: object(WIRE_MESSAGE_SCHEMA) },
+  "message.edited": {
+    conversationId: string,
+    messageId: string,
+    text: string,
+    editedAt: number,
+  },
+  "message.deleted": {
+    conversationId: string,
+    messageId: string,
+    deletedAt: number,
+  },
+  reaction: {
+    conversationId: string,
+    messageId: string,
+    userId: string,
+    emoji: string,
+    action: oneOf("add", "remove"),
+  },
+  receipt: {
+    conversationId: string,
+    messageId: string,
+    userId: string,
+    status: oneOf("delivered", "read", "listened"),
+    at: number,
+  },
+  typing: { conversationId: string, userId: string, isTyping: boolean },
+  presence: {
+    userId: string,
+    status: oneOf("online", "away", "offline"),
+    lastSeen: optional(number),
+  },
+  "match.new": {
+    matchId: string,
+    userId: string,
+    conversationId: optional(string),
+  },
+  interest: {
+    interestId: string,
+    fromUserId: string,
+    toUserId: string,
+    status: oneOf("pending", "accepted", "rejected"),
+  },
+  "subscription.updated": {
+    plan: oneOf("free", "premium", "premiumPlus"),
+    status: optional(string),
+    expiresAt: optional(number),
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * First problem found in a value, or null when it matches the schema
+ */
+function validateSchema(
+  schema: Schema,
+  value: Record<string, any>,
+  path = ""
+): string | null {
+  for (const [key, spec] of Object.entries(schema)) {
+    const field = value[key];
+    const name = path ? `${path}.${key}` : key;
+
+    if (field === undefined || field === null) {
+      if (spec.optional) continue;
+      return `missing ${name}`;
+    }
+    if (spec.kind === "unknown") continue;
+
+    if (spec.kind === "object") {
+      if (!isRecord(field)) return `${name} should be an object`;
+      const nested = validateSchema(spec.fields || {}, field, name);
+      if (nested) return nested;
+      continue;
+    }
+
+    if (
+      typeof field !== spec.kind ||
+      (spec.kind === "number" && !Number.isFinite(field))
+    ) {
+      return `${name} should be a ${spec.kind}`;
+    }
+    if (spec.oneOf && !spec.oneOf.includes(field)) {
+      return `${name} has unsupported value "${field}"`;
+    }
+  }
+  return null;
+}
+
+export function isKnownServerEventType(
+  type: string
+): type is RealtimeServerEventType {
+  return Object.prototype.hasOwnProperty.call(SERVER_EVENT_SCHEMAS, type);
+}
+
+/**
+ * Map a version 1 flat frame onto the typed event it stands for
+ */
+function upgradeLegacyFrame(frame: Record<string, any>): {
+  type: string;
+  data: Record<string, any>;
+} {
+  const now = Date.now();
+
+  switch (frame.type) {
+    case "message": {
+      const messageType = ["text", "voice", "image"].includes(frame.messageType)
+        ? frame.messageType
+        : "text";
+      return {
+        type: "message.new",
+        data: {
+          message: {
+            ...frame,
+            type: messageType,
+            text: frame.text ?? frame.content,
+            createdAt: frame.createdAt ?? frame.timestamp ?? now,
+          },
+        },
+      };
+    }
+    case "delivery_receipt":
+    case "read_receipt":
+    case "listened_receipt":
+      return {
+        type: "receipt",
+        data: {
+          ...frame,
+          status:
+            frame.type === "listened_receipt" || frame.status === "listened"
+              ? "listened"
+              : frame.type === "read_receipt" || frame.status === "read"
+              ? "read"
+              : "delivered",
+          at: frame.at ?? frame.timestamp ?? now,
+        },
+      };
+    default:
+      return { type: frame.type, data: frame };
+  }
+}
+
+/**
+ * Decode and validate one server frame in either protocol version
+ */
+export function decodeServerFrame(raw: unknown): RealtimeDecodeResult {
+  let frame: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      frame = JSON.parse(raw);
+    } catch {
+      return { kind: "invalid", error: "Frame is not valid JSON", raw };
+    }
+  }
+  if (!isRecord(frame) || typeof frame.type !== "string") {
+    return { kind: "invalid", error: "Frame has no type", raw };
+  }
+
+  const isEnvelope = typeof frame.v === "number" && isRecord(frame.data);
+  const { type, data } = isEnvelope
+    ? { type: frame.type, data: frame.data as Record<string, any> }
+    : upgradeLegacyFrame(frame);
+  const meta: RealtimeFrameMeta = {
+    v: isEnvelope ? frame.v : LEGACY_PROTOCOL_VERSION,
+    ts: typeof frame.ts === "number" ? frame.ts : Date.now(),
+    seq: typeof frame.seq === "number" ? frame.seq : undefined,
+  };
+
+  if (!isKnownServerEventType(type)) {
+    return { kind: "unknown", type, meta, raw: frame };
+  }
+
+  const error = validateSchema(SERVER_EVENT_SCHEMAS[type], data);
+  if (error) {
+    return { kind: "invalid", error: `${type}: ${error}`, raw: frame };
+  }
+
+  const event = { ...data, type } as RealtimeServerEvent;
+  return { kind: "event", event, meta };
+}
+
+/**
+ * Serialize a client event for the given protocol version
+ */
+export function encodeClientFrame(
+  event: RealtimeClientEvent,
+  version: number
+): string {
+  const ts = Date.now();
+
+  // The handshake always goes out as an envelope; v1 servers ignore it
+  if (version >= 2 || event.type === "hello") {
+    const { type, ...data } = event;
+    return JSON.stringify({ v: version, type, ts, data });
+  }
+
+  switch (event.type) {
+    case "typing":
+      return JSON.stringify({ ...event, timestamp: ts });
+    case "receipt":
+      return JSON.stringify({
+        ...event,
+        type:
+          event.status === "read"
+            ? "read_receipt"
+            : event.status === "listened"
+            ? "listened_receipt"
+            : "delivery_receipt",
+        timestamp: ts,
+      });
+    case "join":
+    case "leave":
+      return JSON.stringify({ ...event, type: `${event.type}_conversation` });
+    case "auth":
+      return JSON.stringify({ ...event, ts });
+    case "auth.refresh":
+      return JSON.stringify({ ...event, type: "auth_refresh", ts });
+    case "message.send": {
+      const { message } = event;
+      return JSON.stringify({
+        ...message,
+        type: "message",
+        messageType: message.type,
+        content: message.text,
+        timestamp: message.createdAt ?? ts,
+      });
+    }
+    default:
+      return JSON.stringify(event);
+  }
+}
+
+export interface RealtimeProtocolOptions {
+  client?: string;
+  versions?: number[];
+}
+
+/**
+ * Per-connection protocol state: the handshake and the version it settled
+ * on. Until the server welcomes us, frames are exchanged as version 1.
+ */
+export class RealtimeProtocol {
+  private versions: number[];
+  private client: string;
+  private version = LEGACY_PROTOCOL_VERSION;
+  private negotiated = false;
+  private sessionId?: string;
+
+  constructor(options: RealtimeProtocolOptions = {}) {
+    this.versions = options.versions || SUPPORTED_PROTOCOL_VERSIONS;
+    this.client = options.client || "aroosi-mobile";
+  }
+
+  get currentVersion(): number {
+    return this.version;
+  }
+
+  get isNegotiated(): boolean {
+    return this.negotiated;
+  }
+
+  get currentSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
+  /**
+   * First frame to send once the socket opens. Passing the last session and
+   * seq seen asks the server to replay what was missed.
+   */
+  hello(resume?: RealtimeResumeState): string {
+    return encodeClientFrame(
+      {
+        type: "hello",
+        versions: this.versions,
+        client: this.client,
+        sessionId: resume?.sessionId,
+        lastSeq: resume?.lastSeq,
+      },
+      Math.max(...this.versions)
+    );
+  }
+
+  decode(raw: unknown): RealtimeDecodeResult {
+    const result = decodeServerFrame(raw);
+    if (result.kind !== "event" || result.event.type !== "welcome") {
+      return result;
+    }
+
+    const { version, sessionId } = result.event;
+    if (!this.versions.includes(version)) {
+      return {
+        kind: "invalid",
+        error: `Server chose unsupported protocol version ${version}`,
+        raw,
+      };
+    }
+    this.version = version;
+    this.negotiated = true;
+    this.sessionId = sessionId;
+    return result;
+  }
+
+  encode(event: RealtimeClientEvent): string {
+    return encodeClientFrame(event, this.version);
+  }
+
+  /**
+   * Forget the negotiated version, e.g. before reconnecting
+   */
+  reset(): void {
+    this.version = LEGACY_PROTOCOL_VERSION;
+    this.negotiated = false;
+  }
+}
@@ -0,0 +1,152 @@
+import EventEmitter from "eventemitter3";
+
+/**
+ * What the client sends in its hello to pick up where it left off
+ */
+export interface RealtimeResumeState {
+  sessionId?: string;
+  lastSeq?: number;
+}
+
+export interface RealtimeReplayBufferOptions {
+  gapTimeout?: number; // how long to wait for a missing seq, in milliseconds
+  maxBuffered?: number;
+}
+
+/**
+ * Orders sequenced realtime frames. Frames are released ("item") strictly in
+ * seq order; duplicates (e.g. replayed after a resume) are dropped and
+ * out-of-order frames are held until the gap fills. A gap that doesn't fill
+ * in time is reported ("gap") and skipped, so the caller can resync.
+ *
+ * Frames without a seq (handshake, pings) are released immediately.
+ */
+export class RealtimeReplayBuffer<T> extends EventEmitter {
+  private options: Required<RealtimeReplayBufferOptions>;
+  private pending = new Map<number, T>();
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private session?: string;
+  private seq = 0;
+  // False until the first seq of a fresh session tells us where it starts
+  private anchored = false;
+
+  constructor(options: RealtimeReplayBufferOptions = {}) {
+    super();
+    this.options = {
+      gapTimeout: options.gapTimeout ?? 2000,
+      maxBuffered: options.maxBuffered ?? 500,
+    };
+  }
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  get sessionId(): string | undefined {
+    return this.session;
+  }
+
+  getResumeState(): RealtimeResumeState | undefined {
+    if (!this.session || !this.anchored) return undefined;
+    return { sessionId: this.session, lastSeq: this.seq };
+  }
+
+  /**
+   * Called once the server answers the hello. A session the server couldn't
+   * resume starts numbering afresh.
+   */
+  beginSession(sessionId: string | undefined, resumed: boolean): void {
+    const sameSession = !!sessionId && sessionId === this.session;
+    this.session = sessionId;
+    if (resumed && sameSession) return;
+
+    this.clearGapTimer();
+    this.pending.clear();
+    this.seq = 0;
+    this.anchored = false;
+  }
+
+  push(item: T, seq?: number): void {
+    if (typeof seq !== "number") {
+      this.emit("item", item);
+      return;
+    }
+
+    if (!this.anchored) {
+      this.anchored = true;
+      this.seq = seq - 1;
+    }
+
+    if (seq <= this.seq || this.pending.has(seq)) {
+      return; // already delivered
+    }
+
+    this.pending.set(seq, item);
+    this.drain();
+
+    if (this.pending.size === 0) {
+      this.clearGapTimer();
+    } else if (this.pending.size > this.options.maxBuffered) {
+      this.skipGap();
+    } else if (!this.gapTimer) {
+      this.gapTimer = setTimeout(() => {
+        this.gapTimer = null;
+        this.skipGap();
+      }, this.options.gapTimeout);
+    }
+  }
+
+  /**
+   * Forget all session state, e.g. on logout
+   */
+  reset(): void {
+    this.clearGapTimer();
+    this.pending.clear();
+    this.session = undefined;
+    this.seq = 0;
+    this.anchored = false;
+  }
+
+  destroy(): void {
+    this.reset();
+    this.removeAllListeners();
+  }
+
+  private drain(): void {
+    while (this.pending.has(this.seq + 1)) {
+      const next = this.seq + 1;
+      const item = this.pending.get(next) as T;
+      this.pending.delete(next);
+      this.seq = next;
+      this.emit("item", item);
+    }
+  }
+
+  /**
+   * Give up on the missing frames and release what arrived after them
+   */
+  private skipGap(): void {
+    this.clearGapTimer();
+    if (this.pending.size === 0) return;
+
+    const received = Math.min(...this.pending.keys());
+    this.emit("gap", { expected: this.seq + 1, received });
+    this.seq = received - 1;
+    this.drain();
+
+    // Another hole further on gets its own wait
+    if (this.pending.size > 0) {
+      this.gapTimer = setTimeout(() => {
+        this.gapTimer = null;
+        this.skipGap();
+      }, this.options.gapTimeout);
+    }
+  }
+
+  private clearGapTimer(): void {
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+  }
+}
@@ -0,0 +1,534 @@
+import { apiClient } from "./api";
+import { WEBSOCKET_CONFIG } from "./websocketConfig";
+import { getAuthToken } from "../services/authToken";
+
+export type RealtimeTransportKind = "websocket" | "sse" | "long-poll";
+
+// Same numbering as WebSocket.readyState so callers can compare either way
+export const TRANSPORT_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const;
+
+export interface RealtimeTransportCloseEvent {
+  code: number;
+  reason: string;
+}
+
+/**
+ * The slice of the WebSocket API the realtime services rely on, so a socket,
+ * an event stream or a polling loop can stand behind the same code
+ */
+export interface RealtimeTransport {
+  readonly kind: RealtimeTransportKind;
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: string }) => void) | null;
+  onclose: ((event: RealtimeTransportCloseEvent) => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface RealtimeTransportOptions {
+  // Order to try; the first that opens wins
+  transports?: RealtimeTransportKind[];
+  // How long each transport gets to open before the next is tried
+  openTimeout?: number;
+  pollInterval?: number;
+  getToken?: () => Promise<string | null>;
+  // Called whenever a different transport is about to be tried
+  onTransportChange?: (kind: RealtimeTransportKind) => void;
+}
+
+const ABNORMAL_CLOSURE = 1006;
+// Transports that failed to open are skipped for a while by later connects
+const BLOCKED_COOLDOWN_MS = 5 * 60 * 1000;
+// Long-lived streams are recycled so the XHR buffer doesn't grow forever
+const MAX_STREAM_BYTES = 1024 * 1024;
+const MAX_POLL_FAILURES = 3;
+
+const blockedUntil = new Map<RealtimeTransportKind, number>();
+
+/**
+ * Turn the socket URL into the HTTP URL of a sibling endpoint, keeping the
+ * query (userId, token) so the server can identify the client the same way
+ */
+export function toHttpUrl(socketUrl: string, path: string): string {
+  const url = new URL(socketUrl);
+  url.protocol = url.protocol === "ws:" ? "http:" : "https:";
+  url.pathname = path;
+  return url.toString();
+}
+
+/**
+ * Split a text/event-stream chunk into the data of each complete event.
+ * Whatever follows the last blank line is returned to be prefixed to the
+ * next chunk.
+ */
+export function parseSseEvents(buffer: string): {
+  events: string[];
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n?/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: string[] = [];
+
+  for (const block of blocks) {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""));
+    if (data.length > 0) events.push(data.join("\n"));
+  }
+  return { events, rest };
+}
+
+/**
+ * Shared plumbing for the socket-shaped transports
+ */
+abstract class BaseTransport implements RealtimeTransport {
+  abstract readonly kind: RealtimeTransportKind;
+  readyState: number = TRANSPORT_STATE.CONNECTING;
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: RealtimeTransportCloseEvent) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  abstract send(data: string): void;
+  abstract close(code?: number, reason?: string): void;
+
+  protected markOpen(): void {
+    if (this.readyState !== TRANSPORT_STATE.CONNECTING) return;
+    this.readyState = TRANSPORT_STATE.OPEN;
+    this.onopen?.({});
+  }
+
+  protected markClosed(code: number, reason: string): void {
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+    this.readyState = TRANSPORT_STATE.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+
+  protected fail(error: unknown): void {
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+    this.onerror?.(error);
+    this.markClosed(ABNORMAL_CLOSURE, "Transport error");
+  }
+}
+
+export class WebSocketTransport extends BaseTransport {
+  readonly kind = "websocket";
+  private ws: WebSocket;
+
+  constructor(url: string) {
+    super();
+    this.ws = new WebSocket(url);
+    this.ws.onopen = () => this.markOpen();
+    this.ws.onmessage = (event) => this.onmessage?.({ data: event.data });
+    this.ws.onerror = (error) => this.onerror?.(error);
+    this.ws.onclose = (event) => this.markClosed(event.code, event.reason);
+  }
+
+  send(data: string): void {
+    this.ws.send(data);
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+    this.readyState = TRANSPORT_STATE.CLOSING;
+    this.ws.close(code, reason);
+  }
+}
+
+/**
+ * Client frames for the HTTP transports go out as individual POSTs
+ */
+abstract class HttpTransport extends BaseTransport {
+  protected getToken: () => Promise<string | null>;
+  private sendUrl: string;
+
+  constructor(url: string, options: RealtimeTransportOptions) {
+    super();
+    this.getToken = options.getToken || (() => getAuthToken());
+    this.sendUrl = toHttpUrl(url, WEBSOCKET_CONFIG.FALLBACK.SEND_PATH);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== TRANSPORT_STATE.OPEN) {
+      throw new Error(`${this.kind} transport is not open`);
+    }
+    this.post(data).catch((error) => {
+      console.warn(`Realtime ${this.kind}: Failed to send frame`, error);
+      this.onerror?.(error);
+    });
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    const token = await this.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  private async post(data: string): Promise<void> {
+    const response = await fetch(this.sendUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await this.authHeaders()),
+      },
+      body: data,
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Server-Sent Events read through a streaming XHR, which React Native
+ * supports without an EventSource polyfill
+ */
+export class SseTransport extends HttpTransport {
+  readonly kind = "sse";
+  private xhr: XMLHttpRequest | null = null;
+  private offset = 0;
+  private pending = "";
+  private streamUrl: string;
+
+  constructor(url: string, options: RealtimeTransportOptions = {}) {
+    super(url, options);
+    this.streamUrl = toHttpUrl(url, WEBSOCKET_CONFIG.FALLBACK.SSE_PATH);
+    this.start().catch((error) => this.fail(error));
+  }
+
+  close(code = 1000, reason = ""): void {
+    const xhr = this.xhr;
+    this.xhr = null;
+    xhr?.abort();
+    this.markClosed(code, reason);
+  }
+
+  private async start(): Promise<void> {
+    const headers = await this.authHeaders();
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+
+    const xhr = new XMLHttpRequest();
+    this.xhr = xhr;
+    xhr.open("GET", this.streamUrl);
+    xhr.setRequestHeader("Accept", "text/event-stream");
+    xhr.setRequestHeader("Cache-Control", "no-cache");
+    Object.entries(headers).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value)
+    );
+
+    xhr.onreadystatechange = () => {
+      if (this.xhr !== xhr) return;
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        if (xhr.status === 200) {
+          this.markOpen();
+        } else {
+          this.fail(new Error(`Event stream returned HTTP ${xhr.status}`));
+        }
+      } else if (xhr.readyState === XMLHttpRequest.DONE) {
+        this.readChunk();
+        this.xhr = null;
+        if (this.readyState === TRANSPORT_STATE.OPEN) {
+          this.markClosed(ABNORMAL_CLOSURE, "Event stream ended");
+        } else {
+          this.fail(new Error("Event stream closed before opening"));
+        }
+      }
+    };
+    xhr.onprogress = () => {
+      if (this.xhr === xhr) this.readChunk();
+    };
+    xhr.onerror = () => {
+      if (this.xhr !== xhr) return;
+      this.xhr = null;
+      this.fail(new Error("Event stream request failed"));
+    };
+    xhr.send();
+  }
+
+  private readChunk(): void {
+    const text = this.xhr?.responseText || "";
+    const { events, rest } = parseSseEvents(
+      this.pending + text.slice(this.offset)
+    );
+    this.offset = text.length;
+    this.pending = rest;
+    events.forEach((data) => this.onmessage?.({ data }));
+
+    if (this.offset > MAX_STREAM_BYTES) {
+      this.close(ABNORMAL_CLOSURE, "Recycling event stream");
+    }
+  }
+}
+
+/**
+ * Last resort: poll each joined conversation's event feed. Conversations
+ * are picked up from the join/leave frames the client sends.
+ */
+export class LongPollTransport extends HttpTransport {
+  readonly kind = "long-poll";
+  private conversations = new Map<string, number>(); // id -> events since
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private interval: number;
+
+  constructor(url: string, options: RealtimeTransportOptions = {}) {
+    super(url, options);
+    this.interval =
+      options.pollInterval ?? WEBSOCKET_CONFIG.FALLBACK.POLL_INTERVAL;
+    // First poll on the next tick so the owner can attach handlers
+    this.timer = setTimeout(() => this.poll(), 0);
+  }
+
+  send(data: string): void {
+    if (this.trackSubscription(data)) return;
+    super.send(data);
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.markClosed(code, reason);
+  }
+
+  /**
+   * Join and leave only change what is polled; everything else is sent
+   */
+  private trackSubscription(data: string): boolean {
+    let frame: any;
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      return false;
+    }
+    const conversationId = frame?.data?.conversationId ?? frame?.conversationId;
+    if (typeof conversationId !== "string") return false;
+
+    if (frame.type === "join" || frame.type === "join_conversation") {
+      if (!this.conversations.has(conversationId)) {
+        this.conversations.set(conversationId, Date.now());
+      }
+      return true;
+    }
+    if (frame.type === "leave" || frame.type === "leave_conversation") {
+      this.conversations.delete(conversationId);
+      return true;
+    }
+    return false;
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    if (this.readyState === TRANSPORT_STATE.CLOSED) return;
+
+    let ok = true;
+    for (const [conversationId, since] of this.conversations) {
+      const res = await apiClient.getConversationEvents(conversationId, since);
+      if (!res.success) {
+        ok = false;
+        continue;
+      }
+      const payload = res.data as any;
+      const events: any[] = Array.isArray(payload)
+        ? payload
+        : payload?.events || [];
+      let latest = since;
+      for (const event of events) {
+        const at = event?.ts ?? event?.timestamp ?? event?.createdAt;
+        if (typeof at === "number") latest = Math.max(latest, at);
+        this.onmessage?.({ data: JSON.stringify(event) });
+      }
+      if (this.conversations.has(conversationId)) {
+        this.conversations.set(conversationId, latest);
+      }
+    }
+
+    this.failures = ok ? 0 : this.failures + 1;
+    if (this.failures >= MAX_POLL_FAILURES) {
+      this.fail(new Error("Conversation events are unreachable"));
+      return;
+    }
+    this.markOpen();
+    if (this.readyState === TRANSPORT_STATE.OPEN) {
+      this.timer = setTimeout(() => this.poll(), this.interval);
+    }
+  }
+}
+
+function createTransport(
+  kind: RealtimeTransportKind,
+  url: string,
+  options: RealtimeTransportOptions
+): RealtimeTransport {
+  switch (kind) {
+    case "sse":
+      return new SseTransport(url, options);
+    case "long-poll":
+      return new LongPollTransport(url, options);
+    default:
+      return new WebSocketTransport(url);
+  }
+}
+
+/**
+ * Tries each transport in turn until one opens. Once open it behaves like
+ * that transport; a later drop is reported as a normal close so the owner
+ * reconnects (and the next connect starts from the top again, minus any
+ * transport that recently failed to open).
+ */
+export class FallbackRealtimeTransport implements RealtimeTransport {
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: RealtimeTransportCloseEvent) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  private url: string;
+  private options: RealtimeTransportOptions;
+  private queue: RealtimeTransportKind[];
+  private current: RealtimeTransport | null = null;
+  private openTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private lastError: unknown = null;
+
+  constructor(url: string, options: RealtimeTransportOptions = {}) {
+    this.url = url;
+    this.options = options;
+
+    const order = options.transports || WEBSOCKET_CONFIG.FALLBACK.TRANSPORTS;
+    const now = Date.now();
+    const available = order.filter(
+      (kind) => (blockedUntil.get(kind) ?? 0) <= now
+    );
+    // Never end up with nothing to try
+    this.queue = available.length > 0 ? available : [...order];
+    this.next();
+  }
+
+  get kind(): RealtimeTransportKind {
+    return this.current?.kind ?? this.queue[0] ?? "websocket";
+  }
+
+  get readyState(): number {
+    if (this.closed) return TRANSPORT_STATE.CLOSED;
+    return this.current?.readyState ?? TRANSPORT_STATE.CONNECTING;
+  }
+
+  send(data: string): void {
+    if (!this.current || this.current.readyState !== TRANSPORT_STATE.OPEN) {
+      throw new Error("Realtime transport is not open");
+    }
+    this.current.send(data);
+  }
+
+  close(code = 1000, reason = ""): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.clearOpenTimer();
+    const current = this.current;
+    this.current = null;
+    if (current && current.readyState !== TRANSPORT_STATE.CLOSED) {
+      current.onclose = null;
+      current.close(code, reason);
+    }
+    this.onclose?.({ code, reason });
+  }
+
+  private next(): void {
+    const kind = this.queue.shift();
+    if (!kind) {
+      this.closed = true;
+      this.current = null;
+      // Deferred in case every transport failed inside the constructor
+      setTimeout(() => {
+        this.onerror?.(this.lastError || new Error("No realtime transport"));
+        this.onclose?.({
+          code: ABNORMAL_CLOSURE,
+          reason: "No realtime transport could connect",
+        });
+      }, 0);
+      return;
+    }
+
+    this.options.onTransportChange?.(kind);
+    let transport: RealtimeTransport;
+    try {
+      transport = createTransport(kind, this.url, this.options);
+    } catch (error) {
+      this.lastError = error;
+      blockedUntil.set(kind, Date.now() + BLOCKED_COOLDOWN_MS);
+      this.next();
+      return;
+    }
+    let opened = false;
+    this.current = transport;
+
+    const giveUp = () => {
+      blockedUntil.set(kind, Date.now() + BLOCKED_COOLDOWN_MS);
+      this.clearOpenTimer();
+      transport.onopen = transport.onclose = transport.onerror = null;
+      transport.onmessage = null;
+      transport.close(ABNORMAL_CLOSURE, "Falling back");
+      this.next();
+    };
+
+    transport.onopen = (event) => {
+      opened = true;
+      this.clearOpenTimer();
+      blockedUntil.delete(kind);
+      this.onopen?.(event);
+    };
+    transport.onmessage = (event) => this.onmessage?.(event);
+    transport.onerror = (error) => {
+      this.lastError = error;
+      if (opened) this.onerror?.(error);
+    };
+    transport.onclose = (event) => {
+      if (!opened) {
+        console.warn(`Realtime ${kind} transport unavailable, falling back`);
+        giveUp();
+        return;
+      }
+      this.closed = true;
+      this.onclose?.(event);
+    };
+
+    this.clearOpenTimer();
+    this.openTimer = setTimeout(() => {
+      this.openTimer = null;
+      if (!opened) {
+        this.lastError = new Error(`${kind} transport timed out`);
+        giveUp();
+      }
+    }, this.options.openTimeout ?? WEBSOCKET_CONFIG.FALLBACK.OPEN_TIMEOUT);
+  }
+
+  private clearOpenTimer(): void {
+    if (this.openTimer) {
+      clearTimeout(this.openTimer);
+      this.openTimer = null;
+    }
+  }
+}
+
+/**
+ * Open a realtime connection on the best transport the network allows
+ */
+export function createRealtimeTransport(
+  url: string,
+  options: RealtimeTransportOptions = {}
+): RealtimeTransport {
+  return new FallbackRealtimeTransport(url, options);
+}
+
+/**
+ * Forget which transports recently failed, e.g. after the network changes
+ */
+export function resetBlockedTransports(): void {
+  blockedUntil.clear();
+}
@@ -70,6 +70,7 @@ export const CACHE_TTL = {
   USAGE_STATS: 1 * 60 * 1000, // 1 minute
   FEATURE_ACCESS: 10 * 60 * 1000, // 10 minutes
   SUBSCRIPTION_PLANS: 60 * 60 * 1000, // 1 hour
+  ENTITLEMENTS: 60 * 60 * 1000, // 1 hour
 };
 
 /**
@@ -82,6 +83,7 @@ export const CACHE_KEYS = {
   subscriptionPlans: () => `subscription_plans`,
   featureCheck: (userId: string, feature: string) =>
     `feature_check_${userId}_${feature}`,
+  entitlements: () => `entitlements_config`,
 };
 
 /**
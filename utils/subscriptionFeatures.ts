@@ -1,94 +1,26 @@
 import { SubscriptionTier, SubscriptionFeatures } from "../types/subscription";
+import { BUNDLED_ENTITLEMENTS, entitlements } from "./entitlements";
 
 /**
- * Feature access rules aligned with main project
- * These rules define what features are available for each subscription tier
+ * Feature access rules shipped with the app. The live rules come from the
+ * entitlement config; read them through the helpers below.
  */
 export const FEATURE_ACCESS_RULES: Record<
   SubscriptionTier,
   SubscriptionFeatures
 > = {
-  free: {
-    canViewMatches: true,
-    canChatWithMatches: true,
-    canInitiateChat: false,
-    canSendUnlimitedLikes: false,
-    canViewFullProfiles: false,
-    canHideFromFreeUsers: false,
-    canBoostProfile: false,
-    canViewProfileViewers: false,
-    canUseAdvancedFilters: false,
-    hasSpotlightBadge: false,
-    canUseIncognitoMode: false,
-    canAccessPrioritySupport: false,
-    canSeeReadReceipts: false,
-    maxLikesPerDay: 5,
-    boostsPerMonth: 0,
-  },
-  premium: {
-    canViewMatches: true,
-    canChatWithMatches: true,
-    canInitiateChat: true,
-    canSendUnlimitedLikes: true,
-    canViewFullProfiles: true,
-    canHideFromFreeUsers: true,
-    canBoostProfile: true,
-    canViewProfileViewers: true,
-    canUseAdvancedFilters: true,
-    hasSpotlightBadge: false,
-    canUseIncognitoMode: false,
-    canAccessPrioritySupport: true,
-    canSeeReadReceipts: true,
-    maxLikesPerDay: -1, // unlimited
-    boostsPerMonth: 1,
-  },
-  premiumPlus: {
-    canViewMatches: true,
-    canChatWithMatches: true,
-    canInitiateChat: true,
-    canSendUnlimitedLikes: true,
-    canViewFullProfiles: true,
-    canHideFromFreeUsers: true,
-    canBoostProfile: true,
-    canViewProfileViewers: true,
-    canUseAdvancedFilters: true,
-    hasSpotlightBadge: true,
-    canUseIncognitoMode: true,
-    canAccessPrioritySupport: true,
-    canSeeReadReceipts: true,
-    maxLikesPerDay: -1, // unlimited
-    boostsPerMonth: -1, // unlimited
-  },
+  free: BUNDLED_ENTITLEMENTS.tiers.free.features,
+  premium: BUNDLED_ENTITLEMENTS.tiers.premium.features,
+  premiumPlus: BUNDLED_ENTITLEMENTS.tiers.premiumPlus.features,
 };
 
 /**
- * Usage limits by subscription tier - aligned with main project
+ * Usage limits shipped with the app, -1 = unlimited. See FEATURE_ACCESS_RULES.
  */
 export const USAGE_LIMITS: Record<SubscriptionTier, Record<string, number>> = {
-  free: {
-    message_sent: 5,
-    profile_view: 10,
-    search_performed: 20,
-    interest_sent: 3,
-    profile_boost_used: 0,
-    voice_message_sent: 0,
-  },
-  premium: {
-    message_sent: -1, // unlimited
-    profile_view: 50,
-    search_performed: -1,
-    interest_sent: -1,
-    profile_boost_used: 1,
-    voice_message_sent: 10,
-  },
-  premiumPlus: {
-    message_sent: -1,
-    profile_view: -1,
-    search_performed: -1,
-    interest_sent: -1,
-    profile_boost_used: -1,
-    voice_message_sent: -1,
-  },
+  free: BUNDLED_ENTITLEMENTS.tiers.free.limits,
+  premium: BUNDLED_ENTITLEMENTS.tiers.premium.limits,
+  premiumPlus: BUNDLED_ENTITLEMENTS.tiers.premiumPlus.limits,
 };
 
 /**
@@ -97,7 +29,7 @@ export const USAGE_LIMITS: Record<SubscriptionTier, Record<string, number>> = {
 export function getFeaturesForTier(
   tier: SubscriptionTier
 ): SubscriptionFeatures {
-  return FEATURE_ACCESS_RULES[tier];
+  return entitlements.getFeatures(tier);
 }
 
 /**
@@ -107,15 +39,14 @@ export function canAccessFeature(
   tier: SubscriptionTier,
   feature: keyof SubscriptionFeatures
 ): boolean {
-  const features = getFeaturesForTier(tier);
-  return Boolean(features[feature]);
+  return entitlements.canAccess(tier, feature);
 }
 
 /**
  * Get usage limit for a specific feature and tier
  */
 export function getUsageLimit(tier: SubscriptionTier, feature: string): number {
-  return USAGE_LIMITS[tier][feature] || 0;
+  return entitlements.getLimit(tier, feature);
 }
 
 /**
@@ -125,7 +56,7 @@ export function hasUnlimitedUsage(
   tier: SubscriptionTier,
   feature: string
 ): boolean {
-  return getUsageLimit(tier, feature) === -1;
+  return entitlements.isUnlimited(tier, feature);
 }
 
 /**
@@ -146,66 +77,40 @@ export function getTrackedFeatures(): string[] {
  * Get feature comparison data for UI display
  */
 export function getFeatureComparison() {
+  const tiers = ["free", "premium", "premiumPlus"] as const;
+  const perMonth = (feature: string) => {
+    const row = {} as Record<SubscriptionTier, string | boolean>;
+    for (const tier of tiers) {
+      const limit = getUsageLimit(tier, feature);
+      row[tier] =
+        limit === -1 ? "Unlimited" : limit === 0 ? false : `${limit} per month`;
+    }
+    return row;
+  };
+  const included = (feature: keyof SubscriptionFeatures) => {
+    const row = {} as Record<SubscriptionTier, boolean>;
+    for (const tier of tiers) {
+      row[tier] = canAccessFeature(tier, feature);
+    }
+    return row;
+  };
+
   return [
-    {
-      feature: "Send Messages",
-      free: "5 per month",
-      premium: "Unlimited",
-      premiumPlus: "Unlimited",
-    },
-    {
-      feature: "Send Interests",
-      free: "3 per month",
-      premium: "Unlimited",
-      premiumPlus: "Unlimited",
-    },
+    { feature: "Send Messages", ...perMonth("message_sent") },
+    { feature: "Send Interests", ...perMonth("interest_sent") },
     {
       feature: "Advanced Search Filters",
-      free: false,
-      premium: true,
-      premiumPlus: true,
+      ...included("canUseAdvancedFilters"),
     },
     {
       feature: "See Who Viewed Your Profile",
-      free: false,
-      premium: true,
-      premiumPlus: true,
-    },
-    {
-      feature: "Profile Boost",
-      free: false,
-      premium: "1 per month",
-      premiumPlus: "Unlimited",
-    },
-    {
-      feature: "Read Receipts",
-      free: false,
-      premium: true,
-      premiumPlus: true,
-    },
-    {
-      feature: "See Who Liked You",
-      free: false,
-      premium: false,
-      premiumPlus: true,
-    },
-    {
-      feature: "Incognito Browsing",
-      free: false,
-      premium: false,
-      premiumPlus: true,
-    },
-    {
-      feature: "Priority Support",
-      free: false,
-      premium: true,
-      premiumPlus: true,
-    },
-    {
-      feature: "Spotlight Badge",
-      free: false,
-      premium: false,
-      premiumPlus: true,
+      ...included("canViewProfileViewers"),
     },
+    { feature: "Profile Boost", ...perMonth("profile_boost_used") },
+    { feature: "Read Receipts", ...included("canSeeReadReceipts") },
+    { feature: "See Who Liked You", ...included("canViewWhoLikedMe") },
+    { feature: "Incognito Browsing", ...included("canUseIncognitoMode") },
+    { feature: "Priority Support", ...included("canAccessPrioritySupport") },
+    { feature: "Spotlight Badge", ...included("hasSpotlightBadge") },
   ];
 }
@@ -0,0 +1,258 @@
+import { getTierLabel } from "./entitlements";
+import type {
+  LifecycleBanner,
+  LifecycleBannerAction,
+  SubscriptionLifecycle,
+  SubscriptionLifecycleEvent,
+  SubscriptionLifecycleState,
+  UserSubscription,
+} from "../types/subscription";
+
+// Verified receipt as the server reports it
+export type LifecycleReceipt = Partial<
+  Pick<
+    UserSubscription,
+    | "plan"
+    | "status"
+    | "isActive"
+    | "expiresAt"
+    | "trialEndsAt"
+    | "autoRenewing"
+    | "gracePeriodEndsAt"
+    | "refundedAt"
+  >
+>;
+
+/**
+ * Every move the lifecycle can make. Events that don't appear for a state
+ * leave it where it is.
+ */
+export const LIFECYCLE_TRANSITIONS: Record<
+  SubscriptionLifecycleState,
+  Partial<Record<SubscriptionLifecycleEvent, SubscriptionLifecycleState>>
+> = {
+  none: {
+    start_trial: "trial",
+    purchase: "active",
+  },
+  trial: {
+    convert: "active",
+    cancel: "cancelled_active",
+    billing_failed: "grace_period",
+    expire: "expired",
+    refund: "refunded",
+  },
+  active: {
+    renew: "active",
+    cancel: "cancelled_active",
+    billing_failed: "grace_period",
+    expire: "expired",
+    refund: "refunded",
+  },
+  cancelled_active: {
+    resume: "active",
+    expire: "expired",
+    refund: "refunded",
+  },
+  grace_period: {
+    billing_recovered: "active",
+    grace_ended: "on_hold",
+    // The stores stop retrying once the user cancels
+    cancel: "expired",
+    refund: "refunded",
+  },
+  on_hold: {
+    billing_recovered: "active",
+    cancel: "expired",
+    expire: "expired",
+  },
+  expired: {
+    purchase: "active",
+  },
+  refunded: {
+    purchase: "active",
+  },
+};
+
+const ENTITLED_STATES: SubscriptionLifecycleState[] = [
+  "trial",
+  "active",
+  "cancelled_active",
+  "grace_period",
+];
+
+export function transitionLifecycle(
+  state: SubscriptionLifecycleState,
+  event: SubscriptionLifecycleEvent
+): SubscriptionLifecycleState {
+  return LIFECYCLE_TRANSITIONS[state][event] ?? state;
+}
+
+/**
+ * The event that explains a move between two observed states, or null when
+ * nothing changed or the move skipped steps we didn't see
+ */
+export function inferLifecycleEvent(
+  from: SubscriptionLifecycleState,
+  to: SubscriptionLifecycleState
+): SubscriptionLifecycleEvent | null {
+  if (from === to) return null;
+  const transitions = LIFECYCLE_TRANSITIONS[from];
+  const event = (Object.keys(transitions) as SubscriptionLifecycleEvent[]).find(
+    (candidate) => transitions[candidate] === to
+  );
+  return event ?? null;
+}
+
+export function isEntitledState(state: SubscriptionLifecycleState): boolean {
+  return ENTITLED_STATES.includes(state);
+}
+
+/**
+ * Reads the lifecycle state off a receipt. Dates win over a stale status,
+ * so a record that says "active" past its expiry counts as expired.
+ */
+export function deriveLifecycleState(
+  receipt: LifecycleReceipt | null | undefined,
+  now = Date.now()
+): SubscriptionLifecycleState {
+  if (!receipt) return "none";
+  const { status } = receipt;
+
+  if (status === "refunded" || receipt.refundedAt) return "refunded";
+  if (status === "grace_period") {
+    return receipt.gracePeriodEndsAt && receipt.gracePeriodEndsAt > now
+      ? "grace_period"
+      : "on_hold";
+  }
+  if (status === "on_hold") return "on_hold";
+  if (status === "expired") return "expired";
+  if (status === "pending") return "none";
+  if (!status && (!receipt.plan || receipt.plan === "free")) return "none";
+
+  const paidUntil =
+    status === "trial"
+      ? receipt.trialEndsAt ?? receipt.expiresAt
+      : receipt.expiresAt;
+  if (paidUntil !== undefined && paidUntil <= now) return "expired";
+  if (!status && receipt.isActive === false) return "expired";
+
+  if (status === "cancelled" || receipt.autoRenewing === false) {
+    return "cancelled_active";
+  }
+  return status === "trial" ? "trial" : "active";
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "short",
+  });
+}
+
+/**
+ * The in-app prompt for a lifecycle, if the user needs to do something
+ */
+export function getLifecycleBanner(
+  state: SubscriptionLifecycleState,
+  plan: UserSubscription["plan"],
+  accessUntil?: number
+): LifecycleBanner | null {
+  const label = getTierLabel(plan === "free" ? "premium" : plan);
+  const until = accessUntil ? formatDate(accessUntil) : null;
+
+  switch (state) {
+    case "grace_period":
+      return {
+        severity: "warning",
+        title: "Payment didn't go through",
+        message: until
+          ? `We couldn't renew ${label}. Update your payment method by ${until} to keep your benefits.`
+          : `We couldn't renew ${label}. Update your payment method to keep your benefits.`,
+        action: "fix_payment",
+        actionLabel: "Update payment",
+      };
+    case "on_hold":
+      return {
+        severity: "error",
+        title: `${label} is paused`,
+        message: `Your last payment failed, so ${label} features are paused. Update your payment method to get them back.`,
+        action: "fix_payment",
+        actionLabel: "Fix payment",
+      };
+    case "cancelled_active":
+      return {
+        severity: "info",
+        title: "Your plan won't renew",
+        message: until
+          ? `You'll keep ${label} until ${until}. Turn auto-renew back on to stay subscribed.`
+          : `Turn auto-renew back on to keep ${label}.`,
+        action: "manage",
+        actionLabel: "Manage",
+      };
+    case "refunded":
+      return {
+        severity: "info",
+        title: "Purchase refunded",
+        message: `Your ${label} purchase was refunded, so its features have been removed.`,
+        action: "resubscribe",
+        actionLabel: "See plans",
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Lifecycle state plus everything that hangs off it: whether paid features
+ * are on, which tier to grant and what to tell the user
+ */
+export function getSubscriptionLifecycle(
+  receipt: LifecycleReceipt | null | undefined,
+  now = Date.now()
+): SubscriptionLifecycle {
+  const state = deriveLifecycleState(receipt, now);
+  const plan = receipt?.plan ?? "free";
+  const entitled = isEntitledState(state) && plan !== "free";
+
+  let accessUntil: number | undefined;
+  if (state === "trial") {
+    accessUntil = receipt?.trialEndsAt ?? receipt?.expiresAt;
+  } else if (state === "grace_period") {
+    accessUntil = receipt?.gracePeriodEndsAt;
+  } else if (state === "active" || state === "cancelled_active") {
+    accessUntil = receipt?.expiresAt;
+  }
+
+  return {
+    state,
+    entitled,
+    tier: entitled ? plan : "free",
+    accessUntil,
+    banner: getLifecycleBanner(state, plan, accessUntil),
+  };
+}
+
+const ANDROID_PACKAGE_NAME = "com.aroosi.mobile";
+
+/**
+ * Store page for acting on a banner. Play deep links straight to the
+ * subscription when the product is known.
+ */
+export function getManageSubscriptionUrl(
+  platform: "ios" | "android",
+  action: LifecycleBannerAction = "manage",
+  productId?: string
+): string {
+  if (platform === "ios") {
+    return action === "fix_payment"
+      ? "https://apps.apple.com/account/billing"
+      : "itms-apps://apps.apple.com/account/subscriptions";
+  }
+  const base = "https://play.google.com/store/account/subscriptions";
+  return productId
+    ? `${base}?sku=${encodeURIComponent(
+        productId
+      )}&package=${ANDROID_PACKAGE_NAME}`
+    : base;
+}
@@ -0,0 +1,267 @@
+import type {
+  OfferEligibility,
+  OfferPeriod,
+  SignedPromotionalOffer,
+  SubscriptionOffer,
+  SubscriptionOfferType,
+} from "../types/inAppPurchase";
+import type { UserSubscription } from "../types/subscription";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const IOS_UNITS: Record<string, OfferPeriod["unit"]> = {
+  DAY: "day",
+  WEEK: "week",
+  MONTH: "month",
+  YEAR: "year",
+};
+
+const ISO_UNITS: Record<string, OfferPeriod["unit"]> = {
+  D: "day",
+  W: "week",
+  M: "month",
+  Y: "year",
+};
+
+/**
+ * Play billing periods are ISO 8601 durations such as "P1W" or "P3M"
+ */
+export function parseBillingPeriod(period: string | undefined): OfferPeriod {
+  const match = /^P(\d+)([DWMY])$/.exec(period || "");
+  if (!match) return { unit: "month", value: 1 };
+  return { unit: ISO_UNITS[match[2]], value: Number(match[1]) };
+}
+
+function androidOffers(product: any, productId: string): SubscriptionOffer[] {
+  const details: any[] =
+    product?.subscriptionOfferDetailsAndroid ??
+    product?.subscriptionOfferDetails ??
+    [];
+  return details
+    .filter((detail) => !!detail?.offerId)
+    .map((detail): SubscriptionOffer | null => {
+      const phases: any[] = detail.pricingPhases?.pricingPhaseList ?? [];
+      // The last phase is the regular price; anything before it is the offer
+      const first = phases[0];
+      if (!first || phases.length < 2) return null;
+      const isFree = String(first.priceAmountMicros) === "0";
+      // Offers with developer-decided eligibility are tagged in Play Console
+      const isPromo = (detail.offerTags ?? []).includes("promo");
+      const type: SubscriptionOfferType = isPromo
+        ? "promotional"
+        : isFree
+        ? "free_trial"
+        : "intro";
+      return {
+        id: detail.offerId,
+        productId,
+        type,
+        displayPrice: isFree ? "" : first.formattedPrice,
+        period: parseBillingPeriod(first.billingPeriod),
+        cycles: Math.max(1, Number(first.billingCycleCount) || 1),
+        offerToken: detail.offerToken,
+        // Play only lists offers the account qualifies for
+        eligible: true,
+      };
+    })
+    .filter((offer): offer is SubscriptionOffer => offer !== null);
+}
+
+function iosOffers(product: any, productId: string): SubscriptionOffer[] {
+  const info = product?.subscriptionInfoIOS ?? product?.subscription;
+  const fromStoreKit = (offer: any, type: SubscriptionOfferType) => ({
+    id: offer.id,
+    productId,
+    type,
+    displayPrice: offer.paymentMode === "FREETRIAL" ? "" : offer.displayPrice,
+    period: {
+      unit: IOS_UNITS[offer.period?.unit] ?? "month",
+      value: offer.period?.value || 1,
+    },
+    cycles: Math.max(1, Number(offer.periodCount) || 1),
+    // Intro eligibility is checked with the store; promotions with the server
+    eligible: type !== "promotional",
+  });
+
+  const offers: SubscriptionOffer[] = [];
+  if (info?.introductoryOffer) {
+    const intro = info.introductoryOffer;
+    offers.push(
+      fromStoreKit(
+        { ...intro, id: intro.id || "introductory" },
+        intro.paymentMode === "FREETRIAL" ? "free_trial" : "intro"
+      )
+    );
+  }
+  for (const promo of info?.promotionalOffers ?? []) {
+    offers.push(fromStoreKit(promo, "promotional"));
+  }
+  return offers;
+}
+
+/**
+ * Normalizes the trials, intro prices and promotions a store product
+ * carries into one shape for both platforms
+ */
+export function extractStoreOffers(
+  product: any,
+  platform: "ios" | "android"
+): SubscriptionOffer[] {
+  const productId = product?.id || product?.productId || product?.sku;
+  if (!productId) return [];
+  return platform === "android"
+    ? androidOffers(product, productId)
+    : iosOffers(product, productId);
+}
+
+/**
+ * The Play offer token for buying at the regular price
+ */
+export function getBaseOfferToken(product: any): string | undefined {
+  const details: any[] =
+    product?.subscriptionOfferDetailsAndroid ??
+    product?.subscriptionOfferDetails ??
+    [];
+  return (details.find((detail) => !detail?.offerId) ?? details[0])?.offerToken;
+}
+
+/**
+ * Narrows store offers to what this user may actually take. A trial or
+ * intro price used on one platform counts on the other, which the stores
+ * can't know, and promotions need the server's say-so.
+ */
+export function applyOfferEligibility(
+  offers: SubscriptionOffer[],
+  eligibility: OfferEligibility | null,
+  storeIntroEligible = true
+): SubscriptionOffer[] {
+  return offers.map((offer) => {
+    if (offer.type === "promotional") {
+      return {
+        ...offer,
+        eligible: !!eligibility?.promotionalOfferIds.includes(offer.id),
+      };
+    }
+    return {
+      ...offer,
+      eligible:
+        offer.eligible &&
+        storeIntroEligible &&
+        (eligibility?.introEligible ?? true),
+    };
+  });
+}
+
+const OFFER_PREFERENCE: SubscriptionOfferType[] = [
+  "free_trial",
+  "promotional",
+  "intro",
+];
+
+/**
+ * The offer to preselect: a free trial first, then a granted promotion,
+ * then an intro price
+ */
+export function pickDefaultOffer(
+  offers: SubscriptionOffer[] | undefined
+): SubscriptionOffer | null {
+  const eligible = (offers ?? []).filter((offer) => offer.eligible);
+  for (const type of OFFER_PREFERENCE) {
+    const offer = eligible.find((o) => o.type === type);
+    if (offer) return offer;
+  }
+  return null;
+}
+
+export function formatOfferDuration(period: OfferPeriod, cycles = 1): string {
+  const total = period.value * cycles;
+  // Trials are usually configured in weeks but read better in days
+  if (period.unit === "week" && total < 4) {
+    return `${total * 7} days`;
+  }
+  return `${total} ${period.unit}${total === 1 ? "" : "s"}`;
+}
+
+/**
+ * One-line summary such as "7 days free, then £14.99/month"
+ */
+export function describeOffer(
+  offer: SubscriptionOffer,
+  regularPrice?: string
+): string {
+  const duration = formatOfferDuration(offer.period, offer.cycles);
+  const lead =
+    offer.type === "free_trial" || !offer.displayPrice
+      ? `${duration} free`
+      : offer.cycles > 1
+      ? `${offer.displayPrice}/${offer.period.unit} for ${duration}`
+      : `${offer.displayPrice} for ${duration}`;
+  return regularPrice ? `${lead}, then ${regularPrice}` : lead;
+}
+
+export function getOfferLabel(type: SubscriptionOfferType): string {
+  switch (type) {
+    case "free_trial":
+      return "Free trial";
+    case "intro":
+      return "Intro offer";
+    default:
+      return "Special offer";
+  }
+}
+
+/**
+ * Builds the react-native-iap subscription request for a product,
+ * optionally starting with an offer. Promotional App Store offers must
+ * carry a server signature.
+ */
+export function buildSubscriptionRequest(
+  productId: string,
+  storeProduct: any,
+  offer?: SubscriptionOffer | null,
+  signedOffer?: SignedPromotionalOffer | null
+) {
+  const offerToken = offer?.offerToken ?? getBaseOfferToken(storeProduct);
+  return {
+    ios: {
+      sku: productId,
+      andDangerouslyFinishTransactionAutomatically: false,
+      ...(offer?.type === "promotional" && signedOffer
+        ? { withOffer: signedOffer }
+        : {}),
+    },
+    android: {
+      skus: [productId],
+      ...(offerToken
+        ? { subscriptionOffers: [{ sku: productId, offerToken }] }
+        : {}),
+    },
+  };
+}
+
+export interface TrialState {
+  inTrial: boolean;
+  endsAt?: number;
+  daysLeft: number;
+}
+
+/**
+ * Where a subscription is in its free trial, if it has one
+ */
+export function getTrialState(
+  subscription: Pick<
+    UserSubscription,
+    "status" | "trialEndsAt" | "expiresAt"
+  > | null,
+  now = Date.now()
+): TrialState {
+  const endsAt = subscription?.trialEndsAt ?? subscription?.expiresAt;
+  if (subscription?.status !== "trial" || !endsAt || endsAt <= now) {
+    return { inTrial: false, daysLeft: 0 };
+  }
+  return {
+    inTrial: true,
+    endsAt,
+    daysLeft: Math.ceil((endsAt - now) / DAY_MS),
+  };
+}
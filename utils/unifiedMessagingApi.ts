@@ -1,5 +1,5 @@
 import { MessagingAPI, ApiResponse } from "../types/messaging";
-import { Message as UnifiedMessage } from "../types/message";
+import { EncryptedEnvelope, Message as UnifiedMessage } from "../types/message";
 import { MessageValidator } from "./messageValidation";
 import { ApiRetryManager } from "./apiRetryManager";
 import { apiClient } from "./api";
@@ -148,8 +148,13 @@ export class UnifiedMessagingAPI implements MessagingAPI {
     type?: "text" | "voice" | "image";
     audioStorageId?: string;
     duration?: number;
+    voiceWaveform?: number[];
+    transcript?: string;
+    transcriptLanguage?: string;
     fileSize?: number;
     mimeType?: string;
+    clientMessageId?: string;
+    encrypted?: EncryptedEnvelope;
     // Optional reply metadata for WhatsApp-like reply
     replyTo?: {
       messageId: string;
@@ -167,10 +172,16 @@ export class UnifiedMessagingAPI implements MessagingAPI {
       } as ApiResponse<UnifiedMessage>;
     }
 
+    // Retries of the same send reuse the key, so the server stores it once
+    const headers = data.clientMessageId
+      ? { "Idempotency-Key": data.clientMessageId }
+      : undefined;
+
     try {
       // Prefer web endpoint first: POST /api/messages/send
       let response = await this.request<UnifiedMessage>("/messages/send", {
         method: "POST",
+        headers,
         body: JSON.stringify({
           conversationId: data.conversationId,
           fromUserId: data.fromUserId,
@@ -179,8 +190,13 @@ export class UnifiedMessagingAPI implements MessagingAPI {
           type: data.type || "text",
           audioStorageId: data.audioStorageId,
           duration: data.duration,
+          voiceWaveform: data.voiceWaveform,
+          transcript: data.transcript,
+          transcriptLanguage: data.transcriptLanguage,
           fileSize: data.fileSize,
           mimeType: data.mimeType,
+          clientMessageId: data.clientMessageId,
+          encrypted: data.encrypted,
           // Denormalised reply fields expected by server (see web firestore.rules)
           replyToMessageId: data.replyTo?.messageId,
           replyToText: data.replyTo?.text,
@@ -195,6 +211,7 @@ export class UnifiedMessagingAPI implements MessagingAPI {
           // Fallback to legacy: POST /api/match-messages
           response = await this.request<UnifiedMessage>("/match-messages", {
             method: "POST",
+            headers,
             body: JSON.stringify({
               conversationId: data.conversationId,
               fromUserId: data.fromUserId,
@@ -203,8 +220,13 @@ export class UnifiedMessagingAPI implements MessagingAPI {
               type: data.type || "text",
               audioStorageId: data.audioStorageId,
               duration: data.duration,
+              voiceWaveform: data.voiceWaveform,
+              transcript: data.transcript,
+              transcriptLanguage: data.transcriptLanguage,
               fileSize: data.fileSize,
               mimeType: data.mimeType,
+              clientMessageId: data.clientMessageId,
+              encrypted: data.encrypted,
               replyToMessageId: data.replyTo?.messageId,
               replyToText: data.replyTo?.text,
               replyToType: data.replyTo?.type,
@@ -549,6 +571,10 @@ export class UnifiedMessagingAPI implements MessagingAPI {
       // Voice message fields
       audioStorageId: rawMessage.audioStorageId,
       duration: rawMessage.duration || rawMessage.voiceDuration,
+      transcript: rawMessage.transcript,
+      transcriptStatus: rawMessage.transcriptStatus,
+      transcriptLanguage: rawMessage.transcriptLanguage,
+      listenedAt: rawMessage.listenedAt,
 
       // Image message fields
       imageStorageId: rawMessage.imageStorageId,
@@ -561,6 +587,10 @@ export class UnifiedMessagingAPI implements MessagingAPI {
       status: this.normalizeMessageStatus(rawMessage.status),
       isOptimistic: rawMessage.isOptimistic || false,
       deliveryReceipts: rawMessage.deliveryReceipts || [],
+      clientMessageId: rawMessage.clientMessageId,
+      encrypted: rawMessage.encrypted,
+      expiresAt: rawMessage.expiresAt,
+      systemEvent: rawMessage.systemEvent,
 
       // Backward compatibility fields
       id: rawMessage.id,
@@ -0,0 +1,134 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { NetInfoState } from "@react-native-community/netinfo";
+import {
+  AudioQuality,
+  IOSOutputFormat,
+  type RecordingOptions,
+} from "expo-audio";
+
+export type VoiceEncodingProfileName = "high" | "standard" | "low";
+export type VoiceEncodingPreference = VoiceEncodingProfileName | "auto";
+
+export interface VoiceEncodingProfile {
+  name: VoiceEncodingProfileName;
+  codec: "aac" | "he-aac";
+  sampleRate: number;
+  bitRate: number; // bits per second
+  mimeType: string;
+}
+
+/**
+ * Recording profiles for voice messages, mono AAC in an .m4a container.
+ * Voice needs far less than music: "low" is around a fifth of the size of
+ * "high" and still clear on slow cellular uploads.
+ */
+export const VOICE_ENCODING_PROFILES: Record<
+  VoiceEncodingProfileName,
+  VoiceEncodingProfile
+> = {
+  high: {
+    name: "high",
+    codec: "aac",
+    sampleRate: 44100,
+    bitRate: 96000,
+    mimeType: "audio/m4a",
+  },
+  standard: {
+    name: "standard",
+    codec: "aac",
+    sampleRate: 32000,
+    bitRate: 48000,
+    mimeType: "audio/m4a",
+  },
+  low: {
+    name: "low",
+    codec: "he-aac",
+    sampleRate: 32000,
+    bitRate: 24000,
+    mimeType: "audio/m4a",
+  },
+};
+
+const PREFERENCE_KEY = "voice_encoding_profile";
+
+/**
+ * Pick a profile for the network we're on. Unknown or offline networks get
+ * "standard": the clip may be sent later over anything.
+ */
+export function selectVoiceEncodingProfile(
+  network: Pick<NetInfoState, "type" | "details"> | null | undefined,
+  preference: VoiceEncodingPreference = "auto"
+): VoiceEncodingProfile {
+  if (preference !== "auto") return VOICE_ENCODING_PROFILES[preference];
+
+  switch (network?.type) {
+    case "wifi":
+    case "ethernet":
+      return VOICE_ENCODING_PROFILES.high;
+    case "cellular": {
+      const generation = (network.details as { cellularGeneration?: string })
+        ?.cellularGeneration;
+      return generation === "4g" || generation === "5g"
+        ? VOICE_ENCODING_PROFILES.standard
+        : VOICE_ENCODING_PROFILES.low;
+    }
+    default:
+      return VOICE_ENCODING_PROFILES.standard;
+  }
+}
+
+/**
+ * expo-audio recording options for a profile, with metering on so the
+ * waveform can be captured while recording
+ */
+export function toRecordingOptions(
+  profile: VoiceEncodingProfile
+): RecordingOptions {
+  const heAac = profile.codec === "he-aac";
+  return {
+    isMeteringEnabled: true,
+    extension: ".m4a",
+    sampleRate: profile.sampleRate,
+    numberOfChannels: 1,
+    bitRate: profile.bitRate,
+    android: {
+      extension: ".m4a",
+      outputFormat: "mpeg4",
+      audioEncoder: heAac ? "he_aac" : "aac",
+    },
+    ios: {
+      extension: ".m4a",
+      outputFormat: heAac
+        ? IOSOutputFormat.MPEG4AAC_HE
+        : IOSOutputFormat.MPEG4AAC,
+      audioQuality:
+        profile.name === "high" ? AudioQuality.HIGH : AudioQuality.MEDIUM,
+    },
+    web: {
+      mimeType: "audio/mp4",
+      bitsPerSecond: profile.bitRate,
+    },
+  };
+}
+
+export async function getVoiceEncodingPreference(): Promise<VoiceEncodingPreference> {
+  try {
+    const stored = await AsyncStorage.getItem(PREFERENCE_KEY);
+    if (stored === "auto" || (stored && stored in VOICE_ENCODING_PROFILES)) {
+      return stored as VoiceEncodingPreference;
+    }
+  } catch (error) {
+    console.error("VoiceEncoding: Failed to load preference", error);
+  }
+  return "auto";
+}
+
+export async function setVoiceEncodingPreference(
+  preference: VoiceEncodingPreference
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PREFERENCE_KEY, preference);
+  } catch (error) {
+    console.error("VoiceEncoding: Failed to save preference", error);
+  }
+}
@@ -3,12 +3,16 @@ import {
   requestRecordingPermissionsAsync,
   getRecordingPermissionsAsync,
   AudioModule,
-  IOSOutputFormat,
-  AudioQuality,
 } from "expo-audio";
 import { VoiceRecorder } from "../types/messaging";
 import { Platform } from "react-native";
 import * as FileSystem from "expo-file-system/legacy";
+import { DEFAULT_WAVEFORM_BARS, WaveformCollector } from "./peaks";
+import {
+  VOICE_ENCODING_PROFILES,
+  VoiceEncodingProfile,
+  toRecordingOptions,
+} from "./voiceEncoding";
 
 /**
  * Voice recorder implementation for React Native using expo-audio
@@ -19,14 +23,28 @@ export class ExpoVoiceRecorder implements VoiceRecorder {
   private recordingUri: string | null = null;
   private startTime: number = 0;
   private durationInterval: NodeJS.Timeout | null = null;
+  private waveform = new WaveformCollector();
 
   public isRecording = false;
   public duration = 0;
 
-  constructor() {
+  constructor(
+    private profile: VoiceEncodingProfile = VOICE_ENCODING_PROFILES.high
+  ) {
     this.setupAudio();
   }
 
+  /**
+   * Encoding for the next recording, e.g. a smaller profile on slow networks
+   */
+  setProfile(profile: VoiceEncodingProfile): void {
+    this.profile = profile;
+  }
+
+  getProfile(): VoiceEncodingProfile {
+    return this.profile;
+  }
+
   /**
    * Sets up audio recording configuration
    */
@@ -61,43 +79,22 @@ export class ExpoVoiceRecorder implements VoiceRecorder {
         await this.stopRecording();
       }
 
-      // Create new recording
+      // Create new recording; metering feeds the waveform
+      const options = toRecordingOptions(this.profile);
       this.recording = new AudioModule.AudioRecorder({});
-      await this.recording.prepareToRecordAsync({
-        // Common
-        isMeteringEnabled: false,
-        extension: ".m4a",
-        sampleRate: 44100,
-        numberOfChannels: 1,
-        bitRate: 128000,
-        // Android
-        android: {
-          extension: ".m4a",
-          outputFormat: "mpeg4",
-          audioEncoder: "aac",
-        },
-        // iOS
-        ios: {
-          extension: ".m4a",
-          audioQuality: AudioQuality.HIGH,
-          outputFormat: IOSOutputFormat.MPEG4AAC,
-        },
-        // Web (best-effort)
-        web: {
-          mimeType: "audio/mp4",
-          bitsPerSecond: 128000,
-        },
-      });
+      await this.recording.prepareToRecordAsync(options);
       this.recording.record();
 
       this.isRecording = true;
       this.startTime = Date.now();
       this.duration = 0;
+      this.waveform.reset();
 
-      // Start duration tracking
+      // Start duration and level tracking
       this.durationInterval = setInterval(() => {
-        if (this.isRecording) {
+        if (this.isRecording && this.recording) {
           this.duration = Math.floor((Date.now() - this.startTime) / 1000);
+          this.waveform.add(this.recording.getStatus().metering);
         }
       }, 100);
 
@@ -159,6 +156,14 @@ export class ExpoVoiceRecorder implements VoiceRecorder {
     }
   }
 
+  /**
+   * Peaks of the last recording, from metering captured while recording.
+   * Empty when the platform reported no levels.
+   */
+  getWaveform(bars: number = DEFAULT_WAVEFORM_BARS): number[] {
+    return this.waveform.toPeaks(bars);
+  }
+
   /**
    * Cancels the current recording
    */
@@ -204,7 +209,7 @@ export class ExpoVoiceRecorder implements VoiceRecorder {
         }
         const byteArray = new Uint8Array(byteNumbers);
 
-        return new Blob([byteArray], { type: "audio/m4a" });
+        return new Blob([byteArray], { type: this.profile.mimeType });
       }
     } catch (error) {
       console.error("Failed to convert file to blob:", error);
@@ -276,6 +281,8 @@ export class ExpoVoiceRecorder implements VoiceRecorder {
 /**
  * Factory function to create a voice recorder instance
  */
-export function createVoiceRecorder(): VoiceRecorder {
-  return new ExpoVoiceRecorder();
+export function createVoiceRecorder(
+  profile?: VoiceEncodingProfile
+): VoiceRecorder {
+  return new ExpoVoiceRecorder(profile);
 }
@@ -0,0 +1,150 @@
+import { DEFAULT_WAVEFORM_BARS, resamplePeaks } from "./peaks";
+
+// Seconds kept from a recording: [start, end)
+export interface VoiceTrimRange {
+  start: number;
+  end: number;
+}
+
+// Shortest clip trimming may leave
+export const MIN_TRIMMED_DURATION = 1;
+
+/**
+ * Clamp a trim range to the recording, keeping at least
+ * MIN_TRIMMED_DURATION seconds (or the whole clip if it's shorter)
+ */
+export function normalizeTrim(
+  range: Partial<VoiceTrimRange> | undefined,
+  duration: number
+): VoiceTrimRange {
+  const total = Math.max(0, duration);
+  const minimum = Math.min(MIN_TRIMMED_DURATION, total);
+  const end = Math.min(total, Math.max(minimum, range?.end ?? total));
+  const start = Math.max(0, Math.min(range?.start ?? 0, end - minimum));
+  return { start, end };
+}
+
+export function isTrimmed(range: VoiceTrimRange, duration: number): boolean {
+  return range.start > 0 || range.end < duration;
+}
+
+/**
+ * The part of a recording's waveform inside the trim range, redrawn at the
+ * usual bar count
+ */
+export function trimWaveform(
+  peaks: number[],
+  duration: number,
+  range: VoiceTrimRange,
+  bars: number = DEFAULT_WAVEFORM_BARS
+): number[] {
+  if (peaks.length === 0 || duration <= 0) return peaks;
+  const from = Math.floor((range.start / duration) * peaks.length);
+  const to = Math.ceil((range.end / duration) * peaks.length);
+  return resamplePeaks(peaks.slice(from, Math.max(from + 1, to)), bars);
+}
+
+/**
+ * Cuts a recording down to a range, writing a new file
+ */
+export interface VoiceClipTrimmer {
+  trim(
+    uri: string,
+    range: VoiceTrimRange
+  ): Promise<{ uri: string; mimeType: string }>;
+}
+
+/**
+ * Trims with Web Audio and writes 16 kHz mono WAV, which every client can
+ * play. Larger than the AAC recording, but only the kept part is sent.
+ */
+export class WebAudioClipTrimmer implements VoiceClipTrimmer {
+  constructor(private sampleRate = 16000) {}
+
+  async trim(
+    uri: string,
+    range: VoiceTrimRange
+  ): Promise<{ uri: string; mimeType: string }> {
+    const AudioContextClass =
+      (window as any).AudioContext || (window as any).webkitAudioContext;
+    const OfflineContextClass =
+      (window as any).OfflineAudioContext ||
+      (window as any).webkitOfflineAudioContext;
+
+    const ctx = new AudioContextClass();
+    try {
+      const res = await fetch(uri);
+      const decoded = await ctx.decodeAudioData(await res.arrayBuffer());
+
+      const seconds = Math.max(0, range.end - range.start);
+      const offline = new OfflineContextClass(
+        1,
+        Math.max(1, Math.ceil(seconds * this.sampleRate)),
+        this.sampleRate
+      );
+      const source = offline.createBufferSource();
+      source.buffer = decoded;
+      source.connect(offline.destination);
+      source.start(0, range.start, seconds);
+      const rendered = await offline.startRendering();
+
+      const wav = encodeWav(rendered.getChannelData(0), this.sampleRate);
+      return {
+        uri: URL.createObjectURL(new Blob([wav], { type: "audio/wav" })),
+        mimeType: "audio/wav",
+      };
+    } finally {
+      ctx.close?.();
+    }
+  }
+}
+
+/**
+ * The trimmer for this platform, or null when recordings can't be trimmed
+ * here. expo-audio has no encoder on native, so only web trims for now.
+ */
+export function getVoiceClipTrimmer(): VoiceClipTrimmer | null {
+  const hasWebAudio =
+    typeof window !== "undefined" &&
+    !!(
+      (window as any).OfflineAudioContext ||
+      (window as any).webkitOfflineAudioContext
+    );
+  return hasWebAudio ? new WebAudioClipTrimmer() : null;
+}
+
+/**
+ * 16-bit PCM WAV from mono samples in [-1..1]
+ */
+export function encodeWav(
+  samples: Float32Array,
+  sampleRate: number
+): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return buffer;
+}
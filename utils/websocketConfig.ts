@@ -1,4 +1,4 @@
-import { Platform } from "react-native";
+import type { RealtimeTransportKind } from "./realtimeTransport";
 
 // WebSocket configuration for mobile app
 export const WEBSOCKET_CONFIG = {
@@ -24,6 +24,15 @@ export const WEBSOCKET_CONFIG = {
     heartbeatInterval: 30000,
   },
 
+  // HTTP fallbacks for networks that block WebSockets, tried in this order
+  FALLBACK: {
+    TRANSPORTS: ["websocket", "sse", "long-poll"] as RealtimeTransportKind[],
+    SSE_PATH: "/api/realtime/stream",
+    SEND_PATH: "/api/realtime/send",
+    OPEN_TIMEOUT: 3000,
+    POLL_INTERVAL: 3000,
+  },
+
   // Message types - aligned with Vercel endpoint
   MESSAGE_TYPES: {
     JOIN_CONVERSATION: "join_conversation",
@@ -31,6 +40,7 @@ export const WEBSOCKET_CONFIG = {
     TYPING: "typing",
     DELIVERY_RECEIPT: "delivery_receipt",
     READ_RECEIPT: "read_receipt",
+    LISTENED_RECEIPT: "listened_receipt",
     PING: "ping",
     PONG: "pong",
   },